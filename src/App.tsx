@@ -26,6 +26,15 @@ import { Calendar } from './pages/Calender';
 import { UserFirstLogin } from './pages/UserFirstLogin';
 import { DynamicDashboard } from './pages/DynamicDashboard';
 import { DashboardBuilder } from './pages/DashboardBuilder';
+import { MyTasks } from './pages/MyTasks';
+import { Labour } from './pages/Labour';
+import { PurchaseOrders } from './pages/PurchaseOrders';
+import { Invoices } from './pages/Invoices';
+import { Vendors } from './pages/Vendors';
+import { SiteLogs } from './pages/SiteLogs';
+import { PunchList } from './pages/PunchList';
+import { Inspections } from './pages/Inspections';
+import { Safety } from './pages/Safety';
 
 // Loading component
 function LoadingScreen() {
@@ -139,6 +148,14 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/my-tasks"
+        element={
+          <ProtectedRoute requiredPermission="view_phases">
+            <MyTasks />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/expenses"
         element={
@@ -147,6 +164,46 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/labour"
+        element={
+          <ProtectedRoute requiredPermission="view_labour">
+            <Labour />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/site-logs"
+        element={
+          <ProtectedRoute requiredPermission="view_site_logs">
+            <SiteLogs />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/punch-list"
+        element={
+          <ProtectedRoute requiredPermission="view_snags">
+            <PunchList />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/inspections"
+        element={
+          <ProtectedRoute requiredPermission="view_inspections">
+            <Inspections />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/safety"
+        element={
+          <ProtectedRoute requiredPermission="view_safety">
+            <Safety />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/materials"
         element={
@@ -155,6 +212,30 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/purchase-orders"
+        element={
+          <ProtectedRoute requiredPermission="view_materials">
+            <PurchaseOrders />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/vendors"
+        element={
+          <ProtectedRoute requiredPermission="view_vendors">
+            <Vendors />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/invoices"
+        element={
+          <ProtectedRoute requiredPermission="view_invoices">
+            <Invoices />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/reports"
         element={
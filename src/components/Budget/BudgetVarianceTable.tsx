@@ -0,0 +1,306 @@
+import { useState, useEffect } from "react";
+import { PostgrestError } from "@supabase/supabase-js";
+import { Plus, Trash2, AlertTriangle } from "lucide-react";
+import {
+  listBudgetVariance,
+  listProjectPhases,
+  createBudgetLine,
+  updateBudgetLine,
+  deleteBudgetLine,
+} from "../../lib/repositories";
+import type { BudgetVariance, ProjectPhase } from "../../types";
+import { EXPENSE_CATEGORY_OPTIONS } from "../Expenses/expenseCategories";
+
+interface BudgetVarianceTableProps {
+  projectId: string;
+  // Project.budget, to show how much of it the lines have allocated
+  projectBudget?: number | null;
+  canEdit: boolean;
+}
+
+// "Other" expenses are stored under their custom category, so it can't be budgeted
+const BUDGET_CATEGORIES = EXPENSE_CATEGORY_OPTIONS.filter((c) => c !== "Other");
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`;
+
+const consumedColor = (line: BudgetVariance) => {
+  const percent = Number(line.percent_consumed ?? 0);
+  if (percent > 100) return "bg-red-500";
+  if (percent >= Number(line.warn_at_percent)) return "bg-amber-500";
+  return "bg-green-500";
+};
+
+/**
+ * Budget vs actual for a project: one row per phase and category with what is
+ * committed, spent and left. Editors can add, change and remove lines.
+ */
+export function BudgetVarianceTable({ projectId, projectBudget, canEdit }: BudgetVarianceTableProps) {
+  const [lines, setLines] = useState<BudgetVariance[]>([]);
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newLine, setNewLine] = useState({ phase_id: "", category: BUDGET_CATEGORIES[0], amount: "", warn_at_percent: "100" });
+
+  const fetchLines = async () => {
+    try {
+      setLines(await listBudgetVariance(projectId));
+    } catch (error) {
+      console.error("Error fetching budget:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLines();
+    listProjectPhases(projectId)
+      .then(setPhases)
+      .catch((error) => console.error("Error fetching phases:", error));
+  }, [projectId]);
+
+  const handleAdd = async () => {
+    const amount = parseFloat(newLine.amount);
+    if (!newLine.phase_id || !(amount >= 0)) {
+      alert("Please select a phase and enter the budgeted amount");
+      return;
+    }
+
+    try {
+      await createBudgetLine({
+        project_id: projectId,
+        phase_id: newLine.phase_id,
+        category: newLine.category,
+        amount,
+        warn_at_percent: parseFloat(newLine.warn_at_percent) || 100,
+        notes: null,
+      });
+      setNewLine({ ...newLine, amount: "" });
+      await fetchLines();
+    } catch (error) {
+      console.error("Error adding budget line:", error);
+      alert(
+        error instanceof PostgrestError && error.code === "23505"
+          ? "This phase already has a budget for that category"
+          : `Failed to add budget line: ${error instanceof Error ? error.message : "Please try again."}`
+      );
+    }
+  };
+
+  const handleUpdate = async (line: BudgetVariance, field: "amount" | "warn_at_percent", value: string) => {
+    const parsed = parseFloat(value);
+    const current = field === "amount" ? line.budgeted : line.warn_at_percent;
+    if (isNaN(parsed) || parsed === Number(current)) return;
+
+    try {
+      await updateBudgetLine(line.budget_line_id, { [field]: parsed });
+      await fetchLines();
+    } catch (error) {
+      console.error("Error updating budget line:", error);
+      alert(`Failed to update budget line: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleDelete = async (line: BudgetVariance) => {
+    if (!window.confirm(`Remove the ${line.category} budget for this phase?`)) return;
+
+    try {
+      await deleteBudgetLine(line.budget_line_id);
+      await fetchLines();
+    } catch (error) {
+      console.error("Error deleting budget line:", error);
+      alert(`Failed to delete budget line: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const totals = lines.reduce(
+    (sum, line) => ({
+      budgeted: sum.budgeted + Number(line.budgeted),
+      committed: sum.committed + Number(line.committed),
+      spent: sum.spent + Number(line.spent),
+    }),
+    { budgeted: 0, committed: 0, spent: 0 }
+  );
+  const overBudget = lines.filter((line) => Number(line.remaining) < 0);
+
+  if (loading) {
+    return <p className="text-gray-500 text-center py-4">Loading budget...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-white rounded-lg border border-gray-200 p-3">
+          <p className="text-xs text-gray-600">Budgeted</p>
+          <p className="text-lg font-bold text-gray-900">{formatCurrency(totals.budgeted)}</p>
+          {projectBudget ? (
+            <p className="text-xs text-gray-500">of {formatCurrency(Number(projectBudget))} project budget</p>
+          ) : null}
+        </div>
+        <div className="bg-amber-50 rounded-lg border border-amber-200 p-3">
+          <p className="text-xs text-amber-700">Committed</p>
+          <p className="text-lg font-bold text-amber-600">{formatCurrency(totals.committed)}</p>
+        </div>
+        <div className="bg-blue-50 rounded-lg border border-blue-200 p-3">
+          <p className="text-xs text-blue-700">Spent</p>
+          <p className="text-lg font-bold text-blue-600">{formatCurrency(totals.spent)}</p>
+        </div>
+        <div className={`rounded-lg border p-3 ${overBudget.length ? "bg-red-50 border-red-200" : "bg-green-50 border-green-200"}`}>
+          <p className={`text-xs ${overBudget.length ? "text-red-700" : "text-green-700"}`}>Remaining</p>
+          <p className={`text-lg font-bold ${overBudget.length ? "text-red-600" : "text-green-600"}`}>
+            {formatCurrency(totals.budgeted - totals.committed - totals.spent)}
+          </p>
+        </div>
+      </div>
+
+      {overBudget.length > 0 && (
+        <div className="flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            {overBudget.length} budget line{overBudget.length > 1 ? "s are" : " is"} over budget
+          </span>
+        </div>
+      )}
+
+      {lines.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">No budget lines set for this project</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-gray-600 border-b">
+                <th className="py-2 text-left font-medium">Phase</th>
+                <th className="py-2 text-left font-medium">Category</th>
+                <th className="py-2 text-right font-medium">Budgeted</th>
+                <th className="py-2 text-right font-medium">Committed</th>
+                <th className="py-2 text-right font-medium">Spent</th>
+                <th className="py-2 text-right font-medium">Remaining</th>
+                <th className="py-2 text-left font-medium pl-4">Consumed</th>
+                {canEdit && <th className="py-2 text-right font-medium">Warn at</th>}
+                {canEdit && <th className="py-2" />}
+              </tr>
+            </thead>
+            <tbody>
+              {[...lines]
+                .sort((a, b) => {
+                  const phaseA = phases.findIndex((p) => p.id === a.phase_id);
+                  const phaseB = phases.findIndex((p) => p.id === b.phase_id);
+                  return phaseA - phaseB || a.category.localeCompare(b.category);
+                })
+                .map((line) => {
+                  const percent = Number(line.percent_consumed ?? 0);
+
+                  return (
+                    <tr key={line.budget_line_id} className="border-b border-gray-100">
+                      <td className="py-2">{phases.find((p) => p.id === line.phase_id)?.name || "-"}</td>
+                      <td className="py-2">{line.category}</td>
+                      <td className="py-2 text-right">
+                        {canEdit ? (
+                          <input
+                            type="number"
+                            min="0"
+                            defaultValue={Number(line.budgeted)}
+                            onBlur={(e) => handleUpdate(line, "amount", e.target.value)}
+                            className="w-28 border rounded p-1 text-right"
+                          />
+                        ) : (
+                          formatCurrency(Number(line.budgeted))
+                        )}
+                      </td>
+                      <td className="py-2 text-right text-amber-600">{formatCurrency(Number(line.committed))}</td>
+                      <td className="py-2 text-right">{formatCurrency(Number(line.spent))}</td>
+                      <td className={`py-2 text-right font-medium ${Number(line.remaining) < 0 ? "text-red-600" : "text-gray-900"}`}>
+                        {formatCurrency(Number(line.remaining))}
+                      </td>
+                      <td className="py-2 pl-4 min-w-[120px]">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 bg-gray-200 rounded-full h-2">
+                            <div className={`h-2 rounded-full ${consumedColor(line)}`} style={{ width: `${Math.min(percent, 100)}%` }} />
+                          </div>
+                          <span className="text-xs text-gray-600 w-12 text-right">
+                            {line.percent_consumed === null ? "-" : `${percent}%`}
+                          </span>
+                        </div>
+                      </td>
+                      {canEdit && (
+                        <td className="py-2 text-right">
+                          <input
+                            type="number"
+                            min="1"
+                            defaultValue={Number(line.warn_at_percent)}
+                            onBlur={(e) => handleUpdate(line, "warn_at_percent", e.target.value)}
+                            className="w-16 border rounded p-1 text-right"
+                          />
+                          <span className="ml-1 text-xs text-gray-500">%</span>
+                        </td>
+                      )}
+                      {canEdit && (
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => handleDelete(line)}
+                            className="text-red-600 hover:text-red-700"
+                            title="Remove budget line"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="flex flex-wrap items-center gap-2 bg-gray-50 rounded-lg p-3">
+          <select
+            value={newLine.phase_id}
+            onChange={(e) => setNewLine({ ...newLine, phase_id: e.target.value })}
+            className="border border-gray-300 rounded-lg px-2 py-1.5 text-sm"
+          >
+            <option value="">Select phase</option>
+            {phases.map((phase) => (
+              <option key={phase.id} value={phase.id}>{phase.name}</option>
+            ))}
+          </select>
+          <select
+            value={newLine.category}
+            onChange={(e) => setNewLine({ ...newLine, category: e.target.value })}
+            className="border border-gray-300 rounded-lg px-2 py-1.5 text-sm"
+          >
+            {BUDGET_CATEGORIES.map((category) => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            placeholder="Amount (₹)"
+            value={newLine.amount}
+            onChange={(e) => setNewLine({ ...newLine, amount: e.target.value })}
+            className="w-32 border border-gray-300 rounded-lg px-2 py-1.5 text-sm"
+          />
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            Warn at
+            <input
+              type="number"
+              min="1"
+              value={newLine.warn_at_percent}
+              onChange={(e) => setNewLine({ ...newLine, warn_at_percent: e.target.value })}
+              className="w-16 border border-gray-300 rounded-lg px-2 py-1.5 text-sm"
+            />
+            %
+          </label>
+          <button
+            onClick={handleAdd}
+            className="flex items-center px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Line
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { useState, useEffect } from "react";
+import { Plus, Edit, Trash2, Send, Undo2, X } from "lucide-react";
+import { format } from "date-fns";
+import {
+  listChangeOrders,
+  listProjectPhases,
+  createChangeOrder,
+  updateChangeOrder,
+  deleteChangeOrder,
+  setChangeOrderStatus,
+  summariseChangeOrders,
+  ChangeOrderWithPhase,
+} from "../../lib/repositories";
+import type { ChangeOrderStatus, ProjectPhase } from "../../types";
+
+interface ChangeOrderListProps {
+  projectId: string;
+  canEdit: boolean;
+}
+
+const emptyForm = { title: "", description: "", phase_id: "", cost_impact: "", schedule_impact_days: "" };
+
+const STATUS_STYLES: Record<ChangeOrderStatus, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-gray-100 text-gray-700" },
+  sent: { label: "Awaiting Client", className: "bg-yellow-100 text-yellow-800" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800" },
+};
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? "-" : ""}₹${Math.abs(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDays = (days: number) => (days === 0 ? "-" : `${days > 0 ? "+" : ""}${days}d`);
+
+/**
+ * A project's change orders. Drafts are edited here and sent to the client, who
+ * answers on a share link that includes change orders.
+ */
+export function ChangeOrderList({ projectId, canEdit }: ChangeOrderListProps) {
+  const [orders, setOrders] = useState<ChangeOrderWithPhase[]>([]);
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<ChangeOrderWithPhase | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchOrders = async () => {
+    try {
+      setOrders(await listChangeOrders(projectId));
+    } catch (error) {
+      console.error("Error fetching change orders:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchOrders();
+    listProjectPhases(projectId)
+      .then(setPhases)
+      .catch((error) => console.error("Error fetching phases:", error));
+  }, [projectId]);
+
+  const openForm = (order?: ChangeOrderWithPhase) => {
+    setEditingOrder(order ?? null);
+    setForm(
+      order
+        ? {
+            title: order.title,
+            description: order.description ?? "",
+            phase_id: order.phase_id ?? "",
+            cost_impact: String(order.cost_impact),
+            schedule_impact_days: String(order.schedule_impact_days),
+          }
+        : emptyForm
+    );
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      alert("Please enter a title");
+      return;
+    }
+    const days = parseInt(form.schedule_impact_days) || 0;
+    if (days !== 0 && !form.phase_id) {
+      alert("Pick the phase whose end date the schedule impact applies to");
+      return;
+    }
+
+    const input = {
+      project_id: projectId,
+      phase_id: form.phase_id || null,
+      title: form.title.trim(),
+      description: form.description.trim() || null,
+      cost_impact: parseFloat(form.cost_impact) || 0,
+      schedule_impact_days: days,
+    };
+
+    setSaving(true);
+    try {
+      if (editingOrder) {
+        await updateChangeOrder(editingOrder.id, input);
+      } else {
+        await createChangeOrder(input);
+      }
+      setShowForm(false);
+      await fetchOrders();
+    } catch (error) {
+      console.error("Error saving change order:", error);
+      alert(`Failed to save change order: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatus = async (order: ChangeOrderWithPhase, status: "draft" | "sent") => {
+    const message =
+      status === "sent"
+        ? `Send ${order.co_number} to the client? It can then be approved on any share link of this project that includes change orders.`
+        : `Take ${order.co_number} back to draft? The client can no longer answer it.`;
+    if (!window.confirm(message)) return;
+
+    try {
+      await setChangeOrderStatus(order.id, status);
+      await fetchOrders();
+    } catch (error) {
+      console.error("Error updating change order:", error);
+      alert(`Failed to update change order: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleDelete = async (order: ChangeOrderWithPhase) => {
+    if (!window.confirm(`Delete ${order.co_number}?`)) return;
+    try {
+      await deleteChangeOrder(order.id);
+      await fetchOrders();
+    } catch (error) {
+      console.error("Error deleting change order:", error);
+      alert(`Failed to delete change order: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const summary = summariseChangeOrders(orders);
+
+  if (loading) {
+    return <p className="text-gray-500 text-center py-4">Loading change orders...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        <div className="bg-green-50 rounded-lg border border-green-200 p-3">
+          <p className="text-xs text-green-700">Approved</p>
+          <p className="text-lg font-bold text-green-700">{formatCurrency(summary.approved.cost)}</p>
+          <p className="text-xs text-green-700">{formatDays(summary.approved.days)} on schedule</p>
+        </div>
+        <div className="bg-yellow-50 rounded-lg border border-yellow-200 p-3">
+          <p className="text-xs text-yellow-700">Awaiting Client</p>
+          <p className="text-lg font-bold text-yellow-700">{formatCurrency(summary.pending.cost)}</p>
+          <p className="text-xs text-yellow-700">{formatDays(summary.pending.days)} on schedule</p>
+        </div>
+        {canEdit && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center justify-center bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm p-3"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New Change Order
+          </button>
+        )}
+      </div>
+
+      {orders.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">No change orders yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-gray-600 border-b">
+                <th className="py-2 text-left font-medium">No.</th>
+                <th className="py-2 text-left font-medium">Change</th>
+                <th className="py-2 text-left font-medium">Phase</th>
+                <th className="py-2 text-right font-medium">Cost</th>
+                <th className="py-2 text-right font-medium">Days</th>
+                <th className="py-2 text-left font-medium pl-4">Status</th>
+                {canEdit && <th className="py-2" />}
+              </tr>
+            </thead>
+            <tbody>
+              {orders.map((order) => (
+                <tr key={order.id} className="border-b border-gray-100 align-top">
+                  <td className="py-2 font-medium text-gray-900">{order.co_number}</td>
+                  <td className="py-2">
+                    <p className="text-gray-900">{order.title}</p>
+                    {order.description && <p className="text-xs text-gray-500">{order.description}</p>}
+                    {order.responded_at && (
+                      <p className="text-xs text-gray-500">
+                        {order.status === "approved" ? "Approved" : "Rejected"} by {order.responded_by_name} on{" "}
+                        {format(new Date(order.responded_at), "dd MMM yyyy")}
+                        {order.response_note && `: "${order.response_note}"`}
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-2 text-gray-600">{order.phases?.name ?? "-"}</td>
+                  <td className="py-2 text-right">{formatCurrency(Number(order.cost_impact))}</td>
+                  <td className="py-2 text-right">{formatDays(order.schedule_impact_days)}</td>
+                  <td className="py-2 pl-4">
+                    <span className={`px-2 py-1 rounded text-xs ${STATUS_STYLES[order.status].className}`}>
+                      {STATUS_STYLES[order.status].label}
+                    </span>
+                  </td>
+                  {canEdit && (
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {order.status === "draft" && (
+                        <>
+                          <button
+                            onClick={() => handleStatus(order, "sent")}
+                            className="p-1 text-green-600 hover:text-green-700"
+                            title="Send to client"
+                          >
+                            <Send className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => openForm(order)} className="p-1 text-blue-600 hover:text-blue-700" title="Edit">
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleDelete(order)} className="p-1 text-red-600 hover:text-red-700" title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                      {order.status === "sent" && (
+                        <button
+                          onClick={() => handleStatus(order, "draft")}
+                          className="p-1 text-gray-600 hover:text-gray-800"
+                          title="Back to draft"
+                        >
+                          <Undo2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showForm && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setShowForm(false)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingOrder ? `Edit ${editingOrder.co_number}` : "New Change Order"}
+              </h3>
+              <button onClick={() => setShowForm(false)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+            <div className="space-y-3">
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Title *</label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="e.g. Add false ceiling in living room"
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={3}
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Phase</label>
+                <select
+                  value={form.phase_id}
+                  onChange={(e) => setForm({ ...form, phase_id: e.target.value })}
+                  className="w-full border rounded-lg p-2"
+                >
+                  <option value="">Whole project</option>
+                  {phases.map((phase) => (
+                    <option key={phase.id} value={phase.id}>{phase.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Cost Impact (₹)</label>
+                  <input
+                    type="number"
+                    value={form.cost_impact}
+                    onChange={(e) => setForm({ ...form, cost_impact: e.target.value })}
+                    placeholder="Negative for a saving"
+                    className="w-full border rounded-lg p-2"
+                  />
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Schedule Impact (days)</label>
+                  <input
+                    type="number"
+                    step="1"
+                    value={form.schedule_impact_days}
+                    onChange={(e) => setForm({ ...form, schedule_impact_days: e.target.value })}
+                    placeholder="Added to the phase end"
+                    className="w-full border rounded-lg p-2"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save Draft"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect } from "react";
+import { PostgrestError } from "@supabase/supabase-js";
+import { X, Plus, Trash2 } from "lucide-react";
+import { useAuth } from "../../contexts/AuthContext";
+import {
+  listApprovalThresholds,
+  createApprovalThreshold,
+  deleteApprovalThreshold,
+  listRoleOptions,
+  RoleOption,
+} from "../../lib/repositories";
+import type { ExpenseApprovalThreshold } from "../../types";
+
+interface ApprovalRulesProps {
+  projects: { id: string; name: string }[];
+  onClose: () => void;
+}
+
+/**
+ * Per-project amount thresholds and the role that approves expenses from each
+ * amount up. An expense goes through every threshold it reaches, lowest first.
+ */
+export function ApprovalRules({ projects, onClose }: ApprovalRulesProps) {
+  const { user } = useAuth();
+  const [projectId, setProjectId] = useState(projects[0]?.id ?? "");
+  const [thresholds, setThresholds] = useState<ExpenseApprovalThreshold[]>([]);
+  const [roles, setRoles] = useState<RoleOption[]>([]);
+  const [form, setForm] = useState({ min_amount: "", approver_role_id: "" });
+
+  const fetchThresholds = async () => {
+    if (!projectId) return;
+    try {
+      setThresholds(await listApprovalThresholds(projectId));
+    } catch (error) {
+      console.error("Error fetching approval thresholds:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!user?.id) return;
+    listRoleOptions(user.id)
+      .then(setRoles)
+      .catch((error) => console.error("Error fetching roles:", error));
+  }, [user?.id]);
+
+  useEffect(() => {
+    fetchThresholds();
+  }, [projectId]);
+
+  const handleAdd = async () => {
+    const minAmount = parseFloat(form.min_amount);
+    if (!(minAmount >= 0) || !form.approver_role_id) {
+      alert("Enter the amount and choose the approving role");
+      return;
+    }
+
+    try {
+      await createApprovalThreshold({ project_id: projectId, min_amount: minAmount, approver_role_id: form.approver_role_id });
+      setForm({ min_amount: "", approver_role_id: "" });
+      await fetchThresholds();
+    } catch (error) {
+      console.error("Error adding approval threshold:", error);
+      alert(
+        error instanceof PostgrestError && error.code === "23505"
+          ? "This project already has a threshold at that amount"
+          : `Failed to add threshold: ${error instanceof Error ? error.message : "Please try again."}`
+      );
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteApprovalThreshold(id);
+      await fetchThresholds();
+    } catch (error) {
+      console.error("Error deleting approval threshold:", error);
+      alert(`Failed to delete threshold: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const roleName = (id: string) => roles.find((r) => r.id === id)?.role_name ?? "Unknown role";
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-lg p-6 w-full max-w-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900">Expense Approval Rules</h2>
+          <button onClick={onClose}>
+            <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+          </button>
+        </div>
+
+        <select
+          value={projectId}
+          onChange={(e) => setProjectId(e.target.value)}
+          className="border border-gray-300 rounded-lg w-full px-3 py-2 mb-4 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+
+        <p className="text-sm text-gray-600 mb-3">
+          Expenses your team enters at or above an amount wait for that role's approval, then for every higher
+          threshold they reach. Smaller expenses and your own are approved straight away.
+        </p>
+
+        {thresholds.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No thresholds: every expense is approved on entry</p>
+        ) : (
+          <ul className="divide-y border rounded-lg mb-4">
+            {thresholds.map((threshold, index) => (
+              <li key={threshold.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span>
+                  <span className="text-gray-500 mr-2">Level {index + 1}</span>
+                  From ₹{Number(threshold.min_amount).toLocaleString("en-IN")} →{" "}
+                  <span className="font-medium">{roleName(threshold.approver_role_id)}</span>
+                </span>
+                <button onClick={() => handleDelete(threshold.id)} className="text-red-600 hover:text-red-700">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-2 mt-4">
+          <input
+            type="number"
+            min="0"
+            placeholder="From amount (₹)"
+            value={form.min_amount}
+            onChange={(e) => setForm({ ...form, min_amount: e.target.value })}
+            className="w-40 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          />
+          <select
+            value={form.approver_role_id}
+            onChange={(e) => setForm({ ...form, approver_role_id: e.target.value })}
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            <option value="">Approving role</option>
+            {roles.map((role) => (
+              <option key={role.id} value={role.id}>{role.role_name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
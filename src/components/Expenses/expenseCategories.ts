@@ -0,0 +1,33 @@
+export const EXPENSE_CATEGORY_OPTIONS = [
+  "Labour",
+  "Materials",
+  "Machinery",
+  "Vendor Payment",
+  "Consultancy Fees",
+  "Government Fees",
+  "Electrical",
+  "Plumbing",
+  "Painting",
+  "Tiles & Flooring",
+  "Carpentry & Woodwork",
+  "Site Expenses",
+  "Transport",
+  "Miscellaneous",
+  "Other",
+];
+
+export const INCOME_CATEGORY_OPTIONS = [
+  "Client Payment",
+  "Advance Payment",
+  "Milestone Payment",
+  "Final Payment",
+  "Additional Work Payment",
+  "Material Refund",
+  "Insurance Claim",
+  "Government Subsidy",
+  "Loan Disbursement",
+  "Other Income",
+  "Other",
+];
+
+export const PAYMENT_OPTIONS = ["Cash", "UPI", "Card", "Bank Transfer", "Cheque"];
@@ -0,0 +1,96 @@
+import { useEffect, useRef, type PointerEvent as ReactPointerEvent } from "react";
+import { Eraser } from "lucide-react";
+
+interface SignaturePadProps {
+  value: string | null;
+  onChange: (signature: string | null) => void;
+  disabled?: boolean;
+}
+
+const WIDTH = 360;
+const HEIGHT = 120;
+
+/**
+ * Draw a signature with a finger, pen or mouse. Each finished stroke reports the
+ * whole signature as a PNG data URL.
+ */
+export function SignaturePad({ value, onChange, disabled }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  // Show a signature saved earlier
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    if (value) {
+      const image = new Image();
+      image.onload = () => ctx.drawImage(image, 0, 0, WIDTH, HEIGHT);
+      image.src = value;
+    }
+  }, [value]);
+
+  const point = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = point(e);
+    ctx.lineWidth = 2;
+    ctx.lineCap = "round";
+    ctx.strokeStyle = "#111827";
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(e.currentTarget.toDataURL("image/png"));
+  };
+
+  return (
+    <div className="inline-block">
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className={`w-full max-w-[360px] border border-gray-300 rounded-lg bg-white touch-none ${
+          disabled ? "cursor-default" : "cursor-crosshair"
+        }`}
+      />
+      {!disabled && (
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          disabled={!value}
+          className="flex items-center mt-1 text-xs text-gray-600 hover:text-gray-800 disabled:opacity-50"
+        >
+          <Eraser className="w-3 h-3 mr-1" />
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+// Offered when an account has no checklist templates yet; each becomes an
+// ordinary template that can be edited afterwards.
+export const starterTemplates: { name: string; description: string; items: string[] }[] = [
+  {
+    name: "Pre-pour Concrete",
+    description: "Before concrete is poured into slabs, beams or columns",
+    items: [
+      "Formwork aligned, levelled and propped",
+      "Formwork joints sealed and surfaces oiled",
+      "Reinforcement size and spacing as per drawing",
+      "Lap lengths and bar bending as per schedule",
+      "Cover blocks in place with the specified cover",
+      "Embedded conduits, sleeves and inserts fixed",
+      "Construction joints prepared",
+      "Formwork cleaned of debris and water",
+      "Vibrators, concrete and curing arrangements ready",
+    ],
+  },
+  {
+    name: "Waterproofing",
+    description: "Wet areas, terraces and basements before tiling or screeding",
+    items: [
+      "Surface clean, dry and free of loose material",
+      "Cracks and honeycombing repaired",
+      "Coving done at wall and floor junctions",
+      "Pipe penetrations sealed",
+      "Primer applied over the full area",
+      "Membrane coats applied to the specified thickness",
+      "Membrane turned up the walls to the specified height",
+      "Flood test held for 48 hours without leaks",
+      "Protective screed laid over the membrane",
+    ],
+  },
+  {
+    name: "Electrical Rough-in",
+    description: "Before walls and ceilings are closed",
+    items: [
+      "Conduit routes as per the electrical layout",
+      "Switch and socket box heights as per drawing",
+      "Conduits fixed and bends within limits",
+      "Pull wires in all conduits",
+      "Distribution board location and size correct",
+      "Earthing conductors run to every point",
+      "Separate circuits for AC, geyser and kitchen loads",
+      "Conduits clear of plumbing lines",
+      "Openings marked for the finishing trades",
+    ],
+  },
+];
@@ -0,0 +1,466 @@
+import { useState, useEffect } from "react";
+import { X, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import {
+  listProjectPhases,
+  saveDraftInvoice,
+  invoiceTotals,
+  BusinessProfile,
+  InvoiceWithItems,
+  ProjectOption,
+} from "../../lib/repositories";
+import { GST_STATES, gstStateCode, splitGst } from "../../lib/gst";
+import type { ProjectPhase } from "../../types";
+
+interface InvoiceFormProps {
+  projects: ProjectOption[];
+  // Earlier invoices, to fill in the client of a project billed before
+  invoices: InvoiceWithItems[];
+  business: BusinessProfile | null;
+  // Draft being edited
+  invoice?: InvoiceWithItems;
+  // Issued invoice a new credit note goes against
+  creditFor?: InvoiceWithItems;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface FormLine {
+  description: string;
+  sac: string;
+  quantity: string;
+  rate: string;
+  gst_rate: string;
+}
+
+// SAC for construction services
+const DEFAULT_SAC = "9954";
+
+const emptyLine = (): FormLine => ({ description: "", sac: DEFAULT_SAC, quantity: "1", rate: "", gst_rate: "18" });
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const GSTIN_PATTERN = /^\d{2}[A-Z0-9]{13}$/;
+
+/**
+ * Create or edit a draft invoice for a project milestone, or a draft credit note
+ * against an issued invoice. Numbers and final totals are set when it is issued.
+ */
+export function InvoiceForm({ projects, invoices, business, invoice, creditFor, onClose, onSaved }: InvoiceFormProps) {
+  const source = invoice ?? creditFor;
+  const isCreditNote = invoice ? invoice.doc_type === "credit_note" : !!creditFor;
+  const original = creditFor ?? invoices.find((i) => i.id === invoice?.original_invoice_id);
+
+  const [form, setForm] = useState({
+    project_id: source?.project_id ?? projects[0]?.id ?? "",
+    phase_id: source?.phase_id ?? "",
+    invoice_date: invoice?.invoice_date ?? format(new Date(), "yyyy-MM-dd"),
+    due_date: invoice?.due_date ?? "",
+    client_name: source?.client_name ?? "",
+    client_gstin: source?.client_gstin ?? "",
+    client_address: source?.client_address ?? "",
+    client_email: source?.client_email ?? "",
+    client_phone: source?.client_phone ?? "",
+    place_of_supply: source?.place_of_supply ?? gstStateCode(business?.gst_number) ?? "",
+    notes: invoice?.notes ?? "",
+  });
+  const [lines, setLines] = useState<FormLine[]>(() =>
+    source?.invoice_items.length
+      ? source.invoice_items.map((item) => ({
+          description: item.description,
+          sac: item.sac ?? "",
+          quantity: String(Number(item.quantity)),
+          rate: String(Number(item.rate)),
+          gst_rate: String(Number(item.gst_rate)),
+        }))
+      : [emptyLine()]
+  );
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!form.project_id) return;
+    listProjectPhases(form.project_id)
+      .then(setPhases)
+      .catch((error) => console.error("Error fetching phases:", error));
+  }, [form.project_id]);
+
+  const handleProjectChange = (projectId: string) => {
+    // Bill the same client as the project's last invoice
+    const previous = invoices.find((i) => i.project_id === projectId && i.doc_type === "invoice");
+    setForm({
+      ...form,
+      project_id: projectId,
+      phase_id: "",
+      ...(previous && {
+        client_name: previous.client_name,
+        client_gstin: previous.client_gstin ?? "",
+        client_address: previous.client_address ?? "",
+        client_email: previous.client_email ?? "",
+        client_phone: previous.client_phone ?? "",
+        place_of_supply: previous.place_of_supply,
+      }),
+    });
+  };
+
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase();
+    // The client's registered state is the usual place of supply
+    const state = GSTIN_PATTERN.test(gstin) ? gstStateCode(gstin) : null;
+    setForm({ ...form, client_gstin: gstin, place_of_supply: state ?? form.place_of_supply });
+  };
+
+  const updateLine = (index: number, patch: Partial<FormLine>) =>
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+
+  const parsedLines = lines.map((line) => ({
+    description: line.description.trim(),
+    sac: line.sac.trim() || null,
+    quantity: parseFloat(line.quantity) || 0,
+    rate: parseFloat(line.rate) || 0,
+    gst_rate: parseFloat(line.gst_rate) || 0,
+  }));
+  const totals = invoiceTotals(parsedLines);
+
+  // Mirrors issue_invoice: a credit note follows its invoice, otherwise IGST when the
+  // place of supply is outside the supplier's state
+  const supplierState = gstStateCode(business?.gst_number);
+  const interState = original && isCreditNote
+    ? original.is_inter_state
+    : !!supplierState && form.place_of_supply !== supplierState;
+  const gst = splitGst(totals.gst, interState);
+
+  const handleSave = async () => {
+    if (!form.project_id || !form.phase_id || !form.client_name.trim() || !form.place_of_supply) {
+      alert("Please fill in the project, milestone, client name and place of supply");
+      return;
+    }
+    if (form.client_gstin && !GSTIN_PATTERN.test(form.client_gstin)) {
+      alert("The client GSTIN should be 15 characters, starting with the 2-digit state code");
+      return;
+    }
+    if (parsedLines.some((line) => !line.description || !(line.quantity > 0))) {
+      alert("Every line needs a description and a quantity greater than zero");
+      return;
+    }
+    if (isCreditNote && original && totals.total > Number(original.total)) {
+      alert(`A credit note can't exceed the invoice total of ${formatCurrency(Number(original.total))}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveDraftInvoice(
+        {
+          project_id: form.project_id,
+          phase_id: form.phase_id,
+          doc_type: isCreditNote ? "credit_note" : "invoice",
+          original_invoice_id: isCreditNote ? original?.id ?? null : null,
+          invoice_date: form.invoice_date,
+          due_date: form.due_date || null,
+          client_name: form.client_name.trim(),
+          client_gstin: form.client_gstin.trim() || null,
+          client_address: form.client_address.trim() || null,
+          client_email: form.client_email.trim() || null,
+          client_phone: form.client_phone.trim() || null,
+          place_of_supply: form.place_of_supply,
+          notes: form.notes.trim() || null,
+        },
+        parsedLines,
+        invoice?.id
+      );
+      onSaved();
+    } catch (error) {
+      console.error("Error saving invoice:", error);
+      alert(`Failed to save invoice: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900">
+            {isCreditNote
+              ? `Credit Note against ${original?.invoice_number ?? "invoice"}`
+              : invoice
+              ? "Edit Draft Invoice"
+              : "New Invoice"}
+          </h2>
+          <button onClick={onClose}>
+            <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">Project</label>
+            <select
+              value={form.project_id}
+              onChange={(e) => handleProjectChange(e.target.value)}
+              disabled={isCreditNote}
+              className={inputClass}
+            >
+              {projects.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">Milestone (Phase)</label>
+            <select
+              value={form.phase_id}
+              onChange={(e) => setForm({ ...form, phase_id: e.target.value })}
+              disabled={isCreditNote}
+              className={inputClass}
+            >
+              <option value="">Select phase</option>
+              {phases.map((phase) => (
+                <option key={phase.id} value={phase.id}>{phase.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">{isCreditNote ? "Credit Note Date" : "Invoice Date"}</label>
+            <input
+              type="date"
+              value={form.invoice_date}
+              onChange={(e) => setForm({ ...form, invoice_date: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          {!isCreditNote && (
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">Due Date</label>
+              <input
+                type="date"
+                value={form.due_date}
+                onChange={(e) => setForm({ ...form, due_date: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+
+        <h3 className="font-semibold text-gray-900 mt-6 mb-2">Bill To</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input
+            type="text"
+            placeholder="Client name"
+            value={form.client_name}
+            onChange={(e) => setForm({ ...form, client_name: e.target.value })}
+            disabled={isCreditNote}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder="Client GSTIN (optional)"
+            value={form.client_gstin}
+            onChange={(e) => handleGstinChange(e.target.value)}
+            disabled={isCreditNote}
+            maxLength={15}
+            className={inputClass}
+          />
+          <textarea
+            placeholder="Billing address"
+            value={form.client_address}
+            onChange={(e) => setForm({ ...form, client_address: e.target.value })}
+            disabled={isCreditNote}
+            rows={2}
+            className={`${inputClass} md:col-span-2`}
+          />
+          <input
+            type="email"
+            placeholder="Email"
+            value={form.client_email}
+            onChange={(e) => setForm({ ...form, client_email: e.target.value })}
+            disabled={isCreditNote}
+            className={inputClass}
+          />
+          <input
+            type="tel"
+            placeholder="Phone"
+            value={form.client_phone}
+            onChange={(e) => setForm({ ...form, client_phone: e.target.value })}
+            disabled={isCreditNote}
+            className={inputClass}
+          />
+          <div className="md:col-span-2">
+            <label className="block font-medium text-gray-700 mb-1">Place of Supply</label>
+            <select
+              value={form.place_of_supply}
+              onChange={(e) => setForm({ ...form, place_of_supply: e.target.value })}
+              disabled={isCreditNote}
+              className={inputClass}
+            >
+              <option value="">Select state</option>
+              {GST_STATES.map((state) => (
+                <option key={state.code} value={state.code}>{state.code} - {state.name}</option>
+              ))}
+            </select>
+            {!supplierState && (
+              <p className="text-xs text-amber-600 mt-1">
+                Add your GST number in Settings to charge IGST on supplies outside your state
+              </p>
+            )}
+          </div>
+        </div>
+
+        <h3 className="font-semibold text-gray-900 mt-6 mb-2">Lines</h3>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-gray-600 border-b">
+              <th className="py-2 text-left font-medium">Description</th>
+              <th className="py-2 text-left font-medium">SAC</th>
+              <th className="py-2 text-right font-medium">Qty</th>
+              <th className="py-2 text-right font-medium">Rate</th>
+              <th className="py-2 text-right font-medium">GST %</th>
+              <th className="py-2 text-right font-medium">Amount</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line, index) => (
+              <tr key={index} className="border-b border-gray-100">
+                <td className="py-2 pr-2">
+                  <input
+                    type="text"
+                    value={line.description}
+                    onChange={(e) => updateLine(index, { description: e.target.value })}
+                    placeholder="e.g. Completion of slab work"
+                    className="w-full border rounded p-1"
+                  />
+                </td>
+                <td className="py-2 pr-2">
+                  <input
+                    type="text"
+                    value={line.sac}
+                    onChange={(e) => updateLine(index, { sac: e.target.value })}
+                    className="w-20 border rounded p-1"
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    className="w-20 border rounded p-1 text-right"
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.rate}
+                    onChange={(e) => updateLine(index, { rate: e.target.value })}
+                    className="w-28 border rounded p-1 text-right"
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.gst_rate}
+                    onChange={(e) => updateLine(index, { gst_rate: e.target.value })}
+                    className="w-16 border rounded p-1 text-right"
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  {formatCurrency(parsedLines[index].quantity * parsedLines[index].rate)}
+                </td>
+                <td className="py-2 text-right">
+                  {lines.length > 1 && (
+                    <button
+                      onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                      className="text-red-600 hover:text-red-700"
+                      title="Remove line"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          onClick={() => setLines([...lines, emptyLine()])}
+          className="flex items-center mt-2 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Line
+        </button>
+
+        <div className="flex justify-end mt-4">
+          <div className="w-64 text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Taxable Value</span>
+              <span>{formatCurrency(totals.subtotal)}</span>
+            </div>
+            {interState ? (
+              <div className="flex justify-between">
+                <span className="text-gray-600">IGST</span>
+                <span>{formatCurrency(gst.igst)}</span>
+              </div>
+            ) : (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">CGST</span>
+                  <span>{formatCurrency(gst.cgst)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">SGST</span>
+                  <span>{formatCurrency(gst.sgst)}</span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between font-semibold border-t pt-1">
+              <span>Total</span>
+              <span>{formatCurrency(totals.total)}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-4">
+          <label className="block font-medium text-gray-700 mb-1">Notes</label>
+          <textarea
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            rows={2}
+            placeholder={isCreditNote ? "Reason for the credit" : "Payment terms, bank details..."}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save Draft"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState, useEffect } from "react";
+import { X, AlertTriangle, ShoppingCart } from "lucide-react";
+import { format } from "date-fns";
+import {
+  createPurchaseOrder,
+  listProjectPhases,
+  matchVendor,
+  purchaseOrderTotals,
+  remainingRequirement,
+} from "../../lib/repositories";
+import type { ProjectPhase, Vendor } from "../../types";
+
+interface DraftMaterial {
+  id: string;
+  name: string;
+  project_id: string;
+  unit?: string;
+  unit_cost: number;
+  qty_required: number;
+  qty_issued: number;
+  stock_quantity: number;
+  supplier?: string;
+  vendor_id?: string;
+  hsn?: string;
+}
+
+interface PurchaseOrderDraftProps {
+  materials: DraftMaterial[];
+  vendors: Vendor[];
+  onClose: () => void;
+  onCreated: (count: number) => void;
+}
+
+interface DraftLine {
+  material: DraftMaterial;
+  quantity: string;
+  unit_cost: string;
+  gst_rate: string;
+}
+
+interface DraftOrder {
+  supplier: string;
+  vendor_id: string | null;
+  supplier_gstin: string;
+  phase_id: string;
+  expected_date: string;
+  lines: DraftLine[];
+}
+
+// Materials.tsx shows this when a material has no supplier
+const NO_SUPPLIER = "Not Specified";
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Order what stock on hand won't cover; fall back to the full requirement
+const suggestedQuantity = (material: DraftMaterial) => {
+  const shortfall = remainingRequirement(material) - material.stock_quantity;
+  return shortfall > 0 ? shortfall : material.qty_required;
+};
+
+/**
+ * Turns a selection of materials into one draft purchase order per supplier.
+ */
+export function PurchaseOrderDraft({ materials, vendors, onClose, onCreated }: PurchaseOrderDraftProps) {
+  const unassigned = materials.filter((m) => !m.supplier || m.supplier === NO_SUPPLIER);
+  const [orders, setOrders] = useState<DraftOrder[]>(() => {
+    const bySupplier = new Map<string, DraftLine[]>();
+    materials
+      .filter((m) => m.supplier && m.supplier !== NO_SUPPLIER)
+      .forEach((material) => {
+        const lines = bySupplier.get(material.supplier!) ?? [];
+        lines.push({
+          material,
+          quantity: String(suggestedQuantity(material)),
+          unit_cost: String(material.unit_cost),
+          gst_rate: "18",
+        });
+        bySupplier.set(material.supplier!, lines);
+      });
+    return Array.from(bySupplier.entries()).map(([supplier, lines]) => {
+      const vendor =
+        vendors.find((v) => v.id === lines.find((line) => line.material.vendor_id)?.material.vendor_id) ??
+        matchVendor(vendors, supplier);
+      return {
+        supplier: vendor?.name ?? supplier,
+        vendor_id: vendor?.id ?? null,
+        supplier_gstin: vendor?.gstin ?? "",
+        phase_id: "",
+        expected_date: "",
+        lines,
+      };
+    });
+  });
+  const [saving, setSaving] = useState(false);
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+
+  const projectIds = new Set(materials.map((m) => m.project_id));
+
+  useEffect(() => {
+    if (projectIds.size !== 1) return;
+    listProjectPhases(materials[0].project_id)
+      .then(setPhases)
+      .catch((error) => console.error("Error fetching phases:", error));
+  }, []);
+
+  const updateOrder = (index: number, patch: Partial<DraftOrder>) =>
+    setOrders(orders.map((order, i) => (i === index ? { ...order, ...patch } : order)));
+
+  const updateLine = (orderIndex: number, lineIndex: number, patch: Partial<DraftLine>) =>
+    updateOrder(orderIndex, {
+      lines: orders[orderIndex].lines.map((line, i) => (i === lineIndex ? { ...line, ...patch } : line)),
+    });
+
+  const handleCreate = async () => {
+    if (orders.some((order) => order.lines.some((line) => !(parseFloat(line.quantity) > 0)))) {
+      alert("Every item needs a quantity greater than zero");
+      return;
+    }
+
+    setSaving(true);
+    let created = 0;
+    try {
+      for (const order of orders) {
+        await createPurchaseOrder(
+          {
+            project_id: order.lines[0].material.project_id,
+            phase_id: order.phase_id || null,
+            supplier: order.supplier,
+            vendor_id: order.vendor_id,
+            supplier_gstin: order.supplier_gstin.trim().toUpperCase() || null,
+            order_date: format(new Date(), "yyyy-MM-dd"),
+            expected_date: order.expected_date || null,
+            notes: null,
+          },
+          order.lines.map((line) => ({
+            material_id: line.material.id,
+            description: line.material.name,
+            hsn: line.material.hsn || null,
+            unit: line.material.unit || null,
+            quantity: parseFloat(line.quantity),
+            unit_cost: parseFloat(line.unit_cost) || 0,
+            gst_rate: parseFloat(line.gst_rate) || 0,
+          }))
+        );
+        created += 1;
+      }
+      onCreated(created);
+    } catch (error) {
+      console.error("Error creating purchase orders:", error);
+      alert(`Created ${created} of ${orders.length} purchase orders. ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900">Create Purchase Orders</h2>
+          <button onClick={onClose}>
+            <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+          </button>
+        </div>
+
+        {projectIds.size > 1 ? (
+          <div className="flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>Select materials from a single project to raise purchase orders.</span>
+          </div>
+        ) : (
+          <>
+            {unassigned.length > 0 && (
+              <div className="flex items-start space-x-2 bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4 text-sm text-amber-800">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  Skipped without a supplier: {unassigned.map((m) => m.name).join(", ")}. Set their supplier to include them.
+                </span>
+              </div>
+            )}
+
+            {orders.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">None of the selected materials has a supplier</p>
+            ) : (
+              <div className="space-y-6">
+                {orders.map((order, orderIndex) => {
+                  const totals = purchaseOrderTotals(
+                    order.lines.map((line) => ({
+                      quantity: parseFloat(line.quantity) || 0,
+                      unit_cost: parseFloat(line.unit_cost) || 0,
+                      gst_rate: parseFloat(line.gst_rate) || 0,
+                    }))
+                  );
+
+                  return (
+                    <div key={order.supplier} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex flex-wrap items-center gap-3 mb-3">
+                        <h3 className="text-lg font-semibold text-gray-900 flex-1">{order.supplier}</h3>
+                        <input
+                          type="text"
+                          placeholder="Supplier GSTIN"
+                          value={order.supplier_gstin}
+                          onChange={(e) => updateOrder(orderIndex, { supplier_gstin: e.target.value })}
+                          className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <select
+                          value={order.phase_id}
+                          onChange={(e) => updateOrder(orderIndex, { phase_id: e.target.value })}
+                          className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          title="Phase the goods are for; open orders count as committed against its Materials budget"
+                        >
+                          <option value="">No phase</option>
+                          {phases.map((phase) => (
+                            <option key={phase.id} value={phase.id}>{phase.name}</option>
+                          ))}
+                        </select>
+                        <label className="text-sm text-gray-600 flex items-center gap-2">
+                          Expected
+                          <input
+                            type="date"
+                            value={order.expected_date}
+                            onChange={(e) => updateOrder(orderIndex, { expected_date: e.target.value })}
+                            className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </label>
+                      </div>
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-gray-600 border-b">
+                            <th className="py-2 text-left font-medium">Material</th>
+                            <th className="py-2 text-right font-medium">Quantity</th>
+                            <th className="py-2 text-right font-medium">Rate</th>
+                            <th className="py-2 text-right font-medium">GST %</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {order.lines.map((line, lineIndex) => (
+                            <tr key={line.material.id} className="border-b border-gray-100">
+                              <td className="py-2">
+                                {line.material.name}
+                                {line.material.hsn && <span className="text-xs text-gray-500 ml-2">HSN {line.material.hsn}</span>}
+                              </td>
+                              <td className="py-2 text-right">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.001"
+                                  value={line.quantity}
+                                  onChange={(e) => updateLine(orderIndex, lineIndex, { quantity: e.target.value })}
+                                  className="w-24 border rounded p-1 text-right"
+                                />
+                                <span className="ml-1 text-xs text-gray-500">{line.material.unit}</span>
+                              </td>
+                              <td className="py-2 text-right">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={line.unit_cost}
+                                  onChange={(e) => updateLine(orderIndex, lineIndex, { unit_cost: e.target.value })}
+                                  className="w-24 border rounded p-1 text-right"
+                                />
+                              </td>
+                              <td className="py-2 text-right">
+                                <select
+                                  value={line.gst_rate}
+                                  onChange={(e) => updateLine(orderIndex, lineIndex, { gst_rate: e.target.value })}
+                                  className="border rounded p-1"
+                                >
+                                  {["0", "5", "12", "18", "28"].map((rate) => (
+                                    <option key={rate} value={rate}>{rate}%</option>
+                                  ))}
+                                </select>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <p className="text-right text-sm text-gray-600 mt-2">
+                        Taxable {formatCurrency(totals.subtotal)} + GST {formatCurrency(totals.gst)} ={" "}
+                        <span className="font-semibold text-gray-900">{formatCurrency(totals.total)}</span>
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={saving || orders.length === 0 || projectIds.size > 1}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <ShoppingCart className="w-4 h-4 mr-2" />
+            {saving ? "Creating..." : `Create ${orders.length} Draft PO${orders.length === 1 ? "" : "s"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState, useEffect } from "react";
+import { X, Trash2, ArrowDownCircle, ArrowUpCircle, RotateCcw, AlertTriangle, Receipt } from "lucide-react";
+import { format } from "date-fns";
+import {
+  listMaterialMovements,
+  listProjectPhases,
+  recordMaterialMovement,
+  deleteMaterialMovement,
+  MaterialMovementWithDetails,
+} from "../../lib/repositories";
+import type { MaterialMovementType, ProjectPhase } from "../../types";
+
+interface StockLedgerProps {
+  material: {
+    id: string;
+    name: string;
+    project_id: string;
+    unit?: string;
+    unit_cost: number;
+    stock_quantity: number;
+  };
+  onClose: () => void;
+  // Called after a movement is recorded or removed, since stock on hand changes
+  onChange: () => void;
+}
+
+const PAYMENT_OPTIONS = ["Cash", "UPI", "Card", "Bank Transfer", "Cheque"];
+
+const movementLabels: Record<MaterialMovementType, string> = {
+  received: "Received",
+  issued: "Issued to phase",
+  returned: "Returned",
+  wasted: "Wasted",
+};
+
+const movementColors: Record<MaterialMovementType, string> = {
+  received: "text-green-600",
+  issued: "text-blue-600",
+  returned: "text-amber-600",
+  wasted: "text-red-600",
+};
+
+const movementIcons: Record<MaterialMovementType, typeof ArrowDownCircle> = {
+  received: ArrowDownCircle,
+  issued: ArrowUpCircle,
+  returned: RotateCcw,
+  wasted: AlertTriangle,
+};
+
+export function StockLedger({ material, onClose, onChange }: StockLedgerProps) {
+  const [movements, setMovements] = useState<MaterialMovementWithDetails[]>([]);
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    movement_type: "received" as MaterialMovementType,
+    quantity: "",
+    date: format(new Date(), "yyyy-MM-dd"),
+    phase_id: "",
+    unit_cost: String(material.unit_cost || ""),
+    notes: "",
+    post_expense: false,
+    payment_method: "Cash",
+  });
+
+  const fetchMovements = async () => {
+    try {
+      setMovements(await listMaterialMovements(material.id));
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMovements();
+    listProjectPhases(material.project_id)
+      .then(setPhases)
+      .catch((error) => console.error("Error fetching phases:", error));
+  }, [material.id]);
+
+  const handleRecord = async () => {
+    const quantity = parseFloat(form.quantity);
+    if (!quantity || quantity <= 0) {
+      alert("Please enter a quantity");
+      return;
+    }
+    if (form.movement_type === "issued" && !form.phase_id) {
+      alert("Please select the phase the material is issued to");
+      return;
+    }
+    if (form.movement_type === "received" && form.post_expense && !form.phase_id) {
+      alert("Please select the phase to book the expense against");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await recordMaterialMovement({
+        material_id: material.id,
+        movement_type: form.movement_type,
+        quantity,
+        date: form.date,
+        phase_id: form.phase_id || null,
+        unit_cost: form.movement_type === "received" && form.unit_cost ? parseFloat(form.unit_cost) : null,
+        notes: form.notes.trim() || null,
+        payment_method: form.movement_type === "received" && form.post_expense ? form.payment_method : null,
+      });
+      setForm({ ...form, quantity: "", notes: "", post_expense: false });
+      await fetchMovements();
+      onChange();
+    } catch (error) {
+      console.error("Error recording movement:", error);
+      alert(`Failed to record movement: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (movement: MaterialMovementWithDetails) => {
+    const message = movement.expense_id
+      ? "Delete this movement? The Materials expense posted for it will stay in Expenses."
+      : "Delete this movement?";
+    if (!window.confirm(message)) return;
+
+    try {
+      await deleteMaterialMovement(movement.id);
+      await fetchMovements();
+      onChange();
+    } catch (error) {
+      console.error("Error deleting movement:", error);
+      alert(`Failed to delete movement: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const isReceipt = form.movement_type === "received";
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Stock Ledger</h2>
+            <p className="text-sm text-gray-600">
+              {material.name} · {Number(material.stock_quantity)} {material.unit} on hand
+            </p>
+          </div>
+          <button onClick={onClose}>
+            <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+          </button>
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-4 mb-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <select
+              value={form.movement_type}
+              onChange={(e) => setForm({ ...form, movement_type: e.target.value as MaterialMovementType })}
+              className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {(Object.keys(movementLabels) as MaterialMovementType[]).map((type) => (
+                <option key={type} value={type}>{movementLabels[type]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.001"
+              placeholder={`Quantity (${material.unit})`}
+              value={form.quantity}
+              onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="date"
+              value={form.date}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+              className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <select
+              value={form.phase_id}
+              onChange={(e) => setForm({ ...form, phase_id: e.target.value })}
+              className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">{form.movement_type === "issued" ? "Select phase *" : "Phase (optional)"}</option>
+              {phases.map((phase) => (
+                <option key={phase.id} value={phase.id}>{phase.name}</option>
+              ))}
+            </select>
+            {isReceipt && (
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Unit cost"
+                value={form.unit_cost}
+                onChange={(e) => setForm({ ...form, unit_cost: e.target.value })}
+                className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            )}
+            <input
+              type="text"
+              placeholder="Notes (challan no., reason...)"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className={`border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                isReceipt ? "md:col-span-3" : "col-span-2 md:col-span-4"
+              }`}
+            />
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3 mt-3">
+            {isReceipt ? (
+              <div className="flex items-center gap-3 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={form.post_expense}
+                    onChange={(e) => setForm({ ...form, post_expense: e.target.checked })}
+                    className="h-4 w-4"
+                  />
+                  Post as Materials expense
+                </label>
+                {form.post_expense && (
+                  <select
+                    value={form.payment_method}
+                    onChange={(e) => setForm({ ...form, payment_method: e.target.value })}
+                    className="border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {PAYMENT_OPTIONS.map((option) => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            ) : (
+              <span />
+            )}
+            <button
+              onClick={handleRecord}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Record Movement"}
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-gray-500 text-center py-4">Loading movements...</p>
+        ) : movements.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No stock movements recorded yet</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-gray-600 border-b">
+                <th className="py-2 text-left font-medium">Date</th>
+                <th className="py-2 text-left font-medium">Movement</th>
+                <th className="py-2 text-right font-medium">Quantity</th>
+                <th className="py-2 text-left font-medium pl-4">Phase</th>
+                <th className="py-2 text-left font-medium">Recorded By</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map((movement) => {
+                const Icon = movementIcons[movement.movement_type];
+                const inbound = movement.movement_type === "received" || movement.movement_type === "returned";
+
+                return (
+                  <tr key={movement.id} className="border-b border-gray-100 align-top">
+                    <td className="py-2 whitespace-nowrap">{format(new Date(movement.date), "dd MMM yyyy")}</td>
+                    <td className="py-2">
+                      <span className={`flex items-center ${movementColors[movement.movement_type]}`}>
+                        <Icon className="w-4 h-4 mr-1" />
+                        {movementLabels[movement.movement_type]}
+                        {movement.expense_id && (
+                          <span title="Posted as a Materials expense">
+                            <Receipt className="w-3 h-3 ml-1 text-gray-400" />
+                          </span>
+                        )}
+                      </span>
+                      {movement.notes && <p className="text-xs text-gray-500">{movement.notes}</p>}
+                    </td>
+                    <td className={`py-2 text-right font-medium ${inbound ? "text-green-600" : "text-red-600"}`}>
+                      {inbound ? "+" : "-"}
+                      {Number(movement.quantity)} {material.unit}
+                    </td>
+                    <td className="py-2 pl-4">{movement.phases?.name || "-"}</td>
+                    <td className="py-2">{movement.profiles?.full_name || movement.profiles?.email || "-"}</td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleDelete(movement)}
+                        className="text-red-600 hover:text-red-700"
+                        title="Delete movement"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { useEffect, useRef, useState, type MouseEvent as ReactMouseEvent, type ReactNode } from "react";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { phaseFloats, earliestStart } from "../../lib/schedule";
+import type { PhaseDependency, PhaseStatus, Task } from "../../types";
+
+export interface GanttPhase {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  status: PhaseStatus;
+  progress: number;
+  contractor_name?: string;
+}
+
+interface PhaseGanttProps {
+  // Keeps the SVG marker ids apart when several charts share a page
+  chartId: string;
+  phases: GanttPhase[];
+  dependencies: PhaseDependency[];
+  tasks: Pick<Task, "id" | "phase_id" | "name" | "due_date" | "status">[];
+  rangeStart: Date;
+  rangeEnd: Date;
+  canManage: boolean;
+  // Extra line under each phase name, e.g. its spend
+  renderPhaseMeta?: (phase: GanttPhase) => ReactNode;
+  onSelect: (phase: GanttPhase) => void;
+  onReschedule: (phase: GanttPhase, startDate: string, endDate: string) => Promise<void>;
+}
+
+type DragMode = "move" | "start" | "end";
+
+interface DragState {
+  phase: GanttPhase;
+  mode: DragMode;
+  originX: number;
+  days: number;
+}
+
+// Rows are a fixed height so the dependency arrows can be drawn between them
+const ROW_HEIGHT = 56;
+
+const statusColors: Record<string, string> = {
+  Completed: "bg-green-500",
+  "In Progress": "bg-blue-500",
+  "Not Started": "bg-gray-400",
+};
+
+const taskColors: Record<string, string> = {
+  completed: "bg-green-600",
+  in_progress: "bg-blue-700",
+  todo: "bg-amber-500",
+};
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Timeline of a project's phases with their finish-to-start links, task due
+ * dates and the critical path. Managers drag a bar to move a phase, or its edges
+ * to change its start or end.
+ */
+export function PhaseGantt({
+  chartId,
+  phases,
+  dependencies,
+  tasks,
+  rangeStart,
+  rangeEnd,
+  canManage,
+  renderPhaseMeta,
+  onSelect,
+  onReschedule,
+}: PhaseGanttProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showCritical, setShowCritical] = useState(true);
+
+  const totalDays = differenceInCalendarDays(rangeEnd, rangeStart) + 1;
+  const floats = phaseFloats(phases, dependencies);
+
+  // Where a phase sits while it is being dragged, held back by its predecessors
+  const draggedDates = (phase: GanttPhase, mode: DragMode, days: number) => {
+    let start = parseISO(phase.start_date);
+    let end = parseISO(phase.end_date);
+
+    if (mode === "move") {
+      start = addDays(start, days);
+      end = addDays(end, days);
+    } else if (mode === "start") {
+      start = addDays(start, Math.min(days, differenceInCalendarDays(end, start)));
+    } else {
+      end = addDays(end, Math.max(days, -differenceInCalendarDays(end, start)));
+    }
+
+    const earliest = earliestStart(phase.id, phases, dependencies);
+    if (earliest && start < earliest) {
+      const shortBy = differenceInCalendarDays(earliest, start);
+      start = earliest;
+      if (mode === "move") end = addDays(end, shortBy);
+      if (end < start) end = start;
+    }
+
+    return { start, end };
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: MouseEvent) => {
+      const width = trackRef.current?.offsetWidth ?? 1;
+      const days = Math.round(((e.clientX - drag.originX) / width) * totalDays);
+      if (days !== drag.days) setDrag({ ...drag, days });
+    };
+
+    const handleUp = async () => {
+      setDrag(null);
+      if (drag.days === 0) {
+        if (drag.mode === "move") onSelect(drag.phase);
+        return;
+      }
+
+      const { start, end } = draggedDates(drag.phase, drag.mode, drag.days);
+      if (toDateString(start) === drag.phase.start_date && toDateString(end) === drag.phase.end_date) return;
+
+      setSaving(true);
+      try {
+        await onReschedule(drag.phase, toDateString(start), toDateString(end));
+      } finally {
+        setSaving(false);
+      }
+    };
+
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+    };
+  }, [drag]);
+
+  const startDrag = (e: ReactMouseEvent, phase: GanttPhase, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!canManage || saving) {
+      if (mode === "move") onSelect(phase);
+      return;
+    }
+    setDrag({ phase, mode, originX: e.clientX, days: 0 });
+  };
+
+  const offsetPercent = (date: Date) => (differenceInCalendarDays(date, rangeStart) / totalDays) * 100;
+
+  const barDates = (phase: GanttPhase) =>
+    drag?.phase.id === phase.id
+      ? draggedDates(phase, drag.mode, drag.days)
+      : { start: parseISO(phase.start_date), end: parseISO(phase.end_date) };
+
+  const rowIndex = new Map(phases.map((p, i) => [p.id, i]));
+  const today = new Date();
+  const markerId = `gantt-arrow-${chartId}`;
+  const criticalMarkerId = `gantt-arrow-critical-${chartId}`;
+
+  return (
+    <div>
+      <div className="flex justify-end mb-2">
+        <label className="flex items-center text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={showCritical}
+            onChange={(e) => setShowCritical(e.target.checked)}
+            className="mr-2"
+          />
+          Highlight critical path
+        </label>
+      </div>
+      <div className="overflow-x-auto">
+        <div className={`min-w-[800px] select-none ${saving ? "opacity-60" : ""}`}>
+          {/* Timeline Header */}
+          <div className="flex mb-2">
+            <div className="w-48 flex-shrink-0"></div>
+            <div ref={trackRef} className="flex-1 ml-4 flex justify-between text-xs text-slate-600">
+              {[...Array(5)].map((_, i) => (
+                <span key={i}>
+                  {format(addDays(rangeStart, Math.round((i * (totalDays - 1)) / 4)), "dd MMM yyyy")}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="relative">
+            {phases.map((phase) => {
+              const { start, end } = barDates(phase);
+              const left = offsetPercent(start);
+              const width = Math.max(((differenceInCalendarDays(end, start) + 1) / totalDays) * 100, 1);
+              const float = floats.get(phase.id);
+              const critical = showCritical && float?.critical;
+
+              return (
+                <div key={phase.id} className="flex items-center" style={{ height: ROW_HEIGHT }}>
+                  <div className="w-48 flex-shrink-0">
+                    <p className="text-sm font-semibold text-slate-700 truncate">{phase.name}</p>
+                    <p className="text-xs text-slate-500">
+                      {format(start, "dd MMM")} - {format(end, "dd MMM yyyy")}
+                    </p>
+                    {renderPhaseMeta?.(phase)}
+                  </div>
+                  <div className="flex-1 ml-4 relative h-full">
+                    <div className="absolute inset-x-0 top-2 bottom-2 bg-slate-100 rounded-lg" />
+                    <div
+                      className={`absolute top-2 bottom-2 rounded-lg overflow-hidden ${
+                        statusColors[phase.status] || "bg-gray-400"
+                      } ${critical ? "ring-2 ring-red-500 ring-offset-1" : ""} ${
+                        canManage ? "cursor-grab active:cursor-grabbing" : "cursor-pointer"
+                      } flex items-center text-white text-xs font-medium z-10`}
+                      style={{ left: `${left}%`, width: `${width}%` }}
+                      onMouseDown={(e) => startDrag(e, phase, "move")}
+                      title={`${phase.name}: ${format(start, "dd MMM yyyy")} to ${format(end, "dd MMM yyyy")}${
+                        float ? ` · ${float.critical ? "critical" : `${float.float} days float`}` : ""
+                      }${phase.contractor_name ? ` · ${phase.contractor_name}` : ""}`}
+                    >
+                      <div className="absolute inset-y-0 left-0 bg-black bg-opacity-20" style={{ width: `${phase.progress}%` }} />
+                      <span className="relative truncate px-2">{phase.progress}%</span>
+                      {canManage && (
+                        <>
+                          <div
+                            className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize"
+                            onMouseDown={(e) => startDrag(e, phase, "start")}
+                          />
+                          <div
+                            className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize"
+                            onMouseDown={(e) => startDrag(e, phase, "end")}
+                          />
+                        </>
+                      )}
+                    </div>
+                    {tasks
+                      .filter((task) => task.phase_id === phase.id && task.due_date)
+                      .map((task) => {
+                        const due = parseISO(task.due_date!);
+                        if (due < rangeStart || due > rangeEnd) return null;
+                        return (
+                          <div
+                            key={task.id}
+                            className={`absolute bottom-0.5 w-2 h-2 rotate-45 z-20 ${taskColors[task.status]}`}
+                            style={{ left: `calc(${offsetPercent(due) + 50 / totalDays}% - 4px)` }}
+                            title={`${task.name}: due ${format(due, "dd MMM yyyy")}`}
+                          />
+                        );
+                      })}
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Dependency arrows and today line, over the bar column */}
+            <svg
+              className="absolute top-0 bottom-0 pointer-events-none z-10"
+              style={{ left: "13rem", width: "calc(100% - 13rem)", height: phases.length * ROW_HEIGHT }}
+            >
+              <defs>
+                <marker id={markerId} markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 Z" fill="#64748b" />
+                </marker>
+                <marker id={criticalMarkerId} markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 Z" fill="#ef4444" />
+                </marker>
+              </defs>
+              {dependencies.map((dependency) => {
+                const from = phases.find((p) => p.id === dependency.predecessor_id);
+                const to = phases.find((p) => p.id === dependency.successor_id);
+                if (!from || !to) return null;
+
+                const x1 = `${offsetPercent(addDays(barDates(from).end, 1))}%`;
+                const x2 = `${offsetPercent(barDates(to).start)}%`;
+                const y1 = rowIndex.get(from.id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+                const y2 = rowIndex.get(to.id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+                const critical = showCritical && floats.get(from.id)?.critical && floats.get(to.id)?.critical;
+                const stroke = critical ? "#ef4444" : "#64748b";
+
+                return (
+                  <g key={dependency.id}>
+                    <line x1={x1} y1={y1} x2={x1} y2={y2} stroke={stroke} strokeWidth="1.5" />
+                    <line
+                      x1={x1}
+                      y1={y2}
+                      x2={x2}
+                      y2={y2}
+                      stroke={stroke}
+                      strokeWidth="1.5"
+                      markerEnd={`url(#${critical ? criticalMarkerId : markerId})`}
+                    />
+                  </g>
+                );
+              })}
+              {today >= rangeStart && today <= rangeEnd && (
+                <line
+                  x1={`${offsetPercent(today)}%`}
+                  y1="0"
+                  x2={`${offsetPercent(today)}%`}
+                  y2="100%"
+                  stroke="#dc2626"
+                  strokeWidth="2"
+                />
+              )}
+            </svg>
+          </div>
+        </div>
+      </div>
+      <div className="mt-4 pt-4 border-t border-slate-200">
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-green-500 rounded"></div>
+            <span className="text-slate-600">Completed</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-blue-500 rounded"></div>
+            <span className="text-slate-600">In Progress</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-gray-400 rounded"></div>
+            <span className="text-slate-600">Not Started</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 rounded ring-2 ring-red-500"></div>
+            <span className="text-slate-600">Critical path</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rotate-45 bg-amber-500"></div>
+            <span className="text-slate-600">Task due</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-0.5 bg-red-600"></div>
+            <span className="text-slate-600">Today</span>
+          </div>
+          {canManage && (
+            <span className="text-slate-500">Drag a bar to move a phase, or its edges to change its dates</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState, useEffect } from "react";
+import { Plus, Trash2, AlertTriangle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import {
+  listScheduleBaselines,
+  listScheduleVariance,
+  captureScheduleBaseline,
+  deleteScheduleBaseline,
+  projectSlipDays,
+} from "../../lib/repositories";
+import type { ScheduleBaseline, ScheduleVariance } from "../../types";
+
+interface ScheduleVarianceTableProps {
+  projectId: string;
+  canEdit: boolean;
+}
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), "dd MMM yyyy") : "-");
+
+const slipLabel = (days: number | null) => {
+  if (days === null) return "-";
+  if (days === 0) return "On plan";
+  return days > 0 ? `${days}d late` : `${-days}d early`;
+};
+
+const slipColor = (days: number | null) => {
+  if (days === null || days === 0) return "text-gray-600";
+  return days > 0 ? "text-red-600" : "text-green-600";
+};
+
+/**
+ * Baseline vs current schedule for a project: one row per phase with how far its
+ * start and finish have moved. Editors can save and remove baselines.
+ */
+export function ScheduleVarianceTable({ projectId, canEdit }: ScheduleVarianceTableProps) {
+  const [baselines, setBaselines] = useState<ScheduleBaseline[]>([]);
+  const [baselineId, setBaselineId] = useState("");
+  const [rows, setRows] = useState<ScheduleVariance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchBaselines = async (select?: string) => {
+    try {
+      const data = await listScheduleBaselines(projectId);
+      setBaselines(data);
+      setBaselineId(select ?? data[0]?.id ?? "");
+      if (data.length === 0) setRows([]);
+    } catch (error) {
+      console.error("Error fetching baselines:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchBaselines();
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!baselineId) return;
+    listScheduleVariance(baselineId)
+      .then(setRows)
+      .catch((error) => console.error("Error fetching schedule variance:", error));
+  }, [baselineId]);
+
+  const handleCapture = async () => {
+    const name = newName.trim() || `Baseline ${format(new Date(), "dd MMM yyyy")}`;
+    setSaving(true);
+    try {
+      const id = await captureScheduleBaseline(projectId, name);
+      setNewName("");
+      await fetchBaselines(id);
+    } catch (error) {
+      console.error("Error saving baseline:", error);
+      alert(`Failed to save baseline: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const baseline = baselines.find((b) => b.id === baselineId);
+    if (!baseline || !window.confirm(`Delete the baseline "${baseline.name}"?`)) return;
+
+    try {
+      await deleteScheduleBaseline(baseline.id);
+      await fetchBaselines();
+    } catch (error) {
+      console.error("Error deleting baseline:", error);
+      alert(`Failed to delete baseline: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const projectSlip = projectSlipDays(rows);
+  const slipped = rows.filter((row) => (row.end_slip_days ?? 0) > 0);
+
+  if (loading) {
+    return <p className="text-gray-500 text-center py-4">Loading baselines...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {baselines.length > 0 && (
+          <select
+            value={baselineId}
+            onChange={(e) => setBaselineId(e.target.value)}
+            className="border rounded-lg p-2 text-sm"
+          >
+            {baselines.map((baseline) => (
+              <option key={baseline.id} value={baseline.id}>
+                {baseline.name} ({format(parseISO(baseline.created_at), "dd MMM yyyy")})
+              </option>
+            ))}
+          </select>
+        )}
+        {canEdit && baselineId && (
+          <button onClick={handleDelete} className="text-red-600 hover:text-red-700 p-2" title="Delete baseline">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+        {canEdit && (
+          <div className="flex items-center gap-2 ml-auto">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Baseline name"
+              className="border rounded-lg p-2 text-sm"
+            />
+            <button
+              onClick={handleCapture}
+              disabled={saving}
+              className="flex items-center bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              {saving ? "Saving..." : "Save Baseline"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {baselines.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">
+          No baseline saved yet{canEdit ? ". Save one to track how the schedule moves from here." : ""}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div
+              className={`rounded-lg border p-3 ${
+                projectSlip && projectSlip > 0 ? "bg-red-50 border-red-200" : "bg-green-50 border-green-200"
+              }`}
+            >
+              <p className="text-xs text-gray-600">Project Finish</p>
+              <p className={`text-lg font-bold ${slipColor(projectSlip)}`}>{slipLabel(projectSlip)}</p>
+            </div>
+            <div className="bg-white rounded-lg border border-gray-200 p-3">
+              <p className="text-xs text-gray-600">Phases Finishing Late</p>
+              <p className="text-lg font-bold text-gray-900">
+                {slipped.length} of {rows.filter((row) => row.baseline_end && row.current_end).length}
+              </p>
+            </div>
+            <div className="bg-white rounded-lg border border-gray-200 p-3">
+              <p className="text-xs text-gray-600">Worst Slip</p>
+              <p className="text-lg font-bold text-gray-900">
+                {slipped.length ? `${Math.max(...slipped.map((row) => row.end_slip_days!))} days` : "-"}
+              </p>
+            </div>
+          </div>
+
+          {slipped.length > 0 && (
+            <div className="flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                {slipped.length} phase{slipped.length > 1 ? "s finish" : " finishes"} later than the baseline
+              </span>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-gray-600 border-b">
+                  <th className="py-2 text-left font-medium">Phase</th>
+                  <th className="py-2 text-left font-medium">Baseline</th>
+                  <th className="py-2 text-left font-medium">Current</th>
+                  <th className="py-2 text-right font-medium">Start</th>
+                  <th className="py-2 text-right font-medium">Finish</th>
+                  <th className="py-2 text-right font-medium">Duration</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={`${row.phase_id}-${row.phase_name}`} className="border-b border-gray-100">
+                    <td className="py-2">
+                      {row.phase_name}
+                      {!row.baseline_start && <span className="ml-2 text-xs text-blue-600">Added</span>}
+                      {!row.current_start && <span className="ml-2 text-xs text-gray-500">Removed</span>}
+                    </td>
+                    <td className="py-2 text-gray-600">
+                      {formatDate(row.baseline_start)} - {formatDate(row.baseline_end)}
+                    </td>
+                    <td className="py-2 text-gray-600">
+                      {formatDate(row.current_start)} - {formatDate(row.current_end)}
+                    </td>
+                    <td className={`py-2 text-right ${slipColor(row.start_slip_days)}`}>{slipLabel(row.start_slip_days)}</td>
+                    <td className={`py-2 text-right font-medium ${slipColor(row.end_slip_days)}`}>
+                      {slipLabel(row.end_slip_days)}
+                    </td>
+                    <td className={`py-2 text-right ${slipColor(row.duration_change_days)}`}>
+                      {row.duration_change_days === null || row.duration_change_days === 0
+                        ? "-"
+                        : `${row.duration_change_days > 0 ? "+" : ""}${row.duration_change_days}d`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
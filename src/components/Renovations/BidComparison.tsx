@@ -0,0 +1,205 @@
+import { X, Paperclip } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { getBidAttachmentUrl } from "../../lib/repositories";
+import type { Bid } from "../../types";
+
+interface BidComparisonProps {
+  // Title of the renovation request the bids are on
+  title: string;
+  bids: Bid[];
+  bidderNames: Record<string, string>;
+  onRespond: (bidId: string, action: "accept" | "reject") => void;
+  onClose: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const statusColors: Record<string, string> = {
+  active: "bg-blue-100 text-blue-800",
+  accepted: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  withdrawn: "bg-gray-100 text-gray-600",
+};
+
+/**
+ * All bids on one renovation request side by side, with the cheapest and fastest
+ * open bids highlighted.
+ */
+export function BidComparison({ title, bids, bidderNames, onRespond, onClose }: BidComparisonProps) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const isOpen = (bid: Bid) => bid.bid_status === "active" && (!bid.valid_until || bid.valid_until >= today);
+
+  const open = bids.filter(isOpen);
+  const lowestPrice = open.length ? Math.min(...open.map((b) => Number(b.total_amount))) : null;
+  const shortestTimeline = open.length ? Math.min(...open.map((b) => b.timeline_days)) : null;
+
+  const rowLabel = "py-2 pr-4 text-left font-medium text-gray-600 align-top whitespace-nowrap";
+  const cell = "py-2 px-3 align-top border-l border-gray-100";
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-lg p-6 w-full max-w-6xl max-h-[90vh] overflow-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900">Compare Bids: {title}</h2>
+          <button onClick={onClose}>
+            <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+          </button>
+        </div>
+
+        {bids.length === 0 ? (
+          <p className="text-gray-500">No bids yet.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th />
+                {bids.map((bid) => (
+                  <th key={bid.id} className="py-2 px-3 text-left font-semibold text-gray-900 border-l border-gray-100 min-w-[200px]">
+                    {bidderNames[bid.admin_id] || bid.admin_id}
+                    <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${statusColors[bid.bid_status]}`}>
+                      {bid.bid_status}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              <tr>
+                <th className={rowLabel}>Total Price</th>
+                {bids.map((bid) => (
+                  <td
+                    key={bid.id}
+                    className={`${cell} font-semibold ${isOpen(bid) && Number(bid.total_amount) === lowestPrice ? "bg-green-50 text-green-700" : ""}`}
+                  >
+                    {formatCurrency(Number(bid.total_amount))}
+                    {isOpen(bid) && Number(bid.total_amount) === lowestPrice && (
+                      <span className="block text-xs font-normal">Lowest price</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <th className={rowLabel}>Timeline</th>
+                {bids.map((bid) => (
+                  <td
+                    key={bid.id}
+                    className={`${cell} ${isOpen(bid) && bid.timeline_days === shortestTimeline ? "bg-green-50 text-green-700" : ""}`}
+                  >
+                    {bid.timeline_days} days
+                    {isOpen(bid) && bid.timeline_days === shortestTimeline && (
+                      <span className="block text-xs">Shortest timeline</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <th className={rowLabel}>Valid Until</th>
+                {bids.map((bid) => (
+                  <td key={bid.id} className={cell}>
+                    {bid.valid_until ? format(parseISO(bid.valid_until), "dd MMM yyyy") : "-"}
+                    {bid.bid_status === "active" && bid.valid_until && bid.valid_until < today && (
+                      <span className="block text-xs text-red-600">Expired</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <th className={rowLabel}>Breakdown</th>
+                {bids.map((bid) => (
+                  <td key={bid.id} className={cell}>
+                    {(bid.bid_line_items ?? []).map((item) => (
+                      <div key={item.id} className="flex justify-between gap-2">
+                        <span>{item.description} <span className="text-gray-500">({item.duration_days}d)</span></span>
+                        <span className="whitespace-nowrap">{formatCurrency(Number(item.amount))}</span>
+                      </div>
+                    ))}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <th className={rowLabel}>Included</th>
+                {bids.map((bid) => (
+                  <td key={bid.id} className={cell}>
+                    {bid.inclusions.length ? (
+                      <ul className="list-disc list-inside">
+                        {bid.inclusions.map((item, index) => <li key={index}>{item}</li>)}
+                      </ul>
+                    ) : "-"}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <th className={rowLabel}>Not Included</th>
+                {bids.map((bid) => (
+                  <td key={bid.id} className={cell}>
+                    {bid.exclusions.length ? (
+                      <ul className="list-disc list-inside">
+                        {bid.exclusions.map((item, index) => <li key={index}>{item}</li>)}
+                      </ul>
+                    ) : "-"}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <th className={rowLabel}>Proposal</th>
+                {bids.map((bid) => (
+                  <td key={bid.id} className={`${cell} whitespace-pre-line text-gray-700`}>{bid.proposal}</td>
+                ))}
+              </tr>
+              <tr>
+                <th className={rowLabel}>Attachments</th>
+                {bids.map((bid) => (
+                  <td key={bid.id} className={cell}>
+                    {(bid.bid_attachments ?? []).length
+                      ? bid.bid_attachments!.map((file) => (
+                          <a
+                            key={file.id}
+                            href={getBidAttachmentUrl(file.file_path)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center text-blue-600 hover:underline"
+                          >
+                            <Paperclip className="w-3 h-3 mr-1 flex-shrink-0" />
+                            <span className="truncate">{file.name}</span>
+                          </a>
+                        ))
+                      : "-"}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <th />
+                {bids.map((bid) => (
+                  <td key={bid.id} className={cell}>
+                    {bid.bid_status === "active" && (
+                      <div className="flex gap-2">
+                        {isOpen(bid) && (
+                          <button
+                            onClick={() => onRespond(bid.id, "accept")}
+                            className="bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700"
+                          >
+                            Accept
+                          </button>
+                        )}
+                        <button
+                          onClick={() => onRespond(bid.id, "reject")}
+                          className="bg-red-600 text-white px-3 py-1 rounded-lg hover:bg-red-700"
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { X, Plus, Trash2, Paperclip } from "lucide-react";
+import { addDays, format } from "date-fns";
+import type { BidInput } from "../../lib/repositories";
+
+interface BidFormProps {
+  // Title of the renovation request being bid on
+  title: string;
+  bidCost: number;
+  // Places the bid and uploads the files; the form stays open if it throws
+  onSubmit: (bid: BidInput, files: File[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface FormLine {
+  description: string;
+  amount: string;
+  duration_days: string;
+}
+
+const emptyLine = (): FormLine => ({ description: "", amount: "", duration_days: "" });
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Inclusions and exclusions are typed one per line
+const toList = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * A structured bid on a renovation request: priced line items with durations,
+ * which become the project's phases if the bid is accepted, plus scope notes,
+ * validity and supporting files.
+ */
+export function BidForm({ title, bidCost, onSubmit, onClose }: BidFormProps) {
+  const [proposal, setProposal] = useState("");
+  const [lines, setLines] = useState<FormLine[]>([emptyLine()]);
+  const [inclusions, setInclusions] = useState("");
+  const [exclusions, setExclusions] = useState("");
+  const [validUntil, setValidUntil] = useState(format(addDays(new Date(), 30), "yyyy-MM-dd"));
+  const [files, setFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const updateLine = (index: number, patch: Partial<FormLine>) =>
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+
+  const parsedLines = lines.map((line) => ({
+    description: line.description.trim(),
+    amount: parseFloat(line.amount) || 0,
+    duration_days: parseInt(line.duration_days, 10) || 0,
+  }));
+  const total = parsedLines.reduce((sum, line) => sum + line.amount, 0);
+  const timelineDays = parsedLines.reduce((sum, line) => sum + line.duration_days, 0);
+
+  const handleSubmit = async () => {
+    if (!proposal.trim()) {
+      alert("Please describe your proposal");
+      return;
+    }
+    if (parsedLines.some((line) => !line.description || line.amount < 0 || line.duration_days < 1)) {
+      alert("Every line item needs a description, a price and a duration of at least one day");
+      return;
+    }
+    if (!validUntil || validUntil < format(new Date(), "yyyy-MM-dd")) {
+      alert("The bid must be valid until today or later");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(
+        {
+          proposal: proposal.trim(),
+          line_items: parsedLines,
+          inclusions: toList(inclusions),
+          exclusions: toList(exclusions),
+          valid_until: validUntil,
+        },
+        files
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900">Bid on {title}</h2>
+          <button onClick={onClose}>
+            <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+          </button>
+        </div>
+
+        <label className="block font-medium text-gray-700 mb-1">Proposal</label>
+        <textarea
+          value={proposal}
+          onChange={(e) => setProposal(e.target.value)}
+          placeholder="Your approach, materials and experience with similar work"
+          rows={3}
+          className={inputClass}
+        />
+
+        <h3 className="font-semibold text-gray-900 mt-6 mb-2">Price Breakdown</h3>
+        <p className="text-xs text-gray-500 mb-2">
+          Each line becomes a project phase, in this order, if your bid is accepted
+        </p>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-gray-600 border-b">
+              <th className="py-2 text-left font-medium">Work</th>
+              <th className="py-2 text-right font-medium">Price (₹)</th>
+              <th className="py-2 text-right font-medium">Days</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line, index) => (
+              <tr key={index} className="border-b border-gray-100">
+                <td className="py-2 pr-2">
+                  <input
+                    type="text"
+                    value={line.description}
+                    onChange={(e) => updateLine(index, { description: e.target.value })}
+                    placeholder="e.g. Demolition and debris removal"
+                    className="w-full border rounded p-1"
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.amount}
+                    onChange={(e) => updateLine(index, { amount: e.target.value })}
+                    className="w-28 border rounded p-1 text-right"
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={line.duration_days}
+                    onChange={(e) => updateLine(index, { duration_days: e.target.value })}
+                    className="w-20 border rounded p-1 text-right"
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  {lines.length > 1 && (
+                    <button
+                      onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                      className="text-red-600 hover:text-red-700"
+                      title="Remove line"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          onClick={() => setLines([...lines, emptyLine()])}
+          className="flex items-center mt-2 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Line
+        </button>
+
+        <div className="flex justify-end mt-4">
+          <div className="w-64 text-sm space-y-1">
+            <div className="flex justify-between font-semibold">
+              <span>Total</span>
+              <span>{formatCurrency(total)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Timeline</span>
+              <span>{timelineDays} days</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">Included</label>
+            <textarea
+              value={inclusions}
+              onChange={(e) => setInclusions(e.target.value)}
+              placeholder={"One per line, e.g.\nMaterials\nSite cleanup"}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">Not Included</label>
+            <textarea
+              value={exclusions}
+              onChange={(e) => setExclusions(e.target.value)}
+              placeholder={"One per line, e.g.\nPermits\nFurniture"}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">Valid Until</label>
+            <input
+              type="date"
+              value={validUntil}
+              min={format(new Date(), "yyyy-MM-dd")}
+              onChange={(e) => setValidUntil(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">Attachments</label>
+            <label className="flex items-center cursor-pointer text-sm text-blue-600 hover:text-blue-700 mt-2">
+              <Paperclip className="w-4 h-4 mr-1" />
+              Add drawings, quotes or photos
+              <input
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  setFiles([...files, ...Array.from(e.target.files ?? [])]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            {files.map((file, index) => (
+              <div key={index} className="flex justify-between items-center text-sm text-gray-700 mt-1">
+                <span className="truncate">{file.name}</span>
+                <button
+                  onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-700 ml-2"
+                  title="Remove file"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2 mt-6">
+          <button
+            onClick={onClose}
+            className="bg-gray-300 text-black px-4 py-2 rounded-lg hover:bg-gray-400"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50"
+          >
+            {saving ? "Submitting..." : `Submit Bid (${bidCost} tokens)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { eachDayOfInterval, endOfMonth, format, getDay, isAfter, startOfMonth } from "date-fns";
+import type { SiteLogWithDetails } from "../../lib/repositories";
+
+interface SiteLogHeatmapProps {
+  month: Date;
+  logs: SiteLogWithDetails[];
+  missingDays: string[];
+  selectedDate: string | null;
+  onSelect: (date: string) => void;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const headcount = (log: SiteLogWithDetails) =>
+  log.site_log_manpower.reduce((sum, m) => sum + Number(m.headcount), 0);
+
+/**
+ * A month of site logs as a calendar. Logged days are shaded by the manpower on
+ * site, missing days are red, and days outside the project or still ahead are
+ * left blank.
+ */
+export function SiteLogHeatmap({ month, logs, missingDays, selectedDate, onSelect }: SiteLogHeatmapProps) {
+  const days = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) });
+  const logsByDate = new Map(logs.map((log) => [log.log_date, log]));
+  const missing = new Set(missingDays);
+  const busiest = Math.max(1, ...logs.map(headcount));
+
+  const cellClass = (date: string) => {
+    const log = logsByDate.get(date);
+    if (log) {
+      const share = headcount(log) / busiest;
+      if (share > 0.66) return "bg-green-600 text-white";
+      if (share > 0.33) return "bg-green-400 text-white";
+      return "bg-green-200 text-green-900";
+    }
+    if (missing.has(date)) return "bg-red-100 text-red-700 border border-red-300";
+    return "bg-gray-50 text-gray-400";
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="grid grid-cols-7 gap-1 text-xs text-gray-500 mb-1">
+        {WEEKDAYS.map((day) => (
+          <div key={day} className="text-center">{day}</div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 gap-1">
+        {Array.from({ length: getDay(days[0]) }, (_, i) => (
+          <div key={`blank-${i}`} />
+        ))}
+        {days.map((day) => {
+          const date = format(day, "yyyy-MM-dd");
+          const log = logsByDate.get(date);
+          const future = isAfter(day, new Date());
+          return (
+            <button
+              key={date}
+              onClick={() => onSelect(date)}
+              disabled={future && !log}
+              title={
+                log
+                  ? `${headcount(log)} on site${log.signed_off_at ? ", signed off" : ", not signed off"}`
+                  : missing.has(date)
+                  ? "No site log"
+                  : undefined
+              }
+              className={`h-12 rounded text-sm flex flex-col items-center justify-center disabled:cursor-default ${cellClass(date)} ${
+                selectedDate === date ? "ring-2 ring-blue-500" : ""
+              }`}
+            >
+              <span className="font-medium">{format(day, "d")}</span>
+              {log && !log.signed_off_at && <span className="text-[10px] leading-none">draft</span>}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-green-200" />
+          <span className="w-3 h-3 rounded bg-green-400" />
+          <span className="w-3 h-3 rounded bg-green-600" />
+          Logged (by manpower)
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-red-100 border border-red-300" />
+          Missing
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import type { SnagSeverity, SnagStatus } from "../../types";
+
+export const snagStatusLabels: Record<SnagStatus, string> = {
+  open: "Open",
+  in_progress: "In Progress",
+  fixed: "Fixed, Awaiting Check",
+  closed: "Closed",
+};
+
+export const snagStatusColors: Record<SnagStatus, string> = {
+  open: "bg-red-100 text-red-700",
+  in_progress: "bg-yellow-100 text-yellow-800",
+  fixed: "bg-blue-100 text-blue-700",
+  closed: "bg-green-100 text-green-700",
+};
+
+export const snagSeverityColors: Record<SnagSeverity, string> = {
+  low: "bg-gray-100 text-gray-700",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-orange-100 text-orange-800",
+  critical: "bg-red-600 text-white",
+};
@@ -0,0 +1,309 @@
+import { useState, useEffect } from "react";
+import { CheckSquare, Plus, Trash2, Calendar, User, AlertTriangle } from "lucide-react";
+import {
+  listPhaseTasks,
+  listProjectMembers,
+  createTask,
+  updateTask,
+  deleteTask,
+  isTaskOverdue,
+  TaskWithPhase,
+} from "../../lib/repositories";
+import type { TaskPriority, TaskStatus, TeamMember } from "../../types";
+import { taskStatusLabels, taskPriorityColors } from "./taskLabels";
+
+interface PhaseTasksProps {
+  phaseId: string;
+  projectId: string;
+  canManage: boolean;
+  // Called after any change, since task completion moves the phase's progress
+  onChange?: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  description: "",
+  assigned_to: "",
+  due_date: "",
+  priority: "medium" as TaskPriority,
+};
+
+export function PhaseTasks({ phaseId, projectId, canManage, onChange }: PhaseTasksProps) {
+  const [tasks, setTasks] = useState<TaskWithPhase[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const fetchTasks = async () => {
+    try {
+      setTasks(await listPhaseTasks(phaseId));
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchTasks();
+    listProjectMembers(projectId)
+      .then(setMembers)
+      .catch((error) => console.error("Error fetching team members:", error));
+  }, [phaseId, projectId]);
+
+  const handleAddTask = async () => {
+    if (!form.name.trim()) {
+      alert("Please enter a task name");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createTask({
+        phase_id: phaseId,
+        project_id: projectId,
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        assigned_to: form.assigned_to || null,
+        due_date: form.due_date || null,
+        status: "todo",
+        priority: form.priority,
+      });
+      setForm(emptyForm);
+      setShowForm(false);
+      await fetchTasks();
+      onChange?.();
+    } catch (error) {
+      console.error("Error creating task:", error);
+      alert(`Failed to create task: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (taskId: string, status: TaskStatus) => {
+    try {
+      await updateTask(taskId, { status });
+      await fetchTasks();
+      onChange?.();
+    } catch (error) {
+      console.error("Error updating task:", error);
+      alert(`Failed to update task: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleAssign = async (taskId: string, assignedTo: string) => {
+    try {
+      await updateTask(taskId, { assigned_to: assignedTo || null });
+      await fetchTasks();
+    } catch (error) {
+      console.error("Error assigning task:", error);
+      alert(`Failed to assign task: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleDelete = async (taskId: string) => {
+    if (!window.confirm("Delete this task?")) return;
+
+    try {
+      await deleteTask(taskId);
+      await fetchTasks();
+      onChange?.();
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      alert(`Failed to delete task: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const completedCount = tasks.filter((t) => t.status === "completed").length;
+  const overdueCount = tasks.filter((t) => isTaskOverdue(t)).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <CheckSquare className="w-6 h-6 text-gray-600 mr-2" />
+          <h3 className="text-xl font-bold text-gray-900">Tasks</h3>
+          {tasks.length > 0 && (
+            <span className="ml-3 text-sm text-gray-500">
+              {completedCount} of {tasks.length} done
+            </span>
+          )}
+          {overdueCount > 0 && (
+            <span className="ml-2 px-2 py-0.5 bg-red-100 text-red-700 text-xs font-medium rounded-full">
+              {overdueCount} overdue
+            </span>
+          )}
+        </div>
+        {canManage && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Task
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="bg-gray-50 rounded-lg p-4 mb-4 space-y-3">
+          <input
+            type="text"
+            placeholder="Task name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="w-full border rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <textarea
+            placeholder="Description (optional)"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            rows={2}
+            className="w-full border rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={form.assigned_to}
+              onChange={(e) => setForm({ ...form, assigned_to: e.target.value })}
+              className="border rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Unassigned</option>
+              {members.map((m) => (
+                <option key={m.id} value={m.id}>{m.name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={form.due_date}
+              onChange={(e) => setForm({ ...form, due_date: e.target.value })}
+              className="border rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <select
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value as TaskPriority })}
+              className="border rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="low">Low priority</option>
+              <option value="medium">Medium priority</option>
+              <option value="high">High priority</option>
+            </select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setShowForm(false);
+                setForm(emptyForm);
+              }}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAddTask}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Task"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-gray-500 text-center py-4">Loading tasks...</p>
+      ) : tasks.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No tasks added yet</p>
+      ) : (
+        <div className="space-y-2">
+          {tasks.map((task) => {
+            const overdue = isTaskOverdue(task);
+
+            return (
+              <div
+                key={task.id}
+                className={`flex items-start justify-between rounded-lg p-3 border ${
+                  overdue ? "border-red-300 bg-red-50" : "border-gray-200 bg-white"
+                }`}
+              >
+                <div className="flex items-start flex-1">
+                  <input
+                    type="checkbox"
+                    checked={task.status === "completed"}
+                    onChange={(e) => handleStatusChange(task.id, e.target.checked ? "completed" : "todo")}
+                    className="mt-1 mr-3 h-4 w-4"
+                  />
+                  <div className="flex-1">
+                    <div className="flex items-center flex-wrap gap-2">
+                      <span className={`font-medium ${task.status === "completed" ? "line-through text-gray-400" : "text-gray-900"}`}>
+                        {task.name}
+                      </span>
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${taskPriorityColors[task.priority]}`}>
+                        {task.priority}
+                      </span>
+                      {overdue && (
+                        <span className="flex items-center px-2 py-0.5 bg-red-100 text-red-700 text-xs font-medium rounded-full">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Overdue
+                        </span>
+                      )}
+                    </div>
+                    {task.description && <p className="text-sm text-gray-600 mt-1">{task.description}</p>}
+                    <div className="flex items-center flex-wrap gap-3 text-xs text-gray-500 mt-2">
+                      {task.due_date && (
+                        <span className={`flex items-center ${overdue ? "text-red-600 font-medium" : ""}`}>
+                          <Calendar className="w-3 h-3 mr-1" />
+                          Due {new Date(task.due_date).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" })}
+                        </span>
+                      )}
+                      <span className="flex items-center">
+                        <User className="w-3 h-3 mr-1" />
+                        {canManage ? (
+                          <select
+                            value={task.assigned_to || ""}
+                            onChange={(e) => handleAssign(task.id, e.target.value)}
+                            className="bg-transparent border-none p-0 text-xs focus:ring-0"
+                          >
+                            <option value="">Unassigned</option>
+                            {members.map((m) => (
+                              <option key={m.id} value={m.id}>{m.name}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          task.users?.name || "Unassigned"
+                        )}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 ml-2">
+                  <select
+                    value={task.status}
+                    onChange={(e) => handleStatusChange(task.id, e.target.value as TaskStatus)}
+                    className="border rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {(Object.keys(taskStatusLabels) as TaskStatus[]).map((status) => (
+                      <option key={status} value={status}>{taskStatusLabels[status]}</option>
+                    ))}
+                  </select>
+                  {canManage && (
+                    <button
+                      onClick={() => handleDelete(task.id)}
+                      className="text-red-600 hover:text-red-700"
+                      title="Delete task"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
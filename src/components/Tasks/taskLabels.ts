@@ -0,0 +1,13 @@
+import type { TaskPriority, TaskStatus } from "../../types";
+
+export const taskStatusLabels: Record<TaskStatus, string> = {
+  todo: "To Do",
+  in_progress: "In Progress",
+  completed: "Completed",
+};
+
+export const taskPriorityColors: Record<TaskPriority, string> = {
+  low: "bg-gray-100 text-gray-700",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-red-100 text-red-700",
+};
@@ -0,0 +1,30 @@
+import type { Vendor } from "../../types";
+
+interface VendorPickerProps {
+  vendors: Vendor[];
+  value: string;
+  onChange: (vendor: Vendor | null) => void;
+  // Free-text name saved before the record was linked to a vendor
+  unlinkedName?: string;
+  className?: string;
+}
+
+export function VendorPicker({ vendors, value, onChange, unlinkedName, className }: VendorPickerProps) {
+  const options = vendors.filter((v) => v.active || v.id === value);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(vendors.find((v) => v.id === e.target.value) ?? null)}
+      className={className}
+    >
+      <option value="">{unlinkedName ? `${unlinkedName} (not linked)` : "No vendor"}</option>
+      {options.map((vendor) => (
+        <option key={vendor.id} value={vendor.id}>
+          {vendor.name}
+          {vendor.gstin ? ` · ${vendor.gstin}` : ""}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,72 @@
+// GST on Indian tax documents: intra-state supplies carry CGST + SGST in equal
+// halves, inter-state supplies carry IGST. The state is the first two digits of a GSTIN.
+
+export interface GstBreakup {
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export function gstStateCode(gstin?: string | null): string | null {
+  const code = gstin?.trim().slice(0, 2);
+  return code && /^\d{2}$/.test(code) ? code : null;
+}
+
+/**
+ * Inter-state only when both GSTINs are known and in different states.
+ */
+export function isInterState(supplierGstin?: string | null, recipientGstin?: string | null): boolean {
+  const from = gstStateCode(supplierGstin);
+  const to = gstStateCode(recipientGstin);
+  return !!from && !!to && from !== to;
+}
+
+export function splitGst(gstAmount: number, interState: boolean): GstBreakup {
+  if (interState) return { cgst: 0, sgst: 0, igst: gstAmount };
+  const half = Math.round((gstAmount / 2) * 100) / 100;
+  return { cgst: half, sgst: gstAmount - half, igst: 0 };
+}
+
+// GST state codes, for the place of supply on invoices
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+];
+
+export function gstStateName(code?: string | null): string {
+  return GST_STATES.find((state) => state.code === code)?.name ?? code ?? '';
+}
@@ -0,0 +1,66 @@
+import type { RazorpayOrder, RazorpayPaymentResponse } from './repositories';
+
+declare global {
+  interface Window {
+    Razorpay: any;
+  }
+}
+
+export interface RazorpayCheckoutOptions {
+  // As returned by create-razorpay-order, with the public key to check out with
+  order: RazorpayOrder;
+  description: string;
+  prefill?: { name?: string; email?: string; contact?: string };
+  onSuccess: (response: RazorpayPaymentResponse) => void;
+  onDismiss?: () => void;
+  onFailure?: (error: unknown) => void;
+}
+
+let scriptLoad: Promise<boolean> | null = null;
+
+/**
+ * Load Razorpay's checkout script once per page.
+ */
+export const loadRazorpayCheckout = (): Promise<boolean> => {
+  if (window.Razorpay) return Promise.resolve(true);
+
+  if (scriptLoad) return scriptLoad;
+
+  scriptLoad = new Promise((resolve) => {
+    const script = document.createElement('script');
+    script.src = 'https://checkout.razorpay.com/v1/checkout.js';
+    script.onload = () => resolve(true);
+    script.onerror = () => {
+      scriptLoad = null;
+      resolve(false);
+    };
+    document.body.appendChild(script);
+  });
+
+  return scriptLoad;
+};
+
+/**
+ * Open Razorpay checkout for an order created by the create-razorpay-order function.
+ */
+export const openRazorpayCheckout = async (options: RazorpayCheckoutOptions): Promise<void> => {
+  if (!(await loadRazorpayCheckout())) {
+    throw new Error('Razorpay SDK not loaded');
+  }
+
+  const rzp = new window.Razorpay({
+    key: options.order.key_id,
+    amount: options.order.amount,
+    currency: options.order.currency,
+    name: 'BuildMyHomes',
+    description: options.description,
+    order_id: options.order.id,
+    handler: options.onSuccess,
+    prefill: options.prefill,
+    theme: { color: '#2563eb' },
+    modal: { ondismiss: options.onDismiss },
+  });
+
+  if (options.onFailure) rzp.on('payment.failed', options.onFailure);
+  rzp.open();
+};
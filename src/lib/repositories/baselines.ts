@@ -0,0 +1,66 @@
+import type { ScheduleBaseline, ScheduleVariance } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+/**
+ * A project's schedule baselines, newest first.
+ */
+export async function listScheduleBaselines(
+  projectId: string,
+  client: DbClient = defaultClient
+): Promise<ScheduleBaseline[]> {
+  return unwrapList(
+    await client
+      .from('schedule_baselines')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+  );
+}
+
+/**
+ * Snapshot the project's current phase dates. Returns the new baseline's id.
+ */
+export async function captureScheduleBaseline(
+  projectId: string,
+  name: string,
+  client: DbClient = defaultClient
+): Promise<string> {
+  return unwrapOne(
+    await client.rpc('capture_schedule_baseline', { p_project_id: projectId, p_name: name })
+  );
+}
+
+export async function deleteScheduleBaseline(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('schedule_baselines').delete().eq('id', id));
+}
+
+/**
+ * Each phase of a baseline against the current schedule, in baseline order.
+ */
+export async function listScheduleVariance(
+  baselineId: string,
+  client: DbClient = defaultClient
+): Promise<ScheduleVariance[]> {
+  return unwrapList(
+    await client
+      .from('schedule_variance')
+      .select('*')
+      .eq('baseline_id', baselineId)
+      .order('baseline_start', { nullsFirst: false })
+      .order('current_start')
+      .overrideTypes<ScheduleVariance[], { merge: false }>()
+  );
+}
+
+/**
+ * How many days the project's finish has moved since the baseline: the latest
+ * current end against the latest baseline end.
+ */
+export function projectSlipDays(variance: ScheduleVariance[]): number | null {
+  const latest = (dates: (string | null)[]) =>
+    dates.filter((d): d is string => !!d).sort().pop() ?? null;
+  const baselineEnd = latest(variance.map((v) => v.baseline_end));
+  const currentEnd = latest(variance.map((v) => v.current_end));
+  if (!baselineEnd || !currentEnd) return null;
+  return Math.round((Date.parse(currentEnd) - Date.parse(baselineEnd)) / 86_400_000);
+}
@@ -0,0 +1,182 @@
+import type { Bid, BidAttachment, TokenPack, TokenTransaction } from '../../types';
+import { assertOk, DbClient, defaultClient, invokeFunction, unwrapList, unwrapOne } from './client';
+import type { Json } from '../../types/database';
+import type { RazorpayOrder, RazorpayPaymentResponse } from './subscriptions';
+
+export interface TokenCheckout {
+  order: RazorpayOrder;
+  pack: TokenPack;
+}
+
+export interface BidLineItemInput {
+  description: string;
+  amount: number;
+  duration_days: number;
+}
+
+// What a bidder submits; the total and timeline are summed from the line items
+export interface BidInput {
+  proposal: string;
+  line_items: BidLineItemInput[];
+  inclusions: string[];
+  exclusions: string[];
+  valid_until: string;
+}
+
+const BID_ATTACHMENTS_BUCKET = 'project-docs';
+const BID_DETAILS = '*, bid_line_items(*), bid_attachments(*)';
+
+type BidColumns = Pick<Bid, 'bid_status'>;
+type TokenTransactionColumns = Pick<TokenTransaction, 'kind'>;
+
+export async function listTokenPacks(client: DbClient = defaultClient): Promise<TokenPack[]> {
+  return unwrapList(await client.from('token_packs').select('id, name, tokens, price').order('tokens'));
+}
+
+/**
+ * The user's wallet balance; a wallet is only created by its first transaction.
+ */
+export async function getTokenBalance(userId: string, client: DbClient = defaultClient): Promise<number> {
+  const wallet = unwrapOne(
+    await client.from('token_wallets').select('balance').eq('user_id', userId).maybeSingle()
+  );
+  return wallet?.balance ?? 0;
+}
+
+export async function listTokenTransactions(
+  userId: string,
+  client: DbClient = defaultClient
+): Promise<TokenTransaction[]> {
+  return unwrapList(
+    await client
+      .from('token_transactions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .overrideTypes<TokenTransactionColumns[]>()
+  );
+}
+
+export async function getBidTokenCost(client: DbClient = defaultClient): Promise<number> {
+  return unwrapOne(await client.rpc('bid_token_cost'));
+}
+
+/**
+ * Bids on the given renovation requests with their line items and attachments,
+ * line items in order.
+ */
+export async function listBidsForRenovations(
+  renovationIds: string[],
+  client: DbClient = defaultClient
+): Promise<Bid[]> {
+  if (renovationIds.length === 0) return [];
+  const bids = unwrapList(
+    await client.from('bids').select(BID_DETAILS).in('renovation_id', renovationIds).order('created_at').overrideTypes<BidColumns[]>()
+  );
+  return bids.map(sortLineItems);
+}
+
+export async function listBidsByBidder(userId: string, client: DbClient = defaultClient): Promise<Bid[]> {
+  const bids = unwrapList(
+    await client.from('bids').select(BID_DETAILS).eq('admin_id', userId).order('created_at', { ascending: false }).overrideTypes<BidColumns[]>()
+  );
+  return bids.map(sortLineItems);
+}
+
+function sortLineItems(bid: Bid): Bid {
+  return { ...bid, bid_line_items: [...(bid.bid_line_items ?? [])].sort((a, b) => a.position - b.position) };
+}
+
+/**
+ * Bid on a renovation request, paying for it from the wallet. Returns the bid's id.
+ */
+export async function placeBid(renovationId: string, bid: BidInput, client: DbClient = defaultClient): Promise<string> {
+  return unwrapOne(
+    await client.rpc('place_bid', {
+      p_renovation_id: renovationId,
+      p_proposal: bid.proposal,
+      p_line_items: bid.line_items as unknown as Json,
+      p_inclusions: bid.inclusions,
+      p_exclusions: bid.exclusions,
+      p_valid_until: bid.valid_until,
+    })
+  );
+}
+
+/**
+ * Upload a file to one of the caller's active bids. The upload is removed again
+ * if the bid refuses it.
+ */
+export async function uploadBidAttachment(
+  bidId: string,
+  file: File,
+  client: DbClient = defaultClient
+): Promise<BidAttachment> {
+  const filePath = `bids/${bidId}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+  const { error: uploadError } = await client.storage.from(BID_ATTACHMENTS_BUCKET).upload(filePath, file);
+  if (uploadError) throw uploadError;
+
+  try {
+    return unwrapOne(
+      await client
+        .from('bid_attachments')
+        .insert({ bid_id: bidId, name: file.name, file_path: filePath, size_bytes: file.size })
+        .select()
+        .single()
+    );
+  } catch (error) {
+    await client.storage.from(BID_ATTACHMENTS_BUCKET).remove([filePath]);
+    throw error;
+  }
+}
+
+export function getBidAttachmentUrl(filePath: string, client: DbClient = defaultClient): string {
+  return client.storage.from(BID_ATTACHMENTS_BUCKET).getPublicUrl(filePath).data.publicUrl;
+}
+
+/**
+ * Withdraw an active bid; its tokens go back to the wallet.
+ */
+export async function withdrawBid(bidId: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.rpc('withdraw_bid', { p_bid_id: bidId }));
+}
+
+/**
+ * Accept or reject a bid on one of the client's requests. Rejected bids are
+ * refunded; accepting one rejects the rest and turns the request into a project
+ * with a phase per line item. Returns that project's id, or null on rejection.
+ */
+export async function respondToBid(
+  bidId: string,
+  decision: 'accept' | 'reject',
+  client: DbClient = defaultClient
+): Promise<string | null> {
+  return unwrapOne(await client.rpc('respond_to_bid', { p_bid_id: bidId, p_decision: decision }));
+}
+
+/**
+ * Start buying a token pack through the create-razorpay-order function, which
+ * prices it server-side.
+ */
+export async function checkoutTokenPack(packId: string, client: DbClient = defaultClient): Promise<TokenCheckout> {
+  return invokeFunction<TokenCheckout>('create-razorpay-order', { token_pack_id: packId }, client);
+}
+
+/**
+ * Hand Razorpay's checkout response to verify-razorpay-payment, which credits the
+ * wallet. Returns the new balance.
+ */
+export async function verifyTokenPayment(
+  response: RazorpayPaymentResponse,
+  client: DbClient = defaultClient
+): Promise<number> {
+  const data = await invokeFunction<{ balance: number }>('verify-razorpay-payment', { ...response }, client);
+  return data.balance;
+}
+
+/**
+ * Whether an error is a bid refused for lack of tokens.
+ */
+export function isInsufficientTokensError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '53000';
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { BudgetVariance } from '../../types';
+import { budgetWarning } from './budgets';
+
+const line = (overrides: Partial<BudgetVariance> = {}): BudgetVariance => ({
+  budget_line_id: 'line',
+  project_id: 'project',
+  phase_id: 'phase',
+  category: 'Electrical',
+  budgeted: 100000,
+  warn_at_percent: 80,
+  committed: 20000,
+  spent: 30000,
+  remaining: 50000,
+  percent_consumed: 50,
+  ...overrides,
+});
+
+describe('budgetWarning', () => {
+  it('stays quiet up to the warning threshold', () => {
+    expect(budgetWarning(line(), 10000)).toBeNull();
+    expect(budgetWarning(line(), 30000)).toBeNull();
+  });
+
+  it('warns with the projected share of the budget past the threshold', () => {
+    expect(budgetWarning(line(), 40000)).toBe('This takes the Electrical budget to 90% of ₹1,00,000.');
+  });
+
+  it('warns with the overrun once the budget is exceeded', () => {
+    expect(budgetWarning(line(), 62500.5)).toBe('This takes the Electrical budget ₹12,500.5 over its ₹1,00,000 limit.');
+  });
+});
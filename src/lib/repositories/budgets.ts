@@ -0,0 +1,58 @@
+import type { BudgetLine, BudgetVariance } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+export type BudgetLineInput = Pick<BudgetLine, 'project_id' | 'phase_id' | 'category' | 'amount' | 'warn_at_percent' | 'notes'>;
+
+/**
+ * Budgeted, committed and spent for every budget line of a project.
+ */
+export async function listBudgetVariance(projectId: string, client: DbClient = defaultClient): Promise<BudgetVariance[]> {
+  return unwrapList(
+    await client.from('budget_variance').select('*').eq('project_id', projectId).order('category').overrideTypes<BudgetVariance[], { merge: false }>()
+  );
+}
+
+/**
+ * The budget line covering a phase and category, if one has been set.
+ */
+export async function getBudgetVariance(
+  phaseId: string,
+  category: string,
+  client: DbClient = defaultClient
+): Promise<BudgetVariance | null> {
+  return unwrapOne(
+    await client.from('budget_variance').select('*').eq('phase_id', phaseId).eq('category', category).maybeSingle().overrideTypes<BudgetVariance | null, { merge: false }>()
+  );
+}
+
+export async function createBudgetLine(input: BudgetLineInput, client: DbClient = defaultClient): Promise<BudgetLine> {
+  return unwrapOne(await client.from('budget_lines').insert(input).select().single());
+}
+
+export async function updateBudgetLine(
+  id: string,
+  patch: Partial<Pick<BudgetLine, 'amount' | 'warn_at_percent' | 'notes'>>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('budget_lines').update(patch).eq('id', id));
+}
+
+export async function deleteBudgetLine(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('budget_lines').delete().eq('id', id));
+}
+
+/**
+ * Warning to show before booking `amount` more against a line, or null when the
+ * line stays under its warning threshold.
+ */
+export function budgetWarning(line: BudgetVariance, amount: number): string | null {
+  const budgeted = Number(line.budgeted);
+  const projected = Number(line.committed) + Number(line.spent) + amount;
+  const threshold = (budgeted * Number(line.warn_at_percent)) / 100;
+  if (projected <= threshold) return null;
+
+  const format = (value: number) => `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+  return projected > budgeted
+    ? `This takes the ${line.category} budget ${format(projected - budgeted)} over its ${format(budgeted)} limit.`
+    : `This takes the ${line.category} budget to ${Math.round((projected * 100) / budgeted)}% of ${format(budgeted)}.`;
+}
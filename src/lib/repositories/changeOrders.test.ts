@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { ChangeOrder, ChangeOrderStatus } from '../../types';
+import { summariseChangeOrders } from './changeOrders';
+
+const order = (status: ChangeOrderStatus, cost_impact: number, schedule_impact_days: number): ChangeOrder => ({
+  id: `${status}-${cost_impact}`,
+  project_id: 'project',
+  co_number: 'CO-001',
+  phase_id: null,
+  title: 'Extra work',
+  description: null,
+  cost_impact,
+  schedule_impact_days,
+  status,
+  sent_at: null,
+  responded_at: null,
+  responded_by_name: null,
+  response_note: null,
+  created_by: null,
+  created_at: '2025-01-01T00:00:00Z',
+});
+
+describe('summariseChangeOrders', () => {
+  it('is all zero without change orders', () => {
+    expect(summariseChangeOrders([])).toEqual({ approved: { cost: 0, days: 0 }, pending: { cost: 0, days: 0 } });
+  });
+
+  it('totals approved orders and those still with the client separately', () => {
+    const summary = summariseChangeOrders([
+      order('approved', 25000, 3),
+      order('approved', -5000, -1),
+      order('sent', 12000, 4),
+      order('draft', 99000, 10),
+      order('rejected', 40000, 6),
+    ]);
+
+    expect(summary).toEqual({ approved: { cost: 20000, days: 2 }, pending: { cost: 12000, days: 4 } });
+  });
+});
@@ -0,0 +1,98 @@
+import type { ChangeOrder } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+type ChangeOrderColumns = Pick<ChangeOrder, 'status'>;
+
+export type ChangeOrderWithPhase = ChangeOrder & { phases: { id: string; name: string } | null };
+
+export type ChangeOrderInput = Pick<
+  ChangeOrder,
+  'project_id' | 'phase_id' | 'title' | 'description' | 'cost_impact' | 'schedule_impact_days'
+>;
+
+export async function listChangeOrders(
+  projectId: string,
+  client: DbClient = defaultClient
+): Promise<ChangeOrderWithPhase[]> {
+  return unwrapList(
+    await client
+      .from('change_orders')
+      .select('*, phases (id, name)')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .overrideTypes<ChangeOrderColumns[]>()
+  );
+}
+
+/**
+ * Add a draft change order; the database numbers it CO-001, CO-002, ...
+ */
+export async function createChangeOrder(
+  input: ChangeOrderInput,
+  client: DbClient = defaultClient
+): Promise<ChangeOrder> {
+  return unwrapOne(await client.from('change_orders').insert(input).select().single().overrideTypes<ChangeOrderColumns>());
+}
+
+/**
+ * Edit a draft. Sent and answered change orders are rejected by the database.
+ */
+export async function updateChangeOrder(
+  id: string,
+  patch: Partial<ChangeOrderInput>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('change_orders').update(patch).eq('id', id));
+}
+
+export async function deleteChangeOrder(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('change_orders').delete().eq('id', id));
+}
+
+/**
+ * Send a draft to the client ('sent') or take it back ('draft').
+ */
+export async function setChangeOrderStatus(
+  id: string,
+  status: 'draft' | 'sent',
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.rpc('set_change_order_status', { p_change_order_id: id, p_status: status }));
+}
+
+/**
+ * The client's approval or rejection from a share link. Private shares must use
+ * a client carrying the unlock token.
+ */
+export async function respondToChangeOrder(
+  shareId: string,
+  changeOrderId: string,
+  approve: boolean,
+  name: string,
+  note: string,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(
+    await client.rpc('respond_to_change_order', {
+      p_share_id: shareId,
+      p_change_order_id: changeOrderId,
+      p_approve: approve,
+      p_name: name,
+      p_note: note || undefined,
+    })
+  );
+}
+
+/**
+ * Cost and days of the approved change orders, and of those still with the client.
+ */
+export function summariseChangeOrders(orders: ChangeOrder[]) {
+  const total = (status: ChangeOrder['status']) =>
+    orders
+      .filter((o) => o.status === status)
+      .reduce(
+        (sum, o) => ({ cost: sum.cost + Number(o.cost_impact), days: sum.days + o.schedule_impact_days }),
+        { cost: 0, days: 0 }
+      );
+  return { approved: total('approved'), pending: total('sent') };
+}
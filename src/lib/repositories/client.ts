@@ -0,0 +1,60 @@
+import { FunctionsHttpError, PostgrestError, type PostgrestSingleResponse, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../types/database';
+import { typedSupabase } from '../supabase';
+
+// Every repository function takes the client as its last argument so it can be
+// swapped for an in-memory stand-in; pages just use the default.
+//
+// Rows come back typed from the generated schema and the helpers below keep that
+// type, so a repository whose return type no longer matches the schema fails to
+// compile. Columns the database restricts with a check constraint are typed as
+// plain text by the generator; repositories narrow just those columns with
+// `.overrideTypes<Pick<Row, ...>>()`. Views make every column nullable, so their
+// rows are replaced whole.
+export type DbClient = SupabaseClient<Database>;
+
+export const defaultClient: DbClient = typedSupabase;
+
+// Query errors come back as plain objects; they are thrown as PostgrestError so
+// callers can tell them apart with `instanceof Error` and keep their code.
+function toError(error: PostgrestError): PostgrestError {
+  return error instanceof PostgrestError ? error : new PostgrestError(error);
+}
+
+/**
+ * Return the rows of a query or throw its error. The row type comes from the
+ * query, never from the caller.
+ */
+export function unwrapList<T>(result: PostgrestSingleResponse<T[]>): NoInfer<T[]> {
+  if (result.error) throw toError(result.error);
+  return result.data;
+}
+
+/**
+ * Return the single row of a query or throw its error.
+ */
+export function unwrapOne<T>(result: PostgrestSingleResponse<T>): NoInfer<T> {
+  if (result.error) throw toError(result.error);
+  return result.data;
+}
+
+/**
+ * Throw the error of a mutation that returns no rows.
+ */
+export function assertOk({ error }: { error: PostgrestError | null }): void {
+  if (error) throw toError(error);
+}
+
+/**
+ * Call an edge function and return its body, or throw the error it reported.
+ */
+export async function invokeFunction<T>(name: string, body: Record<string, unknown>, client: DbClient): Promise<T> {
+  const { data, error } = await client.functions.invoke(name, { body });
+
+  if (error) {
+    const errorBody = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw new Error(errorBody?.error || error.message);
+  }
+
+  return data as T;
+}
@@ -0,0 +1,63 @@
+import type { ExpenseApproval, ExpenseApprovalThreshold } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+export type ApprovalThresholdInput = Pick<ExpenseApprovalThreshold, 'project_id' | 'min_amount' | 'approver_role_id'>;
+
+export type ExpenseApprovalWithNames = ExpenseApproval & {
+  roles: { role_name: string } | null;
+  profiles: { full_name: string | null; email: string | null } | null;
+};
+
+export async function listApprovalThresholds(
+  projectId: string,
+  client: DbClient = defaultClient
+): Promise<ExpenseApprovalThreshold[]> {
+  return unwrapList(
+    await client.from('expense_approval_thresholds').select('*').eq('project_id', projectId).order('min_amount')
+  );
+}
+
+export async function createApprovalThreshold(
+  input: ApprovalThresholdInput,
+  client: DbClient = defaultClient
+): Promise<ExpenseApprovalThreshold> {
+  return unwrapOne(
+    await client.from('expense_approval_thresholds').insert(input).select().single()
+  );
+}
+
+export async function deleteApprovalThreshold(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('expense_approval_thresholds').delete().eq('id', id));
+}
+
+/**
+ * Approve or reject a pending expense; rejections need a comment. Returns the
+ * expense's new status, which stays pending while higher thresholds remain.
+ */
+export async function reviewExpense(
+  expenseId: string,
+  decision: 'approved' | 'rejected',
+  comment?: string,
+  client: DbClient = defaultClient
+): Promise<string> {
+  return unwrapOne(
+    await client.rpc('review_expense', { p_expense_id: expenseId, p_decision: decision, p_comment: comment })
+  );
+}
+
+/**
+ * Decisions taken on an expense, oldest first.
+ */
+export async function listExpenseApprovals(
+  expenseId: string,
+  client: DbClient = defaultClient
+): Promise<ExpenseApprovalWithNames[]> {
+  return unwrapList(
+    await client
+      .from('expense_approvals')
+      .select('*, roles (role_name), profiles (full_name, email)')
+      .eq('expense_id', expenseId)
+      .order('decided_at')
+      .overrideTypes<Pick<ExpenseApproval, 'decision'>[]>()
+  );
+}
@@ -0,0 +1,82 @@
+import type { Expense, TransactionType } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList } from './client';
+
+type ExpenseColumns = Pick<Expense, 'type' | 'approval_status'>;
+
+export type ExpenseWithPhase = Expense & {
+  phases: {
+    id: string;
+    name: string;
+    project_id: string;
+    projects: { id: string; name: string } | null;
+  } | null;
+};
+
+// Approval fields are set by the database when the expense is saved
+export type ExpenseInput = Omit<
+  Expense,
+  'id' | 'created_at' | 'approved' | 'approval_status' | 'approver_role_id' | 'approval_level' | 'vendor_id'
+> &
+  Partial<Pick<Expense, 'vendor_id'>>;
+
+export async function listTransactionsForProjects(
+  projectIds: string[],
+  client: DbClient = defaultClient
+): Promise<ExpenseWithPhase[]> {
+  if (projectIds.length === 0) return [];
+  return unwrapList(
+    await client
+      .from('expenses')
+      .select('*, phases (id, name, project_id, projects (id, name))')
+      .in('project_id', projectIds)
+      .order('date', { ascending: false })
+      .overrideTypes<ExpenseColumns[]>()
+  );
+}
+
+export async function listProjectTransactions(
+  projectId: string,
+  type?: TransactionType,
+  client: DbClient = defaultClient
+): Promise<ExpenseWithPhase[]> {
+  let query = client
+    .from('expenses')
+    .select('*, phases (id, name, project_id, projects (id, name))')
+    .eq('project_id', projectId);
+  if (type) query = query.eq('type', type);
+  return unwrapList(await query.order('date', { ascending: false }).overrideTypes<ExpenseColumns[]>());
+}
+
+export async function listPhaseTransactions(phaseId: string, client: DbClient = defaultClient): Promise<Expense[]> {
+  return unwrapList(
+    await client.from('expenses').select('*').eq('phase_id', phaseId).overrideTypes<ExpenseColumns[]>()
+  );
+}
+
+export async function createTransactions(
+  inputs: ExpenseInput[],
+  client: DbClient = defaultClient
+): Promise<Expense[]> {
+  return unwrapList(await client.from('expenses').insert(inputs).select().overrideTypes<ExpenseColumns[]>());
+}
+
+export async function updateTransaction(
+  id: string,
+  patch: Partial<ExpenseInput>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('expenses').update(patch).eq('id', id));
+}
+
+export async function deleteTransaction(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('expenses').delete().eq('id', id));
+}
+
+/**
+ * Sum amount + GST of transactions, optionally of one type only.
+ */
+export function sumTransactions(rows: Pick<Expense, 'amount' | 'gst_amount' | 'type'>[], type?: TransactionType): number {
+  return rows
+    .filter((r) => !type || r.type === type)
+    .reduce((sum, r) => sum + Number(r.amount || 0) + Number(r.gst_amount || 0), 0);
+}
@@ -0,0 +1,128 @@
+import type { DbClient } from './client';
+
+type Row = Record<string, unknown>;
+
+interface FakeResult {
+  data: Row | Row[] | null;
+  error: { code: string; message: string } | null;
+}
+
+/**
+ * An in-memory stand-in for the Supabase client, for repository tests. It covers
+ * the query builder calls repositories make against plain tables; embedded
+ * selects, RPCs and edge functions are not supported. Writes change `tables`, so
+ * a test can check them afterwards.
+ */
+export function fakeClient(tables: Record<string, object[]>): DbClient {
+  return {
+    from: (table: string) => new FakeQuery((tables[table] ??= []) as Row[]),
+  } as unknown as DbClient;
+}
+
+class FakeQuery implements PromiseLike<FakeResult> {
+  private action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private columns: string[] | null = null;
+  private values: Row[] = [];
+  private filters: ((row: Row) => boolean)[] = [];
+  private sorts: { column: string; ascending: boolean }[] = [];
+  private single_ = false;
+
+  constructor(private readonly rows: Row[]) {}
+
+  select(columns = '*') {
+    this.columns = columns === '*' ? null : columns.split(',').map((column) => column.trim());
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.values = ([] as Row[]).concat(values).map((value) => ({
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+      ...value,
+    }));
+    return this;
+  }
+
+  update(patch: Row) {
+    this.action = 'update';
+    this.values = [patch];
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+    this.sorts.push({ column, ascending });
+    return this;
+  }
+
+  single() {
+    this.single_ = true;
+    return this;
+  }
+
+  overrideTypes() {
+    return this;
+  }
+
+  then<R1 = FakeResult, R2 = never>(
+    onfulfilled?: ((value: FakeResult) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): PromiseLike<R1 | R2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+  }
+
+  private run(): FakeResult {
+    const matches = () => this.rows.filter((row) => this.filters.every((filter) => filter(row)));
+    let data: Row[];
+
+    switch (this.action) {
+      case 'insert':
+        this.rows.push(...this.values);
+        data = this.values;
+        break;
+      case 'update':
+        data = matches();
+        data.forEach((row) => Object.assign(row, this.values[0]));
+        break;
+      case 'delete':
+        data = matches();
+        data.forEach((row) => this.rows.splice(this.rows.indexOf(row), 1));
+        break;
+      default:
+        data = matches();
+    }
+
+    data = [...data].sort((a, b) => {
+      for (const { column, ascending } of this.sorts) {
+        const x = a[column] as string | number;
+        const y = b[column] as string | number;
+        if (x !== y) return (x < y ? -1 : 1) * (ascending ? 1 : -1);
+      }
+      return 0;
+    });
+
+    const { columns } = this;
+    if (columns) data = data.map((row) => Object.fromEntries(columns.map((column) => [column, row[column]])));
+
+    if (!this.single_) return { data, error: null };
+    if (data.length !== 1) {
+      return { data: null, error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' } };
+    }
+    return { data: data[0], error: null };
+  }
+}
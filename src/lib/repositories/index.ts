@@ -0,0 +1,24 @@
+export * from './client';
+export * from './projects';
+export * from './phases';
+export * from './expenses';
+export * from './materials';
+export * from './shares';
+export * from './team';
+export * from './tasks';
+export * from './labour';
+export * from './purchaseOrders';
+export * from './profiles';
+export * from './vendors';
+export * from './budgets';
+export * from './expenseApprovals';
+export * from './invoices';
+export * from './paymentLinks';
+export * from './subscriptions';
+export * from './bidding';
+export * from './baselines';
+export * from './siteLogs';
+export * from './changeOrders';
+export * from './snags';
+export * from './inspections';
+export * from './safety';
@@ -0,0 +1,255 @@
+import type {
+  Inspection,
+  InspectionItem,
+  InspectionPhoto,
+  InspectionTemplate,
+  InspectionTemplateItem,
+} from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+const PHOTOS_BUCKET = 'phase-photos';
+const DOCS_BUCKET = 'project-docs';
+
+export const INSPECTION_REPORT_CATEGORY = 'Inspection Reports';
+
+type InspectionColumns = Pick<Inspection, 'status'> & { inspection_items: Pick<InspectionItem, 'result'>[] };
+
+export type InspectionTemplateWithItems = InspectionTemplate & {
+  inspection_template_items: InspectionTemplateItem[];
+};
+
+export type InspectionItemWithDetails = InspectionItem & {
+  inspection_photos: InspectionPhoto[];
+  snags: { id: string; snag_number: string; status: string } | null;
+};
+
+export type InspectionWithDetails = Inspection & {
+  phases: { id: string; name: string } | null;
+  inspection_items: InspectionItemWithDetails[];
+};
+
+export type InspectionSignOff = Pick<
+  Inspection,
+  'notes' | 'inspector_name' | 'inspector_signature' | 'contractor_name' | 'contractor_signature'
+>;
+
+/**
+ * The account's checklist templates with their items in order.
+ */
+export async function listInspectionTemplates(client: DbClient = defaultClient): Promise<InspectionTemplateWithItems[]> {
+  const templates = unwrapList(
+    await client.from('inspection_templates').select('*, inspection_template_items (*)').order('name')
+  );
+  templates.forEach((t) => t.inspection_template_items.sort((a, b) => a.position - b.position));
+  return templates;
+}
+
+/**
+ * Create (no id) or replace a template and its items. Returns the template's id.
+ */
+export async function saveInspectionTemplate(
+  id: string | null,
+  name: string,
+  description: string,
+  items: string[],
+  client: DbClient = defaultClient
+): Promise<string> {
+  return unwrapOne(
+    await client.rpc('save_inspection_template', {
+      p_template_id: id as string,
+      p_name: name,
+      p_description: description,
+      p_items: items,
+    })
+  );
+}
+
+export async function deleteInspectionTemplate(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('inspection_templates').delete().eq('id', id));
+}
+
+/**
+ * A project's inspections, newest first, with their items, photos and the snags
+ * raised for failed items.
+ */
+export async function listInspections(projectId: string, client: DbClient = defaultClient): Promise<InspectionWithDetails[]> {
+  const inspections = unwrapList(
+    await client
+      .from('inspections')
+      .select('*, phases (id, name), inspection_items (*, inspection_photos (*), snags (id, snag_number, status))')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .overrideTypes<InspectionColumns[]>()
+  );
+  inspections.forEach((i) => i.inspection_items.sort((a, b) => a.position - b.position));
+  return inspections;
+}
+
+/**
+ * Start an inspection of a phase with a copy of the template's items. A scheduled
+ * date also puts it on the calendar. Returns the inspection's id.
+ */
+export async function createInspection(
+  phaseId: string,
+  templateId: string,
+  scheduledDate: string | null,
+  client: DbClient = defaultClient
+): Promise<string> {
+  return unwrapOne(
+    await client.rpc('create_inspection', {
+      p_phase_id: phaseId,
+      p_template_id: templateId,
+      p_scheduled_date: scheduledDate as string,
+    })
+  );
+}
+
+export async function updateInspection(
+  id: string,
+  patch: Partial<InspectionSignOff>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('inspections').update(patch).eq('id', id));
+}
+
+export async function updateInspectionItem(
+  id: string,
+  patch: Partial<Pick<InspectionItem, 'result' | 'note'>>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('inspection_items').update(patch).eq('id', id));
+}
+
+/**
+ * Delete an inspection that is still in progress, photos included.
+ */
+export async function deleteInspection(inspection: InspectionWithDetails, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('inspections').delete().eq('id', inspection.id));
+  const paths = inspection.inspection_items.flatMap((item) => item.inspection_photos.map((p) => p.file_path));
+  if (paths.length > 0) {
+    await client.storage.from(PHOTOS_BUCKET).remove(paths);
+  }
+}
+
+export async function uploadInspectionPhoto(
+  inspectionId: string,
+  itemId: string,
+  file: File | Blob,
+  fileName: string,
+  client: DbClient = defaultClient
+): Promise<InspectionPhoto> {
+  const filePath = `inspections/${inspectionId}/${itemId}-${Date.now()}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+  const { error: uploadError } = await client.storage.from(PHOTOS_BUCKET).upload(filePath, file);
+  if (uploadError) throw uploadError;
+
+  const { data } = client.storage.from(PHOTOS_BUCKET).getPublicUrl(filePath);
+  try {
+    return unwrapOne(
+      await client
+        .from('inspection_photos')
+        .insert({ inspection_item_id: itemId, photo_url: data.publicUrl, file_path: filePath })
+        .select()
+        .single()
+    );
+  } catch (error) {
+    await client.storage.from(PHOTOS_BUCKET).remove([filePath]);
+    throw error;
+  }
+}
+
+export async function deleteInspectionPhoto(
+  photo: Pick<InspectionPhoto, 'id' | 'file_path'>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('inspection_photos').delete().eq('id', photo.id));
+  await client.storage.from(PHOTOS_BUCKET).remove([photo.file_path]);
+}
+
+/**
+ * Complete an inspection, raising a snag for every failed item. The photos of a
+ * failed item are copied to its snag as "before" photos, so either can be deleted
+ * without breaking the other.
+ */
+export async function completeInspection(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.rpc('complete_inspection', { p_inspection_id: id }));
+
+  const failed = unwrapList(
+    await client
+      .from('inspection_items')
+      .select('snag_id, inspection_photos (*)')
+      .eq('inspection_id', id)
+      .eq('result', 'fail')
+      .not('snag_id', 'is', null)
+  );
+
+  for (const item of failed) {
+    for (const photo of item.inspection_photos) {
+      const filePath = `snags/${item.snag_id}/before-${photo.file_path.split('/').pop()}`;
+      const { error: copyError } = await client.storage.from(PHOTOS_BUCKET).copy(photo.file_path, filePath);
+      if (copyError) throw copyError;
+
+      const { data } = client.storage.from(PHOTOS_BUCKET).getPublicUrl(filePath);
+      assertOk(
+        await client
+          .from('snag_photos')
+          .insert({ snag_id: item.snag_id as string, kind: 'before', photo_url: data.publicUrl, file_path: filePath })
+      );
+    }
+  }
+}
+
+/**
+ * File a completed inspection's PDF in Documents under "Inspection Reports" and
+ * link it to the inspection. Counts against the account's document storage.
+ */
+export async function saveInspectionReport(
+  inspection: Pick<Inspection, 'id' | 'project_id'>,
+  pdf: Blob,
+  fileName: string,
+  uploaderId: string,
+  client: DbClient = defaultClient
+): Promise<void> {
+  const filePath = `${uploaderId}/${Date.now()}.pdf`;
+  const { error: uploadError } = await client.storage.from(DOCS_BUCKET).upload(filePath, pdf, { contentType: 'application/pdf' });
+  if (uploadError) throw uploadError;
+
+  let documentId: string | null = null;
+  try {
+    const document = unwrapOne(
+      await client
+        .from('documents')
+        .insert({
+          name: fileName,
+          category: INSPECTION_REPORT_CATEGORY,
+          project: inspection.project_id,
+          project_id: inspection.project_id,
+          uploaded_by: uploaderId,
+          file_path: filePath,
+          type: 'pdf',
+          size: `${(pdf.size / 1024).toFixed(2)} KB`,
+          tags: ['inspection'],
+        })
+        .select('id')
+        .single()
+    );
+    documentId = document.id;
+    assertOk(await client.rpc('attach_inspection_report', { p_inspection_id: inspection.id, p_document_id: document.id }));
+  } catch (error) {
+    if (documentId) await client.from('documents').delete().eq('id', documentId);
+    await client.storage.from(DOCS_BUCKET).remove([filePath]);
+    throw error;
+  }
+}
+
+/**
+ * Items answered pass, fail and N/A, and those still open.
+ */
+export function summariseInspection(items: Pick<InspectionItem, 'result'>[]) {
+  return items.reduce(
+    (totals, item) => {
+      totals[item.result ?? 'open'] += 1;
+      return totals;
+    },
+    { pass: 0, fail: 0, na: 0, open: 0 }
+  );
+}
@@ -0,0 +1,118 @@
+import type { Invoice, InvoiceItem } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+type InvoiceColumns = Pick<Invoice, 'doc_type' | 'status'>;
+
+export type InvoiceWithItems = Invoice & {
+  projects: { id: string; name: string } | null;
+  phases: { id: string; name: string } | null;
+  invoice_items: InvoiceItem[];
+};
+
+export type InvoiceInput = Pick<
+  Invoice,
+  | 'project_id'
+  | 'phase_id'
+  | 'doc_type'
+  | 'original_invoice_id'
+  | 'invoice_date'
+  | 'due_date'
+  | 'client_name'
+  | 'client_gstin'
+  | 'client_address'
+  | 'client_email'
+  | 'client_phone'
+  | 'place_of_supply'
+  | 'notes'
+>;
+
+export type InvoiceItemInput = Pick<InvoiceItem, 'description' | 'sac' | 'quantity' | 'rate' | 'gst_rate'>;
+
+export async function listInvoices(projectIds: string[], client: DbClient = defaultClient): Promise<InvoiceWithItems[]> {
+  if (projectIds.length === 0) return [];
+  return unwrapList(
+    await client
+      .from('invoices')
+      .select('*, projects (id, name), phases (id, name), invoice_items (*)')
+      .in('project_id', projectIds)
+      .order('created_at', { ascending: false })
+      .overrideTypes<InvoiceColumns[]>()
+  );
+}
+
+/**
+ * Create a draft, or replace the details and lines of an existing one.
+ */
+export async function saveDraftInvoice(
+  input: InvoiceInput,
+  items: InvoiceItemInput[],
+  id?: string,
+  client: DbClient = defaultClient
+): Promise<Invoice> {
+  const invoice = id
+    ? unwrapOne(await client.from('invoices').update(input).eq('id', id).select().single().overrideTypes<InvoiceColumns>())
+    : unwrapOne(await client.from('invoices').insert(input).select().single().overrideTypes<InvoiceColumns>());
+
+  if (id) {
+    assertOk(await client.from('invoice_items').delete().eq('invoice_id', id));
+  }
+
+  const { error } = await client
+    .from('invoice_items')
+    .insert(items.map((item) => ({ ...item, invoice_id: invoice.id })));
+  if (error && !id) await client.from('invoices').delete().eq('id', invoice.id);
+  assertOk({ error });
+
+  return invoice;
+}
+
+/**
+ * Only drafts can be deleted; issued documents are cancelled with a credit note.
+ */
+export async function deleteDraftInvoice(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('invoices').delete().eq('id', id).eq('status', 'draft'));
+}
+
+/**
+ * Number and issue a draft. Returns the invoice or credit note number.
+ */
+export async function issueInvoice(id: string, client: DbClient = defaultClient): Promise<string> {
+  return unwrapOne(await client.rpc('issue_invoice', { p_invoice_id: id }));
+}
+
+/**
+ * Mark an issued invoice paid, booking the receipt as income. Returns the income's id.
+ */
+export async function markInvoicePaid(
+  id: string,
+  paidOn: string,
+  paymentMethod: string,
+  client: DbClient = defaultClient
+): Promise<string> {
+  return unwrapOne(
+    await client.rpc('mark_invoice_paid', { p_invoice_id: id, p_paid_on: paidOn, p_payment_method: paymentMethod })
+  );
+}
+
+/**
+ * Taxable value, GST and total of invoice lines.
+ */
+export function invoiceTotals(items: Pick<InvoiceItem, 'quantity' | 'rate' | 'gst_rate'>[]) {
+  return items.reduce(
+    (totals, item) => {
+      const taxable = Number(item.quantity) * Number(item.rate);
+      const gst = (taxable * Number(item.gst_rate)) / 100;
+      return { subtotal: totals.subtotal + taxable, gst: totals.gst + gst, total: totals.total + taxable + gst };
+    },
+    { subtotal: 0, gst: 0, total: 0 }
+  );
+}
+
+/**
+ * Indian financial year of a yyyy-mm-dd date, e.g. '2025-26'.
+ */
+export function financialYear(date: string): string {
+  const [year, month] = date.split('-').map(Number);
+  const start = month < 4 ? year - 1 : year;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
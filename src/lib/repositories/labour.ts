@@ -0,0 +1,149 @@
+import { addDays, format, startOfWeek } from 'date-fns';
+import type { Labour, LabourWorker, PayrollBatch } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+export type LabourWorkerInput = Pick<LabourWorker, 'project_id' | 'name' | 'trade' | 'phone' | 'rate_per_hour' | 'active'>;
+
+export type AttendanceInput = Pick<Labour, 'project_id' | 'phase_id' | 'worker_id' | 'date' | 'hours_worked'>;
+
+type PayrollColumns = Pick<Labour, 'status'>;
+
+export type PayrollBatchWithPhase = PayrollBatch & { phases: { id: string; name: string } | null };
+
+export interface WeeklyWage {
+  worker_id: string;
+  days: number;
+  hours: number;
+  amount: number;
+}
+
+export async function listLabourWorkers(projectId: string, client: DbClient = defaultClient): Promise<LabourWorker[]> {
+  return unwrapList(
+    await client.from('labour_workers').select('*').eq('project_id', projectId).order('name')
+  );
+}
+
+export async function createLabourWorker(
+  input: LabourWorkerInput,
+  client: DbClient = defaultClient
+): Promise<LabourWorker> {
+  return unwrapOne(await client.from('labour_workers').insert(input).select().single());
+}
+
+export async function updateLabourWorker(
+  id: string,
+  patch: Partial<LabourWorkerInput>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('labour_workers').update(patch).eq('id', id));
+}
+
+/**
+ * Attendance of a project between two dates (inclusive), optionally for one phase.
+ */
+export async function listAttendance(
+  projectId: string,
+  from: string,
+  to: string,
+  phaseId?: string,
+  client: DbClient = defaultClient
+): Promise<Labour[]> {
+  let query = client
+    .from('labour_attendance')
+    .select('*')
+    .eq('project_id', projectId)
+    .gte('date', from)
+    .lte('date', to);
+  if (phaseId) query = query.eq('phase_id', phaseId);
+  return unwrapList(await query.order('date').overrideTypes<PayrollColumns[]>());
+}
+
+/**
+ * Record or correct muster roll entries; a worker has at most one entry per day.
+ * The database copies the worker's rate onto new entries and rejects entries
+ * already in a payroll batch.
+ */
+export async function saveAttendance(rows: AttendanceInput[], client: DbClient = defaultClient): Promise<void> {
+  if (rows.length === 0) return;
+  assertOk(await client.from('labour_attendance').upsert(rows, { onConflict: 'worker_id,date' }));
+}
+
+export async function deleteAttendance(ids: string[], client: DbClient = defaultClient): Promise<void> {
+  if (ids.length === 0) return;
+  assertOk(await client.from('labour_attendance').delete().in('id', ids));
+}
+
+export async function listPayrollBatches(
+  projectId: string,
+  client: DbClient = defaultClient
+): Promise<PayrollBatchWithPhase[]> {
+  return unwrapList(
+    await client
+      .from('payroll_batches')
+      .select('*, phases (id, name)')
+      .eq('project_id', projectId)
+      .order('week_start', { ascending: false })
+      .overrideTypes<PayrollColumns[]>()
+  );
+}
+
+/**
+ * Group a phase's unpaid attendance for the week into a payroll batch. Returns the batch id.
+ */
+export async function createPayrollBatch(
+  phaseId: string,
+  weekStart: string,
+  client: DbClient = defaultClient
+): Promise<string> {
+  return unwrapOne(
+    await client.rpc('create_payroll_batch', { p_phase_id: phaseId, p_week_start: weekStart })
+  );
+}
+
+/**
+ * Mark a batch as paid; the database records the wages as a "Labour" expense and
+ * returns its id.
+ */
+export async function payPayrollBatch(
+  batchId: string,
+  paymentMethod: string,
+  paidOn: string,
+  client: DbClient = defaultClient
+): Promise<string> {
+  return unwrapOne(
+    await client.rpc('pay_payroll_batch', { p_batch_id: batchId, p_payment_method: paymentMethod, p_paid_on: paidOn })
+  );
+}
+
+/**
+ * Remove a pending batch, releasing its attendance for editing.
+ */
+export async function deletePayrollBatch(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('payroll_batches').delete().eq('id', id));
+}
+
+/**
+ * Payroll weeks run Monday to Sunday.
+ */
+export function payrollWeek(date: Date): { start: string; end: string; days: string[] } {
+  const start = startOfWeek(date, { weekStartsOn: 1 });
+  const days = Array.from({ length: 7 }, (_, i) => format(addDays(start, i), 'yyyy-MM-dd'));
+  return { start: days[0], end: days[6], days };
+}
+
+/**
+ * Days present, hours and wages per worker, using the rate stored on each day.
+ */
+export function summariseWages(rows: Pick<Labour, 'worker_id' | 'hours_worked' | 'rate_per_hour'>[]): WeeklyWage[] {
+  const byWorker = new Map<string, WeeklyWage>();
+  for (const row of rows) {
+    const hours = Number(row.hours_worked || 0);
+    if (hours <= 0) continue;
+    const wage = byWorker.get(row.worker_id) ?? { worker_id: row.worker_id, days: 0, hours: 0, amount: 0 };
+    wage.days += 1;
+    wage.hours += hours;
+    wage.amount += hours * Number(row.rate_per_hour || 0);
+    byWorker.set(row.worker_id, wage);
+  }
+  return Array.from(byWorker.values());
+}
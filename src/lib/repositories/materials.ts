@@ -0,0 +1,149 @@
+import type { Material, MaterialMovement, MaterialMovementType } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+type MovementColumns = Pick<MaterialMovement, 'movement_type'>;
+
+export type MaterialWithProject = Material & { projects: { name: string } | null };
+
+export type MaterialMovementWithDetails = MaterialMovement & {
+  phases: { id: string; name: string } | null;
+  profiles: { full_name: string | null; email: string | null } | null;
+};
+
+export interface MaterialMovementInput {
+  material_id: string;
+  movement_type: MaterialMovementType;
+  quantity: number;
+  date: string;
+  phase_id?: string | null;
+  unit_cost?: number | null;
+  notes?: string | null;
+  // Set on a receipt to post its value as a "Materials" expense paid this way
+  payment_method?: string | null;
+}
+
+export type StockStatus = 'In Stock' | 'Low Stock' | 'Out of Stock';
+
+export type MaterialInput = Pick<
+  Material,
+  | 'name'
+  | 'description'
+  | 'category'
+  | 'unit'
+  | 'qty_required'
+  | 'unit_cost'
+  | 'project_id'
+  | 'supplier'
+  | 'vendor_id'
+  | 'hsn'
+  | 'specifications'
+>;
+
+export async function listMaterials(ownerId: string, client: DbClient = defaultClient): Promise<MaterialWithProject[]> {
+  return unwrapList(
+    await client
+      .from('materials')
+      .select('*, projects ( name )')
+      .eq('created_by', ownerId)
+      .order('updated_at', { ascending: false })
+  );
+}
+
+export async function listProjectMaterials(projectId: string, client: DbClient = defaultClient): Promise<Material[]> {
+  return unwrapList(
+    await client.from('materials').select('*').eq('project_id', projectId)
+  );
+}
+
+export async function createMaterial(
+  input: MaterialInput,
+  ownerId: string,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('materials').insert([{ ...input, created_by: ownerId }]));
+}
+
+export async function updateMaterial(
+  id: string,
+  ownerId: string,
+  patch: Partial<MaterialInput>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(
+    await client
+      .from('materials')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('created_by', ownerId)
+  );
+}
+
+export async function deleteMaterials(ids: string[], ownerId: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(
+    await client
+      .from('materials')
+      .delete()
+      .in('id', ids)
+      .eq('created_by', ownerId)
+  );
+}
+
+export async function listMaterialMovements(
+  materialId: string,
+  client: DbClient = defaultClient
+): Promise<MaterialMovementWithDetails[]> {
+  return unwrapList(
+    await client
+      .from('material_movements')
+      .select('*, phases (id, name), profiles (full_name, email)')
+      .eq('material_id', materialId)
+      .order('date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .overrideTypes<MovementColumns[]>()
+  );
+}
+
+/**
+ * Record a stock movement. Stock on hand is recalculated by the database, which
+ * rejects movements that would take it below zero. Returns the movement id.
+ */
+export async function recordMaterialMovement(
+  input: MaterialMovementInput,
+  client: DbClient = defaultClient
+): Promise<string> {
+  return unwrapOne(
+    await client.rpc('record_material_movement', {
+      p_material_id: input.material_id,
+      p_movement_type: input.movement_type,
+      p_quantity: input.quantity,
+      p_date: input.date,
+      p_phase_id: input.phase_id ?? undefined,
+      p_unit_cost: input.unit_cost ?? undefined,
+      p_notes: input.notes ?? undefined,
+      p_payment_method: input.payment_method ?? undefined,
+    })
+  );
+}
+
+/**
+ * Remove a movement. An expense posted for it is kept and must be removed separately.
+ */
+export async function deleteMaterialMovement(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('material_movements').delete().eq('id', id));
+}
+
+/**
+ * Quantity still to be issued to phases before the required quantity is used up.
+ */
+export function remainingRequirement(material: Pick<Material, 'qty_required' | 'qty_issued'>): number {
+  return Math.max(Number(material.qty_required || 0) - Number(material.qty_issued || 0), 0);
+}
+
+/**
+ * Stock is low when what is on hand will not cover the remaining requirement.
+ */
+export function materialStockStatus(material: Pick<Material, 'qty_required' | 'qty_issued' | 'stock_quantity'>): StockStatus {
+  const stock = Number(material.stock_quantity || 0);
+  if (stock <= 0) return 'Out of Stock';
+  return stock < remainingRequirement(material) ? 'Low Stock' : 'In Stock';
+}
@@ -0,0 +1,57 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import type { PaymentLink } from '../../types';
+import { DbClient, defaultClient, unwrapList } from './client';
+
+type PaymentLinkColumns = Pick<PaymentLink, 'status' | 'payment_status'>;
+
+export interface PaymentLinkRequest {
+  // Either an issued invoice, which sets the amount, client and milestone...
+  invoice_id?: string;
+  // ...or a milestone and the amount to collect against it
+  project_id?: string;
+  phase_id?: string;
+  business_name?: string;
+  product_name?: string;
+  description?: string;
+  gst_number?: string;
+  amount?: number;
+  quantity?: number;
+  gst_rate?: number;
+  customer?: { name?: string; email?: string; contact?: string };
+}
+
+export async function listPaymentLinks(userId: string, client: DbClient = defaultClient): Promise<PaymentLink[]> {
+  return unwrapList(
+    await client.from('payment_links').select('*').eq('created_by', userId).order('created_at', { ascending: false })
+      .overrideTypes<PaymentLinkColumns[]>()
+  );
+}
+
+export async function listInvoicePaymentLinks(
+  invoiceIds: string[],
+  client: DbClient = defaultClient
+): Promise<PaymentLink[]> {
+  if (invoiceIds.length === 0) return [];
+  return unwrapList(
+    await client.from('payment_links').select('*').in('invoice_id', invoiceIds).order('created_at', { ascending: false })
+      .overrideTypes<PaymentLinkColumns[]>()
+  );
+}
+
+/**
+ * Create a Razorpay payment link through the create-razorpay-payment-link function.
+ * The link is settled by razorpay-webhook when the client pays.
+ */
+export async function createPaymentLink(
+  request: PaymentLinkRequest,
+  client: DbClient = defaultClient
+): Promise<PaymentLink> {
+  const { data, error } = await client.functions.invoke('create-razorpay-payment-link', { body: request });
+
+  if (error) {
+    const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw new Error(body?.error || error.message);
+  }
+
+  return data.payment_link as PaymentLink;
+}
@@ -0,0 +1,112 @@
+import type { PhaseDependency, ProjectPhase } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+type PhaseColumns = Pick<ProjectPhase, 'status'>;
+
+export type PhaseWithProject = ProjectPhase & { projects: { name: string } | null };
+
+export type PhaseOption = Pick<ProjectPhase, 'id' | 'name' | 'project_id'> & {
+  projects: { id: string; name: string } | null;
+};
+
+export type PhaseInput = Pick<
+  ProjectPhase,
+  'project_id' | 'name' | 'start_date' | 'end_date' | 'status' | 'estimated_cost' | 'contractor_name'
+>;
+
+export async function listProjectPhases(projectId: string, client: DbClient = defaultClient): Promise<ProjectPhase[]> {
+  return unwrapList(
+    await client
+      .from('phases')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('start_date')
+      .overrideTypes<PhaseColumns[]>()
+  );
+}
+
+export async function listPhasesForProjects(
+  projectIds: string[],
+  client: DbClient = defaultClient
+): Promise<PhaseWithProject[]> {
+  if (projectIds.length === 0) return [];
+  return unwrapList(
+    await client
+      .from('phases')
+      .select('*, projects!inner(name)')
+      .in('project_id', projectIds)
+      .order('start_date')
+      .overrideTypes<PhaseColumns[]>()
+  );
+}
+
+export async function listPhaseOptions(
+  projectIds: string[],
+  client: DbClient = defaultClient
+): Promise<PhaseOption[]> {
+  if (projectIds.length === 0) return [];
+  return unwrapList(
+    await client
+      .from('phases')
+      .select('id, name, project_id, projects (id, name)')
+      .in('project_id', projectIds)
+  );
+}
+
+export async function createPhase(input: PhaseInput, client: DbClient = defaultClient): Promise<ProjectPhase> {
+  return unwrapOne(await client.from('phases').insert([input]).select().single().overrideTypes<PhaseColumns>());
+}
+
+export async function updatePhase(
+  id: string,
+  patch: Partial<PhaseInput>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('phases').update(patch).eq('id', id));
+}
+
+export async function deletePhase(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('phases').delete().eq('id', id));
+}
+
+export async function listPhaseDependencies(
+  projectIds: string[],
+  client: DbClient = defaultClient
+): Promise<PhaseDependency[]> {
+  if (projectIds.length === 0) return [];
+  return unwrapList(
+    await client.from('phase_dependencies').select('*').in('project_id', projectIds)
+  );
+}
+
+/**
+ * Make a phase start after exactly the given phases. New links push the phase
+ * (and whatever follows it) later if it would otherwise start too early.
+ */
+export async function setPhasePredecessors(
+  phase: Pick<ProjectPhase, 'id' | 'project_id'>,
+  predecessorIds: string[],
+  client: DbClient = defaultClient
+): Promise<void> {
+  const current = unwrapList(
+    await client.from('phase_dependencies').select('id, predecessor_id').eq('successor_id', phase.id)
+  );
+
+  const removed = current.filter((d) => !predecessorIds.includes(d.predecessor_id)).map((d) => d.id);
+  if (removed.length > 0) {
+    assertOk(await client.from('phase_dependencies').delete().in('id', removed));
+  }
+
+  const added = predecessorIds.filter((id) => !current.some((d) => d.predecessor_id === id));
+  if (added.length > 0) {
+    assertOk(
+      await client.from('phase_dependencies').insert(
+        added.map((predecessorId) => ({
+          project_id: phase.project_id,
+          predecessor_id: predecessorId,
+          successor_id: phase.id,
+        }))
+      )
+    );
+  }
+}
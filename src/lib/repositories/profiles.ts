@@ -0,0 +1,23 @@
+import { DbClient, defaultClient, unwrapOne } from './client';
+
+export interface BusinessProfile {
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  location: string | null;
+  gst_number: string | null;
+}
+
+/**
+ * The signed-in user's business details, printed on documents they issue.
+ */
+export async function getBusinessProfile(userId: string, client: DbClient = defaultClient): Promise<BusinessProfile | null> {
+  return unwrapOne(
+    await client
+      .from('profiles')
+      .select('full_name, email, phone, company, location, gst_number')
+      .eq('id', userId)
+      .maybeSingle()
+  );
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { Project } from '../../types';
+import { fakeClient } from './fakeClient';
+import { createProject, getProject, listProjectOptions, listProjects, updateProject } from './projects';
+
+const project = (id: string, created_by: string, created_at: string): Project => ({
+  id,
+  name: `Project ${id}`,
+  description: null,
+  status: 'active',
+  location: null,
+  start_date: null,
+  end_date: null,
+  budget: 0,
+  created_by,
+  created_at,
+});
+
+const tables = () => ({
+  projects: [
+    project('a', 'owner', '2025-01-01T00:00:00Z'),
+    project('b', 'other', '2025-02-01T00:00:00Z'),
+    project('c', 'owner', '2025-03-01T00:00:00Z'),
+  ],
+});
+
+describe('projects repository', () => {
+  it("lists the owner's projects, newest first", async () => {
+    const projects = await listProjects('owner', fakeClient(tables()));
+
+    expect(projects.map((p) => p.id)).toEqual(['c', 'a']);
+  });
+
+  it('lists project options by name with only their id and name', async () => {
+    expect(await listProjectOptions('owner', fakeClient(tables()))).toEqual([
+      { id: 'a', name: 'Project a' },
+      { id: 'c', name: 'Project c' },
+    ]);
+  });
+
+  it('throws the query error for a project that does not exist', async () => {
+    const error = await getProject('missing', fakeClient(tables())).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({ code: 'PGRST116' });
+  });
+
+  it('creates a project for its owner and updates it', async () => {
+    const data = tables();
+    const client = fakeClient(data);
+
+    const created = await createProject(
+      { name: 'Kitchen', description: null, status: 'pending', location: 'Pune', start_date: null, end_date: null },
+      'owner',
+      client
+    );
+    await updateProject(created.id, { status: 'active' }, client);
+
+    expect(await getProject(created.id, client)).toMatchObject({ name: 'Kitchen', created_by: 'owner', status: 'active' });
+    expect(data.projects).toHaveLength(4);
+  });
+});
@@ -0,0 +1,61 @@
+import type { Project } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+type ProjectColumns = Pick<Project, 'status'>;
+
+export type ProjectOption = Pick<Project, 'id' | 'name'>;
+
+export type ProjectInput = Pick<
+  Project,
+  'name' | 'description' | 'status' | 'location' | 'start_date' | 'end_date'
+> & Partial<Pick<Project, 'budget'>>;
+
+export async function listProjects(ownerId: string, client: DbClient = defaultClient): Promise<Project[]> {
+  return unwrapList(
+    await client
+      .from('projects')
+      .select('*')
+      .eq('created_by', ownerId)
+      .order('created_at', { ascending: false })
+      .overrideTypes<ProjectColumns[]>()
+  );
+}
+
+export async function listProjectOptions(ownerId: string, client: DbClient = defaultClient): Promise<ProjectOption[]> {
+  return unwrapList(
+    await client
+      .from('projects')
+      .select('id, name')
+      .eq('created_by', ownerId)
+      .order('name')
+  );
+}
+
+export async function getProject(id: string, client: DbClient = defaultClient): Promise<Project> {
+  return unwrapOne(
+    await client.from('projects').select('*').eq('id', id).single().overrideTypes<ProjectColumns>()
+  );
+}
+
+export async function createProject(
+  input: ProjectInput,
+  ownerId: string,
+  client: DbClient = defaultClient
+): Promise<Project> {
+  return unwrapOne(
+    await client
+      .from('projects')
+      .insert([{ ...input, created_by: ownerId }])
+      .select()
+      .single()
+      .overrideTypes<ProjectColumns>()
+  );
+}
+
+export async function updateProject(
+  id: string,
+  patch: Partial<ProjectInput>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('projects').update(patch).eq('id', id));
+}
@@ -0,0 +1,109 @@
+import type { Json } from '../../types/database';
+import type { PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+type PurchaseOrderColumns = Pick<PurchaseOrder, 'status'>;
+
+export type PurchaseOrderWithItems = PurchaseOrder & {
+  projects: { id: string; name: string } | null;
+  purchase_order_items: PurchaseOrderItem[];
+};
+
+export type PurchaseOrderInput = Pick<
+  PurchaseOrder,
+  'project_id' | 'phase_id' | 'supplier' | 'vendor_id' | 'supplier_gstin' | 'order_date' | 'expected_date' | 'notes'
+>;
+
+export type PurchaseOrderItemInput = Pick<
+  PurchaseOrderItem,
+  'material_id' | 'description' | 'hsn' | 'unit' | 'quantity' | 'unit_cost' | 'gst_rate'
+>;
+
+export interface ReceiptLine {
+  item_id: string;
+  quantity: number;
+}
+
+export async function listPurchaseOrders(
+  projectIds: string[],
+  client: DbClient = defaultClient
+): Promise<PurchaseOrderWithItems[]> {
+  if (projectIds.length === 0) return [];
+  return unwrapList(
+    await client
+      .from('purchase_orders')
+      .select('*, projects (id, name), purchase_order_items (*)')
+      .in('project_id', projectIds)
+      .order('created_at', { ascending: false })
+      .overrideTypes<PurchaseOrderColumns[]>()
+  );
+}
+
+/**
+ * Create a draft PO with its items. The database assigns the PO number.
+ */
+export async function createPurchaseOrder(
+  input: PurchaseOrderInput,
+  items: PurchaseOrderItemInput[],
+  client: DbClient = defaultClient
+): Promise<PurchaseOrder> {
+  const order = unwrapOne(await client.from('purchase_orders').insert(input).select().single().overrideTypes<PurchaseOrderColumns>());
+
+  const { error } = await client
+    .from('purchase_order_items')
+    .insert(items.map((item) => ({ ...item, purchase_order_id: order.id })));
+  if (error) {
+    // Don't leave an empty PO behind, it would still take a number
+    await client.from('purchase_orders').delete().eq('id', order.id);
+  }
+  assertOk({ error });
+
+  return order;
+}
+
+export async function updatePurchaseOrderStatus(
+  id: string,
+  status: PurchaseOrderStatus,
+  client: DbClient = defaultClient
+): Promise<void> {
+  const patch = status === 'sent' ? { status, sent_at: new Date().toISOString() } : { status };
+  assertOk(await client.from('purchase_orders').update(patch).eq('id', id));
+}
+
+export async function deletePurchaseOrder(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('purchase_orders').delete().eq('id', id));
+}
+
+/**
+ * Receive goods against a sent PO into stock. Returns the PO's new status.
+ */
+export async function receivePurchaseOrder(
+  id: string,
+  lines: ReceiptLine[],
+  date: string,
+  phaseId?: string,
+  client: DbClient = defaultClient
+): Promise<PurchaseOrderStatus> {
+  return unwrapOne(
+    await client.rpc('receive_purchase_order', {
+      p_po_id: id,
+      p_items: lines as unknown as Json,
+      p_date: date,
+      p_phase_id: phaseId,
+    }).overrideTypes<PurchaseOrderStatus, { merge: false }>()
+  );
+}
+
+/**
+ * Taxable value, GST and total of PO items.
+ */
+export function purchaseOrderTotals(items: Pick<PurchaseOrderItem, 'quantity' | 'unit_cost' | 'gst_rate'>[]) {
+  return items.reduce(
+    (totals, item) => {
+      const taxable = Number(item.quantity) * Number(item.unit_cost);
+      const gst = (taxable * Number(item.gst_rate)) / 100;
+      return { subtotal: totals.subtotal + taxable, gst: totals.gst + gst, total: totals.total + taxable + gst };
+    },
+    { subtotal: 0, gst: 0, total: 0 }
+  );
+}
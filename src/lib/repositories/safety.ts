@@ -0,0 +1,181 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { SafetyCorrectiveAction, SafetyIncident, ToolboxTalk, ToolboxTalkAttendee } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+type IncidentColumns = Pick<SafetyIncident, 'incident_type'>;
+type CorrectiveActionColumns = Pick<SafetyCorrectiveAction, 'status'>;
+
+export type CorrectiveActionWithAssignee = SafetyCorrectiveAction & {
+  users: { id: string; name: string } | null;
+};
+
+export type SafetyIncidentWithActions = SafetyIncident & {
+  safety_corrective_actions: CorrectiveActionWithAssignee[];
+};
+
+export type SafetyIncidentInput = Pick<
+  SafetyIncident,
+  'project_id' | 'incident_type' | 'incident_date' | 'location' | 'description' | 'people_involved' | 'root_cause'
+>;
+
+export type CorrectiveActionInput = Pick<SafetyCorrectiveAction, 'incident_id' | 'description' | 'assigned_to' | 'due_date'>;
+
+export type ToolboxTalkWithAttendees = ToolboxTalk & { toolbox_talk_attendees: ToolboxTalkAttendee[] };
+
+export type ToolboxTalkInput = Pick<ToolboxTalk, 'project_id' | 'talk_date' | 'topic' | 'conducted_by' | 'notes'> & {
+  attendees: Pick<ToolboxTalkAttendee, 'worker_id' | 'name'>[];
+};
+
+export interface SafetyKpis {
+  lastIncidentDate: string | null;
+  daysSinceLastIncident: number | null;
+  openActions: number;
+  overdueActions: number;
+}
+
+/**
+ * A project's incidents, latest first, with their corrective actions.
+ */
+export async function listSafetyIncidents(
+  projectId: string,
+  client: DbClient = defaultClient
+): Promise<SafetyIncidentWithActions[]> {
+  return unwrapList(
+    await client
+      .from('safety_incidents')
+      .select('*, safety_corrective_actions (*, users (id, name))')
+      .eq('project_id', projectId)
+      .order('incident_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .overrideTypes<(IncidentColumns & { safety_corrective_actions: CorrectiveActionColumns[] })[]>()
+  );
+}
+
+export async function createSafetyIncident(input: SafetyIncidentInput, client: DbClient = defaultClient): Promise<SafetyIncident> {
+  return unwrapOne(await client.from('safety_incidents').insert(input).select().single().overrideTypes<IncidentColumns>());
+}
+
+export async function updateSafetyIncident(
+  id: string,
+  patch: Partial<SafetyIncidentInput>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('safety_incidents').update(patch).eq('id', id));
+}
+
+export async function deleteSafetyIncident(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('safety_incidents').delete().eq('id', id));
+}
+
+export async function createCorrectiveAction(input: CorrectiveActionInput, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('safety_corrective_actions').insert(input));
+}
+
+/**
+ * Change an action or close / reopen it; the database stamps who closed it.
+ */
+export async function updateCorrectiveAction(
+  id: string,
+  patch: Partial<Omit<CorrectiveActionInput, 'incident_id'>> | Pick<SafetyCorrectiveAction, 'status'>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('safety_corrective_actions').update(patch).eq('id', id));
+}
+
+export async function deleteCorrectiveAction(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('safety_corrective_actions').delete().eq('id', id));
+}
+
+/**
+ * A project's toolbox talks, latest first, with who attended.
+ */
+export async function listToolboxTalks(projectId: string, client: DbClient = defaultClient): Promise<ToolboxTalkWithAttendees[]> {
+  return unwrapList(
+    await client
+      .from('toolbox_talks')
+      .select('*, toolbox_talk_attendees (*)')
+      .eq('project_id', projectId)
+      .order('talk_date', { ascending: false })
+  );
+}
+
+/**
+ * Create (no id) or replace a toolbox talk with its attendance. Returns the talk's id.
+ */
+export async function saveToolboxTalk(
+  id: string | null,
+  input: ToolboxTalkInput,
+  client: DbClient = defaultClient
+): Promise<string> {
+  return unwrapOne(
+    await client.rpc('save_toolbox_talk', {
+      p_talk_id: id as string,
+      p_project_id: input.project_id,
+      p_talk_date: input.talk_date,
+      p_topic: input.topic,
+      p_conducted_by: input.conducted_by ?? '',
+      p_notes: input.notes ?? '',
+      p_attendees: input.attendees,
+    })
+  );
+}
+
+export async function deleteToolboxTalk(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('toolbox_talks').delete().eq('id', id));
+}
+
+/**
+ * An open corrective action whose due date is before today.
+ */
+export function isCorrectiveActionOverdue(
+  action: Pick<SafetyCorrectiveAction, 'status' | 'due_date'>,
+  today = new Date()
+): boolean {
+  return action.status === 'open' && !!action.due_date && action.due_date < format(today, 'yyyy-MM-dd');
+}
+
+/**
+ * Days since the last injury or property damage, and the corrective actions still
+ * open. Near misses are recorded but do not reset the count.
+ */
+export function summariseSafety(
+  incidents: Pick<SafetyIncident, 'incident_type' | 'incident_date'>[],
+  actions: Pick<SafetyCorrectiveAction, 'status' | 'due_date'>[],
+  today = new Date()
+): SafetyKpis {
+  const lastIncidentDate = incidents
+    .filter((i) => i.incident_type !== 'near_miss')
+    .reduce<string | null>((latest, i) => (latest === null || i.incident_date > latest ? i.incident_date : latest), null);
+
+  return {
+    lastIncidentDate,
+    daysSinceLastIncident: lastIncidentDate ? differenceInCalendarDays(today, parseISO(lastIncidentDate)) : null,
+    openActions: actions.filter((a) => a.status === 'open').length,
+    overdueActions: actions.filter((a) => isCorrectiveActionOverdue(a, today)).length,
+  };
+}
+
+/**
+ * Safety KPIs across several projects, for the dashboard.
+ */
+export async function getSafetyKpis(projectIds: string[], client: DbClient = defaultClient): Promise<SafetyKpis> {
+  if (projectIds.length === 0) return summariseSafety([], []);
+
+  const incidents = unwrapList(
+    await client
+      .from('safety_incidents')
+      .select('incident_type, incident_date')
+      .in('project_id', projectIds)
+      .overrideTypes<IncidentColumns[]>()
+  );
+  const actions = unwrapList(
+    await client
+      .from('safety_corrective_actions')
+      .select('status, due_date, safety_incidents!inner (project_id)')
+      .in('safety_incidents.project_id', projectIds)
+      .eq('status', 'open')
+      .overrideTypes<CorrectiveActionColumns[]>()
+  );
+
+  return summariseSafety(incidents, actions);
+}
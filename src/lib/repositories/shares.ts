@@ -0,0 +1,211 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import type {
+  ChangeOrder,
+  Expense,
+  Material,
+  Project,
+  ProjectPhase,
+  ProjectDocument,
+  ProjectShare,
+  ShareAccessLog,
+  ShareComment,
+  ShareOptions,
+  ShareToken,
+  ShareType,
+} from '../../types';
+import type { Json } from '../../types/database';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+// `password_hash` is not granted to API roles, so shares are always selected by column.
+export const SHARE_COLUMNS =
+  'id, project_id, created_by, share_type, expires_at, share_options, is_active, view_count, comments, failed_attempts, locked_at, last_accessed_at, created_at';
+
+type ShareColumns = Pick<ProjectShare, 'share_type' | 'share_options' | 'comments'>;
+
+type SharedTransaction = Pick<Expense, 'id' | 'amount' | 'gst_amount' | 'category' | 'date'> & {
+  phases: { id: string; name: string };
+};
+
+/**
+ * What the get-shared-project function returns; sections the owner did not
+ * share are absent.
+ */
+export interface SharedProject {
+  share: Pick<ProjectShare, 'id' | 'project_id' | 'share_type' | 'expires_at' | 'share_options'>;
+  project: Pick<
+    Project,
+    'id' | 'name' | 'description' | 'status' | 'location' | 'start_date' | 'end_date' | 'created_at'
+  >;
+  phases?: Pick<
+    ProjectPhase,
+    'id' | 'name' | 'start_date' | 'end_date' | 'status' | 'estimated_cost' | 'contractor_name'
+  >[];
+  expenses?: SharedTransaction[];
+  income?: SharedTransaction[];
+  materials?: Pick<Material, 'id' | 'name' | 'unit_cost' | 'qty_required' | 'status'>[];
+  teamMembers?: { id: string; name: string; email: string; role_id: string | null; status: string; active: boolean }[];
+  phasePhotos?: { id: string; photo_url: string; created_at: string; phases: { id: string; name: string } }[];
+  comments?: ShareComment[];
+  changeOrders?: (Pick<
+    ChangeOrder,
+    | 'id'
+    | 'co_number'
+    | 'title'
+    | 'description'
+    | 'cost_impact'
+    | 'schedule_impact_days'
+    | 'status'
+    | 'sent_at'
+    | 'responded_at'
+    | 'responded_by_name'
+    | 'response_note'
+  > & { phases: { id: string; name: string } | null })[];
+  documents?: (Pick<
+    ProjectDocument,
+    'id' | 'name' | 'category' | 'document_group_id' | 'revision' | 'is_current' | 'upload_date' | 'change_note' | 'superseded_at'
+  > & { url: string })[];
+}
+
+export type SharedProjectErrorCode = 'not_found' | 'expired' | 'password_required' | 'locked';
+
+export interface ShareInput {
+  project_id: string;
+  share_type: ShareType;
+  expires_at: string;
+  share_options: ShareOptions;
+  password?: string;
+}
+
+export async function listProjectShares(
+  projectId: string,
+  ownerId: string,
+  client: DbClient = defaultClient
+): Promise<ProjectShare[]> {
+  return unwrapList(
+    await client
+      .from('project_shares')
+      .select(SHARE_COLUMNS)
+      .eq('project_id', projectId)
+      .eq('created_by', ownerId)
+      .order('created_at', { ascending: false })
+      .overrideTypes<ShareColumns[]>()
+  );
+}
+
+/**
+ * Create a share link and return its id. Passwords are hashed by the database.
+ */
+export async function createProjectShare(input: ShareInput, client: DbClient = defaultClient): Promise<string> {
+  return unwrapOne(
+    await client.rpc('create_project_share', {
+      p_project_id: input.project_id,
+      p_share_type: input.share_type,
+      p_expires_at: input.expires_at,
+      p_share_options: input.share_options as unknown as Json,
+      p_password: input.password,
+    })
+  );
+}
+
+export async function deleteProjectShare(id: string, ownerId: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('project_shares').delete().eq('id', id).eq('created_by', ownerId));
+}
+
+interface UnlockResult {
+  status: 'ok' | 'invalid_password' | 'locked';
+  token: string | null;
+  expires_at: string | null;
+  attempts_remaining: number;
+}
+
+/**
+ * Exchange the password of a private share for a short-lived token. A wrong
+ * password throws with code `invalid_password` and `attemptsRemaining`; a share
+ * locked by too many misses throws with code `locked`.
+ */
+export async function unlockProjectShare(
+  id: string,
+  password: string,
+  client: DbClient = defaultClient
+): Promise<ShareToken> {
+  const [result] = unwrapList(
+    await client
+      .rpc('unlock_project_share', { p_share_id: id, p_password: password })
+      .overrideTypes<Pick<UnlockResult, 'status'>[]>()
+  );
+
+  if (result.status !== 'ok' || !result.token || !result.expires_at) {
+    throw Object.assign(new Error(result.status === 'locked' ? 'Link locked' : 'Incorrect password'), {
+      code: result.status,
+      attemptsRemaining: result.attempts_remaining,
+    });
+  }
+
+  return { token: result.token, expires_at: result.expires_at };
+}
+
+export async function listShareAccessLogs(
+  shareId: string,
+  limit = 50,
+  client: DbClient = defaultClient
+): Promise<ShareAccessLog[]> {
+  return unwrapList(
+    await client
+      .from('project_share_access_logs')
+      .select('*')
+      .eq('share_id', shareId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+      .overrideTypes<Pick<ShareAccessLog, 'event'>[]>()
+  );
+}
+
+/**
+ * Clear a password lockout so visitors can try again.
+ */
+export async function clearShareLockout(id: string, ownerId: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(
+    await client
+      .from('project_shares')
+      .update({ failed_attempts: 0, locked_at: null })
+      .eq('id', id)
+      .eq('created_by', ownerId)
+  );
+}
+
+/**
+ * Load a shared project through the get-shared-project function. Failures are
+ * thrown as errors carrying the function's `code`.
+ */
+export async function getSharedProject(
+  id: string,
+  token?: string | null,
+  client: DbClient = defaultClient
+): Promise<SharedProject> {
+  const { data, error } = await client.functions.invoke('get-shared-project', {
+    body: { share_id: id, token: token ?? undefined },
+  });
+
+  if (error) {
+    const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw Object.assign(new Error(body?.error || error.message), { code: body?.code as SharedProjectErrorCode | undefined });
+  }
+
+  return data as SharedProject;
+}
+
+/**
+ * Add a visitor comment. Private shares must use a client carrying the unlock token.
+ */
+export async function addShareComment(
+  id: string,
+  authorName: string,
+  comment: string,
+  client: DbClient = defaultClient
+): Promise<ShareComment> {
+  // jsonb comes back as Json, which could be an array, so it cannot be overridden
+  const added = unwrapOne(
+    await client.rpc('add_share_comment', { p_share_id: id, p_author_name: authorName, p_comment: comment })
+  );
+  return added as unknown as ShareComment;
+}
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { missingSiteLogDays } from './siteLogs';
+
+describe('missingSiteLogDays', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 5, 15, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const project = { start_date: '2025-06-01', end_date: '2025-06-30' };
+
+  it('lists the days in range without a log', () => {
+    expect(missingSiteLogDays(project, ['2025-06-02', '2025-06-04'], '2025-06-01', '2025-06-05')).toEqual([
+      '2025-06-01',
+      '2025-06-03',
+      '2025-06-05',
+    ]);
+  });
+
+  it('does not go past today', () => {
+    expect(missingSiteLogDays(project, [], '2025-06-13', '2025-06-20')).toEqual(['2025-06-13', '2025-06-14', '2025-06-15']);
+  });
+
+  it('keeps to the project dates', () => {
+    const ended = { start_date: '2025-05-28', end_date: '2025-05-30' };
+    expect(missingSiteLogDays(ended, ['2025-05-29'], '2025-05-25', '2025-06-10')).toEqual(['2025-05-28', '2025-05-30']);
+  });
+
+  it('is empty for a project that has not started', () => {
+    expect(missingSiteLogDays({ start_date: '2025-07-01', end_date: null }, [], '2025-06-01', '2025-06-30')).toEqual([]);
+  });
+
+  it('uses only the range when the project has no dates', () => {
+    expect(missingSiteLogDays({ start_date: null, end_date: null }, [], '2025-06-14', '2025-06-20')).toEqual([
+      '2025-06-14',
+      '2025-06-15',
+    ]);
+  });
+});
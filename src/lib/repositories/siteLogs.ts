@@ -0,0 +1,149 @@
+import { eachDayOfInterval, format, max, min, parseISO } from 'date-fns';
+import type { Project, SiteLog, SiteLogManpower } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+const PHOTOS_BUCKET = 'phase-photos';
+
+export type SiteLogPhoto = { id: string; phase_id: string; photo_url: string };
+
+export type SiteLogWithDetails = SiteLog & {
+  site_log_manpower: SiteLogManpower[];
+  phase_photos: SiteLogPhoto[];
+};
+
+export type SiteLogInput = Pick<
+  SiteLog,
+  'project_id' | 'log_date' | 'weather' | 'temperature_c' | 'equipment' | 'work_done' | 'issues'
+> & {
+  manpower: Pick<SiteLogManpower, 'trade' | 'headcount'>[];
+};
+
+/**
+ * A project's site logs between two dates (inclusive) with their manpower and
+ * photos, oldest first.
+ */
+export async function listSiteLogs(
+  projectId: string,
+  from: string,
+  to: string,
+  client: DbClient = defaultClient
+): Promise<SiteLogWithDetails[]> {
+  return unwrapList(
+    await client
+      .from('site_logs')
+      .select('*, site_log_manpower (*), phase_photos (id, phase_id, photo_url)')
+      .eq('project_id', projectId)
+      .gte('log_date', from)
+      .lte('log_date', to)
+      .order('log_date')
+  );
+}
+
+/**
+ * Write the project's log for the day, replacing an unsigned one already there.
+ * Returns the log's id.
+ */
+export async function saveSiteLog(input: SiteLogInput, client: DbClient = defaultClient): Promise<string> {
+  return unwrapOne(
+    await client.rpc('save_site_log', {
+      p_project_id: input.project_id,
+      p_log_date: input.log_date,
+      p_weather: input.weather ?? '',
+      p_temperature_c: input.temperature_c,
+      p_equipment: input.equipment,
+      p_work_done: input.work_done,
+      p_issues: input.issues ?? '',
+      p_manpower: input.manpower,
+    })
+  );
+}
+
+/**
+ * Sign the log off as the current user; it cannot be edited or deleted after.
+ */
+export async function signOffSiteLog(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.rpc('sign_off_site_log', { p_log_id: id }));
+}
+
+export async function deleteSiteLog(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('site_logs').delete().eq('id', id));
+}
+
+/**
+ * Upload a photo for one of the project's phases and attach it to the log. It
+ * also shows among the phase's photos.
+ */
+export async function uploadSiteLogPhoto(
+  log: Pick<SiteLog, 'id' | 'project_id'>,
+  phaseId: string,
+  file: File | Blob,
+  fileName: string,
+  client: DbClient = defaultClient
+): Promise<void> {
+  const filePath = `phase-photos/${phaseId}/${Date.now()}-${fileName}`;
+  const { error: uploadError } = await client.storage.from(PHOTOS_BUCKET).upload(filePath, file);
+  if (uploadError) throw uploadError;
+
+  const { data } = client.storage.from(PHOTOS_BUCKET).getPublicUrl(filePath);
+  assertOk(
+    await client.from('phase_photos').insert({
+      phase_id: phaseId,
+      project_id: log.project_id,
+      site_log_id: log.id,
+      photo_url: data.publicUrl,
+    })
+  );
+}
+
+/**
+ * Phase photos of the project taken on the day that no log has claimed yet.
+ */
+export async function listUnlinkedPhotos(
+  projectId: string,
+  date: string,
+  client: DbClient = defaultClient
+): Promise<SiteLogPhoto[]> {
+  const dayStart = parseISO(date);
+  const dayEnd = new Date(dayStart.getTime() + 86_400_000);
+  return unwrapList(
+    await client
+      .from('phase_photos')
+      .select('id, phase_id, photo_url')
+      .eq('project_id', projectId)
+      .is('site_log_id', null)
+      .gte('created_at', dayStart.toISOString())
+      .lt('created_at', dayEnd.toISOString())
+  );
+}
+
+/**
+ * Attach existing phase photos to a log, or detach them with a null log id.
+ */
+export async function linkSiteLogPhotos(
+  logId: string | null,
+  photoIds: string[],
+  client: DbClient = defaultClient
+): Promise<void> {
+  if (photoIds.length === 0) return;
+  assertOk(await client.from('phase_photos').update({ site_log_id: logId }).in('id', photoIds));
+}
+
+/**
+ * Days between two dates that should have a log but do not: from the project's
+ * start up to today or its end, whichever comes first.
+ */
+export function missingSiteLogDays(
+  project: Pick<Project, 'start_date' | 'end_date'>,
+  loggedDates: string[],
+  from: string,
+  to: string
+): string[] {
+  const start = max([parseISO(from), ...(project.start_date ? [parseISO(project.start_date)] : [])]);
+  const end = min([parseISO(to), new Date(), ...(project.end_date ? [parseISO(project.end_date)] : [])]);
+  if (start > end) return [];
+
+  const logged = new Set(loggedDates);
+  return eachDayOfInterval({ start, end })
+    .map((day) => format(day, 'yyyy-MM-dd'))
+    .filter((day) => !logged.has(day));
+}
@@ -0,0 +1,112 @@
+import { format } from 'date-fns';
+import type { Snag, SnagPhoto } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+const PHOTOS_BUCKET = 'phase-photos';
+
+type SnagColumns = Pick<Snag, 'severity' | 'status'>;
+type SnagPhotoColumns = Pick<SnagPhoto, 'kind'>;
+
+export type SnagWithDetails = Snag & {
+  phases: { id: string; name: string } | null;
+  users: { id: string; name: string } | null;
+  snag_photos: SnagPhoto[];
+};
+
+export type SnagInput = Pick<
+  Snag,
+  'project_id' | 'phase_id' | 'title' | 'description' | 'location' | 'trade' | 'severity' | 'assigned_to' | 'due_date'
+>;
+
+export async function listSnags(projectId: string, client: DbClient = defaultClient): Promise<SnagWithDetails[]> {
+  return unwrapList(
+    await client
+      .from('snags')
+      .select('*, phases (id, name), users (id, name), snag_photos (*)')
+      .eq('project_id', projectId)
+      .order('snag_number')
+      .overrideTypes<(SnagColumns & { snag_photos: SnagPhotoColumns[] })[]>()
+  );
+}
+
+/**
+ * Snags not yet closed, counted per project.
+ */
+export async function countOpenSnags(
+  projectIds: string[],
+  client: DbClient = defaultClient
+): Promise<Record<string, number>> {
+  if (projectIds.length === 0) return {};
+  const rows = unwrapList(
+    await client.from('snags').select('project_id').in('project_id', projectIds).neq('status', 'closed')
+  );
+  return rows.reduce<Record<string, number>>((counts, row) => {
+    counts[row.project_id] = (counts[row.project_id] ?? 0) + 1;
+    return counts;
+  }, {});
+}
+
+/**
+ * Add an open snag; the database numbers it SN-001, SN-002, ...
+ */
+export async function createSnag(input: SnagInput, client: DbClient = defaultClient): Promise<Snag> {
+  return unwrapOne(await client.from('snags').insert(input).select().single().overrideTypes<SnagColumns>());
+}
+
+export async function updateSnag(
+  id: string,
+  patch: Partial<SnagInput> | Pick<Snag, 'status'>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('snags').update(patch).eq('id', id));
+}
+
+export async function deleteSnag(snag: Pick<SnagWithDetails, 'id' | 'snag_photos'>, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('snags').delete().eq('id', snag.id));
+  if (snag.snag_photos.length > 0) {
+    await client.storage.from(PHOTOS_BUCKET).remove(snag.snag_photos.map((p) => p.file_path));
+  }
+}
+
+/**
+ * Store a photo of the defect ("before") or of its fix ("after").
+ */
+export async function uploadSnagPhoto(
+  snagId: string,
+  kind: SnagPhoto['kind'],
+  file: File | Blob,
+  fileName: string,
+  client: DbClient = defaultClient
+): Promise<SnagPhoto> {
+  const filePath = `snags/${snagId}/${kind}-${Date.now()}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+  const { error: uploadError } = await client.storage.from(PHOTOS_BUCKET).upload(filePath, file);
+  if (uploadError) throw uploadError;
+
+  const { data } = client.storage.from(PHOTOS_BUCKET).getPublicUrl(filePath);
+  try {
+    return unwrapOne(
+      await client
+        .from('snag_photos')
+        .insert({ snag_id: snagId, kind, photo_url: data.publicUrl, file_path: filePath })
+        .select()
+        .single()
+        .overrideTypes<SnagPhotoColumns>()
+    );
+  } catch (error) {
+    await client.storage.from(PHOTOS_BUCKET).remove([filePath]);
+    throw error;
+  }
+}
+
+export async function deleteSnagPhoto(photo: Pick<SnagPhoto, 'id' | 'file_path'>, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('snag_photos').delete().eq('id', photo.id));
+  await client.storage.from(PHOTOS_BUCKET).remove([photo.file_path]);
+}
+
+/**
+ * A snag not yet fixed whose due date is before today.
+ */
+export function isSnagOverdue(snag: Pick<Snag, 'status' | 'due_date'>, today = new Date()): boolean {
+  if (snag.status === 'fixed' || snag.status === 'closed' || !snag.due_date) return false;
+  return snag.due_date < format(today, 'yyyy-MM-dd');
+}
@@ -0,0 +1,92 @@
+import type { Plan, PlanQuote, PlanUsage, Subscription } from '../../types';
+import { DbClient, defaultClient, invokeFunction, unwrapList } from './client';
+
+export type SubscriptionWithPlan = Subscription & { plans: Pick<Plan, 'id' | 'name' | 'price'> | null };
+
+// A Razorpay order to open checkout with, or the subscription itself when credit
+// from the current plan covered the whole price
+export interface PlanCheckout {
+  quote: PlanQuote;
+  order: RazorpayOrder | null;
+  subscription_id: string | null;
+}
+
+// A Razorpay order from create-razorpay-order; amount is in paise
+export interface RazorpayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  key_id: string;
+}
+
+export interface RazorpayPaymentResponse {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+export async function listPlans(client: DbClient = defaultClient): Promise<Plan[]> {
+  return unwrapList(await client.from('plans').select('*').order('price'));
+}
+
+export async function listSubscriptions(
+  userId: string,
+  client: DbClient = defaultClient
+): Promise<SubscriptionWithPlan[]> {
+  return unwrapList(
+    await client
+      .from('subscriptions')
+      .select('*, plans (id, name, price)')
+      .eq('user_id', userId)
+      .order('start_date', { ascending: false })
+      .overrideTypes<Pick<Subscription, 'status'>[]>()
+  );
+}
+
+/**
+ * The signed-in account's plan, subscription state, limits and usage. Team members
+ * see their account owner's plan.
+ */
+export async function getPlanUsage(client: DbClient = defaultClient): Promise<PlanUsage> {
+  const [usage] = unwrapList(
+    await client.rpc('plan_usage').overrideTypes<Pick<PlanUsage, 'subscription_status'>[]>()
+  );
+  return usage;
+}
+
+/**
+ * Price buying a plan now, crediting what is left of the current one.
+ */
+export async function quotePlanChange(planName: string, client: DbClient = defaultClient): Promise<PlanQuote> {
+  const [quote] = unwrapList(
+    await client.rpc('quote_plan_change', { p_plan_name: planName }).overrideTypes<Pick<PlanQuote, 'change'>[]>()
+  );
+  return quote;
+}
+
+/**
+ * Start buying a plan through the create-razorpay-order function, which prices it
+ * server-side.
+ */
+export async function checkoutPlan(planName: string, client: DbClient = defaultClient): Promise<PlanCheckout> {
+  return invokeFunction<PlanCheckout>('create-razorpay-order', { plan_name: planName }, client);
+}
+
+/**
+ * Hand Razorpay's checkout response to verify-razorpay-payment, which checks the
+ * signature and activates the subscription. Returns the subscription's id.
+ */
+export async function verifyPlanPayment(
+  response: RazorpayPaymentResponse,
+  client: DbClient = defaultClient
+): Promise<string> {
+  const data = await invokeFunction<{ subscription_id: string }>('verify-razorpay-payment', { ...response }, client);
+  return data.subscription_id;
+}
+
+/**
+ * Whether an error is a plan limit refusing a new project, team member or document.
+ */
+export function isPlanLimitError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '54000';
+}
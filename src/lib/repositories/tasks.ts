@@ -0,0 +1,80 @@
+import { format } from 'date-fns';
+import type { Task } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+export type TaskWithPhase = Task & {
+  phases: { id: string; name: string; projects: { id: string; name: string } | null } | null;
+  users: { id: string; name: string } | null;
+};
+
+export type TaskInput = Pick<
+  Task,
+  'phase_id' | 'project_id' | 'name' | 'description' | 'assigned_to' | 'due_date' | 'status' | 'priority'
+>;
+
+type TaskColumns = Pick<Task, 'status' | 'priority'>;
+
+const TASK_WITH_PHASE = '*, phases (id, name, projects (id, name)), users (id, name)';
+
+export async function listPhaseTasks(phaseId: string, client: DbClient = defaultClient): Promise<TaskWithPhase[]> {
+  return unwrapList(
+    await client
+      .from('tasks')
+      .select(TASK_WITH_PHASE)
+      .eq('phase_id', phaseId)
+      .order('due_date', { nullsFirst: false })
+      .order('created_at')
+      .overrideTypes<TaskColumns[]>()
+  );
+}
+
+export async function listTasksForProjects(
+  projectIds: string[],
+  client: DbClient = defaultClient
+): Promise<TaskWithPhase[]> {
+  if (projectIds.length === 0) return [];
+  return unwrapList(
+    await client
+      .from('tasks')
+      .select(TASK_WITH_PHASE)
+      .in('project_id', projectIds)
+      .order('due_date', { nullsFirst: false })
+      .overrideTypes<TaskColumns[]>()
+  );
+}
+
+export async function listAssignedTasks(memberIds: string[], client: DbClient = defaultClient): Promise<TaskWithPhase[]> {
+  if (memberIds.length === 0) return [];
+  return unwrapList(
+    await client
+      .from('tasks')
+      .select(TASK_WITH_PHASE)
+      .in('assigned_to', memberIds)
+      .order('due_date', { nullsFirst: false })
+      .overrideTypes<TaskColumns[]>()
+  );
+}
+
+export async function createTask(input: TaskInput, client: DbClient = defaultClient): Promise<Task> {
+  return unwrapOne(await client.from('tasks').insert(input).select().single().overrideTypes<TaskColumns>());
+}
+
+export async function updateTask(
+  id: string,
+  patch: Partial<TaskInput>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('tasks').update(patch).eq('id', id));
+}
+
+export async function deleteTask(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('tasks').delete().eq('id', id));
+}
+
+/**
+ * An open task whose due date is before today.
+ */
+export function isTaskOverdue(task: Pick<Task, 'status' | 'due_date'>, today = new Date()): boolean {
+  if (task.status === 'completed' || !task.due_date) return false;
+  return task.due_date < format(today, 'yyyy-MM-dd');
+}
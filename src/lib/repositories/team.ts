@@ -0,0 +1,44 @@
+import type { TeamMember } from '../../types';
+import { DbClient, defaultClient, unwrapList } from './client';
+
+const MEMBER_COLUMNS = 'id, name, email, phone, role_id, project_id, auth_user_id, status, active';
+
+export async function listProjectMembers(projectId: string, client: DbClient = defaultClient): Promise<TeamMember[]> {
+  return unwrapList(
+    await client
+      .from('users')
+      .select(MEMBER_COLUMNS)
+      .eq('project_id', projectId)
+      .eq('active', true)
+      .order('name')
+  );
+}
+
+/**
+ * The team member records of a signed-in user, one per project they are on,
+ * matched on email like the rest of the app. Admins have none.
+ */
+export async function listMembershipsByEmail(email: string, client: DbClient = defaultClient): Promise<TeamMember[]> {
+  return unwrapList(
+    await client.from('users').select(MEMBER_COLUMNS).eq('email', email)
+  );
+}
+
+export interface RoleOption {
+  id: string;
+  role_name: string;
+}
+
+/**
+ * Active roles an admin has created.
+ */
+export async function listRoleOptions(ownerId: string, client: DbClient = defaultClient): Promise<RoleOption[]> {
+  return unwrapList(
+    await client
+      .from('roles')
+      .select('id, role_name')
+      .eq('created_by', ownerId)
+      .eq('is_active', true)
+      .order('role_name')
+  );
+}
@@ -0,0 +1,50 @@
+import type { Vendor, VendorBalance, VendorLedgerEntry } from '../../types';
+import { assertOk, DbClient, defaultClient, unwrapList, unwrapOne } from './client';
+
+export type VendorInput = Omit<Vendor, 'id' | 'owner_id' | 'created_at'>;
+
+/**
+ * Vendors of the signed-in user's account; the database scopes them to the admin.
+ */
+export async function listVendors(client: DbClient = defaultClient): Promise<Vendor[]> {
+  return unwrapList(await client.from('vendors').select('*').order('name'));
+}
+
+export async function createVendor(input: VendorInput, client: DbClient = defaultClient): Promise<Vendor> {
+  return unwrapOne(await client.from('vendors').insert(input).select().single());
+}
+
+export async function updateVendor(
+  id: string,
+  patch: Partial<VendorInput>,
+  client: DbClient = defaultClient
+): Promise<void> {
+  assertOk(await client.from('vendors').update(patch).eq('id', id));
+}
+
+export async function deleteVendor(id: string, client: DbClient = defaultClient): Promise<void> {
+  assertOk(await client.from('vendors').delete().eq('id', id));
+}
+
+/**
+ * Billed, paid and outstanding per vendor across the projects the user can see.
+ */
+export async function listVendorBalances(client: DbClient = defaultClient): Promise<VendorBalance[]> {
+  return unwrapList(
+    await client.from('vendor_balances').select('*').overrideTypes<VendorBalance[], { merge: false }>()
+  );
+}
+
+export async function listVendorLedger(vendorId: string, client: DbClient = defaultClient): Promise<VendorLedgerEntry[]> {
+  return unwrapList(
+    await client.from('vendor_ledger').select('*').eq('vendor_id', vendorId).order('date').overrideTypes<VendorLedgerEntry[], { merge: false }>()
+  );
+}
+
+/**
+ * The vendor whose name matches a free-text supplier, for preselecting legacy records.
+ */
+export function matchVendor(vendors: Vendor[], name?: string | null): Vendor | undefined {
+  const key = name?.trim().toLowerCase();
+  return key ? vendors.find((v) => v.name.toLowerCase() === key) : undefined;
+}
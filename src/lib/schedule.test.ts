@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { PhaseDependency } from '../types';
+import { earliestStart, phaseFloats, type ScheduledPhase } from './schedule';
+
+const phase = (id: string, start_date: string, end_date: string): ScheduledPhase => ({ id, start_date, end_date });
+
+const link = (predecessor_id: string, successor_id: string, lag_days = 0): PhaseDependency => ({
+  id: `${predecessor_id}-${successor_id}`,
+  project_id: 'project',
+  predecessor_id,
+  successor_id,
+  lag_days,
+  created_at: '2025-01-01T00:00:00Z',
+});
+
+describe('phaseFloats', () => {
+  it('returns nothing for a project without phases', () => {
+    expect(phaseFloats([], []).size).toBe(0);
+  });
+
+  it('puts a chain of back-to-back phases on the critical path', () => {
+    const phases = [phase('a', '2025-03-01', '2025-03-05'), phase('b', '2025-03-06', '2025-03-10')];
+    const floats = phaseFloats(phases, [link('a', 'b')]);
+
+    expect(floats.get('a')).toEqual({ float: 0, critical: true });
+    expect(floats.get('b')).toEqual({ float: 0, critical: true });
+  });
+
+  it('gives a shorter parallel phase float up to the project end', () => {
+    const phases = [
+      phase('a', '2025-03-01', '2025-03-05'),
+      phase('b', '2025-03-06', '2025-03-10'),
+      phase('c', '2025-03-01', '2025-03-03'),
+    ];
+    const floats = phaseFloats(phases, [link('a', 'b')]);
+
+    expect(floats.get('c')).toEqual({ float: 7, critical: false });
+  });
+
+  it('counts the gap before a successor and its lag', () => {
+    const phases = [phase('a', '2025-03-01', '2025-03-03'), phase('b', '2025-03-10', '2025-03-12')];
+
+    expect(phaseFloats(phases, [link('a', 'b')]).get('a')?.float).toBe(6);
+    expect(phaseFloats(phases, [link('a', 'b', 2)]).get('a')?.float).toBe(4);
+  });
+
+  it('still scores phases caught in a dependency loop', () => {
+    const phases = [phase('a', '2025-03-01', '2025-03-05'), phase('b', '2025-03-06', '2025-03-10')];
+    const floats = phaseFloats(phases, [link('a', 'b'), link('b', 'a')]);
+
+    expect([...floats.keys()].sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('earliestStart', () => {
+  const phases = [
+    phase('a', '2025-03-01', '2025-03-05'),
+    phase('b', '2025-03-01', '2025-03-08'),
+    phase('c', '2025-03-10', '2025-03-12'),
+  ];
+
+  it('is null when nothing holds the phase back', () => {
+    expect(earliestStart('a', phases, [link('a', 'c')])).toBeNull();
+  });
+
+  it('is the day after the latest predecessor ends, plus its lag', () => {
+    expect(earliestStart('c', phases, [link('a', 'c', 3), link('b', 'c')])).toEqual(new Date(2025, 2, 9));
+    expect(earliestStart('c', phases, [link('a', 'c'), link('b', 'c', 2)])).toEqual(new Date(2025, 2, 11));
+  });
+
+  it('ignores predecessors that are not in the schedule', () => {
+    expect(earliestStart('c', phases, [link('gone', 'c')])).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import type { PhaseDependency } from '../types';
+
+// Scheduling arithmetic for phases linked finish-to-start. Dates are whole days
+// and a phase occupies its start and end dates inclusively.
+
+export interface ScheduledPhase {
+  id: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface PhaseFloat {
+  // Days the phase could finish later without delaying the project's end
+  float: number;
+  critical: boolean;
+}
+
+const dayNumber = (date: string) => differenceInCalendarDays(parseISO(date), new Date(0));
+
+/**
+ * Order phases so every predecessor comes before its successors. Phases caught in
+ * a loop, which the database refuses, are left at the end.
+ */
+function topologicalOrder(phases: ScheduledPhase[], dependencies: PhaseDependency[]): ScheduledPhase[] {
+  const incoming = new Map(phases.map((p) => [p.id, 0]));
+  for (const d of dependencies) {
+    if (incoming.has(d.successor_id) && incoming.has(d.predecessor_id)) {
+      incoming.set(d.successor_id, incoming.get(d.successor_id)! + 1);
+    }
+  }
+
+  const byId = new Map(phases.map((p) => [p.id, p]));
+  const queue = phases.filter((p) => incoming.get(p.id) === 0);
+  const ordered: ScheduledPhase[] = [];
+
+  while (queue.length > 0) {
+    const phase = queue.shift()!;
+    ordered.push(phase);
+    for (const d of dependencies) {
+      if (d.predecessor_id !== phase.id || !incoming.has(d.successor_id)) continue;
+      const remaining = incoming.get(d.successor_id)! - 1;
+      incoming.set(d.successor_id, remaining);
+      if (remaining === 0) queue.push(byId.get(d.successor_id)!);
+    }
+  }
+
+  return [...ordered, ...phases.filter((p) => !ordered.includes(p))];
+}
+
+/**
+ * Total float of each phase against the latest phase end, walking back from the
+ * end through the dependencies. Phases with no float form the critical path.
+ */
+export function phaseFloats(phases: ScheduledPhase[], dependencies: PhaseDependency[]): Map<string, PhaseFloat> {
+  const floats = new Map<string, PhaseFloat>();
+  if (phases.length === 0) return floats;
+
+  const projectEnd = Math.max(...phases.map((p) => dayNumber(p.end_date)));
+  const latestStart = new Map<string, number>();
+
+  for (const phase of topologicalOrder(phases, dependencies).reverse()) {
+    const start = dayNumber(phase.start_date);
+    const end = dayNumber(phase.end_date);
+
+    const successorLimits = dependencies
+      .filter((d) => d.predecessor_id === phase.id && latestStart.has(d.successor_id))
+      .map((d) => latestStart.get(d.successor_id)! - d.lag_days - 1);
+    const latestFinish = Math.min(projectEnd, ...successorLimits);
+
+    latestStart.set(phase.id, latestFinish - (end - start));
+    const float = latestFinish - end;
+    floats.set(phase.id, { float, critical: float <= 0 });
+  }
+
+  return floats;
+}
+
+/**
+ * Earliest date a phase may start given its predecessors' current end dates, or
+ * null when nothing holds it back.
+ */
+export function earliestStart(
+  phaseId: string,
+  phases: ScheduledPhase[],
+  dependencies: PhaseDependency[]
+): Date | null {
+  let earliest: Date | null = null;
+  for (const d of dependencies.filter((d) => d.successor_id === phaseId)) {
+    const predecessor = phases.find((p) => p.id === d.predecessor_id);
+    if (!predecessor) continue;
+    const start = addDays(parseISO(predecessor.end_date), d.lag_days + 1);
+    if (!earliest || start > earliest) earliest = start;
+  }
+  return earliest;
+}
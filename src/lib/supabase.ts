@@ -1,4 +1,5 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../types/database';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -7,4 +8,19 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// One client for the app. Repositories use it checked against the generated schema;
+// pages that still query directly see it without the schema types.
+export const typedSupabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+
+export const supabase: SupabaseClient = typedSupabase;
+
+// Client for anonymous visitors of a private share link, used for their comments and
+// change order responses. The unlock token is sent on every request and checked by
+// the database functions behind those writes; the project itself is read through
+// the get-shared-project edge function.
+export function createShareClient(shareToken: string) {
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { 'x-share-token': shareToken } },
+    auth: { persistSession: false, autoRefreshToken: false, storageKey: 'share-token-client' },
+  });
+}
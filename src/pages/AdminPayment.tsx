@@ -15,8 +15,10 @@ import {
   Info,
   AlertCircle
 } from "lucide-react";
-import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import { checkoutPlan, listPlans, quotePlanChange, verifyPlanPayment } from "../lib/repositories";
+import type { Plan, PlanQuote } from "../types";
+import { format } from "date-fns";
 
 type PaymentMethod = "upi" | "card" | "wallet" | "netbanking";
 
@@ -32,27 +34,36 @@ export const AdminPayment = () => {
   const { user } = useAuth();
 
   const planName = location.state?.planName || "";
-  const planId = location.state?.planId || null;
 
   const [selected, setSelected] = useState<PaymentMethod>("upi");
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [paymentSuccess, setPaymentSuccess] = useState(false);
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [quote, setQuote] = useState<PlanQuote | null>(null);
 
-  // ✅ Amount based on plan
-  const getPlanAmount = (plan: string) => {
-    switch (plan.toLowerCase()) {
-      case "basic":
-        return 1499 * 100; // paise
-      case "pro":
-        return 3499 * 100; // paise
-      default:
-        return 0;
-    }
-  };
+  // The price, and any credit from the current plan, come from the server
+  useEffect(() => {
+    if (!user || !planName) return;
+
+    listPlans()
+      .then((plans) => setPlan(plans.find((p) => p.name === planName) ?? null))
+      .catch((err) => console.error("Error fetching plans:", err));
+
+    quotePlanChange(planName)
+      .then(setQuote)
+      .catch((err: any) => {
+        console.error("Error pricing plan:", err);
+        setError(err.message || "This plan can't be bought right now.");
+      });
+  }, [user, planName]);
 
-  const amount = getPlanAmount(planName);
-  const razorpayKey = import.meta.env.VITE_RAZORPAY_KEY_ID;
+  const changeLabels: Record<PlanQuote["change"], string> = {
+    new: "New subscription",
+    renewal: "Renewal",
+    upgrade: "Upgrade",
+    downgrade: "Downgrade",
+  };
 
   useEffect(() => {
     const loadScript = async () => {
@@ -77,39 +88,13 @@ export const AdminPayment = () => {
       console.log('Payment response:', paymentResponse);
       
       // Verify payment with backend
-      const { data, error: functionError } = await supabase.functions.invoke('verify-razorpay-payment', {
-        body: {
-          razorpay_order_id: paymentResponse.razorpay_order_id,
-          razorpay_payment_id: paymentResponse.razorpay_payment_id,
-          razorpay_signature: paymentResponse.razorpay_signature,
-          user_id: user.id,
-          plan_name: planName,
-          plan_id: planId
-        }
+      await verifyPlanPayment({
+        razorpay_order_id: paymentResponse.razorpay_order_id,
+        razorpay_payment_id: paymentResponse.razorpay_payment_id,
+        razorpay_signature: paymentResponse.razorpay_signature,
       });
 
-      if (functionError) {
-        console.error('Function error:', functionError);
-        throw new Error(functionError.message || "Payment verification failed");
-      }
-
-      if (!data?.success) {
-        throw new Error(data?.error || "Payment verification failed");
-      }
-
-      // Show success state
-      setPaymentSuccess(true);
-      setIsProcessing(false);
-
-      // Redirect after showing success
-      setTimeout(() => {
-        navigate("/dashboard", { 
-          state: { 
-            message: "Payment successful! Your subscription has been activated.",
-            type: "success"
-          }
-        });
-      }, 3000);
+      showSuccess();
     } catch (err: any) {
       console.error("Payment verification error:", err);
       setError("Payment completed but verification failed. Please contact support if your subscription is not activated.");
@@ -117,6 +102,21 @@ export const AdminPayment = () => {
     }
   };
 
+  const showSuccess = () => {
+    setPaymentSuccess(true);
+    setIsProcessing(false);
+
+    // Redirect after showing success
+    setTimeout(() => {
+      navigate("/dashboard", { 
+        state: { 
+          message: "Payment successful! Your subscription has been activated.",
+          type: "success"
+        }
+      });
+    }, 3000);
+  };
+
   // ✅ Handle payment failure
   const handlePaymentFailure = (error: any) => {
     console.error('Payment failed:', error);
@@ -131,41 +131,24 @@ export const AdminPayment = () => {
       return;
     }
 
-    if (!razorpayKey) {
-      setError("Razorpay is not configured. Please contact support.");
-      return;
-    }
-
     setIsProcessing(true);
     setError(null);
     
     try {
-      console.log('Creating order for:', { amount, planName, userId: user.id });
-      
-      // Use Supabase Edge Function
-      const { data, error: functionError } = await supabase.functions.invoke('create-razorpay-order', {
-        body: {
-          amount,
-          currency: "INR",
-          receipt: `sub_${planId}_${Date.now()}`,
-          notes: { plan: planName, userId: user.id },
-        }
-      });
-
-      if (functionError) {
-        console.error('Function error:', functionError);
-        throw new Error(functionError.message || "Failed to create order");
-      }
-
-      if (!data?.success) {
-        throw new Error(data?.error || "Failed to create order");
+      // The function prices the plan itself; the browser only names it
+      const checkout = await checkoutPlan(planName);
+      setQuote(checkout.quote);
+
+      // Credit from the current plan paid for all of it
+      if (!checkout.order) {
+        showSuccess();
+        return;
       }
 
-      const order = data.order;
-      console.log('Order created:', order);
+      const order = checkout.order;
 
       const options = {
-        key: razorpayKey,
+        key: order.key_id,
         amount: order.amount,
         currency: order.currency,
         name: "ConstructPro",
@@ -386,19 +369,42 @@ export const AdminPayment = () => {
                     <span className="text-gray-600">Plan</span>
                     <span className="font-semibold text-gray-800">{planName}</span>
                   </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-600">Duration</span>
-                    <span className="font-semibold text-gray-800">1 Month</span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-600">Subtotal</span>
-                    <span className="font-semibold text-gray-800">₹{(amount / 100).toFixed(2)}</span>
-                  </div>
+                  {quote && (
+                    <>
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Type</span>
+                        <span className="font-semibold text-gray-800">{changeLabels[quote.change]}</span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Period</span>
+                        <span className="font-semibold text-gray-800 text-right">
+                          {format(new Date(quote.start_date), "dd MMM yyyy")} – {format(new Date(quote.end_date), "dd MMM yyyy")}
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Plan price</span>
+                        <span className="font-semibold text-gray-800">₹{Number(quote.price).toFixed(2)}</span>
+                      </div>
+                      {Number(quote.credit) > 0 && (
+                        <div className="flex justify-between items-center">
+                          <span className="text-gray-600">Credit from current plan</span>
+                          <span className="font-semibold text-green-700">−₹{Number(quote.credit).toFixed(2)}</span>
+                        </div>
+                      )}
+                    </>
+                  )}
                   <div className="border-t pt-4">
                     <div className="flex justify-between items-center">
                       <span className="text-lg font-semibold text-gray-800">Total</span>
-                      <span className="text-2xl font-bold text-blue-600">₹{(amount / 100).toFixed(2)}</span>
+                      <span className="text-2xl font-bold text-blue-600">
+                        {quote ? `₹${Number(quote.amount_due).toFixed(2)}` : "—"}
+                      </span>
                     </div>
+                    {quote && Number(quote.credit) > Number(quote.price) && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Credit beyond the plan price lengthens the new period.
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -428,41 +434,12 @@ export const AdminPayment = () => {
                 <div className="bg-blue-50 rounded-xl p-4">
                   <h4 className="font-semibold text-gray-800 mb-3">What's included:</h4>
                   <ul className="space-y-2 text-sm text-gray-700">
-                    {planName.toLowerCase() === "basic" ? (
-                      <>
-                        <li className="flex items-center">
-                          <CheckCircle className="h-4 w-4 text-blue-500 mr-2" />
-                          Up to 5 projects
-                        </li>
-                        <li className="flex items-center">
-                          <CheckCircle className="h-4 w-4 text-blue-500 mr-2" />
-                          Basic reporting
-                        </li>
-                        <li className="flex items-center">
-                          <CheckCircle className="h-4 w-4 text-blue-500 mr-2" />
-                          Email support
-                        </li>
-                      </>
-                    ) : (
-                      <>
-                        <li className="flex items-center">
-                          <CheckCircle className="h-4 w-4 text-blue-500 mr-2" />
-                          Unlimited projects
-                        </li>
-                        <li className="flex items-center">
-                          <CheckCircle className="h-4 w-4 text-blue-500 mr-2" />
-                          Advanced analytics
-                        </li>
-                        <li className="flex items-center">
-                          <CheckCircle className="h-4 w-4 text-blue-500 mr-2" />
-                          Priority support
-                        </li>
-                        <li className="flex items-center">
-                          <CheckCircle className="h-4 w-4 text-blue-500 mr-2" />
-                          Custom integrations
-                        </li>
-                      </>
-                    )}
+                    {(plan?.features ?? []).map((feature) => (
+                      <li key={feature} className="flex items-center">
+                        <CheckCircle className="h-4 w-4 text-blue-500 mr-2" />
+                        {feature}
+                      </li>
+                    ))}
                   </ul>
                 </div>
               </div>
@@ -743,4 +720,4 @@ const NetBankingPayment = ({ initiatePayment }: { initiatePayment: (method: stri
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
\ No newline at end of file
@@ -96,7 +96,8 @@ export function Dashboard() {
 
       // Base queries with proper filtering
       let projectsQuery = supabase.from("projects").select("*");
-      let expensesQuery = supabase.from("expenses").select("*");
+      // Expenses awaiting approval stay out of the totals
+      let expensesQuery = supabase.from("expenses").select("*").eq("approved", true);
       let materialsQuery = supabase.from("materials").select("*");
       let teamMembersQuery = supabase.from("profiles").select("*");
 
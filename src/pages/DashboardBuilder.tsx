@@ -107,6 +107,14 @@ export function DashboardBuilder() {
       });
     }
 
+    if (permissions.includes('view_safety')) {
+      widgets.push({
+        name: 'Safety KPIs',
+        description: 'Days since last incident, open corrective actions',
+        color: 'green'
+      });
+    }
+
     return widgets;
   };
 
@@ -307,7 +315,8 @@ export function DashboardBuilder() {
                             'Expenses & Income': { value: '₹2,45,000', subtitle: 'This month' },
                             'Materials Inventory': { value: '45', subtitle: 'Items tracked' },
                             'Reports Dashboard': { value: '23', subtitle: 'Reports generated' },
-                            'Calendar Events': { value: '6', subtitle: 'Upcoming events' }
+                            'Calendar Events': { value: '6', subtitle: 'Upcoming events' },
+                            'Safety KPIs': { value: '42', subtitle: 'Days since last incident' }
                           };
 
                           const sampleData = sampleValues[widget.name] || { value: '--', subtitle: 'Sample data' };
@@ -1,8 +1,9 @@
 import React, { useEffect, useState } from "react";
-import { Search, Download, Eye, Upload, X, Trash2, AlertTriangle, FileText, Filter, Folder, Grid2x2 as Grid, List as ListIcon, CheckCircle, XCircle } from "lucide-react";
+import { Search, Download, Eye, Upload, X, Trash2, AlertTriangle, FileText, Filter, Folder, Grid2x2 as Grid, List as ListIcon, CheckCircle, XCircle, History, FileUp, RotateCcw } from "lucide-react";
 import { Layout } from "../components/Layout/Layout";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import { getPlanUsage, isPlanLimitError } from "../lib/repositories";
 import imageCompression from "browser-image-compression";
 
 type DocRecord = {
@@ -10,14 +11,19 @@ type DocRecord = {
   name: string;
   category?: string;
   project?: string;
+  project_id?: string | null;
   uploaded_by?: string;
   upload_date?: string;
   size?: string;
-  version?: string;
   type?: string;
   status?: string;
   file_path?: string;
   tags?: string[];
+  document_group_id: string;
+  revision: number;
+  is_current: boolean;
+  change_note?: string | null;
+  superseded_at?: string | null;
 };
 
 type Project = {
@@ -67,6 +73,9 @@ export function Documents() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [category, setCategory] = useState("");
   const [project, setProject] = useState("");
+  const [revisionOf, setRevisionOf] = useState<DocRecord | null>(null);
+  const [changeNote, setChangeNote] = useState("");
+  const [historyFor, setHistoryFor] = useState<DocRecord | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
 
   useEffect(() => {
@@ -83,6 +92,7 @@ export function Documents() {
     }, 3000);
   };
 
+  // Every revision is loaded: the list shows current ones, the history the rest
   async function fetchDocuments() {
     if (!user?.id) return;
 
@@ -132,7 +142,8 @@ export function Documents() {
       showNotification('error', 'Please select a file first');
       return;
     }
-    if (!category || !project) {
+    const selectedProject = projects.find((p) => p.id === project);
+    if (!revisionOf && (!category || !selectedProject)) {
       showNotification('error', 'Please select both a category and project');
       return;
     }
@@ -154,6 +165,19 @@ export function Documents() {
         fileToUpload = await imageCompression(selectedFile, options);
       }
 
+      // Check the plan's storage before uploading; the insert below enforces it too
+      const usage = await getPlanUsage();
+      if (
+        usage.max_storage_mb !== null &&
+        usage.storage_used_bytes + fileToUpload.size > usage.max_storage_mb * 1024 * 1024
+      ) {
+        showNotification(
+          'error',
+          `Your ${usage.plan_name} plan includes ${usage.max_storage_mb} MB of document storage. Upgrade your plan or delete documents to upload more.`
+        );
+        return;
+      }
+
       const fileExt = fileToUpload.name.split(".").pop();
       const fileName = `${Date.now()}.${fileExt}`;
       const filePath = `${userId}/${fileName}`;
@@ -168,11 +192,16 @@ export function Documents() {
         return;
       }
 
+      // A new revision joins its document's group; the database numbers it and
+      // supersedes the revision that was current
       const { error: insertError } = await supabase.from("documents").insert([
         {
           name: fileToUpload.name,
-          category,
-          project,
+          category: revisionOf ? revisionOf.category : category,
+          project: revisionOf ? revisionOf.project : selectedProject?.name,
+          project_id: revisionOf ? revisionOf.project_id : selectedProject?.id,
+          document_group_id: revisionOf?.document_group_id,
+          change_note: changeNote.trim() || null,
           uploaded_by: userId,
           file_path: filePath,
           size: `${(fileToUpload.size / 1024).toFixed(2)} KB`,
@@ -182,13 +211,14 @@ export function Documents() {
 
       if (insertError) {
         console.error("Failed to save document metadata:", insertError.message);
-        showNotification('error', 'Failed to save document metadata');
+        await supabase.storage.from("project-docs").remove([filePath]);
+        showNotification(
+          'error',
+          isPlanLimitError(insertError) ? insertError.message : 'Failed to save document metadata'
+        );
       } else {
-        showNotification('success', 'Document uploaded successfully!');
-        setSelectedFile(null);
-        setCategory("");
-        setProject("");
-        setShowUploadForm(false);
+        showNotification('success', revisionOf ? 'New revision uploaded successfully!' : 'Document uploaded successfully!');
+        closeUploadForm();
         fetchDocuments();
       }
     } catch (err) {
@@ -197,6 +227,33 @@ export function Documents() {
     }
   }
 
+  function closeUploadForm() {
+    setShowUploadForm(false);
+    setSelectedFile(null);
+    setCategory("");
+    setProject("");
+    setRevisionOf(null);
+    setChangeNote("");
+  }
+
+  function openRevisionUpload(document: DocRecord) {
+    setRevisionOf(document);
+    setShowUploadForm(true);
+  }
+
+  async function restoreRevision(revision: DocRecord) {
+    const { error } = await supabase.rpc("set_current_document_revision", { p_document_id: revision.id });
+
+    if (error) {
+      console.error("Error restoring revision:", error.message);
+      showNotification('error', `Failed to restore revision: ${error.message}`);
+      return;
+    }
+
+    showNotification('success', `Rev ${revision.revision} is now the current revision`);
+    fetchDocuments();
+  }
+
   async function handleDownload(filePath: string, fileName: string) {
     const { data, error } = await supabase.storage
       .from("project-docs")
@@ -215,6 +272,16 @@ export function Documents() {
     URL.revokeObjectURL(url);
   }
 
+  function getProjectName(document: DocRecord) {
+    return projects.find((p) => p.id === document.project_id)?.name || document.project;
+  }
+
+  function getRevisions(document: DocRecord) {
+    return documents
+      .filter((d) => d.document_group_id === document.document_group_id)
+      .sort((a, b) => b.revision - a.revision);
+  }
+
   function getUserName(userId?: string) {
     const user = users.find((u) => u.id === userId);
     return user?.full_name || user?.email || userId || "Unknown";
@@ -229,11 +296,16 @@ export function Documents() {
     try {
       console.log("Attempting to delete document:", document.id, document.name);
 
-      if (document.file_path) {
-        console.log("Deleting file from storage:", document.file_path);
+      // Deleting a document removes every revision of it
+      const filePaths = getRevisions(document)
+        .map((revision) => revision.file_path)
+        .filter((filePath): filePath is string => !!filePath);
+
+      if (filePaths.length > 0) {
+        console.log("Deleting files from storage:", filePaths);
         const { error: storageError } = await supabase.storage
           .from("project-docs")
-          .remove([document.file_path]);
+          .remove(filePaths);
 
         if (storageError) {
           console.warn("Storage deletion failed (continuing anyway):", storageError.message);
@@ -246,7 +318,7 @@ export function Documents() {
       const { error: dbError } = await supabase
         .from("documents")
         .delete()
-        .eq("id", document.id)
+        .eq("document_group_id", document.document_group_id)
         .eq("uploaded_by", user.id);
 
       if (dbError) {
@@ -259,7 +331,7 @@ export function Documents() {
 
       await fetchDocuments();
 
-      if (selectedDocument?.id === document.id) {
+      if (selectedDocument?.document_group_id === document.document_group_id) {
         setSelectedDocument(null);
       }
 
@@ -276,7 +348,7 @@ export function Documents() {
 
   const getHeaderSubtitle = () => {
     if (selectedDocument) {
-      return `${selectedDocument.name} - ${selectedDocument.category} - ${selectedDocument.project}`;
+      return `${selectedDocument.name} - ${selectedDocument.category} - ${getProjectName(selectedDocument)}`;
     }
     return undefined;
   };
@@ -295,8 +367,10 @@ export function Documents() {
     return colors[type || ''] || 'from-slate-500 to-slate-600';
   };
 
+  const currentDocuments = documents.filter((doc) => doc.is_current);
+
   const categories = constructionCategories.map(cat => {
-    const count = documents.filter(doc => doc.category === cat).length;
+    const count = currentDocuments.filter(doc => doc.category === cat).length;
     return {
       name: cat,
       count,
@@ -316,9 +390,9 @@ export function Documents() {
     }
   };
 
-  const filteredDocuments = documents.filter((doc) => {
+  const filteredDocuments = currentDocuments.filter((doc) => {
     const matchesSearch = doc.name?.toLowerCase().includes(search.toLowerCase()) ||
-                         doc.project?.toLowerCase().includes(search.toLowerCase()) ||
+                         getProjectName(doc)?.toLowerCase().includes(search.toLowerCase()) ||
                          getUserName(doc.uploaded_by).toLowerCase().includes(search.toLowerCase());
     const matchesCategory = categoryFilter === 'all' || doc.category === categoryFilter;
     const matchesType = typeFilter === 'all' || doc.type === typeFilter;
@@ -442,7 +516,7 @@ export function Documents() {
                 <p className="text-sm text-slate-600">Total Storage Used</p>
               </div>
               <div className="text-center">
-                <p className="text-2xl font-bold text-slate-900">{documents.length}</p>
+                <p className="text-2xl font-bold text-slate-900">{currentDocuments.length}</p>
                 <p className="text-sm text-slate-600">Total Documents</p>
               </div>
               <div className="text-center">
@@ -469,7 +543,7 @@ export function Documents() {
             <div className="px-6 py-4 border-b border-slate-200">
               <h3 className="text-lg font-semibold text-slate-900">Recent Documents</h3>
               <div className="flex items-center space-x-2">
-                <span className="text-sm text-slate-600">Showing {filteredDocuments.length} of {documents.length} documents</span>
+                <span className="text-sm text-slate-600">Showing {filteredDocuments.length} of {currentDocuments.length} documents</span>
               </div>
             </div>
 
@@ -488,11 +562,14 @@ export function Documents() {
                         {getFileIcon(document.type)}
                       </div>
                       <div className="flex-1">
-                        <h4 className="text-sm font-medium text-slate-900">{document.name}</h4>
+                        <div className="flex items-center space-x-2">
+                          <h4 className="text-sm font-medium text-slate-900">{document.name}</h4>
+                          <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded">Rev {document.revision}</span>
+                        </div>
                         <div className="flex items-center space-x-2 mt-1">
                           <span className="text-xs bg-slate-100 text-slate-600 px-2 py-1 rounded">{document.category}</span>
                           <span className="text-xs text-slate-500">•</span>
-                          <span className="text-xs text-slate-600">{document.project}</span>
+                          <span className="text-xs text-slate-600">{getProjectName(document)}</span>
                           <span className="text-xs text-slate-500">•</span>
                           <span className="text-xs text-slate-500">{document.size}</span>
                           <span className="text-xs text-slate-500">•</span>
@@ -530,6 +607,26 @@ export function Documents() {
                       >
                         <Download className="w-4 h-4" />
                       </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openRevisionUpload(document);
+                        }}
+                        className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                        title="Upload New Revision"
+                      >
+                        <FileUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setHistoryFor(document);
+                        }}
+                        className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                        title="Revision History"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -570,13 +667,13 @@ export function Documents() {
       {showUploadForm && (
         <div
           className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
-          onClick={(e) => handleModalBackdropClick(e, () => setShowUploadForm(false))}
+          onClick={(e) => handleModalBackdropClick(e, closeUploadForm)}
         >
           <div className="bg-white rounded-lg shadow-lg w-full max-w-md p-6 relative max-h-[90vh] overflow-y-auto">
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-lg font-semibold">Upload Document</h2>
+              <h2 className="text-lg font-semibold">{revisionOf ? "Upload New Revision" : "Upload Document"}</h2>
               <button
-                onClick={() => setShowUploadForm(false)}
+                onClick={closeUploadForm}
                 className="text-slate-500 hover:text-slate-700"
               >
                 <X className="h-5 w-5" />
@@ -592,40 +689,64 @@ export function Documents() {
                   className="border border-slate-300 px-3 py-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
-              <div>
-                <label className="block font-medium text-slate-700 mb-1">Category</label>
-                <select
-                  className="border border-slate-300 px-3 py-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  value={category}
-                  onChange={(e) => setCategory(e.target.value)}
-                >
-                  <option value="">Select Category</option>
-                  {constructionCategories.map((cat) => (
-                    <option key={cat} value={cat}>
-                      {cat}
-                    </option>
-                  ))}
-                </select>
-              </div>
-              <div>
-                <label className="block font-medium text-slate-700 mb-1">Project</label>
-                <select
-                  className="border border-slate-300 px-3 py-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  value={project}
-                  onChange={(e) => setProject(e.target.value)}
-                >
-                  <option value="">Select Project</option>
-                  {projects.map((proj) => (
-                    <option key={proj.id} value={proj.name}>
-                      {proj.name}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              {revisionOf ? (
+                <>
+                  <div className="bg-slate-50 rounded-lg p-3 text-sm text-slate-600">
+                    <p className="font-medium text-slate-900">{revisionOf.name}</p>
+                    <p>
+                      {revisionOf.category} • {getProjectName(revisionOf)} • currently Rev {revisionOf.revision}
+                    </p>
+                    <p className="mt-1">Earlier revisions are kept and marked superseded.</p>
+                  </div>
+                  <div>
+                    <label className="block font-medium text-slate-700 mb-1">Change Note</label>
+                    <textarea
+                      value={changeNote}
+                      onChange={(e) => setChangeNote(e.target.value)}
+                      rows={3}
+                      placeholder="What changed in this revision?"
+                      className="border border-slate-300 px-3 py-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                <div>
+                  <label className="block font-medium text-slate-700 mb-1">Category</label>
+                  <select
+                    className="border border-slate-300 px-3 py-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                  >
+                    <option value="">Select Category</option>
+                    {constructionCategories.map((cat) => (
+                      <option key={cat} value={cat}>
+                        {cat}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block font-medium text-slate-700 mb-1">Project</label>
+                  <select
+                    className="border border-slate-300 px-3 py-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    value={project}
+                    onChange={(e) => setProject(e.target.value)}
+                  >
+                    <option value="">Select Project</option>
+                    {projects.map((proj) => (
+                      <option key={proj.id} value={proj.id}>
+                        {proj.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                </>
+              )}
               <div className="flex justify-end gap-2 mt-4">
                 <button
                   className="px-4 py-2 bg-slate-200 rounded-lg hover:bg-slate-300 transition-colors"
-                  onClick={() => setShowUploadForm(false)}
+                  onClick={closeUploadForm}
                 >
                   Cancel
                 </button>
@@ -633,7 +754,7 @@ export function Documents() {
                   className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
                   onClick={handleUpload}
                 >
-                  Upload Document
+                  {revisionOf ? "Upload Revision" : "Upload Document"}
                 </button>
               </div>
             </div>
@@ -641,6 +762,83 @@ export function Documents() {
         </div>
       )}
 
+      {historyFor && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => handleModalBackdropClick(e, () => setHistoryFor(null))}
+        >
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-3xl p-6 relative max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h2 className="text-lg font-semibold">Revision History</h2>
+                <p className="text-sm text-slate-600">
+                  {historyFor.category} • {getProjectName(historyFor)}
+                </p>
+              </div>
+              <button
+                onClick={() => setHistoryFor(null)}
+                className="text-slate-500 hover:text-slate-700"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-3">Rev</th>
+                  <th className="py-2 pr-3">File</th>
+                  <th className="py-2 pr-3">Uploaded By</th>
+                  <th className="py-2 pr-3">Date</th>
+                  <th className="py-2 pr-3">Change Note</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {getRevisions(historyFor).map((revision) => (
+                  <tr key={revision.id} className={revision.is_current ? "bg-green-50" : ""}>
+                    <td className="py-2 pr-3 font-medium text-slate-900">
+                      {revision.revision}
+                      {revision.is_current ? (
+                        <span className="ml-2 text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">Current</span>
+                      ) : (
+                        <span className="ml-2 text-xs bg-slate-100 text-slate-500 px-2 py-0.5 rounded">Superseded</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-slate-700">{revision.name}</td>
+                    <td className="py-2 pr-3 text-slate-600">{getUserName(revision.uploaded_by)}</td>
+                    <td className="py-2 pr-3 text-slate-600">
+                      {revision.upload_date ? new Date(revision.upload_date).toLocaleDateString() : 'Unknown date'}
+                    </td>
+                    <td className="py-2 pr-3 text-slate-600">{revision.change_note || "—"}</td>
+                    <td className="py-2">
+                      <div className="flex items-center justify-end space-x-1">
+                        <button
+                          onClick={() => handleDownload(revision.file_path || "", revision.name || "")}
+                          className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                          title="Download"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                        {!revision.is_current && (
+                          <button
+                            onClick={() => restoreRevision(revision)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            title="Make Current"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {showDeleteConfirm && documentToDelete && (
         <div
           className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
@@ -661,8 +859,9 @@ export function Documents() {
 
             <div className="mb-6">
               <p className="text-sm text-slate-500">
-                Are you sure you want to delete the document "{documentToDelete.name}"?
-                This will permanently remove the file from storage and cannot be undone.
+                Are you sure you want to delete the document "{documentToDelete.name}"
+                {getRevisions(documentToDelete).length > 1 && ` and all ${getRevisions(documentToDelete).length} of its revisions`}?
+                This will permanently remove the files from storage and cannot be undone.
               </p>
             </div>
 
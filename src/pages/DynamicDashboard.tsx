@@ -2,7 +2,8 @@ import React, { useEffect, useState } from 'react';
 import { Layout } from '../components/Layout/Layout';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { FolderOpen, Layers, IndianRupee, Package, TrendingUp, TrendingDown, Clock, CircleCheck as CheckCircle, CircleAlert as AlertCircle, FileText, Calendar, Users } from 'lucide-react';
+import { listProjectOptions, listTasksForProjects, isTaskOverdue, getSafetyKpis } from '../lib/repositories';
+import { FolderOpen, Layers, IndianRupee, Package, TrendingUp, TrendingDown, Clock, CircleCheck as CheckCircle, CircleAlert as AlertCircle, FileText, Calendar, Users, ShieldCheck } from 'lucide-react';
 
 interface DashboardWidget {
   id: string;
@@ -68,7 +69,8 @@ export function DynamicDashboard() {
           'view_materials',
           'view_reports',
           'view_calendar',
-          'view_users'
+          'view_users',
+          'view_safety'
         ]);
         setLoading(false);
         return;
@@ -194,13 +196,37 @@ export function DynamicDashboard() {
         });
 
         setStats(prev => ({ ...prev, activePhases }));
+
+        // Pending tasks on the same projects as the phases above
+        const taskProjectIds = userRole === 'Admin' && user
+          ? (await listProjectOptions(user.id).catch(() => [])).map(p => p.id)
+          : assignedProjectId ? [assignedProjectId] : [];
+        const tasks = await listTasksForProjects(taskProjectIds).catch(() => []);
+        const pendingTasks = tasks.filter(t => t.status !== 'completed').length;
+        const overdueTasks = tasks.filter(t => isTaskOverdue(t)).length;
+
+        dashboardWidgets.push({
+          id: 'tasks',
+          title: 'Pending Tasks',
+          icon: Clock,
+          permission: 'view_phases',
+          type: 'stat',
+          data: {
+            value: pendingTasks,
+            subtitle: overdueTasks > 0 ? `${overdueTasks} overdue` : 'None overdue',
+            color: overdueTasks > 0 ? 'red' : 'purple'
+          }
+        });
+
+        setStats(prev => ({ ...prev, pendingTasks }));
       }
 
       // Expenses Widget - only for assigned project
       if (hasPermission('view_expenses')) {
         let expensesQuery = supabase
           .from('expenses')
-          .select('amount, type, project_id');
+          .select('amount, type, project_id')
+          .eq('approved', true);
 
         if (userRole !== 'Admin' && assignedProjectId) {
           expensesQuery = expensesQuery.eq('project_id', assignedProjectId);
@@ -283,6 +309,31 @@ export function DynamicDashboard() {
         setStats(prev => ({ ...prev, materialsCount: materials?.length || 0 }));
       }
 
+      // Safety KPIs across the same projects as the tasks widget
+      if (hasPermission('view_safety')) {
+        const safetyProjectIds = userRole === 'Admin' && user
+          ? (await listProjectOptions(user.id).catch(() => [])).map(p => p.id)
+          : assignedProjectId ? [assignedProjectId] : [];
+        const safety = await getSafetyKpis(safetyProjectIds).catch(() => null);
+
+        if (safety) {
+          dashboardWidgets.push({
+            id: 'safety',
+            title: 'Days Since Last Incident',
+            icon: ShieldCheck,
+            permission: 'view_safety',
+            type: 'stat',
+            data: {
+              value: safety.daysSinceLastIncident ?? '-',
+              subtitle: safety.openActions > 0
+                ? `${safety.openActions} open corrective action${safety.openActions === 1 ? '' : 's'}${safety.overdueActions > 0 ? `, ${safety.overdueActions} overdue` : ''}`
+                : 'No open corrective actions',
+              color: safety.overdueActions > 0 ? 'red' : 'green'
+            }
+          });
+        }
+      }
+
       console.log('Dashboard widgets loaded:', dashboardWidgets.length);
       setWidgets(dashboardWidgets);
     } catch (error) {
@@ -3,7 +3,34 @@ import { Plus, Search, X, Trash, CreditCard as Edit2, TrendingUp, TrendingDown,
 import { Layout } from "../components/Layout/Layout";
 import { supabase } from "../lib/supabase";
 import { format } from "date-fns";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
+import {
+  listProjectOptions,
+  listPhaseOptions,
+  listTransactionsForProjects,
+  createTransactions,
+  updateTransaction,
+  deleteTransaction,
+  listVendors,
+  matchVendor,
+  getBudgetVariance,
+  budgetWarning,
+  reviewExpense,
+  listExpenseApprovals,
+  listPaymentLinks,
+  createPaymentLink,
+  ExpenseApprovalWithNames,
+  ExpenseInput,
+} from "../lib/repositories";
+import type { ExpenseApprovalStatus, PaymentLink, PaymentLinkStatus, Vendor } from "../types";
+import { VendorPicker } from "../components/Vendors/VendorPicker";
+import {
+  EXPENSE_CATEGORY_OPTIONS,
+  INCOME_CATEGORY_OPTIONS,
+  PAYMENT_OPTIONS,
+} from "../components/Expenses/expenseCategories";
+import { ApprovalRules } from "../components/Expenses/ApprovalRules";
 import Papa from "papaparse";
 import { downloadCSVTemplate, parseCSVFile, validateCSVData, mapCSVRowsToExpenses, ValidationError } from "../lib/csvUtils";
 import {
@@ -16,8 +43,6 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
-import jsPDF from 'jspdf';
-import 'jspdf-autotable';
 
 interface Transaction {
   id: string;
@@ -35,12 +60,14 @@ interface Transaction {
   source: string | null;
   custom_category: string | null;
   created_at: string;
-  created_by: string;
+  created_by: string | null;
   project_id: string;
   reference_id: string | null;
   description: string | null;
   tags: string | null;
   vendor_name?: string;
+  vendor_id: string | null;
+  approval_status: ExpenseApprovalStatus;
 }
 
 interface Phase {
@@ -61,67 +88,18 @@ interface ChartData {
   income: number;
 }
 
-interface PaymentLink {
-  id: string;
-  business_name: string;
-  product_name: string;
-  amount: number;
-  quantity: number;
-  description: string;
-  gst_number: string;
-  gst_rate: number;
-  razorpay_link_id: string;
-  razorpay_link_url: string;
-  razorpay_qr_code?: string;
-  status: 'active' | 'inactive';
-  payment_status: 'pending' | 'paid' | 'failed';
-  created_at: string;
-  updated_at: string;
-}
-
-const EXPENSE_CATEGORY_OPTIONS = [
-  "Labour",
-  "Materials",
-  "Machinery",
-  "Vendor Payment",
-  "Consultancy Fees",
-  "Government Fees",
-  "Electrical",
-  "Plumbing",
-  "Painting",
-  "Tiles & Flooring",
-  "Carpentry & Woodwork",
-  "Site Expenses",
-  "Transport",
-  "Miscellaneous",
-  "Other",
-];
-
-const INCOME_CATEGORY_OPTIONS = [
-  "Client Payment",
-  "Advance Payment",
-  "Milestone Payment",
-  "Final Payment",
-  "Additional Work Payment",
-  "Material Refund",
-  "Insurance Claim",
-  "Government Subsidy",
-  "Loan Disbursement",
-  "Other Income",
-  "Other",
-];
-
-const PAYMENT_OPTIONS = ["Cash", "UPI", "Card", "Bank Transfer", "Cheque"];
-
-// Razorpay configuration
-const RAZORPAY_KEY_ID = import.meta.env.VITE_RAZORPAY_KEY_ID;
-const RAZORPAY_KEY_SECRET = import.meta.env.VITE_RAZORPAY_KEY_SECRET;
+const APPROVAL_BADGES: Record<Exclude<ExpenseApprovalStatus, 'approved'>, { label: string; className: string }> = {
+  pending: { label: 'Pending approval', className: 'bg-yellow-100 text-yellow-800' },
+  rejected: { label: 'Rejected', className: 'bg-gray-200 text-gray-700' },
+};
 
 export function Expenses() {
-  const { user } = useAuth();
+  const { user, userRole, permissions } = useAuth();
+  const navigate = useNavigate();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [phases, setPhases] = useState<Phase[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
   const [paymentLinks, setPaymentLinks] = useState<PaymentLink[]>([]);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [search, setSearch] = useState("");
@@ -149,12 +127,18 @@ export function Expenses() {
     includeGst: false,
     gstAmount: "",
     source: "",
+    vendorId: "",
     customCategory: "",
     referenceId: "",
     description: "",
     tags: "",
   });
   const [paymentLinkData, setPaymentLinkData] = useState({
+    projectId: "",
+    phaseId: "",
+    customerName: "",
+    customerEmail: "",
+    customerPhone: "",
     businessName: "",
     productName: "",
     amount: "",
@@ -174,11 +158,20 @@ export function Expenses() {
   const [csvFile, setCsvFile] = useState<File | null>(null);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [validRowCount, setValidRowCount] = useState(0);
+  const [pendingOnly, setPendingOnly] = useState(false);
+  const [showApprovalRules, setShowApprovalRules] = useState(false);
+  const [approvalHistory, setApprovalHistory] = useState<ExpenseApprovalWithNames[]>([]);
   const itemsPerPage = 10;
 
+  const isAdmin = userRole === "Admin";
+  const canApprove = isAdmin || permissions.includes("approve_expenses");
+
   useEffect(() => {
     fetchProjects();
     fetchPaymentLinks();
+    listVendors()
+      .then(setVendors)
+      .catch((error) => console.error("Error fetching vendors:", error));
   }, []);
 
   useEffect(() => {
@@ -188,35 +181,38 @@ export function Expenses() {
     }
   }, [projects]);
 
-  async function fetchProjects() {
-    const { data, error } = await supabase
-      .from("projects")
-      .select("id, name")
-      .eq("created_by", user?.id);
+  useEffect(() => {
+    setApprovalHistory([]);
+    if (!detailsTransaction || detailsTransaction.type !== 'expense') return;
+    listExpenseApprovals(detailsTransaction.id)
+      .then(setApprovalHistory)
+      .catch((error) => console.error("Error fetching approval history:", error));
+  }, [detailsTransaction?.id]);
 
-    if (!error && data) setProjects(data);
+  async function fetchProjects() {
+    if (!user?.id) return;
+    try {
+      setProjects(await listProjectOptions(user.id));
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+    }
   }
 
   async function fetchPhases() {
     if (projects.length === 0) return;
 
-    const { data, error } = await supabase
-      .from("phases")
-      .select("id, name, project_id, projects (id, name)")
-      .in(
-        "project_id",
-        projects.map((p) => p.id)
-      );
-
-    if (!error && data) {
+    try {
+      const data = await listPhaseOptions(projects.map((p) => p.id));
       setPhases(
-        data.map((p: any) => ({
+        data.map((p) => ({
           id: p.id,
           name: p.name,
           project_id: p.project_id,
           project_name: p.projects?.name || "No Project",
         }))
       );
+    } catch (error) {
+      console.error("Error fetching phases:", error);
     }
   }
 
@@ -224,21 +220,10 @@ export function Expenses() {
     if (projects.length === 0) return;
     setLoading(true);
 
-    const { data, error } = await supabase
-      .from("expenses")
-      .select(
-        `id, phase_id, category, amount, gst_amount, date, payment_method, bill_path, type, source, reference_id, description, tags,
-        phases (id, name, project_id, projects (id, name))`
-      )
-      .in(
-        "project_id",
-        projects.map((p) => p.id)
-      )
-      .order("date", { ascending: false });
-
-    if (!error && data) {
+    try {
+      const data = await listTransactionsForProjects(projects.map((p) => p.id));
       setTransactions(
-        data.map((e: any) => ({
+        data.map((e) => ({
           id: e.id,
           phase_id: e.phase_id,
           category: e.category,
@@ -247,28 +232,35 @@ export function Expenses() {
           date: e.date,
           payment_method: e.payment_method,
           bill_path: e.bill_path,
+          bill_file: null,
           type: e.type || 'expense',
           phase_name: e.phases?.name || "No Phase",
           project_name: e.phases?.projects?.name || "No Project",
-          vendor_name: e.source,
+          source: e.source,
+          custom_category: e.custom_category,
+          created_at: e.created_at,
+          created_by: e.created_by,
+          project_id: e.project_id,
+          vendor_name: e.source || undefined,
+          vendor_id: e.vendor_id,
+          approval_status: e.approval_status,
           reference_id: e.reference_id,
           description: e.description,
           tags: e.tags,
         }))
       );
+    } catch (error) {
+      console.error("Error fetching transactions:", error);
     }
     setLoading(false);
   }
 
   async function fetchPaymentLinks() {
-    const { data, error } = await supabase
-      .from("payment_links")
-      .select("*")
-      .eq("created_by", user?.id)
-      .order("created_at", { ascending: false });
-
-    if (!error && data) {
-      setPaymentLinks(data);
+    if (!user) return;
+    try {
+      setPaymentLinks(await listPaymentLinks(user.id));
+    } catch (error) {
+      console.error("Error fetching payment links:", error);
     }
   }
 
@@ -342,12 +334,7 @@ export function Expenses() {
       const rows = await parseCSVFile(csvFile);
       const expenseData = mapCSVRowsToExpenses(rows, projects, phases, user?.id || '');
 
-      const { data, error } = await supabase
-        .from('expenses')
-        .insert(expenseData)
-        .select();
-
-      if (error) throw error;
+      const data = await createTransactions(expenseData);
 
       setSuccessMessage(`Successfully uploaded ${data.length} transactions!`);
       setCsvFile(null);
@@ -366,81 +353,47 @@ export function Expenses() {
     }
   };
 
-  // Create a simple payment link without Razorpay API (for testing)
-  const createSimplePaymentLink = async () => {
+  // The link is created at Razorpay; razorpay-webhook books the income once the client pays
+  const createRazorpayPaymentLink = async () => {
     setCreatingPaymentLink(true);
     try {
-      const baseAmount = parseFloat(paymentLinkData.amount);
-      const quantity = parseInt(paymentLinkData.quantity);
-      const gstRate = parseFloat(paymentLinkData.gstRate);
-      const gstAmount = paymentLinkData.includeGst ? baseAmount * quantity * (gstRate / 100) : 0;
-      const totalAmount = baseAmount * quantity + gstAmount;
-
-      // Generate a simple payment link ID and URL
-      const linkId = `pl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const paymentUrl = `${window.location.origin}/payment/${linkId}`;
-
-      // Generate QR Code URL
-      const qrCodeUrl = `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(paymentUrl)}`;
-
-      // Save to database
-      const { error } = await supabase.from('payment_links').insert([{
+      await createPaymentLink({
+        project_id: paymentLinkData.projectId,
+        phase_id: paymentLinkData.phaseId,
         business_name: paymentLinkData.businessName,
         product_name: paymentLinkData.productName,
-        amount: baseAmount,
-        quantity: quantity,
         description: paymentLinkData.description,
         gst_number: paymentLinkData.gstNumber,
-        gst_rate: parseFloat(paymentLinkData.gstRate),
-        razorpay_link_id: linkId,
-        razorpay_link_url: paymentUrl,
-        razorpay_qr_code: qrCodeUrl,
-        status: 'active',
-        payment_status: 'pending',
-        created_by: user?.id,
-      }]);
-
-      if (!error) {
-        fetchPaymentLinks();
-        setShowPaymentLinkForm(false);
-        resetPaymentLinkForm();
-        setSuccessMessage('Payment link created successfully!');
-        setTimeout(() => setSuccessMessage(null), 5000);
-      } else {
-        throw new Error('Failed to save payment link to database');
-      }
+        amount: parseFloat(paymentLinkData.amount),
+        quantity: parseInt(paymentLinkData.quantity),
+        gst_rate: paymentLinkData.includeGst ? parseFloat(paymentLinkData.gstRate) : 0,
+        customer: {
+          name: paymentLinkData.customerName || undefined,
+          email: paymentLinkData.customerEmail || undefined,
+          contact: paymentLinkData.customerPhone || undefined,
+        },
+      });
+      fetchPaymentLinks();
+      setShowPaymentLinkForm(false);
+      resetPaymentLinkForm();
+      setSuccessMessage('Payment link created successfully!');
+      setTimeout(() => setSuccessMessage(null), 5000);
     } catch (error) {
       console.error('Error creating payment link:', error);
-      setErrorMessage('Error creating payment link. Please try again.');
+      setErrorMessage(`Error creating payment link: ${error instanceof Error ? error.message : 'Please try again.'}`);
       setTimeout(() => setErrorMessage(null), 5000);
     } finally {
       setCreatingPaymentLink(false);
     }
   };
 
-  // Test payment function
-  const testPayment = async (linkId: string) => {
-    try {
-      // Simulate payment success
-      const { error } = await supabase
-        .from('payment_links')
-        .update({ payment_status: 'paid', updated_at: new Date().toISOString() })
-        .eq('razorpay_link_id', linkId);
-
-      if (!error) {
-        fetchPaymentLinks();
-        setSuccessMessage('Payment marked as successful!');
-        setTimeout(() => setSuccessMessage(null), 3000);
-      }
-    } catch (error) {
-      console.error('Error updating payment status:', error);
-      setErrorMessage('Error updating payment status');
-      setTimeout(() => setErrorMessage(null), 3000);
-    }
-  };
-
   const resetPaymentLinkForm = () => {
     setPaymentLinkData({
+      projectId: "",
+      phaseId: "",
+      customerName: "",
+      customerEmail: "",
+      customerPhone: "",
       businessName: "",
       productName: "",
       amount: "",
@@ -452,130 +405,6 @@ export function Expenses() {
     });
   };
 
-  // Generate Invoice PDF with better template
-  const generateInvoice = () => {
-    const doc = new jsPDF();
-    const currentDate = format(new Date(), "dd-MM-yyyy");
-    const baseAmount = parseFloat(paymentLinkData.amount || '0');
-    const quantity = parseInt(paymentLinkData.quantity || '1');
-    const gstRate = parseFloat(paymentLinkData.gstRate || '0');
-    const subtotal = baseAmount * quantity;
-    const gstAmount = paymentLinkData.includeGst ? subtotal * (gstRate / 100) : 0;
-    const totalAmount = subtotal + gstAmount;
-
-    // Header with company info
-    doc.setFontSize(22);
-    doc.setFont('helvetica', 'bold');
-    doc.text(paymentLinkData.businessName || 'Your Business Name', 20, 25);
-
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.text('Email: info@yourbusiness.com | Phone: +91 XXXXX XXXXX', 20, 35);
-    doc.text(`GST No: ${paymentLinkData.gstNumber || 'Not Provided'}`, 20, 42);
-
-    // Invoice title
-    doc.setFontSize(18);
-    doc.setFont('helvetica', 'bold');
-    doc.text('TAX INVOICE', 20, 60);
-
-    // Invoice details
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Invoice No: INV-${Date.now().toString().slice(-6)}`, 20, 75);
-    doc.text(`Invoice Date: ${currentDate}`, 20, 82);
-    doc.text(`Due Date: ${format(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), "dd-MM-yyyy")}`, 20, 89);
-
-    // Bill to section
-    doc.setFont('helvetica', 'bold');
-    doc.text('Bill To:', 20, 105);
-    doc.setFont('helvetica', 'normal');
-    doc.text('Customer Name', 20, 115);
-    doc.text('Customer Address', 20, 122);
-    doc.text('City, State, PIN Code', 20, 129);
-
-    // Table for items
-    const tableData = [];
-    const headers = ['Description', 'Unit Price', 'Qty', 'Amount'];
-
-    if (paymentLinkData.includeGst) {
-      headers.push('CGST', 'SGST', 'Total');
-      tableData.push([
-        paymentLinkData.productName || 'Product/Service',
-        `₹${baseAmount.toFixed(2)}`,
-        quantity.toString(),
-        `₹${subtotal.toFixed(2)}`,
-        `₹${(gstAmount / 2).toFixed(2)}`,
-        `₹${(gstAmount / 2).toFixed(2)}`,
-        `₹${totalAmount.toFixed(2)}`
-      ]);
-    } else {
-      headers.push('Total');
-      tableData.push([
-        paymentLinkData.productName || 'Product/Service',
-        `₹${baseAmount.toFixed(2)}`,
-        quantity.toString(),
-        `₹${subtotal.toFixed(2)}`,
-        `₹${totalAmount.toFixed(2)}`
-      ]);
-    }
-
-    // Generate table
-    (doc as any).autoTable({
-      startY: 145,
-      head: [headers],
-      body: tableData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [41, 128, 185],
-        textColor: 255,
-        fontSize: 10,
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 9,
-        cellPadding: 5
-      },
-      columnStyles: {
-        0: { cellWidth: 60 },
-        1: { cellWidth: 25, halign: 'right' },
-        2: { cellWidth: 15, halign: 'center' },
-        3: { cellWidth: 25, halign: 'right' },
-        4: { cellWidth: 20, halign: 'right' },
-        5: { cellWidth: 20, halign: 'right' },
-        6: { cellWidth: 25, halign: 'right' }
-      }
-    });
-
-    // Summary section
-    const finalY = (doc as any).lastAutoTable.finalY + 15;
-
-    // Totals
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Subtotal: ₹${subtotal.toFixed(2)}`, 140, finalY);
-
-    if (paymentLinkData.includeGst) {
-      doc.text(`CGST (${(gstRate / 2)}%): ₹${(gstAmount / 2).toFixed(2)}`, 140, finalY + 8);
-      doc.text(`SGST (${(gstRate / 2)}%): ₹${(gstAmount / 2).toFixed(2)}`, 140, finalY + 16);
-      doc.text(`Total GST: ₹${gstAmount.toFixed(2)}`, 140, finalY + 24);
-    }
-
-    // Draw line
-    doc.line(140, finalY + (paymentLinkData.includeGst ? 30 : 10), 190, finalY + (paymentLinkData.includeGst ? 30 : 10));
-
-    doc.setFont('helvetica', 'bold');
-    doc.setFontSize(12);
-    doc.text(`Total Amount: ₹${totalAmount.toFixed(2)}`, 140, finalY + (paymentLinkData.includeGst ? 40 : 20));
-
-    // Footer
-    doc.setFontSize(8);
-    doc.setFont('helvetica', 'normal');
-    doc.text('Thank you for your business!', 20, 270);
-    doc.text('Terms: Payment due within 30 days', 20, 275);
-
-    // Save the PDF
-    doc.save(`Invoice_${paymentLinkData.productName?.replace(/[^a-z0-9]/gi, '_') || 'invoice'}_${format(new Date(), 'yyyyMMdd')}.pdf`);
-  };
-
   const filteredPhases = phases.filter(
     (p) => !formData.projectId || p.project_id === formData.projectId
   );
@@ -615,7 +444,7 @@ export function Expenses() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const { projectId, phaseId, category, amount, paymentMethod, date, billFile, includeGst, gstAmount, source, customCategory, referenceId, description, tags } = formData;
+    const { projectId, phaseId, category, amount, paymentMethod, date, billFile, includeGst, gstAmount, source, vendorId, customCategory, referenceId, description, tags } = formData;
 
     // Use custom category if "Other" is selected and customCategory is provided
     const finalCategory = category === "Other" && customCategory ? customCategory : category;
@@ -626,6 +455,23 @@ export function Expenses() {
       return;
     }
 
+    if (formType === 'expense') {
+      const gross = parseFloat(amount) + (includeGst && gstAmount ? parseFloat(gstAmount) : 0);
+      // An edit replaces what the transaction already booked against the same line
+      const previous = transactions.find(
+        (t) => t.id === editingId && t.phase_id === phaseId && t.category === finalCategory && t.type === 'expense'
+      );
+      const additional = gross - (previous ? Number(previous.amount) + Number(previous.gst_amount || 0) : 0);
+
+      try {
+        const line = await getBudgetVariance(phaseId, finalCategory);
+        const warning = line && additional > 0 ? budgetWarning(line, additional) : null;
+        if (warning && !window.confirm(`${warning} Save anyway?`)) return;
+      } catch (error) {
+        console.error("Error checking budget:", error);
+      }
+    }
+
     let bill_path = null;
 
     if (billFile) {
@@ -643,7 +489,7 @@ export function Expenses() {
       bill_path = fileName;
     }
 
-    const payload = {
+    const payload: ExpenseInput = {
       project_id: projectId,
       phase_id: phaseId,
       category: finalCategory,
@@ -654,16 +500,24 @@ export function Expenses() {
       payment_method: paymentMethod,
       bill_path,
       type: formType,
-      created_by: user?.id,
+      created_by: user?.id || "",
       source: source || null,
+      vendor_id: formType === 'expense' && vendorId ? vendorId : null,
       reference_id: referenceId || null,
       description: description || null,
       tags: tags || null,
     };
 
-    const { error } = editingId
-      ? await supabase.from("expenses").update(payload).eq("id", editingId)
-      : await supabase.from("expenses").insert([payload]);
+    let error: Error | null = null;
+    try {
+      if (editingId) {
+        await updateTransaction(editingId, payload);
+      } else {
+        await createTransactions([payload]);
+      }
+    } catch (err) {
+      error = err as Error;
+    }
 
     if (error) {
       console.error("Error saving transaction:", error);
@@ -684,6 +538,7 @@ export function Expenses() {
         includeGst: false,
         gstAmount: "",
         source: "",
+        vendorId: "",
         customCategory: "",
         referenceId: "",
         description: "",
@@ -708,6 +563,10 @@ export function Expenses() {
       includeGst: (transaction.gst_amount || 0) > 0,
       gstAmount: (transaction.gst_amount || 0).toString(),
       source: transaction.vendor_name || "",
+      vendorId:
+        transaction.type === 'expense'
+          ? transaction.vendor_id || matchVendor(vendors, transaction.vendor_name)?.id || ""
+          : "",
       customCategory: "",
       referenceId: transaction.reference_id || "",
       description: transaction.description || "",
@@ -720,8 +579,11 @@ export function Expenses() {
 
   const handleDelete = async (id: string) => {
     if (window.confirm("Are you sure you want to delete this transaction?")) {
-      const { error } = await supabase.from("expenses").delete().eq("id", id);
-      if (!error) {
+      const deleted = await deleteTransaction(id).then(() => true, (error) => {
+        console.error("Error deleting transaction:", error);
+        return false;
+      });
+      if (deleted) {
         fetchTransactions();
         if (selectedTransaction?.id === id) {
           setSelectedTransaction(null);
@@ -735,6 +597,33 @@ export function Expenses() {
     }
   };
 
+  const handleReview = async (transaction: Transaction, decision: 'approved' | 'rejected') => {
+    const comment = window.prompt(
+      decision === 'rejected' ? "Why is this expense rejected?" : "Comment (optional)"
+    );
+    if (comment === null) return;
+    if (decision === 'rejected' && !comment.trim()) {
+      setErrorMessage("Add a comment explaining the rejection.");
+      setTimeout(() => setErrorMessage(null), 5000);
+      return;
+    }
+
+    try {
+      const status = await reviewExpense(transaction.id, decision, comment.trim() || undefined);
+      setSuccessMessage(
+        status === 'pending'
+          ? "Approved. The expense now waits for the next approver."
+          : `Expense ${status}.`
+      );
+      setTimeout(() => setSuccessMessage(null), 5000);
+      fetchTransactions();
+    } catch (error) {
+      console.error("Error reviewing expense:", error);
+      setErrorMessage(`Failed to review expense: ${error instanceof Error ? error.message : "Please try again."}`);
+      setTimeout(() => setErrorMessage(null), 5000);
+    }
+  };
+
   const openForm = (type: 'expense' | 'income') => {
     setFormType(type);
     setEditingId(null);
@@ -749,6 +638,7 @@ export function Expenses() {
       includeGst: false,
       gstAmount: "",
       source: "",
+      vendorId: "",
       customCategory: "",
       referenceId: "",
       description: "",
@@ -791,7 +681,9 @@ export function Expenses() {
       matchesDateRange = transactionDate <= to;
     }
 
-    return matchesProject && matchesSearch && matchesDateRange;
+    const matchesApproval = !pendingOnly || t.approval_status === 'pending';
+
+    return matchesProject && matchesSearch && matchesDateRange && matchesApproval;
   });
 
   const currentTransactions = filteredTransactions.slice(
@@ -801,11 +693,17 @@ export function Expenses() {
 
   const totalPages = Math.ceil(filteredTransactions.length / itemsPerPage);
 
-  // Calculate totals including GST
+  // Calculate totals including GST; expenses count once approved
   const totalExpenses = filteredTransactions
-    .filter(t => t.type === 'expense')
+    .filter(t => t.type === 'expense' && t.approval_status === 'approved')
     .reduce((sum, t) => sum + t.amount + (t.gst_amount || 0), 0);
 
+  const pendingExpenses = filteredTransactions
+    .filter(t => t.type === 'expense' && t.approval_status === 'pending')
+    .reduce((sum, t) => sum + t.amount + (t.gst_amount || 0), 0);
+
+  const pendingCount = transactions.filter(t => t.approval_status === 'pending').length;
+
   const totalIncome = filteredTransactions
     .filter(t => t.type === 'income')
     .reduce((sum, t) => sum + t.amount + (t.gst_amount || 0), 0);
@@ -814,7 +712,7 @@ export function Expenses() {
   const getChartData = (): ChartData[] => {
     const dataMap = new Map<string, { expense: number; income: number }>();
 
-    filteredTransactions.forEach((t) => {
+    filteredTransactions.filter((t) => t.approval_status === 'approved').forEach((t) => {
       const date = format(new Date(t.date), "MMM dd");
       if (!dataMap.has(date)) {
         dataMap.set(date, { expense: 0, income: 0 });
@@ -862,12 +760,16 @@ export function Expenses() {
   };
 
   // Get payment status icon and color
-  const getPaymentStatusDisplay = (status: string) => {
+  const getPaymentStatusDisplay = (status: PaymentLinkStatus) => {
     switch (status) {
       case 'paid':
         return { icon: CheckCircle, color: 'text-green-600', bg: 'bg-green-50', text: 'Paid' };
       case 'failed':
         return { icon: XCircle, color: 'text-red-600', bg: 'bg-red-50', text: 'Failed' };
+      case 'expired':
+        return { icon: Clock, color: 'text-gray-600', bg: 'bg-gray-100', text: 'Expired' };
+      case 'cancelled':
+        return { icon: XCircle, color: 'text-gray-600', bg: 'bg-gray-100', text: 'Cancelled' };
       default:
         return { icon: Clock, color: 'text-yellow-600', bg: 'bg-yellow-50', text: 'Pending' };
     }
@@ -907,6 +809,12 @@ export function Expenses() {
                   <TrendingDown className="w-4 h-4 text-red-600" />
                   <span className="text-red-600 font-medium">Expenses: ₹{totalExpenses.toFixed(2)}</span>
                 </div>
+                {pendingExpenses > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Clock className="w-4 h-4 text-yellow-600" />
+                    <span className="text-yellow-600 font-medium">Pending: ₹{pendingExpenses.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex items-center gap-2">
                   <span className={`font-medium ${totalIncome - totalExpenses >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                     Net: ₹{(totalIncome - totalExpenses).toFixed(2)}
@@ -967,12 +875,39 @@ export function Expenses() {
               >
                 <LinkIcon className="mr-2" size={18} /> Payment Link
               </button>
+              {(isAdmin || permissions.includes("view_invoices")) && (
+                <button
+                  onClick={() => navigate("/invoices")}
+                  className="flex items-center bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 transition-colors"
+                >
+                  <FileText className="mr-2" size={18} /> Invoices
+                </button>
+              )}
               <button
                 onClick={() => setShowPaymentLinksTable(true)}
                 className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
               >
                 <Eye className="mr-2" size={18} /> View Links ({paymentLinks.length})
               </button>
+              <button
+                onClick={() => {
+                  setPendingOnly(!pendingOnly);
+                  setCurrentPage(1);
+                }}
+                className={`flex items-center px-4 py-2 rounded-lg transition-colors ${
+                  pendingOnly ? 'bg-yellow-600 text-white hover:bg-yellow-700' : 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                }`}
+              >
+                <Clock className="mr-2" size={18} /> Approvals ({pendingCount})
+              </button>
+              {isAdmin && (
+                <button
+                  onClick={() => setShowApprovalRules(true)}
+                  className="flex items-center bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+                >
+                  <CheckCircle className="mr-2" size={18} /> Approval Rules
+                </button>
+              )}
             </div>
             <div className="flex gap-2">
               <button
@@ -1120,6 +1055,11 @@ export function Expenses() {
                           }`}>
                             {t.type === 'income' ? 'Income' : 'Expense'}
                           </span>
+                          {t.approval_status !== 'approved' && (
+                            <span className={`block mt-1 px-2 py-0.5 rounded-full text-xs font-medium w-fit ${APPROVAL_BADGES[t.approval_status].className}`}>
+                              {APPROVAL_BADGES[t.approval_status].label}
+                            </span>
+                          )}
                         </td>
                         <td className="p-3 text-gray-900">{t.project_name}</td>
                         <td className="p-3 text-gray-900">{t.phase_name}</td>
@@ -1150,6 +1090,30 @@ export function Expenses() {
                         </td>
                         <td className="p-3">
                           <div className="flex gap-2">
+                            {canApprove && t.approval_status === 'pending' && (
+                              <>
+                                <button
+                                  onClick={(event) => {
+                                    event.stopPropagation();
+                                    handleReview(t, 'approved');
+                                  }}
+                                  className="text-green-600 hover:text-green-800 p-1 rounded transition-colors"
+                                  title="Approve"
+                                >
+                                  <CheckCircle size={18} />
+                                </button>
+                                <button
+                                  onClick={(event) => {
+                                    event.stopPropagation();
+                                    handleReview(t, 'rejected');
+                                  }}
+                                  className="text-red-600 hover:text-red-800 p-1 rounded transition-colors"
+                                  title="Reject"
+                                >
+                                  <XCircle size={18} />
+                                </button>
+                              </>
+                            )}
                             <button
                               onClick={(event) => {
                                 event.stopPropagation();
@@ -1230,6 +1194,11 @@ export function Expenses() {
                               }`}>
                                 {t.type === 'expense' ? 'Expense' : 'Income'}
                               </span>
+                              {t.approval_status !== 'approved' && (
+                                <span className={`px-2 py-1 rounded-full text-xs font-medium ${APPROVAL_BADGES[t.approval_status].className}`}>
+                                  {APPROVAL_BADGES[t.approval_status].label}
+                                </span>
+                              )}
                               <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                                 {t.category}
                               </span>
@@ -1299,6 +1268,28 @@ export function Expenses() {
 
                         {/* Action Buttons */}
                         <div className="flex justify-end gap-2 mt-4 pt-3 border-t border-gray-100">
+                          {canApprove && t.approval_status === 'pending' && (
+                            <>
+                              <button
+                                onClick={(event) => {
+                                  event.stopPropagation();
+                                  handleReview(t, 'approved');
+                                }}
+                                className="flex items-center text-green-600 hover:text-green-800 px-2 py-1 rounded text-sm transition-colors"
+                              >
+                                <CheckCircle size={16} className="mr-1" /> Approve
+                              </button>
+                              <button
+                                onClick={(event) => {
+                                  event.stopPropagation();
+                                  handleReview(t, 'rejected');
+                                }}
+                                className="flex items-center text-red-600 hover:text-red-800 px-2 py-1 rounded text-sm transition-colors"
+                              >
+                                <XCircle size={16} className="mr-1" /> Reject
+                              </button>
+                            </>
+                          )}
                           <button
                             onClick={(event) => {
                               event.stopPropagation();
@@ -1514,6 +1505,37 @@ export function Expenses() {
                 </div>
               )}
 
+              {/* Approval */}
+              {detailsTransaction.type === 'expense' && (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="text-sm text-gray-600 mb-2">
+                    Approval:{" "}
+                    <span className="font-semibold text-gray-900">
+                      {detailsTransaction.approval_status === 'approved'
+                        ? 'Approved'
+                        : APPROVAL_BADGES[detailsTransaction.approval_status].label}
+                    </span>
+                  </p>
+                  {approvalHistory.length > 0 ? (
+                    <ul className="space-y-2">
+                      {approvalHistory.map((entry) => (
+                        <li key={entry.id} className="text-sm">
+                          <span className={entry.decision === 'approved' ? 'text-green-700' : 'text-red-700'}>
+                            {entry.decision === 'approved' ? 'Approved' : 'Rejected'}
+                          </span>{" "}
+                          by {entry.profiles?.full_name || entry.profiles?.email || 'Unknown'}
+                          {entry.roles && ` (${entry.roles.role_name})`} on{" "}
+                          {format(new Date(entry.decided_at), "dd MMM yyyy")}
+                          {entry.comment && <p className="text-gray-600 italic">"{entry.comment}"</p>}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">No approval decisions recorded</p>
+                  )}
+                </div>
+              )}
+
               {/* Bill/Receipt */}
               <div className="bg-yellow-50 p-4 rounded-lg">
                 <p className="text-sm text-gray-600 mb-2">
@@ -1644,13 +1666,25 @@ export function Expenses() {
                 </div>
                 <div>
                   <label className="block font-medium text-gray-700 mb-1">Vendor</label>
-                  <input
-                    type="text"
-                    className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Enter vendor name"
-                    value={formData.source}
-                    onChange={(e) => handleChange("source", e.target.value)}
-                  />
+                  {formType === 'expense' ? (
+                    <VendorPicker
+                      vendors={vendors}
+                      value={formData.vendorId}
+                      unlinkedName={formData.vendorId ? undefined : formData.source}
+                      onChange={(vendor) =>
+                        setFormData((prev) => ({ ...prev, vendorId: vendor?.id || "", source: vendor?.name || prev.source }))
+                      }
+                      className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  ) : (
+                    <input
+                      type="text"
+                      className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Enter vendor name"
+                      value={formData.source}
+                      onChange={(e) => handleChange("source", e.target.value)}
+                    />
+                  )}
                 </div>
                 <div>
                   <label className="block font-medium text-gray-700 mb-1">Reference ID</label>
@@ -1877,6 +1911,76 @@ export function Expenses() {
               </button>
             </div>
             <div className="space-y-4">
+              <div className="bg-purple-50 p-4 rounded-lg">
+                <h3 className="font-medium text-gray-700 mb-2">Record Payment Against</h3>
+                <div className="grid grid-cols-1 gap-4">
+                  <div>
+                    <label className="block font-medium text-gray-700 mb-1">
+                      Project <span className="text-red-500">*</span>
+                    </label>
+                    <select
+                      className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      value={paymentLinkData.projectId}
+                      onChange={(e) => setPaymentLinkData((prev) => ({ ...prev, projectId: e.target.value, phaseId: "" }))}
+                    >
+                      <option value="">Select project</option>
+                      {projects.map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block font-medium text-gray-700 mb-1">
+                      Phase <span className="text-red-500">*</span>
+                    </label>
+                    <select
+                      className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      value={paymentLinkData.phaseId}
+                      onChange={(e) => handlePaymentLinkChange("phaseId", e.target.value)}
+                      disabled={!paymentLinkData.projectId}
+                    >
+                      <option value="">Select phase</option>
+                      {phases
+                        .filter((p) => p.project_id === paymentLinkData.projectId)
+                        .map((p) => (
+                          <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                    </select>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    The payment is added to this phase as income once the client pays. To collect an invoice, use
+                    the Payment Link action on the Invoices page.
+                  </p>
+                </div>
+              </div>
+
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h3 className="font-medium text-gray-700 mb-2">Client (Optional)</h3>
+                <div className="grid grid-cols-1 gap-4">
+                  <input
+                    type="text"
+                    placeholder="Client name"
+                    className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    value={paymentLinkData.customerName}
+                    onChange={(e) => handlePaymentLinkChange("customerName", e.target.value)}
+                  />
+                  <input
+                    type="email"
+                    placeholder="Email, to send the link"
+                    className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    value={paymentLinkData.customerEmail}
+                    onChange={(e) => handlePaymentLinkChange("customerEmail", e.target.value)}
+                  />
+                  <input
+                    type="tel"
+                    placeholder="Mobile, to send the link by SMS"
+                    className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    value={paymentLinkData.customerPhone}
+                    onChange={(e) => handlePaymentLinkChange("customerPhone", e.target.value)}
+                  />
+                </div>
+              </div>
+
               <div className="bg-blue-50 p-4 rounded-lg">
                 <h3 className="font-medium text-gray-700 mb-2">Business Information</h3>
                 <div className="grid grid-cols-1 gap-4">
@@ -2046,16 +2150,14 @@ export function Expenses() {
                   Cancel
                 </button>
                 <button
-                  onClick={generateInvoice}
-                  disabled={!paymentLinkData.productName || !paymentLinkData.amount}
-                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  <FileText className="mr-2 inline" size={16} />
-                  Generate Invoice
-                </button>
-                <button
-                  onClick={createSimplePaymentLink}
-                  disabled={!paymentLinkData.productName || !paymentLinkData.amount || creatingPaymentLink}
+                  onClick={createRazorpayPaymentLink}
+                  disabled={
+                    !paymentLinkData.projectId ||
+                    !paymentLinkData.phaseId ||
+                    !paymentLinkData.productName ||
+                    !paymentLinkData.amount ||
+                    creatingPaymentLink
+                  }
                   className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   {creatingPaymentLink ? (
@@ -2134,6 +2236,11 @@ export function Expenses() {
                               <StatusIcon size={16} />
                               {statusDisplay.text}
                             </div>
+                            {link.paid_at && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                ₹{Number(link.amount_paid).toFixed(2)} on {format(new Date(link.paid_at), "dd/MM/yyyy")}
+                              </div>
+                            )}
                           </td>
                           <td className="p-3 text-gray-900">
                             {format(new Date(link.created_at), "dd/MM/yyyy")}
@@ -2160,15 +2267,6 @@ export function Expenses() {
                                   <QrCode size={16} />
                                 </a>
                               )}
-                              {link.payment_status === 'pending' && (
-                                <button
-                                  onClick={() => testPayment(link.razorpay_link_id)}
-                                  className="text-green-600 hover:text-green-800 p-1 rounded transition-colors"
-                                  title="Test Payment (Mark as Paid)"
-                                >
-                                  <CheckCircle size={16} />
-                                </button>
-                              )}
                             </div>
                           </td>
                         </tr>
@@ -2200,6 +2298,10 @@ export function Expenses() {
         </div>
       )}
 
+      {showApprovalRules && (
+        <ApprovalRules projects={projects} onClose={() => setShowApprovalRules(false)} />
+      )}
+
       {/* Bulk Upload Modal */}
       {showBulkUploadModal && (
         <div
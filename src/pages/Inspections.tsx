@@ -0,0 +1,966 @@
+import { useState, useEffect } from "react";
+import { ClipboardCheck, Plus, Edit, Trash2, X, Camera, Download, FileCheck, CheckCircle, XCircle, MinusCircle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import jsPDF from "jspdf";
+import "jspdf-autotable";
+import imageCompression from "browser-image-compression";
+import { Layout } from "../components/Layout/Layout";
+import { useAuth } from "../contexts/AuthContext";
+import { SignaturePad } from "../components/Inspections/SignaturePad";
+import { starterTemplates } from "../components/Inspections/starterTemplates";
+import {
+  listProjectOptions,
+  listProjectPhases,
+  listInspectionTemplates,
+  saveInspectionTemplate,
+  deleteInspectionTemplate,
+  listInspections,
+  createInspection,
+  updateInspection,
+  updateInspectionItem,
+  deleteInspection,
+  uploadInspectionPhoto,
+  deleteInspectionPhoto,
+  completeInspection,
+  saveInspectionReport,
+  summariseInspection,
+  isPlanLimitError,
+  InspectionSignOff,
+  InspectionTemplateWithItems,
+  InspectionWithDetails,
+  InspectionItemWithDetails,
+  ProjectOption,
+} from "../lib/repositories";
+import type { InspectionPhoto, InspectionResult, ProjectPhase } from "../types";
+
+type InspectionsTab = "inspections" | "templates";
+
+const RESULT_BUTTONS: { result: InspectionResult; label: string; icon: typeof CheckCircle; active: string }[] = [
+  { result: "pass", label: "Pass", icon: CheckCircle, active: "bg-green-600 text-white border-green-600" },
+  { result: "fail", label: "Fail", icon: XCircle, active: "bg-red-600 text-white border-red-600" },
+  { result: "na", label: "N/A", icon: MinusCircle, active: "bg-gray-600 text-white border-gray-600" },
+];
+
+const RESULT_LABELS: Record<InspectionResult, string> = { pass: "Pass", fail: "Fail", na: "N/A" };
+
+const emptyTemplateForm = { name: "", description: "", items: "" };
+
+export function Inspections() {
+  const { user, userRole, permissions } = useAuth();
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [inspections, setInspections] = useState<InspectionWithDetails[]>([]);
+  const [templates, setTemplates] = useState<InspectionTemplateWithItems[]>([]);
+  const [tab, setTab] = useState<InspectionsTab>("inspections");
+  const [loading, setLoading] = useState(false);
+
+  const [showNewInspection, setShowNewInspection] = useState(false);
+  const [newInspection, setNewInspection] = useState({ phase_id: "", template_id: "", scheduled_date: "" });
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [uploadingItemId, setUploadingItemId] = useState<string | null>(null);
+
+  const [showTemplateForm, setShowTemplateForm] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<InspectionTemplateWithItems | null>(null);
+  const [templateForm, setTemplateForm] = useState(emptyTemplateForm);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+
+  const isAdmin = userRole === "Admin";
+  const canConduct = isAdmin || permissions.includes("conduct_inspections");
+  const canManageTemplates = isAdmin || permissions.includes("manage_inspection_templates");
+  const project = projects.find((p) => p.id === projectId);
+  const viewing = inspections.find((i) => i.id === viewingId) ?? null;
+
+  useEffect(() => {
+    if (!user) return;
+    listProjectOptions(user.id)
+      .then((data) => {
+        setProjects(data);
+        if (data.length > 0) setProjectId((current) => current || data[0].id);
+      })
+      .catch((error) => console.error("Error fetching projects:", error));
+    fetchTemplates();
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    listProjectPhases(projectId)
+      .then(setPhases)
+      .catch((error) => console.error("Error fetching phases:", error));
+    setLoading(true);
+    fetchInspections().finally(() => setLoading(false));
+  }, [projectId]);
+
+  async function fetchTemplates() {
+    try {
+      setTemplates(await listInspectionTemplates());
+    } catch (error) {
+      console.error("Error fetching inspection templates:", error);
+    }
+  }
+
+  async function fetchInspections() {
+    try {
+      const data = await listInspections(projectId);
+      setInspections(data);
+      return data;
+    } catch (error) {
+      console.error("Error fetching inspections:", error);
+      return [];
+    }
+  }
+
+  // Results and notes are saved as they are entered; the list is patched in place
+  const patchItem = (itemId: string, patch: Partial<InspectionItemWithDetails>) =>
+    setInspections((current) =>
+      current.map((inspection) => ({
+        ...inspection,
+        inspection_items: inspection.inspection_items.map((item) => (item.id === itemId ? { ...item, ...patch } : item)),
+      }))
+    );
+
+  const patchInspection = (id: string, patch: Partial<InspectionSignOff>) =>
+    setInspections((current) => current.map((inspection) => (inspection.id === id ? { ...inspection, ...patch } : inspection)));
+
+  const handleResult = async (item: InspectionItemWithDetails, result: InspectionResult) => {
+    const previous = item.result;
+    patchItem(item.id, { result });
+    try {
+      await updateInspectionItem(item.id, { result });
+    } catch (error) {
+      patchItem(item.id, { result: previous });
+      console.error("Error saving result:", error);
+      alert(`Failed to save result: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleItemNote = async (item: InspectionItemWithDetails, value: string) => {
+    const note = value.trim() || null;
+    if (note === item.note) return;
+    try {
+      await updateInspectionItem(item.id, { note });
+      patchItem(item.id, { note });
+    } catch (error) {
+      console.error("Error saving note:", error);
+      alert(`Failed to save note: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleSignOff = async (inspection: InspectionWithDetails, patch: Partial<InspectionSignOff>) => {
+    try {
+      await updateInspection(inspection.id, patch);
+      patchInspection(inspection.id, patch);
+    } catch (error) {
+      console.error("Error saving inspection:", error);
+      alert(`Failed to save inspection: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleUploadPhoto = async (inspection: InspectionWithDetails, item: InspectionItemWithDetails, file: File) => {
+    setUploadingItemId(item.id);
+    try {
+      const compressed = await imageCompression(file, { maxSizeMB: 1 });
+      const photo = await uploadInspectionPhoto(inspection.id, item.id, compressed, file.name);
+      patchItem(item.id, { inspection_photos: [...item.inspection_photos, photo] });
+    } catch (error) {
+      console.error("Error uploading photo:", error);
+      alert(`Failed to upload photo: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setUploadingItemId(null);
+    }
+  };
+
+  const handleDeletePhoto = async (item: InspectionItemWithDetails, photo: InspectionPhoto) => {
+    if (!window.confirm("Delete this photo?")) return;
+    try {
+      await deleteInspectionPhoto(photo);
+      patchItem(item.id, { inspection_photos: item.inspection_photos.filter((p) => p.id !== photo.id) });
+    } catch (error) {
+      console.error("Error deleting photo:", error);
+      alert(`Failed to delete photo: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleCreateInspection = async () => {
+    if (!newInspection.phase_id || !newInspection.template_id) {
+      alert("Please select a phase and a checklist");
+      return;
+    }
+    setBusy(true);
+    try {
+      const id = await createInspection(
+        newInspection.phase_id,
+        newInspection.template_id,
+        newInspection.scheduled_date || null
+      );
+      await fetchInspections();
+      setShowNewInspection(false);
+      setViewingId(id);
+    } catch (error) {
+      console.error("Error creating inspection:", error);
+      alert(`Failed to create inspection: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteInspection = async (inspection: InspectionWithDetails) => {
+    if (!window.confirm(`Delete the ${inspection.title} inspection and its photos?`)) return;
+    try {
+      await deleteInspection(inspection);
+      setViewingId(null);
+      await fetchInspections();
+    } catch (error) {
+      console.error("Error deleting inspection:", error);
+      alert(`Failed to delete inspection: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  // The report as filed in Documents: results, notes, raised snags and signatures
+  const buildInspectionPdf = (inspection: InspectionWithDetails) => {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.width;
+    const pageHeight = doc.internal.pageSize.height;
+    const margin = 15;
+    const totals = summariseInspection(inspection.inspection_items);
+
+    doc.setFillColor(41, 128, 185);
+    doc.rect(0, 0, pageWidth, 30, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.text('INSPECTION REPORT', margin, 14);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(inspection.title, margin, 22);
+
+    doc.setTextColor(52, 73, 94);
+    (doc as any).autoTable({
+      startY: 38,
+      body: [
+        ['Project', project?.name ?? ''],
+        ['Phase', inspection.phases?.name ?? ''],
+        ['Scheduled', inspection.scheduled_date ? format(parseISO(inspection.scheduled_date), 'dd MMM yyyy') : '-'],
+        ['Completed', inspection.completed_at
+          ? `${format(new Date(inspection.completed_at), 'dd MMM yyyy, HH:mm')} by ${inspection.completed_by_name || 'team member'}`
+          : 'In progress'],
+        ['Result', `${totals.pass} passed, ${totals.fail} failed, ${totals.na} not applicable`]
+      ],
+      theme: 'plain',
+      styles: { fontSize: 10, cellPadding: 1.5 },
+      columnStyles: { 0: { fontStyle: 'bold', cellWidth: 35 } }
+    });
+
+    (doc as any).autoTable({
+      startY: (doc as any).lastAutoTable.finalY + 6,
+      head: [['#', 'Item', 'Result', 'Note', 'Snag']],
+      body: inspection.inspection_items.map((item) => [
+        item.position,
+        item.label,
+        item.result ? RESULT_LABELS[item.result] : '-',
+        item.note || '',
+        item.snags?.snag_number || ''
+      ]),
+      theme: 'grid',
+      headStyles: { fillColor: [52, 73, 94], textColor: 255, fontSize: 9, fontStyle: 'bold' },
+      bodyStyles: { fontSize: 9, cellPadding: 2, valign: 'top' },
+      columnStyles: { 0: { cellWidth: 10 }, 2: { cellWidth: 16 }, 4: { cellWidth: 18 } },
+      didParseCell: (data: any) => {
+        if (data.section === 'body' && data.column.index === 2) {
+          if (data.cell.raw === 'Fail') data.cell.styles.textColor = [231, 76, 60];
+          if (data.cell.raw === 'Pass') data.cell.styles.textColor = [39, 174, 96];
+          data.cell.styles.fontStyle = 'bold';
+        }
+      }
+    });
+
+    let y = (doc as any).lastAutoTable.finalY + 10;
+    if (inspection.notes) {
+      const lines = doc.splitTextToSize(inspection.notes, pageWidth - 2 * margin);
+      if (y + 10 + lines.length * 5 > pageHeight - 20) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Notes', margin, y);
+      doc.setFont('helvetica', 'normal');
+      doc.text(lines, margin, y + 6);
+      y += 10 + lines.length * 5;
+    }
+
+    if (y > pageHeight - 60) {
+      doc.addPage();
+      y = 20;
+    }
+    const signatures: [string, string | null, string | null][] = [
+      ['Inspector', inspection.inspector_name, inspection.inspector_signature],
+      ['Contractor', inspection.contractor_name, inspection.contractor_signature],
+    ];
+    signatures.forEach(([role, name, signature], i) => {
+      const x = margin + i * 95;
+      if (signature) doc.addImage(signature, 'PNG', x, y, 75, 25);
+      doc.line(x, y + 27, x + 75, y + 27);
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'bold');
+      doc.text(role, x, y + 32);
+      doc.setFont('helvetica', 'normal');
+      doc.text(name || '', x, y + 37);
+    });
+
+    return doc;
+  };
+
+  const reportFileName = (inspection: InspectionWithDetails) =>
+    `Inspection_${inspection.title}_${inspection.phases?.name ?? ''}_${format(
+      new Date(inspection.completed_at ?? Date.now()),
+      'yyyy-MM-dd'
+    )}`.replace(/[^a-z0-9_-]/gi, '_') + '.pdf';
+
+  const fileReport = async (inspection: InspectionWithDetails) => {
+    if (!user) return;
+    try {
+      const pdf = buildInspectionPdf(inspection).output('blob');
+      await saveInspectionReport(inspection, pdf, reportFileName(inspection), user.id);
+      await fetchInspections();
+    } catch (error) {
+      console.error("Error filing inspection report:", error);
+      alert(
+        `The report could not be filed in Documents: ${error instanceof Error ? error.message : "Unknown error"}${
+          isPlanLimitError(error) ? "" : ". Use \"File Report\" to try again."
+        }`
+      );
+    }
+  };
+
+  const handleComplete = async (inspection: InspectionWithDetails) => {
+    const totals = summariseInspection(inspection.inspection_items);
+    if (totals.open > 0) {
+      alert(`Mark every item pass, fail or N/A first (${totals.open} left)`);
+      return;
+    }
+    if (!inspection.inspector_name?.trim() || !inspection.inspector_signature) {
+      alert("The inspector must enter their name and sign");
+      return;
+    }
+    const message =
+      totals.fail > 0
+        ? `Complete this inspection? ${totals.fail} failed item${totals.fail === 1 ? "" : "s"} will be added to the punch list. The inspection can no longer be changed.`
+        : "Complete this inspection? It can no longer be changed.";
+    if (!window.confirm(message)) return;
+
+    setBusy(true);
+    try {
+      await completeInspection(inspection.id);
+      const completed = (await fetchInspections()).find((i) => i.id === inspection.id);
+      if (completed) await fileReport(completed);
+    } catch (error) {
+      console.error("Error completing inspection:", error);
+      alert(`Failed to complete inspection: ${error instanceof Error ? error.message : "Please try again."}`);
+      await fetchInspections();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileReport = async (inspection: InspectionWithDetails) => {
+    setBusy(true);
+    await fileReport(inspection);
+    setBusy(false);
+  };
+
+  const openTemplateForm = (template?: InspectionTemplateWithItems) => {
+    setEditingTemplate(template ?? null);
+    setTemplateForm(
+      template
+        ? {
+            name: template.name,
+            description: template.description ?? "",
+            items: template.inspection_template_items.map((item) => item.label).join("\n"),
+          }
+        : emptyTemplateForm
+    );
+    setShowTemplateForm(true);
+  };
+
+  const handleSaveTemplate = async () => {
+    const items = templateForm.items.split("\n").map((line) => line.trim()).filter(Boolean);
+    if (!templateForm.name.trim() || items.length === 0) {
+      alert("Give the template a name and at least one checklist item");
+      return;
+    }
+    setSavingTemplate(true);
+    try {
+      await saveInspectionTemplate(editingTemplate?.id ?? null, templateForm.name, templateForm.description, items);
+      setShowTemplateForm(false);
+      await fetchTemplates();
+    } catch (error) {
+      console.error("Error saving template:", error);
+      alert(`Failed to save template: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: InspectionTemplateWithItems) => {
+    if (!window.confirm(`Delete the ${template.name} template? Inspections already started keep their checklist.`)) return;
+    try {
+      await deleteInspectionTemplate(template.id);
+      await fetchTemplates();
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      alert(`Failed to delete template: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleAddStarterTemplates = async () => {
+    setSavingTemplate(true);
+    try {
+      for (const template of starterTemplates) {
+        await saveInspectionTemplate(null, template.name, template.description, template.items);
+      }
+      await fetchTemplates();
+    } catch (error) {
+      console.error("Error adding starter templates:", error);
+      alert(`Failed to add starter templates: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const renderInspection = (inspection: InspectionWithDetails) => {
+    const editable = canConduct && inspection.status === "in_progress";
+    const totals = summariseInspection(inspection.inspection_items);
+
+    return (
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{inspection.title}</h2>
+            <p className="text-sm text-gray-600">
+              {inspection.phases?.name}
+              {inspection.scheduled_date && ` · Scheduled ${format(parseISO(inspection.scheduled_date), "dd MMM yyyy")}`}
+            </p>
+            {inspection.completed_at && (
+              <p className="text-sm text-green-700">
+                Completed by {inspection.completed_by_name || "a team member"} on{" "}
+                {format(new Date(inspection.completed_at), "dd MMM yyyy, HH:mm")}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => buildInspectionPdf(inspection).save(reportFileName(inspection))}
+              className="p-2 text-gray-600 hover:text-gray-800"
+              title="Download PDF"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+            {editable && (
+              <button onClick={() => handleDeleteInspection(inspection)} className="p-2 text-red-600 hover:text-red-700" title="Delete">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+            <button onClick={() => setViewingId(null)} className="p-2">
+              <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+            </button>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-3">
+          {totals.pass} passed · {totals.fail} failed · {totals.na} N/A
+          {totals.open > 0 && ` · ${totals.open} to check`}
+        </p>
+
+        <div className="space-y-3 mb-6">
+          {inspection.inspection_items.map((item) => (
+            <div
+              key={item.id}
+              className={`border rounded-lg p-3 ${item.result === "fail" ? "border-red-200 bg-red-50" : "border-gray-200"}`}
+            >
+              <div className="flex flex-wrap justify-between items-start gap-2">
+                <p className="text-gray-900">
+                  <span className="text-gray-500 mr-2">{item.position}.</span>
+                  {item.label}
+                </p>
+                <div className="flex gap-1">
+                  {RESULT_BUTTONS.map(({ result, label, icon: Icon, active }) => (
+                    <button
+                      key={result}
+                      disabled={!editable}
+                      onClick={() => handleResult(item, result)}
+                      className={`flex items-center px-2 py-1 text-xs rounded border ${
+                        item.result === result ? active : "border-gray-300 text-gray-600 hover:bg-gray-100"
+                      } disabled:cursor-default`}
+                    >
+                      <Icon className="w-3 h-3 mr-1" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {editable ? (
+                <input
+                  type="text"
+                  defaultValue={item.note ?? ""}
+                  onBlur={(e) => handleItemNote(item, e.target.value)}
+                  placeholder={item.result === "fail" ? "What is wrong? This goes on the snag" : "Note"}
+                  className="w-full border rounded-lg p-2 mt-2 text-sm"
+                />
+              ) : (
+                item.note && <p className="text-sm text-gray-600 mt-2">{item.note}</p>
+              )}
+
+              {item.snags && (
+                <p className="text-xs text-red-700 mt-2">
+                  Raised as {item.snags.snag_number} on the punch list
+                </p>
+              )}
+
+              {(item.inspection_photos.length > 0 || editable) && (
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  {item.inspection_photos.map((photo) => (
+                    <div key={photo.id} className="relative group">
+                      <a href={photo.photo_url} target="_blank" rel="noopener noreferrer">
+                        <img src={photo.photo_url} alt={item.label} className="w-20 h-20 object-cover rounded" />
+                      </a>
+                      {editable && (
+                        <button
+                          onClick={() => handleDeletePhoto(item, photo)}
+                          className="absolute top-1 right-1 bg-white rounded-full p-1 shadow opacity-0 group-hover:opacity-100"
+                          title="Delete photo"
+                        >
+                          <X className="w-3 h-3 text-gray-700" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {editable && (
+                    <label className="flex items-center justify-center w-20 h-20 border-2 border-dashed border-gray-300 rounded text-gray-400 hover:text-gray-600 cursor-pointer">
+                      {uploadingItemId === item.id ? (
+                        <span className="text-xs">Uploading...</span>
+                      ) : (
+                        <Camera className="w-5 h-5" />
+                      )}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        capture="environment"
+                        className="hidden"
+                        disabled={uploadingItemId !== null}
+                        onChange={(e) => {
+                          if (e.target.files?.[0]) handleUploadPhoto(inspection, item, e.target.files[0]);
+                          e.target.value = "";
+                        }}
+                      />
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="mb-6">
+          <label className="block font-medium text-gray-700 mb-1">General Notes</label>
+          {editable ? (
+            <textarea
+              defaultValue={inspection.notes ?? ""}
+              onBlur={(e) => {
+                const notes = e.target.value.trim() || null;
+                if (notes !== inspection.notes) handleSignOff(inspection, { notes });
+              }}
+              rows={2}
+              className="w-full border rounded-lg p-2"
+            />
+          ) : (
+            <p className="text-gray-700 whitespace-pre-wrap">{inspection.notes || "-"}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 border-t pt-4">
+          {([
+            ["Inspector", "inspector_name", "inspector_signature"],
+            ["Contractor", "contractor_name", "contractor_signature"],
+          ] as const).map(([role, nameField, signatureField]) => (
+            <div key={role}>
+              <p className="font-medium text-gray-700 mb-1">
+                {role}
+                {role === "Inspector" && editable && " *"}
+              </p>
+              {editable ? (
+                <input
+                  type="text"
+                  defaultValue={inspection[nameField] ?? ""}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim() || null;
+                    if (name !== inspection[nameField]) handleSignOff(inspection, { [nameField]: name });
+                  }}
+                  placeholder="Name"
+                  className="w-full max-w-[360px] border rounded-lg p-2 mb-2 text-sm"
+                />
+              ) : (
+                <p className="text-sm text-gray-900 mb-2">{inspection[nameField] || "-"}</p>
+              )}
+              <SignaturePad
+                value={inspection[signatureField]}
+                onChange={(signature) => handleSignOff(inspection, { [signatureField]: signature })}
+                disabled={!editable}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end items-center gap-3 border-t pt-4 mt-4">
+          {inspection.status === "completed" ? (
+            inspection.document_id ? (
+              <span className="flex items-center text-sm text-green-700">
+                <FileCheck className="w-4 h-4 mr-1" />
+                Filed in Documents under Inspection Reports
+              </span>
+            ) : (
+              canConduct && (
+                <button
+                  onClick={() => handleFileReport(inspection)}
+                  disabled={busy}
+                  className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                >
+                  <FileCheck className="w-4 h-4 mr-2" />
+                  File Report
+                </button>
+              )
+            )
+          ) : (
+            editable && (
+              <button
+                onClick={() => handleComplete(inspection)}
+                disabled={busy}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                {busy ? "Completing..." : "Complete Inspection"}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Layout title="Inspections" subtitle="Quality checklists filled in on site">
+      <div className="p-6">
+        <div className="flex border-b border-gray-200 mb-6">
+          {([
+            ["inspections", "Inspections"],
+            ["templates", "Checklist Templates"],
+          ] as [InspectionsTab, string][]).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                tab === key ? "border-blue-600 text-blue-600" : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {tab === "inspections" && (
+          <>
+            <div className="mb-6 flex flex-wrap gap-4 items-center justify-between">
+              <select
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+              >
+                {projects.length === 0 && <option value="">No projects</option>}
+                {projects.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              {canConduct && projectId && (
+                <button
+                  onClick={() => {
+                    setNewInspection({ phase_id: "", template_id: "", scheduled_date: "" });
+                    setShowNewInspection(true);
+                  }}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Inspection
+                </button>
+              )}
+            </div>
+
+            {loading ? (
+              <div className="text-center py-8 text-gray-500">Loading inspections...</div>
+            ) : inspections.length === 0 ? (
+              <div className="text-center py-12">
+                <ClipboardCheck className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">No inspections for this project yet</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr className="text-gray-600">
+                      <th className="px-4 py-3 text-left font-medium">Checklist</th>
+                      <th className="px-4 py-3 text-left font-medium">Phase</th>
+                      <th className="px-4 py-3 text-left font-medium">Scheduled</th>
+                      <th className="px-4 py-3 text-left font-medium">Results</th>
+                      <th className="px-4 py-3 text-left font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {inspections.map((inspection) => {
+                      const totals = summariseInspection(inspection.inspection_items);
+                      return (
+                        <tr
+                          key={inspection.id}
+                          onClick={() => setViewingId(inspection.id)}
+                          className="border-t border-gray-100 hover:bg-gray-50 cursor-pointer"
+                        >
+                          <td className="px-4 py-3 font-medium text-gray-900">{inspection.title}</td>
+                          <td className="px-4 py-3 text-gray-600">{inspection.phases?.name}</td>
+                          <td className="px-4 py-3 text-gray-600">
+                            {inspection.scheduled_date ? format(parseISO(inspection.scheduled_date), "dd MMM yyyy") : "-"}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className="text-green-700">{totals.pass} pass</span>
+                            {totals.fail > 0 && <span className="text-red-600"> · {totals.fail} fail</span>}
+                            {totals.open > 0 && <span className="text-gray-500"> · {totals.open} open</span>}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span
+                              className={`px-2 py-1 rounded text-xs ${
+                                inspection.status === "completed" ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"
+                              }`}
+                            >
+                              {inspection.status === "completed" ? "Completed" : "In Progress"}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        {tab === "templates" && (
+          <div className="space-y-4">
+            {canManageTemplates && (
+              <div className="flex justify-end gap-2">
+                {templates.length === 0 && (
+                  <button
+                    onClick={handleAddStarterTemplates}
+                    disabled={savingTemplate}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    Add Starter Templates
+                  </button>
+                )}
+                <button
+                  onClick={() => openTemplateForm()}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Template
+                </button>
+              </div>
+            )}
+
+            {templates.length === 0 ? (
+              <div className="text-center py-12">
+                <ClipboardCheck className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">No checklist templates yet</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {templates.map((template) => (
+                  <div key={template.id} className="bg-white rounded-lg border border-gray-200 p-4">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <h3 className="font-medium text-gray-900">{template.name}</h3>
+                        {template.description && <p className="text-sm text-gray-500">{template.description}</p>}
+                      </div>
+                      {canManageTemplates && (
+                        <div className="flex">
+                          <button onClick={() => openTemplateForm(template)} className="p-1 text-blue-600 hover:text-blue-700" title="Edit">
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleDeleteTemplate(template)} className="p-1 text-red-600 hover:text-red-700" title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <ol className="list-decimal list-inside text-sm text-gray-700 mt-3 space-y-1">
+                      {template.inspection_template_items.map((item) => (
+                        <li key={item.id}>{item.label}</li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {viewing && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setViewingId(null)}
+        >
+          {renderInspection(viewing)}
+        </div>
+      )}
+
+      {showNewInspection && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setShowNewInspection(false)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">New Inspection</h3>
+              <button onClick={() => setShowNewInspection(false)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+            {templates.length === 0 ? (
+              <p className="text-gray-600">
+                Create a checklist template first on the Checklist Templates tab.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Phase *</label>
+                  <select
+                    value={newInspection.phase_id}
+                    onChange={(e) => setNewInspection({ ...newInspection, phase_id: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  >
+                    <option value="">Select phase</option>
+                    {phases.map((p) => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Checklist *</label>
+                  <select
+                    value={newInspection.template_id}
+                    onChange={(e) => setNewInspection({ ...newInspection, template_id: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  >
+                    <option value="">Select checklist</option>
+                    {templates.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name} ({t.inspection_template_items.length} items)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Scheduled Date</label>
+                  <input
+                    type="date"
+                    value={newInspection.scheduled_date}
+                    onChange={(e) => setNewInspection({ ...newInspection, scheduled_date: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Adds an inspection event to your calendar</p>
+                </div>
+                <div className="flex justify-end gap-3 pt-2">
+                  <button
+                    onClick={() => setShowNewInspection(false)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleCreateInspection}
+                    disabled={busy}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {busy ? "Creating..." : "Start Inspection"}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showTemplateForm && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setShowTemplateForm(false)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingTemplate ? `Edit ${editingTemplate.name}` : "New Checklist Template"}
+              </h3>
+              <button onClick={() => setShowTemplateForm(false)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+            <div className="space-y-3">
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={templateForm.name}
+                  onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+                  placeholder="e.g. Plumbing Pressure Test"
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Description</label>
+                <input
+                  type="text"
+                  value={templateForm.description}
+                  onChange={(e) => setTemplateForm({ ...templateForm, description: e.target.value })}
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Checklist Items * (one per line)</label>
+                <textarea
+                  value={templateForm.items}
+                  onChange={(e) => setTemplateForm({ ...templateForm, items: e.target.value })}
+                  rows={10}
+                  className="w-full border rounded-lg p-2 text-sm"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  onClick={() => setShowTemplateForm(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveTemplate}
+                  disabled={savingTemplate}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {savingTemplate ? "Saving..." : "Save Template"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
@@ -0,0 +1,621 @@
+import { useState, useEffect } from "react";
+import {
+  FileText,
+  Plus,
+  Download,
+  Send,
+  CheckCircle,
+  Undo2,
+  Trash2,
+  X,
+  Search,
+  CreditCard as Edit,
+  Link as LinkIcon,
+} from "lucide-react";
+import { format } from "date-fns";
+import jsPDF from "jspdf";
+import "jspdf-autotable";
+import { Layout } from "../components/Layout/Layout";
+import { InvoiceForm } from "../components/Invoices/InvoiceForm";
+import { PAYMENT_OPTIONS } from "../components/Expenses/expenseCategories";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  listProjectOptions,
+  listInvoices,
+  deleteDraftInvoice,
+  issueInvoice,
+  markInvoicePaid,
+  listInvoicePaymentLinks,
+  createPaymentLink,
+  financialYear,
+  invoiceTotals,
+  getBusinessProfile,
+  BusinessProfile,
+  InvoiceWithItems,
+  ProjectOption,
+} from "../lib/repositories";
+import { gstStateName } from "../lib/gst";
+import type { InvoiceStatus, PaymentLink } from "../types";
+
+const statusLabels: Record<InvoiceStatus, string> = {
+  draft: "Draft",
+  issued: "Issued",
+  paid: "Paid",
+  cancelled: "Cancelled",
+};
+
+const statusColors: Record<InvoiceStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  issued: "bg-blue-100 text-blue-700",
+  paid: "bg-green-100 text-green-700",
+  cancelled: "bg-red-100 text-red-700",
+};
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) => format(new Date(date), "dd MMM yyyy");
+
+export function Invoices() {
+  const { user, userRole, permissions } = useAuth();
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [invoices, setInvoices] = useState<InvoiceWithItems[]>([]);
+  const [paymentLinks, setPaymentLinks] = useState<PaymentLink[]>([]);
+  const [business, setBusiness] = useState<BusinessProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [projectFilter, setProjectFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | "all">("all");
+  const [yearFilter, setYearFilter] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const [formState, setFormState] = useState<{ invoice?: InvoiceWithItems; creditFor?: InvoiceWithItems } | null>(null);
+  const [paying, setPaying] = useState<InvoiceWithItems | null>(null);
+  const [paidOn, setPaidOn] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [paymentMethod, setPaymentMethod] = useState("Bank Transfer");
+  const [saving, setSaving] = useState(false);
+
+  const canManage = userRole === "Admin" || permissions.includes("manage_invoices");
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const fetchInvoices = async () => {
+    if (!user) return;
+    try {
+      const projectOptions = await listProjectOptions(user.id);
+      setProjects(projectOptions);
+      const invoiceList = await listInvoices(projectOptions.map((p) => p.id));
+      setInvoices(invoiceList);
+      setPaymentLinks(await listInvoicePaymentLinks(invoiceList.map((i) => i.id)));
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchInvoices();
+    if (user) {
+      getBusinessProfile(user.id)
+        .then(setBusiness)
+        .catch((error) => console.error("Error fetching profile:", error));
+    }
+  }, [user?.id]);
+
+  // Issued credit notes reduce what the client owes on their invoice
+  const creditedAmount = (invoice: InvoiceWithItems) =>
+    invoices
+      .filter((i) => i.original_invoice_id === invoice.id && i.status === "issued")
+      .reduce((sum, i) => sum + Number(i.total), 0);
+
+  const balanceDue = (invoice: InvoiceWithItems) => Number(invoice.total) - creditedAmount(invoice);
+
+  const pendingLink = (invoice: InvoiceWithItems) =>
+    paymentLinks.find((link) => link.invoice_id === invoice.id && link.payment_status === "pending");
+
+  const handleCreatePaymentLink = async (invoice: InvoiceWithItems) => {
+    try {
+      const link = await createPaymentLink({ invoice_id: invoice.id });
+      await fetchInvoices();
+      await navigator.clipboard?.writeText(link.razorpay_link_url).catch(() => undefined);
+      alert(`Payment link for ${invoice.invoice_number} copied: ${link.razorpay_link_url}\nThe invoice is marked paid when the client pays.`);
+    } catch (error) {
+      console.error("Error creating payment link:", error);
+      alert(`Failed to create payment link: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleIssue = async (invoice: InvoiceWithItems) => {
+    const label = invoice.doc_type === "credit_note" ? "credit note" : "invoice";
+    if (!window.confirm(`Issue this ${label}? It gets its number now and can no longer be edited or deleted.`)) return;
+    try {
+      const number = await issueInvoice(invoice.id);
+      await fetchInvoices();
+      alert(`Issued ${number}`);
+    } catch (error) {
+      console.error("Error issuing invoice:", error);
+      alert(`Failed to issue ${label}: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleDelete = async (invoice: InvoiceWithItems) => {
+    if (!window.confirm(`Delete this draft for ${invoice.client_name}?`)) return;
+    try {
+      await deleteDraftInvoice(invoice.id);
+      await fetchInvoices();
+    } catch (error) {
+      console.error("Error deleting invoice:", error);
+      alert(`Failed to delete draft: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const openPaid = (invoice: InvoiceWithItems) => {
+    setPaidOn(format(new Date(), "yyyy-MM-dd"));
+    setPaymentMethod("Bank Transfer");
+    setPaying(invoice);
+  };
+
+  const handleMarkPaid = async () => {
+    if (!paying) return;
+    setSaving(true);
+    try {
+      await markInvoicePaid(paying.id, paidOn, paymentMethod);
+      setPaying(null);
+      await fetchInvoices();
+    } catch (error) {
+      console.error("Error marking invoice paid:", error);
+      alert(`Failed to mark invoice paid: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const generateInvoicePdf = (invoice: InvoiceWithItems) => {
+    const doc = new jsPDF();
+    const isCreditNote = invoice.doc_type === "credit_note";
+    const original = invoices.find((i) => i.id === invoice.original_invoice_id);
+
+    doc.setFontSize(22);
+    doc.setFont('helvetica', 'bold');
+    doc.text(business?.company || business?.full_name || 'Your Business Name', 20, 25);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text([business?.email, business?.phone].filter(Boolean).join(' | ') || '', 20, 35);
+    doc.text(`GST No: ${invoice.supplier_gstin || 'Not Provided'}`, 20, 42);
+
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text(isCreditNote ? 'CREDIT NOTE' : 'TAX INVOICE', 20, 60);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${isCreditNote ? 'Credit Note' : 'Invoice'} No: ${invoice.invoice_number}`, 20, 75);
+    doc.text(`Date: ${format(new Date(invoice.invoice_date), "dd-MM-yyyy")}`, 20, 82);
+    if (isCreditNote) {
+      doc.text(`Against Invoice: ${original?.invoice_number || ''}`, 20, 89);
+    } else if (invoice.due_date) {
+      doc.text(`Due Date: ${format(new Date(invoice.due_date), "dd-MM-yyyy")}`, 20, 89);
+    }
+    doc.text(`Project: ${invoice.projects?.name || ''}`, 110, 75);
+    doc.text(`Milestone: ${invoice.phases?.name || ''}`, 110, 82);
+    doc.text(`Place of Supply: ${invoice.place_of_supply} - ${gstStateName(invoice.place_of_supply)}`, 110, 89);
+
+    doc.setFont('helvetica', 'bold');
+    doc.text('Bill To:', 20, 105);
+    doc.setFont('helvetica', 'normal');
+    doc.text(invoice.client_name, 20, 115);
+    let clientY = 122;
+    if (invoice.client_address) {
+      const addressLines = doc.splitTextToSize(invoice.client_address, 90);
+      doc.text(addressLines, 20, clientY);
+      clientY += 7 * addressLines.length;
+    }
+    doc.text(`GSTIN: ${invoice.client_gstin || 'Unregistered'}`, 20, clientY);
+    clientY += 7;
+    const contact = [invoice.client_phone, invoice.client_email].filter(Boolean).join(' | ');
+    if (contact) {
+      doc.text(contact, 20, clientY);
+      clientY += 7;
+    }
+
+    const headers = ['Description', 'SAC', 'Qty', 'Rate', 'Taxable', 'GST %', invoice.is_inter_state ? 'IGST' : 'CGST + SGST', 'Total'];
+    const body = invoice.invoice_items.map((item) => {
+      const taxable = Number(item.quantity) * Number(item.rate);
+      const tax = (taxable * Number(item.gst_rate)) / 100;
+      return [
+        item.description,
+        item.sac || '-',
+        `${Number(item.quantity)}`,
+        `Rs ${Number(item.rate).toFixed(2)}`,
+        `Rs ${taxable.toFixed(2)}`,
+        `${Number(item.gst_rate)}%`,
+        `Rs ${tax.toFixed(2)}`,
+        `Rs ${(taxable + tax).toFixed(2)}`,
+      ];
+    });
+
+    (doc as any).autoTable({
+      startY: Math.max(135, clientY + 8),
+      head: [headers],
+      body,
+      theme: 'grid',
+      headStyles: {
+        fillColor: [41, 128, 185],
+        textColor: 255,
+        fontSize: 9,
+        fontStyle: 'bold'
+      },
+      bodyStyles: {
+        fontSize: 8,
+        cellPadding: 3
+      },
+      columnStyles: {
+        0: { cellWidth: 40 },
+        1: { cellWidth: 15 },
+        2: { cellWidth: 18, halign: 'right' },
+        3: { cellWidth: 20, halign: 'right' },
+        4: { cellWidth: 22, halign: 'right' },
+        5: { cellWidth: 13, halign: 'center' },
+        6: { cellWidth: 22, halign: 'right' },
+        7: { cellWidth: 22, halign: 'right' }
+      }
+    });
+
+    const finalY = (doc as any).lastAutoTable.finalY + 15;
+    const taxLines = invoice.is_inter_state
+      ? [`IGST: Rs ${Number(invoice.igst).toFixed(2)}`]
+      : [`CGST: Rs ${Number(invoice.cgst).toFixed(2)}`, `SGST: Rs ${Number(invoice.sgst).toFixed(2)}`];
+
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Taxable Value: Rs ${Number(invoice.subtotal).toFixed(2)}`, 130, finalY);
+    taxLines.forEach((line, i) => doc.text(line, 130, finalY + 8 * (i + 1)));
+
+    const lineY = finalY + 8 * taxLines.length + 6;
+    doc.line(130, lineY, 190, lineY);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(`${isCreditNote ? 'Credit' : 'Total'}: Rs ${Number(invoice.total).toFixed(2)}`, 130, lineY + 10);
+
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    if (invoice.notes) doc.text(`Notes: ${invoice.notes}`, 20, 262);
+    if (invoice.status === 'paid' && invoice.paid_at) {
+      doc.text(`Paid on ${format(new Date(invoice.paid_at), "dd-MM-yyyy")} by ${invoice.payment_method}`, 20, 270);
+    }
+    doc.text('This is a computer generated document.', 20, 275);
+
+    doc.save(`${invoice.invoice_number!.replace(/\//g, '-')}_${invoice.client_name.replace(/[^a-z0-9]/gi, '_')}.pdf`);
+  };
+
+  const years = Array.from(new Set(invoices.map((i) => i.financial_year).filter(Boolean) as string[])).sort().reverse();
+
+  const filteredInvoices = invoices.filter((invoice) => {
+    const searchLower = searchTerm.toLowerCase();
+    return (
+      (!projectFilter || invoice.project_id === projectFilter) &&
+      (statusFilter === "all" || invoice.status === statusFilter) &&
+      (!yearFilter || invoice.financial_year === yearFilter) &&
+      ((invoice.invoice_number || "").toLowerCase().includes(searchLower) ||
+        invoice.client_name.toLowerCase().includes(searchLower))
+    );
+  });
+
+  const openInvoices = invoices.filter((i) => i.doc_type === "invoice" && i.status === "issued");
+  const outstanding = openInvoices.reduce((sum, i) => sum + balanceDue(i), 0);
+  const overdue = openInvoices.filter((i) => i.due_date && i.due_date < today);
+  const currentYear = financialYear(today);
+  const receivedThisYear = invoices
+    .filter((i) => i.status === "paid" && i.paid_at && financialYear(i.paid_at) === currentYear)
+    .reduce((sum, i) => sum + balanceDue(i), 0);
+
+  return (
+    <Layout title="Invoices" subtitle="Milestone billing, credit notes and client payments">
+      <div className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <p className="text-sm text-gray-600">Drafts</p>
+            <p className="text-2xl font-bold text-gray-900">{invoices.filter((i) => i.status === "draft").length}</p>
+          </div>
+          <div className="bg-blue-50 rounded-lg border border-blue-200 p-4">
+            <p className="text-sm text-blue-700">Outstanding</p>
+            <p className="text-2xl font-bold text-blue-600">{formatCurrency(outstanding)}</p>
+          </div>
+          <div className="bg-red-50 rounded-lg border border-red-200 p-4">
+            <p className="text-sm text-red-700">Overdue</p>
+            <p className="text-2xl font-bold text-red-600">{overdue.length}</p>
+          </div>
+          <div className="bg-green-50 rounded-lg border border-green-200 p-4">
+            <p className="text-sm text-green-700">Received in FY {currentYear}</p>
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(receivedThisYear)}</p>
+          </div>
+        </div>
+
+        <div className="mb-6 flex flex-wrap gap-4 items-center">
+          <select
+            value={projectFilter}
+            onChange={(e) => setProjectFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="">All Projects</option>
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as InvoiceStatus | "all")}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="all">All Statuses</option>
+            {(Object.keys(statusLabels) as InvoiceStatus[]).map((status) => (
+              <option key={status} value={status}>{statusLabels[status]}</option>
+            ))}
+          </select>
+          <select
+            value={yearFilter}
+            onChange={(e) => setYearFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="">All Years</option>
+            {years.map((year) => (
+              <option key={year} value={year}>FY {year}</option>
+            ))}
+          </select>
+          <div className="flex-1 relative min-w-[200px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search number or client"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          {canManage && (
+            <button
+              onClick={() => setFormState({})}
+              disabled={projects.length === 0}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Invoice
+            </button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading invoices...</div>
+        ) : filteredInvoices.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">
+              {invoices.length === 0 ? "No invoices yet. Bill a milestone to raise one." : "No invoices match your filters"}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-gray-600">
+                  <th className="px-4 py-3 text-left font-medium">Number</th>
+                  <th className="px-4 py-3 text-left font-medium">Client</th>
+                  <th className="px-4 py-3 text-left font-medium">Project / Milestone</th>
+                  <th className="px-4 py-3 text-left font-medium">Date</th>
+                  <th className="px-4 py-3 text-right font-medium">Total</th>
+                  <th className="px-4 py-3 text-left font-medium">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {filteredInvoices.map((invoice) => {
+                  const isCreditNote = invoice.doc_type === "credit_note";
+                  const credited = isCreditNote ? 0 : creditedAmount(invoice);
+                  const isOverdue =
+                    !isCreditNote && invoice.status === "issued" && !!invoice.due_date && invoice.due_date < today;
+                  const original = invoices.find((i) => i.id === invoice.original_invoice_id);
+
+                  return (
+                    <tr key={invoice.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-gray-900">{invoice.invoice_number || "Draft"}</p>
+                        <p className="text-xs text-gray-500">
+                          {isCreditNote ? `Credit note against ${original?.invoice_number || "invoice"}` : "Tax invoice"}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="text-gray-900">{invoice.client_name}</p>
+                        {invoice.client_gstin && <p className="text-xs text-gray-500">{invoice.client_gstin}</p>}
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="text-gray-900">{invoice.projects?.name}</p>
+                        <p className="text-xs text-gray-500">{invoice.phases?.name}</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <p>{formatDate(invoice.invoice_date)}</p>
+                        {invoice.due_date && !isCreditNote && (
+                          <p className={`text-xs ${isOverdue ? "text-red-600 font-medium" : "text-gray-500"}`}>
+                            Due {formatDate(invoice.due_date)}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <p className={`font-medium ${isCreditNote ? "text-red-600" : "text-gray-900"}`}>
+                          {isCreditNote && "- "}
+                          {formatCurrency(
+                            invoice.status === "draft" ? invoiceTotals(invoice.invoice_items).total : Number(invoice.total)
+                          )}
+                        </p>
+                        {credited > 0 && (
+                          <p className="text-xs text-gray-500">Credited {formatCurrency(credited)}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${statusColors[invoice.status]}`}>
+                          {statusLabels[invoice.status]}
+                        </span>
+                        {isOverdue && (
+                          <span className="ml-1 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-700">Overdue</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end gap-1">
+                          {invoice.status !== "draft" && (
+                            <button
+                              onClick={() => generateInvoicePdf(invoice)}
+                              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                              title="Download PDF"
+                            >
+                              <Download className="w-4 h-4" />
+                            </button>
+                          )}
+                          {canManage && invoice.status === "draft" && (
+                            <>
+                              <button
+                                onClick={() => setFormState({ invoice })}
+                                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                                title="Edit draft"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleIssue(invoice)}
+                                className="flex items-center px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700"
+                              >
+                                <Send className="w-4 h-4 mr-1" />
+                                Issue
+                              </button>
+                              <button
+                                onClick={() => handleDelete(invoice)}
+                                className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                                title="Delete draft"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                          {canManage && !isCreditNote && invoice.status === "issued" &&
+                            (pendingLink(invoice) ? (
+                              <a
+                                href={pendingLink(invoice)!.razorpay_link_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg"
+                                title="Open payment link"
+                              >
+                                <LinkIcon className="w-4 h-4" />
+                              </a>
+                            ) : (
+                              <button
+                                onClick={() => handleCreatePaymentLink(invoice)}
+                                className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg"
+                                title="Create Razorpay payment link"
+                              >
+                                <LinkIcon className="w-4 h-4" />
+                              </button>
+                            ))}
+                          {canManage && !isCreditNote && invoice.status === "issued" && (
+                            <button
+                              onClick={() => openPaid(invoice)}
+                              className="flex items-center px-3 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700"
+                            >
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Mark Paid
+                            </button>
+                          )}
+                          {canManage && !isCreditNote && (invoice.status === "issued" || invoice.status === "paid") && (
+                            <button
+                              onClick={() => setFormState({ creditFor: invoice })}
+                              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                              title="Raise credit note"
+                            >
+                              <Undo2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {formState && (
+        <InvoiceForm
+          projects={projects}
+          invoices={invoices}
+          business={business}
+          invoice={formState.invoice}
+          creditFor={formState.creditFor}
+          onClose={() => setFormState(null)}
+          onSaved={() => {
+            setFormState(null);
+            fetchInvoices();
+          }}
+        />
+      )}
+
+      {paying && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setPaying(null)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Mark {paying.invoice_number} Paid</h3>
+              <button onClick={() => setPaying(null)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              {formatCurrency(balanceDue(paying))} will be recorded as income against {paying.phases?.name}.
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Received On</label>
+                <input
+                  type="date"
+                  value={paidOn}
+                  onChange={(e) => setPaidOn(e.target.value)}
+                  className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Payment Method</label>
+                <select
+                  value={paymentMethod}
+                  onChange={(e) => setPaymentMethod(e.target.value)}
+                  className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {PAYMENT_OPTIONS.map((method) => (
+                    <option key={method} value={method}>{method}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 mt-6">
+              <button
+                onClick={() => setPaying(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleMarkPaid}
+                disabled={saving}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Record Payment"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
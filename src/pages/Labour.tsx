@@ -0,0 +1,716 @@
+import { useState, useEffect } from "react";
+import { HardHat, ChevronLeft, ChevronRight, Plus, Save, Trash2, Lock, CheckCircle, Wallet, X } from "lucide-react";
+import { addWeeks, format, parseISO } from "date-fns";
+import { Layout } from "../components/Layout/Layout";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  listProjectOptions,
+  listProjectPhases,
+  listLabourWorkers,
+  createLabourWorker,
+  updateLabourWorker,
+  listAttendance,
+  saveAttendance,
+  deleteAttendance,
+  listPayrollBatches,
+  createPayrollBatch,
+  payPayrollBatch,
+  deletePayrollBatch,
+  payrollWeek,
+  summariseWages,
+  AttendanceInput,
+  PayrollBatchWithPhase,
+  ProjectOption,
+} from "../lib/repositories";
+import type { Labour as Attendance, LabourWorker, ProjectPhase } from "../types";
+
+type LabourTab = "muster" | "payroll" | "workers";
+
+const PAYMENT_OPTIONS = ["Cash", "UPI", "Card", "Bank Transfer", "Cheque"];
+
+const emptyWorkerForm = { name: "", trade: "", phone: "", rate_per_hour: "" };
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDay = (date: string) => format(parseISO(date), "dd MMM yyyy");
+
+const cellKey = (workerId: string, date: string) => `${workerId}|${date}`;
+
+export function Labour() {
+  const { user, userRole, permissions } = useAuth();
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [phaseId, setPhaseId] = useState("");
+  const [weekDate, setWeekDate] = useState(new Date());
+  const [tab, setTab] = useState<LabourTab>("muster");
+
+  const [workers, setWorkers] = useState<LabourWorker[]>([]);
+  const [attendance, setAttendance] = useState<Attendance[]>([]);
+  const [batches, setBatches] = useState<PayrollBatchWithPhase[]>([]);
+  const [hours, setHours] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [workerForm, setWorkerForm] = useState(emptyWorkerForm);
+  const [showWorkerForm, setShowWorkerForm] = useState(false);
+  const [batchToPay, setBatchToPay] = useState<PayrollBatchWithPhase | null>(null);
+  const [payment, setPayment] = useState({ method: "Cash", date: format(new Date(), "yyyy-MM-dd") });
+
+  const isAdmin = userRole === "Admin";
+  const canRecord = isAdmin || permissions.includes("mark_attendance");
+  const canPay = isAdmin || permissions.includes("pay_wages");
+
+  const week = payrollWeek(weekDate);
+  const activeWorkers = workers.filter((w) => w.active);
+
+  useEffect(() => {
+    if (!user) return;
+    listProjectOptions(user.id)
+      .then((data) => {
+        setProjects(data);
+        if (data.length > 0) setProjectId((current) => current || data[0].id);
+      })
+      .catch((error) => console.error("Error fetching projects:", error));
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    setPhaseId("");
+    listProjectPhases(projectId)
+      .then((data) => {
+        setPhases(data);
+        if (data.length > 0) setPhaseId(data[0].id);
+      })
+      .catch((error) => console.error("Error fetching phases:", error));
+    fetchWorkers();
+    fetchBatches();
+  }, [projectId]);
+
+  useEffect(() => {
+    if (projectId) fetchAttendance();
+  }, [projectId, week.start]);
+
+  // Rebuild the editable grid from the saved attendance of the selected phase
+  useEffect(() => {
+    const grid: Record<string, string> = {};
+    attendance
+      .filter((a) => a.phase_id === phaseId)
+      .forEach((a) => {
+        grid[cellKey(a.worker_id, a.date)] = String(Number(a.hours_worked));
+      });
+    setHours(grid);
+  }, [attendance, phaseId]);
+
+  async function fetchWorkers() {
+    try {
+      setWorkers(await listLabourWorkers(projectId));
+    } catch (error) {
+      console.error("Error fetching workers:", error);
+    }
+  }
+
+  async function fetchAttendance() {
+    setLoading(true);
+    try {
+      setAttendance(await listAttendance(projectId, week.start, week.end));
+    } catch (error) {
+      console.error("Error fetching attendance:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchBatches() {
+    try {
+      setBatches(await listPayrollBatches(projectId));
+    } catch (error) {
+      console.error("Error fetching payroll batches:", error);
+    }
+  }
+
+  const findEntry = (workerId: string, date: string) =>
+    attendance.find((a) => a.worker_id === workerId && a.date === date);
+
+  const handleSaveMusterRoll = async () => {
+    if (!phaseId) {
+      alert("Please select a phase");
+      return;
+    }
+
+    const toSave: AttendanceInput[] = [];
+    const toDelete: string[] = [];
+
+    for (const worker of activeWorkers) {
+      for (const date of week.days) {
+        const entry = findEntry(worker.id, date);
+        // Days booked to another phase or already in a payroll batch are read-only
+        if (entry && (entry.phase_id !== phaseId || entry.payroll_batch_id)) continue;
+
+        const value = parseFloat(hours[cellKey(worker.id, date)] || "");
+        if (value > 24) {
+          alert(`${worker.name}: hours on ${formatDay(date)} cannot exceed 24`);
+          return;
+        }
+
+        if (value > 0) {
+          if (!entry || Number(entry.hours_worked) !== value) {
+            toSave.push({
+              project_id: projectId,
+              phase_id: phaseId,
+              worker_id: worker.id,
+              date,
+              hours_worked: value,
+            });
+          }
+        } else if (entry) {
+          toDelete.push(entry.id);
+        }
+      }
+    }
+
+    setSaving(true);
+    try {
+      await saveAttendance(toSave);
+      await deleteAttendance(toDelete);
+      await fetchAttendance();
+      alert("Muster roll saved");
+    } catch (error) {
+      console.error("Error saving muster roll:", error);
+      alert(`Failed to save muster roll: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateBatch = async () => {
+    if (!phaseId) return;
+    try {
+      await createPayrollBatch(phaseId, week.start);
+      await Promise.all([fetchAttendance(), fetchBatches()]);
+      setTab("payroll");
+    } catch (error) {
+      console.error("Error creating payroll batch:", error);
+      alert(`Failed to create payroll batch: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handlePayBatch = async () => {
+    if (!batchToPay) return;
+    try {
+      await payPayrollBatch(batchToPay.id, payment.method, payment.date);
+      setBatchToPay(null);
+      await Promise.all([fetchAttendance(), fetchBatches()]);
+      alert("Wages marked as paid and recorded as a Labour expense");
+    } catch (error) {
+      console.error("Error paying payroll batch:", error);
+      alert(`Failed to pay batch: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleDeleteBatch = async (batch: PayrollBatchWithPhase) => {
+    if (!window.confirm("Delete this payroll batch? Its attendance becomes editable again.")) return;
+    try {
+      await deletePayrollBatch(batch.id);
+      await Promise.all([fetchAttendance(), fetchBatches()]);
+    } catch (error) {
+      console.error("Error deleting payroll batch:", error);
+      alert(`Failed to delete batch: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleAddWorker = async () => {
+    if (!workerForm.name.trim()) {
+      alert("Please enter the worker's name");
+      return;
+    }
+    try {
+      await createLabourWorker({
+        project_id: projectId,
+        name: workerForm.name.trim(),
+        trade: workerForm.trade.trim() || null,
+        phone: workerForm.phone.trim() || null,
+        rate_per_hour: parseFloat(workerForm.rate_per_hour) || 0,
+        active: true,
+      });
+      setWorkerForm(emptyWorkerForm);
+      setShowWorkerForm(false);
+      await fetchWorkers();
+    } catch (error) {
+      console.error("Error adding worker:", error);
+      alert(`Failed to add worker: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleUpdateWorker = async (worker: LabourWorker, patch: Partial<LabourWorker>) => {
+    try {
+      await updateLabourWorker(worker.id, patch);
+      await fetchWorkers();
+    } catch (error) {
+      console.error("Error updating worker:", error);
+      alert(`Failed to update worker: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const phaseAttendance = attendance.filter((a) => a.phase_id === phaseId);
+  const wages = summariseWages(phaseAttendance);
+  const totalWages = wages.reduce((sum, w) => sum + w.amount, 0);
+  const totalHours = wages.reduce((sum, w) => sum + w.hours, 0);
+  const unbatchedCount = phaseAttendance.filter((a) => !a.payroll_batch_id && Number(a.hours_worked) > 0).length;
+  const pendingPayroll = batches.filter((b) => b.status === "pending").reduce((sum, b) => sum + Number(b.total_amount), 0);
+  const workerName = (id: string) => workers.find((w) => w.id === id)?.name ?? "Unknown";
+
+  return (
+    <Layout title="Labour & Payroll" subtitle="Daily muster roll and weekly wages">
+      <div className="p-6">
+        <div className="mb-6 flex flex-wrap gap-4 items-center">
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            {projects.length === 0 && <option value="">No projects</option>}
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <select
+            value={phaseId}
+            onChange={(e) => setPhaseId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            {phases.length === 0 && <option value="">No phases</option>}
+            {phases.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setWeekDate(addWeeks(weekDate, -1))}
+              className="p-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+              title="Previous week"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm font-medium text-gray-700 min-w-[200px] text-center">
+              {formatDay(week.start)} – {formatDay(week.end)}
+            </span>
+            <button
+              onClick={() => setWeekDate(addWeeks(weekDate, 1))}
+              className="p-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+              title="Next week"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <p className="text-sm text-gray-600">Hours This Week</p>
+            <p className="text-2xl font-bold text-gray-900">{totalHours.toFixed(1)}</p>
+          </div>
+          <div className="bg-blue-50 rounded-lg border border-blue-200 p-4">
+            <p className="text-sm text-blue-700">Wages This Week</p>
+            <p className="text-2xl font-bold text-blue-600">{formatCurrency(totalWages)}</p>
+          </div>
+          <div className="bg-yellow-50 rounded-lg border border-yellow-200 p-4">
+            <p className="text-sm text-yellow-700">Unpaid Batches</p>
+            <p className="text-2xl font-bold text-yellow-600">{formatCurrency(pendingPayroll)}</p>
+          </div>
+        </div>
+
+        <div className="flex border-b border-gray-200 mb-6">
+          {([
+            ["muster", "Muster Roll"],
+            ["payroll", "Payroll"],
+            ["workers", "Workers"],
+          ] as [LabourTab, string][]).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                tab === key ? "border-blue-600 text-blue-600" : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {tab === "muster" && (
+          <div className="space-y-6">
+            {loading ? (
+              <div className="text-center py-8 text-gray-500">Loading muster roll...</div>
+            ) : activeWorkers.length === 0 ? (
+              <div className="text-center py-12">
+                <HardHat className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">Add workers to this project to start the muster roll</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium text-gray-600">Worker</th>
+                      {week.days.map((date) => (
+                        <th key={date} className="px-2 py-3 text-center font-medium text-gray-600">
+                          {format(parseISO(date), "EEE dd")}
+                        </th>
+                      ))}
+                      <th className="px-4 py-3 text-right font-medium text-gray-600">Hours</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {activeWorkers.map((worker) => {
+                      const rowHours = week.days.reduce(
+                        (sum, date) => sum + (parseFloat(hours[cellKey(worker.id, date)] || "") || 0),
+                        0
+                      );
+
+                      return (
+                        <tr key={worker.id}>
+                          <td className="px-4 py-2">
+                            <p className="font-medium text-gray-900">{worker.name}</p>
+                            <p className="text-xs text-gray-500">
+                              {worker.trade || "Worker"} · {formatCurrency(Number(worker.rate_per_hour))}/hr
+                            </p>
+                          </td>
+                          {week.days.map((date) => {
+                            const entry = findEntry(worker.id, date);
+                            const otherPhase = entry && entry.phase_id !== phaseId;
+                            const locked = !!entry?.payroll_batch_id;
+
+                            return (
+                              <td key={date} className="px-2 py-2 text-center">
+                                {otherPhase ? (
+                                  <span
+                                    className="text-xs text-gray-400"
+                                    title={`Booked to ${phases.find((p) => p.id === entry.phase_id)?.name ?? "another phase"}`}
+                                  >
+                                    {Number(entry.hours_worked)}h
+                                  </span>
+                                ) : locked ? (
+                                  <span
+                                    className={`inline-flex items-center text-xs ${entry.status === "paid" ? "text-green-600" : "text-gray-500"}`}
+                                    title={entry.status === "paid" ? "Paid" : "In a payroll batch"}
+                                  >
+                                    <Lock className="w-3 h-3 mr-0.5" />
+                                    {Number(entry.hours_worked)}
+                                  </span>
+                                ) : (
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    max="24"
+                                    step="0.5"
+                                    disabled={!canRecord}
+                                    value={hours[cellKey(worker.id, date)] ?? ""}
+                                    onChange={(e) => setHours({ ...hours, [cellKey(worker.id, date)]: e.target.value })}
+                                    className="w-16 border rounded p-1 text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                                  />
+                                )}
+                              </td>
+                            );
+                          })}
+                          <td className="px-4 py-2 text-right font-medium text-gray-900">{rowHours.toFixed(1)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {canRecord && activeWorkers.length > 0 && (
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSaveMusterRoll}
+                  disabled={saving || !phaseId}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? "Saving..." : "Save Muster Roll"}
+                </button>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Weekly Wages</h3>
+                {canPay && unbatchedCount > 0 && (
+                  <button
+                    onClick={handleCreateBatch}
+                    className="flex items-center px-3 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors"
+                  >
+                    <Wallet className="w-4 h-4 mr-1" />
+                    Create Payroll Batch
+                  </button>
+                )}
+              </div>
+              {wages.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">No attendance recorded for this phase this week</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-600 border-b">
+                      <th className="py-2 text-left font-medium">Worker</th>
+                      <th className="py-2 text-right font-medium">Days</th>
+                      <th className="py-2 text-right font-medium">Hours</th>
+                      <th className="py-2 text-right font-medium">Wages</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {wages.map((w) => (
+                      <tr key={w.worker_id} className="border-b border-gray-100">
+                        <td className="py-2">{workerName(w.worker_id)}</td>
+                        <td className="py-2 text-right">{w.days}</td>
+                        <td className="py-2 text-right">{w.hours.toFixed(1)}</td>
+                        <td className="py-2 text-right">{formatCurrency(w.amount)}</td>
+                      </tr>
+                    ))}
+                    <tr className="font-semibold">
+                      <td className="py-2">Total</td>
+                      <td />
+                      <td className="py-2 text-right">{totalHours.toFixed(1)}</td>
+                      <td className="py-2 text-right">{formatCurrency(totalWages)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+
+        {tab === "payroll" && (
+          <div className="space-y-3">
+            {batches.length === 0 ? (
+              <div className="text-center py-12">
+                <Wallet className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">No payroll batches yet</p>
+              </div>
+            ) : (
+              batches.map((batch) => (
+                <div key={batch.id} className="bg-white rounded-lg border border-gray-200 p-4 flex items-center justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-gray-900">
+                        {formatDay(batch.week_start)} – {formatDay(batch.week_end)}
+                      </h3>
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${
+                          batch.status === "paid" ? "bg-green-100 text-green-700" : "bg-yellow-100 text-yellow-800"
+                        }`}
+                      >
+                        {batch.status === "paid" ? "Paid" : "Pending"}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {batch.phases?.name} · {Number(batch.total_hours).toFixed(1)} hours
+                      {batch.paid_at && ` · Paid ${format(new Date(batch.paid_at), "dd MMM yyyy")} by ${batch.payment_method}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-lg font-bold text-gray-900">{formatCurrency(Number(batch.total_amount))}</span>
+                    {canPay && batch.status === "pending" && (
+                      <>
+                        <button
+                          onClick={() => setBatchToPay(batch)}
+                          className="flex items-center px-3 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors"
+                        >
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Mark Paid
+                        </button>
+                        <button
+                          onClick={() => handleDeleteBatch(batch)}
+                          className="text-red-600 hover:text-red-700"
+                          title="Delete batch"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {tab === "workers" && (
+          <div>
+            {canRecord && !showWorkerForm && (
+              <button
+                onClick={() => setShowWorkerForm(true)}
+                disabled={!projectId}
+                className="flex items-center px-3 py-2 mb-4 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Worker
+              </button>
+            )}
+
+            {showWorkerForm && (
+              <div className="bg-gray-50 rounded-lg p-4 mb-4 grid grid-cols-1 md:grid-cols-5 gap-3">
+                <input
+                  type="text"
+                  placeholder="Name"
+                  value={workerForm.name}
+                  onChange={(e) => setWorkerForm({ ...workerForm, name: e.target.value })}
+                  className="border rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="text"
+                  placeholder="Trade (e.g. Mason)"
+                  value={workerForm.trade}
+                  onChange={(e) => setWorkerForm({ ...workerForm, trade: e.target.value })}
+                  className="border rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="tel"
+                  placeholder="Phone"
+                  value={workerForm.phone}
+                  onChange={(e) => setWorkerForm({ ...workerForm, phone: e.target.value })}
+                  className="border rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Rate per hour (₹)"
+                  value={workerForm.rate_per_hour}
+                  onChange={(e) => setWorkerForm({ ...workerForm, rate_per_hour: e.target.value })}
+                  className="border rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleAddWorker}
+                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowWorkerForm(false);
+                      setWorkerForm(emptyWorkerForm);
+                    }}
+                    className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {workers.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No workers added yet</p>
+            ) : (
+              <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr className="text-gray-600">
+                      <th className="px-4 py-3 text-left font-medium">Name</th>
+                      <th className="px-4 py-3 text-left font-medium">Trade</th>
+                      <th className="px-4 py-3 text-left font-medium">Phone</th>
+                      <th className="px-4 py-3 text-right font-medium">Rate / hr</th>
+                      <th className="px-4 py-3 text-center font-medium">Active</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {workers.map((worker) => (
+                      <tr key={worker.id} className={worker.active ? "" : "text-gray-400"}>
+                        <td className="px-4 py-2 font-medium">{worker.name}</td>
+                        <td className="px-4 py-2">{worker.trade || "-"}</td>
+                        <td className="px-4 py-2">{worker.phone || "-"}</td>
+                        <td className="px-4 py-2 text-right">
+                          {canRecord ? (
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              defaultValue={Number(worker.rate_per_hour)}
+                              onBlur={(e) => {
+                                const rate = parseFloat(e.target.value) || 0;
+                                if (rate !== Number(worker.rate_per_hour)) handleUpdateWorker(worker, { rate_per_hour: rate });
+                              }}
+                              className="w-24 border rounded p-1 text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                          ) : (
+                            formatCurrency(Number(worker.rate_per_hour))
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={worker.active}
+                            disabled={!canRecord}
+                            onChange={(e) => handleUpdateWorker(worker, { active: e.target.checked })}
+                            className="h-4 w-4"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-500 px-4 py-2">
+                  Rate changes apply to days recorded afterwards; saved days keep the rate they were recorded at.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {batchToPay && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Pay Wages</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {batchToPay.phases?.name}, {formatDay(batchToPay.week_start)} – {formatDay(batchToPay.week_end)}:{" "}
+              <span className="font-semibold">{formatCurrency(Number(batchToPay.total_amount))}</span> will be recorded
+              as a Labour expense.
+            </p>
+            <div className="space-y-3">
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Payment Method</label>
+                <select
+                  value={payment.method}
+                  onChange={(e) => setPayment({ ...payment, method: e.target.value })}
+                  className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {PAYMENT_OPTIONS.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Paid On</label>
+                <input
+                  type="date"
+                  value={payment.date}
+                  onChange={(e) => setPayment({ ...payment, date: e.target.value })}
+                  className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 mt-6">
+              <button
+                onClick={() => setBatchToPay(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handlePayBatch}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              >
+                Confirm Payment
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
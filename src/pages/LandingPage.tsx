@@ -2,7 +2,6 @@ import React, { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { motion, useAnimation, useInView } from "framer-motion";
 import { Button } from "../components/ui/button";
-import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
 import { CheckCircle, ArrowRight, Star, Users, Shield, Zap } from "lucide-react";
 
@@ -73,36 +72,23 @@ export const LandingPage: React.FC = () => {
   }
 
   // Handle plan selection
-  const handlePlanSelect = async (planName: string) => {
+  const handlePlanSelect = (planName: string) => {
     if (!user) {
       navigate("/login");
       return;
     }
 
-    try {
-      const { data: plan, error: planError } = await supabase
-        .from("plans")
-        .select("id")
-        .eq("name", planName)
-        .single();
-
-      if (planError) throw planError;
-
-      const { error } = await supabase
-        .from("profiles")
-        .update({
-          plan_id: plan.id,
-          subscription_start: new Date().toISOString(),
-        })
-        .eq("id", user.id);
-
-      if (error) throw error;
-
-      alert(`✅ You have successfully selected the ${planName} plan!`);
+    if (planName === "Free Trial") {
+      // Every account starts on the Free plan
       navigate("/dashboard");
-    } catch (err) {
-      console.error(err);
-      alert("❌ Something went wrong while updating your plan.");
+    } else if (planName === "Enterprise") {
+      window.open(
+        "https://mail.google.com/mail/?view=cm&fs=1&to=firstmetainfra@gmail.com",
+        "_blank"
+      );
+    } else {
+      // Plans are bought, and priced, on the payment page
+      navigate("/admin/payment", { state: { planName } });
     }
   };
 
@@ -579,4 +565,4 @@ export const LandingPage: React.FC = () => {
   );
 };
 
-export default LandingPage;
\ No newline at end of file
+export default LandingPage;
\ No newline at end of file
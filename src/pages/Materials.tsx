@@ -1,8 +1,25 @@
 import React, { useState, useEffect } from "react";
-import { Package, Plus, Search, Filter, CreditCard as Edit, Trash2, Eye, Building, Tag, DollarSign, Hash, X, AlertTriangle, CheckCircle, FileText } from "lucide-react";
+import { Package, Plus, Search, Filter, CreditCard as Edit, Trash2, Eye, Building, Tag, DollarSign, Hash, X, AlertTriangle, CheckCircle, FileText, Layers, ShoppingCart, Store } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 import { Layout } from "../components/Layout/Layout";
-import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import {
+  listMaterials,
+  listProjects,
+  createMaterial,
+  updateMaterial,
+  deleteMaterials,
+  materialStockStatus,
+  remainingRequirement,
+  listVendors,
+  matchVendor,
+  MaterialInput,
+  StockStatus,
+} from "../lib/repositories";
+import type { Vendor } from "../types";
+import { VendorPicker } from "../components/Vendors/VendorPicker";
+import { StockLedger } from "../components/Materials/StockLedger";
+import { PurchaseOrderDraft } from "../components/Materials/PurchaseOrderDraft";
 
 type Material = {
   id: string;
@@ -11,13 +28,16 @@ type Material = {
   unit_cost: number;
   project_id: string;
   project_name?: string;
-  status?: string;
+  stock_quantity: number;
+  qty_issued: number;
+  status: StockStatus;
   updated_at?: string;
-  created_by?: string;
+  created_by?: string | null;
   description?: string;
   category?: string;
   unit?: string;
   supplier?: string;
+  vendor_id?: string;
   hsn?: string;
   specifications?: string;
 };
@@ -29,8 +49,10 @@ type Project = {
 
 export function Materials() {
   const { user } = useAuth();
+  const navigate = useNavigate();
   const [materials, setMaterials] = useState<Material[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -45,6 +67,8 @@ export function Materials() {
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   const [successMessage, setSuccessMessage] = useState("");
   const [showViewModal, setShowViewModal] = useState(false);
+  const [stockMaterial, setStockMaterial] = useState<Material | null>(null);
+  const [showPurchaseOrderDraft, setShowPurchaseOrderDraft] = useState(false);
   const [newMaterial, setNewMaterial] = useState({
     name: "",
     description: "",
@@ -54,9 +78,9 @@ export function Materials() {
     unit_cost: "",
     project_id: "",
     supplier: "",
+    vendor_id: "",
     hsn: "",
     specifications: "",
-    status: "In Stock",
   });
   const [editMaterial, setEditMaterial] = useState({
     name: "",
@@ -67,9 +91,9 @@ export function Materials() {
     unit_cost: "",
     project_id: "",
     supplier: "",
+    vendor_id: "",
     hsn: "",
     specifications: "",
-    status: "In Stock",
   });
 
   const categories = [
@@ -88,6 +112,9 @@ export function Materials() {
   useEffect(() => {
     fetchMaterials();
     fetchProjects();
+    listVendors()
+      .then(setVendors)
+      .catch((error) => console.error("Error fetching vendors:", error));
   }, [user?.id]);
 
   useEffect(() => {
@@ -106,33 +133,9 @@ export function Materials() {
     setLoading(true);
     setError(null);
 
-    const { data, error } = await supabase
-      .from("materials")
-      .select(`
-        id,
-        name,
-        description,
-        category,
-        unit,
-        qty_required,
-        unit_cost,
-        project_id,
-        projects ( name ),
-        supplier,
-        hsn,
-        specifications,
-        status,
-        updated_at,
-        created_by
-      `)
-      .eq("created_by", user.id)
-      .order("updated_at", { ascending: false });
-
-    if (error) {
-      console.error("Fetch error:", error);
-      setError(error.message);
-    } else {
-      const mapped = (data || []).map((m: any) => ({
+    try {
+      const data = await listMaterials(user.id);
+      const mapped = data.map((m) => ({
         id: m.id,
         name: m.name,
         description: m.description || `Construction material for ${m.projects?.name || 'project'}`,
@@ -143,13 +146,19 @@ export function Materials() {
         project_id: m.project_id,
         project_name: m.projects?.name || "Unknown",
         supplier: m.supplier || 'Not Specified',
+        vendor_id: m.vendor_id || undefined,
         hsn: m.hsn || '',
         specifications: m.specifications || 'Standard construction grade material',
-        status: m.status || "In Stock",
+        stock_quantity: Number(m.stock_quantity || 0),
+        qty_issued: Number(m.qty_issued || 0),
+        status: materialStockStatus(m),
         updated_at: m.updated_at,
         created_by: m.created_by,
       }));
       setMaterials(mapped);
+    } catch (error) {
+      console.error("Fetch error:", error);
+      setError(error instanceof Error ? error.message : "Failed to load materials");
     }
     setLoading(false);
   };
@@ -157,16 +166,11 @@ export function Materials() {
   const fetchProjects = async () => {
     if (!user?.id) return;
 
-    const { data, error } = await supabase
-      .from("projects")
-      .select("id, name")
-      .eq("created_by", user.id)
-      .order("created_at", { ascending: false });
-
-    if (error) {
+    try {
+      const data = await listProjects(user.id);
+      setProjects(data.map((p) => ({ id: p.id, name: p.name })));
+    } catch (error) {
       console.error("Fetch projects error:", error);
-    } else if (data) {
-      setProjects(data);
     }
   };
 
@@ -181,7 +185,7 @@ export function Materials() {
       return;
     }
 
-    const materialData = {
+    const materialData: MaterialInput = {
       name: newMaterial.name.trim(),
       description: newMaterial.description.trim() || null,
       category: newMaterial.category,
@@ -190,36 +194,36 @@ export function Materials() {
       unit_cost: Number(newMaterial.unit_cost),
       project_id: newMaterial.project_id,
       supplier: newMaterial.supplier.trim() || null,
+      vendor_id: newMaterial.vendor_id || null,
       hsn: newMaterial.hsn.trim() || null,
       specifications: newMaterial.specifications.trim() || null,
-      status: newMaterial.status,
-      created_by: user?.id,
     };
 
-    const { error } = await supabase.from("materials").insert([materialData]);
-
-    if (error) {
+    try {
+      await createMaterial(materialData, user?.id || "");
+    } catch (error) {
       console.error("Insert error:", error);
-      alert("Error adding material: " + error.message);
-    } else {
-      setShowModal(false);
-      setNewMaterial({
-        name: "",
-        description: "",
-        category: "Cement & Concrete",
-        unit: "Kg",
-        qty_required: "",
-        unit_cost: "",
-        project_id: "",
-        supplier: "",
-        hsn: "",
-        specifications: "",
-        status: "In Stock",
-      });
-      setSuccessMessage("Material added successfully!");
-      setShowSuccessMessage(true);
-      fetchMaterials();
+      alert("Error adding material: " + (error instanceof Error ? error.message : "Please try again."));
+      return;
     }
+
+    setShowModal(false);
+    setNewMaterial({
+      name: "",
+      description: "",
+      category: "Cement & Concrete",
+      unit: "Kg",
+      qty_required: "",
+      unit_cost: "",
+      project_id: "",
+      supplier: "",
+      vendor_id: "",
+      hsn: "",
+      specifications: "",
+    });
+    setSuccessMessage("Material added successfully!");
+    setShowSuccessMessage(true);
+    fetchMaterials();
   };
 
   const handleEditClick = (material: Material) => {
@@ -232,10 +236,10 @@ export function Materials() {
       qty_required: String(material.qty_required),
       unit_cost: String(material.unit_cost),
       project_id: material.project_id,
-      supplier: material.supplier || "",
+      supplier: material.supplier === 'Not Specified' ? "" : material.supplier || "",
+      vendor_id: material.vendor_id || matchVendor(vendors, material.supplier)?.id || "",
       hsn: material.hsn || "",
       specifications: material.specifications || "",
-      status: material.status || "In Stock",
     });
     setShowEditModal(true);
   };
@@ -253,7 +257,7 @@ export function Materials() {
       return;
     }
 
-    const updateData = {
+    const updateData: MaterialInput = {
       name: editMaterial.name.trim(),
       description: editMaterial.description.trim() || null,
       category: editMaterial.category,
@@ -262,17 +266,17 @@ export function Materials() {
       unit_cost: Number(editMaterial.unit_cost),
       project_id: editMaterial.project_id,
       supplier: editMaterial.supplier.trim() || null,
+      vendor_id: editMaterial.vendor_id || null,
       hsn: editMaterial.hsn.trim() || null,
       specifications: editMaterial.specifications.trim() || null,
-      status: editMaterial.status,
-      updated_at: new Date().toISOString(),
     };
 
-    const { error } = await supabase
-      .from("materials")
-      .update(updateData)
-      .eq("id", selectedMaterial.id)
-      .eq("created_by", user?.id);
+    let error: Error | null = null;
+    try {
+      await updateMaterial(selectedMaterial.id, user?.id || "", updateData);
+    } catch (err) {
+      error = err as Error;
+    }
 
     if (error) {
       console.error("Update error:", error);
@@ -295,11 +299,12 @@ export function Materials() {
   };
 
   const handleDeleteMaterials = async () => {
-    const { error } = await supabase
-      .from("materials")
-      .delete()
-      .in("id", selectedMaterials)
-      .eq("created_by", user?.id);
+    let error: Error | null = null;
+    try {
+      await deleteMaterials(selectedMaterials, user?.id || "");
+    } catch (err) {
+      error = err as Error;
+    }
 
     if (error) {
       alert("Error deleting materials: " + error.message);
@@ -376,6 +381,9 @@ export function Materials() {
   const avgRate = materials.length > 0 ? materials.reduce((sum, m) => sum + m.unit_cost, 0) / materials.length : 0;
   const categoriesCount = [...new Set(materials.map(m => m.category))].length;
   const suppliersCount = suppliers.length;
+  const lowStockMaterials = materials.filter(
+    (m) => (!selectedProject || m.project_id === selectedProject) && m.status !== 'In Stock' && remainingRequirement(m) > 0
+  );
 
   const getHeaderSubtitle = () => {
     if (selectedMaterial) {
@@ -417,13 +425,29 @@ export function Materials() {
                 <h1 className="text-3xl font-bold text-slate-900">Material Catalog</h1>
                 <p className="text-slate-600 mt-1">Manage your construction materials with rates and specifications</p>
               </div>
-              <button
-                onClick={() => setShowModal(true)}
-                className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200"
-              >
-                <Plus className="w-4 h-4" />
-                <span>Add Material</span>
-              </button>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => navigate("/purchase-orders")}
+                  className="flex items-center space-x-2 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 transition-colors"
+                >
+                  <ShoppingCart className="w-4 h-4" />
+                  <span>Purchase Orders</span>
+                </button>
+                <button
+                  onClick={() => navigate("/vendors")}
+                  className="flex items-center space-x-2 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 transition-colors"
+                >
+                  <Store className="w-4 h-4" />
+                  <span>Vendors</span>
+                </button>
+                <button
+                  onClick={() => setShowModal(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add Material</span>
+                </button>
+              </div>
             </div>
 
             <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
@@ -526,16 +550,41 @@ export function Materials() {
               </div>
             </div>
 
+            {lowStockMaterials.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start space-x-3">
+                <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                <div className="text-sm">
+                  <p className="font-medium text-amber-800">
+                    {lowStockMaterials.length} material{lowStockMaterials.length > 1 ? 's' : ''} running low
+                  </p>
+                  <p className="text-amber-700 mt-1">
+                    {lowStockMaterials
+                      .map((m) => `${m.name} (${m.stock_quantity} of ${remainingRequirement(m)} ${m.unit} still needed)`)
+                      .join(', ')}
+                  </p>
+                </div>
+              </div>
+            )}
+
             <div className="flex items-center justify-between text-sm text-slate-600">
               <span>Showing {filteredMaterials.length} of {materials.length} materials</span>
               {selectedMaterials.length > 0 && (
-                <button
-                  onClick={showDeleteConfirmation}
-                  className="flex items-center space-x-2 px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors"
-                >
-                  <Trash2 className="w-4 h-4" />
-                  <span>Delete Selected ({selectedMaterials.length})</span>
-                </button>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setShowPurchaseOrderDraft(true)}
+                    className="flex items-center space-x-2 px-3 py-1 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
+                  >
+                    <ShoppingCart className="w-4 h-4" />
+                    <span>Create PO ({selectedMaterials.length})</span>
+                  </button>
+                  <button
+                    onClick={showDeleteConfirmation}
+                    className="flex items-center space-x-2 px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span>Delete Selected ({selectedMaterials.length})</span>
+                  </button>
+                </div>
               )}
             </div>
 
@@ -616,6 +665,10 @@ export function Materials() {
                             <Hash className="w-4 h-4 text-slate-400 flex-shrink-0" />
                             <span className="text-slate-600">Qty: {material.qty_required}</span>
                           </div>
+                          <div className="flex items-center space-x-2">
+                            <Layers className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                            <span className="text-slate-600">Stock: {material.stock_quantity} {material.unit}</span>
+                          </div>
                           <div className="flex items-center space-x-2">
                             <Building className="w-4 h-4 text-slate-400 flex-shrink-0" />
                             <span className="text-slate-600 truncate" title={material.supplier}>
@@ -638,7 +691,7 @@ export function Materials() {
                         <div className="flex items-center justify-between">
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                             material.status === 'In Stock' ? 'bg-green-100 text-green-800' :
-                            material.status === 'Ordered' ? 'bg-yellow-100 text-yellow-800' :
+                            material.status === 'Low Stock' ? 'bg-yellow-100 text-yellow-800' :
                             'bg-red-100 text-red-800'
                           }`}>
                             {material.status}
@@ -661,6 +714,16 @@ export function Materials() {
                           >
                             <Eye className="w-4 h-4" />
                           </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setStockMaterial(material);
+                            }}
+                            className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                            title="Stock Ledger"
+                          >
+                            <Layers className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -778,12 +841,14 @@ export function Materials() {
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
-                <input
-                  type="text"
-                  placeholder="Enter supplier name"
+                <VendorPicker
+                  vendors={vendors}
+                  value={newMaterial.vendor_id}
+                  unlinkedName={newMaterial.vendor_id ? undefined : newMaterial.supplier}
+                  onChange={(vendor) =>
+                    setNewMaterial({ ...newMaterial, vendor_id: vendor?.id || "", supplier: vendor?.name || newMaterial.supplier })
+                  }
                   className="border border-gray-300 rounded-lg w-full px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  value={newMaterial.supplier}
-                  onChange={(e) => setNewMaterial({ ...newMaterial, supplier: e.target.value })}
                 />
               </div>
               <div>
@@ -796,18 +861,6 @@ export function Materials() {
                   onChange={(e) => setNewMaterial({ ...newMaterial, hsn: e.target.value })}
                 />
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
-                <select
-                  className="border border-gray-300 rounded-lg w-full px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  value={newMaterial.status}
-                  onChange={(e) => setNewMaterial({ ...newMaterial, status: e.target.value })}
-                >
-                  <option value="In Stock">In Stock</option>
-                  <option value="Ordered">Ordered</option>
-                  <option value="Out of Stock">Out of Stock</option>
-                </select>
-              </div>
               <div className="col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
                 <textarea
@@ -934,12 +987,14 @@ export function Materials() {
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
-                <input
-                  type="text"
-                  placeholder="Enter supplier name"
+                <VendorPicker
+                  vendors={vendors}
+                  value={editMaterial.vendor_id}
+                  unlinkedName={editMaterial.vendor_id ? undefined : editMaterial.supplier}
+                  onChange={(vendor) =>
+                    setEditMaterial({ ...editMaterial, vendor_id: vendor?.id || "", supplier: vendor?.name || editMaterial.supplier })
+                  }
                   className="border border-gray-300 rounded-lg w-full px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  value={editMaterial.supplier}
-                  onChange={(e) => setEditMaterial({ ...editMaterial, supplier: e.target.value })}
                 />
               </div>
               <div>
@@ -952,18 +1007,6 @@ export function Materials() {
                   onChange={(e) => setEditMaterial({ ...editMaterial, hsn: e.target.value })}
                 />
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
-                <select
-                  className="border border-gray-300 rounded-lg w-full px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  value={editMaterial.status}
-                  onChange={(e) => setEditMaterial({ ...editMaterial, status: e.target.value })}
-                >
-                  <option value="In Stock">In Stock</option>
-                  <option value="Ordered">Ordered</option>
-                  <option value="Out of Stock">Out of Stock</option>
-                </select>
-              </div>
               <div className="col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
                 <textarea
@@ -1063,6 +1106,12 @@ export function Materials() {
                       <span className="text-sm text-slate-500">Quantity Required</span>
                       <p className="font-medium">{selectedMaterial.qty_required} {selectedMaterial.unit}</p>
                     </div>
+                    <div>
+                      <span className="text-sm text-slate-500">Stock on Hand / Issued</span>
+                      <p className="font-medium">
+                        {selectedMaterial.stock_quantity} / {selectedMaterial.qty_issued} {selectedMaterial.unit}
+                      </p>
+                    </div>
                     <div>
                       <span className="text-sm text-slate-500">Total Cost</span>
                       <p className="text-xl font-bold text-blue-600">
@@ -1073,7 +1122,7 @@ export function Materials() {
                       <span className="text-sm text-slate-500">Status</span>
                       <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
                         selectedMaterial.status === 'In Stock' ? 'bg-green-100 text-green-800' :
-                        selectedMaterial.status === 'Ordered' ? 'bg-yellow-100 text-yellow-800' :
+                        selectedMaterial.status === 'Low Stock' ? 'bg-yellow-100 text-yellow-800' :
                         'bg-red-100 text-red-800'
                       }`}>
                         {selectedMaterial.status}
@@ -1124,6 +1173,28 @@ export function Materials() {
         </div>
       )}
 
+      {stockMaterial && (
+        <StockLedger
+          material={materials.find((m) => m.id === stockMaterial.id) ?? stockMaterial}
+          onClose={() => setStockMaterial(null)}
+          onChange={fetchMaterials}
+        />
+      )}
+
+      {showPurchaseOrderDraft && (
+        <PurchaseOrderDraft
+          materials={materials.filter((m) => selectedMaterials.includes(m.id))}
+          vendors={vendors}
+          onClose={() => setShowPurchaseOrderDraft(false)}
+          onCreated={(count) => {
+            setShowPurchaseOrderDraft(false);
+            setSelectedMaterials([]);
+            setSuccessMessage(`${count} draft purchase order${count > 1 ? 's' : ''} created`);
+            setShowSuccessMessage(true);
+          }}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div
@@ -0,0 +1,198 @@
+import { useState, useEffect } from "react";
+import { CheckSquare, Calendar, AlertTriangle, Search, User } from "lucide-react";
+import { Layout } from "../components/Layout/Layout";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  listAssignedTasks,
+  listMembershipsByEmail,
+  listProjectOptions,
+  listTasksForProjects,
+  updateTask,
+  isTaskOverdue,
+  TaskWithPhase,
+} from "../lib/repositories";
+import type { TaskStatus } from "../types";
+import { taskStatusLabels, taskPriorityColors } from "../components/Tasks/taskLabels";
+
+type TaskFilter = "open" | "overdue" | "completed" | "all";
+
+export function MyTasks() {
+  const { user, userRole } = useAuth();
+  const [tasks, setTasks] = useState<TaskWithPhase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<TaskFilter>("open");
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const isAdmin = userRole === "Admin";
+
+  // Team members see tasks assigned to them; admins see every task on their projects
+  const fetchTasks = async () => {
+    if (!user) return;
+
+    try {
+      if (isAdmin) {
+        const projects = await listProjectOptions(user.id);
+        setTasks(await listTasksForProjects(projects.map((p) => p.id)));
+      } else {
+        const memberships = user.email ? await listMembershipsByEmail(user.email) : [];
+        setTasks(await listAssignedTasks(memberships.map((m) => m.id)));
+      }
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTasks();
+  }, [user?.id, isAdmin]);
+
+  const handleStatusChange = async (taskId: string, status: TaskStatus) => {
+    try {
+      await updateTask(taskId, { status });
+      await fetchTasks();
+    } catch (error) {
+      console.error("Error updating task:", error);
+      alert(`Failed to update task: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const overdueCount = tasks.filter((t) => isTaskOverdue(t)).length;
+  const openCount = tasks.filter((t) => t.status !== "completed").length;
+
+  const filteredTasks = tasks.filter((task) => {
+    const matchesFilter =
+      filter === "all" ||
+      (filter === "open" && task.status !== "completed") ||
+      (filter === "completed" && task.status === "completed") ||
+      (filter === "overdue" && isTaskOverdue(task));
+
+    const searchLower = searchTerm.toLowerCase();
+    const matchesSearch =
+      task.name.toLowerCase().includes(searchLower) ||
+      task.phases?.name.toLowerCase().includes(searchLower) ||
+      task.phases?.projects?.name.toLowerCase().includes(searchLower);
+
+    return matchesFilter && matchesSearch;
+  });
+
+  return (
+    <Layout title="My Tasks" subtitle={isAdmin ? "Tasks across your projects" : "Tasks assigned to you"}>
+      <div className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <p className="text-sm text-gray-600">Open Tasks</p>
+            <p className="text-2xl font-bold text-gray-900">{openCount}</p>
+          </div>
+          <div className="bg-red-50 rounded-lg border border-red-200 p-4">
+            <p className="text-sm text-red-700">Overdue</p>
+            <p className="text-2xl font-bold text-red-600">{overdueCount}</p>
+          </div>
+          <div className="bg-green-50 rounded-lg border border-green-200 p-4">
+            <p className="text-sm text-green-700">Completed</p>
+            <p className="text-2xl font-bold text-green-600">{tasks.length - openCount}</p>
+          </div>
+        </div>
+
+        <div className="mb-6 flex flex-wrap gap-4 items-center">
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as TaskFilter)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="open">Open</option>
+            <option value="overdue">Overdue</option>
+            <option value="completed">Completed</option>
+            <option value="all">All</option>
+          </select>
+
+          <div className="flex-1 relative min-w-[200px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search tasks, phases or projects"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading tasks...</div>
+        ) : filteredTasks.length === 0 ? (
+          <div className="text-center py-12">
+            <CheckSquare className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">
+              {tasks.length === 0 ? "No tasks assigned yet" : "No tasks match your filters"}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filteredTasks.map((task) => {
+              const overdue = isTaskOverdue(task);
+
+              return (
+                <div
+                  key={task.id}
+                  className={`rounded-lg border p-4 shadow-sm ${
+                    overdue ? "border-red-300 bg-red-50" : "border-gray-200 bg-white"
+                  }`}
+                >
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="flex-1">
+                      <div className="flex items-center flex-wrap gap-2">
+                        <h2 className={`font-semibold ${task.status === "completed" ? "line-through text-gray-400" : "text-gray-900"}`}>
+                          {task.name}
+                        </h2>
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${taskPriorityColors[task.priority]}`}>
+                          {task.priority}
+                        </span>
+                        {overdue && (
+                          <span className="flex items-center px-2 py-0.5 bg-red-100 text-red-700 text-xs font-medium rounded-full">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            Overdue
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {task.phases?.projects?.name} → {task.phases?.name}
+                      </p>
+                      {task.description && <p className="text-sm text-gray-600 mt-1">{task.description}</p>}
+                      <div className="flex items-center flex-wrap gap-4 text-xs text-gray-500 mt-2">
+                        {task.due_date && (
+                          <span className={`flex items-center ${overdue ? "text-red-600 font-medium" : ""}`}>
+                            <Calendar className="w-3 h-3 mr-1" />
+                            Due {new Date(task.due_date).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" })}
+                          </span>
+                        )}
+                        {isAdmin && (
+                          <span className="flex items-center">
+                            <User className="w-3 h-3 mr-1" />
+                            {task.users?.name || "Unassigned"}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <select
+                      value={task.status}
+                      onChange={(e) => handleStatusChange(task.id, e.target.value as TaskStatus)}
+                      className="border rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {(Object.keys(taskStatusLabels) as TaskStatus[]).map((status) => (
+                        <option key={status} value={status}>{taskStatusLabels[status]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
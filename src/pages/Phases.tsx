@@ -1,9 +1,25 @@
 import React, { useState, useEffect } from "react";
-import { Plus, CreditCard as Edit2, Trash2, X, AlertTriangle, Calendar, MapPin, User, File, Camera, DollarSign, TrendingUp, TrendingDown, Search, IndianRupee, BarChart3, List } from "lucide-react";
+import { Plus, CreditCard as Edit2, Trash2, X, AlertTriangle, Calendar, MapPin, User, File, Camera, DollarSign, TrendingUp, TrendingDown, Search, IndianRupee, BarChart3, List, CheckSquare } from "lucide-react";
 import { Layout } from "../components/Layout/Layout";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import {
+  listProjectOptions,
+  listPhasesForProjects,
+  listPhaseTransactions,
+  createPhase,
+  updatePhase,
+  deletePhase as removePhase,
+  listPhaseDependencies,
+  setPhasePredecessors,
+  listTasksForProjects,
+  PhaseInput,
+} from "../lib/repositories";
 import imageCompression from "browser-image-compression";
+import { useNavigate } from "react-router-dom";
+import { PhaseTasks } from "../components/Tasks/PhaseTasks";
+import { PhaseGantt } from "../components/Phases/PhaseGantt";
+import type { PhaseDependency, Task } from "../types";
 
 type Project = { id: string; name: string };
 
@@ -17,6 +33,7 @@ type Phase = {
   status: "Not Started" | "In Progress" | "Completed";
   estimated_cost?: number;
   contractor_name?: string;
+  progress: number;
 };
 
 type Expense = {
@@ -47,6 +64,7 @@ type PhaseComment = {
 
 export function Phases() {
   const { userRole, user } = useAuth();
+  const navigate = useNavigate();
 
   const [projects, setProjects] = useState<Project[]>([]);
   const [phases, setPhases] = useState<Phase[]>([]);
@@ -78,6 +96,9 @@ export function Phases() {
   const [selectedProjectFilter, setSelectedProjectFilter] = useState<string>("all");
   const [viewMode, setViewMode] = useState<'list' | 'gantt'>('list');
   const [timelineFilter, setTimelineFilter] = useState<"All" | "This Month" | "This Year">("All");
+  const [dependencies, setDependencies] = useState<PhaseDependency[]>([]);
+  const [scheduleTasks, setScheduleTasks] = useState<Task[]>([]);
+  const [predecessorIds, setPredecessorIds] = useState<string[]>([]);
 
   const canManage = ["Admin", "Project Manager", "Site Engineer"].includes(
     userRole ?? ""
@@ -138,12 +159,11 @@ export function Phases() {
     const fetchProjects = async () => {
       if (!user?.id) return;
       
-      const { data, error } = await supabase
-        .from("projects")
-        .select("id, name")
-        .eq("created_by", user.id)
-        .order("name");
-      if (!error) setProjects(data || []);
+      try {
+        setProjects(await listProjectOptions(user.id));
+      } catch (error) {
+        console.error("Error fetching projects:", error);
+      }
     };
     fetchProjects();
   }, [user?.id]);
@@ -152,60 +172,47 @@ export function Phases() {
   const fetchPhases = async () => {
     if (!user?.id) return;
     
-    const { data: adminProjects, error: projectsError } = await supabase
-      .from("projects")
-      .select("id")
-      .eq("created_by", user.id);
-
-    if (projectsError) {
-      console.error("Error fetching admin projects:", projectsError.message);
-      return;
-    }
-
-    if (!adminProjects || adminProjects.length === 0) {
-      setPhases([]);
-      return;
-    }
-
-    const adminProjectIds = adminProjects.map(p => p.id);
+    let mapped: Phase[];
+    try {
+      const adminProjects = await listProjectOptions(user.id);
+      if (adminProjects.length === 0) {
+        setPhases([]);
+        return;
+      }
 
-    const { data, error } = await supabase
-      .from("phases")
-      .select(
-        `id, project_id, name, start_date, end_date, status, estimated_cost, contractor_name, projects!inner(name)`
-      )
-      .in("project_id", adminProjectIds)
-      .order("start_date");
-
-    if (error) {
-      console.error("Error fetching phases:", error.message);
+      const projectIds = adminProjects.map(p => p.id);
+      const [data, dependencyData, taskData] = await Promise.all([
+        listPhasesForProjects(projectIds),
+        listPhaseDependencies(projectIds),
+        listTasksForProjects(projectIds),
+      ]);
+      setDependencies(dependencyData);
+      setScheduleTasks(taskData);
+      mapped = data.map((p) => ({
+        id: p.id,
+        project_id: p.project_id,
+        project_name: p.projects?.name || "",
+        name: p.name,
+        start_date: p.start_date,
+        end_date: p.end_date,
+        status: p.status,
+        estimated_cost: p.estimated_cost ?? undefined,
+        contractor_name: p.contractor_name ?? undefined,
+        progress: p.progress ?? 0,
+      }));
+    } catch (error) {
+      console.error("Error fetching phases:", error);
       return;
     }
 
-    const mapped: Phase[] = (data || []).map((p: any) => ({
-      id: p.id,
-      project_id: p.project_id,
-      project_name: p.projects?.name || "",
-      name: p.name,
-      start_date: p.start_date,
-      end_date: p.end_date,
-      status: p.status,
-      estimated_cost: p.estimated_cost,
-      contractor_name: p.contractor_name,
-    }));
-
     console.log("Fetched phases:", mapped);
     setPhases(mapped);
 
     // Fetch expenses per phase
     for (const phase of mapped) {
-      const { data: allTransactions } = await supabase
-        .from("expenses")
-        .select("*")
-        .eq("phase_id", phase.id);
-      
-      const transactions = allTransactions || [];
-      const expensesData = transactions.filter(t => t.type === 'expense' || !t.type);
+      const transactions = await listPhaseTransactions(phase.id).catch(() => []);
+      // Unapproved expenses don't count towards the phase's spend until they are approved
+      const expensesData = transactions.filter(t => (t.type === 'expense' || !t.type) && t.approved);
       const incomesData = transactions.filter(t => t.type === 'income');
       
       setExpenses((prev) => ({ ...prev, [phase.id]: expensesData }));
@@ -231,7 +238,7 @@ export function Phases() {
       return;
     }
 
-    const phaseData = {
+    const phaseData: PhaseInput = {
       project_id: form.project_id,
       name: form.name,
       start_date: form.start_date,
@@ -241,14 +248,28 @@ export function Phases() {
       contractor_name: form.contractor_name || null,
     };
 
-    if (editingPhase) {
-      await supabase.from("phases").update(phaseData).eq("id", editingPhase.id);
-    } else {
-      await supabase.from("phases").insert([phaseData]);
+    try {
+      // Dates are saved before the links so a new link can push the phase later
+      let saved: Pick<Phase, "id" | "project_id">;
+      if (editingPhase) {
+        await updatePhase(editingPhase.id, phaseData);
+        saved = { id: editingPhase.id, project_id: phaseData.project_id };
+      } else {
+        saved = await createPhase(phaseData);
+      }
+      await setPhasePredecessors(
+        saved,
+        predecessorIds.filter(id => phases.some(p => p.id === id && p.project_id === saved.project_id))
+      );
+    } catch (error) {
+      console.error("Error saving phase:", error);
+      alert(`Failed to save phase: ${error instanceof Error ? error.message : "Please try again."}`);
+      return;
     }
 
     setShowModal(false);
     setEditingPhase(null);
+    setPredecessorIds([]);
     setForm({
       project_id: "",
       name: "",
@@ -265,14 +286,11 @@ export function Phases() {
     try {
       console.log("Attempting to delete phase:", phase.id);
       
-      const { error } = await supabase
-        .from("phases")
-        .delete()
-        .eq("id", phase.id);
-
-      if (error) {
+      try {
+        await removePhase(phase.id);
+      } catch (error) {
         console.error("Supabase delete error:", error);
-        alert(`Failed to delete phase: ${error.message}`);
+        alert(`Failed to delete phase: ${error instanceof Error ? error.message : "Please try again."}`);
         return;
       }
 
@@ -315,9 +333,21 @@ export function Phases() {
       estimated_cost: phase.estimated_cost?.toString() || "",
       contractor_name: phase.contractor_name || "",
     });
+    setPredecessorIds(dependencies.filter(d => d.successor_id === phase.id).map(d => d.predecessor_id));
     setShowModal(true);
   };
 
+  const reschedulePhase = async (phase: Pick<Phase, "id" | "name">, startDate: string, endDate: string) => {
+    try {
+      // Phases that depend on this one are pushed later by the database if needed
+      await updatePhase(phase.id, { start_date: startDate, end_date: endDate });
+    } catch (error) {
+      console.error("Error rescheduling phase:", error);
+      alert(`Failed to reschedule ${phase.name}: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+    await fetchPhases();
+  };
+
   const getBudgetUsage = (phase: Phase) => {
     const totalSpent = expenses[phase.id]?.reduce((sum, e) => sum + e.amount, 0) || 0;
     const totalIncome = incomes[phase.id]?.reduce((sum, e) => sum + e.amount, 0) || 0;
@@ -342,6 +372,24 @@ export function Phases() {
 
     setDeletingPhoto(true);
     try {
+      // Remove the row first: photos of a signed-off site log are not deleted, and
+      // their file must stay
+      const { data: deleted, error: dbError } = await supabase
+        .from('phase_photos')
+        .delete()
+        .eq('id', photoToDelete.id)
+        .select('id');
+
+      if (dbError) {
+        throw dbError;
+      }
+      if (!deleted?.length) {
+        alert('This photo is part of a signed-off site log and cannot be deleted.');
+        setShowPhotoDeleteConfirm(false);
+        setPhotoToDelete(null);
+        return;
+      }
+
       const url = photoToDelete.photo_url;
       const urlParts = url.split('/phase-photos/');
 
@@ -356,15 +404,6 @@ export function Phases() {
         }
       }
 
-      const { error: dbError } = await supabase
-        .from('phase_photos')
-        .delete()
-        .eq('id', photoToDelete.id);
-
-      if (dbError) {
-        throw dbError;
-      }
-
       if (viewPhase) {
         await fetchPhasePhotos(viewPhase.id);
       }
@@ -497,135 +536,37 @@ export function Phases() {
 
     // Use timeline filter to set date range
     const { startDate: minDate, endDate: maxDate } = getTimelineDateRange();
-    const totalDays = Math.ceil((maxDate.getTime() - minDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-
-    if (totalDays <= 0) {
-      console.log(`Invalid total days for project ${projectId}: ${totalDays}`);
-      return null;
-    }
-
-    const statusColors: Record<string, string> = {
-      'Completed': 'bg-green-500',
-      'In Progress': 'bg-blue-500',
-      'Not Started': 'bg-gray-400',
-    };
 
     return (
       <div key={projectId} className="bg-white rounded-lg shadow-sm border border-slate-200 p-6 mb-6">
         <h3 className="text-xl font-bold text-slate-900 mb-4">{projectName}</h3>
-        <div className="overflow-x-auto">
-          <div className="min-w-[800px] space-y-3 relative">
-            {/* Timeline Header */}
-            <div className="flex mb-4">
-              <div className="w-48 flex-shrink-0"></div>
-              <div className="flex-1 relative">
-                <div className="flex justify-between text-xs text-slate-600">
-                  {[...Array(5)].map((_, i) => {
-                    const date = new Date(
-                      minDate.getTime() + (i * (maxDate.getTime() - minDate.getTime())) / 4
-                    );
-                    return <span key={i}>{formatDate(date.toISOString())}</span>;
-                  })}
-                </div>
-              </div>
-            </div>
-            {/* Gantt Chart Bars */}
-            {validPhases.map((phase) => {
-              const startDate = new Date(phase.start_date);
-              const endDate = new Date(phase.end_date);
-              const phaseDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-              const startOffset = Math.ceil((startDate.getTime() - minDate.getTime()) / (1000 * 60 * 60 * 24));
-              const widthPercent = Math.max((phaseDays / totalDays) * 100, 2);
-              const leftPercent = (startOffset / totalDays) * 100;
-
-              const totalExpenses = expenses[phase.id]?.reduce((sum, e) => sum + e.amount, 0) || 0;
-              const totalIncome = incomes[phase.id]?.reduce((sum, e) => sum + e.amount, 0) || 0;
-
-              console.log(`Phase ${phase.name}: start=${startDate}, end=${endDate}, width=${widthPercent}%, left=${leftPercent}%`);
-
-              return (
-                <div key={phase.id} className="group">
-                  <div className="flex items-center mb-2">
-                    <div className="w-48 flex-shrink-0">
-                      <p className="text-sm font-semibold text-slate-700 truncate">{phase.name}</p>
-                      <p className="text-xs text-slate-500">
-                        {formatDate(phase.start_date)} - {formatDate(phase.end_date)}
-                      </p>
-                    </div>
-                    <div className="flex-1 ml-4 relative">
-                      <div className="relative h-10 bg-slate-100 rounded-lg">
-                        <div
-                          className={`absolute h-full rounded-lg ${
-                            statusColors[phase.status] || 'bg-gray-400'
-                          } flex items-center justify-center text-white text-xs font-medium transition-all hover:opacity-90 cursor-pointer z-10`}
-                          style={{
-                            left: `${leftPercent}%`,
-                            width: `${widthPercent}%`,
-                          }}
-                          onClick={() => setSelectedPhase(phase)}
-                          title={`${phase.name}: ${formatDate(phase.start_date)} to ${formatDate(phase.end_date)}`}
-                        >
-                          <span className="truncate px-2">{phase.status}</span>
-                        </div>
-                      </div>
-                      <div className="flex items-center gap-4 mt-1 text-xs text-slate-600">
-                        <span className="flex items-center">
-                          <TrendingDown className="w-3 h-3 mr-1 text-red-500" />
-                          ₹{totalExpenses.toLocaleString()}
-                        </span>
-                        <span className="flex items-center">
-                          <TrendingUp className="w-3 h-3 mr-1 text-green-500" />
-                          ₹{totalIncome.toLocaleString()}
-                        </span>
-                        {phase.contractor_name && (
-                          <span className="flex items-center">
-                            <User className="w-3 h-3 mr-1" />
-                            {phase.contractor_name}
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-            {/* Today Line */}
-            {(() => {
-              const today = new Date('2025-10-13');
-              if (today >= minDate && today <= maxDate) {
-                const offsetDays = Math.ceil((today.getTime() - minDate.getTime()) / (1000 * 60 * 60 * 24));
-                const leftPercent = (offsetDays / totalDays) * 100;
-                return (
-                  <div
-                    className="absolute top-0 bottom-0 w-0.5 bg-red-600 z-20"
-                    style={{ left: `calc(${leftPercent}% + 12rem)` }}
-                  >
-                    <div className="absolute top-0 -translate-x-1/2 bg-red-600 text-white text-xs px-1 py-0.5 rounded">
-                      Today
-                    </div>
-                  </div>
-                );
-              }
-              return null;
-            })()}
-          </div>
-        </div>
-        <div className="mt-4 pt-4 border-t border-slate-200">
-          <div className="flex items-center gap-4 text-sm">
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-green-500 rounded"></div>
-              <span className="text-slate-600">Completed</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-blue-500 rounded"></div>
-              <span className="text-slate-600">In Progress</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-gray-400 rounded"></div>
-              <span className="text-slate-600">Not Started</span>
-            </div>
-          </div>
-        </div>
+        <PhaseGantt
+          chartId={projectId}
+          phases={validPhases}
+          dependencies={dependencies.filter(d => d.project_id === projectId)}
+          tasks={scheduleTasks}
+          rangeStart={minDate}
+          rangeEnd={maxDate}
+          canManage={canManage}
+          renderPhaseMeta={(phase) => {
+            const totalExpenses = expenses[phase.id]?.reduce((sum, e) => sum + e.amount, 0) || 0;
+            const totalIncome = incomes[phase.id]?.reduce((sum, e) => sum + e.amount, 0) || 0;
+            return (
+              <p className="flex items-center gap-2 text-xs text-slate-600">
+                <span className="flex items-center">
+                  <TrendingDown className="w-3 h-3 mr-1 text-red-500" />
+                  ₹{totalExpenses.toLocaleString()}
+                </span>
+                <span className="flex items-center">
+                  <TrendingUp className="w-3 h-3 mr-1 text-green-500" />
+                  ₹{totalIncome.toLocaleString()}
+                </span>
+              </p>
+            );
+          }}
+          onSelect={(phase) => setSelectedPhase(validPhases.find(p => p.id === phase.id) ?? null)}
+          onReschedule={reschedulePhase}
+        />
       </div>
     );
   };
@@ -636,13 +577,23 @@ export function Phases() {
         <div className="mb-6 flex flex-wrap gap-4 items-center">
           {canManage && (
             <button
-              onClick={() => setShowModal(true)}
+              onClick={() => {
+                setPredecessorIds([]);
+                setShowModal(true);
+              }}
               className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center"
             >
               <Plus className="w-5 h-5 mr-1" /> Create Phase
             </button>
           )}
 
+          <button
+            onClick={() => navigate("/my-tasks")}
+            className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-50 transition-colors flex items-center"
+          >
+            <CheckSquare className="w-5 h-5 mr-1" /> My Tasks
+          </button>
+
           {/* View Mode Toggle */}
           <div className="flex items-center space-x-2 bg-white border border-slate-200 rounded-lg p-1">
             <button
@@ -878,6 +829,20 @@ export function Phases() {
                         />
                       </div>
                     </div>
+
+                    {/* Task Progress Bar */}
+                    <div className="mt-3">
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="text-xs font-medium text-gray-600">Task Progress</span>
+                        <span className="text-xs font-semibold text-gray-900">{phase.progress}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="h-2 rounded-full bg-green-500 transition-all"
+                          style={{ width: `${phase.progress}%` }}
+                        />
+                      </div>
+                    </div>
                   </div>
                 </div>
               );
@@ -962,6 +927,33 @@ export function Phases() {
                 className="border p-2 rounded w-full mb-3"
               />
 
+              {phases.some(p => p.project_id === form.project_id && p.id !== editingPhase?.id) && (
+                <>
+                  <label className="block text-sm mb-1 font-medium">Starts After</label>
+                  <div className="border rounded w-full mb-3 max-h-32 overflow-y-auto p-2 space-y-1">
+                    {phases
+                      .filter(p => p.project_id === form.project_id && p.id !== editingPhase?.id)
+                      .map((p) => (
+                        <label key={p.id} className="flex items-center text-sm">
+                          <input
+                            type="checkbox"
+                            checked={predecessorIds.includes(p.id)}
+                            onChange={(e) =>
+                              setPredecessorIds(
+                                e.target.checked
+                                  ? [...predecessorIds, p.id]
+                                  : predecessorIds.filter(id => id !== p.id)
+                              )
+                            }
+                            className="mr-2"
+                          />
+                          {p.name} <span className="text-gray-500 ml-1">(ends {formatDate(p.end_date)})</span>
+                        </label>
+                      ))}
+                  </div>
+                </>
+              )}
+
               <div className="flex justify-end gap-2">
                 <button
                   onClick={() => setShowModal(false)}
@@ -1170,6 +1162,13 @@ export function Phases() {
                   </div>
                 )}
 
+                <PhaseTasks
+                  phaseId={viewPhase.id}
+                  projectId={viewPhase.project_id}
+                  canManage={canManage}
+                  onChange={fetchPhases}
+                />
+
                 <div>
                   <div className="flex items-center justify-between mb-4">
                     <div className="flex items-center">
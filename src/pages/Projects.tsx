@@ -1,26 +1,50 @@
 import React, { useState, useEffect } from "react";
-import { Plus, Search, CreditCard as Edit, X, Eye, File, User, Share2, Copy, Lock, Globe, Clock, Link as LinkIcon, Trash2, ExternalLink, MessageCircle } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Plus, Search, CreditCard as Edit, X, Eye, File, User, Share2, Copy, Lock, Globe, Clock, Link as LinkIcon, Trash2, ExternalLink, MessageCircle, Activity, Unlock, ListChecks } from "lucide-react";
 import { Layout } from "../components/Layout/Layout";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import {
+  listProjects,
+  createProject,
+  updateProject,
+  listProjectPhases,
+  listProjectTransactions,
+  listProjectMaterials,
+  listProjectShares,
+  createProjectShare,
+  deleteProjectShare,
+  listShareAccessLogs,
+  clearShareLockout,
+  isPlanLimitError,
+  countOpenSnags,
+  ExpenseWithPhase,
+  ProjectInput,
+} from "../lib/repositories";
+import type { Project, ProjectPhase, ProjectStatus, Material, ProjectShare, ShareAccessLog, ShareAccessEvent } from "../types";
+import { BudgetVarianceTable } from "../components/Budget/BudgetVarianceTable";
+import { ScheduleVarianceTable } from "../components/Phases/ScheduleVarianceTable";
+import { ChangeOrderList } from "../components/ChangeOrders/ChangeOrderList";
 import jsPDF from "jspdf";
 import "jspdf-autotable";
 
 export function Projects() {
-  const { user } = useAuth();
+  const { user, userRole, permissions } = useAuth();
+  const navigate = useNavigate();
+  const canEditBudget = userRole === "Admin" || permissions.includes("edit_project");
   const [profileId, setProfileId] = useState<string | null>(null);
 
   const [searchTerm, setSearchTerm] = useState("");
-  const [projects, setProjects] = useState<any[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
 
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [editingProject, setEditingProject] = useState<any | null>(null);
-  const [viewingProject, setViewingProject] = useState<any | null>(null);
-  const [phases, setPhases] = useState<any[]>([]);
-  const [expenses, setExpenses] = useState<any[]>([]);
-  const [income, setIncome] = useState<any[]>([]);
-  const [materials, setMaterials] = useState<any[]>([]);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [viewingProject, setViewingProject] = useState<Project | null>(null);
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [expenses, setExpenses] = useState<ExpenseWithPhase[]>([]);
+  const [income, setIncome] = useState<ExpenseWithPhase[]>([]);
+  const [materials, setMaterials] = useState<Material[]>([]);
   const [teamMembers, setTeamMembers] = useState<any[]>([]);
   const [phasePhotos, setPhasePhotos] = useState<any[]>([]);
 
@@ -41,14 +65,19 @@ export function Projects() {
     materialsDetails: true,
     incomeDetails: true,
     phasePhotos: true,
-    teamMembers: true
+    teamMembers: true,
+    changeOrders: true,
+    documents: true
   });
 
   // Manage Links modal states
   const [manageLinksModalOpen, setManageLinksModalOpen] = useState(false);
   const [managingLinksProject, setManagingLinksProject] = useState<any | null>(null);
-  const [projectLinks, setProjectLinks] = useState<any[]>([]);
+  const [projectLinks, setProjectLinks] = useState<ProjectShare[]>([]);
   const [loadingLinks, setLoadingLinks] = useState(false);
+  const [activityLinkId, setActivityLinkId] = useState<string | null>(null);
+  const [accessLogs, setAccessLogs] = useState<ShareAccessLog[]>([]);
+  const [loadingAccessLogs, setLoadingAccessLogs] = useState(false);
   
   // Comments modal states
   const [commentsModalOpen, setCommentsModalOpen] = useState(false);
@@ -66,6 +95,7 @@ export function Projects() {
   });
 
   const [filterStatus, setFilterStatus] = useState("All");
+  const [openSnags, setOpenSnags] = useState<Record<string, number>>({});
 
   // Fetch current admin ID
   useEffect(() => {
@@ -79,16 +109,12 @@ export function Projects() {
     if (!profileId) return;
     setLoading(true);
 
-    const { data, error } = await supabase
-      .from("projects")
-      .select("*")
-      .eq("created_by", profileId)
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      console.error("Fetch projects error:", error.message);
-    } else {
-      setProjects(data || []);
+    try {
+      const data = await listProjects(profileId);
+      setProjects(data);
+      setOpenSnags(await countOpenSnags(data.map((p) => p.id)));
+    } catch (error) {
+      console.error("Fetch projects error:", error);
     }
     setLoading(false);
   };
@@ -101,22 +127,20 @@ export function Projects() {
   const handleSaveProject = async () => {
     if (!profileId) return;
 
+    const projectInput: ProjectInput = {
+      ...newProject,
+      status: newProject.status as ProjectStatus,
+      start_date: newProject.start_date || null,
+      end_date: newProject.end_date || null,
+    };
+
     try {
       if (editingProject) {
         // Update existing project
-        const { error } = await supabase
-          .from("projects")
-          .update(newProject)
-          .eq("id", editingProject.id);
-
-        if (error) throw error;
+        await updateProject(editingProject.id, projectInput);
       } else {
         // Create new project
-        const { error } = await supabase
-          .from("projects")
-          .insert([{ ...newProject, created_by: profileId }]);
-
-        if (error) throw error;
+        await createProject(projectInput, profileId);
       }
 
       setIsModalOpen(false);
@@ -132,6 +156,10 @@ export function Projects() {
       fetchProjects();
     } catch (error: any) {
       console.error("Save project error:", error.message);
+      if (isPlanLimitError(error)) {
+        if (window.confirm(`${error.message}\n\nView plans now?`)) navigate("/settings", { state: { tab: "billing" } });
+        return;
+      }
       alert("Error saving project: " + error.message);
     }
   };
@@ -141,52 +169,28 @@ export function Projects() {
     console.log("Fetching details for project:", projectId);
 
     try {
-      // Fetch phases
-      const { data: phaseData, error: phaseError } = await supabase
-        .from("phases")
-        .select("*")
-        .eq("project_id", projectId);
-
-      if (phaseError) {
-        console.error("Fetch phases error:", phaseError.message);
-      }
-
-      // Fetch expenses and income separately
-      const { data: expenseData, error: expenseError } = await supabase
-        .from("expenses")
-        .select(`
-          *,
-          phases!inner(name)
-        `)
-        .eq("project_id", projectId)
-        .eq("type", "expense");
-
-      if (expenseError) {
-        console.error("Fetch expenses error:", expenseError.message);
-      }
-
-      const { data: incomeData, error: incomeError } = await supabase
-        .from("expenses")
-        .select(`
-          *,
-          phases!inner(name)
-        `)
-        .eq("project_id", projectId)
-        .eq("type", "income");
-
-      if (incomeError) {
-        console.error("Fetch income error:", incomeError.message);
-      }
-
-      // Fetch materials
-      const { data: materialData, error: materialError } = await supabase
-        .from("materials")
-        .select("id, name, unit_cost, qty_required, status, updated_at")
-        .eq("project_id", projectId);
+      // Fetch phases, expenses, income and materials
+      const [phaseData, allExpenseData, incomeData, materialData] = await Promise.all([
+        listProjectPhases(projectId).catch((error) => {
+          console.error("Fetch phases error:", error.message);
+          return [] as ProjectPhase[];
+        }),
+        listProjectTransactions(projectId, "expense").catch((error) => {
+          console.error("Fetch expenses error:", error.message);
+          return [] as ExpenseWithPhase[];
+        }),
+        listProjectTransactions(projectId, "income").catch((error) => {
+          console.error("Fetch income error:", error.message);
+          return [] as ExpenseWithPhase[];
+        }),
+        listProjectMaterials(projectId).catch((error) => {
+          console.error("Fetch materials error:", error.message);
+          return [] as Material[];
+        }),
+      ]);
 
-      if (materialError) {
-        console.error("Fetch materials error:", materialError.message);
-      }
+      // Unapproved expenses are left out of the project's totals and report until they are approved
+      const expenseData = allExpenseData.filter((e) => e.approved);
 
       // Fetch team members
       const { data: teamData, error: teamError } = await supabase
@@ -213,37 +217,37 @@ export function Projects() {
       }
 
       // Update state with fetched data
-      setPhases(phaseData || []);
-      setExpenses(expenseData || []);
-      setIncome(incomeData || []);
-      setMaterials(materialData || []);
+      setPhases(phaseData);
+      setExpenses(expenseData);
+      setIncome(incomeData);
+      setMaterials(materialData);
       setTeamMembers(teamData || []);
       setPhasePhotos(photoData || []);
 
       console.log("Fetched data:", {
-        phases: phaseData?.length || 0,
-        expenses: expenseData?.length || 0,
-        income: incomeData?.length || 0,
-        materials: materialData?.length || 0,
+        phases: phaseData.length,
+        expenses: expenseData.length,
+        income: incomeData.length,
+        materials: materialData.length,
         teamMembers: teamData?.length || 0,
         phasePhotos: photoData?.length || 0
       });
 
       return {
-        phases: phaseData || [],
-        expenses: expenseData || [],
-        income: incomeData || [],
-        materials: materialData || [],
+        phases: phaseData,
+        expenses: expenseData,
+        income: incomeData,
+        materials: materialData,
         teamMembers: teamData || [],
         phasePhotos: photoData || []
       };
     } catch (error) {
       console.error("Error fetching project details:", error);
       return {
-        phases: [],
-        expenses: [],
-        income: [],
-        materials: [],
+        phases: [] as ProjectPhase[],
+        expenses: [] as ExpenseWithPhase[],
+        income: [] as ExpenseWithPhase[],
+        materials: [] as Material[],
         teamMembers: [],
         phasePhotos: []
       };
@@ -911,30 +915,16 @@ export function Projects() {
         expiresAt.setHours(expiresAt.getHours() + expiryValue);
       }
 
-      const shareData = {
+      const shareId = await createProjectShare({
         project_id: project.id,
-        created_by: profileId,
         share_type: type,
-        password: password || null,
+        password: type === 'private' ? password : undefined,
         expires_at: expiresAt.toISOString(),
         share_options: { ...shareOptions, allowComments: true },
-        is_active: true
-      };
-
-      console.log('🔍 Inserting share data:', shareData);
-      const { data: insertedShare, error } = await supabase
-        .from('project_shares')
-        .insert([shareData])
-        .select('id')
-        .single();
-
-      if (error || !insertedShare) {
-        console.error('Database error:', error);
-        throw error;
-      }
+      });
 
       const baseUrl = window.location.origin;
-      const shareUrl = `${baseUrl}/shared/${insertedShare.id}`;
+      const shareUrl = `${baseUrl}/shared/${shareId}`;
 
       console.log('✅ Share link generated successfully:', shareUrl);
       setGeneratedLink(shareUrl);
@@ -970,7 +960,9 @@ export function Projects() {
       materialsDetails: true,
       incomeDetails: true,
       phasePhotos: true,
-      teamMembers: true
+      teamMembers: true,
+      changeOrders: true,
+      documents: true
     });
   };
 
@@ -996,7 +988,6 @@ export function Projects() {
     
     console.log('🔍 Generating private share link...');
     console.log('🔍 Project:', sharingProject?.name);
-    console.log('🔍 Password:', sharePassword);
     
     const link = await generateShareLink(sharingProject, 'private', sharePassword);
     if (link) {
@@ -1035,7 +1026,9 @@ export function Projects() {
       materialsDetails: true,
       incomeDetails: true,
       phasePhotos: true,
-      teamMembers: true
+      teamMembers: true,
+      changeOrders: true,
+      documents: true
     });
   };
 
@@ -1048,23 +1041,12 @@ export function Projects() {
 
   // Fetch all links for a project
   const fetchProjectLinks = async (projectId: string) => {
+    if (!user) return;
     setLoadingLinks(true);
     try {
-      const { data, error } = await supabase
-        .from('project_shares')
-        .select('*')
-        .eq('project_id', projectId)
-        .eq('created_by', user?.id)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching project links:', error);
-        return;
-      }
-
-      setProjectLinks(data || []);
+      setProjectLinks(await listProjectShares(projectId, user.id));
     } catch (error) {
-      console.error('Error fetching links:', error);
+      console.error('Error fetching project links:', error);
     } finally {
       setLoadingLinks(false);
     }
@@ -1076,18 +1058,10 @@ export function Projects() {
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('project_shares')
-        .delete()
-        .eq('id', linkId)
-        .eq('created_by', user?.id);
+    if (!user) return;
 
-      if (error) {
-        console.error('Error deleting link:', error);
-        alert('Failed to revoke link');
-        return;
-      }
+    try {
+      await deleteProjectShare(linkId, user.id);
 
       // Refresh the links list
       if (managingLinksProject) {
@@ -1099,6 +1073,59 @@ export function Projects() {
     }
   };
 
+  // Show or hide the access timeline of a link
+  const toggleLinkActivity = async (linkId: string) => {
+    if (activityLinkId === linkId) {
+      setActivityLinkId(null);
+      return;
+    }
+
+    setActivityLinkId(linkId);
+    setAccessLogs([]);
+    setLoadingAccessLogs(true);
+    try {
+      setAccessLogs(await listShareAccessLogs(linkId));
+    } catch (error) {
+      console.error('Error fetching link activity:', error);
+    } finally {
+      setLoadingAccessLogs(false);
+    }
+  };
+
+  // Let visitors try the password again after a lockout
+  const handleClearLockout = async (linkId: string) => {
+    if (!user) return;
+
+    try {
+      await clearShareLockout(linkId, user.id);
+      if (managingLinksProject) {
+        await fetchProjectLinks(managingLinksProject.id);
+      }
+    } catch (error) {
+      console.error('Error unlocking link:', error);
+      alert('Failed to unlock link');
+    }
+  };
+
+  const accessEventLabels: Record<ShareAccessEvent, { label: string; className: string }> = {
+    view: { label: 'Viewed', className: 'bg-blue-100 text-blue-700' },
+    unlock_success: { label: 'Password accepted', className: 'bg-green-100 text-green-700' },
+    unlock_failed: { label: 'Wrong password', className: 'bg-orange-100 text-orange-700' },
+    locked: { label: 'Locked', className: 'bg-red-100 text-red-700' },
+  };
+
+  const sharedSectionLabels: Record<string, string> = {
+    phases: 'Phases',
+    expenses: 'Expenses',
+    income: 'Income',
+    materials: 'Materials',
+    teamMembers: 'Team Members',
+    phasePhotos: 'Photos',
+    changeOrders: 'Change Orders',
+    documents: 'Documents',
+    comments: 'Comments',
+  };
+
   // Copy link to clipboard
   const copyLinkToClipboard = async (shareId: string) => {
     const link = `${window.location.origin}/shared/${shareId}`;
@@ -1170,7 +1197,9 @@ export function Projects() {
       materialsDetails: false,
       incomeDetails: false,
       phasePhotos: false,
-      teamMembers: false
+      teamMembers: false,
+      changeOrders: false,
+      documents: false
     });
   };
 
@@ -1265,6 +1294,15 @@ export function Projects() {
                 <p className="text-sm text-gray-600">
                   Description: {project.description || "-"}
                 </p>
+                {openSnags[project.id] > 0 && (
+                  <button
+                    onClick={() => navigate("/punch-list", { state: { projectId: project.id } })}
+                    className="inline-flex items-center px-2 py-1 bg-red-100 text-red-700 text-xs rounded hover:bg-red-200"
+                  >
+                    <ListChecks className="h-3 w-3 mr-1" />
+                    {openSnags[project.id]} open snag{openSnags[project.id] === 1 ? "" : "s"}
+                  </button>
+                )}
 
                 <div className="flex gap-2 pt-3 flex-wrap">
                   <button
@@ -1293,11 +1331,11 @@ export function Projects() {
                       setEditingProject(project);
                       setNewProject({
                         name: project.name,
-                        description: project.description,
+                        description: project.description || "",
                         status: project.status,
-                        location: project.location,
-                        start_date: project.start_date,
-                        end_date: project.end_date,
+                        location: project.location || "",
+                        start_date: project.start_date || "",
+                        end_date: project.end_date || "",
                       });
                       setIsModalOpen(true);
                     }}
@@ -1462,6 +1500,19 @@ export function Projects() {
                 <p className="text-gray-500">No phases</p>
               )}
 
+              <h2 className="text-xl font-bold">Budget vs Actual</h2>
+              <BudgetVarianceTable
+                projectId={viewingProject.id}
+                projectBudget={viewingProject.budget}
+                canEdit={canEditBudget}
+              />
+
+              <h2 className="text-xl font-bold">Schedule vs Baseline</h2>
+              <ScheduleVarianceTable projectId={viewingProject.id} canEdit={canEditBudget} />
+
+              <h2 className="text-xl font-bold">Change Orders</h2>
+              <ChangeOrderList projectId={viewingProject.id} canEdit={canEditBudget} />
+
               <h2 className="text-xl font-bold">Phase Photos</h2>
               {phasePhotos.length > 0 ? (
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
@@ -1736,6 +1787,26 @@ export function Projects() {
                       />
                       <span className="text-sm text-gray-700">Team Members</span>
                     </label>
+
+                    <label className="flex items-center space-x-3 cursor-pointer hover:bg-white p-2 rounded transition-colors">
+                      <input
+                        type="checkbox"
+                        checked={shareOptions.changeOrders}
+                        onChange={() => handleShareOptionChange('changeOrders')}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">Change Orders (client can approve)</span>
+                    </label>
+
+                    <label className="flex items-center space-x-3 cursor-pointer hover:bg-white p-2 rounded transition-colors">
+                      <input
+                        type="checkbox"
+                        checked={shareOptions.documents}
+                        onChange={() => handleShareOptionChange('documents')}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">Documents (with superseded revisions)</span>
+                    </label>
                   </div>
                 </div>
 
@@ -1896,6 +1967,12 @@ export function Projects() {
                     {shareOptions.teamMembers && (
                       <span className="text-xs bg-indigo-200 text-indigo-800 px-2 py-1 rounded">Team</span>
                     )}
+                    {shareOptions.changeOrders && (
+                      <span className="text-xs bg-orange-200 text-orange-800 px-2 py-1 rounded">Change Orders</span>
+                    )}
+                    {shareOptions.documents && (
+                      <span className="text-xs bg-slate-200 text-slate-800 px-2 py-1 rounded">Documents</span>
+                    )}
                   </div>
                 </div>
                 
@@ -2038,6 +2115,11 @@ export function Projects() {
                                     Expired
                                   </span>
                                 )}
+                                {link.locked_at && (
+                                  <span className="px-2 py-1 bg-red-100 text-red-700 text-xs font-medium rounded-full">
+                                    Locked
+                                  </span>
+                                )}
                               </div>
                               <p className="text-sm text-slate-600 mt-1">
                                 Created: {formatDate(link.created_at)}
@@ -2057,7 +2139,7 @@ export function Projects() {
                         </div>
 
                         {/* Link Statistics */}
-                        <div className="grid grid-cols-3 gap-4 mb-3 p-3 bg-slate-50 rounded-lg">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-3 p-3 bg-slate-50 rounded-lg">
                           <div>
                             <p className="text-xs text-slate-500 mb-1">Views</p>
                             <p className="text-lg font-bold text-slate-900">{link.view_count || 0}</p>
@@ -2070,8 +2152,35 @@ export function Projects() {
                             <p className="text-xs text-slate-500 mb-1">Shared Items</p>
                             <p className="text-sm font-medium text-slate-900">{optionsCount} of 6</p>
                           </div>
+                          <div>
+                            <p className="text-xs text-slate-500 mb-1">Last Access</p>
+                            <p className="text-sm font-medium text-slate-900">
+                              {link.last_accessed_at ? formatDate(link.last_accessed_at) : 'Never'}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-slate-500 mb-1">Failed Unlocks</p>
+                            <p className={`text-sm font-medium ${link.failed_attempts > 0 ? 'text-orange-600' : 'text-slate-900'}`}>
+                              {link.failed_attempts}
+                            </p>
+                          </div>
                         </div>
 
+                        {link.locked_at && (
+                          <div className="flex items-center justify-between mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+                            <p className="text-sm text-red-700">
+                              Locked on {formatDate(link.locked_at)} after too many wrong passwords.
+                            </p>
+                            <button
+                              onClick={() => handleClearLockout(link.id)}
+                              className="flex items-center px-3 py-1 text-sm text-red-700 border border-red-300 rounded-lg hover:bg-red-100 transition-colors"
+                            >
+                              <Unlock className="w-4 h-4 mr-1" />
+                              Unlock
+                            </button>
+                          </div>
+                        )}
+
                         {/* Shared Details */}
                         <div className="mb-3">
                           <p className="text-xs font-medium text-slate-700 mb-2">Shared Details:</p>
@@ -2148,7 +2257,47 @@ export function Projects() {
                           >
                             <MessageCircle className="w-4 h-4" />
                           </button>
+                          <button
+                            onClick={() => toggleLinkActivity(link.id)}
+                            className={`p-2 rounded-lg transition-colors ${
+                              activityLinkId === link.id ? 'bg-slate-200 text-slate-900' : 'text-slate-600 hover:bg-slate-200'
+                            }`}
+                            title="Access Timeline"
+                          >
+                            <Activity className="w-4 h-4" />
+                          </button>
                         </div>
+
+                        {/* Access Timeline */}
+                        {activityLinkId === link.id && (
+                          <div className="mt-3 border-t border-slate-200 pt-3">
+                            <p className="text-xs font-medium text-slate-700 mb-2">Access Timeline</p>
+                            {loadingAccessLogs ? (
+                              <p className="text-sm text-slate-500">Loading activity...</p>
+                            ) : accessLogs.length === 0 ? (
+                              <p className="text-sm text-slate-500">No one has opened this link yet.</p>
+                            ) : (
+                              <ul className="space-y-2 max-h-64 overflow-y-auto">
+                                {accessLogs.map((log) => (
+                                  <li key={log.id} className="flex items-start justify-between text-sm">
+                                    <div className="flex items-start space-x-2">
+                                      <span className={`px-2 py-0.5 text-xs rounded-full whitespace-nowrap ${accessEventLabels[log.event].className}`}>
+                                        {accessEventLabels[log.event].label}
+                                      </span>
+                                      <div>
+                                        <p className="text-slate-700">{log.user_agent || 'Unknown device'}</p>
+                                        {log.sections.length > 0 && (
+                                          <p className="text-xs text-slate-500">Opened: {log.sections.map((section) => sharedSectionLabels[section] || section).join(', ')}</p>
+                                        )}
+                                      </div>
+                                    </div>
+                                    <span className="text-xs text-slate-500 whitespace-nowrap ml-2">{formatDate(log.created_at)}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        )}
                       </div>
                     );
                   })}
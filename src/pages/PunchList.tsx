@@ -0,0 +1,739 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "react-router-dom";
+import { ListChecks, Plus, Edit, Trash2, Printer, Camera, X, AlertTriangle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import jsPDF from "jspdf";
+import "jspdf-autotable";
+import imageCompression from "browser-image-compression";
+import { Layout } from "../components/Layout/Layout";
+import { useAuth } from "../contexts/AuthContext";
+import { snagSeverityColors, snagStatusColors, snagStatusLabels } from "../components/Snags/snagLabels";
+import {
+  listProjectOptions,
+  listProjectPhases,
+  listProjectMembers,
+  listSnags,
+  createSnag,
+  updateSnag,
+  deleteSnag,
+  uploadSnagPhoto,
+  deleteSnagPhoto,
+  isSnagOverdue,
+  ProjectOption,
+  SnagWithDetails,
+} from "../lib/repositories";
+import type { ProjectPhase, SnagPhoto, SnagSeverity, SnagStatus, TeamMember } from "../types";
+
+const SEVERITIES: SnagSeverity[] = ["low", "medium", "high", "critical"];
+
+// The moves a snag can make from each status
+const STATUS_ACTIONS: Record<SnagStatus, { to: SnagStatus; label: string }[]> = {
+  open: [{ to: "in_progress", label: "Start Work" }, { to: "fixed", label: "Mark Fixed" }],
+  in_progress: [{ to: "fixed", label: "Mark Fixed" }],
+  fixed: [{ to: "closed", label: "Close" }, { to: "open", label: "Reject Fix" }],
+  closed: [{ to: "open", label: "Reopen" }],
+};
+
+const emptyForm = {
+  title: "",
+  description: "",
+  phase_id: "",
+  location: "",
+  trade: "",
+  severity: "medium" as SnagSeverity,
+  assigned_to: "",
+  due_date: "",
+};
+
+const formatDay = (date: string) => format(parseISO(date), "dd MMM yyyy");
+
+export function PunchList() {
+  const { user, userRole, permissions } = useAuth();
+  const location = useLocation();
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [snags, setSnags] = useState<SnagWithDetails[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [phaseFilter, setPhaseFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState<"unclosed" | "all" | SnagStatus>("unclosed");
+  const [severityFilter, setSeverityFilter] = useState<"all" | SnagSeverity>("all");
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingSnag, setEditingSnag] = useState<SnagWithDetails | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [beforePhoto, setBeforePhoto] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const canManage = userRole === "Admin" || permissions.includes("manage_snags");
+  const viewingSnag = snags.find((s) => s.id === viewingId) ?? null;
+
+  useEffect(() => {
+    if (!user) return;
+    listProjectOptions(user.id)
+      .then((data) => {
+        setProjects(data);
+        // Opened from a project card's open-snag badge
+        const requested = data.find((p) => p.id === location.state?.projectId);
+        if (data.length > 0) setProjectId((current) => current || (requested ?? data[0]).id);
+      })
+      .catch((error) => console.error("Error fetching projects:", error));
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    setPhaseFilter("all");
+    listProjectPhases(projectId)
+      .then(setPhases)
+      .catch((error) => console.error("Error fetching phases:", error));
+    listProjectMembers(projectId)
+      .then(setMembers)
+      .catch((error) => console.error("Error fetching team members:", error));
+    fetchSnags();
+  }, [projectId]);
+
+  async function fetchSnags() {
+    setLoading(true);
+    try {
+      setSnags(await listSnags(projectId));
+    } catch (error) {
+      console.error("Error fetching snags:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const openForm = (snag?: SnagWithDetails) => {
+    setEditingSnag(snag ?? null);
+    setForm(
+      snag
+        ? {
+            title: snag.title,
+            description: snag.description ?? "",
+            phase_id: snag.phase_id ?? "",
+            location: snag.location ?? "",
+            trade: snag.trade ?? "",
+            severity: snag.severity,
+            assigned_to: snag.assigned_to ?? "",
+            due_date: snag.due_date ?? "",
+          }
+        : { ...emptyForm, phase_id: phaseFilter === "all" ? "" : phaseFilter }
+    );
+    setBeforePhoto(null);
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      alert("Please describe the snag");
+      return;
+    }
+
+    const input = {
+      project_id: projectId,
+      phase_id: form.phase_id || null,
+      title: form.title.trim(),
+      description: form.description.trim() || null,
+      location: form.location.trim() || null,
+      trade: form.trade.trim() || null,
+      severity: form.severity,
+      assigned_to: form.assigned_to || null,
+      due_date: form.due_date || null,
+    };
+
+    setSaving(true);
+    try {
+      if (editingSnag) {
+        await updateSnag(editingSnag.id, input);
+      } else {
+        const snag = await createSnag(input);
+        if (beforePhoto) {
+          const compressed = await imageCompression(beforePhoto, { maxSizeMB: 1 });
+          await uploadSnagPhoto(snag.id, "before", compressed, beforePhoto.name);
+        }
+      }
+      setShowForm(false);
+      await fetchSnags();
+    } catch (error) {
+      console.error("Error saving snag:", error);
+      alert(`Failed to save snag: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatus = async (snag: SnagWithDetails, status: SnagStatus) => {
+    if (status === "closed" && !snag.snag_photos.some((p) => p.kind === "after")) {
+      alert("Add a photo of the fix before closing the snag");
+      return;
+    }
+    try {
+      await updateSnag(snag.id, { status });
+      await fetchSnags();
+    } catch (error) {
+      console.error("Error updating snag:", error);
+      alert(`Failed to update snag: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleDelete = async (snag: SnagWithDetails) => {
+    if (!window.confirm(`Delete ${snag.snag_number} and its photos?`)) return;
+    try {
+      await deleteSnag(snag);
+      setViewingId(null);
+      await fetchSnags();
+    } catch (error) {
+      console.error("Error deleting snag:", error);
+      alert(`Failed to delete snag: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleUploadPhoto = async (snag: SnagWithDetails, kind: SnagPhoto["kind"], file: File) => {
+    setUploading(true);
+    try {
+      const compressed = await imageCompression(file, { maxSizeMB: 1 });
+      await uploadSnagPhoto(snag.id, kind, compressed, file.name);
+      await fetchSnags();
+    } catch (error) {
+      console.error("Error uploading photo:", error);
+      alert(`Failed to upload photo: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDeletePhoto = async (photo: SnagPhoto) => {
+    if (!window.confirm("Delete this photo?")) return;
+    try {
+      await deleteSnagPhoto(photo);
+      await fetchSnags();
+    } catch (error) {
+      console.error("Error deleting photo:", error);
+      alert(`Failed to delete photo: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const filteredSnags = snags.filter(
+    (snag) =>
+      (phaseFilter === "all" || snag.phase_id === phaseFilter) &&
+      (statusFilter === "all" || (statusFilter === "unclosed" ? snag.status !== "closed" : snag.status === statusFilter)) &&
+      (severityFilter === "all" || snag.severity === severityFilter)
+  );
+
+  // Printable list of the snags currently shown, with space for handover sign-off
+  const generatePunchListPdf = () => {
+    const project = projects.find((p) => p.id === projectId);
+    if (!project) return;
+
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const pageWidth = doc.internal.pageSize.width;
+    const pageHeight = doc.internal.pageSize.height;
+
+    doc.setFillColor(41, 128, 185);
+    doc.rect(0, 0, pageWidth, 28, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text('PUNCH LIST', 15, 13);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    const phaseName = phases.find((p) => p.id === phaseFilter)?.name;
+    doc.text(`${project.name}${phaseName ? ` - ${phaseName}` : ''}`, 15, 21);
+    doc.text(`Printed ${format(new Date(), 'dd MMM yyyy')}`, pageWidth - 15, 21, { align: 'right' });
+
+    const open = filteredSnags.filter((s) => s.status !== 'closed').length;
+    doc.setTextColor(52, 73, 94);
+    doc.text(`${filteredSnags.length} items, ${open} not closed`, 15, 38);
+
+    (doc as any).autoTable({
+      startY: 43,
+      head: [['No.', 'Defect', 'Location', 'Phase', 'Trade', 'Severity', 'Assigned To', 'Due', 'Status', 'Closed By']],
+      body: filteredSnags.map((snag) => [
+        snag.snag_number,
+        snag.description ? `${snag.title}\n${snag.description}` : snag.title,
+        snag.location || '-',
+        snag.phases?.name || '-',
+        snag.trade || '-',
+        snag.severity.charAt(0).toUpperCase() + snag.severity.slice(1),
+        snag.users?.name || '-',
+        snag.due_date ? format(parseISO(snag.due_date), 'dd MMM yy') : '-',
+        snagStatusLabels[snag.status],
+        snag.closed_at ? `${snag.closed_by_name || ''}\n${format(new Date(snag.closed_at), 'dd MMM yy')}` : ''
+      ]),
+      theme: 'grid',
+      headStyles: { fillColor: [52, 73, 94], textColor: 255, fontSize: 9, fontStyle: 'bold' },
+      bodyStyles: { fontSize: 8, cellPadding: 2, valign: 'top' },
+      columnStyles: {
+        0: { cellWidth: 16 },
+        1: { cellWidth: 70 },
+        5: { cellWidth: 18 },
+        7: { cellWidth: 18 },
+        8: { cellWidth: 25 }
+      },
+      didParseCell: (data: any) => {
+        if (data.section === 'body' && data.column.index === 5 && data.cell.raw === 'Critical') {
+          data.cell.styles.textColor = [231, 76, 60];
+          data.cell.styles.fontStyle = 'bold';
+        }
+      }
+    });
+
+    let signY = (doc as any).lastAutoTable.finalY + 20;
+    if (signY > pageHeight - 25) {
+      doc.addPage();
+      signY = 30;
+    }
+    doc.setFontSize(10);
+    doc.line(15, signY, 95, signY);
+    doc.line(pageWidth - 95, signY, pageWidth - 15, signY);
+    doc.text('Contractor', 15, signY + 6);
+    doc.text('Client', pageWidth - 95, signY + 6);
+
+    doc.save(`Punch_List_${project.name.replace(/[^a-z0-9]/gi, '_')}_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+  };
+
+  const openCount = snags.filter((s) => s.status === "open" || s.status === "in_progress").length;
+  const awaitingCheck = snags.filter((s) => s.status === "fixed").length;
+  const overdueCount = snags.filter((s) => isSnagOverdue(s)).length;
+  const closedCount = snags.filter((s) => s.status === "closed").length;
+
+  const renderPhotos = (snag: SnagWithDetails, kind: SnagPhoto["kind"]) => {
+    const photos = snag.snag_photos.filter((p) => p.kind === kind);
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="flex items-center text-sm font-medium text-gray-700">
+            <Camera className="w-4 h-4 mr-1" />
+            {kind === "before" ? "Before" : "After (fix)"}
+          </p>
+          {canManage && snag.status !== "closed" && (
+            <input
+              type="file"
+              accept="image/*"
+              disabled={uploading}
+              onChange={(e) => {
+                if (e.target.files?.[0]) handleUploadPhoto(snag, kind, e.target.files[0]);
+                e.target.value = "";
+              }}
+              className="text-xs text-blue-600 w-44"
+            />
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {photos.map((photo) => (
+            <div key={photo.id} className="relative group">
+              <a href={photo.photo_url} target="_blank" rel="noopener noreferrer">
+                <img src={photo.photo_url} alt={kind} className="w-full h-28 object-cover rounded" />
+              </a>
+              {canManage && snag.status !== "closed" && (
+                <button
+                  onClick={() => handleDeletePhoto(photo)}
+                  className="absolute top-1 right-1 bg-white rounded-full p-1 shadow opacity-0 group-hover:opacity-100"
+                  title="Delete photo"
+                >
+                  <X className="w-3 h-3 text-gray-700" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        {photos.length === 0 && <p className="text-sm text-gray-400">No photos</p>}
+      </div>
+    );
+  };
+
+  return (
+    <Layout title="Punch List" subtitle="Snags and defects before handover">
+      <div className="p-6">
+        <div className="mb-6 flex flex-wrap gap-4 items-center">
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            {projects.length === 0 && <option value="">No projects</option>}
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <select
+            value={phaseFilter}
+            onChange={(e) => setPhaseFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="all">All phases</option>
+            {phases.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="unclosed">Not closed</option>
+            <option value="all">All statuses</option>
+            {(Object.keys(snagStatusLabels) as SnagStatus[]).map((status) => (
+              <option key={status} value={status}>{snagStatusLabels[status]}</option>
+            ))}
+          </select>
+          <select
+            value={severityFilter}
+            onChange={(e) => setSeverityFilter(e.target.value as typeof severityFilter)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="all">All severities</option>
+            {SEVERITIES.map((severity) => (
+              <option key={severity} value={severity} className="capitalize">{severity}</option>
+            ))}
+          </select>
+          <div className="flex gap-2 ml-auto">
+            <button
+              onClick={generatePunchListPdf}
+              disabled={filteredSnags.length === 0}
+              className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              Print Punch List
+            </button>
+            {canManage && projectId && (
+              <button
+                onClick={() => openForm()}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Snag
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-red-50 rounded-lg border border-red-200 p-4">
+            <p className="text-sm text-red-700">Open</p>
+            <p className="text-2xl font-bold text-red-600">{openCount}</p>
+          </div>
+          <div className="bg-blue-50 rounded-lg border border-blue-200 p-4">
+            <p className="text-sm text-blue-700">Fixed, Awaiting Check</p>
+            <p className="text-2xl font-bold text-blue-600">{awaitingCheck}</p>
+          </div>
+          <div className="bg-orange-50 rounded-lg border border-orange-200 p-4">
+            <p className="text-sm text-orange-700">Overdue</p>
+            <p className="text-2xl font-bold text-orange-600">{overdueCount}</p>
+          </div>
+          <div className="bg-green-50 rounded-lg border border-green-200 p-4">
+            <p className="text-sm text-green-700">Closed</p>
+            <p className="text-2xl font-bold text-green-600">{closedCount}</p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading punch list...</div>
+        ) : filteredSnags.length === 0 ? (
+          <div className="text-center py-12">
+            <ListChecks className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No snags match these filters</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-gray-600">
+                  <th className="px-4 py-3 text-left font-medium">No.</th>
+                  <th className="px-4 py-3 text-left font-medium">Defect</th>
+                  <th className="px-4 py-3 text-left font-medium">Location</th>
+                  <th className="px-4 py-3 text-left font-medium">Trade</th>
+                  <th className="px-4 py-3 text-left font-medium">Severity</th>
+                  <th className="px-4 py-3 text-left font-medium">Assigned To</th>
+                  <th className="px-4 py-3 text-left font-medium">Due</th>
+                  <th className="px-4 py-3 text-left font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredSnags.map((snag) => (
+                  <tr
+                    key={snag.id}
+                    onClick={() => setViewingId(snag.id)}
+                    className="border-t border-gray-100 hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-4 py-3 font-medium text-gray-900">{snag.snag_number}</td>
+                    <td className="px-4 py-3">
+                      <p className="text-gray-900">{snag.title}</p>
+                      {snag.phases && <p className="text-xs text-gray-500">{snag.phases.name}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{snag.location || "-"}</td>
+                    <td className="px-4 py-3 text-gray-600">{snag.trade || "-"}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded text-xs capitalize ${snagSeverityColors[snag.severity]}`}>
+                        {snag.severity}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{snag.users?.name || "-"}</td>
+                    <td className={`px-4 py-3 ${isSnagOverdue(snag) ? "text-red-600 font-medium" : "text-gray-600"}`}>
+                      {snag.due_date ? formatDay(snag.due_date) : "-"}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded text-xs ${snagStatusColors[snag.status]}`}>
+                        {snagStatusLabels[snag.status]}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {viewingSnag && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setViewingId(null)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  {viewingSnag.snag_number}: {viewingSnag.title}
+                </h2>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className={`px-2 py-1 rounded text-xs ${snagStatusColors[viewingSnag.status]}`}>
+                    {snagStatusLabels[viewingSnag.status]}
+                  </span>
+                  <span className={`px-2 py-1 rounded text-xs capitalize ${snagSeverityColors[viewingSnag.severity]}`}>
+                    {viewingSnag.severity}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                {canManage && viewingSnag.status !== "closed" && (
+                  <button onClick={() => openForm(viewingSnag)} className="p-2 text-blue-600 hover:text-blue-700" title="Edit">
+                    <Edit className="w-4 h-4" />
+                  </button>
+                )}
+                {canManage && (
+                  <button onClick={() => handleDelete(viewingSnag)} className="p-2 text-red-600 hover:text-red-700" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+                <button onClick={() => setViewingId(null)} className="p-2">
+                  <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+                </button>
+              </div>
+            </div>
+
+            {viewingSnag.description && (
+              <p className="text-gray-700 mb-4 whitespace-pre-wrap">{viewingSnag.description}</p>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm mb-4">
+              <div>
+                <p className="text-gray-500">Location</p>
+                <p className="text-gray-900">{viewingSnag.location || "-"}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Phase</p>
+                <p className="text-gray-900">{viewingSnag.phases?.name || "-"}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Trade</p>
+                <p className="text-gray-900">{viewingSnag.trade || "-"}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Assigned To</p>
+                <p className="text-gray-900">{viewingSnag.users?.name || "-"}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Due</p>
+                <p className={isSnagOverdue(viewingSnag) ? "text-red-600 font-medium" : "text-gray-900"}>
+                  {viewingSnag.due_date ? formatDay(viewingSnag.due_date) : "-"}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Raised</p>
+                <p className="text-gray-900">{format(new Date(viewingSnag.created_at), "dd MMM yyyy")}</p>
+              </div>
+            </div>
+
+            {viewingSnag.closed_at && (
+              <p className="text-sm text-green-700 mb-4">
+                Closed by {viewingSnag.closed_by_name || "a team member"} on{" "}
+                {format(new Date(viewingSnag.closed_at), "dd MMM yyyy, HH:mm")}
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              {renderPhotos(viewingSnag, "before")}
+              {renderPhotos(viewingSnag, "after")}
+            </div>
+
+            {viewingSnag.status === "fixed" && !viewingSnag.snag_photos.some((p) => p.kind === "after") && (
+              <div className="flex items-center bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800 mb-4">
+                <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                Add a photo of the fix so the snag can be closed
+              </div>
+            )}
+
+            {canManage && (
+              <div className="flex justify-end gap-2 border-t pt-4">
+                {STATUS_ACTIONS[viewingSnag.status].map((action) => (
+                  <button
+                    key={action.to}
+                    onClick={() => handleStatus(viewingSnag, action.to)}
+                    className={`px-4 py-2 rounded-lg text-sm ${
+                      action.to === "closed"
+                        ? "bg-green-600 text-white hover:bg-green-700"
+                        : action.to === "open"
+                        ? "border border-red-300 text-red-700 hover:bg-red-50"
+                        : "bg-blue-600 text-white hover:bg-blue-700"
+                    }`}
+                  >
+                    {action.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setShowForm(false)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingSnag ? `Edit ${editingSnag.snag_number}` : "Add Snag"}
+              </h3>
+              <button onClick={() => setShowForm(false)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+            <div className="space-y-3">
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Defect *</label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="e.g. Cracked tile near shower drain"
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Details</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={2}
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Location</label>
+                  <input
+                    type="text"
+                    value={form.location}
+                    onChange={(e) => setForm({ ...form, location: e.target.value })}
+                    placeholder="e.g. Master bathroom"
+                    className="w-full border rounded-lg p-2"
+                  />
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Trade</label>
+                  <input
+                    type="text"
+                    value={form.trade}
+                    onChange={(e) => setForm({ ...form, trade: e.target.value })}
+                    placeholder="e.g. Tiling"
+                    className="w-full border rounded-lg p-2"
+                  />
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Phase</label>
+                  <select
+                    value={form.phase_id}
+                    onChange={(e) => setForm({ ...form, phase_id: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  >
+                    <option value="">None</option>
+                    {phases.map((p) => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Severity</label>
+                  <select
+                    value={form.severity}
+                    onChange={(e) => setForm({ ...form, severity: e.target.value as SnagSeverity })}
+                    className="w-full border rounded-lg p-2 capitalize"
+                  >
+                    {SEVERITIES.map((severity) => (
+                      <option key={severity} value={severity}>{severity}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Assigned To</label>
+                  <select
+                    value={form.assigned_to}
+                    onChange={(e) => setForm({ ...form, assigned_to: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  >
+                    <option value="">Unassigned</option>
+                    {members.map((m) => (
+                      <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Due Date</label>
+                  <input
+                    type="date"
+                    value={form.due_date}
+                    onChange={(e) => setForm({ ...form, due_date: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  />
+                </div>
+              </div>
+              {!editingSnag && (
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Before Photo</label>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => setBeforePhoto(e.target.files?.[0] ?? null)}
+                    className="text-sm"
+                  />
+                </div>
+              )}
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save Snag"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
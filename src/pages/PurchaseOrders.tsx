@@ -0,0 +1,511 @@
+import { useState, useEffect } from "react";
+import { ShoppingCart, Download, Send, PackageCheck, Lock, Trash2, X, Search } from "lucide-react";
+import { format } from "date-fns";
+import jsPDF from "jspdf";
+import "jspdf-autotable";
+import { Layout } from "../components/Layout/Layout";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  listProjectOptions,
+  listProjectPhases,
+  listPurchaseOrders,
+  updatePurchaseOrderStatus,
+  deletePurchaseOrder,
+  receivePurchaseOrder,
+  purchaseOrderTotals,
+  getBusinessProfile,
+  BusinessProfile,
+  ProjectOption,
+  PurchaseOrderWithItems,
+} from "../lib/repositories";
+import { isInterState, splitGst } from "../lib/gst";
+import type { ProjectPhase, PurchaseOrderStatus } from "../types";
+
+const statusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  closed: "Closed",
+};
+
+const statusColors: Record<PurchaseOrderStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  sent: "bg-blue-100 text-blue-700",
+  partially_received: "bg-yellow-100 text-yellow-800",
+  closed: "bg-green-100 text-green-700",
+};
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) => format(new Date(date), "dd MMM yyyy");
+
+export function PurchaseOrders() {
+  const { user } = useAuth();
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrderWithItems[]>([]);
+  const [business, setBusiness] = useState<BusinessProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [projectFilter, setProjectFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "all">("all");
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const [receiving, setReceiving] = useState<PurchaseOrderWithItems | null>(null);
+  const [receiptQuantities, setReceiptQuantities] = useState<Record<string, string>>({});
+  const [receiptDate, setReceiptDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [receiptPhaseId, setReceiptPhaseId] = useState("");
+  const [receiptPhases, setReceiptPhases] = useState<ProjectPhase[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchOrders = async () => {
+    if (!user) return;
+    try {
+      const projectOptions = await listProjectOptions(user.id);
+      setProjects(projectOptions);
+      setOrders(await listPurchaseOrders(projectOptions.map((p) => p.id)));
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrders();
+    if (user) {
+      getBusinessProfile(user.id)
+        .then(setBusiness)
+        .catch((error) => console.error("Error fetching profile:", error));
+    }
+  }, [user?.id]);
+
+  const handleStatusChange = async (order: PurchaseOrderWithItems, status: PurchaseOrderStatus) => {
+    if (status === "closed" && !window.confirm(`Close ${order.po_number}? Nothing more can be received against it.`)) return;
+    try {
+      await updatePurchaseOrderStatus(order.id, status);
+      await fetchOrders();
+    } catch (error) {
+      console.error("Error updating purchase order:", error);
+      alert(`Failed to update purchase order: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleDelete = async (order: PurchaseOrderWithItems) => {
+    if (!window.confirm(`Delete draft ${order.po_number}?`)) return;
+    try {
+      await deletePurchaseOrder(order.id);
+      await fetchOrders();
+    } catch (error) {
+      console.error("Error deleting purchase order:", error);
+      alert(`Failed to delete purchase order: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const openReceive = (order: PurchaseOrderWithItems) => {
+    const quantities: Record<string, string> = {};
+    order.purchase_order_items.forEach((item) => {
+      const outstanding = Number(item.quantity) - Number(item.received_quantity);
+      quantities[item.id] = outstanding > 0 ? String(outstanding) : "";
+    });
+    setReceiptQuantities(quantities);
+    setReceiptDate(format(new Date(), "yyyy-MM-dd"));
+    setReceiptPhaseId(order.phase_id || "");
+    setReceiving(order);
+    listProjectPhases(order.project_id)
+      .then(setReceiptPhases)
+      .catch((error) => console.error("Error fetching phases:", error));
+  };
+
+  const handleReceive = async () => {
+    if (!receiving) return;
+    const lines = receiving.purchase_order_items
+      .map((item) => ({ item_id: item.id, quantity: parseFloat(receiptQuantities[item.id] || "") || 0 }))
+      .filter((line) => line.quantity > 0);
+
+    if (lines.length === 0) {
+      alert("Enter the quantity received for at least one item");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const status = await receivePurchaseOrder(receiving.id, lines, receiptDate, receiptPhaseId || undefined);
+      setReceiving(null);
+      await fetchOrders();
+      alert(`Goods received into stock. ${receiving.po_number} is now ${statusLabels[status].toLowerCase()}.`);
+    } catch (error) {
+      console.error("Error receiving purchase order:", error);
+      alert(`Failed to receive goods: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // PO PDF in the same layout as the tax invoice in Invoices
+  const generatePurchaseOrderPdf = (order: PurchaseOrderWithItems) => {
+    const doc = new jsPDF();
+    const interState = isInterState(order.supplier_gstin, business?.gst_number);
+    const totals = purchaseOrderTotals(order.purchase_order_items);
+    const gst = splitGst(totals.gst, interState);
+
+    doc.setFontSize(22);
+    doc.setFont('helvetica', 'bold');
+    doc.text(business?.company || business?.full_name || 'Your Business Name', 20, 25);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text([business?.email, business?.phone].filter(Boolean).join(' | ') || '', 20, 35);
+    doc.text(`GST No: ${business?.gst_number || 'Not Provided'}`, 20, 42);
+
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text('PURCHASE ORDER', 20, 60);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`PO No: ${order.po_number}`, 20, 75);
+    doc.text(`PO Date: ${format(new Date(order.order_date), "dd-MM-yyyy")}`, 20, 82);
+    doc.text(`Delivery By: ${order.expected_date ? format(new Date(order.expected_date), "dd-MM-yyyy") : 'On request'}`, 20, 89);
+    doc.text(`Project: ${order.projects?.name || ''}`, 110, 75);
+    if (business?.location) doc.text(`Deliver To: ${business.location}`, 110, 82);
+
+    doc.setFont('helvetica', 'bold');
+    doc.text('Supplier:', 20, 105);
+    doc.setFont('helvetica', 'normal');
+    doc.text(order.supplier, 20, 115);
+    doc.text(`GSTIN: ${order.supplier_gstin || 'Not Provided'}`, 20, 122);
+
+    const headers = ['Description', 'HSN', 'Qty', 'Rate', 'Taxable', 'GST %', interState ? 'IGST' : 'CGST + SGST', 'Total'];
+    const body = order.purchase_order_items.map((item) => {
+      const taxable = Number(item.quantity) * Number(item.unit_cost);
+      const tax = (taxable * Number(item.gst_rate)) / 100;
+      return [
+        item.description,
+        item.hsn || '-',
+        `${Number(item.quantity)} ${item.unit || ''}`,
+        `Rs ${Number(item.unit_cost).toFixed(2)}`,
+        `Rs ${taxable.toFixed(2)}`,
+        `${Number(item.gst_rate)}%`,
+        `Rs ${tax.toFixed(2)}`,
+        `Rs ${(taxable + tax).toFixed(2)}`,
+      ];
+    });
+
+    (doc as any).autoTable({
+      startY: 135,
+      head: [headers],
+      body,
+      theme: 'grid',
+      headStyles: {
+        fillColor: [41, 128, 185],
+        textColor: 255,
+        fontSize: 9,
+        fontStyle: 'bold'
+      },
+      bodyStyles: {
+        fontSize: 8,
+        cellPadding: 3
+      },
+      columnStyles: {
+        0: { cellWidth: 40 },
+        1: { cellWidth: 15 },
+        2: { cellWidth: 18, halign: 'right' },
+        3: { cellWidth: 20, halign: 'right' },
+        4: { cellWidth: 22, halign: 'right' },
+        5: { cellWidth: 13, halign: 'center' },
+        6: { cellWidth: 22, halign: 'right' },
+        7: { cellWidth: 22, halign: 'right' }
+      }
+    });
+
+    const finalY = (doc as any).lastAutoTable.finalY + 15;
+    const taxLines = interState
+      ? [`IGST: Rs ${gst.igst.toFixed(2)}`]
+      : [`CGST: Rs ${gst.cgst.toFixed(2)}`, `SGST: Rs ${gst.sgst.toFixed(2)}`];
+
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Taxable Value: Rs ${totals.subtotal.toFixed(2)}`, 130, finalY);
+    taxLines.forEach((line, i) => doc.text(line, 130, finalY + 8 * (i + 1)));
+
+    const lineY = finalY + 8 * taxLines.length + 6;
+    doc.line(130, lineY, 190, lineY);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(`PO Total: Rs ${totals.total.toFixed(2)}`, 130, lineY + 10);
+
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    if (order.notes) doc.text(`Notes: ${order.notes}`, 20, 262);
+    doc.text('Please quote the PO number on your invoice and delivery challan.', 20, 270);
+    doc.text('Goods are subject to inspection on receipt at site.', 20, 275);
+
+    doc.save(`${order.po_number}_${order.supplier.replace(/[^a-z0-9]/gi, '_')}.pdf`);
+  };
+
+  const filteredOrders = orders.filter((order) => {
+    const searchLower = searchTerm.toLowerCase();
+    return (
+      (!projectFilter || order.project_id === projectFilter) &&
+      (statusFilter === "all" || order.status === statusFilter) &&
+      (order.po_number.toLowerCase().includes(searchLower) || order.supplier.toLowerCase().includes(searchLower))
+    );
+  });
+
+  const openValue = orders
+    .filter((o) => o.status === "sent" || o.status === "partially_received")
+    .reduce((sum, o) => sum + purchaseOrderTotals(o.purchase_order_items).total, 0);
+
+  return (
+    <Layout title="Purchase Orders" subtitle="Orders to suppliers and goods received">
+      <div className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <p className="text-sm text-gray-600">Drafts</p>
+            <p className="text-2xl font-bold text-gray-900">{orders.filter((o) => o.status === "draft").length}</p>
+          </div>
+          <div className="bg-blue-50 rounded-lg border border-blue-200 p-4">
+            <p className="text-sm text-blue-700">Awaiting Delivery</p>
+            <p className="text-2xl font-bold text-blue-600">
+              {orders.filter((o) => o.status === "sent" || o.status === "partially_received").length}
+            </p>
+          </div>
+          <div className="bg-yellow-50 rounded-lg border border-yellow-200 p-4">
+            <p className="text-sm text-yellow-700">Open Order Value</p>
+            <p className="text-2xl font-bold text-yellow-600">{formatCurrency(openValue)}</p>
+          </div>
+        </div>
+
+        <div className="mb-6 flex flex-wrap gap-4 items-center">
+          <select
+            value={projectFilter}
+            onChange={(e) => setProjectFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="">All Projects</option>
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | "all")}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            <option value="all">All Statuses</option>
+            {(Object.keys(statusLabels) as PurchaseOrderStatus[]).map((status) => (
+              <option key={status} value={status}>{statusLabels[status]}</option>
+            ))}
+          </select>
+          <div className="flex-1 relative min-w-[200px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search PO number or supplier"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading purchase orders...</div>
+        ) : filteredOrders.length === 0 ? (
+          <div className="text-center py-12">
+            <ShoppingCart className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">
+              {orders.length === 0
+                ? "No purchase orders yet. Select materials in the Material Catalog to raise one."
+                : "No purchase orders match your filters"}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {filteredOrders.map((order) => {
+              const totals = purchaseOrderTotals(order.purchase_order_items);
+              const ordered = order.purchase_order_items.reduce((sum, i) => sum + Number(i.quantity), 0);
+              const received = order.purchase_order_items.reduce((sum, i) => sum + Number(i.received_quantity), 0);
+
+              return (
+                <div key={order.id} className="bg-white rounded-lg border border-gray-200 p-4 shadow-sm">
+                  <div className="flex flex-wrap justify-between items-start gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h2 className="text-lg font-semibold text-gray-900">{order.po_number}</h2>
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${statusColors[order.status]}`}>
+                          {statusLabels[order.status]}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {order.supplier} · {order.projects?.name}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Ordered {formatDate(order.order_date)}
+                        {order.expected_date && ` · Expected ${formatDate(order.expected_date)}`}
+                        {order.status !== "draft" && ` · Received ${received} of ${ordered}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-lg font-bold text-gray-900 mr-2">{formatCurrency(totals.total)}</span>
+                      <button
+                        onClick={() => generatePurchaseOrderPdf(order)}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                        title="Download PDF"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                      {order.status === "draft" && (
+                        <>
+                          <button
+                            onClick={() => handleStatusChange(order, "sent")}
+                            className="flex items-center px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700"
+                          >
+                            <Send className="w-4 h-4 mr-1" />
+                            Mark Sent
+                          </button>
+                          <button
+                            onClick={() => handleDelete(order)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                            title="Delete draft"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                      {(order.status === "sent" || order.status === "partially_received") && (
+                        <button
+                          onClick={() => openReceive(order)}
+                          className="flex items-center px-3 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700"
+                        >
+                          <PackageCheck className="w-4 h-4 mr-1" />
+                          Receive
+                        </button>
+                      )}
+                      {order.status === "partially_received" && (
+                        <button
+                          onClick={() => handleStatusChange(order, "closed")}
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                          title="Close without receiving the rest"
+                        >
+                          <Lock className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <table className="min-w-full text-sm mt-4">
+                    <thead>
+                      <tr className="text-gray-500 border-b">
+                        <th className="py-1 text-left font-medium">Item</th>
+                        <th className="py-1 text-right font-medium">Ordered</th>
+                        <th className="py-1 text-right font-medium">Received</th>
+                        <th className="py-1 text-right font-medium">Rate</th>
+                        <th className="py-1 text-right font-medium">GST</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {order.purchase_order_items.map((item) => (
+                        <tr key={item.id} className="border-b border-gray-50">
+                          <td className="py-1">{item.description}</td>
+                          <td className="py-1 text-right">{Number(item.quantity)} {item.unit}</td>
+                          <td className="py-1 text-right">{Number(item.received_quantity)}</td>
+                          <td className="py-1 text-right">{formatCurrency(Number(item.unit_cost))}</td>
+                          <td className="py-1 text-right">{Number(item.gst_rate)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {receiving && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Receive Against {receiving.po_number}</h3>
+              <button onClick={() => setReceiving(null)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+            <table className="min-w-full text-sm mb-4">
+              <thead>
+                <tr className="text-gray-600 border-b">
+                  <th className="py-2 text-left font-medium">Item</th>
+                  <th className="py-2 text-right font-medium">Outstanding</th>
+                  <th className="py-2 text-right font-medium">Received Now</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receiving.purchase_order_items.map((item) => (
+                  <tr key={item.id} className="border-b border-gray-100">
+                    <td className="py-2">{item.description}</td>
+                    <td className="py-2 text-right">
+                      {Math.max(Number(item.quantity) - Number(item.received_quantity), 0)} {item.unit}
+                    </td>
+                    <td className="py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        max={Math.max(Number(item.quantity) - Number(item.received_quantity), 0)}
+                        step="0.001"
+                        value={receiptQuantities[item.id] ?? ""}
+                        onChange={(e) => setReceiptQuantities({ ...receiptQuantities, [item.id]: e.target.value })}
+                        className="w-28 border rounded p-1 text-right"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Received On</label>
+                <input
+                  type="date"
+                  value={receiptDate}
+                  onChange={(e) => setReceiptDate(e.target.value)}
+                  className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Phase (optional)</label>
+                <select
+                  value={receiptPhaseId}
+                  onChange={(e) => setReceiptPhaseId(e.target.value)}
+                  className="border border-gray-300 p-2 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Site store</option>
+                  {receiptPhases.map((phase) => (
+                    <option key={phase.id} value={phase.id}>{phase.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 mt-6">
+              <button
+                onClick={() => setReceiving(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReceive}
+                disabled={saving}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Receive into Stock"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
@@ -1,7 +1,28 @@
 import React, { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { Layout } from "../components/Layout/Layout";
+import { BidForm } from "../components/Renovations/BidForm";
+import { BidComparison } from "../components/Renovations/BidComparison";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import {
+  listTokenPacks,
+  getTokenBalance,
+  listTokenTransactions,
+  getBidTokenCost,
+  listBidsForRenovations,
+  listBidsByBidder,
+  placeBid,
+  uploadBidAttachment,
+  withdrawBid,
+  respondToBid,
+  checkoutTokenPack,
+  verifyTokenPayment,
+  isInsufficientTokensError,
+  BidInput,
+} from "../lib/repositories";
+import { openRazorpayCheckout } from "../lib/razorpay";
+import type { Bid, Renovation, TokenPack, TokenTransaction } from "../types";
 
 interface Project {
   id: string;
@@ -14,25 +35,6 @@ interface Project {
   created_at: string;
 }
 
-interface Renovation {
-  id: string;
-  project_id: string;
-  requirement: string;
-  status: string;
-  created_by: string;
-  created_at: string;
-}
-
-interface Bid {
-  id: string;
-  renovation_id: string;
-  admin_id: string;
-  proposal: string;
-  tokens_used: number;
-  bid_status: string;
-  created_at: string;
-}
-
 interface Profile {
   id: string;
   full_name: string | null;
@@ -40,6 +42,7 @@ interface Profile {
 
 export const Renovations: React.FC = () => {
   const { user, userRole } = useAuth();
+  const navigate = useNavigate();
   const [projects, setProjects] = useState<Project[]>([]);
   const [renovations, setRenovations] = useState<Renovation[]>([]);
   const [form, setForm] = useState({
@@ -56,7 +59,58 @@ export const Renovations: React.FC = () => {
   const [profiles, setProfiles] = useState<Record<string, Profile>>({});
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isTokenPopupOpen, setIsTokenPopupOpen] = useState(false);
-  const [tokens, setTokens] = useState(150);
+  const [tokens, setTokens] = useState(0);
+  const [tokenTransactions, setTokenTransactions] = useState<TokenTransaction[]>([]);
+  const [tokenPacks, setTokenPacks] = useState<TokenPack[]>([]);
+  const [bidCost, setBidCost] = useState(0);
+  const [purchasing, setPurchasing] = useState(false);
+  const [biddingOn, setBiddingOn] = useState<Renovation | null>(null);
+  const [comparing, setComparing] = useState<Renovation | null>(null);
+
+  const fetchWallet = async () => {
+    if (!user) return;
+    try {
+      const [balance, transactions, packs, cost] = await Promise.all([
+        getTokenBalance(user.id),
+        listTokenTransactions(user.id),
+        listTokenPacks(),
+        getBidTokenCost(),
+      ]);
+      setTokens(balance);
+      setTokenTransactions(transactions);
+      setTokenPacks(packs);
+      setBidCost(cost);
+    } catch (error) {
+      console.error("Error fetching wallet:", error);
+    }
+  };
+
+  const fetchMyBids = async () => {
+    if (!user) return;
+    try {
+      setBids(await listBidsByBidder(user.id));
+    } catch (error) {
+      console.error("Error fetching bids:", error);
+    }
+  };
+
+  const fetchClientRenovations = async () => {
+    const { data, error } = await supabase
+      .from("renovations")
+      .select("*")
+      .eq("created_by", user?.id);
+    if (!error && data) {
+      setRenovations(data);
+      try {
+        setBids(await listBidsForRenovations(data.map(r => r.id)));
+      } catch (bidError) {
+        console.error("Error fetching bids:", bidError);
+      }
+    }
+  };
+
+  const renovationTitle = (renovation: Renovation) =>
+    renovation.requirement.split("\n")[0].replace("Title: ", "");
 
   useEffect(() => {
     const fetchProjects = async () => {
@@ -80,15 +134,10 @@ export const Renovations: React.FC = () => {
     fetchProfiles();
 
     if (userRole === "Project Manager" || userRole === "Site Engineer" || userRole === "Accounts") {
-      const fetchBids = async () => {
-        const { data, error } = await supabase
-          .from("bids")
-          .select("*")
-          .eq("admin_id", user?.id);
-        if (!error && data) setBids(data);
-      };
-      fetchBids();
+      fetchMyBids();
     } else if (userRole === "Admin") {
+      fetchMyBids();
+      fetchWallet();
       const fetchRenovations = async () => {
         const { data, error } = await supabase
           .from("renovations")
@@ -100,24 +149,7 @@ export const Renovations: React.FC = () => {
       };
       fetchRenovations();
     } else {
-      const fetchUserRenovations = async () => {
-        const { data, error } = await supabase
-          .from("renovations")
-          .select("*")
-          .eq("created_by", user?.id);
-        if (!error && data) {
-          setRenovations(data);
-          const renovationIds = data.map(r => r.id);
-          if (renovationIds.length > 0) {
-            const { data: bidData, error: bidError } = await supabase
-              .from("bids")
-              .select("*")
-              .in("renovation_id", renovationIds);
-            if (!bidError && bidData) setBids(bidData);
-          }
-        }
-      };
-      fetchUserRenovations();
+      fetchClientRenovations();
     }
   }, [user, userRole]);
 
@@ -175,7 +207,7 @@ Description: ${form.description}
 
     const { data: projectData, error: projectError } = await supabase
       .from("projects")
-      .insert([{ name: form.project_name, status: "Not Started", start_date: new Date().toISOString().split('T')[0] }])
+      .insert([{ name: form.project_name, status: "pending", created_by: user.id, start_date: new Date().toISOString().split('T')[0] }])
       .select("id")
       .single();
     if (projectError || !projectData) {
@@ -212,49 +244,136 @@ Description: ${form.description}
       });
       setIsFormOpen(false);
       if (userRole !== "Admin") {
-        const { data } = await supabase.from("renovations").select("*").eq("created_by", user.id);
-        if (data) setRenovations(data);
+        fetchClientRenovations();
       }
     }
   };
 
-  const handleBidAction = async (bidId: string, action: string) => {
-    const { error } = await supabase
-      .from("bids")
-      .update({ bid_status: action === "accept" ? "accepted" : "rejected" })
-      .eq("id", bidId);
-    if (!error) {
-      setBids(bids.map(bid => bid.id === bidId ? { ...bid, bid_status: action === "accept" ? "accepted" : "rejected" } : bid));
+  const handleBidAction = async (bidId: string, action: "accept" | "reject") => {
+    if (
+      action === "accept" &&
+      !window.confirm("Accept this bid? The job becomes a project with a phase for each line item, and the other bids are rejected and refunded.")
+    ) {
+      return;
+    }
+    try {
+      const projectId = await respondToBid(bidId, action);
+      await fetchClientRenovations();
+      if (projectId) {
+        setComparing(null);
+        if (window.confirm("Bid accepted and the project has been set up. Open its phases now?")) {
+          navigate("/phases");
+        }
+      }
+    } catch (error) {
+      console.error("Error answering bid:", error);
+      alert(error instanceof Error ? error.message : "Failed to update the bid. Please try again.");
     }
   };
 
-  const handleBidForProject = async (renovationId: string) => {
-    if (tokens < 10) {
-      alert("Insufficient tokens. Please purchase more to bid.");
+  const handleBidForProject = (renovation: Renovation) => {
+    if (tokens < bidCost) {
+      alert(`Insufficient tokens. A bid costs ${bidCost} tokens; please purchase more to bid.`);
       setIsTokenPopupOpen(true);
       return;
     }
-    const proposal = prompt("Enter your bid proposal:");
-    if (proposal) {
-      const { error } = await supabase.from("bids").insert([
-        { renovation_id: renovationId, admin_id: user?.id || "", proposal, tokens_used: 10, bid_status: "active" },
-      ]);
-      if (!error) {
-        setTokens(tokens - 10);
-        const { data } = await supabase.from("bids").select("*").eq("admin_id", user?.id);
-        if (data) setBids(data);
+    setBiddingOn(renovation);
+  };
+
+  const handleSubmitBid = async (bid: BidInput, files: File[]) => {
+    if (!biddingOn) return;
+    let bidId: string;
+    try {
+      bidId = await placeBid(biddingOn.id, bid);
+    } catch (error) {
+      console.error("Error placing bid:", error);
+      if (isInsufficientTokensError(error)) {
+        alert(`${error instanceof Error ? error.message : "Not enough tokens"}. Please purchase more tokens to bid.`);
+        setBiddingOn(null);
+        setIsTokenPopupOpen(true);
       } else {
-        alert("Failed to submit bid. Please try again.");
+        alert(error instanceof Error ? error.message : "Failed to submit bid. Please try again.");
+      }
+      return;
+    }
+
+    // The bid stands even if a file fails; the bidder is told which ones to resend
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        await uploadBidAttachment(bidId, file);
+      } catch (error) {
+        console.error("Error uploading bid attachment:", error);
+        failed.push(file.name);
       }
     }
+    if (failed.length > 0) {
+      alert(`Your bid was placed, but these files could not be attached: ${failed.join(", ")}`);
+    }
+
+    setBiddingOn(null);
+    await Promise.all([fetchMyBids(), fetchWallet()]);
   };
 
-  const handlePurchaseTokens = (amount: number, price: number) => {
-    setTokens(tokens + amount);
-    alert(`${amount} tokens purchased for ₹${price}!`);
-    setIsTokenPopupOpen(false);
+  const handleWithdrawBid = async (bidId: string) => {
+    if (!window.confirm("Withdraw this bid? Its tokens will be returned to your wallet.")) return;
+    try {
+      await withdrawBid(bidId);
+      await Promise.all([fetchMyBids(), fetchWallet()]);
+    } catch (error) {
+      console.error("Error withdrawing bid:", error);
+      alert(error instanceof Error ? error.message : "Failed to withdraw bid. Please try again.");
+    }
   };
 
+  const handlePurchaseTokens = async (pack: TokenPack) => {
+    setPurchasing(true);
+    try {
+      // The function prices the pack itself; the browser only names it
+      const { order } = await checkoutTokenPack(pack.id);
+      await openRazorpayCheckout({
+        order,
+        description: `${pack.tokens} bidding tokens`,
+        prefill: {
+          name: user?.user_metadata?.full_name || "",
+          email: user?.email || "",
+        },
+        onSuccess: async (response) => {
+          try {
+            const balance = await verifyTokenPayment(response);
+            setTokens(balance);
+            await fetchWallet();
+            alert(`${pack.tokens} tokens purchased for ₹${pack.price}!`);
+          } catch (error) {
+            console.error("Token payment verification error:", error);
+            alert("Payment completed but the tokens could not be added yet. They will appear shortly; contact support if they don't.");
+          } finally {
+            setPurchasing(false);
+          }
+        },
+        onDismiss: () => setPurchasing(false),
+        onFailure: (error) => {
+          console.error("Token payment failed:", error);
+          setPurchasing(false);
+        },
+      });
+    } catch (error) {
+      console.error("Error purchasing tokens:", error);
+      alert(error instanceof Error ? error.message : "Failed to start the purchase. Please try again.");
+      setPurchasing(false);
+    }
+  };
+
+  const totalPurchased = tokenTransactions
+    .filter(t => t.kind === "purchase")
+    .reduce((sum, t) => sum + t.tokens, 0);
+  const totalSpent = -tokenTransactions
+    .filter(t => t.kind === "bid")
+    .reduce((sum, t) => sum + t.tokens, 0);
+  const totalRefunded = tokenTransactions
+    .filter(t => t.kind === "refund")
+    .reduce((sum, t) => sum + t.tokens, 0);
+
   if (userRole === "Admin") {
     return (
       <Layout>
@@ -271,19 +390,45 @@ Description: ${form.description}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
             {renovations.map((renovation) => (
               <div key={renovation.id} className="p-3 sm:p-4 border rounded-lg bg-gray-50 shadow-sm">
-                <h2 className="text-lg sm:text-xl font-semibold">{renovation.requirement.split("\n")[0].replace("Title: ", "")}</h2>
+                <h2 className="text-lg sm:text-xl font-semibold">{renovationTitle(renovation)}</h2>
                 <p className="text-gray-500 text-sm sm:text-base">Client: {profiles[renovation.created_by]?.full_name || renovation.created_by}</p>
                 <p className="text-sm sm:text-base text-gray-600">Status: {renovation.status}</p>
                 <p className="text-sm sm:text-base text-gray-600">Posted: {new Date(renovation.created_at).toLocaleDateString()}</p>
-                <button
-                  onClick={() => handleBidForProject(renovation.id)}
-                  className="mt-2 bg-green-600 text-white px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg hover:bg-green-700 text-sm sm:text-base"
-                >
-                  Bid for Project
-                </button>
+                {bids.filter(bid => bid.renovation_id === renovation.id).map((bid) => (
+                  <div key={bid.id} className="mt-2 p-2 bg-gray-100 rounded flex items-center justify-between">
+                    <p className="text-sm">
+                      Your bid: ₹{Number(bid.total_amount).toLocaleString("en-IN")} over {bid.timeline_days} days, {bid.bid_status} ({bid.tokens_used} tokens)
+                    </p>
+                    {bid.bid_status === "active" && (
+                      <button
+                        onClick={() => handleWithdrawBid(bid.id)}
+                        className="text-red-600 hover:underline text-xs sm:text-sm"
+                      >
+                        Withdraw
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {renovation.status === "pending" &&
+                  !bids.some(bid => bid.renovation_id === renovation.id && bid.bid_status === "active") && (
+                  <button
+                    onClick={() => handleBidForProject(renovation)}
+                    className="mt-2 bg-green-600 text-white px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg hover:bg-green-700 text-sm sm:text-base"
+                  >
+                    Bid for Project ({bidCost} tokens)
+                  </button>
+                )}
               </div>
             ))}
           </div>
+          {biddingOn && (
+            <BidForm
+              title={renovationTitle(biddingOn)}
+              bidCost={bidCost}
+              onSubmit={handleSubmitBid}
+              onClose={() => setBiddingOn(null)}
+            />
+          )}
           {isTokenPopupOpen && (
             <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
               <div className="bg-white p-4 sm:p-6 rounded-lg shadow-lg w-11/12 sm:w-3/4 md:w-1/2 lg:w-1/3">
@@ -296,57 +441,50 @@ Description: ${form.description}
                   </div>
                   <div className="p-2 sm:p-3 bg-gray-50 rounded-lg text-center">
                     <p className="text-gray-600 text-xs sm:text-sm">Total Purchased</p>
-                    <p className="text-lg sm:text-2xl font-bold text-green-600">500 tokens</p>
+                    <p className="text-lg sm:text-2xl font-bold text-green-600">{totalPurchased} tokens</p>
                   </div>
                   <div className="p-2 sm:p-3 bg-gray-50 rounded-lg text-center">
                     <p className="text-gray-600 text-xs sm:text-sm">Total Spent</p>
-                    <p className="text-lg sm:text-2xl font-bold text-red-600">350 tokens</p>
+                    <p className="text-lg sm:text-2xl font-bold text-red-600">{totalSpent} tokens</p>
                   </div>
                   <div className="p-2 sm:p-3 bg-gray-50 rounded-lg text-center">
-                    <p className="text-gray-600 text-xs sm:text-sm">Pending Refunds</p>
-                    <p className="text-lg sm:text-2xl font-bold text-purple-600">25 tokens</p>
+                    <p className="text-gray-600 text-xs sm:text-sm">Refunded</p>
+                    <p className="text-lg sm:text-2xl font-bold text-purple-600">{totalRefunded} tokens</p>
                   </div>
                 </div>
+                {tokenTransactions.length > 0 && (
+                  <div className="mb-3 max-h-32 overflow-y-auto border rounded-lg divide-y">
+                    {tokenTransactions.slice(0, 10).map((transaction) => (
+                      <div key={transaction.id} className="px-2 py-1 flex justify-between text-xs sm:text-sm">
+                        <span className="text-gray-600">
+                          {new Date(transaction.created_at).toLocaleDateString()} · {transaction.description || transaction.kind}
+                        </span>
+                        <span className={transaction.tokens > 0 ? "text-green-600" : "text-red-600"}>
+                          {transaction.tokens > 0 ? "+" : ""}{transaction.tokens}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <h3 className="text-lg sm:text-xl font-semibold mb-2">Purchase Tokens</h3>
                 <p className="text-gray-600 mb-3 text-sm sm:text-base">Buy tokens to participate in project bidding</p>
                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-4">
-                  <div className="p-2 sm:p-3 border rounded-lg text-center">
-                    <p className="text-xl sm:text-2xl font-bold">50</p>
-                    <p className="text-sm sm:text-base">Tokens</p>
-                    <p className="text-gray-600 text-sm sm:text-base">₹49.99</p>
-                    <p className="text-gray-500 text-xs sm:text-sm">₹1.00 per token</p>
-                    <button
-                      onClick={() => handlePurchaseTokens(50, 49.99)}
-                      className="mt-1 sm:mt-2 bg-gray-200 text-black px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg hover:bg-gray-300 text-xs sm:text-sm"
-                    >
-                      Purchase
-                    </button>
-                  </div>
-                  <div className="p-2 sm:p-3 border rounded-lg text-center bg-blue-50">
-                    <span className="bg-blue-200 text-blue-800 text-xs font-semibold mr-1 px-1.5 py-0.5 rounded">Most Popular</span>
-                    <p className="text-xl sm:text-2xl font-bold">100</p>
-                    <p className="text-sm sm:text-base">Tokens</p>
-                    <p className="text-gray-600 text-sm sm:text-base">₹89.99</p>
-                    <p className="text-gray-500 text-xs sm:text-sm">₹0.90 per token</p>
-                    <button
-                      onClick={() => handlePurchaseTokens(100, 89.99)}
-                      className="mt-1 sm:mt-2 bg-blue-600 text-white px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg hover:bg-blue-700 text-xs sm:text-sm"
-                    >
-                      Purchase
-                    </button>
-                  </div>
-                  <div className="p-2 sm:p-3 border rounded-lg text-center">
-                    <p className="text-xl sm:text-2xl font-bold">250</p>
-                    <p className="text-sm sm:text-base">Tokens</p>
-                    <p className="text-gray-600 text-sm sm:text-base">₹199.99</p>
-                    <p className="text-gray-500 text-xs sm:text-sm">₹0.80 per token</p>
-                    <button
-                      onClick={() => handlePurchaseTokens(250, 199.99)}
-                      className="mt-1 sm:mt-2 bg-gray-200 text-black px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg hover:bg-gray-300 text-xs sm:text-sm"
-                    >
-                      Purchase
-                    </button>
-                  </div>
+                  {tokenPacks.map((pack) => (
+                    <div key={pack.id} className="p-2 sm:p-3 border rounded-lg text-center">
+                      <span className="bg-blue-200 text-blue-800 text-xs font-semibold mr-1 px-1.5 py-0.5 rounded">{pack.name}</span>
+                      <p className="text-xl sm:text-2xl font-bold">{pack.tokens}</p>
+                      <p className="text-sm sm:text-base">Tokens</p>
+                      <p className="text-gray-600 text-sm sm:text-base">₹{pack.price}</p>
+                      <p className="text-gray-500 text-xs sm:text-sm">₹{(pack.price / pack.tokens).toFixed(2)} per token</p>
+                      <button
+                        onClick={() => handlePurchaseTokens(pack)}
+                        disabled={purchasing}
+                        className="mt-1 sm:mt-2 bg-blue-600 text-white px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg hover:bg-blue-700 text-xs sm:text-sm disabled:opacity-50"
+                      >
+                        {purchasing ? "Processing..." : "Purchase"}
+                      </button>
+                    </div>
+                  ))}
                 </div>
                 <button
                   onClick={() => setIsTokenPopupOpen(false)}
@@ -362,8 +500,8 @@ Description: ${form.description}
     );
   }
 
-  const activeProjects = projects.filter(p => p.status === "In Progress" || p.status === "Not Started").length;
-  const completedProjects = projects.filter(p => p.status === "Completed").length;
+  const activeProjects = projects.filter(p => p.status === "active" || p.status === "pending").length;
+  const completedProjects = projects.filter(p => p.status === "completed").length;
   const totalInvestment = projects.reduce((sum, p) => sum + (p.manager_id ? 10000 : 0), 0);
 
   return (
@@ -408,9 +546,9 @@ Description: ${form.description}
                 <p className="text-sm sm:text-base text-gray-600">Status</p>
                 <span
                   className={`inline-block mt-1 px-2 py-1 rounded-full text-sm ${
-                    project.status === "In Progress"
+                    project.status === "active"
                       ? "bg-blue-100 text-blue-800"
-                      : project.status === "Completed"
+                      : project.status === "completed"
                       ? "bg-green-100 text-green-800"
                       : "bg-yellow-100 text-yellow-800"
                   }`}
@@ -430,37 +568,39 @@ Description: ${form.description}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
           {renovations.map((renovation) => (
             <div key={renovation.id} className="p-3 sm:p-4 border rounded-lg bg-gray-50 shadow-sm">
-              <h3 className="text-lg sm:text-xl font-semibold">{renovation.requirement.split("\n")[0].replace("Title: ", "")}</h3>
+              <h3 className="text-lg sm:text-xl font-semibold">{renovationTitle(renovation)}</h3>
               <p className="text-gray-500 text-sm sm:text-base">Status: {renovation.status}</p>
               <p className="text-sm sm:text-base text-gray-600">Posted: {new Date(renovation.created_at).toLocaleDateString()}</p>
               <h4 className="text-md font-semibold mt-2">Bids:</h4>
               {bids.filter(bid => bid.renovation_id === renovation.id).map((bid) => (
                 <div key={bid.id} className="mt-1 p-2 bg-gray-100 rounded">
                   <p className="text-sm">Admin: {profiles[bid.admin_id]?.full_name || bid.admin_id}</p>
-                  <p className="text-sm">Proposal: {bid.proposal}</p>
-                  <p className="text-sm">Tokens: {bid.tokens_used}</p>
+                  <p className="text-sm">Price: ₹{Number(bid.total_amount).toLocaleString("en-IN")} · {bid.timeline_days} days</p>
                   <p className="text-sm">Status: {bid.bid_status}</p>
-                  <div className="mt-1">
-                    <button
-                      onClick={() => handleBidAction(bid.id, "accept")}
-                      className="bg-green-600 text-white px-1 sm:px-2 py-0.5 sm:py-1 rounded-lg mr-1 hover:bg-green-700 text-xs sm:text-sm"
-                      disabled={bid.bid_status !== "active"}
-                    >
-                      Accept
-                    </button>
-                    <button
-                      onClick={() => handleBidAction(bid.id, "reject")}
-                      className="bg-red-600 text-white px-1 sm:px-2 py-0.5 sm:py-1 rounded-lg hover:bg-red-700 text-xs sm:text-sm"
-                      disabled={bid.bid_status !== "active"}
-                    >
-                      Reject
-                    </button>
-                  </div>
                 </div>
               ))}
+              {bids.some(bid => bid.renovation_id === renovation.id) && (
+                <button
+                  onClick={() => setComparing(renovation)}
+                  className="mt-2 bg-blue-600 text-white px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg hover:bg-blue-700 text-sm sm:text-base"
+                >
+                  Compare Bids
+                </button>
+              )}
             </div>
           ))}
         </div>
+        {comparing && (
+          <BidComparison
+            title={renovationTitle(comparing)}
+            bids={bids.filter(bid => bid.renovation_id === comparing.id)}
+            bidderNames={Object.fromEntries(
+              Object.values(profiles).map((profile) => [profile.id, profile.full_name || profile.id])
+            )}
+            onRespond={handleBidAction}
+            onClose={() => setComparing(null)}
+          />
+        )}
         {isFormOpen && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="bg-white p-4 sm:p-6 rounded-lg shadow-lg w-11/12 sm:w-3/4 md:w-1/2">
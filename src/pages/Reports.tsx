@@ -1,15 +1,28 @@
 import React, { useState, useEffect } from "react";
-import { Search, Download, FileText, Calendar, Filter } from "lucide-react";
+import { Search, Download, FileText, Calendar, Filter, PieChart, GitCompare, X } from "lucide-react";
 import { Layout } from "../components/Layout/Layout";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import {
+  listProjects,
+  listProjectPhases,
+  listProjectTransactions,
+  listProjectMaterials,
+  listBudgetVariance,
+  listScheduleBaselines,
+  listScheduleVariance,
+  projectSlipDays,
+} from "../lib/repositories";
+import type { Project } from "../types";
+import { BudgetVarianceTable } from "../components/Budget/BudgetVarianceTable";
+import { ScheduleVarianceTable } from "../components/Phases/ScheduleVarianceTable";
 import jsPDF from "jspdf";
 import "jspdf-autotable";
 
 export function Reports() {
   const { user } = useAuth();
   const [profileId, setProfileId] = useState<string | null>(null);
-  const [projects, setProjects] = useState<any[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterStatus, setFilterStatus] = useState("All");
@@ -17,6 +30,8 @@ export function Reports() {
     startDate: "",
     endDate: ""
   });
+  const [budgetProject, setBudgetProject] = useState<Project | null>(null);
+  const [scheduleProject, setScheduleProject] = useState<Project | null>(null);
 
   useEffect(() => {
     if (user) setProfileId(user.id);
@@ -26,16 +41,10 @@ export function Reports() {
     if (!profileId) return;
     setLoading(true);
 
-    const { data, error } = await supabase
-      .from("projects")
-      .select("*")
-      .eq("created_by", profileId)
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      console.error("Fetch projects error:", error.message);
-    } else {
-      setProjects(data || []);
+    try {
+      setProjects(await listProjects(profileId));
+    } catch (error) {
+      console.error("Fetch projects error:", error);
     }
     setLoading(false);
   };
@@ -45,20 +54,17 @@ export function Reports() {
   }, [profileId]);
 
   const fetchProjectDetails = async (projectId: string) => {
-    const { data: phaseData } = await supabase
-      .from("phases")
-      .select("*")
-      .eq("project_id", projectId);
-
-    const { data: expenseData } = await supabase
-      .from("expenses")
-      .select("*, phase:phase_id(name)")
-      .eq("project_id", projectId);
-
-    const { data: materialData } = await supabase
-      .from("materials")
-      .select("id, name, unit_cost, qty_required, status, updated_at")
-      .eq("project_id", projectId);
+    const [phaseData, expenseData, materialData, budgetData, baselineData] = await Promise.all([
+      listProjectPhases(projectId).catch(() => []),
+      listProjectTransactions(projectId).catch(() => []),
+      listProjectMaterials(projectId).catch(() => []),
+      listBudgetVariance(projectId).catch(() => []),
+      listScheduleBaselines(projectId).catch(() => []),
+    ]);
+
+    // The schedule is reported against the latest baseline
+    const baseline = baselineData[0] ?? null;
+    const scheduleData = baseline ? await listScheduleVariance(baseline.id).catch(() => []) : [];
 
     const { data: teamData } = await supabase
       .from("users")
@@ -67,15 +73,19 @@ export function Reports() {
       .eq("created_by", profileId);
 
     return {
-      phases: phaseData || [],
-      expenses: expenseData || [],
-      materials: materialData || [],
+      phases: phaseData,
+      // Unapproved expenses are left out until they are approved
+      expenses: expenseData.filter((e) => e.approved),
+      materials: materialData,
+      budget: budgetData,
+      baseline,
+      schedule: scheduleData,
       teamMembers: teamData || []
     };
   };
 
   const generateProjectReport = async (project: any) => {
-    const { phases, expenses, materials, teamMembers } = await fetchProjectDetails(project.id);
+    const { phases, expenses, materials, budget, baseline, schedule, teamMembers } = await fetchProjectDetails(project.id);
 
     const doc = new jsPDF();
     const pageWidth = doc.internal.pageSize.width;
@@ -234,7 +244,7 @@ export function Reports() {
       const expenseRows = expenses.map((e) => {
         const amount = Number(e.amount || 0);
         return [
-          e.phase?.name || 'No Phase',
+          e.phases?.name || 'No Phase',
           e.category || 'Uncategorized',
           `Rs ${amount.toLocaleString()}`,
           e.date ? new Date(e.date).toLocaleDateString() : 'No Date',
@@ -456,6 +466,119 @@ export function Reports() {
     
     addFooter(6);
 
+    // PAGE 7: BUDGET VS ACTUAL
+    if (budget.length > 0) {
+      doc.addPage();
+      addHeader('BUDGET VS ACTUAL');
+
+      const budgetRows = budget.map((b) => [
+        phases.find((p) => p.id === b.phase_id)?.name || 'Unknown Phase',
+        b.category,
+        `Rs ${Number(b.budgeted).toLocaleString()}`,
+        `Rs ${Number(b.committed).toLocaleString()}`,
+        `Rs ${Number(b.spent).toLocaleString()}`,
+        `Rs ${Number(b.remaining).toLocaleString()}`,
+        b.percent_consumed === null ? '-' : `${b.percent_consumed}%`
+      ]);
+
+      (doc as any).autoTable({
+        head: [['Phase', 'Category', 'Budgeted', 'Committed', 'Spent', 'Remaining', 'Consumed']],
+        body: budgetRows,
+        startY: 55,
+        theme: 'striped',
+        headStyles: {
+          fillColor: [52, 73, 94],
+          textColor: [255, 255, 255],
+          fontSize: 9,
+          fontStyle: 'bold',
+          halign: 'center'
+        },
+        bodyStyles: {
+          fontSize: 8,
+          cellPadding: 3
+        },
+        alternateRowStyles: {
+          fillColor: [245, 245, 245]
+        },
+        columnStyles: {
+          2: { halign: 'right' },
+          3: { halign: 'right' },
+          4: { halign: 'right' },
+          5: { halign: 'right' },
+          6: { halign: 'center' }
+        },
+        didParseCell: (data: any) => {
+          if (data.section === 'body' && Number(budget[data.row.index].remaining) < 0) {
+            data.cell.styles.textColor = [231, 76, 60];
+          }
+        }
+      });
+
+      addFooter(7);
+    }
+
+    // PAGE 8: SCHEDULE VARIANCE
+    if (baseline && schedule.length > 0) {
+      doc.addPage();
+      addHeader('SCHEDULE VARIANCE');
+
+      const projectSlip = projectSlipDays(schedule);
+      const slipText = (days: number | null) =>
+        days === null ? '-' : days === 0 ? 'On plan' : days > 0 ? `${days}d late` : `${-days}d early`;
+      const shortDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '-');
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(52, 73, 94);
+      doc.text(
+        `Against baseline "${baseline.name}" of ${new Date(baseline.created_at).toLocaleDateString()}. Project finish: ${slipText(projectSlip)}.`,
+        margin,
+        55
+      );
+
+      const scheduleRows = schedule.map((s) => [
+        s.phase_name + (!s.baseline_start ? ' (added)' : !s.current_start ? ' (removed)' : ''),
+        `${shortDate(s.baseline_start)} - ${shortDate(s.baseline_end)}`,
+        `${shortDate(s.current_start)} - ${shortDate(s.current_end)}`,
+        slipText(s.start_slip_days),
+        slipText(s.end_slip_days)
+      ]);
+
+      (doc as any).autoTable({
+        head: [['Phase', 'Baseline', 'Current', 'Start Slip', 'Finish Slip']],
+        body: scheduleRows,
+        startY: 62,
+        theme: 'striped',
+        headStyles: {
+          fillColor: [230, 126, 34],
+          textColor: [255, 255, 255],
+          fontSize: 9,
+          fontStyle: 'bold',
+          halign: 'center'
+        },
+        bodyStyles: {
+          fontSize: 8,
+          cellPadding: 3
+        },
+        alternateRowStyles: {
+          fillColor: [245, 245, 245]
+        },
+        columnStyles: {
+          1: { halign: 'center' },
+          2: { halign: 'center' },
+          3: { halign: 'right' },
+          4: { halign: 'right' }
+        },
+        didParseCell: (data: any) => {
+          if (data.section === 'body' && data.column.index === 4 && Number(schedule[data.row.index].end_slip_days) > 0) {
+            data.cell.styles.textColor = [231, 76, 60];
+          }
+        }
+      });
+
+      addFooter(budget.length > 0 ? 8 : 7);
+    }
+
     const fileName = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_Report_${new Date().toISOString().split('T')[0]}.pdf`;
     doc.save(fileName);
   };
@@ -502,8 +625,8 @@ export function Reports() {
       const matchesSearch = p.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                            p.location?.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesFilter = filterStatus === "All" ? true : p.status === filterStatus;
-      const matchesDate = (!dateRange.startDate || new Date(p.start_date) >= new Date(dateRange.startDate)) &&
-                         (!dateRange.endDate || new Date(p.end_date) <= new Date(dateRange.endDate));
+      const matchesDate = (!dateRange.startDate || (!!p.start_date && new Date(p.start_date) >= new Date(dateRange.startDate))) &&
+                         (!dateRange.endDate || !p.end_date || new Date(p.end_date) <= new Date(dateRange.endDate));
       return matchesSearch && matchesFilter && matchesDate;
     });
 
@@ -559,8 +682,8 @@ export function Reports() {
     const matchesSearch = p.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          p.location?.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesFilter = filterStatus === "All" ? true : p.status === filterStatus;
-    const matchesDate = (!dateRange.startDate || new Date(p.start_date) >= new Date(dateRange.startDate)) &&
-                       (!dateRange.endDate || new Date(p.end_date) <= new Date(dateRange.endDate));
+    const matchesDate = (!dateRange.startDate || (!!p.start_date && new Date(p.start_date) >= new Date(dateRange.startDate))) &&
+                       (!dateRange.endDate || !p.end_date || new Date(p.end_date) <= new Date(dateRange.endDate));
     return matchesSearch && matchesFilter && matchesDate;
   });
 
@@ -664,7 +787,21 @@ export function Reports() {
                       </div>
                       <p className="mt-2 text-sm text-gray-600">{project.description || 'No description'}</p>
                     </div>
-                    <div className="ml-4">
+                    <div className="ml-4 flex items-center gap-2">
+                      <button
+                        onClick={() => setBudgetProject(project)}
+                        className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+                      >
+                        <PieChart className="h-4 w-4 mr-2" />
+                        Budget vs Actual
+                      </button>
+                      <button
+                        onClick={() => setScheduleProject(project)}
+                        className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+                      >
+                        <GitCompare className="h-4 w-4 mr-2" />
+                        Schedule vs Baseline
+                      </button>
                       <button
                         onClick={() => generateProjectReport(project)}
                         className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
@@ -686,7 +823,46 @@ export function Reports() {
           )}
         </div>
       </div>
-      
+
+      {budgetProject && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setBudgetProject(null)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Budget vs Actual</h2>
+                <p className="text-sm text-gray-600">{budgetProject.name}</p>
+              </div>
+              <button onClick={() => setBudgetProject(null)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+            <BudgetVarianceTable projectId={budgetProject.id} projectBudget={budgetProject.budget} canEdit={false} />
+          </div>
+        </div>
+      )}
+
+      {scheduleProject && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setScheduleProject(null)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Schedule vs Baseline</h2>
+                <p className="text-sm text-gray-600">{scheduleProject.name}</p>
+              </div>
+              <button onClick={() => setScheduleProject(null)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+            <ScheduleVarianceTable projectId={scheduleProject.id} canEdit={false} />
+          </div>
+        </div>
+      )}
     </Layout>
   );
 }
\ No newline at end of file
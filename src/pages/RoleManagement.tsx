@@ -41,6 +41,7 @@ export function RoleManagement() {
     "add_expense",
     "edit_expense",
     "delete_expense",
+    "approve_expenses",
     
     // Material permissions
     "view_materials",
@@ -48,6 +49,37 @@ export function RoleManagement() {
     "edit_material",
     "delete_material",
     
+    // Labour permissions
+    "view_labour",
+    "mark_attendance",
+    "pay_wages",
+    
+    // Site log permissions
+    "view_site_logs",
+    "write_site_logs",
+    "sign_off_site_logs",
+    
+    // Snag permissions
+    "view_snags",
+    "manage_snags",
+    
+    // Inspection permissions
+    "view_inspections",
+    "conduct_inspections",
+    "manage_inspection_templates",
+    
+    // Safety permissions
+    "view_safety",
+    "manage_safety",
+    
+    // Vendor permissions
+    "view_vendors",
+    "manage_vendors",
+    
+    // Invoice permissions
+    "view_invoices",
+    "manage_invoices",
+    
     // Report permissions
     "view_reports",
     "generate_reports",
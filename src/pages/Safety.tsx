@@ -0,0 +1,845 @@
+import { useState, useEffect } from "react";
+import { ShieldAlert, Plus, Edit, Trash2, X, CheckCircle, RotateCcw, Users } from "lucide-react";
+import { format, parseISO, subDays } from "date-fns";
+import { Layout } from "../components/Layout/Layout";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  listProjectOptions,
+  listProjectMembers,
+  listLabourWorkers,
+  listSafetyIncidents,
+  createSafetyIncident,
+  updateSafetyIncident,
+  deleteSafetyIncident,
+  createCorrectiveAction,
+  updateCorrectiveAction,
+  deleteCorrectiveAction,
+  listToolboxTalks,
+  saveToolboxTalk,
+  deleteToolboxTalk,
+  isCorrectiveActionOverdue,
+  summariseSafety,
+  CorrectiveActionWithAssignee,
+  ProjectOption,
+  SafetyIncidentWithActions,
+  ToolboxTalkWithAttendees,
+} from "../lib/repositories";
+import type { LabourWorker, SafetyIncidentType, TeamMember } from "../types";
+
+type SafetyTab = "incidents" | "talks";
+
+const INCIDENT_TYPES: Record<SafetyIncidentType, { label: string; className: string }> = {
+  near_miss: { label: "Near Miss", className: "bg-yellow-100 text-yellow-800" },
+  injury: { label: "Injury", className: "bg-red-100 text-red-800" },
+  property_damage: { label: "Property Damage", className: "bg-orange-100 text-orange-800" },
+};
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+const formatDay = (date: string) => format(parseISO(date), "dd MMM yyyy");
+
+// Comma-separated names, as typed in the forms
+const splitNames = (text: string) => text.split(",").map((name) => name.trim()).filter(Boolean);
+
+const emptyIncidentForm = () => ({
+  incident_type: "near_miss" as SafetyIncidentType,
+  incident_date: today(),
+  location: "",
+  description: "",
+  people_involved: "",
+  root_cause: "",
+});
+
+const emptyActionForm = { description: "", assigned_to: "", due_date: "" };
+
+const emptyTalkForm = () => ({
+  talk_date: today(),
+  topic: "",
+  conducted_by: "",
+  notes: "",
+  worker_ids: [] as string[],
+  other_attendees: "",
+});
+
+export function Safety() {
+  const { user, userRole, permissions } = useAuth();
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [workers, setWorkers] = useState<LabourWorker[]>([]);
+  const [incidents, setIncidents] = useState<SafetyIncidentWithActions[]>([]);
+  const [talks, setTalks] = useState<ToolboxTalkWithAttendees[]>([]);
+  const [tab, setTab] = useState<SafetyTab>("incidents");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [showIncidentForm, setShowIncidentForm] = useState(false);
+  const [editingIncidentId, setEditingIncidentId] = useState<string | null>(null);
+  const [incidentForm, setIncidentForm] = useState(emptyIncidentForm());
+  const [viewingIncidentId, setViewingIncidentId] = useState<string | null>(null);
+  const [actionForm, setActionForm] = useState(emptyActionForm);
+
+  const [showTalkForm, setShowTalkForm] = useState(false);
+  const [editingTalk, setEditingTalk] = useState<ToolboxTalkWithAttendees | null>(null);
+  const [talkForm, setTalkForm] = useState(emptyTalkForm());
+
+  const canManage = userRole === "Admin" || permissions.includes("manage_safety");
+  const viewingIncident = incidents.find((i) => i.id === viewingIncidentId) ?? null;
+
+  useEffect(() => {
+    if (!user) return;
+    listProjectOptions(user.id)
+      .then((data) => {
+        setProjects(data);
+        if (data.length > 0) setProjectId((current) => current || data[0].id);
+      })
+      .catch((error) => console.error("Error fetching projects:", error));
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    listProjectMembers(projectId)
+      .then(setMembers)
+      .catch((error) => console.error("Error fetching team members:", error));
+    listLabourWorkers(projectId)
+      .then(setWorkers)
+      .catch((error) => console.error("Error fetching workers:", error));
+    setLoading(true);
+    Promise.all([fetchIncidents(), fetchTalks()]).finally(() => setLoading(false));
+  }, [projectId]);
+
+  async function fetchIncidents() {
+    try {
+      setIncidents(await listSafetyIncidents(projectId));
+    } catch (error) {
+      console.error("Error fetching incidents:", error);
+    }
+  }
+
+  async function fetchTalks() {
+    try {
+      setTalks(await listToolboxTalks(projectId));
+    } catch (error) {
+      console.error("Error fetching toolbox talks:", error);
+    }
+  }
+
+  const openIncidentForm = (incident?: SafetyIncidentWithActions) => {
+    setEditingIncidentId(incident?.id ?? null);
+    setIncidentForm(
+      incident
+        ? {
+            incident_type: incident.incident_type,
+            incident_date: incident.incident_date,
+            location: incident.location ?? "",
+            description: incident.description,
+            people_involved: incident.people_involved.join(", "),
+            root_cause: incident.root_cause ?? "",
+          }
+        : emptyIncidentForm()
+    );
+    setShowIncidentForm(true);
+  };
+
+  const handleSaveIncident = async () => {
+    if (!incidentForm.description.trim()) {
+      alert("Please describe what happened");
+      return;
+    }
+    if (incidentForm.incident_date > today()) {
+      alert("The incident date cannot be in the future");
+      return;
+    }
+
+    const input = {
+      project_id: projectId,
+      incident_type: incidentForm.incident_type,
+      incident_date: incidentForm.incident_date,
+      location: incidentForm.location.trim() || null,
+      description: incidentForm.description.trim(),
+      people_involved: splitNames(incidentForm.people_involved),
+      root_cause: incidentForm.root_cause.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      if (editingIncidentId) {
+        await updateSafetyIncident(editingIncidentId, input);
+      } else {
+        const incident = await createSafetyIncident(input);
+        setViewingIncidentId(incident.id);
+      }
+      setShowIncidentForm(false);
+      await fetchIncidents();
+    } catch (error) {
+      console.error("Error saving incident:", error);
+      alert(`Failed to save incident: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteIncident = async (incident: SafetyIncidentWithActions) => {
+    if (!window.confirm("Delete this incident and its corrective actions from the register?")) return;
+    try {
+      await deleteSafetyIncident(incident.id);
+      setViewingIncidentId(null);
+      await fetchIncidents();
+    } catch (error) {
+      console.error("Error deleting incident:", error);
+      alert(`Failed to delete incident: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleAddAction = async (incident: SafetyIncidentWithActions) => {
+    if (!actionForm.description.trim()) {
+      alert("Please describe the corrective action");
+      return;
+    }
+    try {
+      await createCorrectiveAction({
+        incident_id: incident.id,
+        description: actionForm.description.trim(),
+        assigned_to: actionForm.assigned_to || null,
+        due_date: actionForm.due_date || null,
+      });
+      setActionForm(emptyActionForm);
+      await fetchIncidents();
+    } catch (error) {
+      console.error("Error adding corrective action:", error);
+      alert(`Failed to add corrective action: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleActionStatus = async (action: CorrectiveActionWithAssignee) => {
+    try {
+      await updateCorrectiveAction(action.id, { status: action.status === "open" ? "closed" : "open" });
+      await fetchIncidents();
+    } catch (error) {
+      console.error("Error updating corrective action:", error);
+      alert(`Failed to update corrective action: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleDeleteAction = async (action: CorrectiveActionWithAssignee) => {
+    if (!window.confirm("Delete this corrective action?")) return;
+    try {
+      await deleteCorrectiveAction(action.id);
+      await fetchIncidents();
+    } catch (error) {
+      console.error("Error deleting corrective action:", error);
+      alert(`Failed to delete corrective action: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const openTalkForm = (talk?: ToolboxTalkWithAttendees) => {
+    setEditingTalk(talk ?? null);
+    setTalkForm(
+      talk
+        ? {
+            talk_date: talk.talk_date,
+            topic: talk.topic,
+            conducted_by: talk.conducted_by ?? "",
+            notes: talk.notes ?? "",
+            worker_ids: talk.toolbox_talk_attendees.flatMap((a) => (a.worker_id ? [a.worker_id] : [])),
+            other_attendees: talk.toolbox_talk_attendees
+              .filter((a) => !a.worker_id)
+              .map((a) => a.name)
+              .join(", "),
+          }
+        : emptyTalkForm()
+    );
+    setShowTalkForm(true);
+  };
+
+  const toggleTalkWorker = (workerId: string) =>
+    setTalkForm((form) => ({
+      ...form,
+      worker_ids: form.worker_ids.includes(workerId)
+        ? form.worker_ids.filter((id) => id !== workerId)
+        : [...form.worker_ids, workerId],
+    }));
+
+  const handleSaveTalk = async () => {
+    if (!talkForm.topic.trim()) {
+      alert("Please enter the topic of the talk");
+      return;
+    }
+
+    // Workers since removed from the roster keep their recorded name
+    const workerName = (id: string) =>
+      workers.find((w) => w.id === id)?.name ??
+      editingTalk?.toolbox_talk_attendees.find((a) => a.worker_id === id)?.name ??
+      "";
+    const attendees = [
+      ...talkForm.worker_ids.map((id) => ({ worker_id: id, name: workerName(id) })),
+      ...splitNames(talkForm.other_attendees).map((name) => ({ worker_id: null, name })),
+    ];
+
+    setSaving(true);
+    try {
+      await saveToolboxTalk(editingTalk?.id ?? null, {
+        project_id: projectId,
+        talk_date: talkForm.talk_date,
+        topic: talkForm.topic,
+        conducted_by: talkForm.conducted_by,
+        notes: talkForm.notes,
+        attendees,
+      });
+      setShowTalkForm(false);
+      await fetchTalks();
+    } catch (error) {
+      console.error("Error saving toolbox talk:", error);
+      alert(`Failed to save toolbox talk: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTalk = async (talk: ToolboxTalkWithAttendees) => {
+    if (!window.confirm(`Delete the toolbox talk "${talk.topic}"?`)) return;
+    try {
+      await deleteToolboxTalk(talk.id);
+      setShowTalkForm(false);
+      await fetchTalks();
+    } catch (error) {
+      console.error("Error deleting toolbox talk:", error);
+      alert(`Failed to delete toolbox talk: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const kpis = summariseSafety(incidents, incidents.flatMap((i) => i.safety_corrective_actions));
+  const monthAgo = format(subDays(new Date(), 30), "yyyy-MM-dd");
+  const recentTalks = talks.filter((t) => t.talk_date >= monthAgo);
+  const talkWorkers = workers.filter((w) => w.active || talkForm.worker_ids.includes(w.id));
+
+  return (
+    <Layout title="Safety" subtitle="Incident register and toolbox talks">
+      <div className="p-6">
+        <div className="mb-6">
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            {projects.length === 0 && <option value="">No projects</option>}
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-green-50 rounded-lg border border-green-200 p-4">
+            <p className="text-sm text-green-700">Days Since Last Incident</p>
+            <p className="text-2xl font-bold text-green-600">{kpis.daysSinceLastIncident ?? "-"}</p>
+            <p className="text-xs text-green-700">
+              {kpis.lastIncidentDate ? `Last on ${formatDay(kpis.lastIncidentDate)}` : "No injuries or damage recorded"}
+            </p>
+          </div>
+          <div className="bg-orange-50 rounded-lg border border-orange-200 p-4">
+            <p className="text-sm text-orange-700">Open Corrective Actions</p>
+            <p className="text-2xl font-bold text-orange-600">{kpis.openActions}</p>
+          </div>
+          <div className="bg-red-50 rounded-lg border border-red-200 p-4">
+            <p className="text-sm text-red-700">Overdue Actions</p>
+            <p className="text-2xl font-bold text-red-600">{kpis.overdueActions}</p>
+          </div>
+          <div className="bg-blue-50 rounded-lg border border-blue-200 p-4">
+            <p className="text-sm text-blue-700">Toolbox Talks (30 days)</p>
+            <p className="text-2xl font-bold text-blue-600">{recentTalks.length}</p>
+            <p className="text-xs text-blue-700">
+              {recentTalks.reduce((sum, t) => sum + t.toolbox_talk_attendees.length, 0)} attendances
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between border-b border-gray-200 mb-6">
+          <div className="flex">
+            {([
+              ["incidents", "Incident Register"],
+              ["talks", "Toolbox Talks"],
+            ] as [SafetyTab, string][]).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setTab(key)}
+                className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                  tab === key ? "border-blue-600 text-blue-600" : "border-transparent text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {canManage && projectId && (
+            <button
+              onClick={() => (tab === "incidents" ? openIncidentForm() : openTalkForm())}
+              className="flex items-center px-3 py-1.5 mb-1 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              {tab === "incidents" ? "Report Incident" : "Record Talk"}
+            </button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading safety records...</div>
+        ) : tab === "incidents" ? (
+          incidents.length === 0 ? (
+            <div className="text-center py-12">
+              <ShieldAlert className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-500">No incidents reported on this project</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-gray-600">
+                    <th className="px-4 py-3 text-left font-medium">Date</th>
+                    <th className="px-4 py-3 text-left font-medium">Type</th>
+                    <th className="px-4 py-3 text-left font-medium">What Happened</th>
+                    <th className="px-4 py-3 text-left font-medium">Location</th>
+                    <th className="px-4 py-3 text-left font-medium">People Involved</th>
+                    <th className="px-4 py-3 text-left font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {incidents.map((incident) => {
+                    const open = incident.safety_corrective_actions.filter((a) => a.status === "open").length;
+                    return (
+                      <tr
+                        key={incident.id}
+                        onClick={() => {
+                          setActionForm(emptyActionForm);
+                          setViewingIncidentId(incident.id);
+                        }}
+                        className="border-t border-gray-100 hover:bg-gray-50 cursor-pointer align-top"
+                      >
+                        <td className="px-4 py-3 text-gray-900 whitespace-nowrap">{formatDay(incident.incident_date)}</td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-1 rounded text-xs whitespace-nowrap ${INCIDENT_TYPES[incident.incident_type].className}`}>
+                            {INCIDENT_TYPES[incident.incident_type].label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-gray-700 max-w-md">{incident.description}</td>
+                        <td className="px-4 py-3 text-gray-600">{incident.location || "-"}</td>
+                        <td className="px-4 py-3 text-gray-600">{incident.people_involved.join(", ") || "-"}</td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {incident.safety_corrective_actions.length === 0 ? (
+                            <span className="text-gray-400">None</span>
+                          ) : open > 0 ? (
+                            <span className="text-orange-600">{open} open</span>
+                          ) : (
+                            <span className="text-green-600">All closed</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )
+        ) : talks.length === 0 ? (
+          <div className="text-center py-12">
+            <Users className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No toolbox talks recorded on this project</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-gray-600">
+                  <th className="px-4 py-3 text-left font-medium">Date</th>
+                  <th className="px-4 py-3 text-left font-medium">Topic</th>
+                  <th className="px-4 py-3 text-left font-medium">Conducted By</th>
+                  <th className="px-4 py-3 text-left font-medium">Attendees</th>
+                </tr>
+              </thead>
+              <tbody>
+                {talks.map((talk) => (
+                  <tr
+                    key={talk.id}
+                    onClick={() => canManage && openTalkForm(talk)}
+                    className={`border-t border-gray-100 align-top ${canManage ? "hover:bg-gray-50 cursor-pointer" : ""}`}
+                  >
+                    <td className="px-4 py-3 text-gray-900 whitespace-nowrap">{formatDay(talk.talk_date)}</td>
+                    <td className="px-4 py-3">
+                      <p className="text-gray-900">{talk.topic}</p>
+                      {talk.notes && <p className="text-xs text-gray-500">{talk.notes}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{talk.conducted_by || "-"}</td>
+                    <td className="px-4 py-3 text-gray-600">
+                      <span className="font-medium text-gray-900">{talk.toolbox_talk_attendees.length}</span>
+                      {talk.toolbox_talk_attendees.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {talk.toolbox_talk_attendees.map((a) => a.name).join(", ")}
+                        </p>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {viewingIncident && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setViewingIncidentId(null)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <span className={`px-2 py-1 rounded text-xs ${INCIDENT_TYPES[viewingIncident.incident_type].className}`}>
+                  {INCIDENT_TYPES[viewingIncident.incident_type].label}
+                </span>
+                <h2 className="text-xl font-bold text-gray-900 mt-2">{formatDay(viewingIncident.incident_date)}</h2>
+                {viewingIncident.reported_by_name && (
+                  <p className="text-sm text-gray-500">Reported by {viewingIncident.reported_by_name}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {canManage && (
+                  <>
+                    <button onClick={() => openIncidentForm(viewingIncident)} className="p-2 text-blue-600 hover:text-blue-700" title="Edit">
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDeleteIncident(viewingIncident)} className="p-2 text-red-600 hover:text-red-700" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+                <button onClick={() => setViewingIncidentId(null)} className="p-2">
+                  <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-3 text-sm mb-6">
+              <div>
+                <p className="text-gray-500">What Happened</p>
+                <p className="text-gray-900 whitespace-pre-wrap">{viewingIncident.description}</p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-gray-500">Location</p>
+                  <p className="text-gray-900">{viewingIncident.location || "-"}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">People Involved</p>
+                  <p className="text-gray-900">{viewingIncident.people_involved.join(", ") || "-"}</p>
+                </div>
+              </div>
+              <div>
+                <p className="text-gray-500">Root Cause</p>
+                <p className="text-gray-900 whitespace-pre-wrap">{viewingIncident.root_cause || "Not yet established"}</p>
+              </div>
+            </div>
+
+            <h3 className="font-semibold text-gray-900 mb-2">Corrective Actions</h3>
+            {viewingIncident.safety_corrective_actions.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">No corrective actions yet</p>
+            ) : (
+              <div className="space-y-2 mb-4">
+                {viewingIncident.safety_corrective_actions.map((action) => (
+                  <div key={action.id} className="flex justify-between items-start border border-gray-200 rounded-lg p-3">
+                    <div className="text-sm">
+                      <p className={action.status === "closed" ? "text-gray-500 line-through" : "text-gray-900"}>
+                        {action.description}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {action.users?.name ?? "Unassigned"}
+                        {action.due_date && (
+                          <span className={isCorrectiveActionOverdue(action) ? "text-red-600 font-medium" : ""}>
+                            {" "}· Due {formatDay(action.due_date)}
+                          </span>
+                        )}
+                        {action.closed_at &&
+                          ` · Closed by ${action.closed_by_name || "a team member"} on ${format(new Date(action.closed_at), "dd MMM yyyy")}`}
+                      </p>
+                    </div>
+                    {canManage && (
+                      <div className="flex">
+                        <button
+                          onClick={() => handleActionStatus(action)}
+                          className={`p-1 ${action.status === "open" ? "text-green-600 hover:text-green-700" : "text-gray-600 hover:text-gray-800"}`}
+                          title={action.status === "open" ? "Close" : "Reopen"}
+                        >
+                          {action.status === "open" ? <CheckCircle className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                        </button>
+                        <button onClick={() => handleDeleteAction(action)} className="p-1 text-red-600 hover:text-red-700" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canManage && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-2 border-t pt-4">
+                <input
+                  type="text"
+                  value={actionForm.description}
+                  onChange={(e) => setActionForm({ ...actionForm, description: e.target.value })}
+                  placeholder="e.g. Install guard rails on level 2 slab edge"
+                  className="md:col-span-2 border rounded-lg p-2 text-sm"
+                />
+                <select
+                  value={actionForm.assigned_to}
+                  onChange={(e) => setActionForm({ ...actionForm, assigned_to: e.target.value })}
+                  className="border rounded-lg p-2 text-sm"
+                >
+                  <option value="">Unassigned</option>
+                  {members.map((m) => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={actionForm.due_date}
+                  onChange={(e) => setActionForm({ ...actionForm, due_date: e.target.value })}
+                  className="border rounded-lg p-2 text-sm"
+                />
+                <div className="md:col-span-4 flex justify-end">
+                  <button
+                    onClick={() => handleAddAction(viewingIncident)}
+                    className="flex items-center px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Action
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showIncidentForm && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setShowIncidentForm(false)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">{editingIncidentId ? "Edit Incident" : "Report Incident"}</h3>
+              <button onClick={() => setShowIncidentForm(false)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Type *</label>
+                  <select
+                    value={incidentForm.incident_type}
+                    onChange={(e) => setIncidentForm({ ...incidentForm, incident_type: e.target.value as SafetyIncidentType })}
+                    className="w-full border rounded-lg p-2"
+                  >
+                    {(Object.keys(INCIDENT_TYPES) as SafetyIncidentType[]).map((type) => (
+                      <option key={type} value={type}>{INCIDENT_TYPES[type].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Date *</label>
+                  <input
+                    type="date"
+                    value={incidentForm.incident_date}
+                    max={today()}
+                    onChange={(e) => setIncidentForm({ ...incidentForm, incident_date: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Location</label>
+                <input
+                  type="text"
+                  value={incidentForm.location}
+                  onChange={(e) => setIncidentForm({ ...incidentForm, location: e.target.value })}
+                  placeholder="e.g. Block B stairwell, level 3"
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">What Happened *</label>
+                <textarea
+                  value={incidentForm.description}
+                  onChange={(e) => setIncidentForm({ ...incidentForm, description: e.target.value })}
+                  rows={3}
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">People Involved</label>
+                <input
+                  type="text"
+                  value={incidentForm.people_involved}
+                  onChange={(e) => setIncidentForm({ ...incidentForm, people_involved: e.target.value })}
+                  placeholder="Names, separated by commas"
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Root Cause</label>
+                <textarea
+                  value={incidentForm.root_cause}
+                  onChange={(e) => setIncidentForm({ ...incidentForm, root_cause: e.target.value })}
+                  rows={2}
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  onClick={() => setShowIncidentForm(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveIncident}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save Incident"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showTalkForm && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setShowTalkForm(false)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">{editingTalk ? "Edit Toolbox Talk" : "Record Toolbox Talk"}</h3>
+              <button onClick={() => setShowTalkForm(false)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Date *</label>
+                  <input
+                    type="date"
+                    value={talkForm.talk_date}
+                    max={today()}
+                    onChange={(e) => setTalkForm({ ...talkForm, talk_date: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  />
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Conducted By</label>
+                  <input
+                    type="text"
+                    value={talkForm.conducted_by}
+                    onChange={(e) => setTalkForm({ ...talkForm, conducted_by: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Topic *</label>
+                <input
+                  type="text"
+                  value={talkForm.topic}
+                  onChange={(e) => setTalkForm({ ...talkForm, topic: e.target.value })}
+                  placeholder="e.g. Working at height and harness checks"
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={talkForm.notes}
+                  onChange={(e) => setTalkForm({ ...talkForm, notes: e.target.value })}
+                  rows={2}
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="font-medium text-gray-700">Workers Present</label>
+                  {talkWorkers.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setTalkForm({ ...talkForm, worker_ids: talkWorkers.map((w) => w.id) })}
+                      className="text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      Select all
+                    </button>
+                  )}
+                </div>
+                {talkWorkers.length === 0 ? (
+                  <p className="text-sm text-gray-500">No workers on this project's labour roster</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-1 max-h-40 overflow-y-auto border rounded-lg p-2">
+                    {talkWorkers.map((worker) => (
+                      <label key={worker.id} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={talkForm.worker_ids.includes(worker.id)}
+                          onChange={() => toggleTalkWorker(worker.id)}
+                          className="mr-2"
+                        />
+                        {worker.name}
+                        {worker.trade && <span className="text-gray-400 ml-1">({worker.trade})</span>}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Other Attendees</label>
+                <input
+                  type="text"
+                  value={talkForm.other_attendees}
+                  onChange={(e) => setTalkForm({ ...talkForm, other_attendees: e.target.value })}
+                  placeholder="Names, separated by commas"
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+              <div className="flex justify-between pt-2">
+                {editingTalk ? (
+                  <button
+                    onClick={() => handleDeleteTalk(editingTalk)}
+                    className="px-4 py-2 text-red-600 hover:text-red-700"
+                  >
+                    Delete
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setShowTalkForm(false)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveTalk}
+                    disabled={saving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? "Saving..." : "Save Talk"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
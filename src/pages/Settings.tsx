@@ -19,11 +19,15 @@ import {
   Hash,
   Calendar,
   Crown,
-  Coins
+  Coins,
+  AlertTriangle
 } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Layout } from '../components/Layout/Layout';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { getPlanUsage, getTokenBalance, listPlans, listSubscriptions, SubscriptionWithPlan } from '../lib/repositories';
+import type { Plan, PlanUsage } from '../types';
 import { format } from 'date-fns';
 
 interface Profile {
@@ -45,33 +49,17 @@ interface Profile {
   created_at: string;
 }
 
-interface Plan {
-  id: string;
-  name: string;
-  price: number;
-  description: string;
-  features: string[];
-}
-
-interface Subscription {
-  id: string;
-  plan_id: string;
-  start_date: string;
-  end_date: string;
-  status: string;
-  plans: Plan;
-}
-
-interface UserTokens {
-  tokens_balance: number;
-}
-
 export function Settings() {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState('profile');
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [activeTab, setActiveTab] = useState<string>(location.state?.tab || 'profile');
   const [profile, setProfile] = useState<Profile | null>(null);
-  const [subscription, setSubscription] = useState<Subscription | null>(null);
-  const [userTokens, setUserTokens] = useState<UserTokens | null>(null);
+  const [planUsage, setPlanUsage] = useState<PlanUsage | null>(null);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [subscriptions, setSubscriptions] = useState<SubscriptionWithPlan[]>([]);
+  const [showPlans, setShowPlans] = useState(false);
+  const [tokenBalance, setTokenBalance] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -124,43 +112,30 @@ export function Settings() {
 
   const fetchSubscription = async () => {
     try {
-      const { data, error } = await supabase
-        .from('subscriptions')
-        .select(`
-          *,
-          plans (
-            id,
-            name,
-            price,
-            description,
-            features
-          )
-        `)
-        .eq('user_id', user?.id)
-        .eq('status', 'active')
-        .single();
-
-      if (!error && data) {
-        setSubscription(data);
-      }
+      const [usage, planList, history] = await Promise.all([
+        getPlanUsage(),
+        listPlans(),
+        listSubscriptions(user!.id)
+      ]);
+      setPlanUsage(usage);
+      setPlans(planList);
+      setSubscriptions(history);
     } catch (error) {
       console.error('Error fetching subscription:', error);
     }
   };
 
+  const currentPlan = plans.find((plan) => plan.id === planUsage?.plan_id);
+
+  const selectPlan = (planName: string) => {
+    navigate('/admin/payment', { state: { planName } });
+  };
+
   const fetchUserTokens = async () => {
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('tokens_balance')
-        .eq('id', user?.id)
-        .single();
-
-      if (!error && data) {
-        setUserTokens(data);
-      }
+      setTokenBalance(await getTokenBalance(user!.id));
     } catch (error) {
-      console.error('Error fetching user tokens:', error);
+      console.error('Error fetching token balance:', error);
     }
   };
 
@@ -671,7 +646,7 @@ export function Settings() {
                     </div>
                   </div>
 
-                  {userTokens && (
+                  {tokenBalance !== null && (
                     <div className="p-6 border border-gray-200 rounded-lg">
                       <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
                         <Coins className="w-5 h-5 text-yellow-600" />
@@ -679,7 +654,7 @@ export function Settings() {
                       </h3>
                       <div className="flex items-center gap-4">
                         <div className="text-3xl font-bold text-yellow-600">
-                          {userTokens.tokens_balance}
+                          {tokenBalance}
                         </div>
                         <div className="text-sm text-gray-600">
                           Available tokens for bidding and premium features
@@ -708,69 +683,170 @@ export function Settings() {
                 <h2 className="text-2xl font-bold text-gray-900 mb-6">Billing & Subscription</h2>
                 
                 <div className="space-y-6">
-                  {subscription ? (
+                  {planUsage && (
                     <div className="p-6 border border-gray-200 rounded-lg">
                       <div className="flex items-center justify-between mb-4">
                         <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
                           <Crown className="w-5 h-5 text-yellow-600" />
-                          Current Plan: {subscription.plans.name}
+                          Current Plan: {planUsage.plan_name}
                         </h3>
                         <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-                          subscription.status === 'active' 
-                            ? 'bg-green-100 text-green-800' 
-                            : 'bg-red-100 text-red-800'
+                          planUsage.subscription_status === 'active'
+                            ? 'bg-green-100 text-green-800'
+                            : planUsage.subscription_status === 'grace'
+                              ? 'bg-orange-100 text-orange-800'
+                              : 'bg-gray-100 text-gray-800'
                         }`}>
-                          {subscription.status}
+                          {planUsage.subscription_status === 'grace'
+                            ? 'grace period'
+                            : planUsage.subscription_status ?? 'free'}
                         </span>
                       </div>
-                      
+
+                      {planUsage.subscription_status === 'grace' && planUsage.grace_ends_at && (
+                        <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg flex items-start gap-3">
+                          <AlertTriangle className="w-5 h-5 text-orange-600 mt-0.5 flex-shrink-0" />
+                          <p className="text-sm text-orange-800">
+                            Your subscription ended on {format(new Date(planUsage.end_date!), 'PPP')}. Renew by{' '}
+                            {format(new Date(planUsage.grace_ends_at), 'PPP')} to keep your plan; after that your
+                            account moves to the Free plan.
+                          </p>
+                        </div>
+                      )}
+
                       <div className="grid grid-cols-2 gap-6 mb-6">
                         <div>
                           <p className="text-sm text-gray-600">Monthly Price</p>
-                          <p className="text-2xl font-bold text-gray-900">₹{subscription.plans.price}</p>
+                          <p className="text-2xl font-bold text-gray-900">
+                            ₹{currentPlan?.price ?? 0}
+                          </p>
                         </div>
                         <div>
-                          <p className="text-sm text-gray-600">Next Billing Date</p>
+                          <p className="text-sm text-gray-600">
+                            {planUsage.subscription_status === 'grace' ? 'Ended On' : 'Next Billing Date'}
+                          </p>
                           <p className="font-medium text-gray-900">
-                            {subscription.end_date ? format(new Date(subscription.end_date), 'PPP') : 'N/A'}
+                            {planUsage.end_date ? format(new Date(planUsage.end_date), 'PPP') : 'N/A'}
                           </p>
                         </div>
                       </div>
 
-                      <div className="mb-6">
-                        <h4 className="font-medium text-gray-900 mb-2">Plan Features</h4>
-                        <ul className="space-y-1">
-                          {subscription.plans.features.map((feature, index) => (
-                            <li key={index} className="text-sm text-gray-600 flex items-center gap-2">
-                              <div className="w-1.5 h-1.5 bg-green-600 rounded-full"></div>
-                              {feature}
-                            </li>
-                          ))}
-                        </ul>
+                      <div className="mb-6 space-y-3">
+                        <h4 className="font-medium text-gray-900">Usage</h4>
+                        {[
+                          { label: 'Projects', used: planUsage.projects_used, limit: planUsage.max_projects, unit: '' },
+                          { label: 'Team members', used: planUsage.users_used, limit: planUsage.max_users, unit: '' },
+                          {
+                            label: 'Document storage',
+                            used: Math.round(planUsage.storage_used_bytes / (1024 * 1024)),
+                            limit: planUsage.max_storage_mb,
+                            unit: ' MB'
+                          }
+                        ].map(({ label, used, limit, unit }) => (
+                          <div key={label}>
+                            <div className="flex justify-between text-sm mb-1">
+                              <span className="text-gray-600">{label}</span>
+                              <span className="text-gray-900">
+                                {used}{unit} / {limit === null ? 'Unlimited' : `${limit}${unit}`}
+                              </span>
+                            </div>
+                            {limit !== null && (
+                              <div className="w-full bg-gray-200 rounded-full h-2">
+                                <div
+                                  className={`h-2 rounded-full ${used >= limit ? 'bg-red-500' : 'bg-blue-600'}`}
+                                  style={{ width: `${Math.min((used / Math.max(limit, 1)) * 100, 100)}%` }}
+                                ></div>
+                              </div>
+                            )}
+                          </div>
+                        ))}
                       </div>
 
+                      {currentPlan && currentPlan.features.length > 0 && (
+                        <div className="mb-6">
+                          <h4 className="font-medium text-gray-900 mb-2">Plan Features</h4>
+                          <ul className="space-y-1">
+                            {currentPlan.features.map((feature, index) => (
+                              <li key={index} className="text-sm text-gray-600 flex items-center gap-2">
+                                <div className="w-1.5 h-1.5 bg-green-600 rounded-full"></div>
+                                {feature}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
                       <div className="flex gap-3">
-                        <button className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors">
-                          Upgrade Plan
-                        </button>
-                        <button className="border border-gray-300 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-50 transition-colors">
-                          Cancel Subscription
+                        {planUsage.subscription_id && (
+                          <button
+                            onClick={() => selectPlan(planUsage.plan_name)}
+                            className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
+                          >
+                            Renew Plan
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setShowPlans(!showPlans)}
+                          className="border border-gray-300 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          {planUsage.subscription_id ? 'Change Plan' : 'View Plans'}
                         </button>
                       </div>
-                    </div>
-                  ) : (
-                    <div className="p-6 border border-gray-200 rounded-lg text-center">
-                      <h3 className="text-lg font-semibold text-gray-900 mb-2">No Active Subscription</h3>
-                      <p className="text-gray-600 mb-4">Subscribe to a plan to access premium features</p>
-                      <button className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors">
-                        View Plans
-                      </button>
+
+                      {showPlans && (
+                        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                          {plans
+                            .filter((plan) => plan.price > 0 && plan.id !== planUsage.plan_id)
+                            .map((plan) => (
+                              <div key={plan.id} className="p-4 border border-gray-200 rounded-lg">
+                                <div className="flex items-center justify-between mb-2">
+                                  <h4 className="font-semibold text-gray-900">{plan.name}</h4>
+                                  <span className="font-bold text-gray-900">₹{plan.price}/month</span>
+                                </div>
+                                <p className="text-sm text-gray-600 mb-4">
+                                  {plan.max_projects ?? 'Unlimited'} projects · {plan.max_users ?? 'Unlimited'} team members ·{' '}
+                                  {plan.max_storage_mb === null ? 'Unlimited' : `${plan.max_storage_mb / 1024} GB`} storage
+                                </p>
+                                <button
+                                  onClick={() => selectPlan(plan.name)}
+                                  className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                                >
+                                  {planUsage.subscription_id
+                                    ? plan.price > (currentPlan?.price ?? 0) ? 'Upgrade' : 'Downgrade'
+                                    : 'Choose'}
+                                </button>
+                              </div>
+                            ))}
+                        </div>
+                      )}
                     </div>
                   )}
 
                   <div className="p-6 border border-gray-200 rounded-lg">
                     <h3 className="text-lg font-semibold text-gray-900 mb-4">Billing History</h3>
-                    <p className="text-gray-600">No billing history available</p>
+                    {subscriptions.length === 0 ? (
+                      <p className="text-gray-600">No billing history available</p>
+                    ) : (
+                      <div className="divide-y divide-gray-100">
+                        {subscriptions.map((subscription) => (
+                          <div key={subscription.id} className="py-3 flex items-center justify-between text-sm">
+                            <div>
+                              <p className="font-medium text-gray-900">{subscription.plans?.name}</p>
+                              <p className="text-gray-600">
+                                {format(new Date(subscription.start_date), 'PP')} – {format(new Date(subscription.end_date), 'PP')}
+                              </p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-medium text-gray-900">₹{subscription.amount_paid}</p>
+                              {subscription.credit_applied > 0 && (
+                                <p className="text-gray-500">+ ₹{subscription.credit_applied} credit</p>
+                              )}
+                              <p className="text-gray-500 capitalize">{subscription.status}</p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -780,4 +856,4 @@ export function Settings() {
       </div>
     </Layout>
   );
-}
\ No newline at end of file
+}
\ No newline at end of file
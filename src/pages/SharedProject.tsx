@@ -1,13 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, Navigate } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
-import { Eye, EyeOff, Lock, AlertTriangle, Calendar, MapPin, User, File, Camera, MessageCircle, Send } from 'lucide-react';
+import { createShareClient } from '../lib/supabase';
+import {
+  addShareComment,
+  respondToChangeOrder,
+  defaultClient,
+  getSharedProject,
+  unlockProjectShare,
+  DbClient,
+  SharedProject as SharedProjectPayload,
+} from '../lib/repositories';
+import { Eye, EyeOff, Lock, AlertTriangle, Calendar, MapPin, User, File, Camera, MessageCircle, Send, FileDiff, CheckCircle, XCircle, Download } from 'lucide-react';
 
 interface ShareData {
   id: string;
   project_id: string;
   share_type: 'public' | 'private';
-  password: string | null;
   expires_at: string;
   share_options: {
     expenseDetails: boolean;
@@ -17,11 +25,14 @@ interface ShareData {
     phasePhotos: boolean;
     teamMembers: boolean;
     allowComments: boolean;
+    changeOrders?: boolean;
+    documents?: boolean;
   };
-  is_active: boolean;
-  view_count: number; // Added to match project_shares table
 }
 
+type SharedChangeOrder = NonNullable<SharedProjectPayload['changeOrders']>[number];
+type SharedDocument = NonNullable<SharedProjectPayload['documents']>[number];
+
 interface ProjectData {
   id: string;
   name: string;
@@ -33,6 +44,24 @@ interface ProjectData {
   created_at: string;
 }
 
+// Unlock tokens survive a reload of the tab but not the tab itself
+const tokenStorageKey = (shareId: string) => `share-token:${shareId}`;
+
+const LOCKED_MESSAGE = 'This link has been locked after too many incorrect passwords. Please ask the project owner to unlock it.';
+
+const getStoredToken = (shareId: string) => {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(tokenStorageKey(shareId)) || 'null');
+    if (stored && new Date(stored.expires_at) > new Date()) {
+      return stored.token as string;
+    }
+  } catch {
+    // Ignore malformed entries
+  }
+  sessionStorage.removeItem(tokenStorageKey(shareId));
+  return null;
+};
+
 interface ShareComment {
   id: string;
   comment: string;
@@ -51,6 +80,8 @@ export function SharedProject() {
   const [teamMembers, setTeamMembers] = useState<any[]>([]);
   const [phasePhotos, setPhasePhotos] = useState<any[]>([]);
   const [comments, setComments] = useState<ShareComment[]>([]);
+  const [changeOrders, setChangeOrders] = useState<SharedChangeOrder[]>([]);
+  const [documents, setDocuments] = useState<SharedDocument[]>([]);
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -59,12 +90,19 @@ export function SharedProject() {
   const [passwordError, setPasswordError] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [, setAuthenticated] = useState(false);
+  const [unlocking, setUnlocking] = useState(false);
+  const [shareClient, setShareClient] = useState<DbClient>(defaultClient);
 
   // Comment-related state
   const [newComment, setNewComment] = useState('');
   const [commentAuthorName, setCommentAuthorName] = useState('');
   const [submittingComment, setSubmittingComment] = useState(false);
 
+  // Change order approval state
+  const [approverName, setApproverName] = useState('');
+  const [responseNotes, setResponseNotes] = useState<Record<string, string>>({});
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+
   // UUID validation regex
   const isValidUUID = (str: string) => {
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -118,219 +156,95 @@ export function SharedProject() {
     meta.setAttribute('content', content);
   };
 
-  const fetchShareData = async () => {
+  const fetchShareData = async (token: string | null = shareId ? getStoredToken(shareId) : null) => {
+    if (!shareId) return;
+
     try {
       setLoading(true);
       setError(null);
 
-      console.log('Fetching share data for shareId:', shareId); // Debug log
-
-      // Fetch share data
-      const { data: shareInfo, error: shareError } = await supabase
-        .from('project_shares')
-        .select('id, project_id, created_at, expires_at, share_type, password, share_options, is_active, view_count')
-        .eq('id', shareId)
-        .eq('is_active', true)
-        .single();
-
-      if (shareError || !shareInfo) {
-        console.error('Share fetch error:', shareError);
-        setError('Share link not found or has expired');
-        setLoading(false);
-        return;
-      }
-
-      // Check if link has expired
-      const now = new Date();
-      const expiresAt = new Date(shareInfo.expires_at);
-      if (now > expiresAt) {
-        setError('This share link has expired');
-        setLoading(false);
-        return;
+      if (token) {
+        setShareClient(createShareClient(token));
       }
 
-      // Increment view count
-      const { error: viewError } = await supabase.rpc('increment_share_view_count', { share_id: shareId });
-      if (viewError) {
-        console.error('Error incrementing view count:', viewError);
-      } else {
-        console.log('View count incremented for shareId:', shareId);
-      }
-
-      setShareData(shareInfo);
-
-      // Check if password is required
-      if (shareInfo.share_type === 'private' && shareInfo.password) {
+      // The server only returns the sections allowed by the link's share options
+      const payload = await getSharedProject(shareId, token);
+      applySharedProject(payload);
+      setPasswordRequired(false);
+      setLoading(false);
+    } catch (error) {
+      const code = error instanceof Error && 'code' in error ? error.code : null;
+      if (code === 'password_required') {
+        sessionStorage.removeItem(tokenStorageKey(shareId));
+        if (token && error instanceof Error) {
+          setPasswordError(error.message);
+        }
         setPasswordRequired(true);
         setLoading(false);
         return;
       }
 
-      // If no password required or already authenticated, fetch project data
-      await fetchProjectData(shareInfo);
-    } catch (error) {
-      console.error('Error fetching share data:', error);
-      setError('Failed to load shared project');
+      console.error('Error fetching shared project:', error);
+      setError(
+        code === 'locked'
+          ? LOCKED_MESSAGE
+          : code === 'expired'
+          ? 'This share link has expired'
+          : code === 'not_found'
+          ? 'Share link not found or has expired'
+          : 'Failed to load shared project'
+      );
       setLoading(false);
     }
   };
 
+  const applySharedProject = (payload: SharedProjectPayload) => {
+    setShareData(payload.share as ShareData);
+    setProjectData(payload.project as ProjectData);
+    setPhases(payload.phases || []);
+    setExpenses(payload.expenses || []);
+    setIncome(payload.income || []);
+    setMaterials(payload.materials || []);
+    setTeamMembers(payload.teamMembers || []);
+    setPhasePhotos(payload.phasePhotos || []);
+    setComments(payload.comments || []);
+    setChangeOrders(payload.changeOrders || []);
+    setDocuments(payload.documents || []);
+  };
+
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!shareData || !enteredPassword.trim()) {
+    if (!shareId || !enteredPassword.trim()) {
       setPasswordError('Please enter a password');
       return;
     }
 
-    if (enteredPassword !== shareData.password) {
-      setPasswordError('Incorrect password');
-      return;
-    }
-
-    setPasswordError('');
-    setAuthenticated(true);
-    setPasswordRequired(false);
-    await fetchProjectData(shareData);
-  };
-
-  const fetchProjectData = async (shareInfo: ShareData) => {
+    setUnlocking(true);
     try {
-      setLoading(true);
-
-      // Fetch project basic info
-      const { data: project, error: projectError } = await supabase
-        .from('projects')
-        .select('id, name, description, status, location, start_date, end_date, created_at')
-        .eq('id', shareInfo.project_id)
-        .single();
+      const shareToken = await unlockProjectShare(shareId, enteredPassword);
+      sessionStorage.setItem(tokenStorageKey(shareId), JSON.stringify(shareToken));
 
-      if (projectError || !project) {
-        console.error('Project fetch error:', projectError);
-        setError('Project not found');
-        setLoading(false);
-        return;
-      }
-
-      setProjectData(project);
-
-      // Fetch data based on share options
-      const options = shareInfo.share_options;
-
-      // Fetch phases if selected
-      if (options.phaseDetails) {
-        const { data: phaseData, error: phaseError } = await supabase
-          .from('phases')
-          .select('id, name, start_date, end_date, status, estimated_cost, contractor_name')
-          .eq('project_id', shareInfo.project_id)
-          .order('start_date');
-        if (phaseError) {
-          console.error('Error fetching phases:', phaseError);
-        }
-        setPhases(phaseData || []);
-      }
-
-      // Fetch expenses if selected
-      if (options.expenseDetails) {
-        const { data: expenseData, error: expenseError } = await supabase
-          .from('expenses')
-          .select(`
-            id, amount, gst_amount, category, date,
-            phases!inner(id, name)
-          `)
-          .eq('project_id', shareInfo.project_id)
-          .eq('type', 'expense');
-        if (expenseError) {
-          console.error('Error fetching expenses:', expenseError);
-        }
-        setExpenses(expenseData || []);
-      }
-
-      // Fetch income if selected
-      if (options.incomeDetails) {
-        const { data: incomeData, error: incomeError } = await supabase
-          .from('expenses')
-          .select(`
-            id, amount, gst_amount, category, date,
-            phases!inner(id, name)
-          `)
-          .eq('project_id', shareInfo.project_id)
-          .eq('type', 'income');
-        if (incomeError) {
-          console.error('Error fetching income:', incomeError);
-        }
-        setIncome(incomeData || []);
-      }
-
-      // Fetch materials if selected
-      if (options.materialsDetails) {
-        const { data: materialData, error: materialError } = await supabase
-          .from('materials')
-          .select('id, name, unit_cost, qty_required, status')
-          .eq('project_id', shareInfo.project_id);
-        if (materialError) {
-          console.error('Error fetching materials:', materialError);
-        }
-        setMaterials(materialData || []);
-      }
-
-      // Fetch team members if selected
-      if (options.teamMembers) {
-        const { data: teamData, error: teamError } = await supabase
-          .from('users')
-          .select('id, name, email, role_id, status, active')
-          .eq('project_id', shareInfo.project_id);
-        if (teamError) {
-          console.error('Error fetching team members:', teamError);
-        }
-        setTeamMembers(teamData || []);
-      }
-
-      // Fetch phase photos if selected
-      if (options.phasePhotos) {
-        const { data: photoData, error: photoError } = await supabase
-          .from('phase_photos')
-          .select(`
-            id, photo_url, created_at,
-            phases!inner(id, name)
-          `)
-          .eq('project_id', shareInfo.project_id);
-        if (photoError) {
-          console.error('Error fetching phase photos:', photoError);
-        }
-        setPhasePhotos(photoData || []);
-      }
-
-      // Fetch comments for this share
-      await fetchComments(shareInfo.id);
-
-      setLoading(false);
+      setPasswordError('');
+      setEnteredPassword('');
+      setAuthenticated(true);
+      await fetchShareData(shareToken.token);
     } catch (error) {
-      console.error('Error fetching project data:', error);
-      setError('Failed to load project data');
-      setLoading(false);
-    }
-  };
-
-  // Fetch comments for this share
-  const fetchComments = async (shareId: string) => {
-    try {
-      const { data, error } = await supabase
-        .from('project_shares')
-        .select('comments')
-        .eq('id', shareId)
-        .single();
-
-      if (error) {
-        console.error('Error fetching comments:', error);
-        return;
+      console.error('Error unlocking share:', error);
+      const code = error instanceof Error && 'code' in error ? error.code : null;
+      const attemptsRemaining = error instanceof Error && 'attemptsRemaining' in error ? Number(error.attemptsRemaining) : 0;
+      if (code === 'locked') {
+        setPasswordRequired(false);
+        setError(LOCKED_MESSAGE);
+      } else if (code === 'invalid_password') {
+        setPasswordError(
+          `Incorrect password. ${attemptsRemaining} attempt${attemptsRemaining !== 1 ? 's' : ''} left before this link is locked.`
+        );
+      } else {
+        setPasswordError('Could not unlock this link. Please try again.');
       }
-
-      // Parse the JSONB comments array
-      const commentsArray = data?.comments || [];
-      setComments(commentsArray);
-    } catch (error) {
-      console.error('Error fetching comments:', error);
+    } finally {
+      setUnlocking(false);
     }
   };
 
@@ -346,64 +260,59 @@ export function SharedProject() {
     setSubmittingComment(true);
     
     try {
-      // Create new comment object
-      const newCommentObj = {
-        id: crypto.randomUUID(),
-        comment: newComment.trim(),
-        author_name: commentAuthorName.trim(),
-        created_at: new Date().toISOString()
-      };
-
-      // Get current comments and append new one
-      const { data: currentData, error: fetchError } = await supabase
-        .from('project_shares')
-        .select('comments')
-        .eq('id', shareData.id)
-        .single();
-
-      if (fetchError) {
-        console.error('Error fetching current comments:', fetchError);
-        alert('Failed to submit comment. Please try again.');
-        return;
-      }
-
-      const currentComments = currentData?.comments || [];
-      const updatedComments = [...currentComments, newCommentObj];
-
-      console.log('Updating comments for share:', shareData.id);
-      console.log('Updated comments array:', updatedComments);
-
-      // Update the comments array in the database
-      const { error } = await supabase
-        .from('project_shares')
-        .update({ comments: updatedComments })
-        .eq('id', shareData.id);
-
-      if (error) {
-        console.error('Error submitting comment:', error);
-        console.error('Error details:', {
-          code: error.code,
-          message: error.message,
-          details: error.details,
-          hint: error.hint
-        });
-        alert(`Failed to submit comment: ${error.message}`);
-        return;
-      }
+      const comment = await addShareComment(shareData.id, commentAuthorName.trim(), newComment.trim(), shareClient);
+      setComments(prev => [...prev, comment]);
 
-      // Clear form and refresh comments
+      // Clear form
       setNewComment('');
       setCommentAuthorName('');
-      await fetchComments(shareData.id);
-      
     } catch (error) {
       console.error('Error submitting comment:', error);
-      alert('Failed to submit comment. Please try again.');
+      alert(`Failed to submit comment: ${error instanceof Error ? error.message : 'Please try again.'}`);
     } finally {
       setSubmittingComment(false);
     }
   };
 
+  // Approve or reject a change order that was sent for approval
+  const respondToOrder = async (order: SharedChangeOrder, approve: boolean) => {
+    if (!shareData) return;
+    if (!approverName.trim()) {
+      alert('Please enter your name');
+      return;
+    }
+
+    const impact = [
+      `${Number(order.cost_impact) >= 0 ? '+' : '-'}₹${Math.abs(Number(order.cost_impact)).toLocaleString()}`,
+      order.schedule_impact_days ? `${order.schedule_impact_days > 0 ? '+' : ''}${order.schedule_impact_days} days` : null,
+    ].filter(Boolean).join(', ');
+    if (!window.confirm(`${approve ? 'Approve' : 'Reject'} ${order.co_number} (${impact})?`)) return;
+
+    setRespondingTo(order.id);
+    try {
+      const note = (responseNotes[order.id] || '').trim();
+      await respondToChangeOrder(shareData.id, order.id, approve, approverName.trim(), note, shareClient);
+      setChangeOrders(prev =>
+        prev.map(o =>
+          o.id === order.id
+            ? {
+                ...o,
+                status: approve ? 'approved' : 'rejected',
+                responded_at: new Date().toISOString(),
+                responded_by_name: approverName.trim(),
+                response_note: note || null,
+              }
+            : o
+        )
+      );
+    } catch (error) {
+      console.error('Error responding to change order:', error);
+      alert(`Failed to record your response: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
   if (!shareId) {
     return <Navigate to="/" replace />;
   }
@@ -483,9 +392,10 @@ export function SharedProject() {
 
             <button
               type="submit"
-              className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+              disabled={unlocking}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
             >
-              Access Project
+              {unlocking ? 'Checking...' : 'Access Project'}
             </button>
           </form>
         </div>
@@ -836,6 +746,175 @@ export function SharedProject() {
             </div>
           )}
 
+          {/* Change Orders Section */}
+          {shareData.share_options.changeOrders && (
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+                <FileDiff className="h-5 w-5 mr-2 text-blue-600" />
+                Change Orders
+              </h2>
+              {changeOrders.length > 0 ? (
+                <div className="space-y-4">
+                  {changeOrders.some((order) => order.status === 'sent') && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Your Name (recorded with your approval) *
+                      </label>
+                      <input
+                        type="text"
+                        value={approverName}
+                        onChange={(e) => setApproverName(e.target.value)}
+                        className="w-full md:w-1/2 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Enter your name"
+                      />
+                    </div>
+                  )}
+                  {changeOrders.map((order) => (
+                    <div key={order.id} className="border rounded-lg p-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-semibold text-lg">
+                          {order.co_number}: {order.title}
+                        </h3>
+                        <span
+                          className={`px-2 py-1 rounded text-sm ${
+                            order.status === 'approved'
+                              ? 'bg-green-100 text-green-800'
+                              : order.status === 'rejected'
+                              ? 'bg-red-100 text-red-800'
+                              : 'bg-yellow-100 text-yellow-800'
+                          }`}
+                        >
+                          {order.status === 'sent' ? 'Awaiting approval' : order.status === 'approved' ? 'Approved' : 'Rejected'}
+                        </span>
+                      </div>
+                      {order.description && <p className="text-gray-700 mb-3 whitespace-pre-wrap">{order.description}</p>}
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-600">
+                        <div>
+                          <span className="font-medium">Cost:</span>{' '}
+                          {Number(order.cost_impact) >= 0 ? '+' : '-'}₹{Math.abs(Number(order.cost_impact)).toLocaleString()}
+                        </div>
+                        <div>
+                          <span className="font-medium">Schedule:</span>{' '}
+                          {order.schedule_impact_days === 0
+                            ? 'No change'
+                            : `${order.schedule_impact_days > 0 ? '+' : ''}${order.schedule_impact_days} days`}
+                        </div>
+                        <div>
+                          <span className="font-medium">Phase:</span> {order.phases?.name || 'Whole project'}
+                        </div>
+                      </div>
+
+                      {order.status === 'sent' ? (
+                        <div className="mt-4 border-t pt-4 space-y-3">
+                          <textarea
+                            value={responseNotes[order.id] || ''}
+                            onChange={(e) => setResponseNotes(prev => ({ ...prev, [order.id]: e.target.value }))}
+                            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            placeholder="Note for the project team (optional)"
+                            rows={2}
+                          />
+                          <div className="flex justify-end space-x-3">
+                            <button
+                              onClick={() => respondToOrder(order, false)}
+                              disabled={respondingTo === order.id}
+                              className="inline-flex items-center px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                            >
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Reject
+                            </button>
+                            <button
+                              onClick={() => respondToOrder(order, true)}
+                              disabled={respondingTo === order.id}
+                              className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                            >
+                              <CheckCircle className="h-4 w-4 mr-2" />
+                              Approve
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <p className="mt-3 text-sm text-gray-500">
+                          {order.status === 'approved' ? 'Approved' : 'Rejected'} by {order.responded_by_name}
+                          {order.responded_at && ` on ${new Date(order.responded_at).toLocaleDateString()}`}
+                          {order.response_note && ` – "${order.response_note}"`}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500">No change orders have been sent for approval</p>
+              )}
+            </div>
+          )}
+
+          {/* Documents Section */}
+          {shareData.share_options.documents && (
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+                <File className="h-5 w-5 mr-2 text-blue-600" />
+                Documents
+              </h2>
+              {documents.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse border border-gray-300">
+                    <thead>
+                      <tr className="bg-gray-50">
+                        <th className="border p-3 text-left">Document</th>
+                        <th className="border p-3 text-left">Category</th>
+                        <th className="border p-3 text-left">Revision</th>
+                        <th className="border p-3 text-left">Uploaded</th>
+                        <th className="border p-3 text-left">Status</th>
+                        <th className="border p-3 text-left"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {documents.map((document) => (
+                        <tr key={document.id} className={document.is_current ? '' : 'bg-gray-50 text-gray-500'}>
+                          <td className="border p-3">
+                            <p className={document.is_current ? 'font-medium' : 'line-through'}>{document.name}</p>
+                            {document.change_note && <p className="text-xs text-gray-500 mt-1">{document.change_note}</p>}
+                          </td>
+                          <td className="border p-3">{document.category || 'Uncategorised'}</td>
+                          <td className="border p-3">Rev {document.revision}</td>
+                          <td className="border p-3">{new Date(document.upload_date).toLocaleDateString()}</td>
+                          <td className="border p-3">
+                            {document.is_current ? (
+                              <span className="px-2 py-1 rounded text-sm bg-green-100 text-green-800">Current</span>
+                            ) : (
+                              <span
+                                className="px-2 py-1 rounded text-sm bg-red-100 text-red-800"
+                                title={document.superseded_at ? `Superseded on ${new Date(document.superseded_at).toLocaleDateString()}` : undefined}
+                              >
+                                Superseded
+                              </span>
+                            )}
+                          </td>
+                          <td className="border p-3">
+                            <a
+                              href={document.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center text-blue-600 hover:text-blue-800 text-sm"
+                            >
+                              <Download className="h-4 w-4 mr-1" />
+                              Open
+                            </a>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Superseded revisions are kept for reference only; always build from the current revision.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-gray-500">No documents shared</p>
+              )}
+            </div>
+          )}
+
           {/* Comments Section */}
           {shareData.share_options.allowComments && (
             <div className="bg-white rounded-lg shadow-sm p-6">
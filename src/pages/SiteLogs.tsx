@@ -0,0 +1,820 @@
+import { useState, useEffect } from "react";
+import {
+  ClipboardList,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Trash2,
+  Download,
+  Edit,
+  CheckCircle,
+  Camera,
+  Link2,
+  X,
+} from "lucide-react";
+import { addMonths, endOfMonth, format, isAfter, parseISO, startOfMonth } from "date-fns";
+import jsPDF from "jspdf";
+import "jspdf-autotable";
+import imageCompression from "browser-image-compression";
+import { Layout } from "../components/Layout/Layout";
+import { SiteLogHeatmap } from "../components/SiteLogs/SiteLogHeatmap";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  listProjects,
+  listProjectPhases,
+  listLabourWorkers,
+  listAttendance,
+  listSiteLogs,
+  saveSiteLog,
+  signOffSiteLog,
+  deleteSiteLog,
+  uploadSiteLogPhoto,
+  listUnlinkedPhotos,
+  linkSiteLogPhotos,
+  missingSiteLogDays,
+  SiteLogPhoto,
+  SiteLogWithDetails,
+} from "../lib/repositories";
+import type { Project, ProjectPhase } from "../types";
+
+const WEATHER_OPTIONS = ["Sunny", "Cloudy", "Light Rain", "Heavy Rain", "Windy", "Hot", "Cold"];
+
+const emptyForm = { weather: "", temperature: "", equipment: "", work_done: "", issues: "" };
+
+type ManpowerRow = { trade: string; headcount: string };
+
+const formatDay = (date: string) => format(parseISO(date), "EEE, dd MMM yyyy");
+
+const totalHeadcount = (log: SiteLogWithDetails) =>
+  log.site_log_manpower.reduce((sum, m) => sum + Number(m.headcount), 0);
+
+export function SiteLogs() {
+  const { user, userRole, permissions } = useAuth();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+  const [logs, setLogs] = useState<SiteLogWithDetails[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedDate, setSelectedDate] = useState<string | null>(format(new Date(), "yyyy-MM-dd"));
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [manpower, setManpower] = useState<ManpowerRow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [photoPhaseId, setPhotoPhaseId] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const [unlinkedPhotos, setUnlinkedPhotos] = useState<SiteLogPhoto[]>([]);
+  const [exporting, setExporting] = useState(false);
+
+  const isAdmin = userRole === "Admin";
+  const canWrite = isAdmin || permissions.includes("write_site_logs");
+  const canSignOff = isAdmin || permissions.includes("sign_off_site_logs");
+
+  const project = projects.find((p) => p.id === projectId);
+  const monthStart = format(startOfMonth(month), "yyyy-MM-dd");
+  const monthEnd = format(endOfMonth(month), "yyyy-MM-dd");
+  const selectedLog = logs.find((log) => log.log_date === selectedDate) ?? null;
+  const missingDays = project
+    ? missingSiteLogDays(project, logs.map((log) => log.log_date), monthStart, monthEnd)
+    : [];
+
+  useEffect(() => {
+    if (!user) return;
+    listProjects(user.id)
+      .then((data) => {
+        setProjects(data);
+        if (data.length > 0) setProjectId((current) => current || data[0].id);
+      })
+      .catch((error) => console.error("Error fetching projects:", error));
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    listProjectPhases(projectId)
+      .then((data) => {
+        setPhases(data);
+        setPhotoPhaseId(data.find((p) => p.status === "In Progress")?.id ?? data[0]?.id ?? "");
+      })
+      .catch((error) => console.error("Error fetching phases:", error));
+  }, [projectId]);
+
+  useEffect(() => {
+    if (projectId) fetchLogs();
+  }, [projectId, monthStart]);
+
+  // Photos already uploaded to a phase that day can be attached to its log
+  useEffect(() => {
+    if (!projectId || !selectedLog || selectedLog.signed_off_at || !canWrite) {
+      setUnlinkedPhotos([]);
+      return;
+    }
+    listUnlinkedPhotos(projectId, selectedLog.log_date)
+      .then(setUnlinkedPhotos)
+      .catch((error) => console.error("Error fetching phase photos:", error));
+  }, [projectId, selectedLog?.id, selectedLog?.phase_photos.length]);
+
+  async function fetchLogs() {
+    setLoading(true);
+    try {
+      setLogs(await listSiteLogs(projectId, monthStart, monthEnd));
+    } catch (error) {
+      console.error("Error fetching site logs:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const openForm = () => {
+    if (selectedLog) {
+      setForm({
+        weather: selectedLog.weather ?? "",
+        temperature: selectedLog.temperature_c === null ? "" : String(selectedLog.temperature_c),
+        equipment: selectedLog.equipment.join(", "),
+        work_done: selectedLog.work_done,
+        issues: selectedLog.issues ?? "",
+      });
+      setManpower(selectedLog.site_log_manpower.map((m) => ({ trade: m.trade, headcount: String(m.headcount) })));
+    } else {
+      setForm(emptyForm);
+      setManpower([{ trade: "", headcount: "" }]);
+    }
+    setShowForm(true);
+  };
+
+  // Headcount by trade from the muster roll of the day
+  const fillFromMusterRoll = async () => {
+    if (!selectedDate) return;
+    try {
+      const [workers, attendance] = await Promise.all([
+        listLabourWorkers(projectId),
+        listAttendance(projectId, selectedDate, selectedDate),
+      ]);
+      const counts = new Map<string, Set<string>>();
+      attendance
+        .filter((a) => Number(a.hours_worked) > 0)
+        .forEach((a) => {
+          const trade = workers.find((w) => w.id === a.worker_id)?.trade || "General";
+          counts.set(trade, (counts.get(trade) ?? new Set()).add(a.worker_id));
+        });
+      if (counts.size === 0) {
+        alert("No attendance is recorded for this day");
+        return;
+      }
+      setManpower([...counts].map(([trade, ids]) => ({ trade, headcount: String(ids.size) })));
+    } catch (error) {
+      console.error("Error reading muster roll:", error);
+      alert(`Failed to read the muster roll: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedDate) return;
+    if (!form.work_done.trim()) {
+      alert("Please describe the work done");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveSiteLog({
+        project_id: projectId,
+        log_date: selectedDate,
+        weather: form.weather || null,
+        temperature_c: form.temperature === "" ? null : parseFloat(form.temperature),
+        equipment: form.equipment
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean),
+        work_done: form.work_done,
+        issues: form.issues || null,
+        manpower: manpower
+          .filter((m) => m.trade.trim() && parseInt(m.headcount) > 0)
+          .map((m) => ({ trade: m.trade.trim(), headcount: parseInt(m.headcount) })),
+      });
+      setShowForm(false);
+      await fetchLogs();
+    } catch (error) {
+      console.error("Error saving site log:", error);
+      alert(`Failed to save site log: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSignOff = async (log: SiteLogWithDetails) => {
+    if (!window.confirm(`Sign off the site log for ${formatDay(log.log_date)}? It cannot be changed afterwards.`)) return;
+    try {
+      await signOffSiteLog(log.id);
+      await fetchLogs();
+    } catch (error) {
+      console.error("Error signing off site log:", error);
+      alert(`Failed to sign off site log: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleDelete = async (log: SiteLogWithDetails) => {
+    if (!window.confirm(`Delete the site log for ${formatDay(log.log_date)}? Its photos stay with their phases.`)) return;
+    try {
+      await deleteSiteLog(log.id);
+      await fetchLogs();
+    } catch (error) {
+      console.error("Error deleting site log:", error);
+      alert(`Failed to delete site log: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const handleUploadPhoto = async (log: SiteLogWithDetails, file: File) => {
+    if (!photoPhaseId) {
+      alert("Please choose the phase the photo belongs to");
+      return;
+    }
+    setUploading(true);
+    try {
+      const compressed = await imageCompression(file, { maxSizeMB: 1 });
+      await uploadSiteLogPhoto(log, photoPhaseId, compressed, file.name);
+      await fetchLogs();
+    } catch (error) {
+      console.error("Error uploading photo:", error);
+      alert(`Failed to upload photo: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleLinkPhoto = async (logId: string | null, photo: SiteLogPhoto) => {
+    try {
+      await linkSiteLogPhotos(logId, [photo.id]);
+      await fetchLogs();
+    } catch (error) {
+      console.error("Error updating photo:", error);
+      alert(`Failed to update photo: ${error instanceof Error ? error.message : "Please try again."}`);
+    }
+  };
+
+  const getImageAsBase64 = async (url: string): Promise<string | null> => {
+    try {
+      const response = await fetch(url);
+      const blob = await response.blob();
+      return new Promise((resolve) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.readAsDataURL(blob);
+      });
+    } catch (error) {
+      console.error("Error converting image to base64:", error);
+      return null;
+    }
+  };
+
+  // One page per log; a month export starts with a summary of the month
+  const generateSiteLogPdf = async (pdfLogs: SiteLogWithDetails[], withSummary: boolean) => {
+    if (!project) return;
+    setExporting(true);
+
+    try {
+      const doc = new jsPDF();
+      const pageWidth = doc.internal.pageSize.width;
+      const margin = 20;
+      const phaseName = (id: string) => phases.find((p) => p.id === id)?.name ?? "";
+
+      const addHeader = (title: string, subtitle: string) => {
+        doc.setFillColor(41, 128, 185);
+        doc.rect(0, 0, pageWidth, 30, 'F');
+        doc.setTextColor(255, 255, 255);
+        doc.setFontSize(16);
+        doc.setFont('helvetica', 'bold');
+        doc.text(title, margin, 14);
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'normal');
+        doc.text(subtitle, margin, 23);
+        doc.setTextColor(52, 73, 94);
+      };
+
+      if (withSummary) {
+        addHeader(`SITE LOGS - ${format(month, 'MMMM yyyy').toUpperCase()}`, project.name);
+
+        doc.setFontSize(10);
+        doc.text(
+          `${pdfLogs.length} day${pdfLogs.length === 1 ? '' : 's'} logged, ${missingDays.length} missing, ${
+            pdfLogs.filter((log) => log.signed_off_at).length
+          } signed off`,
+          margin,
+          42
+        );
+
+        (doc as any).autoTable({
+          startY: 48,
+          head: [['Date', 'Weather', 'Manpower', 'Issues', 'Signed Off By']],
+          body: pdfLogs.map((log) => [
+            format(parseISO(log.log_date), 'dd MMM yyyy'),
+            [log.weather, log.temperature_c !== null ? `${log.temperature_c}°C` : ''].filter(Boolean).join(', ') || '-',
+            totalHeadcount(log),
+            log.issues ? 'Yes' : '-',
+            log.signed_off_name || 'Pending'
+          ]),
+          theme: 'striped',
+          headStyles: { fillColor: [41, 128, 185], textColor: 255, fontSize: 9, fontStyle: 'bold' },
+          bodyStyles: { fontSize: 8, cellPadding: 3 }
+        });
+
+        if (missingDays.length > 0) {
+          const missingY = (doc as any).lastAutoTable.finalY + 12;
+          doc.setFont('helvetica', 'bold');
+          doc.setTextColor(231, 76, 60);
+          doc.text('Days without a log:', margin, missingY);
+          doc.setFont('helvetica', 'normal');
+          doc.text(
+            doc.splitTextToSize(missingDays.map((day) => format(parseISO(day), 'dd MMM')).join(', '), pageWidth - 2 * margin),
+            margin,
+            missingY + 7
+          );
+        }
+      }
+
+      for (const [index, log] of pdfLogs.entries()) {
+        if (withSummary || index > 0) doc.addPage();
+        addHeader('DAILY SITE REPORT', `${project.name} - ${formatDay(log.log_date)}`);
+
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'normal');
+        doc.text(`Weather: ${log.weather || 'Not recorded'}`, margin, 42);
+        doc.text(`Temperature: ${log.temperature_c !== null ? `${log.temperature_c}°C` : 'Not recorded'}`, 110, 42);
+        doc.text(`Equipment on site: ${log.equipment.join(', ') || 'None'}`, margin, 49);
+
+        (doc as any).autoTable({
+          startY: 56,
+          head: [['Trade', 'Headcount']],
+          body: [
+            ...log.site_log_manpower.map((m) => [m.trade, m.headcount]),
+            [{ content: 'Total', styles: { fontStyle: 'bold' } }, { content: totalHeadcount(log), styles: { fontStyle: 'bold' } }]
+          ],
+          theme: 'grid',
+          tableWidth: 90,
+          headStyles: { fillColor: [52, 73, 94], textColor: 255, fontSize: 9, fontStyle: 'bold' },
+          bodyStyles: { fontSize: 9, cellPadding: 2 },
+          columnStyles: { 1: { halign: 'right' } }
+        });
+
+        let y = (doc as any).lastAutoTable.finalY + 12;
+        for (const [label, text] of [['Work Done', log.work_done], ['Issues / Delays', log.issues || 'None']]) {
+          doc.setFont('helvetica', 'bold');
+          doc.text(label, margin, y);
+          doc.setFont('helvetica', 'normal');
+          const lines = doc.splitTextToSize(text, pageWidth - 2 * margin);
+          doc.text(lines, margin, y + 7);
+          y += 7 + lines.length * 5 + 8;
+        }
+
+        // Up to four photos fit under the text; the rest are left to the app
+        const photos = log.phase_photos.slice(0, 4);
+        if (photos.length > 0 && y < 200) {
+          doc.setFont('helvetica', 'bold');
+          doc.text(`Photos (${log.phase_photos.length})`, margin, y);
+          y += 5;
+          for (const [i, photo] of photos.entries()) {
+            const x = margin + (i % 2) * 85;
+            const photoY = y + Math.floor(i / 2) * 48;
+            const base64Image = await getImageAsBase64(photo.photo_url);
+            if (base64Image) {
+              doc.addImage(base64Image, 'JPEG', x, photoY, 80, 40);
+            } else {
+              doc.setFillColor(240, 240, 240);
+              doc.rect(x, photoY, 80, 40, 'F');
+            }
+            doc.setFontSize(7);
+            doc.setFont('helvetica', 'normal');
+            doc.text(phaseName(photo.phase_id), x, photoY + 44);
+            doc.setFontSize(10);
+          }
+        }
+
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        doc.text(
+          log.signed_off_at
+            ? `Signed off by ${log.signed_off_name || 'site engineer'} on ${format(new Date(log.signed_off_at), 'dd MMM yyyy, HH:mm')}`
+            : 'Not signed off',
+          margin,
+          280
+        );
+      }
+
+      const fileDate = withSummary ? format(month, 'yyyy-MM') : pdfLogs[0].log_date;
+      doc.save(`Site_Log_${project.name.replace(/[^a-z0-9]/gi, '_')}_${fileDate}.pdf`);
+    } catch (error) {
+      console.error("Error generating site log PDF:", error);
+      alert(`Failed to generate PDF: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const headcountThisMonth = logs.reduce((sum, log) => sum + totalHeadcount(log), 0);
+  const unsignedCount = logs.filter((log) => !log.signed_off_at).length;
+  const selectedIsFuture = selectedDate ? isAfter(parseISO(selectedDate), new Date()) : true;
+
+  return (
+    <Layout title="Site Logs" subtitle="Daily site reports and sign-off">
+      <div className="p-6">
+        <div className="mb-6 flex flex-wrap gap-4 items-center">
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+          >
+            {projects.length === 0 && <option value="">No projects</option>}
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setMonth(addMonths(month, -1))}
+              className="p-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+              title="Previous month"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm font-medium text-gray-700 min-w-[140px] text-center">
+              {format(month, "MMMM yyyy")}
+            </span>
+            <button
+              onClick={() => setMonth(addMonths(month, 1))}
+              className="p-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+              title="Next month"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={() => generateSiteLogPdf(logs, true)}
+            disabled={logs.length === 0 || exporting}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 ml-auto"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {exporting ? "Generating..." : "Export Month PDF"}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <p className="text-sm text-gray-600">Days Logged</p>
+            <p className="text-2xl font-bold text-gray-900">{logs.length}</p>
+            <p className="text-xs text-gray-500">{headcountThisMonth} worker-days on site</p>
+          </div>
+          <div className={`rounded-lg border p-4 ${missingDays.length > 0 ? "bg-red-50 border-red-200" : "bg-green-50 border-green-200"}`}>
+            <p className={`text-sm ${missingDays.length > 0 ? "text-red-700" : "text-green-700"}`}>Missing Days</p>
+            <p className={`text-2xl font-bold ${missingDays.length > 0 ? "text-red-600" : "text-green-600"}`}>
+              {missingDays.length}
+            </p>
+          </div>
+          <div className="bg-yellow-50 rounded-lg border border-yellow-200 p-4">
+            <p className="text-sm text-yellow-700">Awaiting Sign-off</p>
+            <p className="text-2xl font-bold text-yellow-600">{unsignedCount}</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            {loading ? (
+              <div className="text-center py-8 text-gray-500">Loading site logs...</div>
+            ) : (
+              <SiteLogHeatmap
+                month={month}
+                logs={logs}
+                missingDays={missingDays}
+                selectedDate={selectedDate}
+                onSelect={setSelectedDate}
+              />
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            {!selectedDate ? (
+              <p className="text-gray-500 text-center py-8">Pick a day on the calendar</p>
+            ) : !selectedLog ? (
+              <div className="text-center py-12">
+                <ClipboardList className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500 mb-4">No site log for {formatDay(selectedDate)}</p>
+                {canWrite && projectId && !selectedIsFuture && (
+                  <button
+                    onClick={openForm}
+                    className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Write Site Log
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{formatDay(selectedLog.log_date)}</h3>
+                    {selectedLog.signed_off_at ? (
+                      <p className="flex items-center text-sm text-green-700">
+                        <CheckCircle className="w-4 h-4 mr-1" />
+                        Signed off by {selectedLog.signed_off_name || "site engineer"} on{" "}
+                        {format(new Date(selectedLog.signed_off_at), "dd MMM yyyy, HH:mm")}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-yellow-700">Not signed off</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => generateSiteLogPdf([selectedLog], false)}
+                      disabled={exporting}
+                      className="p-2 text-gray-600 hover:text-gray-900"
+                      title="Download PDF"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                    {canWrite && !selectedLog.signed_off_at && (
+                      <>
+                        <button onClick={openForm} className="p-2 text-blue-600 hover:text-blue-700" title="Edit">
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(selectedLog)}
+                          className="p-2 text-red-600 hover:text-red-700"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-gray-500">Weather</p>
+                    <p className="text-gray-900">
+                      {selectedLog.weather || "-"}
+                      {selectedLog.temperature_c !== null && `, ${selectedLog.temperature_c}°C`}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Equipment</p>
+                    <p className="text-gray-900">{selectedLog.equipment.join(", ") || "-"}</p>
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-sm text-gray-500 mb-1">Manpower ({totalHeadcount(selectedLog)})</p>
+                  <div className="flex flex-wrap gap-2">
+                    {selectedLog.site_log_manpower.length === 0 && <span className="text-sm text-gray-400">Not recorded</span>}
+                    {selectedLog.site_log_manpower.map((m) => (
+                      <span key={m.id} className="px-2 py-1 bg-gray-100 rounded text-sm text-gray-700">
+                        {m.trade}: {m.headcount}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-sm text-gray-500 mb-1">Work Done</p>
+                  <p className="text-sm text-gray-900 whitespace-pre-wrap">{selectedLog.work_done}</p>
+                </div>
+
+                {selectedLog.issues && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                    <p className="text-sm font-medium text-red-700 mb-1">Issues / Delays</p>
+                    <p className="text-sm text-red-700 whitespace-pre-wrap">{selectedLog.issues}</p>
+                  </div>
+                )}
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="flex items-center text-sm text-gray-500">
+                      <Camera className="w-4 h-4 mr-1" />
+                      Photos
+                    </p>
+                    {canWrite && !selectedLog.signed_off_at && (
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={photoPhaseId}
+                          onChange={(e) => setPhotoPhaseId(e.target.value)}
+                          className="border rounded p-1 text-xs"
+                        >
+                          {phases.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="file"
+                          accept="image/*"
+                          disabled={uploading || phases.length === 0}
+                          onChange={(e) => {
+                            if (e.target.files?.[0]) handleUploadPhoto(selectedLog, e.target.files[0]);
+                            e.target.value = "";
+                          }}
+                          className="text-xs text-blue-600 w-48"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {selectedLog.phase_photos.map((photo) => (
+                      <div key={photo.id} className="relative group">
+                        <a href={photo.photo_url} target="_blank" rel="noopener noreferrer">
+                          <img src={photo.photo_url} alt="Site" className="w-full h-24 object-cover rounded" />
+                        </a>
+                        {canWrite && !selectedLog.signed_off_at && (
+                          <button
+                            onClick={() => handleLinkPhoto(null, photo)}
+                            className="absolute top-1 right-1 bg-white rounded-full p-1 shadow opacity-0 group-hover:opacity-100"
+                            title="Detach from log"
+                          >
+                            <X className="w-3 h-3 text-gray-700" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {selectedLog.phase_photos.length === 0 && <p className="text-sm text-gray-400">No photos attached</p>}
+
+                  {unlinkedPhotos.length > 0 && (
+                    <div className="mt-3">
+                      <p className="text-xs text-gray-500 mb-1">Phase photos taken this day</p>
+                      <div className="grid grid-cols-4 gap-2">
+                        {unlinkedPhotos.map((photo) => (
+                          <button
+                            key={photo.id}
+                            onClick={() => handleLinkPhoto(selectedLog.id, photo)}
+                            className="relative group"
+                            title="Attach to log"
+                          >
+                            <img src={photo.photo_url} alt="Phase" className="w-full h-16 object-cover rounded opacity-60 group-hover:opacity-100" />
+                            <Link2 className="absolute top-1 right-1 w-3 h-3 text-white" />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {canSignOff && !selectedLog.signed_off_at && (
+                  <button
+                    onClick={() => handleSignOff(selectedLog)}
+                    className="w-full flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Sign Off
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showForm && selectedDate && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setShowForm(false)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Site Log</h2>
+                <p className="text-sm text-gray-600">
+                  {project?.name}, {formatDay(selectedDate)}
+                </p>
+              </div>
+              <button onClick={() => setShowForm(false)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Weather</label>
+                  <select
+                    value={form.weather}
+                    onChange={(e) => setForm({ ...form, weather: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  >
+                    <option value="">Not recorded</option>
+                    {WEATHER_OPTIONS.map((option) => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">Temperature (°C)</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={form.temperature}
+                    onChange={(e) => setForm({ ...form, temperature: e.target.value })}
+                    className="w-full border rounded-lg p-2"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block font-medium text-gray-700">Manpower</label>
+                  <button onClick={fillFromMusterRoll} className="text-sm text-blue-600 hover:text-blue-700">
+                    Fill from muster roll
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {manpower.map((row, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={row.trade}
+                        onChange={(e) =>
+                          setManpower(manpower.map((m, i) => (i === index ? { ...m, trade: e.target.value } : m)))
+                        }
+                        placeholder="Trade, e.g. Mason"
+                        className="flex-1 border rounded-lg p-2"
+                      />
+                      <input
+                        type="number"
+                        min="1"
+                        value={row.headcount}
+                        onChange={(e) =>
+                          setManpower(manpower.map((m, i) => (i === index ? { ...m, headcount: e.target.value } : m)))
+                        }
+                        placeholder="Count"
+                        className="w-24 border rounded-lg p-2"
+                      />
+                      <button
+                        onClick={() => setManpower(manpower.filter((_, i) => i !== index))}
+                        className="p-2 text-red-600 hover:text-red-700"
+                        title="Remove"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setManpower([...manpower, { trade: "", headcount: "" }])}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add trade
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Equipment on Site</label>
+                <input
+                  type="text"
+                  value={form.equipment}
+                  onChange={(e) => setForm({ ...form, equipment: e.target.value })}
+                  placeholder="Comma separated, e.g. Concrete mixer, Scaffolding"
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Work Done *</label>
+                <textarea
+                  value={form.work_done}
+                  onChange={(e) => setForm({ ...form, work_done: e.target.value })}
+                  rows={4}
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">Issues / Delays</label>
+                <textarea
+                  value={form.issues}
+                  onChange={(e) => setForm({ ...form, issues: e.target.value })}
+                  rows={3}
+                  className="w-full border rounded-lg p-2"
+                />
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save Log"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from "react";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
 import { sendUserCredentialsEmail } from "../lib/emailService";
+import { isPlanLimitError } from "../lib/repositories";
 import { Layout } from "../components/Layout/Layout";
 import { Users as UsersIcon, Plus, Search, Mail, Phone, Shield, MoveVertical as MoreVertical, ListFilter as Filter, CreditCard as Edit2, Trash2, Eye, Grid2x2 as Grid, List, Building, Calendar, Clock, X, Check, User, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
 
@@ -229,7 +230,10 @@ export function Users() {
 
       if (insertError) {
         console.error("Insert failed:", insertError.message);
-        showNotification('error', `Failed to add user: ${insertError.message}`);
+        showNotification(
+          'error',
+          isPlanLimitError(insertError) ? insertError.message : `Failed to add user: ${insertError.message}`
+        );
         setSendingEmail(false);
         return;
       }
@@ -0,0 +1,449 @@
+import { useState, useEffect } from "react";
+import { Store, Plus, Search, X, CreditCard as Edit, BookOpen, Phone, Mail } from "lucide-react";
+import { format } from "date-fns";
+import { PostgrestError } from "@supabase/supabase-js";
+import { Layout } from "../components/Layout/Layout";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  listVendors,
+  createVendor,
+  updateVendor,
+  listVendorBalances,
+  listVendorLedger,
+  listProjectOptions,
+  VendorInput,
+} from "../lib/repositories";
+import type { Vendor, VendorBalance, VendorLedgerEntry } from "../types";
+
+const emptyForm = {
+  name: "",
+  gstin: "",
+  contact_person: "",
+  phone: "",
+  email: "",
+  address: "",
+  bank_account_name: "",
+  bank_account_number: "",
+  bank_ifsc: "",
+  upi_id: "",
+  categories: "",
+  active: true,
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z0-9]{13}$/;
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function Vendors() {
+  const { user, userRole, permissions } = useAuth();
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [balances, setBalances] = useState<Record<string, VendorBalance>>({});
+  const [projectNames, setProjectNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showInactive, setShowInactive] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [ledgerVendor, setLedgerVendor] = useState<Vendor | null>(null);
+  const [ledger, setLedger] = useState<VendorLedgerEntry[]>([]);
+
+  const isAdmin = userRole === "Admin";
+  const canManage = isAdmin || permissions.includes("manage_vendors");
+
+  const fetchVendors = async () => {
+    try {
+      const [vendorList, balanceList] = await Promise.all([listVendors(), listVendorBalances()]);
+      setVendors(vendorList);
+      setBalances(Object.fromEntries(balanceList.map((b) => [b.vendor_id, b])));
+    } catch (error) {
+      console.error("Error fetching vendors:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchVendors();
+    if (user?.id) {
+      listProjectOptions(user.id)
+        .then((projects) => setProjectNames(Object.fromEntries(projects.map((p) => [p.id, p.name]))))
+        .catch((error) => console.error("Error fetching projects:", error));
+    }
+  }, [user?.id]);
+
+  const openForm = (vendor: Vendor | null) => {
+    setEditingVendor(vendor);
+    setForm(
+      vendor
+        ? {
+            name: vendor.name,
+            gstin: vendor.gstin || "",
+            contact_person: vendor.contact_person || "",
+            phone: vendor.phone || "",
+            email: vendor.email || "",
+            address: vendor.address || "",
+            bank_account_name: vendor.bank_account_name || "",
+            bank_account_number: vendor.bank_account_number || "",
+            bank_ifsc: vendor.bank_ifsc || "",
+            upi_id: vendor.upi_id || "",
+            categories: vendor.categories.join(", "),
+            active: vendor.active,
+          }
+        : emptyForm
+    );
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    const gstin = form.gstin.trim().toUpperCase();
+    if (!form.name.trim()) {
+      alert("Please enter the vendor's name");
+      return;
+    }
+    if (gstin && !GSTIN_PATTERN.test(gstin)) {
+      alert("GSTIN must be 15 characters, starting with the 2-digit state code");
+      return;
+    }
+
+    const input: VendorInput = {
+      name: form.name.trim(),
+      gstin: gstin || null,
+      contact_person: form.contact_person.trim() || null,
+      phone: form.phone.trim() || null,
+      email: form.email.trim() || null,
+      address: form.address.trim() || null,
+      bank_account_name: form.bank_account_name.trim() || null,
+      bank_account_number: form.bank_account_number.trim() || null,
+      bank_ifsc: form.bank_ifsc.trim().toUpperCase() || null,
+      upi_id: form.upi_id.trim() || null,
+      categories: form.categories
+        .split(",")
+        .map((c) => c.trim())
+        .filter(Boolean),
+      active: form.active,
+    };
+
+    setSaving(true);
+    try {
+      if (editingVendor) {
+        await updateVendor(editingVendor.id, input);
+      } else {
+        await createVendor(input);
+      }
+      setShowForm(false);
+      await fetchVendors();
+    } catch (error) {
+      console.error("Error saving vendor:", error);
+      alert(
+        error instanceof PostgrestError && error.code === "23505"
+          ? "A vendor with this name already exists"
+          : `Failed to save vendor: ${error instanceof Error ? error.message : "Please try again."}`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openLedger = async (vendor: Vendor) => {
+    setLedgerVendor(vendor);
+    setLedger([]);
+    try {
+      setLedger(await listVendorLedger(vendor.id));
+    } catch (error) {
+      console.error("Error fetching vendor ledger:", error);
+    }
+  };
+
+  const totals = Object.values(balances).reduce(
+    (sum, b) => ({ billed: sum.billed + Number(b.billed), paid: sum.paid + Number(b.paid) }),
+    { billed: 0, paid: 0 }
+  );
+
+  const filteredVendors = vendors.filter((vendor) => {
+    const searchLower = searchTerm.toLowerCase();
+    const matchesSearch =
+      vendor.name.toLowerCase().includes(searchLower) ||
+      vendor.gstin?.toLowerCase().includes(searchLower) ||
+      vendor.categories.some((c) => c.toLowerCase().includes(searchLower));
+    return matchesSearch && (showInactive || vendor.active);
+  });
+
+  let runningBalance = 0;
+
+  return (
+    <Layout title="Vendors" subtitle="Suppliers, what they have billed and what you owe them">
+      <div className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <p className="text-sm text-gray-600">Billed</p>
+            <p className="text-2xl font-bold text-gray-900">{formatCurrency(totals.billed)}</p>
+          </div>
+          <div className="bg-green-50 rounded-lg border border-green-200 p-4">
+            <p className="text-sm text-green-700">Paid</p>
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(totals.paid)}</p>
+          </div>
+          <div className="bg-red-50 rounded-lg border border-red-200 p-4">
+            <p className="text-sm text-red-700">Outstanding</p>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(totals.billed - totals.paid)}</p>
+          </div>
+        </div>
+
+        <div className="mb-6 flex flex-wrap gap-4 items-center">
+          <div className="flex-1 relative min-w-[200px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search by name, GSTIN or category"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+              className="h-4 w-4"
+            />
+            Show inactive
+          </label>
+          {canManage && (
+            <button
+              onClick={() => openForm(null)}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Vendor
+            </button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading vendors...</div>
+        ) : filteredVendors.length === 0 ? (
+          <div className="text-center py-12">
+            <Store className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">{vendors.length === 0 ? "No vendors added yet" : "No vendors match your search"}</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-gray-600">
+                  <th className="p-3 text-left font-medium">Vendor</th>
+                  <th className="p-3 text-left font-medium">Contact</th>
+                  <th className="p-3 text-right font-medium">Billed</th>
+                  <th className="p-3 text-right font-medium">Paid</th>
+                  <th className="p-3 text-right font-medium">Outstanding</th>
+                  <th className="p-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {filteredVendors.map((vendor) => {
+                  const balance = balances[vendor.id];
+                  const outstanding = Number(balance?.outstanding ?? 0);
+
+                  return (
+                    <tr key={vendor.id} className={`border-t border-gray-100 align-top ${vendor.active ? "" : "opacity-60"}`}>
+                      <td className="p-3">
+                        <p className="font-medium text-gray-900">
+                          {vendor.name}
+                          {!vendor.active && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                        </p>
+                        {vendor.gstin && <p className="text-xs text-gray-500">GSTIN {vendor.gstin}</p>}
+                        {vendor.categories.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {vendor.categories.map((category) => (
+                              <span key={category} className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full">
+                                {category}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-3 text-gray-600">
+                        {vendor.contact_person && <p>{vendor.contact_person}</p>}
+                        {vendor.phone && (
+                          <p className="flex items-center text-xs">
+                            <Phone className="w-3 h-3 mr-1" />
+                            {vendor.phone}
+                          </p>
+                        )}
+                        {vendor.email && (
+                          <p className="flex items-center text-xs">
+                            <Mail className="w-3 h-3 mr-1" />
+                            {vendor.email}
+                          </p>
+                        )}
+                      </td>
+                      <td className="p-3 text-right">{formatCurrency(Number(balance?.billed ?? 0))}</td>
+                      <td className="p-3 text-right">{formatCurrency(Number(balance?.paid ?? 0))}</td>
+                      <td className={`p-3 text-right font-medium ${outstanding > 0 ? "text-red-600" : "text-green-600"}`}>
+                        {outstanding < 0 ? `Advance ${formatCurrency(-outstanding)}` : formatCurrency(outstanding)}
+                      </td>
+                      <td className="p-3 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => openLedger(vendor)}
+                          className="text-blue-600 hover:text-blue-700 mr-3"
+                          title="Ledger"
+                        >
+                          <BookOpen className="w-4 h-4" />
+                        </button>
+                        {canManage && (
+                          <button
+                            onClick={() => openForm(vendor)}
+                            className="text-gray-600 hover:text-gray-800"
+                            title="Edit vendor"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setShowForm(false)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold text-gray-900">{editingVendor ? "Edit Vendor" : "Add Vendor"}</h2>
+              <button onClick={() => setShowForm(false)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {([
+                ["name", "Name *"],
+                ["gstin", "GSTIN"],
+                ["contact_person", "Contact Person"],
+                ["phone", "Phone"],
+                ["email", "Email"],
+                ["upi_id", "UPI ID"],
+                ["bank_account_name", "Account Name"],
+                ["bank_account_number", "Account Number"],
+                ["bank_ifsc", "IFSC"],
+                ["categories", "Categories (comma separated)"],
+              ] as [keyof typeof emptyForm, string][]).map(([field, label]) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <input
+                    type="text"
+                    value={form[field] as string}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    className="border border-gray-300 rounded-lg w-full px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+                <textarea
+                  rows={2}
+                  value={form.address}
+                  onChange={(e) => setForm({ ...form, address: e.target.value })}
+                  className="border border-gray-300 rounded-lg w-full px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.active}
+                  onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                  className="h-4 w-4"
+                />
+                Active (offered in vendor pickers)
+              </label>
+            </div>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save Vendor"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {ledgerVendor && (
+        <div
+          className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+          onClick={(e) => e.target === e.currentTarget && setLedgerVendor(null)}
+        >
+          <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Vendor Ledger</h2>
+                <p className="text-sm text-gray-600">{ledgerVendor.name}</p>
+              </div>
+              <button onClick={() => setLedgerVendor(null)}>
+                <X className="h-5 w-5 text-gray-500 hover:text-gray-700" />
+              </button>
+            </div>
+
+            {ledger.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No bills or payments recorded for this vendor</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-gray-600 border-b">
+                    <th className="py-2 text-left font-medium">Date</th>
+                    <th className="py-2 text-left font-medium">Project</th>
+                    <th className="py-2 text-left font-medium">Particulars</th>
+                    <th className="py-2 text-right font-medium">Billed</th>
+                    <th className="py-2 text-right font-medium">Paid</th>
+                    <th className="py-2 text-right font-medium">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledger.map((entry) => {
+                    runningBalance += Number(entry.billed) - Number(entry.paid);
+
+                    return (
+                      <tr key={`${entry.entry_type}-${entry.source_id}`} className="border-b border-gray-100">
+                        <td className="py-2 whitespace-nowrap">{format(new Date(entry.date), "dd MMM yyyy")}</td>
+                        <td className="py-2">{projectNames[entry.project_id] || "-"}</td>
+                        <td className="py-2">{entry.description}</td>
+                        <td className="py-2 text-right">{Number(entry.billed) ? formatCurrency(Number(entry.billed)) : ""}</td>
+                        <td className="py-2 text-right text-green-600">
+                          {Number(entry.paid) ? formatCurrency(Number(entry.paid)) : ""}
+                        </td>
+                        <td className="py-2 text-right font-medium">
+                          {runningBalance < 0 ? `Adv ${formatCurrency(-runningBalance)}` : formatCurrency(runningBalance)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
@@ -0,0 +1,3573 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      bid_attachments: {
+        Row: {
+          bid_id: string
+          created_at: string
+          file_path: string
+          id: string
+          name: string
+          size_bytes: number
+        }
+        Insert: {
+          bid_id: string
+          created_at?: string
+          file_path: string
+          id?: string
+          name: string
+          size_bytes?: number
+        }
+        Update: {
+          bid_id?: string
+          created_at?: string
+          file_path?: string
+          id?: string
+          name?: string
+          size_bytes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bid_attachments_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: false
+            referencedRelation: "bids"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bid_line_items: {
+        Row: {
+          amount: number
+          bid_id: string
+          description: string
+          duration_days: number
+          id: string
+          position: number
+        }
+        Insert: {
+          amount: number
+          bid_id: string
+          description: string
+          duration_days: number
+          id?: string
+          position: number
+        }
+        Update: {
+          amount?: number
+          bid_id?: string
+          description?: string
+          duration_days?: number
+          id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bid_line_items_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: false
+            referencedRelation: "bids"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bids: {
+        Row: {
+          admin_id: string
+          bid_status: string
+          created_at: string
+          exclusions: string[]
+          id: string
+          inclusions: string[]
+          proposal: string
+          renovation_id: string
+          responded_at: string | null
+          timeline_days: number
+          tokens_used: number
+          total_amount: number
+          valid_until: string | null
+        }
+        Insert: {
+          admin_id: string
+          bid_status?: string
+          created_at?: string
+          exclusions?: string[]
+          id?: string
+          inclusions?: string[]
+          proposal: string
+          renovation_id: string
+          responded_at?: string | null
+          timeline_days?: number
+          tokens_used?: number
+          total_amount?: number
+          valid_until?: string | null
+        }
+        Update: {
+          admin_id?: string
+          bid_status?: string
+          created_at?: string
+          exclusions?: string[]
+          id?: string
+          inclusions?: string[]
+          proposal?: string
+          renovation_id?: string
+          responded_at?: string | null
+          timeline_days?: number
+          tokens_used?: number
+          total_amount?: number
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bids_renovation_id_fkey"
+            columns: ["renovation_id"]
+            isOneToOne: false
+            referencedRelation: "renovations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budget_lines: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          phase_id: string
+          project_id: string
+          warn_at_percent: number
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          phase_id: string
+          project_id: string
+          warn_at_percent?: number
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          phase_id?: string
+          project_id?: string
+          warn_at_percent?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budget_lines_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budget_lines_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_events: {
+        Row: {
+          all_day: boolean
+          attendees: string[]
+          client: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          end_date: string
+          end_time: string | null
+          id: string
+          location: string | null
+          priority: string
+          project: string | null
+          reminder: number
+          start_date: string
+          start_time: string | null
+          status: string
+          title: string
+          type: string
+        }
+        Insert: {
+          all_day?: boolean
+          attendees?: string[]
+          client?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date: string
+          end_time?: string | null
+          id?: string
+          location?: string | null
+          priority?: string
+          project?: string | null
+          reminder?: number
+          start_date: string
+          start_time?: string | null
+          status?: string
+          title: string
+          type?: string
+        }
+        Update: {
+          all_day?: boolean
+          attendees?: string[]
+          client?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date?: string
+          end_time?: string | null
+          id?: string
+          location?: string | null
+          priority?: string
+          project?: string | null
+          reminder?: number
+          start_date?: string
+          start_time?: string | null
+          status?: string
+          title?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      change_orders: {
+        Row: {
+          co_number: string
+          cost_impact: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          phase_id: string | null
+          project_id: string
+          responded_at: string | null
+          responded_by_name: string | null
+          response_note: string | null
+          schedule_impact_days: number
+          sent_at: string | null
+          status: string
+          title: string
+        }
+        Insert: {
+          co_number?: string
+          cost_impact?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          phase_id?: string | null
+          project_id: string
+          responded_at?: string | null
+          responded_by_name?: string | null
+          response_note?: string | null
+          schedule_impact_days?: number
+          sent_at?: string | null
+          status?: string
+          title: string
+        }
+        Update: {
+          co_number?: string
+          cost_impact?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          phase_id?: string | null
+          project_id?: string
+          responded_at?: string | null
+          responded_by_name?: string | null
+          response_note?: string | null
+          schedule_impact_days?: number
+          sent_at?: string | null
+          status?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "change_orders_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "change_orders_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      documents: {
+        Row: {
+          category: string | null
+          change_note: string | null
+          document_group_id: string
+          file_path: string | null
+          id: string
+          is_current: boolean
+          name: string
+          owner_id: string | null
+          project: string | null
+          project_id: string | null
+          revision: number
+          size: string | null
+          size_bytes: number
+          status: string
+          superseded_at: string | null
+          tags: string[] | null
+          type: string | null
+          upload_date: string
+          uploaded_by: string | null
+          version: string | null
+        }
+        Insert: {
+          category?: string | null
+          change_note?: string | null
+          document_group_id?: string
+          file_path?: string | null
+          id?: string
+          is_current?: boolean
+          name: string
+          owner_id?: string | null
+          project?: string | null
+          project_id?: string | null
+          revision?: number
+          size?: string | null
+          size_bytes?: number
+          status?: string
+          superseded_at?: string | null
+          tags?: string[] | null
+          type?: string | null
+          upload_date?: string
+          uploaded_by?: string | null
+          version?: string | null
+        }
+        Update: {
+          category?: string | null
+          change_note?: string | null
+          document_group_id?: string
+          file_path?: string | null
+          id?: string
+          is_current?: boolean
+          name?: string
+          owner_id?: string | null
+          project?: string | null
+          project_id?: string | null
+          revision?: number
+          size?: string | null
+          size_bytes?: number
+          status?: string
+          superseded_at?: string | null
+          tags?: string[] | null
+          type?: string | null
+          upload_date?: string
+          uploaded_by?: string | null
+          version?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "documents_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_approval_thresholds: {
+        Row: {
+          approver_role_id: string
+          created_at: string
+          id: string
+          min_amount: number
+          project_id: string
+        }
+        Insert: {
+          approver_role_id: string
+          created_at?: string
+          id?: string
+          min_amount: number
+          project_id: string
+        }
+        Update: {
+          approver_role_id?: string
+          created_at?: string
+          id?: string
+          min_amount?: number
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_approval_thresholds_approver_role_id_fkey"
+            columns: ["approver_role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_approval_thresholds_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_approvals: {
+        Row: {
+          comment: string | null
+          decided_at: string
+          decided_by: string | null
+          decision: string
+          expense_id: string
+          id: string
+          project_id: string
+          role_id: string | null
+        }
+        Insert: {
+          comment?: string | null
+          decided_at?: string
+          decided_by?: string | null
+          decision: string
+          expense_id: string
+          id?: string
+          project_id: string
+          role_id?: string | null
+        }
+        Update: {
+          comment?: string | null
+          decided_at?: string
+          decided_by?: string | null
+          decision?: string
+          expense_id?: string
+          id?: string
+          project_id?: string
+          role_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_approvals_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_approvals_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_approvals_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_approvals_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expenses: {
+        Row: {
+          amount: number
+          approval_level: number
+          approval_status: string
+          approved: boolean
+          approver_role_id: string | null
+          bill_path: string | null
+          category: string
+          created_at: string
+          created_by: string | null
+          custom_category: string | null
+          date: string
+          description: string | null
+          gst_amount: number
+          id: string
+          payment_method: string
+          phase_id: string
+          project_id: string
+          reference_id: string | null
+          source: string | null
+          tags: string | null
+          type: string
+          vendor_id: string | null
+        }
+        Insert: {
+          amount: number
+          approval_level?: number
+          approval_status?: string
+          approved?: boolean
+          approver_role_id?: string | null
+          bill_path?: string | null
+          category: string
+          created_at?: string
+          created_by?: string | null
+          custom_category?: string | null
+          date: string
+          description?: string | null
+          gst_amount?: number
+          id?: string
+          payment_method: string
+          phase_id: string
+          project_id: string
+          reference_id?: string | null
+          source?: string | null
+          tags?: string | null
+          type?: string
+          vendor_id?: string | null
+        }
+        Update: {
+          amount?: number
+          approval_level?: number
+          approval_status?: string
+          approved?: boolean
+          approver_role_id?: string | null
+          bill_path?: string | null
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          custom_category?: string | null
+          date?: string
+          description?: string | null
+          gst_amount?: number
+          id?: string
+          payment_method?: string
+          phase_id?: string
+          project_id?: string
+          reference_id?: string | null
+          source?: string | null
+          tags?: string | null
+          type?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_approver_role_id_fkey"
+            columns: ["approver_role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspection_items: {
+        Row: {
+          id: string
+          inspection_id: string
+          label: string
+          note: string | null
+          position: number
+          result: string | null
+          snag_id: string | null
+        }
+        Insert: {
+          id?: string
+          inspection_id: string
+          label: string
+          note?: string | null
+          position: number
+          result?: string | null
+          snag_id?: string | null
+        }
+        Update: {
+          id?: string
+          inspection_id?: string
+          label?: string
+          note?: string | null
+          position?: number
+          result?: string | null
+          snag_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_items_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspection_items_snag_id_fkey"
+            columns: ["snag_id"]
+            isOneToOne: false
+            referencedRelation: "snags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspection_photos: {
+        Row: {
+          created_at: string
+          file_path: string
+          id: string
+          inspection_item_id: string
+          photo_url: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          file_path: string
+          id?: string
+          inspection_item_id: string
+          photo_url: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          file_path?: string
+          id?: string
+          inspection_item_id?: string
+          photo_url?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_photos_inspection_item_id_fkey"
+            columns: ["inspection_item_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspection_template_items: {
+        Row: {
+          id: string
+          label: string
+          position: number
+          template_id: string
+        }
+        Insert: {
+          id?: string
+          label: string
+          position: number
+          template_id: string
+        }
+        Update: {
+          id?: string
+          label?: string
+          position?: number
+          template_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_template_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspection_templates: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          owner_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          owner_id?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          owner_id?: string
+        }
+        Relationships: []
+      }
+      inspections: {
+        Row: {
+          calendar_event_id: string | null
+          completed_at: string | null
+          completed_by: string | null
+          completed_by_name: string | null
+          contractor_name: string | null
+          contractor_signature: string | null
+          created_at: string
+          created_by: string | null
+          document_id: string | null
+          id: string
+          inspector_name: string | null
+          inspector_signature: string | null
+          notes: string | null
+          phase_id: string
+          project_id: string
+          scheduled_date: string | null
+          status: string
+          template_id: string | null
+          title: string
+        }
+        Insert: {
+          calendar_event_id?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          completed_by_name?: string | null
+          contractor_name?: string | null
+          contractor_signature?: string | null
+          created_at?: string
+          created_by?: string | null
+          document_id?: string | null
+          id?: string
+          inspector_name?: string | null
+          inspector_signature?: string | null
+          notes?: string | null
+          phase_id: string
+          project_id: string
+          scheduled_date?: string | null
+          status?: string
+          template_id?: string | null
+          title: string
+        }
+        Update: {
+          calendar_event_id?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          completed_by_name?: string | null
+          contractor_name?: string | null
+          contractor_signature?: string | null
+          created_at?: string
+          created_by?: string | null
+          document_id?: string | null
+          id?: string
+          inspector_name?: string | null
+          inspector_signature?: string | null
+          notes?: string | null
+          phase_id?: string
+          project_id?: string
+          scheduled_date?: string | null
+          status?: string
+          template_id?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspections_calendar_event_id_fkey"
+            columns: ["calendar_event_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspections_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspections_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspections_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspections_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_items: {
+        Row: {
+          created_at: string
+          description: string
+          gst_rate: number
+          id: string
+          invoice_id: string
+          quantity: number
+          rate: number
+          sac: string | null
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          gst_rate?: number
+          id?: string
+          invoice_id: string
+          quantity?: number
+          rate?: number
+          sac?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          gst_rate?: number
+          id?: string
+          invoice_id?: string
+          quantity?: number
+          rate?: number
+          sac?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_series: {
+        Row: {
+          doc_type: string
+          financial_year: string
+          last_number: number
+          owner_id: string
+        }
+        Insert: {
+          doc_type: string
+          financial_year: string
+          last_number?: number
+          owner_id: string
+        }
+        Update: {
+          doc_type?: string
+          financial_year?: string
+          last_number?: number
+          owner_id?: string
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          cgst: number
+          client_address: string | null
+          client_email: string | null
+          client_gstin: string | null
+          client_name: string
+          client_phone: string | null
+          created_at: string
+          created_by: string | null
+          doc_type: string
+          due_date: string | null
+          financial_year: string | null
+          id: string
+          igst: number
+          income_id: string | null
+          invoice_date: string
+          invoice_number: string | null
+          is_inter_state: boolean
+          issued_at: string | null
+          notes: string | null
+          original_invoice_id: string | null
+          owner_id: string | null
+          paid_at: string | null
+          payment_method: string | null
+          phase_id: string
+          place_of_supply: string
+          project_id: string
+          sgst: number
+          status: string
+          subtotal: number
+          supplier_gstin: string | null
+          total: number
+        }
+        Insert: {
+          cgst?: number
+          client_address?: string | null
+          client_email?: string | null
+          client_gstin?: string | null
+          client_name: string
+          client_phone?: string | null
+          created_at?: string
+          created_by?: string | null
+          doc_type?: string
+          due_date?: string | null
+          financial_year?: string | null
+          id?: string
+          igst?: number
+          income_id?: string | null
+          invoice_date?: string
+          invoice_number?: string | null
+          is_inter_state?: boolean
+          issued_at?: string | null
+          notes?: string | null
+          original_invoice_id?: string | null
+          owner_id?: string | null
+          paid_at?: string | null
+          payment_method?: string | null
+          phase_id: string
+          place_of_supply: string
+          project_id: string
+          sgst?: number
+          status?: string
+          subtotal?: number
+          supplier_gstin?: string | null
+          total?: number
+        }
+        Update: {
+          cgst?: number
+          client_address?: string | null
+          client_email?: string | null
+          client_gstin?: string | null
+          client_name?: string
+          client_phone?: string | null
+          created_at?: string
+          created_by?: string | null
+          doc_type?: string
+          due_date?: string | null
+          financial_year?: string | null
+          id?: string
+          igst?: number
+          income_id?: string | null
+          invoice_date?: string
+          invoice_number?: string | null
+          is_inter_state?: boolean
+          issued_at?: string | null
+          notes?: string | null
+          original_invoice_id?: string | null
+          owner_id?: string | null
+          paid_at?: string | null
+          payment_method?: string | null
+          phase_id?: string
+          place_of_supply?: string
+          project_id?: string
+          sgst?: number
+          status?: string
+          subtotal?: number
+          supplier_gstin?: string | null
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_income_id_fkey"
+            columns: ["income_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_original_invoice_id_fkey"
+            columns: ["original_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      labour_attendance: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          date: string
+          hours_worked: number
+          id: string
+          payroll_batch_id: string | null
+          phase_id: string
+          project_id: string
+          rate_per_hour: number
+          status: string
+          worker_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          date: string
+          hours_worked?: number
+          id?: string
+          payroll_batch_id?: string | null
+          phase_id: string
+          project_id: string
+          rate_per_hour?: number
+          status?: string
+          worker_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          hours_worked?: number
+          id?: string
+          payroll_batch_id?: string | null
+          phase_id?: string
+          project_id?: string
+          rate_per_hour?: number
+          status?: string
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "labour_attendance_payroll_batch_id_fkey"
+            columns: ["payroll_batch_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "labour_attendance_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "labour_attendance_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "labour_attendance_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "labour_workers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      labour_workers: {
+        Row: {
+          active: boolean
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          phone: string | null
+          project_id: string
+          rate_per_hour: number
+          trade: string | null
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          phone?: string | null
+          project_id: string
+          rate_per_hour?: number
+          trade?: string | null
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          phone?: string | null
+          project_id?: string
+          rate_per_hour?: number
+          trade?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "labour_workers_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      material_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          date: string
+          expense_id: string | null
+          id: string
+          material_id: string
+          movement_type: string
+          notes: string | null
+          phase_id: string | null
+          project_id: string
+          purchase_order_item_id: string | null
+          quantity: number
+          unit_cost: number | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          expense_id?: string | null
+          id?: string
+          material_id: string
+          movement_type: string
+          notes?: string | null
+          phase_id?: string | null
+          project_id: string
+          purchase_order_item_id?: string | null
+          quantity: number
+          unit_cost?: number | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          expense_id?: string | null
+          id?: string
+          material_id?: string
+          movement_type?: string
+          notes?: string | null
+          phase_id?: string | null
+          project_id?: string
+          purchase_order_item_id?: string | null
+          quantity?: number
+          unit_cost?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "material_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "material_movements_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "material_movements_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "materials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "material_movements_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "material_movements_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "material_movements_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      materials: {
+        Row: {
+          category: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          hsn: string | null
+          id: string
+          name: string
+          project_id: string
+          qty_issued: number
+          qty_required: number
+          specifications: string | null
+          status: string | null
+          stock_quantity: number
+          supplier: string | null
+          unit: string | null
+          unit_cost: number
+          updated_at: string
+          vendor_id: string | null
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          hsn?: string | null
+          id?: string
+          name: string
+          project_id: string
+          qty_issued?: number
+          qty_required?: number
+          specifications?: string | null
+          status?: string | null
+          stock_quantity?: number
+          supplier?: string | null
+          unit?: string | null
+          unit_cost?: number
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          hsn?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+          qty_issued?: number
+          qty_required?: number
+          specifications?: string | null
+          status?: string | null
+          stock_quantity?: number
+          supplier?: string | null
+          unit?: string | null
+          unit_cost?: number
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "materials_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "materials_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_links: {
+        Row: {
+          amount: number
+          amount_paid: number | null
+          business_name: string
+          created_at: string
+          created_by: string | null
+          customer_email: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          description: string | null
+          gst_number: string | null
+          gst_rate: number
+          id: string
+          income_id: string | null
+          invoice_id: string | null
+          paid_at: string | null
+          payment_status: string
+          phase_id: string | null
+          product_name: string
+          project_id: string | null
+          quantity: number
+          razorpay_link_id: string
+          razorpay_link_url: string
+          razorpay_payment_id: string | null
+          razorpay_qr_code: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          amount_paid?: number | null
+          business_name: string
+          created_at?: string
+          created_by?: string | null
+          customer_email?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          description?: string | null
+          gst_number?: string | null
+          gst_rate?: number
+          id?: string
+          income_id?: string | null
+          invoice_id?: string | null
+          paid_at?: string | null
+          payment_status?: string
+          phase_id?: string | null
+          product_name: string
+          project_id?: string | null
+          quantity?: number
+          razorpay_link_id: string
+          razorpay_link_url: string
+          razorpay_payment_id?: string | null
+          razorpay_qr_code?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          amount_paid?: number | null
+          business_name?: string
+          created_at?: string
+          created_by?: string | null
+          customer_email?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          description?: string | null
+          gst_number?: string | null
+          gst_rate?: number
+          id?: string
+          income_id?: string | null
+          invoice_id?: string | null
+          paid_at?: string | null
+          payment_status?: string
+          phase_id?: string | null
+          product_name?: string
+          project_id?: string | null
+          quantity?: number
+          razorpay_link_id?: string
+          razorpay_link_url?: string
+          razorpay_payment_id?: string | null
+          razorpay_qr_code?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_links_income_id_fkey"
+            columns: ["income_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_links_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_links_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_links_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_logs: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          plan_name: string | null
+          razorpay_order_id: string | null
+          razorpay_payment_id: string | null
+          status: string
+          user_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          id?: string
+          plan_name?: string | null
+          razorpay_order_id?: string | null
+          razorpay_payment_id?: string | null
+          status: string
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          plan_name?: string | null
+          razorpay_order_id?: string | null
+          razorpay_payment_id?: string | null
+          status?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      payroll_batches: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expense_id: string | null
+          id: string
+          paid_at: string | null
+          payment_method: string | null
+          phase_id: string
+          project_id: string
+          status: string
+          total_amount: number
+          total_hours: number
+          week_end: string
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expense_id?: string | null
+          id?: string
+          paid_at?: string | null
+          payment_method?: string | null
+          phase_id: string
+          project_id: string
+          status?: string
+          total_amount?: number
+          total_hours?: number
+          week_end: string
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expense_id?: string | null
+          id?: string
+          paid_at?: string | null
+          payment_method?: string | null
+          phase_id?: string
+          project_id?: string
+          status?: string
+          total_amount?: number
+          total_hours?: number
+          week_end?: string
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_batches_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_batches_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_batches_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phase_comments: {
+        Row: {
+          comment: string
+          created_at: string
+          id: string
+          phase_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comment: string
+          created_at?: string
+          id?: string
+          phase_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comment?: string
+          created_at?: string
+          id?: string
+          phase_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phase_comments_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phase_comments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phase_dependencies: {
+        Row: {
+          created_at: string
+          id: string
+          lag_days: number
+          predecessor_id: string
+          project_id: string
+          successor_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          lag_days?: number
+          predecessor_id: string
+          project_id: string
+          successor_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          lag_days?: number
+          predecessor_id?: string
+          project_id?: string
+          successor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phase_dependencies_predecessor_id_fkey"
+            columns: ["predecessor_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phase_dependencies_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phase_dependencies_successor_id_fkey"
+            columns: ["successor_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phase_photos: {
+        Row: {
+          created_at: string
+          id: string
+          phase_id: string
+          photo_url: string
+          project_id: string
+          site_log_id: string | null
+          uploaded_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          phase_id: string
+          photo_url: string
+          project_id: string
+          site_log_id?: string | null
+          uploaded_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          phase_id?: string
+          photo_url?: string
+          project_id?: string
+          site_log_id?: string | null
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phase_photos_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phase_photos_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phase_photos_site_log_id_fkey"
+            columns: ["site_log_id"]
+            isOneToOne: false
+            referencedRelation: "site_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phases: {
+        Row: {
+          contractor_name: string | null
+          created_at: string
+          end_date: string
+          estimated_cost: number | null
+          id: string
+          name: string
+          progress: number
+          project_id: string
+          start_date: string
+          status: string
+        }
+        Insert: {
+          contractor_name?: string | null
+          created_at?: string
+          end_date: string
+          estimated_cost?: number | null
+          id?: string
+          name: string
+          progress?: number
+          project_id: string
+          start_date: string
+          status?: string
+        }
+        Update: {
+          contractor_name?: string | null
+          created_at?: string
+          end_date?: string
+          estimated_cost?: number | null
+          id?: string
+          name?: string
+          progress?: number
+          project_id?: string
+          start_date?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phases_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plans: {
+        Row: {
+          created_at: string
+          description: string | null
+          duration_days: number
+          features: string[]
+          grace_days: number
+          id: string
+          max_projects: number | null
+          max_storage_mb: number | null
+          max_users: number | null
+          name: string
+          price: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          duration_days?: number
+          features?: string[]
+          grace_days?: number
+          id?: string
+          max_projects?: number | null
+          max_storage_mb?: number | null
+          max_users?: number | null
+          name: string
+          price?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          duration_days?: number
+          features?: string[]
+          grace_days?: number
+          id?: string
+          max_projects?: number | null
+          max_storage_mb?: number | null
+          max_users?: number | null
+          name?: string
+          price?: number
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          company: string | null
+          created_at: string
+          created_by: string | null
+          email: string | null
+          full_name: string | null
+          gst_number: string | null
+          id: string
+          instagram: string | null
+          location: string | null
+          permissions: string[] | null
+          phone: string | null
+          plan_id: string | null
+          role: string | null
+          setup_completed: boolean
+          status: string
+          subscription_end: string | null
+          subscription_start: string | null
+          subscription_type: string | null
+          updated_at: string
+          website: string | null
+        }
+        Insert: {
+          company?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          full_name?: string | null
+          gst_number?: string | null
+          id: string
+          instagram?: string | null
+          location?: string | null
+          permissions?: string[] | null
+          phone?: string | null
+          plan_id?: string | null
+          role?: string | null
+          setup_completed?: boolean
+          status?: string
+          subscription_end?: string | null
+          subscription_start?: string | null
+          subscription_type?: string | null
+          updated_at?: string
+          website?: string | null
+        }
+        Update: {
+          company?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          full_name?: string | null
+          gst_number?: string | null
+          id?: string
+          instagram?: string | null
+          location?: string | null
+          permissions?: string[] | null
+          phone?: string | null
+          plan_id?: string | null
+          role?: string | null
+          setup_completed?: boolean
+          status?: string
+          subscription_end?: string | null
+          subscription_start?: string | null
+          subscription_type?: string | null
+          updated_at?: string
+          website?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_share_access_logs: {
+        Row: {
+          created_at: string
+          event: string
+          id: string
+          sections: string[]
+          share_id: string
+          user_agent: string | null
+        }
+        Insert: {
+          created_at?: string
+          event: string
+          id?: string
+          sections?: string[]
+          share_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          created_at?: string
+          event?: string
+          id?: string
+          sections?: string[]
+          share_id?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_share_access_logs_share_id_fkey"
+            columns: ["share_id"]
+            isOneToOne: false
+            referencedRelation: "project_shares"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_share_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string
+          share_id: string
+          token_hash: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          share_id: string
+          token_hash: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          share_id?: string
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_share_tokens_share_id_fkey"
+            columns: ["share_id"]
+            isOneToOne: false
+            referencedRelation: "project_shares"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_shares: {
+        Row: {
+          comments: Json
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          failed_attempts: number
+          id: string
+          is_active: boolean
+          last_accessed_at: string | null
+          locked_at: string | null
+          password_hash: string | null
+          project_id: string
+          share_options: Json
+          share_type: string
+          view_count: number
+        }
+        Insert: {
+          comments?: Json
+          created_at?: string
+          created_by?: string | null
+          expires_at: string
+          failed_attempts?: number
+          id?: string
+          is_active?: boolean
+          last_accessed_at?: string | null
+          locked_at?: string | null
+          password_hash?: string | null
+          project_id: string
+          share_options?: Json
+          share_type: string
+          view_count?: number
+        }
+        Update: {
+          comments?: Json
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          failed_attempts?: number
+          id?: string
+          is_active?: boolean
+          last_accessed_at?: string | null
+          locked_at?: string | null
+          password_hash?: string | null
+          project_id?: string
+          share_options?: Json
+          share_type?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_shares_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          budget: number | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          end_date: string | null
+          id: string
+          location: string | null
+          name: string
+          start_date: string | null
+          status: string
+        }
+        Insert: {
+          budget?: number | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          location?: string | null
+          name: string
+          start_date?: string | null
+          status?: string
+        }
+        Update: {
+          budget?: number | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          location?: string | null
+          name?: string
+          start_date?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
+      purchase_order_items: {
+        Row: {
+          created_at: string
+          description: string
+          gst_rate: number
+          hsn: string | null
+          id: string
+          material_id: string
+          purchase_order_id: string
+          quantity: number
+          received_quantity: number
+          unit: string | null
+          unit_cost: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          gst_rate?: number
+          hsn?: string | null
+          id?: string
+          material_id: string
+          purchase_order_id: string
+          quantity: number
+          received_quantity?: number
+          unit?: string | null
+          unit_cost?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          gst_rate?: number
+          hsn?: string | null
+          id?: string
+          material_id?: string
+          purchase_order_id?: string
+          quantity?: number
+          received_quantity?: number
+          unit?: string | null
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "materials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expected_date: string | null
+          id: string
+          notes: string | null
+          order_date: string
+          phase_id: string | null
+          po_number: string
+          project_id: string
+          sent_at: string | null
+          status: string
+          supplier: string
+          supplier_gstin: string | null
+          vendor_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          phase_id?: string | null
+          po_number?: string
+          project_id: string
+          sent_at?: string | null
+          status?: string
+          supplier: string
+          supplier_gstin?: string | null
+          vendor_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          phase_id?: string | null
+          po_number?: string
+          project_id?: string
+          sent_at?: string | null
+          status?: string
+          supplier?: string
+          supplier_gstin?: string | null
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      razorpay_webhook_events: {
+        Row: {
+          event: string
+          event_id: string
+          received_at: string
+        }
+        Insert: {
+          event: string
+          event_id: string
+          received_at?: string
+        }
+        Update: {
+          event?: string
+          event_id?: string
+          received_at?: string
+        }
+        Relationships: []
+      }
+      renovations: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          project_id: string | null
+          requirement: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          project_id?: string | null
+          requirement: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          project_id?: string | null
+          requirement?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "renovations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "renovations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roles: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          permissions: string[]
+          role_name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          permissions?: string[]
+          role_name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          permissions?: string[]
+          role_name?: string
+        }
+        Relationships: []
+      }
+      safety_corrective_actions: {
+        Row: {
+          assigned_to: string | null
+          closed_at: string | null
+          closed_by: string | null
+          closed_by_name: string | null
+          created_at: string
+          description: string
+          due_date: string | null
+          id: string
+          incident_id: string
+          status: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_name?: string | null
+          created_at?: string
+          description: string
+          due_date?: string | null
+          id?: string
+          incident_id: string
+          status?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_name?: string | null
+          created_at?: string
+          description?: string
+          due_date?: string | null
+          id?: string
+          incident_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "safety_corrective_actions_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "safety_corrective_actions_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "safety_incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      safety_incidents: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          incident_date: string
+          incident_type: string
+          location: string | null
+          people_involved: string[]
+          project_id: string
+          reported_by: string | null
+          reported_by_name: string | null
+          root_cause: string | null
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          incident_date: string
+          incident_type: string
+          location?: string | null
+          people_involved?: string[]
+          project_id: string
+          reported_by?: string | null
+          reported_by_name?: string | null
+          root_cause?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          incident_date?: string
+          incident_type?: string
+          location?: string | null
+          people_involved?: string[]
+          project_id?: string
+          reported_by?: string | null
+          reported_by_name?: string | null
+          root_cause?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "safety_incidents_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_baseline_phases: {
+        Row: {
+          baseline_id: string
+          end_date: string
+          id: string
+          name: string
+          phase_id: string | null
+          start_date: string
+        }
+        Insert: {
+          baseline_id: string
+          end_date: string
+          id?: string
+          name: string
+          phase_id?: string | null
+          start_date: string
+        }
+        Update: {
+          baseline_id?: string
+          end_date?: string
+          id?: string
+          name?: string
+          phase_id?: string | null
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_baseline_phases_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "schedule_baselines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_baseline_phases_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_baselines: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          project_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          project_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_baselines_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      site_log_manpower: {
+        Row: {
+          headcount: number
+          id: string
+          site_log_id: string
+          trade: string
+        }
+        Insert: {
+          headcount: number
+          id?: string
+          site_log_id: string
+          trade: string
+        }
+        Update: {
+          headcount?: number
+          id?: string
+          site_log_id?: string
+          trade?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "site_log_manpower_site_log_id_fkey"
+            columns: ["site_log_id"]
+            isOneToOne: false
+            referencedRelation: "site_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      site_logs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          equipment: string[]
+          id: string
+          issues: string | null
+          log_date: string
+          project_id: string
+          signed_off_at: string | null
+          signed_off_by: string | null
+          signed_off_name: string | null
+          temperature_c: number | null
+          updated_at: string
+          weather: string | null
+          work_done: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          equipment?: string[]
+          id?: string
+          issues?: string | null
+          log_date: string
+          project_id: string
+          signed_off_at?: string | null
+          signed_off_by?: string | null
+          signed_off_name?: string | null
+          temperature_c?: number | null
+          updated_at?: string
+          weather?: string | null
+          work_done: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          equipment?: string[]
+          id?: string
+          issues?: string | null
+          log_date?: string
+          project_id?: string
+          signed_off_at?: string | null
+          signed_off_by?: string | null
+          signed_off_name?: string | null
+          temperature_c?: number | null
+          updated_at?: string
+          weather?: string | null
+          work_done?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "site_logs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      snag_photos: {
+        Row: {
+          created_at: string
+          file_path: string
+          id: string
+          kind: string
+          photo_url: string
+          snag_id: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          file_path: string
+          id?: string
+          kind: string
+          photo_url: string
+          snag_id: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          file_path?: string
+          id?: string
+          kind?: string
+          photo_url?: string
+          snag_id?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "snag_photos_snag_id_fkey"
+            columns: ["snag_id"]
+            isOneToOne: false
+            referencedRelation: "snags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      snags: {
+        Row: {
+          assigned_to: string | null
+          closed_at: string | null
+          closed_by: string | null
+          closed_by_name: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          due_date: string | null
+          id: string
+          location: string | null
+          phase_id: string | null
+          project_id: string
+          severity: string
+          snag_number: string
+          status: string
+          title: string
+          trade: string | null
+        }
+        Insert: {
+          assigned_to?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          location?: string | null
+          phase_id?: string | null
+          project_id: string
+          severity?: string
+          snag_number?: string
+          status?: string
+          title: string
+          trade?: string | null
+        }
+        Update: {
+          assigned_to?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          location?: string | null
+          phase_id?: string | null
+          project_id?: string
+          severity?: string
+          snag_number?: string
+          status?: string
+          title?: string
+          trade?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "snags_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "snags_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "snags_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscription_orders: {
+        Row: {
+          amount: number
+          change: string
+          created_at: string
+          credit: number
+          end_date: string
+          id: string
+          paid_at: string | null
+          plan_id: string
+          razorpay_order_id: string | null
+          razorpay_payment_id: string | null
+          replaces_subscription_id: string | null
+          start_date: string
+          status: string
+          subscription_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          change: string
+          created_at?: string
+          credit?: number
+          end_date: string
+          id?: string
+          paid_at?: string | null
+          plan_id: string
+          razorpay_order_id?: string | null
+          razorpay_payment_id?: string | null
+          replaces_subscription_id?: string | null
+          start_date: string
+          status?: string
+          subscription_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          change?: string
+          created_at?: string
+          credit?: number
+          end_date?: string
+          id?: string
+          paid_at?: string | null
+          plan_id?: string
+          razorpay_order_id?: string | null
+          razorpay_payment_id?: string | null
+          replaces_subscription_id?: string | null
+          start_date?: string
+          status?: string
+          subscription_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscription_orders_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_orders_replaces_subscription_id_fkey"
+            columns: ["replaces_subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_orders_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscriptions: {
+        Row: {
+          amount_paid: number
+          created_at: string
+          credit_applied: number
+          end_date: string
+          grace_notice_sent_at: string | null
+          id: string
+          plan_id: string
+          razorpay_order_id: string | null
+          razorpay_payment_id: string | null
+          reminder_sent_at: string | null
+          start_date: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          amount_paid?: number
+          created_at?: string
+          credit_applied?: number
+          end_date: string
+          grace_notice_sent_at?: string | null
+          id?: string
+          plan_id: string
+          razorpay_order_id?: string | null
+          razorpay_payment_id?: string | null
+          reminder_sent_at?: string | null
+          start_date: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          amount_paid?: number
+          created_at?: string
+          credit_applied?: number
+          end_date?: string
+          grace_notice_sent_at?: string | null
+          id?: string
+          plan_id?: string
+          razorpay_order_id?: string | null
+          razorpay_payment_id?: string | null
+          reminder_sent_at?: string | null
+          start_date?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          assigned_to: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          due_date: string | null
+          id: string
+          name: string
+          phase_id: string
+          priority: string
+          project_id: string
+          status: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          name: string
+          phase_id: string
+          priority?: string
+          project_id: string
+          status?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          name?: string
+          phase_id?: string
+          priority?: string
+          project_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      token_orders: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          pack_id: string
+          paid_at: string | null
+          razorpay_order_id: string
+          razorpay_payment_id: string | null
+          status: string
+          tokens: number
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          pack_id: string
+          paid_at?: string | null
+          razorpay_order_id: string
+          razorpay_payment_id?: string | null
+          status?: string
+          tokens: number
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          pack_id?: string
+          paid_at?: string | null
+          razorpay_order_id?: string
+          razorpay_payment_id?: string | null
+          status?: string
+          tokens?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "token_orders_pack_id_fkey"
+            columns: ["pack_id"]
+            isOneToOne: false
+            referencedRelation: "token_packs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      token_packs: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          name: string
+          price: number
+          tokens: number
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          name: string
+          price: number
+          tokens: number
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          name?: string
+          price?: number
+          tokens?: number
+        }
+        Relationships: []
+      }
+      token_transactions: {
+        Row: {
+          balance_after: number
+          bid_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          kind: string
+          token_order_id: string | null
+          tokens: number
+          user_id: string
+        }
+        Insert: {
+          balance_after: number
+          bid_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          kind: string
+          token_order_id?: string | null
+          tokens: number
+          user_id: string
+        }
+        Update: {
+          balance_after?: number
+          bid_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          kind?: string
+          token_order_id?: string | null
+          tokens?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "token_transactions_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: false
+            referencedRelation: "bids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "token_transactions_token_order_id_fkey"
+            columns: ["token_order_id"]
+            isOneToOne: false
+            referencedRelation: "token_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      token_wallets: {
+        Row: {
+          balance: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          balance?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          balance?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      toolbox_talk_attendees: {
+        Row: {
+          id: string
+          name: string
+          talk_id: string
+          worker_id: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          talk_id: string
+          worker_id?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          talk_id?: string
+          worker_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "toolbox_talk_attendees_talk_id_fkey"
+            columns: ["talk_id"]
+            isOneToOne: false
+            referencedRelation: "toolbox_talks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "toolbox_talk_attendees_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "labour_workers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      toolbox_talks: {
+        Row: {
+          conducted_by: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          project_id: string
+          talk_date: string
+          topic: string
+        }
+        Insert: {
+          conducted_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          project_id: string
+          talk_date: string
+          topic: string
+        }
+        Update: {
+          conducted_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          project_id?: string
+          talk_date?: string
+          topic?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "toolbox_talks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          active: boolean
+          auth_user_id: string | null
+          created_at: string
+          created_by: string | null
+          email: string
+          id: string
+          name: string
+          phone: string | null
+          project_id: string | null
+          role_id: string | null
+          status: string
+        }
+        Insert: {
+          active?: boolean
+          auth_user_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          email: string
+          id?: string
+          name: string
+          phone?: string | null
+          project_id?: string | null
+          role_id?: string | null
+          status?: string
+        }
+        Update: {
+          active?: boolean
+          auth_user_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          id?: string
+          name?: string
+          phone?: string | null
+          project_id?: string | null
+          role_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "users_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "users_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendors: {
+        Row: {
+          active: boolean
+          address: string | null
+          bank_account_name: string | null
+          bank_account_number: string | null
+          bank_ifsc: string | null
+          categories: string[]
+          contact_person: string | null
+          created_at: string
+          email: string | null
+          gstin: string | null
+          id: string
+          name: string
+          owner_id: string
+          phone: string | null
+          upi_id: string | null
+        }
+        Insert: {
+          active?: boolean
+          address?: string | null
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_ifsc?: string | null
+          categories?: string[]
+          contact_person?: string | null
+          created_at?: string
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          name: string
+          owner_id?: string
+          phone?: string | null
+          upi_id?: string | null
+        }
+        Update: {
+          active?: boolean
+          address?: string | null
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_ifsc?: string | null
+          categories?: string[]
+          contact_person?: string | null
+          created_at?: string
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          name?: string
+          owner_id?: string
+          phone?: string | null
+          upi_id?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      budget_variance: {
+        Row: {
+          budget_line_id: string | null
+          budgeted: number | null
+          category: string | null
+          committed: number | null
+          percent_consumed: number | null
+          phase_id: string | null
+          project_id: string | null
+          remaining: number | null
+          spent: number | null
+          warn_at_percent: number | null
+        }
+        Relationships: []
+      }
+      schedule_variance: {
+        Row: {
+          baseline_end: string | null
+          baseline_id: string | null
+          baseline_start: string | null
+          current_end: string | null
+          current_start: string | null
+          duration_change_days: number | null
+          end_slip_days: number | null
+          phase_id: string | null
+          phase_name: string | null
+          project_id: string | null
+          start_slip_days: number | null
+        }
+        Relationships: []
+      }
+      vendor_balances: {
+        Row: {
+          billed: number | null
+          outstanding: number | null
+          paid: number | null
+          vendor_id: string | null
+        }
+        Relationships: []
+      }
+      vendor_ledger: {
+        Row: {
+          billed: number | null
+          date: string | null
+          description: string | null
+          entry_type: string | null
+          paid: number | null
+          project_id: string | null
+          source_id: string | null
+          vendor_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      account_owner_id: {
+        Args: never
+        Returns: string
+      }
+      account_plan: {
+        Args: { p_owner_id: string }
+        Returns: {
+          created_at: string
+          description: string | null
+          duration_days: number
+          features: string[]
+          grace_days: number
+          id: string
+          max_projects: number | null
+          max_storage_mb: number | null
+          max_users: number | null
+          name: string
+          price: number
+        }
+      }
+      account_usage: {
+        Args: { p_owner_id: string }
+        Returns: {
+          projects: number
+          storage_bytes: number
+          users: number
+        }[]
+      }
+      activate_subscription_order: {
+        Args: { p_order_id: string; p_payment_id: string }
+        Returns: string
+      }
+      add_share_comment: {
+        Args: { p_author_name: string; p_comment: string; p_share_id: string }
+        Returns: Json
+      }
+      attach_inspection_report: {
+        Args: { p_document_id: string; p_inspection_id: string }
+        Returns: undefined
+      }
+      bid_token_cost: {
+        Args: never
+        Returns: number
+      }
+      book_invoice_payment: {
+        Args: {
+          p_invoice_id: string
+          p_paid_on: string
+          p_payment_method: string
+          p_created_by: string
+        }
+        Returns: string
+      }
+      can_view_bid: {
+        Args: { p_bid_id: string }
+        Returns: boolean
+      }
+      capture_schedule_baseline: {
+        Args: { p_name: string; p_project_id: string }
+        Returns: string
+      }
+      close_bid_with_refund: {
+        Args: { p_bid_id: string; p_status: string }
+        Returns: undefined
+      }
+      coarse_user_agent: {
+        Args: { p_user_agent: string }
+        Returns: string
+      }
+      complete_inspection: {
+        Args: { p_inspection_id: string }
+        Returns: undefined
+      }
+      create_inspection: {
+        Args: {
+          p_phase_id: string
+          p_scheduled_date: string
+          p_template_id: string
+        }
+        Returns: string
+      }
+      create_payroll_batch: {
+        Args: { p_phase_id: string; p_week_start: string }
+        Returns: string
+      }
+      create_project_share: {
+        Args: {
+          p_expires_at: string
+          p_password?: string
+          p_project_id: string
+          p_share_options: Json
+          p_share_type: string
+        }
+        Returns: string
+      }
+      credit_token_order: {
+        Args: { p_order_id: string; p_payment_id: string }
+        Returns: number
+      }
+      current_subscription: {
+        Args: { p_owner_id: string }
+        Returns: {
+          amount_paid: number
+          created_at: string
+          credit_applied: number
+          end_date: string
+          grace_notice_sent_at: string | null
+          id: string
+          plan_id: string
+          razorpay_order_id: string | null
+          razorpay_payment_id: string | null
+          reminder_sent_at: string | null
+          start_date: string
+          status: string
+          user_id: string
+        }
+      }
+      financial_year: {
+        Args: { p_date: string }
+        Returns: string
+      }
+      has_project_role: {
+        Args: { p_project_id: string; p_role_id: string }
+        Returns: boolean
+      }
+      is_project_member: {
+        Args: { p_project_id: string }
+        Returns: boolean
+      }
+      is_project_owner: {
+        Args: { p_project_id: string }
+        Returns: boolean
+      }
+      issue_invoice: {
+        Args: { p_invoice_id: string }
+        Returns: string
+      }
+      log_share_access: {
+        Args: {
+          p_event: string
+          p_sections?: string[]
+          p_share_id: string
+          p_user_agent?: string
+        }
+        Returns: undefined
+      }
+      mark_invoice_paid: {
+        Args: {
+          p_invoice_id: string
+          p_paid_on: string
+          p_payment_method: string
+        }
+        Returns: string
+      }
+      next_expense_approver: {
+        Args: { p_amount: number; p_level: number; p_project_id: string }
+        Returns: string
+      }
+      pay_payroll_batch: {
+        Args: {
+          p_batch_id: string
+          p_paid_on: string
+          p_payment_method: string
+        }
+        Returns: string
+      }
+      place_bid: {
+        Args: {
+          p_exclusions: string[]
+          p_inclusions: string[]
+          p_line_items: Json
+          p_proposal: string
+          p_renovation_id: string
+          p_valid_until: string
+        }
+        Returns: string
+      }
+      plan_usage: {
+        Args: never
+        Returns: {
+          end_date: string
+          grace_ends_at: string
+          max_projects: number
+          max_storage_mb: number
+          max_users: number
+          plan_id: string
+          plan_name: string
+          projects_used: number
+          storage_used_bytes: number
+          subscription_id: string
+          subscription_status: string
+          users_used: number
+        }[]
+      }
+      post_token_transaction: {
+        Args: {
+          p_bid_id: string
+          p_description: string
+          p_kind: string
+          p_token_order_id: string
+          p_tokens: number
+          p_user_id: string
+        }
+        Returns: number
+      }
+      quote_plan_change: {
+        Args: { p_plan_name: string }
+        Returns: {
+          amount_due: number
+          change: string
+          credit: number
+          end_date: string
+          plan_id: string
+          plan_name: string
+          price: number
+          replaces_subscription_id: string
+          start_date: string
+        }[]
+      }
+      receive_purchase_order: {
+        Args: {
+          p_date: string
+          p_items: Json
+          p_phase_id?: string
+          p_po_id: string
+        }
+        Returns: string
+      }
+      record_material_movement: {
+        Args: {
+          p_date: string
+          p_material_id: string
+          p_movement_type: string
+          p_notes?: string
+          p_payment_method?: string
+          p_phase_id?: string
+          p_quantity: number
+          p_unit_cost?: number
+        }
+        Returns: string
+      }
+      record_payment_link_payment: {
+        Args: {
+          p_razorpay_link_id: string
+          p_payment_id: string
+          p_amount_paid: number
+          p_payment_method: string
+          p_paid_at: string
+        }
+        Returns: string
+      }
+      record_share_view: {
+        Args: {
+          p_sections?: string[]
+          p_share_id: string
+          p_user_agent?: string
+        }
+        Returns: undefined
+      }
+      refresh_subscription_statuses: {
+        Args: never
+        Returns: undefined
+      }
+      respond_to_bid: {
+        Args: { p_bid_id: string; p_decision: string }
+        Returns: string
+      }
+      respond_to_change_order: {
+        Args: {
+          p_approve: boolean
+          p_change_order_id: string
+          p_name: string
+          p_note?: string
+          p_share_id: string
+        }
+        Returns: undefined
+      }
+      review_expense: {
+        Args: { p_comment?: string; p_decision: string; p_expense_id: string }
+        Returns: string
+      }
+      save_inspection_template: {
+        Args: {
+          p_description: string
+          p_items: string[]
+          p_name: string
+          p_template_id: string
+        }
+        Returns: string
+      }
+      save_site_log: {
+        Args: {
+          p_equipment: string[]
+          p_issues: string
+          p_log_date: string
+          p_manpower: Json
+          p_project_id: string
+          p_temperature_c: number | null
+          p_weather: string
+          p_work_done: string
+        }
+        Returns: string
+      }
+      save_toolbox_talk: {
+        Args: {
+          p_attendees: Json
+          p_conducted_by: string
+          p_notes: string
+          p_project_id: string
+          p_talk_date: string
+          p_talk_id: string
+          p_topic: string
+        }
+        Returns: string
+      }
+      set_change_order_status: {
+        Args: { p_change_order_id: string; p_status: string }
+        Returns: undefined
+      }
+      set_current_document_revision: {
+        Args: { p_document_id: string }
+        Returns: undefined
+      }
+      share_token_valid: {
+        Args: { p_share_id: string }
+        Returns: boolean
+      }
+      sign_off_site_log: {
+        Args: { p_log_id: string }
+        Returns: undefined
+      }
+      subscriptions_due_for_reminder: {
+        Args: never
+        Returns: {
+          email: string
+          end_date: string
+          full_name: string
+          grace_ends_at: string
+          plan_name: string
+          reminder: string
+          subscription_id: string
+        }[]
+      }
+      unlock_project_share: {
+        Args: { p_password: string; p_share_id: string }
+        Returns: {
+          attempts_remaining: number
+          expires_at: string
+          status: string
+          token: string
+        }[]
+      }
+      withdraw_bid: {
+        Args: { p_bid_id: string }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DefaultSchema = Database["public"]
+
+export type Tables<TableName extends keyof DefaultSchema["Tables"]> =
+  DefaultSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof DefaultSchema["Tables"]> =
+  DefaultSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof DefaultSchema["Tables"]> =
+  DefaultSchema["Tables"][TableName]["Update"]
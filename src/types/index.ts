@@ -8,68 +8,823 @@ export interface User {
 
 export type UserRole = 'admin' | 'project_manager' | 'site_engineer' | 'accountant' | 'client';
 
+export type ProjectStatus = 'pending' | 'active' | 'completed';
+
 export interface Project {
   id: string;
   name: string;
-  type: string;
-  location: string;
-  start_date: string;
-  end_date: string;
-  manager_id: string;
-  budget: number;
-  status: 'planning' | 'active' | 'completed' | 'on_hold';
+  description: string | null;
+  location: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  budget: number | null;
+  status: ProjectStatus;
+  created_by: string | null;
   created_at: string;
 }
 
+export type PhaseStatus = 'Not Started' | 'In Progress' | 'Completed';
+
 export interface ProjectPhase {
   id: string;
   project_id: string;
   name: string;
-  description: string;
   start_date: string;
   end_date: string;
-  status: 'not_started' | 'in_progress' | 'completed';
+  status: PhaseStatus;
+  estimated_cost: number | null;
+  contractor_name: string | null;
   progress: number;
+  created_at: string;
 }
 
+// Finish-to-start: the successor starts at least lag_days after the predecessor ends
+export interface PhaseDependency {
+  id: string;
+  project_id: string;
+  predecessor_id: string;
+  successor_id: string;
+  lag_days: number;
+  created_at: string;
+}
+
+export type TaskStatus = 'todo' | 'in_progress' | 'completed';
+
+export type TaskPriority = 'low' | 'medium' | 'high';
+
 export interface Task {
   id: string;
   phase_id: string;
+  project_id: string;
   name: string;
-  description: string;
-  assigned_to: string;
-  due_date: string;
-  status: 'todo' | 'in_progress' | 'completed';
-  priority: 'low' | 'medium' | 'high';
+  description: string | null;
+  assigned_to: string | null;
+  due_date: string | null;
+  status: TaskStatus;
+  priority: TaskPriority;
+  completed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A team member invited by an admin (a row of `users`, not an auth user)
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  role_id: string | null;
+  project_id: string | null;
+  auth_user_id: string | null;
+  status: string;
+  active: boolean;
 }
 
+export type TransactionType = 'expense' | 'income';
+
+export type ExpenseApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+// A row of the `expenses` table, which holds both expense and income transactions
 export interface Expense {
   id: string;
   project_id: string;
+  phase_id: string;
+  type: TransactionType;
   category: string;
-  description: string;
+  custom_category: string | null;
   amount: number;
+  gst_amount: number;
   date: string;
-  vendor: string;
-  invoice_url?: string;
+  payment_method: string;
+  bill_path: string | null;
+  source: string | null;
+  reference_id: string | null;
+  description: string | null;
+  tags: string | null;
+  vendor_id: string | null;
+  // Kept equal to approval_status === 'approved'; totals count approved rows only
   approved: boolean;
+  approval_status: ExpenseApprovalStatus;
+  // Role whose approval the expense is waiting for
+  approver_role_id: string | null;
+  // Thresholds already approved
+  approval_level: number;
+  created_by: string | null;
+  created_at: string;
 }
 
 export interface Material {
   id: string;
+  project_id: string;
   name: string;
-  unit: string;
-  cost_per_unit: number;
-  vendor_id: string;
+  description: string | null;
+  category: string | null;
+  unit: string | null;
+  qty_required: number;
+  unit_cost: number;
+  // Maintained from material_movements: on hand, and net quantity issued to phases
   stock_quantity: number;
+  qty_issued: number;
+  supplier: string | null;
+  vendor_id: string | null;
+  hsn: string | null;
+  specifications: string | null;
+  status: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A supplier or contractor in the admin's vendor master, shared with their team
+export interface Vendor {
+  id: string;
+  owner_id: string;
+  name: string;
+  gstin: string | null;
+  contact_person: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  bank_account_name: string | null;
+  bank_account_number: string | null;
+  bank_ifsc: string | null;
+  upi_id: string | null;
+  categories: string[];
+  active: boolean;
+  created_at: string;
+}
+
+export type VendorLedgerEntryType = 'bill' | 'payment';
+
+export interface VendorLedgerEntry {
+  vendor_id: string;
+  project_id: string;
+  date: string;
+  entry_type: VendorLedgerEntryType;
+  source_id: string;
+  description: string;
+  billed: number;
+  paid: number;
+}
+
+export interface VendorBalance {
+  vendor_id: string;
+  billed: number;
+  paid: number;
+  outstanding: number;
+}
+
+export type MaterialMovementType = 'received' | 'issued' | 'returned' | 'wasted';
+
+export interface MaterialMovement {
+  id: string;
+  material_id: string;
+  project_id: string;
+  phase_id: string | null;
+  movement_type: MaterialMovementType;
+  quantity: number;
+  unit_cost: number | null;
+  date: string;
+  notes: string | null;
+  expense_id: string | null;
+  purchase_order_item_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'closed';
+
+export interface PurchaseOrder {
+  id: string;
+  project_id: string;
+  po_number: string;
+  supplier: string;
+  supplier_gstin: string | null;
+  vendor_id: string | null;
+  phase_id: string | null;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_date: string | null;
+  notes: string | null;
+  sent_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  material_id: string;
+  description: string;
+  hsn: string | null;
+  unit: string | null;
+  quantity: number;
+  unit_cost: number;
+  gst_rate: number;
+  received_quantity: number;
+  created_at: string;
+}
+
+export type ShareType = 'public' | 'private';
+
+export interface ShareOptions {
+  expenseDetails: boolean;
+  phaseDetails: boolean;
+  materialsDetails: boolean;
+  incomeDetails: boolean;
+  phasePhotos: boolean;
+  teamMembers: boolean;
+  allowComments?: boolean;
+  changeOrders?: boolean;
+  documents?: boolean;
+}
+
+export interface ShareComment {
+  id: string;
+  comment: string;
+  author_name: string;
+  created_at: string;
+}
+
+// A row of `project_shares`; the password hash is never readable by clients
+export interface ProjectShare {
+  id: string;
+  project_id: string;
+  created_by: string | null;
+  share_type: ShareType;
+  expires_at: string;
+  share_options: ShareOptions;
+  is_active: boolean;
+  view_count: number;
+  comments: ShareComment[];
+  failed_attempts: number;
+  locked_at: string | null;
+  last_accessed_at: string | null;
+  created_at: string;
+}
+
+export type ShareAccessEvent = 'view' | 'unlock_success' | 'unlock_failed' | 'locked';
+
+export interface ShareAccessLog {
+  id: string;
+  share_id: string;
+  event: ShareAccessEvent;
+  user_agent: string | null;
+  sections: string[];
+  created_at: string;
+}
+
+export interface ShareToken {
+  token: string;
+  expires_at: string;
+}
+
+export type PayrollStatus = 'pending' | 'paid';
+
+export interface LabourWorker {
+  id: string;
+  project_id: string;
+  name: string;
+  trade: string | null;
+  phone: string | null;
+  rate_per_hour: number;
+  active: boolean;
+  created_at: string;
 }
 
+// One worker's day on the muster roll (a row of `labour_attendance`)
 export interface Labour {
   id: string;
-  worker_name: string;
   project_id: string;
+  phase_id: string;
+  worker_id: string;
+  date: string;
   hours_worked: number;
   rate_per_hour: number;
-  date: string;
-  status: 'pending' | 'paid';
+  status: PayrollStatus;
+  payroll_batch_id: string | null;
+  created_at: string;
+}
+
+// A week of a phase's attendance, paid together as one "Labour" expense
+export interface PayrollBatch {
+  id: string;
+  project_id: string;
+  phase_id: string;
+  week_start: string;
+  week_end: string;
+  total_hours: number;
+  total_amount: number;
+  status: PayrollStatus;
+  payment_method: string | null;
+  paid_at: string | null;
+  expense_id: string | null;
+  created_at: string;
+}
+
+// Budget for one expense category of a phase
+export interface BudgetLine {
+  id: string;
+  project_id: string;
+  phase_id: string;
+  category: string;
+  amount: number;
+  warn_at_percent: number;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A budget line against what is committed (unpaid payroll, open POs) and spent
+export interface BudgetVariance {
+  budget_line_id: string;
+  project_id: string;
+  phase_id: string;
+  category: string;
+  budgeted: number;
+  warn_at_percent: number;
+  committed: number;
+  spent: number;
+  remaining: number;
+  percent_consumed: number | null;
+}
+
+export interface ScheduleBaseline {
+  id: string;
+  project_id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A phase of a baseline against its current dates; slips are in days, positive
+// when later than planned. Baseline dates are null for phases added since, current
+// dates for phases deleted since.
+export interface ScheduleVariance {
+  baseline_id: string;
+  project_id: string;
+  phase_id: string | null;
+  phase_name: string;
+  baseline_start: string | null;
+  baseline_end: string | null;
+  current_start: string | null;
+  current_end: string | null;
+  start_slip_days: number | null;
+  end_slip_days: number | null;
+  duration_change_days: number | null;
+}
+
+export type ChangeOrderStatus = 'draft' | 'sent' | 'approved' | 'rejected';
+
+// A priced scope change; once the client approves it, its cost is added to the
+// project budget and its schedule impact to the linked phase's end date
+export interface ChangeOrder {
+  id: string;
+  project_id: string;
+  co_number: string;
+  phase_id: string | null;
+  title: string;
+  description: string | null;
+  cost_impact: number;
+  schedule_impact_days: number;
+  status: ChangeOrderStatus;
+  sent_at: string | null;
+  responded_at: string | null;
+  responded_by_name: string | null;
+  response_note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type SnagSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type SnagStatus = 'open' | 'in_progress' | 'fixed' | 'closed';
+
+// A defect on the punch list. Closing needs an "after" photo and stamps the closer.
+export interface Snag {
+  id: string;
+  project_id: string;
+  phase_id: string | null;
+  snag_number: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  trade: string | null;
+  severity: SnagSeverity;
+  assigned_to: string | null;
+  due_date: string | null;
+  status: SnagStatus;
+  closed_by: string | null;
+  closed_by_name: string | null;
+  closed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface SnagPhoto {
+  id: string;
+  snag_id: string;
+  kind: 'before' | 'after';
+  photo_url: string;
+  file_path: string;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+// A reusable checklist, shared by everyone on the account
+export interface InspectionTemplate {
+  id: string;
+  owner_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+}
+
+export interface InspectionTemplateItem {
+  id: string;
+  template_id: string;
+  position: number;
+  label: string;
+}
+
+export type InspectionStatus = 'in_progress' | 'completed';
+export type InspectionResult = 'pass' | 'fail' | 'na';
+
+// A checklist filled in on a phase; signatures are PNG data URLs
+export interface Inspection {
+  id: string;
+  project_id: string;
+  phase_id: string;
+  template_id: string | null;
+  title: string;
+  scheduled_date: string | null;
+  calendar_event_id: string | null;
+  status: InspectionStatus;
+  notes: string | null;
+  inspector_name: string | null;
+  inspector_signature: string | null;
+  contractor_name: string | null;
+  contractor_signature: string | null;
+  completed_by: string | null;
+  completed_by_name: string | null;
+  completed_at: string | null;
+  document_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A failed item gets a snag when the inspection is completed
+export interface InspectionItem {
+  id: string;
+  inspection_id: string;
+  position: number;
+  label: string;
+  result: InspectionResult | null;
+  note: string | null;
+  snag_id: string | null;
+}
+
+export interface InspectionPhoto {
+  id: string;
+  inspection_item_id: string;
+  photo_url: string;
+  file_path: string;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+// Revisions of one document share a group; exactly one revision is current
+export interface ProjectDocument {
+  id: string;
+  name: string;
+  category: string | null;
+  project: string | null;
+  project_id: string | null;
+  uploaded_by: string | null;
+  upload_date: string;
+  size: string | null;
+  size_bytes: number;
+  type: string | null;
+  status: string;
+  file_path: string | null;
+  tags: string[] | null;
+  document_group_id: string;
+  revision: number;
+  is_current: boolean;
+  change_note: string | null;
+  superseded_at: string | null;
+}
+
+export type SafetyIncidentType = 'near_miss' | 'injury' | 'property_damage';
+
+export interface SafetyIncident {
+  id: string;
+  project_id: string;
+  incident_type: SafetyIncidentType;
+  incident_date: string;
+  location: string | null;
+  description: string;
+  people_involved: string[];
+  root_cause: string | null;
+  reported_by: string | null;
+  reported_by_name: string | null;
+  created_at: string;
+}
+
+// Follow-up of an incident; closing stamps who closed it
+export interface SafetyCorrectiveAction {
+  id: string;
+  incident_id: string;
+  description: string;
+  assigned_to: string | null;
+  due_date: string | null;
+  status: 'open' | 'closed';
+  closed_by: string | null;
+  closed_by_name: string | null;
+  closed_at: string | null;
+  created_at: string;
+}
+
+export interface ToolboxTalk {
+  id: string;
+  project_id: string;
+  talk_date: string;
+  topic: string;
+  conducted_by: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A labour worker of the project, or someone else recorded by name
+export interface ToolboxTalkAttendee {
+  id: string;
+  talk_id: string;
+  worker_id: string | null;
+  name: string;
+}
+
+// A project's daily site report; locked once signed off
+export interface SiteLog {
+  id: string;
+  project_id: string;
+  log_date: string;
+  weather: string | null;
+  temperature_c: number | null;
+  equipment: string[];
+  work_done: string;
+  issues: string | null;
+  signed_off_by: string | null;
+  signed_off_name: string | null;
+  signed_off_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Workers of one trade on site on the day of a log
+export interface SiteLogManpower {
+  id: string;
+  site_log_id: string;
+  trade: string;
+  headcount: number;
+}
+
+// From `min_amount` up, expenses of the project need approval by this role
+export interface ExpenseApprovalThreshold {
+  id: string;
+  project_id: string;
+  min_amount: number;
+  approver_role_id: string;
+  created_at: string;
+}
+
+export interface ExpenseApproval {
+  id: string;
+  expense_id: string;
+  project_id: string;
+  role_id: string | null;
+  decision: Exclude<ExpenseApprovalStatus, 'pending'>;
+  comment: string | null;
+  decided_by: string | null;
+  decided_at: string;
+}
+
+export type InvoiceDocType = 'invoice' | 'credit_note';
+
+export type InvoiceStatus = 'draft' | 'issued' | 'paid' | 'cancelled';
+
+// A client invoice for a project milestone, or a credit note against one. Number,
+// supplier GSTIN and totals are fixed when the draft is issued.
+export interface Invoice {
+  id: string;
+  project_id: string;
+  phase_id: string;
+  doc_type: InvoiceDocType;
+  original_invoice_id: string | null;
+  status: InvoiceStatus;
+  owner_id: string | null;
+  invoice_number: string | null;
+  financial_year: string | null;
+  invoice_date: string;
+  due_date: string | null;
+  client_name: string;
+  client_gstin: string | null;
+  client_address: string | null;
+  client_email: string | null;
+  client_phone: string | null;
+  // GST state code, e.g. '29'
+  place_of_supply: string;
+  supplier_gstin: string | null;
+  is_inter_state: boolean;
+  subtotal: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  notes: string | null;
+  issued_at: string | null;
+  paid_at: string | null;
+  payment_method: string | null;
+  // Income booked when the invoice was paid, or the negative income of a credit note
+  income_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface InvoiceItem {
+  id: string;
+  invoice_id: string;
+  description: string;
+  sac: string | null;
+  quantity: number;
+  rate: number;
+  gst_rate: number;
+  created_at: string;
+}
+
+export type PaymentLinkStatus = 'pending' | 'paid' | 'failed' | 'expired' | 'cancelled';
+
+// A Razorpay payment link; razorpay-webhook settles it and books the income
+export interface PaymentLink {
+  id: string;
+  project_id: string | null;
+  phase_id: string | null;
+  invoice_id: string | null;
+  business_name: string;
+  product_name: string;
+  amount: number;
+  quantity: number;
+  description: string | null;
+  gst_number: string | null;
+  gst_rate: number;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  razorpay_link_id: string;
+  razorpay_link_url: string;
+  razorpay_qr_code: string | null;
+  razorpay_payment_id: string | null;
+  status: 'active' | 'inactive';
+  payment_status: PaymentLinkStatus;
+  amount_paid: number | null;
+  paid_at: string | null;
+  income_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Limits left null are unlimited
+export interface Plan {
+  id: string;
+  name: string;
+  price: number;
+  description: string | null;
+  features: string[];
+  max_projects: number | null;
+  max_users: number | null;
+  max_storage_mb: number | null;
+  duration_days: number;
+  grace_days: number;
+  created_at: string;
+}
+
+export type SubscriptionStatus = 'scheduled' | 'active' | 'grace' | 'expired' | 'cancelled';
+
+export interface Subscription {
+  id: string;
+  user_id: string;
+  plan_id: string;
+  start_date: string;
+  end_date: string;
+  status: SubscriptionStatus;
+  amount_paid: number;
+  credit_applied: number;
+  razorpay_order_id: string | null;
+  razorpay_payment_id: string | null;
+  reminder_sent_at: string | null;
+  grace_notice_sent_at: string | null;
+  created_at: string;
+}
+
+// The signed-in account's plan and how much of it is used; plan_usage() in SQL
+export interface PlanUsage {
+  plan_id: string;
+  plan_name: string;
+  subscription_id: string | null;
+  subscription_status: 'active' | 'grace' | null;
+  end_date: string | null;
+  grace_ends_at: string | null;
+  max_projects: number | null;
+  projects_used: number;
+  max_users: number | null;
+  users_used: number;
+  max_storage_mb: number | null;
+  storage_used_bytes: number;
+}
+
+export type PlanChange = 'new' | 'renewal' | 'upgrade' | 'downgrade';
+
+// What buying a plan costs now, from quote_plan_change() in SQL
+export interface PlanQuote {
+  plan_id: string;
+  plan_name: string;
+  change: PlanChange;
+  price: number;
+  credit: number;
+  amount_due: number;
+  start_date: string;
+  end_date: string;
+  replaces_subscription_id: string | null;
+}
+
+// A client's renovation request on the bidding marketplace
+export interface Renovation {
+  id: string;
+  project_id: string | null;
+  requirement: string;
+  status: string;
+  created_by: string;
+  created_at: string;
+}
+
+export type BidStatus = 'active' | 'accepted' | 'rejected' | 'withdrawn';
+
+export interface Bid {
+  id: string;
+  renovation_id: string;
+  admin_id: string;
+  proposal: string;
+  tokens_used: number;
+  bid_status: BidStatus;
+  total_amount: number;
+  timeline_days: number;
+  inclusions: string[];
+  exclusions: string[];
+  valid_until: string | null;
+  responded_at: string | null;
+  created_at: string;
+  bid_line_items?: BidLineItem[];
+  bid_attachments?: BidAttachment[];
+}
+
+// One priced piece of work in a bid; becomes a phase when the bid is accepted
+export interface BidLineItem {
+  id: string;
+  bid_id: string;
+  position: number;
+  description: string;
+  amount: number;
+  duration_days: number;
+}
+
+export interface BidAttachment {
+  id: string;
+  bid_id: string;
+  name: string;
+  file_path: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+export interface TokenPack {
+  id: string;
+  name: string;
+  tokens: number;
+  price: number;
+}
+
+export type TokenTransactionKind = 'purchase' | 'bid' | 'refund' | 'adjustment';
+
+// One movement of a bidding wallet; tokens is negative when spent
+export interface TokenTransaction {
+  id: string;
+  user_id: string;
+  kind: TokenTransactionKind;
+  tokens: number;
+  balance_after: number;
+  bid_id: string | null;
+  token_order_id: string | null;
+  description: string | null;
+  created_at: string;
 }
@@ -7,6 +7,42 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Overridable so the function can run against a mock Razorpay server
+const razorpayApiBase = Deno.env.get('RAZORPAY_API_BASE') || 'https://api.razorpay.com'
+
+// Creates an order at Razorpay; amount in rupees
+async function createRazorpayOrder(amount: number, receipt: string, notes: Record<string, string>) {
+  const razorpayKeyId = Deno.env.get('RAZORPAY_KEY_ID')
+  const razorpayKeySecret = Deno.env.get('RAZORPAY_KEY_SECRET')
+
+  const response = await fetch(`${razorpayApiBase}/v1/orders`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Basic ${btoa(`${razorpayKeyId}:${razorpayKeySecret}`)}`
+    },
+    body: JSON.stringify({
+      amount: Math.round(amount * 100), // amount in paise
+      currency: 'INR',
+      receipt,
+      notes,
+    })
+  })
+
+  if (!response.ok) {
+    console.error('Razorpay API error:', await response.text())
+    return null
+  }
+
+  return await response.json()
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -14,17 +50,11 @@ serve(async (req) => {
   }
 
   try {
-    const { amount, currency, receipt, notes } = await req.json()
-
-    // Validate required fields
-    if (!amount || !currency) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Missing required fields' }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 400 
-        }
-      )
+    // Either a subscription plan or a pack of bidding tokens
+    const { plan_name, token_pack_id } = await req.json()
+
+    if (!plan_name && !token_pack_id) {
+      return respond({ success: false, error: 'Missing required fields' }, 400)
     }
 
     // Get Razorpay credentials from environment
@@ -32,62 +62,133 @@ serve(async (req) => {
     const razorpayKeySecret = Deno.env.get('RAZORPAY_KEY_SECRET')
 
     if (!razorpayKeyId || !razorpayKeySecret) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Razorpay credentials not configured' }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 500 
-        }
-      )
+      return respond({ success: false, error: 'Razorpay credentials not configured' }, 500)
     }
 
-    // Create Razorpay order
-    const orderData = {
-      amount: amount, // amount in paise
-      currency: currency,
-      receipt: receipt || `order_${Date.now()}`,
-      notes: notes || {}
+    // Act as the caller, so a plan quote credits their own current subscription
+    const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const { data: { user } } = await userClient.auth.getUser()
+    if (!user) {
+      return respond({ success: false, error: 'Not signed in' }, 401)
     }
 
-    const response = await fetch('https://api.razorpay.com/v1/orders', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${btoa(`${razorpayKeyId}:${razorpayKeySecret}`)}`
-      },
-      body: JSON.stringify(orderData)
-    })
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+    if (token_pack_id) {
+      const { data: pack } = await supabase
+        .from('token_packs')
+        .select('id, name, tokens, price')
+        .eq('id', token_pack_id)
+        .eq('active', true)
+        .maybeSingle()
+
+      if (!pack) {
+        return respond({ success: false, error: 'Token pack not found' }, 400)
+      }
+
+      const order = await createRazorpayOrder(Number(pack.price), `tokens_${Date.now()}`, {
+        token_pack: pack.name,
+        user_id: user.id,
+      })
+      if (!order) {
+        return respond({ success: false, error: 'Failed to create Razorpay order' }, 502)
+      }
 
-    if (!response.ok) {
-      const errorData = await response.text()
-      console.error('Razorpay API error:', errorData)
-      return new Response(
-        JSON.stringify({ success: false, error: 'Failed to create Razorpay order' }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 500 
-        }
-      )
+      const { error: insertError } = await supabase
+        .from('token_orders')
+        .insert({
+          user_id: user.id,
+          pack_id: pack.id,
+          tokens: pack.tokens,
+          amount: pack.price,
+          razorpay_order_id: order.id,
+        })
+
+      if (insertError) {
+        console.error('Error saving token order:', insertError)
+        return respond({ success: false, error: 'Failed to save order' }, 500)
+      }
+
+      return respond({
+        success: true,
+        pack,
+        order: { id: order.id, amount: order.amount, currency: order.currency, key_id: razorpayKeyId },
+      })
+    }
+
+    const { data: quotes, error: quoteError } = await userClient.rpc('quote_plan_change', { p_plan_name: plan_name })
+    if (quoteError) {
+      return respond({ success: false, error: quoteError.message }, quoteError.code === '42501' ? 403 : 400)
+    }
+    const quote = quotes[0]
+
+    const orderRow = {
+      user_id: user.id,
+      plan_id: quote.plan_id,
+      change: quote.change,
+      amount: quote.amount_due,
+      credit: quote.credit,
+      start_date: quote.start_date,
+      end_date: quote.end_date,
+      replaces_subscription_id: quote.replaces_subscription_id,
     }
 
-    const order = await response.json()
+    // Credit from the current plan covers the whole price: nothing to collect
+    if (Number(quote.amount_due) <= 0) {
+      const { data: subscriptionOrder, error: insertError } = await supabase
+        .from('subscription_orders')
+        .insert(orderRow)
+        .select('id')
+        .single()
 
-    return new Response(
-      JSON.stringify({ success: true, order }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
+      if (insertError) {
+        console.error('Error saving subscription order:', insertError)
+        return respond({ success: false, error: 'Failed to save order' }, 500)
       }
-    )
+
+      const { data: subscriptionId, error: activateError } = await supabase.rpc('activate_subscription_order', {
+        p_order_id: subscriptionOrder.id,
+        p_payment_id: null,
+      })
+
+      if (activateError) {
+        console.error('Error activating subscription:', activateError)
+        return respond({ success: false, error: 'Failed to activate subscription' }, 500)
+      }
+
+      return respond({ success: true, quote, order: null, subscription_id: subscriptionId })
+    }
+
+    const order = await createRazorpayOrder(Number(quote.amount_due), `sub_${Date.now()}`, {
+      plan: quote.plan_name,
+      change: quote.change,
+      user_id: user.id,
+    })
+    if (!order) {
+      return respond({ success: false, error: 'Failed to create Razorpay order' }, 502)
+    }
+
+    const { error: insertError } = await supabase
+      .from('subscription_orders')
+      .insert({ ...orderRow, razorpay_order_id: order.id })
+
+    if (insertError) {
+      console.error('Error saving subscription order:', insertError)
+      return respond({ success: false, error: 'Failed to save order' }, 500)
+    }
+
+    return respond({
+      success: true,
+      quote,
+      order: { id: order.id, amount: order.amount, currency: order.currency, key_id: razorpayKeyId },
+      subscription_id: null,
+    })
 
   } catch (error) {
     console.error('Error creating Razorpay order:', error)
-    return new Response(
-      JSON.stringify({ success: false, error: 'Internal server error' }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
-      }
-    )
+    return respond({ success: false, error: 'Internal server error' }, 500)
   }
-})
\ No newline at end of file
+})
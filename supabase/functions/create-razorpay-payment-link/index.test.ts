@@ -0,0 +1,195 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// The function runs on Deno: its std and esm.sh imports are replaced, and the
+// handler passed to serve() is called directly. Razorpay is a local server
+// reached through RAZORPAY_API_BASE.
+const mocks = vi.hoisted(() => ({
+  handler: null as ((req: Request) => Promise<Response>) | null,
+  createClient: vi.fn(),
+}))
+
+vi.mock('https://deno.land/std@0.168.0/http/server.ts', () => ({
+  serve: (handler: (req: Request) => Promise<Response>) => {
+    mocks.handler = handler
+  },
+}))
+
+vi.mock('https://esm.sh/@supabase/supabase-js@2', () => ({ createClient: mocks.createClient }))
+
+type Row = Record<string, unknown>
+
+interface RazorpayRequest {
+  path: string
+  authorization: string | undefined
+  body: Row
+}
+
+const razorpay = {
+  server: null as Server | null,
+  requests: [] as RazorpayRequest[],
+  status: 200,
+}
+
+const env: Record<string, string> = {
+  RAZORPAY_KEY_ID: 'rzp_test_key',
+  RAZORPAY_KEY_SECRET: 'rzp_test_secret',
+  SUPABASE_URL: 'http://localhost:54321',
+  SUPABASE_ANON_KEY: 'anon-key',
+  SUPABASE_SERVICE_ROLE_KEY: 'service-role-key',
+}
+
+const readBody = async (req: IncomingMessage) => {
+  let body = ''
+  for await (const chunk of req) body += chunk
+  return JSON.parse(body)
+}
+
+// The caller's client reads `tables` filtered by eq(); the service-role client
+// records the payment links it saves in `saved`
+function fakeSupabase(tables: Record<string, Row[]>) {
+  const saved: Row[] = []
+
+  const select = (rows: Row[]) => {
+    const chain = {
+      select: () => chain,
+      eq: (column: string, value: unknown) => select(rows.filter((row) => row[column] === value)),
+      maybeSingle: () => Promise.resolve({ data: rows[0] ?? null, error: null }),
+      then: (resolve: (value: { data: Row[]; error: null }) => void) => resolve({ data: rows, error: null }),
+    }
+    return chain
+  }
+
+  const caller = {
+    auth: { getUser: () => Promise.resolve({ data: { user: { id: 'owner' } } }) },
+    from: (table: string) => select(tables[table] ?? []),
+  }
+
+  const admin = {
+    from: () => ({
+      insert: (row: Row) => ({
+        select: () => ({
+          single: () => {
+            saved.push(row)
+            return Promise.resolve({ data: { id: 'link', ...row }, error: null })
+          },
+        }),
+      }),
+    }),
+  }
+
+  mocks.createClient.mockImplementation((_url: string, key: string) => (key === env.SUPABASE_SERVICE_ROLE_KEY ? admin : caller))
+  return { saved }
+}
+
+const request = (body: Row) =>
+  new Request('http://localhost/create-razorpay-payment-link', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer user-jwt', 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+const tables = {
+  phases: [{ id: 'phase', project_id: 'project' }],
+  invoices: [
+    {
+      id: 'invoice',
+      project_id: 'project',
+      phase_id: 'phase',
+      doc_type: 'invoice',
+      status: 'issued',
+      invoice_number: 'INV/2025-26/001',
+      client_name: 'Asha Rao',
+      client_email: 'asha@example.com',
+      client_phone: null,
+      supplier_gstin: '27AAAAA0000A1Z5',
+      total: 118000,
+    },
+    { id: 'credit', original_invoice_id: 'invoice', status: 'issued', total: 18000 },
+  ],
+}
+
+beforeAll(async () => {
+  razorpay.server = createServer(async (req, res) => {
+    razorpay.requests.push({ path: req.url ?? '', authorization: req.headers.authorization, body: await readBody(req) })
+    res.writeHead(razorpay.status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ id: 'plink_1', short_url: 'https://rzp.io/i/plink1' }))
+  })
+  await new Promise<void>((resolve) => razorpay.server!.listen(0, '127.0.0.1', resolve))
+  env.RAZORPAY_API_BASE = `http://127.0.0.1:${(razorpay.server.address() as AddressInfo).port}`
+
+  vi.stubGlobal('Deno', { env: { get: (name: string) => env[name] } })
+  await import('./index')
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => razorpay.server!.close(resolve))
+})
+
+beforeEach(() => {
+  razorpay.requests = []
+  razorpay.status = 200
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('create-razorpay-payment-link', () => {
+  it('creates a milestone link at Razorpay and saves it for the caller', async () => {
+    const { saved } = fakeSupabase(tables)
+
+    const response = await mocks.handler!(
+      request({ project_id: 'project', phase_id: 'phase', product_name: 'Slab', amount: 10000, gst_rate: 18 })
+    )
+
+    expect(response.status).toBe(200)
+    expect(razorpay.requests).toHaveLength(1)
+    expect(razorpay.requests[0]).toMatchObject({
+      path: '/v1/payment_links',
+      authorization: `Basic ${btoa('rzp_test_key:rzp_test_secret')}`,
+      body: { amount: 1180000, currency: 'INR', notes: { project_id: 'project', phase_id: 'phase', invoice_id: '' } },
+    })
+    expect(saved).toEqual([
+      expect.objectContaining({
+        project_id: 'project',
+        phase_id: 'phase',
+        razorpay_link_id: 'plink_1',
+        razorpay_link_url: 'https://rzp.io/i/plink1',
+        payment_status: 'pending',
+        created_by: 'owner',
+      }),
+    ])
+  })
+
+  it('collects what is left of an invoice after credit notes', async () => {
+    const { saved } = fakeSupabase(tables)
+
+    await mocks.handler!(request({ invoice_id: 'invoice' }))
+
+    expect(razorpay.requests[0].body).toMatchObject({ amount: 10000000, customer: { name: 'Asha Rao', email: 'asha@example.com' } })
+    expect(saved[0]).toMatchObject({ invoice_id: 'invoice', project_id: 'project', amount: 100000 })
+  })
+
+  it('refuses a phase outside the project without calling Razorpay', async () => {
+    const { saved } = fakeSupabase(tables)
+
+    const response = await mocks.handler!(
+      request({ project_id: 'other', phase_id: 'phase', product_name: 'Slab', amount: 10000 })
+    )
+
+    expect(response.status).toBe(400)
+    expect(razorpay.requests).toEqual([])
+    expect(saved).toEqual([])
+  })
+
+  it('saves nothing when Razorpay refuses the link', async () => {
+    const { saved } = fakeSupabase(tables)
+    razorpay.status = 400
+
+    const response = await mocks.handler!(
+      request({ project_id: 'project', phase_id: 'phase', product_name: 'Slab', amount: 10000 })
+    )
+
+    expect(response.status).toBe(502)
+    expect(saved).toEqual([])
+  })
+})
@@ -7,6 +7,15 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Overridable so the function can run against a mock Razorpay server
+const razorpayApiBase = Deno.env.get('RAZORPAY_API_BASE') || 'https://api.razorpay.com'
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -15,7 +24,6 @@ serve(async (req) => {
 
   try {
     const requestBody = await req.json()
-    console.log('Request body:', requestBody)
 
     // Get Razorpay credentials from environment
     const razorpayKeyId = Deno.env.get('RAZORPAY_KEY_ID')
@@ -23,71 +31,149 @@ serve(async (req) => {
 
     if (!razorpayKeyId || !razorpayKeySecret) {
       console.error('Razorpay credentials not found')
-      return new Response(
-        JSON.stringify({ success: false, error: 'Razorpay credentials not configured' }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 500 
-        }
-      )
+      return respond({ success: false, error: 'Razorpay credentials not configured' }, 500)
+    }
+
+    // Act as the caller, so row level security decides which projects and invoices they can bill
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return respond({ success: false, error: 'Not signed in' }, 401)
     }
 
-    // Create Razorpay payment link
-    const paymentLinkData = {
-      amount: requestBody.amount,
-      currency: requestBody.currency || 'INR',
-      accept_partial: false,
-      description: requestBody.description,
-      customer: requestBody.customer,
-      notify: requestBody.notify,
-      reminder_enable: requestBody.reminder_enable,
-      notes: requestBody.notes,
-      callback_url: requestBody.callback_url,
-      callback_method: requestBody.callback_method || 'get'
+    let link = {
+      project_id: requestBody.project_id as string | undefined,
+      phase_id: requestBody.phase_id as string | undefined,
+      invoice_id: null as string | null,
+      business_name: requestBody.business_name || '',
+      product_name: requestBody.product_name as string | undefined,
+      description: requestBody.description || null,
+      gst_number: requestBody.gst_number || null,
+      amount: Number(requestBody.amount),
+      quantity: Math.max(parseInt(requestBody.quantity) || 1, 1),
+      gst_rate: Number(requestBody.gst_rate) || 0,
+      customer_name: requestBody.customer?.name || null,
+      customer_email: requestBody.customer?.email || null,
+      customer_phone: requestBody.customer?.contact || null,
     }
 
-    console.log('Creating payment link with data:', paymentLinkData)
+    if (requestBody.invoice_id) {
+      // Invoice links collect what is left after credit notes
+      const { data: invoice } = await supabase
+        .from('invoices')
+        .select('id, project_id, phase_id, doc_type, status, invoice_number, client_name, client_email, client_phone, supplier_gstin, total')
+        .eq('id', requestBody.invoice_id)
+        .maybeSingle()
+
+      if (!invoice || invoice.doc_type !== 'invoice' || invoice.status !== 'issued') {
+        return respond({ success: false, error: 'Only issued invoices can be paid by link' }, 400)
+      }
 
-    const response = await fetch('https://api.razorpay.com/v1/payment_links', {
+      const { data: credits } = await supabase
+        .from('invoices')
+        .select('total')
+        .eq('original_invoice_id', invoice.id)
+        .eq('status', 'issued')
+      const credited = (credits ?? []).reduce((sum: number, c: { total: number }) => sum + Number(c.total), 0)
+
+      link = {
+        ...link,
+        project_id: invoice.project_id,
+        phase_id: invoice.phase_id,
+        invoice_id: invoice.id,
+        product_name: `Invoice ${invoice.invoice_number}`,
+        description: link.description || `Payment for invoice ${invoice.invoice_number}`,
+        gst_number: invoice.supplier_gstin,
+        amount: Number(invoice.total) - credited,
+        quantity: 1,
+        gst_rate: 0,
+        customer_name: invoice.client_name,
+        customer_email: link.customer_email || invoice.client_email,
+        customer_phone: link.customer_phone || invoice.client_phone,
+      }
+    } else {
+      if (!link.project_id || !link.phase_id || !link.product_name) {
+        return respond({ success: false, error: 'Project, phase and product name are required' }, 400)
+      }
+
+      const { data: phase } = await supabase
+        .from('phases')
+        .select('id')
+        .eq('id', link.phase_id)
+        .eq('project_id', link.project_id)
+        .maybeSingle()
+
+      if (!phase) {
+        return respond({ success: false, error: 'Phase not found in this project' }, 400)
+      }
+    }
+
+    const total = link.amount * link.quantity * (1 + link.gst_rate / 100)
+    const amountInPaise = Math.round(total * 100)
+
+    if (!(amountInPaise >= 100)) {
+      return respond({ success: false, error: 'The amount must be at least Rs 1' }, 400)
+    }
+
+    const customer = Object.fromEntries(
+      Object.entries({ name: link.customer_name, email: link.customer_email, contact: link.customer_phone })
+        .filter(([, value]) => value)
+    )
+
+    const response = await fetch(`${razorpayApiBase}/v1/payment_links`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Basic ${btoa(`${razorpayKeyId}:${razorpayKeySecret}`)}`
       },
-      body: JSON.stringify(paymentLinkData)
+      body: JSON.stringify({
+        amount: amountInPaise,
+        currency: 'INR',
+        accept_partial: false,
+        description: link.description || link.product_name,
+        customer,
+        notify: { sms: !!customer.contact, email: !!customer.email },
+        reminder_enable: true,
+        notes: { project_id: link.project_id, phase_id: link.phase_id, invoice_id: link.invoice_id ?? '' },
+      })
     })
 
     if (!response.ok) {
       const errorText = await response.text()
       console.error('Razorpay API error:', response.status, errorText)
-      return new Response(
-        JSON.stringify({ success: false, error: `Razorpay API error: ${response.status}` }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: response.status 
-        }
-      )
+      return respond({ success: false, error: `Razorpay API error: ${response.status}` }, 502)
     }
 
-    const paymentLink = await response.json()
-    console.log('Payment link created:', paymentLink)
+    const razorpayLink = await response.json()
 
-    return new Response(
-      JSON.stringify({ success: true, payment_link: paymentLink }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
-      }
-    )
+    // Callers can only read payment links; the checks above decided what they may bill
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+    const { data: paymentLink, error: insertError } = await admin
+      .from('payment_links')
+      .insert({
+        ...link,
+        razorpay_link_id: razorpayLink.id,
+        razorpay_link_url: razorpayLink.short_url,
+        status: 'active',
+        payment_status: 'pending',
+        created_by: user.id,
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('Error saving payment link:', insertError)
+      return respond({ success: false, error: 'Payment link created but could not be saved' }, 500)
+    }
+
+    return respond({ success: true, payment_link: paymentLink })
 
   } catch (error) {
     console.error('Error creating payment link:', error)
-    return new Response(
-      JSON.stringify({ success: false, error: 'Internal server error' }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
-      }
-    )
+    return respond({ success: false, error: 'Internal server error' }, 500)
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,200 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createHash } from "https://deno.land/std@0.168.0/node/crypto.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { share_id, token } = await req.json()
+
+    if (!share_id) {
+      return respond({ success: false, code: 'not_found', error: 'Missing share id' }, 400)
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: share, error: shareError } = await supabase
+      .from('project_shares')
+      .select('id, project_id, share_type, expires_at, share_options, is_active, locked_at, comments')
+      .eq('id', share_id)
+      .maybeSingle()
+
+    if (shareError) {
+      console.error('Error fetching share:', shareError)
+      return respond({ success: false, error: 'Failed to load share link' }, 500)
+    }
+
+    if (!share || !share.is_active) {
+      return respond({ success: false, code: 'not_found', error: 'Share link not found or has expired' }, 404)
+    }
+
+    if (new Date(share.expires_at) <= new Date()) {
+      return respond({ success: false, code: 'expired', error: 'This share link has expired' }, 410)
+    }
+
+    // Private links need a live token from unlock_project_share
+    if (share.share_type === 'private') {
+      if (!token) {
+        if (share.locked_at) {
+          return respond({ success: false, code: 'locked', error: 'This link is locked after too many wrong passwords' }, 423)
+        }
+        return respond({ success: false, code: 'password_required', error: 'Password required' }, 401)
+      }
+
+      const tokenHash = createHash('sha256').update(token, 'utf8').digest('hex')
+      const { data: tokenRow } = await supabase
+        .from('project_share_tokens')
+        .select('token_hash')
+        .eq('token_hash', tokenHash)
+        .eq('share_id', share.id)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle()
+
+      if (!tokenRow) {
+        return respond({ success: false, code: 'password_required', error: 'Your access has expired, please enter the password again' }, 401)
+      }
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, name, description, status, location, start_date, end_date, created_at')
+      .eq('id', share.project_id)
+      .single()
+
+    if (projectError || !project) {
+      console.error('Project fetch error:', projectError)
+      return respond({ success: false, code: 'not_found', error: 'Project not found' }, 404)
+    }
+
+    // Only sections the owner ticked are ever queried
+    const options = share.share_options || {}
+    const sections: Record<string, unknown> = {}
+
+    if (options.phaseDetails) {
+      const { data, error } = await supabase
+        .from('phases')
+        .select('id, name, start_date, end_date, status, estimated_cost, contractor_name')
+        .eq('project_id', share.project_id)
+        .order('start_date')
+      if (error) console.error('Error fetching phases:', error)
+      sections.phases = data || []
+    }
+
+    if (options.expenseDetails || options.incomeDetails) {
+      const { data, error } = await supabase
+        .from('expenses')
+        .select('id, type, amount, gst_amount, category, date, phases!inner(id, name)')
+        .eq('project_id', share.project_id)
+        .eq('approval_status', 'approved')
+      if (error) console.error('Error fetching transactions:', error)
+      const rows = data || []
+      const strip = ({ type: _type, ...row }: { type: string }) => row
+      if (options.expenseDetails) sections.expenses = rows.filter((row) => row.type === 'expense').map(strip)
+      if (options.incomeDetails) sections.income = rows.filter((row) => row.type === 'income').map(strip)
+    }
+
+    if (options.materialsDetails) {
+      const { data, error } = await supabase
+        .from('materials')
+        .select('id, name, unit_cost, qty_required, status')
+        .eq('project_id', share.project_id)
+      if (error) console.error('Error fetching materials:', error)
+      sections.materials = data || []
+    }
+
+    if (options.teamMembers) {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, name, email, role_id, status, active')
+        .eq('project_id', share.project_id)
+      if (error) console.error('Error fetching team members:', error)
+      sections.teamMembers = data || []
+    }
+
+    if (options.phasePhotos) {
+      const { data, error } = await supabase
+        .from('phase_photos')
+        .select('id, photo_url, created_at, phases!inner(id, name)')
+        .eq('project_id', share.project_id)
+      if (error) console.error('Error fetching phase photos:', error)
+      sections.phasePhotos = data || []
+    }
+
+    // Drafts stay internal; the client sees what was sent to them and their answers
+    if (options.changeOrders) {
+      const { data, error } = await supabase
+        .from('change_orders')
+        .select('id, co_number, title, description, cost_impact, schedule_impact_days, status, sent_at, responded_at, responded_by_name, response_note, phases(id, name)')
+        .eq('project_id', share.project_id)
+        .neq('status', 'draft')
+        .order('sent_at', { ascending: false })
+      if (error) console.error('Error fetching change orders:', error)
+      sections.changeOrders = data || []
+    }
+
+    // Every revision is listed so the client can tell which drawings are superseded
+    if (options.documents) {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, name, category, document_group_id, revision, is_current, upload_date, change_note, superseded_at, file_path')
+        .eq('project_id', share.project_id)
+        .order('category')
+        .order('revision', { ascending: false })
+      if (error) console.error('Error fetching documents:', error)
+      sections.documents = (data || []).map(({ file_path, ...doc }) => ({
+        ...doc,
+        url: supabase.storage.from('project-docs').getPublicUrl(file_path || '').data.publicUrl,
+      }))
+    }
+
+    if (options.allowComments) {
+      sections.comments = share.comments || []
+    }
+
+    // Counted and logged only once the data is actually served
+    const { error: viewError } = await supabase.rpc('record_share_view', {
+      p_share_id: share.id,
+      p_user_agent: req.headers.get('user-agent'),
+      p_sections: Object.keys(sections),
+    })
+    if (viewError) {
+      console.error('Error recording share view:', viewError)
+    }
+
+    return respond({
+      success: true,
+      share: {
+        id: share.id,
+        project_id: share.project_id,
+        share_type: share.share_type,
+        expires_at: share.expires_at,
+        share_options: options,
+      },
+      project,
+      ...sections,
+    })
+
+  } catch (error) {
+    console.error('Error loading shared project:', error)
+    return respond({ success: false, error: 'Internal server error' }, 500)
+  }
+})
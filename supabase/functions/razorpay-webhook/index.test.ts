@@ -0,0 +1,170 @@
+import { createHmac } from 'node:crypto'
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// The function runs on Deno: its std and esm.sh imports are replaced, and the
+// handler passed to serve() is called directly with requests.
+const mocks = vi.hoisted(() => ({
+  handler: null as ((req: Request) => Promise<Response>) | null,
+  createClient: vi.fn(),
+}))
+
+vi.mock('https://deno.land/std@0.168.0/http/server.ts', () => ({
+  serve: (handler: (req: Request) => Promise<Response>) => {
+    mocks.handler = handler
+  },
+}))
+
+vi.mock('https://esm.sh/@supabase/supabase-js@2', () => ({ createClient: mocks.createClient }))
+
+const SECRET = 'webhook-secret'
+
+const env: Record<string, string> = {
+  RAZORPAY_WEBHOOK_SECRET: SECRET,
+  SUPABASE_URL: 'http://localhost:54321',
+  SUPABASE_SERVICE_ROLE_KEY: 'service-role-key',
+}
+
+// Records what the function asks of the database; results come from `results`
+function fakeSupabase(results: { insert?: { code: string } | null; rpc?: { code: string } | null } = {}) {
+  const calls: { table?: string; fn?: string; action: string; args: unknown[] }[] = []
+
+  const query = (table: string) => {
+    const chain = {
+      insert: (...args: unknown[]) => {
+        calls.push({ table, action: 'insert', args })
+        return Promise.resolve({ error: results.insert ?? null })
+      },
+      update: (...args: unknown[]) => {
+        calls.push({ table, action: 'update', args })
+        return chain
+      },
+      delete: () => {
+        calls.push({ table, action: 'delete', args: [] })
+        return chain
+      },
+      eq: (...args: unknown[]) => {
+        calls.push({ table, action: 'eq', args })
+        return chain
+      },
+      then: (resolve: (value: { error: null }) => void) => resolve({ error: null }),
+    }
+    return chain
+  }
+
+  return {
+    calls,
+    client: {
+      from: query,
+      rpc: (fn: string, args: unknown) => {
+        calls.push({ fn, action: 'rpc', args: [args] })
+        return Promise.resolve({ error: results.rpc ?? null })
+      },
+    },
+  }
+}
+
+function webhook(body: unknown, { signature, eventId = 'evt_1' }: { signature?: string; eventId?: string } = {}) {
+  const raw = JSON.stringify(body)
+  return new Request('http://localhost/razorpay-webhook', {
+    method: 'POST',
+    headers: {
+      'x-razorpay-signature': signature ?? createHmac('sha256', SECRET).update(raw).digest('hex'),
+      'x-razorpay-event-id': eventId,
+    },
+    body: raw,
+  })
+}
+
+const link = { id: 'plink_1', amount_paid: 1180000 }
+const payment = { id: 'pay_1', method: 'upi', amount: 1180000, created_at: 1750000000 }
+
+beforeAll(async () => {
+  vi.stubGlobal('Deno', { env: { get: (name: string) => env[name] } })
+  await import('./index')
+})
+
+beforeEach(() => {
+  mocks.createClient.mockReset()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('razorpay-webhook', () => {
+  it('rejects a body whose signature does not match', async () => {
+    const supabase = fakeSupabase()
+    mocks.createClient.mockReturnValue(supabase.client)
+
+    const response = await mocks.handler!(webhook({ event: 'payment_link.paid', payload: {} }, { signature: 'f'.repeat(64) }))
+
+    expect(response.status).toBe(401)
+    expect(supabase.calls).toEqual([])
+  })
+
+  it('acknowledges an event it has already seen without processing it again', async () => {
+    const supabase = fakeSupabase({ insert: { code: '23505' } })
+    mocks.createClient.mockReturnValue(supabase.client)
+
+    const response = await mocks.handler!(
+      webhook({ event: 'payment_link.paid', payload: { payment_link: { entity: link }, payment: { entity: payment } } })
+    )
+
+    expect(await response.json()).toEqual({ success: true, duplicate: true })
+    expect(supabase.calls.map((call) => call.action)).toEqual(['insert'])
+  })
+
+  it('settles a paid link through record_payment_link_payment', async () => {
+    const supabase = fakeSupabase()
+    mocks.createClient.mockReturnValue(supabase.client)
+
+    const response = await mocks.handler!(
+      webhook({ event: 'payment_link.paid', payload: { payment_link: { entity: link }, payment: { entity: payment } } })
+    )
+
+    expect(response.status).toBe(200)
+    expect(supabase.calls).toContainEqual({
+      fn: 'record_payment_link_payment',
+      action: 'rpc',
+      args: [
+        {
+          p_razorpay_link_id: 'plink_1',
+          p_payment_id: 'pay_1',
+          p_amount_paid: 11800,
+          p_payment_method: 'UPI',
+          p_paid_at: new Date(1750000000 * 1000).toISOString(),
+        },
+      ],
+    })
+  })
+
+  it('forgets the event when the payment cannot be recorded, so Razorpay retries it', async () => {
+    const supabase = fakeSupabase({ rpc: { code: '40001' } })
+    mocks.createClient.mockReturnValue(supabase.client)
+
+    const response = await mocks.handler!(
+      webhook({ event: 'payment_link.paid', payload: { payment_link: { entity: link }, payment: { entity: payment } } })
+    )
+
+    expect(response.status).toBe(500)
+    expect(supabase.calls).toContainEqual({ table: 'razorpay_webhook_events', action: 'delete', args: [] })
+  })
+
+  it.each([
+    ['payment_link.expired', 'expired'],
+    ['payment_link.cancelled', 'cancelled'],
+  ])('closes a pending link on %s', async (event, paymentStatus) => {
+    const supabase = fakeSupabase()
+    mocks.createClient.mockReturnValue(supabase.client)
+
+    const response = await mocks.handler!(webhook({ event, payload: { payment_link: { entity: link } } }))
+    const linkCalls = supabase.calls.filter((call) => call.table === 'payment_links')
+
+    expect(response.status).toBe(200)
+    expect(linkCalls[0]).toMatchObject({
+      action: 'update',
+      args: [{ payment_status: paymentStatus, status: 'inactive' }],
+    })
+    expect(linkCalls.slice(1)).toEqual([
+      { table: 'payment_links', action: 'eq', args: ['razorpay_link_id', 'plink_1'] },
+      { table: 'payment_links', action: 'eq', args: ['payment_status', 'pending'] },
+    ])
+  })
+})
@@ -0,0 +1,184 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Razorpay calls this without a Supabase JWT: deploy with --no-verify-jwt and
+// authenticate requests by their signature instead.
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Razorpay payment methods as the Expenses page names them
+const PAYMENT_METHODS: Record<string, string> = {
+  upi: 'UPI',
+  card: 'Card',
+  netbanking: 'Bank Transfer',
+}
+
+// Razorpay signs the raw body with the webhook secret: hex HMAC-SHA256
+async function verifySignature(body: string, signature: string, secret: string) {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(body))
+  const expected = Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+
+  if (expected.length !== signature.length) return false
+  let mismatch = 0
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i)
+  }
+  return mismatch === 0
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return respond({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  // Set once the event is recorded. Forgetting it lets Razorpay's retry through
+  let forgetEvent = async () => {}
+
+  try {
+    const webhookSecret = Deno.env.get('RAZORPAY_WEBHOOK_SECRET')
+    if (!webhookSecret) {
+      console.error('Razorpay webhook secret not configured')
+      return respond({ success: false, error: 'Webhook secret not configured' }, 500)
+    }
+
+    const rawBody = await req.text()
+    const signature = req.headers.get('x-razorpay-signature')
+
+    if (!signature || !(await verifySignature(rawBody, signature, webhookSecret))) {
+      return respond({ success: false, error: 'Invalid signature' }, 401)
+    }
+
+    const { event, payload } = JSON.parse(rawBody)
+    const eventId = req.headers.get('x-razorpay-event-id')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    if (eventId) {
+      const { error } = await supabase.from('razorpay_webhook_events').insert({ event_id: eventId, event })
+      if (error?.code === '23505') {
+        return respond({ success: true, duplicate: true })
+      }
+      if (error) {
+        console.error('Error recording webhook event:', error)
+        return respond({ success: false, error: 'Failed to record event' }, 500)
+      }
+      forgetEvent = async () => {
+        await supabase.from('razorpay_webhook_events').delete().eq('event_id', eventId)
+      }
+    }
+
+    const link = payload?.payment_link?.entity
+
+    // Let Razorpay retry this event if it couldn't be processed
+    const fail = async (message: string, detail: unknown) => {
+      console.error(message, detail)
+      await forgetEvent()
+      return respond({ success: false, error: message }, 500)
+    }
+
+    switch (event) {
+      case 'payment_link.paid': {
+        const payment = payload?.payment?.entity
+        const { error } = await supabase.rpc('record_payment_link_payment', {
+          p_razorpay_link_id: link.id,
+          p_payment_id: payment?.id ?? null,
+          p_amount_paid: Number(link.amount_paid ?? payment?.amount ?? 0) / 100,
+          p_payment_method: PAYMENT_METHODS[payment?.method] ?? 'Razorpay',
+          p_paid_at: new Date((payment?.created_at ?? Date.now() / 1000) * 1000).toISOString(),
+        })
+
+        // Links made outside the app aren't ours to settle
+        if (error?.code === 'P0002') {
+          return respond({ success: true, ignored: true })
+        }
+        if (error) {
+          return fail('Failed to record payment', error)
+        }
+        break
+      }
+
+      case 'payment_link.expired':
+      case 'payment_link.cancelled': {
+        const { error } = await supabase
+          .from('payment_links')
+          .update({
+            payment_status: event === 'payment_link.expired' ? 'expired' : 'cancelled',
+            status: 'inactive',
+            updated_at: new Date().toISOString(),
+          })
+          .eq('razorpay_link_id', link.id)
+          .eq('payment_status', 'pending')
+
+        if (error) {
+          return fail('Failed to update payment link', error)
+        }
+        break
+      }
+
+      case 'order.paid': {
+        // Plan and token purchases are normally settled by verify-razorpay-payment;
+        // this covers checkouts closed before the browser reported back
+        const order = payload?.order?.entity
+        const payment = payload?.payment?.entity
+
+        const { data: subscriptionOrder } = await supabase
+          .from('subscription_orders')
+          .select('id')
+          .eq('razorpay_order_id', order?.id)
+          .maybeSingle()
+
+        if (subscriptionOrder) {
+          const { error } = await supabase.rpc('activate_subscription_order', {
+            p_order_id: subscriptionOrder.id,
+            p_payment_id: payment?.id ?? null,
+          })
+
+          if (error) {
+            return fail('Failed to activate subscription', error)
+          }
+          break
+        }
+
+        const { data: tokenOrder } = await supabase
+          .from('token_orders')
+          .select('id')
+          .eq('razorpay_order_id', order?.id)
+          .maybeSingle()
+
+        if (!tokenOrder) {
+          return respond({ success: true, ignored: true })
+        }
+
+        const { error } = await supabase.rpc('credit_token_order', {
+          p_order_id: tokenOrder.id,
+          p_payment_id: payment?.id ?? null,
+        })
+
+        if (error) {
+          return fail('Failed to credit tokens', error)
+        }
+        break
+      }
+
+      default:
+        // Other events are acknowledged so Razorpay stops sending them
+        break
+    }
+
+    return respond({ success: true })
+
+  } catch (error) {
+    console.error('Error handling Razorpay webhook:', error)
+    await forgetEvent()
+    return respond({ success: false, error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,113 @@
+// supabase/functions/subscription-reminders/index.ts
+//
+// Run once a day from a scheduled job, calling with the service role key:
+// moves subscriptions into their grace period or lapses them, then emails owners
+// whose subscription ends within a week or has entered its grace period.
+
+import { Resend } from "npm:resend";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "long", year: "numeric", timeZone: "Asia/Kolkata" });
+
+// Names come from profiles, which their owners edit freely
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+interface DueReminder {
+  subscription_id: string;
+  reminder: "renewal" | "grace";
+  email: string;
+  full_name: string | null;
+  plan_name: string;
+  end_date: string;
+  grace_ends_at: string;
+}
+
+Deno.serve(async (req) => {
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  if (req.headers.get("Authorization") !== `Bearer ${serviceKey}`) {
+    return respond({ success: false, error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+
+    const { error: refreshError } = await supabase.rpc("refresh_subscription_statuses");
+    if (refreshError) {
+      console.error("Error refreshing subscription statuses:", refreshError);
+      return respond({ success: false, error: "Failed to refresh subscriptions" }, 500);
+    }
+
+    const { data: due, error: dueError } = await supabase.rpc("subscriptions_due_for_reminder");
+    if (dueError) {
+      console.error("Error listing reminders:", dueError);
+      return respond({ success: false, error: "Failed to list reminders" }, 500);
+    }
+
+    const siteUrl = Deno.env.get("SITE_URL") || "http://localhost:5173";
+    const fromEmail = "BuildMyHomes <no-reply@buildmyhomes.in>";
+    let sent = 0;
+
+    for (const reminder of (due ?? []) as DueReminder[]) {
+      const inGrace = reminder.reminder === "grace";
+      const subject = inGrace
+        ? `Your ${reminder.plan_name} plan has ended - renew by ${formatDate(reminder.grace_ends_at)}`
+        : `Your ${reminder.plan_name} plan renews on ${formatDate(reminder.end_date)}`;
+      const message = inGrace
+        ? `Your ${reminder.plan_name} subscription ended on ${formatDate(reminder.end_date)}. You keep full access until ${formatDate(reminder.grace_ends_at)}; after that your account moves to the Free plan and you won't be able to add projects, team members or documents beyond its limits.`
+        : `Your ${reminder.plan_name} subscription ends on ${formatDate(reminder.end_date)}. Renew now to keep your projects, team and documents running without interruption.`;
+
+      const html = `
+        <html>
+          <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+            <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: #1f2937;">Hello ${reminder.full_name ? escapeHtml(reminder.full_name) : "there"},</h2>
+              <p style="color: #4b5563;">${message}</p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${siteUrl}/settings"
+                   style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+                  Renew Subscription
+                </a>
+              </div>
+              <p style="color: #6b7280; font-size: 14px;">The BuildMyHomes Team</p>
+            </div>
+          </body>
+        </html>
+      `;
+
+      const { error: sendError } = await resend.emails.send({
+        from: fromEmail,
+        to: [reminder.email],
+        subject,
+        html,
+      });
+
+      if (sendError) {
+        // Left unmarked, so tomorrow's run tries again
+        console.error("Error sending reminder to", reminder.email, sendError);
+        continue;
+      }
+
+      await supabase
+        .from("subscriptions")
+        .update(inGrace ? { grace_notice_sent_at: new Date().toISOString() } : { reminder_sent_at: new Date().toISOString() })
+        .eq("id", reminder.subscription_id);
+      sent++;
+    }
+
+    return respond({ success: true, sent });
+  } catch (error) {
+    console.error("Error sending subscription reminders:", error);
+    return respond({ success: false, error: "Internal server error" }, 500);
+  }
+});
@@ -1,6 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { createHash } from "https://deno.land/std@0.168.0/node/crypto.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,6 +7,27 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Checkout signs "order_id|payment_id" with the key secret: hex HMAC-SHA256
+async function verifySignature(body: string, signature: string, secret: string) {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(body))
+  const expected = Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+
+  if (expected.length !== signature.length) return false
+  let mismatch = 0
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i)
+  }
+  return mismatch === 0
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -15,53 +35,30 @@ serve(async (req) => {
   }
 
   try {
-    const { 
-      razorpay_order_id, 
-      razorpay_payment_id, 
-      razorpay_signature,
-      user_id,
-      plan_name,
-      plan_id
-    } = await req.json()
+    const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = await req.json()
 
     // Validate required fields
-    if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature || !user_id) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Missing required fields' }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 400 
-        }
-      )
+    if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
+      return respond({ success: false, error: 'Missing required fields' }, 400)
     }
 
     // Get Razorpay credentials
     const razorpayKeySecret = Deno.env.get('RAZORPAY_KEY_SECRET')
     if (!razorpayKeySecret) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Razorpay credentials not configured' }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 500 
-        }
-      )
+      return respond({ success: false, error: 'Razorpay credentials not configured' }, 500)
     }
 
-    // Verify signature
-    const body = razorpay_order_id + "|" + razorpay_payment_id
-    const expectedSignature = createHash('sha256')
-      .update(body, 'utf8')
-      .update(razorpayKeySecret, 'utf8')
-      .digest('hex')
-
-    if (expectedSignature !== razorpay_signature) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Invalid payment signature' }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 400 
-        }
-      )
+    if (!(await verifySignature(`${razorpay_order_id}|${razorpay_payment_id}`, razorpay_signature, razorpayKeySecret))) {
+      return respond({ success: false, error: 'Invalid payment signature' }, 400)
+    }
+
+    const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const { data: { user } } = await userClient.auth.getUser()
+    if (!user) {
+      return respond({ success: false, error: 'Not signed in' }, 401)
     }
 
     // Initialize Supabase client
@@ -69,109 +66,57 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Get plan details
-    const { data: planData, error: planError } = await supabase
-      .from('plans')
-      .select('*')
-      .eq('name', plan_name)
-      .single()
-
-    if (planError || !planData) {
-      console.error('Plan not found:', planError)
-      return new Response(
-        JSON.stringify({ success: false, error: 'Plan not found' }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 400 
-        }
-      )
-    }
+    // What was bought, and its price, were fixed when the order was created
+    const { data: subscriptionOrder } = await supabase
+      .from('subscription_orders')
+      .select('id')
+      .eq('razorpay_order_id', razorpay_order_id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (subscriptionOrder) {
+      const { data: subscriptionId, error: activateError } = await supabase.rpc('activate_subscription_order', {
+        p_order_id: subscriptionOrder.id,
+        p_payment_id: razorpay_payment_id,
+      })
 
-    // Calculate subscription dates
-    const startDate = new Date()
-    const endDate = new Date()
-    endDate.setMonth(endDate.getMonth() + 1) // 1 month subscription
-
-    // Create subscription record
-    const { error: subscriptionError } = await supabase
-      .from('subscriptions')
-      .insert([{
-        user_id: user_id,
-        plan_id: planData.id,
-        start_date: startDate.toISOString(),
-        end_date: endDate.toISOString(),
-        status: 'active'
-      }])
-
-    if (subscriptionError) {
-      console.error('Error creating subscription:', subscriptionError)
-      return new Response(
-        JSON.stringify({ success: false, error: 'Failed to create subscription' }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 500 
-        }
-      )
-    }
+      if (activateError) {
+        console.error('Error activating subscription:', activateError)
+        return respond({ success: false, error: 'Failed to activate subscription' }, 500)
+      }
 
-    // Update user profile with subscription info
-    const { error: profileError } = await supabase
-      .from('profiles')
-      .update({
-        subscription_type: plan_name,
-        plan_id: planData.id,
-        subscription_start: startDate.toISOString().split('T')[0],
-        subscription_end: endDate.toISOString().split('T')[0],
-        status: 'active'
+      return respond({
+        success: true,
+        message: 'Payment verified and subscription activated',
+        subscription_id: subscriptionId,
       })
-      .eq('id', user_id)
+    }
+
+    const { data: tokenOrder } = await supabase
+      .from('token_orders')
+      .select('id')
+      .eq('razorpay_order_id', razorpay_order_id)
+      .eq('user_id', user.id)
+      .maybeSingle()
 
-    if (profileError) {
-      console.error('Error updating profile:', profileError)
+    if (!tokenOrder) {
+      return respond({ success: false, error: 'Order not found' }, 404)
     }
 
-    // Log the payment
-    const { error: paymentError } = await supabase
-      .from('payment_logs')
-      .insert([{
-        user_id: user_id,
-        razorpay_order_id: razorpay_order_id,
-        razorpay_payment_id: razorpay_payment_id,
-        amount: planData.price * 100, // amount in paise
-        currency: 'INR',
-        status: 'success',
-        plan_name: plan_name,
-        created_at: new Date().toISOString()
-      }])
-
-    if (paymentError) {
-      console.error('Error logging payment:', paymentError)
+    const { data: balance, error: creditError } = await supabase.rpc('credit_token_order', {
+      p_order_id: tokenOrder.id,
+      p_payment_id: razorpay_payment_id,
+    })
+
+    if (creditError) {
+      console.error('Error crediting tokens:', creditError)
+      return respond({ success: false, error: 'Failed to credit tokens' }, 500)
     }
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: 'Payment verified and subscription activated',
-        subscription: {
-          plan_name: plan_name,
-          start_date: startDate.toISOString(),
-          end_date: endDate.toISOString()
-        }
-      }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
-      }
-    )
+    return respond({ success: true, message: 'Payment verified and tokens added', balance })
 
   } catch (error) {
     console.error('Error verifying payment:', error)
-    return new Response(
-      JSON.stringify({ success: false, error: 'Internal server error' }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
-      }
-    )
+    return respond({ success: false, error: 'Internal server error' }, 500)
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,210 @@
+-- Core tables: profiles, roles, team users, projects and everything hanging off a project.
+
+create extension if not exists pgcrypto;
+
+create table public.plans (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  price numeric(12, 2) not null default 0,
+  description text,
+  features text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  full_name text,
+  email text,
+  phone text,
+  company text,
+  location text,
+  gst_number text,
+  website text,
+  instagram text,
+  role text,
+  permissions text[],
+  status text not null default 'active',
+  setup_completed boolean not null default false,
+  subscription_type text,
+  plan_id uuid references public.plans (id) on delete set null,
+  subscription_start timestamptz,
+  subscription_end timestamptz,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index profiles_email_idx on public.profiles (email);
+
+create table public.roles (
+  id uuid primary key default gen_random_uuid(),
+  role_name text not null,
+  permissions text[] not null default '{}',
+  is_active boolean not null default true,
+  created_by uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index roles_role_name_idx on public.roles (role_name);
+
+create table public.projects (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  location text,
+  start_date date,
+  end_date date,
+  budget numeric(14, 2),
+  status text not null default 'pending',
+  created_by uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index projects_created_by_idx on public.projects (created_by);
+
+-- Team members invited by an admin; linked to an auth user once they finish first login.
+create table public.users (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  email text not null,
+  phone text,
+  role_id uuid references public.roles (id) on delete set null,
+  project_id uuid references public.projects (id) on delete set null,
+  auth_user_id uuid references auth.users (id) on delete set null,
+  status text not null default 'pending',
+  active boolean not null default true,
+  tokens_balance integer not null default 0,
+  created_by uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index users_project_id_idx on public.users (project_id);
+create index users_auth_user_id_idx on public.users (auth_user_id);
+create index users_email_idx on public.users (email);
+
+create table public.phases (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null,
+  start_date date not null,
+  end_date date not null,
+  status text not null default 'Not Started'
+    check (status in ('Not Started', 'In Progress', 'Completed')),
+  estimated_cost numeric(14, 2),
+  contractor_name text,
+  progress integer not null default 0 check (progress between 0 and 100),
+  created_at timestamptz not null default now()
+);
+
+create index phases_project_id_idx on public.phases (project_id);
+
+-- Holds both expense and income transactions, distinguished by `type`.
+create table public.expenses (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  phase_id uuid not null references public.phases (id) on delete cascade,
+  type text not null default 'expense' check (type in ('expense', 'income')),
+  category text not null,
+  custom_category text,
+  amount numeric(14, 2) not null,
+  gst_amount numeric(14, 2) not null default 0,
+  date date not null,
+  payment_method text not null,
+  bill_path text,
+  source text,
+  reference_id text,
+  description text,
+  tags text,
+  approved boolean not null default true,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index expenses_project_id_idx on public.expenses (project_id);
+create index expenses_phase_id_idx on public.expenses (phase_id);
+
+create table public.materials (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null,
+  description text,
+  category text,
+  unit text,
+  qty_required numeric(14, 3) not null default 0,
+  unit_cost numeric(14, 2) not null default 0,
+  stock_quantity numeric(14, 3) not null default 0,
+  supplier text,
+  hsn text,
+  specifications text,
+  status text default 'In Stock',
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index materials_project_id_idx on public.materials (project_id);
+
+create table public.phase_photos (
+  id uuid primary key default gen_random_uuid(),
+  phase_id uuid not null references public.phases (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  photo_url text not null,
+  uploaded_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index phase_photos_phase_id_idx on public.phase_photos (phase_id);
+
+create table public.phase_comments (
+  id uuid primary key default gen_random_uuid(),
+  phase_id uuid not null references public.phases (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  comment text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index phase_comments_phase_id_idx on public.phase_comments (phase_id);
+
+-- `project` holds the project id chosen in the upload form.
+create table public.documents (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  category text,
+  project text,
+  uploaded_by uuid references auth.users (id) on delete set null,
+  upload_date timestamptz not null default now(),
+  size text,
+  version text,
+  type text,
+  status text not null default 'pending',
+  file_path text,
+  tags text[]
+);
+
+create index documents_uploaded_by_idx on public.documents (uploaded_by);
+
+create table public.calendar_events (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text,
+  start_date date not null,
+  end_date date not null,
+  start_time text,
+  end_time text,
+  all_day boolean not null default false,
+  type text not null default 'other'
+    check (type in ('meeting', 'site_visit', 'inspection', 'deadline', 'delivery', 'other')),
+  project text,
+  client text,
+  location text,
+  priority text not null default 'medium' check (priority in ('low', 'medium', 'high')),
+  reminder integer not null default 15,
+  attendees text[] not null default '{}',
+  status text not null default 'scheduled'
+    check (status in ('scheduled', 'confirmed', 'cancelled', 'completed')),
+  created_by uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index calendar_events_created_by_idx on public.calendar_events (created_by);
@@ -0,0 +1,32 @@
+-- Client-facing share links for projects.
+
+create table public.project_shares (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  created_by uuid references auth.users (id) on delete cascade,
+  share_type text not null check (share_type in ('public', 'private')),
+  password text,
+  expires_at timestamptz not null,
+  share_options jsonb not null default '{}'::jsonb,
+  is_active boolean not null default true,
+  view_count integer not null default 0,
+  comments jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index project_shares_project_id_idx on public.project_shares (project_id);
+
+create or replace function public.increment_share_view_count(share_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update project_shares
+     set view_count = view_count + 1
+   where id = share_id
+     and is_active
+     and expires_at > now();
+$$;
+
+grant execute on function public.increment_share_view_count(uuid) to anon, authenticated;
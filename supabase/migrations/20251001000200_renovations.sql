@@ -0,0 +1,26 @@
+-- Renovation marketplace: clients post requirements, builders bid with tokens.
+
+create table public.renovations (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid references public.projects (id) on delete cascade,
+  requirement text not null,
+  status text not null default 'pending',
+  created_by uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index renovations_created_by_idx on public.renovations (created_by);
+
+create table public.bids (
+  id uuid primary key default gen_random_uuid(),
+  renovation_id uuid not null references public.renovations (id) on delete cascade,
+  admin_id uuid not null references auth.users (id) on delete cascade,
+  proposal text not null,
+  tokens_used integer not null default 0,
+  bid_status text not null default 'active'
+    check (bid_status in ('active', 'accepted', 'rejected')),
+  created_at timestamptz not null default now()
+);
+
+create index bids_renovation_id_idx on public.bids (renovation_id);
+create index bids_admin_id_idx on public.bids (admin_id);
@@ -0,0 +1,48 @@
+-- Plan subscriptions and Razorpay payment records.
+
+create table public.subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  plan_id uuid not null references public.plans (id),
+  start_date timestamptz not null,
+  end_date timestamptz not null,
+  status text not null default 'active'
+    check (status in ('active', 'expired', 'cancelled')),
+  created_at timestamptz not null default now()
+);
+
+create index subscriptions_user_id_idx on public.subscriptions (user_id);
+
+create table public.payment_logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete set null,
+  razorpay_order_id text,
+  razorpay_payment_id text,
+  amount integer not null,
+  currency text not null default 'INR',
+  status text not null,
+  plan_name text,
+  created_at timestamptz not null default now()
+);
+
+create table public.payment_links (
+  id uuid primary key default gen_random_uuid(),
+  business_name text not null,
+  product_name text not null,
+  amount numeric(14, 2) not null,
+  quantity integer not null default 1,
+  description text,
+  gst_number text,
+  gst_rate numeric(5, 2) not null default 0,
+  razorpay_link_id text not null unique,
+  razorpay_link_url text not null,
+  razorpay_qr_code text,
+  status text not null default 'active' check (status in ('active', 'inactive')),
+  payment_status text not null default 'pending'
+    check (payment_status in ('pending', 'paid', 'failed')),
+  created_by uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index payment_links_created_by_idx on public.payment_links (created_by);
@@ -0,0 +1,182 @@
+-- Row level security. Admins own the projects they create; team members (public.users
+-- linked through auth_user_id) get access to their assigned project.
+
+alter table public.projects alter column created_by set default auth.uid();
+
+create or replace function public.is_project_owner(p_project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from projects where id = p_project_id and created_by = auth.uid()
+  );
+$$;
+
+create or replace function public.is_project_member(p_project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select is_project_owner(p_project_id)
+      or exists (
+        select 1 from users where project_id = p_project_id and auth_user_id = auth.uid()
+      );
+$$;
+
+-- True while the project has a live share link; the shared project page reads the
+-- underlying tables anonymously.
+create or replace function public.has_active_share(p_project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from project_shares
+     where project_id = p_project_id and is_active and expires_at > now()
+  );
+$$;
+
+alter table public.plans enable row level security;
+alter table public.profiles enable row level security;
+alter table public.roles enable row level security;
+alter table public.users enable row level security;
+alter table public.projects enable row level security;
+alter table public.phases enable row level security;
+alter table public.expenses enable row level security;
+alter table public.materials enable row level security;
+alter table public.phase_photos enable row level security;
+alter table public.phase_comments enable row level security;
+alter table public.documents enable row level security;
+alter table public.calendar_events enable row level security;
+alter table public.project_shares enable row level security;
+alter table public.renovations enable row level security;
+alter table public.bids enable row level security;
+alter table public.subscriptions enable row level security;
+alter table public.payment_logs enable row level security;
+alter table public.payment_links enable row level security;
+
+-- plans
+create policy "Plans are public" on public.plans
+  for select to anon, authenticated using (true);
+
+-- profiles
+create policy "Profiles are readable by signed-in users" on public.profiles
+  for select to authenticated using (true);
+create policy "Users create their own or invited profiles" on public.profiles
+  for insert to authenticated with check (id = auth.uid() or created_by = auth.uid());
+create policy "Users update their own profile" on public.profiles
+  for update to authenticated using (id = auth.uid());
+
+-- roles
+create policy "Roles are readable by signed-in users" on public.roles
+  for select to authenticated using (true);
+create policy "Admins manage their roles" on public.roles
+  for all to authenticated using (created_by = auth.uid()) with check (created_by = auth.uid());
+
+-- users (team members)
+create policy "Admins manage their team" on public.users
+  for all to authenticated using (created_by = auth.uid()) with check (created_by = auth.uid());
+create policy "Members read their own record" on public.users
+  for select to authenticated
+  using (auth_user_id = auth.uid() or email = auth.jwt() ->> 'email');
+create policy "Members complete their own record" on public.users
+  for update to authenticated using (email = auth.jwt() ->> 'email');
+-- First login looks the invite up by email before the member has a session.
+create policy "Pending invites are readable for first login" on public.users
+  for select to anon using (auth_user_id is null);
+
+-- projects
+create policy "Owners manage projects" on public.projects
+  for all to authenticated using (created_by = auth.uid()) with check (created_by = auth.uid());
+create policy "Members read assigned projects" on public.projects
+  for select to authenticated using (is_project_member(id));
+create policy "Shared projects are readable" on public.projects
+  for select to anon using (has_active_share(id));
+
+-- project children
+create policy "Members manage phases" on public.phases
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+create policy "Shared phases are readable" on public.phases
+  for select to anon using (has_active_share(project_id));
+
+create policy "Members manage transactions" on public.expenses
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+create policy "Shared transactions are readable" on public.expenses
+  for select to anon using (has_active_share(project_id));
+
+create policy "Members manage materials" on public.materials
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+create policy "Shared materials are readable" on public.materials
+  for select to anon using (has_active_share(project_id));
+
+create policy "Members manage phase photos" on public.phase_photos
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+create policy "Shared phase photos are readable" on public.phase_photos
+  for select to anon using (has_active_share(project_id));
+
+create policy "Members read phase comments" on public.phase_comments
+  for select to authenticated
+  using (exists (select 1 from phases p where p.id = phase_id and is_project_member(p.project_id)));
+create policy "Members add phase comments" on public.phase_comments
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from phases p where p.id = phase_id and is_project_member(p.project_id))
+  );
+create policy "Authors edit their comments" on public.phase_comments
+  for update to authenticated using (user_id = auth.uid());
+create policy "Authors delete their comments" on public.phase_comments
+  for delete to authenticated using (user_id = auth.uid());
+
+create policy "Shared team members are readable" on public.users
+  for select to anon using (project_id is not null and has_active_share(project_id));
+
+-- documents and calendar
+create policy "Uploaders manage documents" on public.documents
+  for all to authenticated using (uploaded_by = auth.uid()) with check (uploaded_by = auth.uid());
+
+create policy "Owners manage calendar events" on public.calendar_events
+  for all to authenticated using (created_by = auth.uid()) with check (created_by = auth.uid());
+
+-- project_shares
+create policy "Owners manage share links" on public.project_shares
+  for all to authenticated using (created_by = auth.uid()) with check (created_by = auth.uid());
+create policy "Active share links are readable" on public.project_shares
+  for select to anon using (is_active and expires_at > now());
+create policy "Visitors comment on active share links" on public.project_shares
+  for update to anon using (is_active and expires_at > now());
+
+revoke update on public.project_shares from anon;
+grant update (comments) on public.project_shares to anon;
+
+-- renovations and bids
+create policy "Renovations are readable by signed-in users" on public.renovations
+  for select to authenticated using (true);
+create policy "Clients manage their renovations" on public.renovations
+  for all to authenticated using (created_by = auth.uid()) with check (created_by = auth.uid());
+
+create policy "Bidders read their bids" on public.bids
+  for select to authenticated using (admin_id = auth.uid());
+create policy "Bidders place bids" on public.bids
+  for insert to authenticated with check (admin_id = auth.uid());
+create policy "Clients read bids on their renovations" on public.bids
+  for select to authenticated
+  using (exists (select 1 from renovations r where r.id = renovation_id and r.created_by = auth.uid()));
+create policy "Clients accept or reject bids" on public.bids
+  for update to authenticated
+  using (exists (select 1 from renovations r where r.id = renovation_id and r.created_by = auth.uid()));
+
+-- billing (rows are written by edge functions with the service role)
+create policy "Users read their subscriptions" on public.subscriptions
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users read their payments" on public.payment_logs
+  for select to authenticated using (user_id = auth.uid());
+create policy "Owners manage payment links" on public.payment_links
+  for all to authenticated using (created_by = auth.uid()) with check (created_by = auth.uid());
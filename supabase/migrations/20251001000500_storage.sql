@@ -0,0 +1,20 @@
+-- Storage buckets used by the app. All three are served through public URLs.
+
+insert into storage.buckets (id, name, public)
+values
+  ('bills', 'bills', true),
+  ('phase-photos', 'phase-photos', true),
+  ('project-docs', 'project-docs', true)
+on conflict (id) do nothing;
+
+create policy "Signed-in users upload app files" on storage.objects
+  for insert to authenticated
+  with check (bucket_id in ('bills', 'phase-photos', 'project-docs'));
+
+create policy "Signed-in users read app files" on storage.objects
+  for select to authenticated
+  using (bucket_id in ('bills', 'phase-photos', 'project-docs'));
+
+create policy "Uploaders delete their files" on storage.objects
+  for delete to authenticated
+  using (bucket_id in ('bills', 'phase-photos', 'project-docs') and owner = auth.uid());
@@ -0,0 +1,154 @@
+-- Private share links: bcrypt the password server-side and unlock with a short-lived
+-- token instead of handing the password to the browser.
+
+alter table public.project_shares add column password_hash text;
+
+update public.project_shares
+   set password_hash = crypt(password, gen_salt('bf'))
+ where password is not null;
+
+alter table public.project_shares drop column password;
+
+-- The hash never leaves the database.
+revoke select on public.project_shares from anon, authenticated;
+grant select (
+  id, project_id, created_by, share_type, expires_at, share_options,
+  is_active, view_count, comments, created_at
+) on public.project_shares to anon, authenticated;
+
+-- Only sha256 digests of issued tokens are stored.
+create table public.project_share_tokens (
+  token_hash text primary key,
+  share_id uuid not null references public.project_shares (id) on delete cascade,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index project_share_tokens_share_id_idx on public.project_share_tokens (share_id);
+
+alter table public.project_share_tokens enable row level security;
+
+create or replace function public.create_project_share(
+  p_project_id uuid,
+  p_share_type text,
+  p_expires_at timestamptz,
+  p_share_options jsonb,
+  p_password text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_share_id uuid;
+begin
+  if not is_project_owner(p_project_id) then
+    raise exception 'Not allowed to share this project' using errcode = '42501';
+  end if;
+
+  if p_share_type = 'private' and coalesce(p_password, '') = '' then
+    raise exception 'Private links need a password' using errcode = '22023';
+  end if;
+
+  insert into project_shares (project_id, created_by, share_type, password_hash, expires_at, share_options)
+  values (
+    p_project_id,
+    auth.uid(),
+    p_share_type,
+    case when p_share_type = 'private' then crypt(p_password, gen_salt('bf')) end,
+    p_expires_at,
+    p_share_options
+  )
+  returning id into v_share_id;
+
+  return v_share_id;
+end;
+$$;
+
+revoke execute on function public.create_project_share(uuid, text, timestamptz, jsonb, text) from public, anon;
+grant execute on function public.create_project_share(uuid, text, timestamptz, jsonb, text) to authenticated;
+
+-- Checks the password of an active private share and issues a 30 minute token.
+create or replace function public.unlock_project_share(p_share_id uuid, p_password text)
+returns table (token text, expires_at timestamptz)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_share project_shares%rowtype;
+  v_token text;
+  v_expires_at timestamptz;
+begin
+  select * into v_share
+    from project_shares s
+   where s.id = p_share_id
+     and s.is_active
+     and s.expires_at > now();
+
+  if not found then
+    raise exception 'Share link not found or has expired' using errcode = 'P0002';
+  end if;
+
+  if v_share.share_type <> 'private'
+     or v_share.password_hash is null
+     or crypt(coalesce(p_password, ''), v_share.password_hash) <> v_share.password_hash then
+    raise exception 'Incorrect password' using errcode = '28P01';
+  end if;
+
+  delete from project_share_tokens t where t.expires_at <= now();
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+  v_expires_at := least(now() + interval '30 minutes', v_share.expires_at);
+
+  insert into project_share_tokens (token_hash, share_id, expires_at)
+  values (encode(digest(v_token, 'sha256'), 'hex'), p_share_id, v_expires_at);
+
+  return query select v_token, v_expires_at;
+end;
+$$;
+
+grant execute on function public.unlock_project_share(uuid, text) to anon, authenticated;
+
+-- True when the request carries a live token for the share in its x-share-token header.
+create or replace function public.share_token_valid(p_share_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select exists (
+    select 1
+      from project_share_tokens t
+     where t.share_id = p_share_id
+       and t.expires_at > now()
+       and t.token_hash = encode(
+         digest(coalesce(current_setting('request.headers', true)::json ->> 'x-share-token', ''), 'sha256'),
+         'hex'
+       )
+  );
+$$;
+
+-- Private shares only open the project's data to requests holding an unlock token.
+create or replace function public.has_active_share(p_project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from project_shares
+     where project_id = p_project_id
+       and is_active
+       and expires_at > now()
+       and (share_type = 'public' or share_token_valid(id))
+  );
+$$;
+
+drop policy "Visitors comment on active share links" on public.project_shares;
+create policy "Visitors comment on active share links" on public.project_shares
+  for update to anon
+  using (is_active and expires_at > now() and (share_type = 'public' or share_token_valid(id)));
@@ -0,0 +1,64 @@
+-- Shared project pages are now served by the get-shared-project edge function, which
+-- applies share_options with the service role. Anonymous visitors lose direct access
+-- to the underlying tables and to project_shares itself.
+
+drop policy "Shared projects are readable" on public.projects;
+drop policy "Shared phases are readable" on public.phases;
+drop policy "Shared transactions are readable" on public.expenses;
+drop policy "Shared materials are readable" on public.materials;
+drop policy "Shared phase photos are readable" on public.phase_photos;
+drop policy "Shared team members are readable" on public.users;
+
+drop function public.has_active_share(uuid);
+
+drop policy "Active share links are readable" on public.project_shares;
+drop policy "Visitors comment on active share links" on public.project_shares;
+
+revoke select, update on public.project_shares from anon;
+
+-- View counting happens inside the edge function only.
+revoke execute on function public.increment_share_view_count(uuid) from public, anon, authenticated;
+
+-- Appends a visitor comment in one statement so concurrent comments are not lost.
+-- Private shares need the unlock token in the x-share-token header.
+create or replace function public.add_share_comment(
+  p_share_id uuid,
+  p_author_name text,
+  p_comment text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_comment jsonb;
+begin
+  if coalesce(trim(p_author_name), '') = '' or coalesce(trim(p_comment), '') = '' then
+    raise exception 'Name and comment are required' using errcode = '22023';
+  end if;
+
+  v_comment := jsonb_build_object(
+    'id', gen_random_uuid(),
+    'comment', trim(p_comment),
+    'author_name', trim(p_author_name),
+    'created_at', now()
+  );
+
+  update project_shares
+     set comments = comments || jsonb_build_array(v_comment)
+   where id = p_share_id
+     and is_active
+     and expires_at > now()
+     and coalesce((share_options ->> 'allowComments')::boolean, false)
+     and (share_type = 'public' or share_token_valid(id));
+
+  if not found then
+    raise exception 'Comments are not open on this link' using errcode = '42501';
+  end if;
+
+  return v_comment;
+end;
+$$;
+
+grant execute on function public.add_share_comment(uuid, text, text) to anon, authenticated;
@@ -0,0 +1,174 @@
+-- Per-visit audit trail for share links, plus lockout after repeated wrong passwords.
+
+alter table public.project_shares
+  add column failed_attempts integer not null default 0,
+  add column locked_at timestamptz,
+  add column last_accessed_at timestamptz;
+
+grant select (failed_attempts, locked_at, last_accessed_at) on public.project_shares to authenticated;
+
+create table public.project_share_access_logs (
+  id uuid primary key default gen_random_uuid(),
+  share_id uuid not null references public.project_shares (id) on delete cascade,
+  event text not null check (event in ('view', 'unlock_success', 'unlock_failed', 'locked')),
+  user_agent text,
+  sections text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index project_share_access_logs_share_id_idx
+  on public.project_share_access_logs (share_id, created_at desc);
+
+alter table public.project_share_access_logs enable row level security;
+
+create policy "Owners read share access logs" on public.project_share_access_logs
+  for select to authenticated
+  using (exists (select 1 from project_shares s where s.id = share_id and s.created_by = auth.uid()));
+
+-- Reduces a user agent string to "Browser on OS" so the log holds no fingerprint.
+create or replace function public.coarse_user_agent(p_user_agent text)
+returns text
+language sql
+immutable
+as $$
+  select case
+           when p_user_agent is null or p_user_agent = '' then null
+           else
+             case
+               when p_user_agent ~* 'edg/' then 'Edge'
+               when p_user_agent ~* 'opr/|opera' then 'Opera'
+               when p_user_agent ~* 'firefox|fxios' then 'Firefox'
+               when p_user_agent ~* 'chrome|crios' then 'Chrome'
+               when p_user_agent ~* 'safari' then 'Safari'
+               else 'Other browser'
+             end
+             || ' on ' ||
+             case
+               when p_user_agent ~* 'android' then 'Android'
+               when p_user_agent ~* 'iphone|ipad|ipod' then 'iOS'
+               when p_user_agent ~* 'windows' then 'Windows'
+               when p_user_agent ~* 'mac os' then 'macOS'
+               when p_user_agent ~* 'linux' then 'Linux'
+               else 'unknown OS'
+             end
+         end;
+$$;
+
+create or replace function public.log_share_access(
+  p_share_id uuid,
+  p_event text,
+  p_user_agent text default null,
+  p_sections text[] default '{}'
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into project_share_access_logs (share_id, event, user_agent, sections)
+  values (p_share_id, p_event, coarse_user_agent(p_user_agent), coalesce(p_sections, '{}'));
+$$;
+
+revoke execute on function public.log_share_access(uuid, text, text, text[]) from public, anon, authenticated;
+
+-- Replaces increment_share_view_count: counts the view, stamps last access and logs it.
+create or replace function public.record_share_view(
+  p_share_id uuid,
+  p_user_agent text default null,
+  p_sections text[] default '{}'
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update project_shares
+     set view_count = view_count + 1,
+         last_accessed_at = now()
+   where id = p_share_id
+     and is_active
+     and expires_at > now();
+
+  if found then
+    perform log_share_access(p_share_id, 'view', p_user_agent, p_sections);
+  end if;
+end;
+$$;
+
+revoke execute on function public.record_share_view(uuid, text, text[]) from public, anon, authenticated;
+
+drop function public.increment_share_view_count(uuid);
+
+-- Wrong passwords are reported through `status` rather than an exception so the
+-- attempt counter is not rolled back. After 5 misses in a row the link locks
+-- until its owner unlocks it.
+drop function public.unlock_project_share(uuid, text);
+
+create function public.unlock_project_share(p_share_id uuid, p_password text)
+returns table (status text, token text, expires_at timestamptz, attempts_remaining integer)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  c_max_attempts constant integer := 5;
+  v_share project_shares%rowtype;
+  v_user_agent text := current_setting('request.headers', true)::json ->> 'user-agent';
+  v_token text;
+  v_expires_at timestamptz;
+begin
+  select * into v_share
+    from project_shares s
+   where s.id = p_share_id
+     and s.is_active
+     and s.expires_at > now()
+     for update;
+
+  if not found then
+    raise exception 'Share link not found or has expired' using errcode = 'P0002';
+  end if;
+
+  if v_share.locked_at is not null then
+    perform log_share_access(p_share_id, 'unlock_failed', v_user_agent);
+    return query select 'locked'::text, null::text, null::timestamptz, 0;
+    return;
+  end if;
+
+  if v_share.share_type <> 'private'
+     or v_share.password_hash is null
+     or crypt(coalesce(p_password, ''), v_share.password_hash) <> v_share.password_hash then
+    update project_shares s
+       set failed_attempts = s.failed_attempts + 1,
+           locked_at = case when s.failed_attempts + 1 >= c_max_attempts then now() end
+     where s.id = p_share_id
+     returning * into v_share;
+
+    perform log_share_access(p_share_id, 'unlock_failed', v_user_agent);
+
+    if v_share.locked_at is not null then
+      perform log_share_access(p_share_id, 'locked', v_user_agent);
+      return query select 'locked'::text, null::text, null::timestamptz, 0;
+    else
+      return query select 'invalid_password'::text, null::text, null::timestamptz,
+        c_max_attempts - v_share.failed_attempts;
+    end if;
+    return;
+  end if;
+
+  update project_shares s set failed_attempts = 0 where s.id = p_share_id;
+  delete from project_share_tokens t where t.expires_at <= now();
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+  v_expires_at := least(now() + interval '30 minutes', v_share.expires_at);
+
+  insert into project_share_tokens (token_hash, share_id, expires_at)
+  values (encode(digest(v_token, 'sha256'), 'hex'), p_share_id, v_expires_at);
+
+  perform log_share_access(p_share_id, 'unlock_success', v_user_agent);
+
+  return query select 'ok'::text, v_token, v_expires_at, c_max_attempts;
+end;
+$$;
+
+grant execute on function public.unlock_project_share(uuid, text) to anon, authenticated;
@@ -0,0 +1,102 @@
+-- Tasks inside phases. A phase's progress is the share of its tasks that are completed.
+
+create table public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  phase_id uuid not null references public.phases (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null,
+  description text,
+  assigned_to uuid references public.users (id) on delete set null,
+  due_date date,
+  status text not null default 'todo' check (status in ('todo', 'in_progress', 'completed')),
+  priority text not null default 'medium' check (priority in ('low', 'medium', 'high')),
+  completed_at timestamptz,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index tasks_phase_id_idx on public.tasks (phase_id);
+create index tasks_project_id_idx on public.tasks (project_id);
+create index tasks_assigned_to_idx on public.tasks (assigned_to);
+
+alter table public.tasks enable row level security;
+
+create policy "Members manage tasks" on public.tasks
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+
+-- Phase progress is rewritten with the definer's rights, so a task may only sit in
+-- a phase of its own project. It is assigned only to a member of that project.
+create or replace function public.check_task_phase()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from phases where id = new.phase_id and project_id = new.project_id) then
+    raise exception 'The phase must belong to the task''s project' using errcode = '22023';
+  end if;
+
+  if new.assigned_to is not null and not exists (
+    select 1 from users where id = new.assigned_to and project_id = new.project_id
+  ) then
+    raise exception 'Assign the task to a member of its project' using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_check_phase
+  before insert or update of phase_id, project_id, assigned_to on public.tasks
+  for each row execute function public.check_task_phase();
+
+create or replace function public.stamp_task_completion()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'completed' and (tg_op = 'INSERT' or old.status <> 'completed') then
+    new.completed_at := now();
+  elsif new.status <> 'completed' then
+    new.completed_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_stamp_completion
+  before insert or update of status on public.tasks
+  for each row execute function public.stamp_task_completion();
+
+create or replace function public.sync_phase_progress()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_phase_ids uuid[];
+begin
+  if tg_op = 'DELETE' then
+    v_phase_ids := array[old.phase_id];
+  elsif tg_op = 'UPDATE' then
+    v_phase_ids := array[old.phase_id, new.phase_id];
+  else
+    v_phase_ids := array[new.phase_id];
+  end if;
+
+  update phases p
+     set progress = coalesce((
+       select round(100.0 * count(*) filter (where t.status = 'completed') / nullif(count(*), 0))::integer
+         from tasks t
+        where t.phase_id = p.id
+     ), 0)
+   where p.id = any (v_phase_ids);
+
+  return null;
+end;
+$$;
+
+create trigger tasks_sync_phase_progress
+  after insert or delete or update of status, phase_id on public.tasks
+  for each row execute function public.sync_phase_progress();
@@ -0,0 +1,226 @@
+-- Labour muster roll and weekly payroll. Site engineers record daily hours per
+-- worker and phase; a week of pending attendance is grouped into a payroll batch,
+-- and paying the batch records a "Labour" expense for it.
+
+create table public.labour_workers (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null,
+  trade text,
+  phone text,
+  rate_per_hour numeric(10, 2) not null default 0 check (rate_per_hour >= 0),
+  active boolean not null default true,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index labour_workers_project_id_idx on public.labour_workers (project_id);
+
+create table public.payroll_batches (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  phase_id uuid not null references public.phases (id) on delete cascade,
+  week_start date not null,
+  week_end date not null,
+  total_hours numeric(10, 2) not null default 0,
+  total_amount numeric(14, 2) not null default 0,
+  status text not null default 'pending' check (status in ('pending', 'paid')),
+  payment_method text,
+  paid_at timestamptz,
+  expense_id uuid references public.expenses (id) on delete set null,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (week_end >= week_start)
+);
+
+create index payroll_batches_project_id_idx on public.payroll_batches (project_id);
+
+-- One row per worker per day. The rate is copied from the worker when the day is
+-- recorded so later rate changes do not rewrite past wages.
+create table public.labour_attendance (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  phase_id uuid not null references public.phases (id) on delete cascade,
+  worker_id uuid not null references public.labour_workers (id) on delete cascade,
+  date date not null,
+  hours_worked numeric(4, 2) not null default 0 check (hours_worked between 0 and 24),
+  rate_per_hour numeric(10, 2) not null default 0 check (rate_per_hour >= 0),
+  status text not null default 'pending' check (status in ('pending', 'paid')),
+  payroll_batch_id uuid references public.payroll_batches (id) on delete set null,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (worker_id, date)
+);
+
+create index labour_attendance_project_date_idx on public.labour_attendance (project_id, date);
+create index labour_attendance_batch_idx on public.labour_attendance (payroll_batch_id);
+
+alter table public.labour_workers enable row level security;
+alter table public.payroll_batches enable row level security;
+alter table public.labour_attendance enable row level security;
+
+create policy "Members manage labour workers" on public.labour_workers
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+
+-- Attendance that is part of a payroll batch is locked until the batch is deleted.
+create policy "Members read attendance" on public.labour_attendance
+  for select to authenticated using (is_project_member(project_id));
+
+create policy "Members record attendance" on public.labour_attendance
+  for insert to authenticated with check (is_project_member(project_id) and payroll_batch_id is null);
+
+create policy "Members edit unbatched attendance" on public.labour_attendance
+  for update to authenticated
+  using (is_project_member(project_id) and payroll_batch_id is null)
+  with check (is_project_member(project_id) and payroll_batch_id is null);
+
+create policy "Members delete unbatched attendance" on public.labour_attendance
+  for delete to authenticated using (is_project_member(project_id) and payroll_batch_id is null);
+
+-- The worker and phase must belong to the day's project. The rate is taken from
+-- the worker on insert and kept on later edits, whatever the client sends.
+create or replace function public.check_labour_attendance()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rate numeric;
+begin
+  select rate_per_hour into v_rate
+    from labour_workers
+   where id = new.worker_id and project_id = new.project_id;
+
+  if not found then
+    raise exception 'The worker must belong to the attendance''s project' using errcode = '22023';
+  end if;
+
+  if not exists (select 1 from phases where id = new.phase_id and project_id = new.project_id) then
+    raise exception 'The phase must belong to the attendance''s project' using errcode = '22023';
+  end if;
+
+  if tg_op = 'INSERT' or new.worker_id <> old.worker_id then
+    new.rate_per_hour := v_rate;
+  else
+    new.rate_per_hour := old.rate_per_hour;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger labour_attendance_check
+  before insert or update of project_id, phase_id, worker_id, rate_per_hour on public.labour_attendance
+  for each row execute function public.check_labour_attendance();
+
+-- Batches are created and paid through the functions below; only pending ones can be removed.
+create policy "Members read payroll batches" on public.payroll_batches
+  for select to authenticated using (is_project_member(project_id));
+
+create policy "Members delete pending payroll batches" on public.payroll_batches
+  for delete to authenticated using (is_project_member(project_id) and status = 'pending');
+
+-- Groups the phase's unbatched attendance for the week starting p_week_start into a new batch.
+create or replace function public.create_payroll_batch(p_phase_id uuid, p_week_start date)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_project_id uuid;
+  v_batch_id uuid;
+  v_hours numeric;
+  v_amount numeric;
+begin
+  select project_id into v_project_id from phases where id = p_phase_id;
+
+  if v_project_id is null or not is_project_member(v_project_id) then
+    raise exception 'Not allowed to run payroll for this phase' using errcode = '42501';
+  end if;
+
+  insert into payroll_batches (project_id, phase_id, week_start, week_end, created_by)
+  values (v_project_id, p_phase_id, p_week_start, p_week_start + 6, auth.uid())
+  returning id into v_batch_id;
+
+  update labour_attendance
+     set payroll_batch_id = v_batch_id
+   where phase_id = p_phase_id
+     and payroll_batch_id is null
+     and status = 'pending'
+     and date between p_week_start and p_week_start + 6;
+
+  select coalesce(sum(hours_worked), 0), coalesce(sum(hours_worked * rate_per_hour), 0)
+    into v_hours, v_amount
+    from labour_attendance
+   where payroll_batch_id = v_batch_id;
+
+  if v_hours = 0 then
+    raise exception 'No unpaid attendance for this week' using errcode = '22023';
+  end if;
+
+  update payroll_batches
+     set total_hours = v_hours, total_amount = round(v_amount, 2)
+   where id = v_batch_id;
+
+  return v_batch_id;
+end;
+$$;
+
+-- Marks a pending batch and its attendance as paid and records the wages as a
+-- "Labour" expense on the batch's phase. Returns the expense id.
+create or replace function public.pay_payroll_batch(p_batch_id uuid, p_payment_method text, p_paid_on date)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch payroll_batches;
+  v_expense_id uuid;
+begin
+  select * into v_batch from payroll_batches where id = p_batch_id for update;
+
+  if v_batch.id is null or not is_project_member(v_batch.project_id) then
+    raise exception 'Payroll batch not found' using errcode = 'P0002';
+  end if;
+
+  if v_batch.status = 'paid' then
+    raise exception 'Payroll batch is already paid' using errcode = '22023';
+  end if;
+
+  insert into expenses (
+    project_id, phase_id, type, category, amount, gst_amount, date,
+    payment_method, source, reference_id, description, created_by
+  )
+  values (
+    v_batch.project_id,
+    v_batch.phase_id,
+    'expense',
+    'Labour',
+    v_batch.total_amount,
+    0,
+    p_paid_on,
+    p_payment_method,
+    'Payroll',
+    v_batch.id::text,
+    format('Wages for %s to %s', to_char(v_batch.week_start, 'DD Mon YYYY'), to_char(v_batch.week_end, 'DD Mon YYYY')),
+    auth.uid()
+  )
+  returning id into v_expense_id;
+
+  update labour_attendance set status = 'paid' where payroll_batch_id = p_batch_id;
+
+  update payroll_batches
+     set status = 'paid', payment_method = p_payment_method, paid_at = now(), expense_id = v_expense_id
+   where id = p_batch_id;
+
+  return v_expense_id;
+end;
+$$;
+
+revoke execute on function public.create_payroll_batch(uuid, date) from public, anon;
+grant execute on function public.create_payroll_batch(uuid, date) to authenticated;
+revoke execute on function public.pay_payroll_batch(uuid, text, date) from public, anon;
+grant execute on function public.pay_payroll_batch(uuid, text, date) to authenticated;
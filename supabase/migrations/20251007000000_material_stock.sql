@@ -0,0 +1,192 @@
+-- Material stock ledger. Every receipt, issue to a phase, return and wastage is a
+-- movement; a material's stock on hand is derived from its movements.
+
+alter table public.materials
+  add column qty_issued numeric(14, 3) not null default 0;
+
+create table public.material_movements (
+  id uuid primary key default gen_random_uuid(),
+  material_id uuid not null references public.materials (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  phase_id uuid references public.phases (id) on delete set null,
+  movement_type text not null check (movement_type in ('received', 'issued', 'returned', 'wasted')),
+  quantity numeric(14, 3) not null check (quantity > 0),
+  unit_cost numeric(14, 2),
+  date date not null default current_date,
+  notes text,
+  expense_id uuid references public.expenses (id) on delete set null,
+  created_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (movement_type <> 'issued' or phase_id is not null)
+);
+
+create index material_movements_material_id_idx on public.material_movements (material_id, date);
+create index material_movements_project_id_idx on public.material_movements (project_id);
+
+alter table public.material_movements enable row level security;
+
+create policy "Members manage material movements" on public.material_movements
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+
+-- Stock is synced with the definer's rights, so the material and phase of a
+-- movement must belong to its project.
+create or replace function public.check_material_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from materials where id = new.material_id and project_id = new.project_id) then
+    raise exception 'The material must belong to the movement''s project' using errcode = '22023';
+  end if;
+
+  if new.phase_id is not null
+     and not exists (select 1 from phases where id = new.phase_id and project_id = new.project_id) then
+    raise exception 'The phase must belong to the movement''s project' using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger material_movements_check
+  before insert or update of material_id, project_id, phase_id on public.material_movements
+  for each row execute function public.check_material_movement();
+
+-- Stock on hand is received + returned - issued - wasted; qty_issued is what phases
+-- have consumed (issued - returned). Refuses movements that would take stock below zero.
+create or replace function public.sync_material_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_material_ids uuid[];
+  v_negative text;
+begin
+  if tg_op = 'DELETE' then
+    v_material_ids := array[old.material_id];
+  elsif tg_op = 'UPDATE' then
+    v_material_ids := array[old.material_id, new.material_id];
+  else
+    v_material_ids := array[new.material_id];
+  end if;
+
+  with totals as (
+    select m.id,
+           coalesce(sum(case when mv.movement_type in ('received', 'returned') then mv.quantity else -mv.quantity end), 0) as on_hand,
+           coalesce(sum(case mv.movement_type when 'issued' then mv.quantity when 'returned' then -mv.quantity else 0 end), 0) as issued
+      from materials m
+      left join material_movements mv on mv.material_id = m.id
+     where m.id = any (v_material_ids)
+     group by m.id
+  )
+  update materials m
+     set stock_quantity = t.on_hand,
+         qty_issued = t.issued,
+         updated_at = now()
+    from totals t
+   where m.id = t.id;
+
+  select name into v_negative
+    from materials
+   where id = any (v_material_ids) and stock_quantity < 0
+   limit 1;
+
+  if v_negative is not null then
+    raise exception 'Not enough % in stock', v_negative using errcode = '23514';
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger material_movements_sync_stock
+  after insert or delete or update of material_id, movement_type, quantity on public.material_movements
+  for each row execute function public.sync_material_stock();
+
+-- Records a movement and, for receipts, optionally posts their value as a
+-- "Materials" expense on the given phase. Runs with the caller's permissions.
+create or replace function public.record_material_movement(
+  p_material_id uuid,
+  p_movement_type text,
+  p_quantity numeric,
+  p_date date,
+  p_phase_id uuid default null,
+  p_unit_cost numeric default null,
+  p_notes text default null,
+  p_payment_method text default null
+)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_material materials;
+  v_expense_id uuid;
+  v_movement_id uuid;
+begin
+  select * into v_material from materials where id = p_material_id;
+
+  if v_material.id is null then
+    raise exception 'Material not found' using errcode = 'P0002';
+  end if;
+
+  if p_phase_id is not null
+     and not exists (select 1 from phases where id = p_phase_id and project_id = v_material.project_id) then
+    raise exception 'The phase must belong to the material''s project' using errcode = '22023';
+  end if;
+
+  if p_payment_method is not null then
+    if p_movement_type <> 'received' or p_phase_id is null then
+      raise exception 'Only receipts against a phase can be posted as an expense' using errcode = '22023';
+    end if;
+
+    insert into expenses (
+      project_id, phase_id, type, category, amount, gst_amount, date,
+      payment_method, source, description, created_by
+    )
+    values (
+      v_material.project_id,
+      p_phase_id,
+      'expense',
+      'Materials',
+      round(p_quantity * coalesce(p_unit_cost, v_material.unit_cost), 2),
+      0,
+      p_date,
+      p_payment_method,
+      v_material.supplier,
+      format('%s %s %s received', p_quantity, coalesce(v_material.unit, ''), v_material.name),
+      auth.uid()
+    )
+    returning id into v_expense_id;
+  end if;
+
+  insert into material_movements (
+    material_id, project_id, phase_id, movement_type, quantity, unit_cost, date, notes, expense_id
+  )
+  values (
+    p_material_id,
+    v_material.project_id,
+    p_phase_id,
+    p_movement_type,
+    p_quantity,
+    coalesce(p_unit_cost, v_material.unit_cost),
+    p_date,
+    p_notes,
+    v_expense_id
+  )
+  returning id into v_movement_id;
+
+  if v_expense_id is not null then
+    update expenses set reference_id = v_movement_id::text where id = v_expense_id;
+  end if;
+
+  return v_movement_id;
+end;
+$$;
+
+revoke execute on function public.record_material_movement(uuid, text, numeric, date, uuid, numeric, text, text) from public, anon;
+grant execute on function public.record_material_movement(uuid, text, numeric, date, uuid, numeric, text, text) to authenticated;
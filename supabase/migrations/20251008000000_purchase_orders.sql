@@ -0,0 +1,185 @@
+-- Purchase orders to suppliers. A PO lists materials of one project from one
+-- supplier; goods received against it are booked into the material stock ledger.
+
+create table public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  po_number text not null,
+  supplier text not null,
+  supplier_gstin text,
+  status text not null default 'draft' check (status in ('draft', 'sent', 'partially_received', 'closed')),
+  order_date date not null default current_date,
+  expected_date date,
+  notes text,
+  sent_at timestamptz,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (project_id, po_number)
+);
+
+create index purchase_orders_project_id_idx on public.purchase_orders (project_id);
+
+create table public.purchase_order_items (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders (id) on delete cascade,
+  material_id uuid not null references public.materials (id) on delete restrict,
+  description text not null,
+  hsn text,
+  unit text,
+  quantity numeric(14, 3) not null check (quantity > 0),
+  unit_cost numeric(14, 2) not null default 0 check (unit_cost >= 0),
+  gst_rate numeric(5, 2) not null default 18 check (gst_rate >= 0),
+  received_quantity numeric(14, 3) not null default 0 check (received_quantity >= 0),
+  created_at timestamptz not null default now(),
+  check (received_quantity <= quantity)
+);
+
+create index purchase_order_items_po_idx on public.purchase_order_items (purchase_order_id);
+
+alter table public.material_movements
+  add column purchase_order_item_id uuid references public.purchase_order_items (id) on delete set null;
+
+alter table public.purchase_orders enable row level security;
+alter table public.purchase_order_items enable row level security;
+
+create policy "Members manage purchase orders" on public.purchase_orders
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+
+create policy "Members manage purchase order items" on public.purchase_order_items
+  for all to authenticated
+  using (exists (select 1 from purchase_orders po where po.id = purchase_order_id and is_project_member(po.project_id)))
+  with check (exists (select 1 from purchase_orders po where po.id = purchase_order_id and is_project_member(po.project_id)));
+
+-- Receipts are booked into the item's material, so it must be a material of the
+-- PO's project.
+create or replace function public.check_purchase_order_item()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1
+      from purchase_orders po
+      join materials m on m.project_id = po.project_id
+     where po.id = new.purchase_order_id and m.id = new.material_id
+  ) then
+    raise exception 'The material must belong to the purchase order''s project' using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger purchase_order_items_check
+  before insert or update of purchase_order_id, material_id on public.purchase_order_items
+  for each row execute function public.check_purchase_order_item();
+
+-- PO numbers run per project and year: PO-2025-0001, PO-2025-0002, ...
+create or replace function public.assign_po_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_prefix text := 'PO-' || to_char(new.order_date, 'YYYY') || '-';
+  v_last integer;
+begin
+  -- Serialise numbering within the project
+  perform 1 from projects where id = new.project_id for update;
+
+  select coalesce(max(substring(po_number from length(v_prefix) + 1)::integer), 0)
+    into v_last
+    from purchase_orders
+   where project_id = new.project_id and po_number like v_prefix || '%';
+
+  new.po_number := v_prefix || lpad((v_last + 1)::text, 4, '0');
+  return new;
+end;
+$$;
+
+create trigger purchase_orders_assign_number
+  before insert on public.purchase_orders
+  for each row execute function public.assign_po_number();
+
+-- Books received quantities into stock and moves the PO to partially received or
+-- closed. p_items is [{ "item_id": uuid, "quantity": number }]; no item can be
+-- received beyond what is still outstanding on it.
+create or replace function public.receive_purchase_order(
+  p_po_id uuid,
+  p_items jsonb,
+  p_date date,
+  p_phase_id uuid default null
+)
+returns text
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_po purchase_orders;
+  v_line jsonb;
+  v_item purchase_order_items;
+  v_quantity numeric;
+  v_status text;
+begin
+  select * into v_po from purchase_orders where id = p_po_id for update;
+
+  if v_po.id is null then
+    raise exception 'Purchase order not found' using errcode = 'P0002';
+  end if;
+
+  if v_po.status in ('draft', 'closed') then
+    raise exception 'Only sent purchase orders can be received' using errcode = '22023';
+  end if;
+
+  for v_line in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_line ->> 'quantity')::numeric;
+    continue when coalesce(v_quantity, 0) <= 0;
+
+    select * into v_item
+      from purchase_order_items
+     where id = (v_line ->> 'item_id')::uuid and purchase_order_id = p_po_id
+       for update;
+
+    if v_item.id is null then
+      raise exception 'Item does not belong to this purchase order' using errcode = '22023';
+    end if;
+
+    if v_item.received_quantity + v_quantity > v_item.quantity then
+      raise exception 'Only % % of % is outstanding',
+        v_item.quantity - v_item.received_quantity, coalesce(v_item.unit, ''), v_item.description
+        using errcode = '22023';
+    end if;
+
+    insert into material_movements (
+      material_id, project_id, phase_id, movement_type, quantity, unit_cost, date, notes, purchase_order_item_id
+    )
+    values (
+      v_item.material_id, v_po.project_id, p_phase_id, 'received', v_quantity, v_item.unit_cost, p_date,
+      'Received against ' || v_po.po_number, v_item.id
+    );
+
+    update purchase_order_items
+       set received_quantity = received_quantity + v_quantity
+     where id = v_item.id;
+  end loop;
+
+  select case
+           when bool_and(received_quantity >= quantity) then 'closed'
+           when bool_or(received_quantity > 0) then 'partially_received'
+           else v_po.status
+         end
+    into v_status
+    from purchase_order_items
+   where purchase_order_id = p_po_id;
+
+  update purchase_orders set status = v_status where id = p_po_id;
+
+  return v_status;
+end;
+$$;
+
+revoke execute on function public.receive_purchase_order(uuid, jsonb, date, uuid) from public, anon;
+grant execute on function public.receive_purchase_order(uuid, jsonb, date, uuid) to authenticated;
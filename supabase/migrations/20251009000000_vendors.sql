@@ -0,0 +1,168 @@
+-- Vendor master. Vendors belong to the admin's account and are shared with their
+-- team; expenses, materials and purchase orders link to them instead of free text.
+
+-- The admin whose data the signed-in user works on: themselves, or whoever invited them.
+create or replace function public.account_owner_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select created_by from users where auth_user_id = auth.uid() and created_by is not null limit 1),
+    auth.uid()
+  );
+$$;
+
+create table public.vendors (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null default account_owner_id() references auth.users (id) on delete cascade,
+  name text not null,
+  gstin text check (gstin is null or gstin ~ '^[0-9]{2}[A-Z0-9]{13}$'),
+  contact_person text,
+  phone text,
+  email text,
+  address text,
+  bank_account_name text,
+  bank_account_number text,
+  bank_ifsc text,
+  upi_id text,
+  categories text[] not null default '{}',
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  unique (owner_id, name)
+);
+
+alter table public.vendors enable row level security;
+
+create policy "Account members manage vendors" on public.vendors
+  for all to authenticated using (owner_id = account_owner_id()) with check (owner_id = account_owner_id());
+
+alter table public.expenses add column vendor_id uuid references public.vendors (id) on delete set null;
+alter table public.materials add column vendor_id uuid references public.vendors (id) on delete set null;
+alter table public.purchase_orders add column vendor_id uuid references public.vendors (id) on delete set null;
+
+create index expenses_vendor_id_idx on public.expenses (vendor_id);
+create index materials_vendor_id_idx on public.materials (vendor_id);
+create index purchase_orders_vendor_id_idx on public.purchase_orders (vendor_id);
+
+-- Bills are goods received (at PO rate plus GST, or the receipt's own rate for
+-- materials bought directly); payments are expenses booked to the vendor.
+-- Both views run with the caller's permissions, so members see their projects only.
+create view public.vendor_ledger with (security_invoker = true) as
+  select coalesce(po.vendor_id, m.vendor_id) as vendor_id,
+         mv.project_id,
+         mv.date,
+         'bill'::text as entry_type,
+         mv.id as source_id,
+         coalesce(po.po_number || ': ', '') || m.name || ' x ' || mv.quantity::text as description,
+         round(mv.quantity * coalesce(poi.unit_cost, mv.unit_cost, m.unit_cost) * (1 + coalesce(poi.gst_rate, 0) / 100), 2) as billed,
+         0::numeric as paid
+    from material_movements mv
+    join materials m on m.id = mv.material_id
+    left join purchase_order_items poi on poi.id = mv.purchase_order_item_id
+    left join purchase_orders po on po.id = poi.purchase_order_id
+   where mv.movement_type = 'received'
+     and coalesce(po.vendor_id, m.vendor_id) is not null
+  union all
+  select e.vendor_id,
+         e.project_id,
+         e.date,
+         'payment'::text,
+         e.id,
+         coalesce(e.description, e.category),
+         0::numeric,
+         e.amount + e.gst_amount
+    from expenses e
+   where e.type = 'expense'
+     and e.vendor_id is not null;
+
+create view public.vendor_balances with (security_invoker = true) as
+  select vendor_id,
+         sum(billed) as billed,
+         sum(paid) as paid,
+         sum(billed) - sum(paid) as outstanding
+    from vendor_ledger
+   group by vendor_id;
+
+-- Same as before, but the posted expense is booked to the material's vendor.
+create or replace function public.record_material_movement(
+  p_material_id uuid,
+  p_movement_type text,
+  p_quantity numeric,
+  p_date date,
+  p_phase_id uuid default null,
+  p_unit_cost numeric default null,
+  p_notes text default null,
+  p_payment_method text default null
+)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_material materials;
+  v_expense_id uuid;
+  v_movement_id uuid;
+begin
+  select * into v_material from materials where id = p_material_id;
+
+  if v_material.id is null then
+    raise exception 'Material not found' using errcode = 'P0002';
+  end if;
+
+  if p_phase_id is not null
+     and not exists (select 1 from phases where id = p_phase_id and project_id = v_material.project_id) then
+    raise exception 'The phase must belong to the material''s project' using errcode = '22023';
+  end if;
+
+  if p_payment_method is not null then
+    if p_movement_type <> 'received' or p_phase_id is null then
+      raise exception 'Only receipts against a phase can be posted as an expense' using errcode = '22023';
+    end if;
+
+    insert into expenses (
+      project_id, phase_id, type, category, amount, gst_amount, date,
+      payment_method, source, vendor_id, description, created_by
+    )
+    values (
+      v_material.project_id,
+      p_phase_id,
+      'expense',
+      'Materials',
+      round(p_quantity * coalesce(p_unit_cost, v_material.unit_cost), 2),
+      0,
+      p_date,
+      p_payment_method,
+      v_material.supplier,
+      v_material.vendor_id,
+      format('%s %s %s received', p_quantity, coalesce(v_material.unit, ''), v_material.name),
+      auth.uid()
+    )
+    returning id into v_expense_id;
+  end if;
+
+  insert into material_movements (
+    material_id, project_id, phase_id, movement_type, quantity, unit_cost, date, notes, expense_id
+  )
+  values (
+    p_material_id,
+    v_material.project_id,
+    p_phase_id,
+    p_movement_type,
+    p_quantity,
+    coalesce(p_unit_cost, v_material.unit_cost),
+    p_date,
+    p_notes,
+    v_expense_id
+  )
+  returning id into v_movement_id;
+
+  if v_expense_id is not null then
+    update expenses set reference_id = v_movement_id::text where id = v_expense_id;
+  end if;
+
+  return v_movement_id;
+end;
+$$;
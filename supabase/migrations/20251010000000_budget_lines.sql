@@ -0,0 +1,67 @@
+-- Structured budgets: one line per phase and expense category, compared against
+-- what has been committed and spent on that phase and category.
+
+create table public.budget_lines (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  phase_id uuid not null references public.phases (id) on delete cascade,
+  category text not null,
+  amount numeric(14, 2) not null check (amount >= 0),
+  -- Expenses that take committed + spent past this share of the line raise a warning
+  warn_at_percent numeric(5, 2) not null default 100 check (warn_at_percent > 0),
+  notes text,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (phase_id, category)
+);
+
+create index budget_lines_project_id_idx on public.budget_lines (project_id);
+
+alter table public.budget_lines enable row level security;
+
+create policy "Members manage budget lines" on public.budget_lines
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+
+-- The phase a purchase order's goods are for, so open orders count against its budget
+alter table public.purchase_orders add column phase_id uuid references public.phases (id) on delete set null;
+
+-- Committed is money promised but not yet booked as an expense: unpaid payroll
+-- batches (Labour) and the unreceived part of sent purchase orders (Materials).
+-- Spent is expenses including GST.
+create view public.budget_variance with (security_invoker = true) as
+  select bl.id as budget_line_id,
+         bl.project_id,
+         bl.phase_id,
+         bl.category,
+         bl.amount as budgeted,
+         bl.warn_at_percent,
+         coalesce(c.committed, 0) as committed,
+         coalesce(s.spent, 0) as spent,
+         bl.amount - coalesce(c.committed, 0) - coalesce(s.spent, 0) as remaining,
+         round((coalesce(c.committed, 0) + coalesce(s.spent, 0)) * 100 / nullif(bl.amount, 0), 1) as percent_consumed
+    from budget_lines bl
+    left join lateral (
+      select sum(e.amount + e.gst_amount) as spent
+        from expenses e
+       where e.phase_id = bl.phase_id
+         and e.category = bl.category
+         and e.type = 'expense'
+    ) s on true
+    left join lateral (
+      select sum(open.amount) as committed
+        from (
+          select pb.total_amount as amount
+            from payroll_batches pb
+           where bl.category = 'Labour'
+             and pb.phase_id = bl.phase_id
+             and pb.status = 'pending'
+          union all
+          select round((poi.quantity - poi.received_quantity) * poi.unit_cost * (1 + poi.gst_rate / 100), 2)
+            from purchase_order_items poi
+            join purchase_orders po on po.id = poi.purchase_order_id
+           where bl.category = 'Materials'
+             and po.phase_id = bl.phase_id
+             and po.status in ('sent', 'partially_received')
+             and poi.received_quantity < poi.quantity
+        ) open
+    ) c on true;
@@ -0,0 +1,281 @@
+-- Expense approvals. A project sets amount thresholds, each naming the role that
+-- approves expenses from that amount up; an expense climbs every threshold it
+-- reaches, lowest first. Expenses the project owner enters, income, and expenses
+-- below the lowest threshold are approved straight away.
+
+create table public.expense_approval_thresholds (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  min_amount numeric(14, 2) not null check (min_amount >= 0),
+  approver_role_id uuid not null references public.roles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (project_id, min_amount)
+);
+
+alter table public.expense_approval_thresholds enable row level security;
+
+create policy "Members read approval thresholds" on public.expense_approval_thresholds
+  for select to authenticated using (is_project_member(project_id));
+
+create policy "Owners manage approval thresholds" on public.expense_approval_thresholds
+  for all to authenticated using (is_project_owner(project_id)) with check (is_project_owner(project_id));
+
+-- `approved` stays as the flag totals filter on; the trigger below keeps it in step
+alter table public.expenses
+  add column approval_status text not null default 'approved'
+    check (approval_status in ('pending', 'approved', 'rejected')),
+  add column approver_role_id uuid references public.roles (id) on delete set null,
+  add column approval_level integer not null default 0;
+
+create index expenses_approval_status_idx on public.expenses (approval_status) where approval_status = 'pending';
+
+-- One row per decision, so comments survive resubmission
+create table public.expense_approvals (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references public.expenses (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  role_id uuid references public.roles (id) on delete set null,
+  decision text not null check (decision in ('approved', 'rejected')),
+  comment text,
+  decided_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  decided_at timestamptz not null default now()
+);
+
+create index expense_approvals_expense_id_idx on public.expense_approvals (expense_id);
+
+alter table public.expense_approvals enable row level security;
+
+-- Written only by review_expense
+create policy "Members read expense approvals" on public.expense_approvals
+  for select to authenticated using (is_project_member(project_id));
+
+-- Whether the signed-in user holds a role on the project, either through their team
+-- membership or the role on their profile
+create or replace function public.has_project_role(p_project_id uuid, p_role_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+           select 1 from users
+            where project_id = p_project_id and auth_user_id = auth.uid() and role_id = p_role_id
+         )
+      or exists (
+           select 1
+             from profiles p
+             join roles r on r.role_name = p.role
+            where p.id = auth.uid() and r.id = p_role_id and r.created_by = (
+              select created_by from projects where id = p_project_id
+            )
+         );
+$$;
+
+-- Role approving the level after `p_level` for this amount, or null when no threshold is left
+create or replace function public.next_expense_approver(p_project_id uuid, p_amount numeric, p_level integer)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select approver_role_id
+    from expense_approval_thresholds
+   where project_id = p_project_id and min_amount <= p_amount
+   order by min_amount
+  offset p_level
+   limit 1;
+$$;
+
+create or replace function public.route_expense_approval()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.type <> 'expense' then
+    new.approval_status := 'approved';
+    new.approver_role_id := null;
+  elsif current_setting('app.reviewing_expense', true) = 'on' then
+    -- review_expense has set the approval fields itself
+    null;
+  elsif tg_op = 'INSERT'
+     or new.type is distinct from old.type
+     or new.amount + new.gst_amount <> old.amount + old.gst_amount
+     or old.approval_status = 'rejected' then
+    -- New, turned from income into an expense, resubmitted or re-priced: start
+    -- again from the first level
+    new.approval_level := 0;
+    new.approver_role_id := case
+      when is_project_owner(new.project_id) then null
+      else next_expense_approver(new.project_id, new.amount + new.gst_amount, 0)
+    end;
+    new.approval_status := case when new.approver_role_id is null then 'approved' else 'pending' end;
+  else
+    -- Other edits keep the approval state; clients can't set it directly
+    new.approval_status := old.approval_status;
+    new.approver_role_id := old.approver_role_id;
+    new.approval_level := old.approval_level;
+  end if;
+
+  new.approved := new.approval_status = 'approved';
+  return new;
+end;
+$$;
+
+create trigger expenses_route_approval
+  before insert or update on public.expenses
+  for each row execute function public.route_expense_approval();
+
+-- Approve or reject a pending expense. Approvals by the waiting role move it to the
+-- next threshold it reaches; the project owner's approval is final.
+create or replace function public.review_expense(p_expense_id uuid, p_decision text, p_comment text default null)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expense expenses;
+  v_owner boolean;
+  v_next uuid;
+  v_status text;
+begin
+  if p_decision not in ('approved', 'rejected') then
+    raise exception 'Decision must be approved or rejected' using errcode = '22023';
+  end if;
+
+  select * into v_expense from expenses where id = p_expense_id for update;
+
+  if v_expense.id is null or not is_project_member(v_expense.project_id) then
+    raise exception 'Expense not found' using errcode = 'P0002';
+  end if;
+
+  if v_expense.approval_status <> 'pending' then
+    raise exception 'This expense is not awaiting approval' using errcode = '22023';
+  end if;
+
+  v_owner := is_project_owner(v_expense.project_id);
+
+  if not v_owner then
+    if v_expense.created_by = auth.uid() then
+      raise exception 'You cannot review your own expense' using errcode = '42501';
+    end if;
+    if not has_project_role(v_expense.project_id, v_expense.approver_role_id) then
+      raise exception 'This expense is waiting for another approver' using errcode = '42501';
+    end if;
+  end if;
+
+  if p_decision = 'rejected' and nullif(trim(p_comment), '') is null then
+    raise exception 'Add a comment explaining the rejection' using errcode = '22023';
+  end if;
+
+  insert into expense_approvals (expense_id, project_id, role_id, decision, comment)
+  values (p_expense_id, v_expense.project_id, v_expense.approver_role_id, p_decision, nullif(trim(p_comment), ''));
+
+  if p_decision = 'approved' and not v_owner then
+    v_next := next_expense_approver(
+      v_expense.project_id, v_expense.amount + v_expense.gst_amount, v_expense.approval_level + 1
+    );
+  end if;
+
+  v_status := case
+    when p_decision = 'rejected' then 'rejected'
+    when v_next is null then 'approved'
+    else 'pending'
+  end;
+
+  perform set_config('app.reviewing_expense', 'on', true);
+
+  update expenses
+     set approval_status = v_status,
+         approver_role_id = case when p_decision = 'approved' then v_next else approver_role_id end,
+         approval_level = case when p_decision = 'approved' then approval_level + 1 else approval_level end
+   where id = p_expense_id;
+
+  perform set_config('app.reviewing_expense', 'off', true);
+
+  return v_status;
+end;
+$$;
+
+revoke execute on function public.review_expense(uuid, text, text) from public, anon;
+grant execute on function public.review_expense(uuid, text, text) to authenticated;
+
+-- Expenses awaiting approval count as committed rather than spent
+create or replace view public.budget_variance with (security_invoker = true) as
+  select bl.id as budget_line_id,
+         bl.project_id,
+         bl.phase_id,
+         bl.category,
+         bl.amount as budgeted,
+         bl.warn_at_percent,
+         coalesce(c.committed, 0) as committed,
+         coalesce(s.spent, 0) as spent,
+         bl.amount - coalesce(c.committed, 0) - coalesce(s.spent, 0) as remaining,
+         round((coalesce(c.committed, 0) + coalesce(s.spent, 0)) * 100 / nullif(bl.amount, 0), 1) as percent_consumed
+    from budget_lines bl
+    left join lateral (
+      select sum(e.amount + e.gst_amount) as spent
+        from expenses e
+       where e.phase_id = bl.phase_id
+         and e.category = bl.category
+         and e.type = 'expense'
+         and e.approval_status = 'approved'
+    ) s on true
+    left join lateral (
+      select sum(open.amount) as committed
+        from (
+          select pb.total_amount as amount
+            from payroll_batches pb
+           where bl.category = 'Labour'
+             and pb.phase_id = bl.phase_id
+             and pb.status = 'pending'
+          union all
+          select round((poi.quantity - poi.received_quantity) * poi.unit_cost * (1 + poi.gst_rate / 100), 2)
+            from purchase_order_items poi
+            join purchase_orders po on po.id = poi.purchase_order_id
+           where bl.category = 'Materials'
+             and po.phase_id = bl.phase_id
+             and po.status in ('sent', 'partially_received')
+             and poi.received_quantity < poi.quantity
+          union all
+          select e.amount + e.gst_amount
+            from expenses e
+           where e.phase_id = bl.phase_id
+             and e.category = bl.category
+             and e.type = 'expense'
+             and e.approval_status = 'pending'
+        ) open
+    ) c on true;
+
+-- Only approved expenses count as payments to a vendor
+create or replace view public.vendor_ledger with (security_invoker = true) as
+  select coalesce(po.vendor_id, m.vendor_id) as vendor_id,
+         mv.project_id,
+         mv.date,
+         'bill'::text as entry_type,
+         mv.id as source_id,
+         coalesce(po.po_number || ': ', '') || m.name || ' x ' || mv.quantity::text as description,
+         round(mv.quantity * coalesce(poi.unit_cost, mv.unit_cost, m.unit_cost) * (1 + coalesce(poi.gst_rate, 0) / 100), 2) as billed,
+         0::numeric as paid
+    from material_movements mv
+    join materials m on m.id = mv.material_id
+    left join purchase_order_items poi on poi.id = mv.purchase_order_item_id
+    left join purchase_orders po on po.id = poi.purchase_order_id
+   where mv.movement_type = 'received'
+     and coalesce(po.vendor_id, m.vendor_id) is not null
+  union all
+  select e.vendor_id,
+         e.project_id,
+         e.date,
+         'payment'::text,
+         e.id,
+         coalesce(e.description, e.category),
+         0::numeric,
+         e.amount + e.gst_amount
+    from expenses e
+   where e.type = 'expense'
+     and e.approval_status = 'approved'
+     and e.vendor_id is not null;
@@ -0,0 +1,306 @@
+-- Client invoices billing project milestones (phases), and credit notes against
+-- them. Drafts can be edited freely; issuing fixes the GST split and takes the next
+-- number of the project owner's series for the financial year, so numbers run
+-- without gaps: INV/2025-26/0001, CN/2025-26/0001, ... Issued documents are never
+-- deleted, only credited. Paying an invoice books the receipt as project income.
+
+-- Last number used per owner, document type and financial year (April to March)
+create table public.invoice_series (
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  doc_type text not null check (doc_type in ('invoice', 'credit_note')),
+  financial_year text not null,
+  last_number integer not null default 0,
+  primary key (owner_id, doc_type, financial_year)
+);
+
+-- Only issue_invoice touches the series
+alter table public.invoice_series enable row level security;
+
+create table public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  -- The milestone billed; the payment is booked as income against it
+  phase_id uuid not null references public.phases (id) on delete restrict,
+  doc_type text not null default 'invoice' check (doc_type in ('invoice', 'credit_note')),
+  original_invoice_id uuid references public.invoices (id) on delete restrict,
+  status text not null default 'draft' check (status in ('draft', 'issued', 'paid', 'cancelled')),
+  -- Set on issue
+  owner_id uuid references auth.users (id) on delete set null,
+  invoice_number text,
+  financial_year text,
+  invoice_date date not null default current_date,
+  due_date date,
+  client_name text not null,
+  client_gstin text check (client_gstin ~ '^[0-9]{2}[A-Z0-9]{13}$'),
+  client_address text,
+  client_email text,
+  client_phone text,
+  -- GST state code of the place of supply; IGST applies when it differs from the supplier's state
+  place_of_supply text not null check (place_of_supply ~ '^[0-9]{2}$'),
+  supplier_gstin text,
+  is_inter_state boolean not null default false,
+  subtotal numeric(14, 2) not null default 0,
+  cgst numeric(14, 2) not null default 0,
+  sgst numeric(14, 2) not null default 0,
+  igst numeric(14, 2) not null default 0,
+  total numeric(14, 2) not null default 0,
+  notes text,
+  issued_at timestamptz,
+  paid_at date,
+  payment_method text,
+  income_id uuid references public.expenses (id) on delete set null,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check ((doc_type = 'credit_note') = (original_invoice_id is not null)),
+  unique (owner_id, doc_type, invoice_number)
+);
+
+create index invoices_project_id_idx on public.invoices (project_id);
+create index invoices_original_invoice_id_idx on public.invoices (original_invoice_id);
+
+create table public.invoice_items (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references public.invoices (id) on delete cascade,
+  description text not null,
+  sac text,
+  quantity numeric(14, 3) not null default 1 check (quantity > 0),
+  rate numeric(14, 2) not null default 0 check (rate >= 0),
+  gst_rate numeric(5, 2) not null default 18 check (gst_rate >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index invoice_items_invoice_id_idx on public.invoice_items (invoice_id);
+
+alter table public.invoices enable row level security;
+alter table public.invoice_items enable row level security;
+
+create policy "Members read invoices" on public.invoices
+  for select to authenticated using (is_project_member(project_id));
+
+-- Status changes go through issue_invoice and mark_invoice_paid
+create policy "Members manage draft invoices" on public.invoices
+  for all to authenticated
+  using (is_project_member(project_id) and status = 'draft')
+  with check (is_project_member(project_id) and status = 'draft');
+
+create policy "Members read invoice items" on public.invoice_items
+  for select to authenticated
+  using (exists (select 1 from invoices i where i.id = invoice_id and is_project_member(i.project_id)));
+
+create policy "Members manage draft invoice items" on public.invoice_items
+  for all to authenticated
+  using (exists (
+    select 1 from invoices i where i.id = invoice_id and i.status = 'draft' and is_project_member(i.project_id)
+  ))
+  with check (exists (
+    select 1 from invoices i where i.id = invoice_id and i.status = 'draft' and is_project_member(i.project_id)
+  ));
+
+-- The milestone billed, and the invoice a credit note is against, must belong to
+-- the document's project.
+create or replace function public.check_invoice()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from phases where id = new.phase_id and project_id = new.project_id) then
+    raise exception 'The phase must belong to the invoice''s project' using errcode = '22023';
+  end if;
+
+  if new.original_invoice_id is not null
+     and not exists (select 1 from invoices where id = new.original_invoice_id and project_id = new.project_id) then
+    raise exception 'A credit note must be against an invoice of the same project' using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger invoices_check
+  before insert or update of project_id, phase_id, original_invoice_id on public.invoices
+  for each row execute function public.check_invoice();
+
+-- Indian financial year of a date: 2025-04-01 .. 2026-03-31 is '2025-26'
+create or replace function public.financial_year(p_date date)
+returns text
+language sql
+immutable
+as $$
+  select y::text || '-' || lpad(((y + 1) % 100)::text, 2, '0')
+    from (select extract(year from p_date)::integer - case when extract(month from p_date) < 4 then 1 else 0 end as y) fy;
+$$;
+
+-- Numbers a draft, fixes its totals and marks it issued. A credit note takes the
+-- tax treatment of its invoice and can't exceed what is left of it; crediting a
+-- paid invoice books a negative income, crediting the whole of an unpaid one
+-- cancels it. Returns the document number.
+create or replace function public.issue_invoice(p_invoice_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invoice invoices;
+  v_original invoices;
+  v_owner uuid;
+  v_supplier_gstin text;
+  v_subtotal numeric;
+  v_gst numeric;
+  v_inter boolean;
+  v_credited numeric := 0;
+  v_fy text;
+  v_number integer;
+  v_invoice_number text;
+  v_income_id uuid;
+begin
+  select * into v_invoice from invoices where id = p_invoice_id for update;
+
+  if v_invoice.id is null or not is_project_member(v_invoice.project_id) then
+    raise exception 'Invoice not found' using errcode = 'P0002';
+  end if;
+
+  if v_invoice.status <> 'draft' then
+    raise exception 'Only draft invoices can be issued' using errcode = '22023';
+  end if;
+
+  select round(sum(quantity * rate), 2), round(sum(quantity * rate * gst_rate / 100), 2)
+    into v_subtotal, v_gst
+    from invoice_items
+   where invoice_id = p_invoice_id;
+
+  if v_subtotal is null then
+    raise exception 'Add at least one line before issuing' using errcode = '22023';
+  end if;
+
+  select created_by into v_owner from projects where id = v_invoice.project_id;
+  select nullif(trim(gst_number), '') into v_supplier_gstin from profiles where id = v_owner;
+  v_inter := v_invoice.place_of_supply <> coalesce(left(v_supplier_gstin, 2), v_invoice.place_of_supply);
+
+  if v_invoice.doc_type = 'credit_note' then
+    select * into v_original from invoices where id = v_invoice.original_invoice_id for update;
+
+    if v_original.status not in ('issued', 'paid') then
+      raise exception 'Credit notes can only be raised against issued or paid invoices' using errcode = '22023';
+    end if;
+
+    select coalesce(sum(total), 0) into v_credited
+      from invoices
+     where original_invoice_id = v_original.id and status = 'issued';
+
+    if v_credited + v_subtotal + v_gst > v_original.total then
+      raise exception 'Credit exceeds the balance of invoice %', v_original.invoice_number using errcode = '22023';
+    end if;
+
+    v_inter := v_original.is_inter_state;
+  end if;
+
+  v_fy := financial_year(v_invoice.invoice_date);
+
+  insert into invoice_series (owner_id, doc_type, financial_year)
+  values (v_owner, v_invoice.doc_type, v_fy)
+  on conflict do nothing;
+
+  -- The row lock serialises issuing within the series
+  update invoice_series
+     set last_number = last_number + 1
+   where owner_id = v_owner and doc_type = v_invoice.doc_type and financial_year = v_fy
+  returning last_number into v_number;
+
+  v_invoice_number := case when v_invoice.doc_type = 'invoice' then 'INV' else 'CN' end
+    || '/' || v_fy || '/' || lpad(v_number::text, 4, '0');
+
+  update invoices
+     set status = 'issued',
+         owner_id = v_owner,
+         invoice_number = v_invoice_number,
+         financial_year = v_fy,
+         supplier_gstin = v_supplier_gstin,
+         is_inter_state = v_inter,
+         subtotal = v_subtotal,
+         cgst = case when v_inter then 0 else round(v_gst / 2, 2) end,
+         sgst = case when v_inter then 0 else v_gst - round(v_gst / 2, 2) end,
+         igst = case when v_inter then v_gst else 0 end,
+         total = v_subtotal + v_gst,
+         issued_at = now()
+   where id = p_invoice_id;
+
+  if v_invoice.doc_type = 'credit_note' then
+    if v_original.status = 'paid' then
+      insert into expenses (
+        project_id, phase_id, type, category, amount, gst_amount, date, payment_method, source, reference_id,
+        description, created_by
+      )
+      values (
+        v_original.project_id, v_original.phase_id, 'income', 'Credit Note', -v_subtotal, -v_gst,
+        v_invoice.invoice_date, coalesce(v_original.payment_method, 'Bank Transfer'), v_invoice.client_name,
+        v_invoice_number, 'Credit note ' || v_invoice_number || ' against ' || v_original.invoice_number, auth.uid()
+      )
+      returning id into v_income_id;
+
+      update invoices set income_id = v_income_id where id = p_invoice_id;
+    elsif v_credited + v_subtotal + v_gst = v_original.total then
+      update invoices set status = 'cancelled' where id = v_original.id;
+    end if;
+  end if;
+
+  return v_invoice_number;
+end;
+$$;
+
+revoke execute on function public.issue_invoice(uuid) from public, anon;
+grant execute on function public.issue_invoice(uuid) to authenticated;
+
+-- Marks an issued invoice paid and books what is left after credit notes as income
+-- against its milestone. Returns the income's expense id.
+create or replace function public.mark_invoice_paid(p_invoice_id uuid, p_paid_on date, p_payment_method text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invoice invoices;
+  v_credit_subtotal numeric;
+  v_credit_gst numeric;
+  v_income_id uuid;
+begin
+  select * into v_invoice from invoices where id = p_invoice_id for update;
+
+  if v_invoice.id is null or not is_project_member(v_invoice.project_id) then
+    raise exception 'Invoice not found' using errcode = 'P0002';
+  end if;
+
+  if v_invoice.doc_type <> 'invoice' or v_invoice.status <> 'issued' then
+    raise exception 'Only issued invoices can be marked paid' using errcode = '22023';
+  end if;
+
+  select coalesce(sum(subtotal), 0), coalesce(sum(cgst + sgst + igst), 0)
+    into v_credit_subtotal, v_credit_gst
+    from invoices
+   where original_invoice_id = p_invoice_id and status = 'issued';
+
+  insert into expenses (
+    project_id, phase_id, type, category, amount, gst_amount, date, payment_method, source, reference_id,
+    description, created_by
+  )
+  values (
+    v_invoice.project_id, v_invoice.phase_id, 'income', 'Milestone Payment',
+    v_invoice.subtotal - v_credit_subtotal, v_invoice.cgst + v_invoice.sgst + v_invoice.igst - v_credit_gst,
+    p_paid_on, p_payment_method, v_invoice.client_name, v_invoice.invoice_number,
+    'Payment for invoice ' || v_invoice.invoice_number, auth.uid()
+  )
+  returning id into v_income_id;
+
+  update invoices
+     set status = 'paid', paid_at = p_paid_on, payment_method = p_payment_method, income_id = v_income_id
+   where id = p_invoice_id;
+
+  return v_income_id;
+end;
+$$;
+
+revoke execute on function public.mark_invoice_paid(uuid, date, text) from public, anon;
+grant execute on function public.mark_invoice_paid(uuid, date, text) to authenticated;
@@ -0,0 +1,188 @@
+-- Razorpay payment links. create-razorpay-payment-link creates the link at Razorpay
+-- and records it against a project milestone or an issued invoice; razorpay-webhook
+-- marks it paid, expired or cancelled, and a payment is booked as project income.
+
+alter table public.payment_links
+  add column project_id uuid references public.projects (id) on delete set null,
+  add column phase_id uuid references public.phases (id) on delete set null,
+  add column invoice_id uuid references public.invoices (id) on delete set null,
+  add column customer_name text,
+  add column customer_email text,
+  add column customer_phone text,
+  add column razorpay_payment_id text,
+  add column amount_paid numeric(14, 2),
+  add column paid_at timestamptz,
+  add column income_id uuid references public.expenses (id) on delete set null;
+
+alter table public.payment_links drop constraint payment_links_payment_status_check;
+alter table public.payment_links add constraint payment_links_payment_status_check
+  check (payment_status in ('pending', 'paid', 'failed', 'expired', 'cancelled'));
+
+create index payment_links_invoice_id_idx on public.payment_links (invoice_id);
+
+-- Razorpay retries deliveries; an event id seen before is acknowledged and skipped.
+-- Written only by razorpay-webhook with the service role.
+create table public.razorpay_webhook_events (
+  event_id text primary key,
+  event text not null,
+  received_at timestamptz not null default now()
+);
+
+alter table public.razorpay_webhook_events enable row level security;
+
+-- Links are written only by create-razorpay-payment-link and razorpay-webhook, so a
+-- creator can't point a link at another project or mark it paid. Owners read them.
+drop policy "Owners manage payment links" on public.payment_links;
+create policy "Owners read payment links" on public.payment_links
+  for select to authenticated using (created_by = auth.uid());
+
+revoke insert, update, delete on public.payment_links from anon, authenticated;
+
+-- Books the payment of an issued invoice, net of credit notes, as income against its
+-- milestone and marks the invoice paid. Callers check access first.
+create or replace function public.book_invoice_payment(
+  p_invoice_id uuid,
+  p_paid_on date,
+  p_payment_method text,
+  p_created_by uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invoice invoices;
+  v_credit_subtotal numeric;
+  v_credit_gst numeric;
+  v_income_id uuid;
+begin
+  select * into v_invoice from invoices where id = p_invoice_id for update;
+
+  if v_invoice.doc_type <> 'invoice' or v_invoice.status <> 'issued' then
+    raise exception 'Only issued invoices can be marked paid' using errcode = '22023';
+  end if;
+
+  select coalesce(sum(subtotal), 0), coalesce(sum(cgst + sgst + igst), 0)
+    into v_credit_subtotal, v_credit_gst
+    from invoices
+   where original_invoice_id = p_invoice_id and status = 'issued';
+
+  insert into expenses (
+    project_id, phase_id, type, category, amount, gst_amount, date, payment_method, source, reference_id,
+    description, created_by
+  )
+  values (
+    v_invoice.project_id, v_invoice.phase_id, 'income', 'Milestone Payment',
+    v_invoice.subtotal - v_credit_subtotal, v_invoice.cgst + v_invoice.sgst + v_invoice.igst - v_credit_gst,
+    p_paid_on, p_payment_method, v_invoice.client_name, v_invoice.invoice_number,
+    'Payment for invoice ' || v_invoice.invoice_number, p_created_by
+  )
+  returning id into v_income_id;
+
+  update invoices
+     set status = 'paid', paid_at = p_paid_on, payment_method = p_payment_method, income_id = v_income_id
+   where id = p_invoice_id;
+
+  return v_income_id;
+end;
+$$;
+
+revoke execute on function public.book_invoice_payment(uuid, date, text, uuid) from public, anon, authenticated;
+
+create or replace function public.mark_invoice_paid(p_invoice_id uuid, p_paid_on date, p_payment_method text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_project_id uuid;
+begin
+  select project_id into v_project_id from invoices where id = p_invoice_id;
+
+  if v_project_id is null or not is_project_member(v_project_id) then
+    raise exception 'Invoice not found' using errcode = 'P0002';
+  end if;
+
+  return book_invoice_payment(p_invoice_id, p_paid_on, p_payment_method, auth.uid());
+end;
+$$;
+
+-- Settles a paid link: pays its invoice, or books the amount received as income
+-- against its milestone. Repeated calls for a paid link return its income. Returns
+-- null for older links that have neither, and when the link's creator has since
+-- left its project; the payment is then only recorded on the link.
+create or replace function public.record_payment_link_payment(
+  p_razorpay_link_id text,
+  p_payment_id text,
+  p_amount_paid numeric,
+  p_payment_method text,
+  p_paid_at timestamptz
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_link payment_links;
+  v_paid_on date := (p_paid_at at time zone 'Asia/Kolkata')::date;
+  v_gst numeric;
+  v_income_id uuid;
+  v_member boolean;
+begin
+  select * into v_link from payment_links where razorpay_link_id = p_razorpay_link_id for update;
+
+  if v_link.id is null then
+    raise exception 'Payment link not found' using errcode = 'P0002';
+  end if;
+
+  if v_link.payment_status = 'paid' then
+    return v_link.income_id;
+  end if;
+
+  -- Called by the webhook with the service role, so auth.uid() is not the creator
+  v_member := exists (select 1 from projects where id = v_link.project_id and created_by = v_link.created_by)
+           or exists (select 1 from users where project_id = v_link.project_id and auth_user_id = v_link.created_by);
+
+  if not v_member then
+    null;
+  elsif v_link.invoice_id is not null
+     and exists (
+       select 1 from invoices where id = v_link.invoice_id and project_id = v_link.project_id and status = 'issued'
+     ) then
+    v_income_id := book_invoice_payment(v_link.invoice_id, v_paid_on, p_payment_method, v_link.created_by);
+  elsif exists (select 1 from phases where id = v_link.phase_id and project_id = v_link.project_id) then
+    -- The amount paid includes GST at the link's rate
+    v_gst := round(p_amount_paid * v_link.gst_rate / (100 + v_link.gst_rate), 2);
+
+    insert into expenses (
+      project_id, phase_id, type, category, amount, gst_amount, date, payment_method, source, reference_id,
+      description, created_by
+    )
+    values (
+      v_link.project_id, v_link.phase_id, 'income', 'Client Payment', p_amount_paid - v_gst, v_gst, v_paid_on,
+      p_payment_method, coalesce(v_link.customer_name, v_link.business_name), p_payment_id,
+      'Payment link: ' || v_link.product_name, v_link.created_by
+    )
+    returning id into v_income_id;
+  end if;
+
+  update payment_links
+     set payment_status = 'paid',
+         status = 'inactive',
+         razorpay_payment_id = p_payment_id,
+         amount_paid = p_amount_paid,
+         paid_at = p_paid_at,
+         income_id = v_income_id,
+         updated_at = now()
+   where id = v_link.id;
+
+  return v_income_id;
+end;
+$$;
+
+revoke execute on function public.record_payment_link_payment(text, text, numeric, text, timestamptz)
+  from public, anon, authenticated;
+grant execute on function public.record_payment_link_payment(text, text, numeric, text, timestamptz) to service_role;
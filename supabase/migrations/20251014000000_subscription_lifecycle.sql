@@ -0,0 +1,563 @@
+-- Subscription lifecycle. Plans limit how many projects, team members and megabytes
+-- of documents an account may have, and the limits are enforced when rows are
+-- created. A subscription runs for its plan's duration, then a grace period, then
+-- lapses and the account falls back to the Free plan. Prices come from this table,
+-- never from the browser; changing plan mid-term credits the unused part of the
+-- current term against the new one.
+
+alter table public.plans
+  add column max_projects integer,    -- null means unlimited
+  add column max_users integer,
+  add column max_storage_mb integer,
+  add column duration_days integer not null default 30 check (duration_days > 0),
+  add column grace_days integer not null default 7 check (grace_days >= 0);
+
+update public.plans set max_projects = 5, max_users = 10, max_storage_mb = 5120 where name = 'Basic';
+update public.plans set max_users = 50, max_storage_mb = 51200 where name = 'Pro';
+
+-- What an account gets without a paid subscription
+insert into public.plans (name, price, description, features, max_projects, max_users, max_storage_mb)
+values ('Free', 0, 'For trying things out', array['1 Project', '3 Team members', '500 MB of documents'], 1, 3, 500)
+on conflict (name) do nothing;
+
+-- 'scheduled' is a renewal paid ahead of time; 'grace' is past its end date but
+-- not yet lapsed. Access is decided from the dates, the status follows them.
+alter table public.subscriptions drop constraint subscriptions_status_check;
+alter table public.subscriptions add constraint subscriptions_status_check
+  check (status in ('scheduled', 'active', 'grace', 'expired', 'cancelled'));
+
+alter table public.subscriptions
+  add column amount_paid numeric(12, 2) not null default 0,
+  add column credit_applied numeric(12, 2) not null default 0,
+  add column razorpay_order_id text,
+  add column razorpay_payment_id text,
+  add column reminder_sent_at timestamptz,
+  add column grace_notice_sent_at timestamptz;
+
+-- Subscriptions bought before prices were recorded were paid at list price
+update public.subscriptions s
+   set amount_paid = p.price
+  from public.plans p
+ where p.id = s.plan_id;
+
+-- Documents count against the storage of the account they were uploaded to
+alter table public.documents
+  add column size_bytes bigint not null default 0 check (size_bytes >= 0),
+  add column owner_id uuid default account_owner_id() references auth.users (id) on delete cascade;
+
+update public.documents set owner_id = uploaded_by where owner_id is null;
+
+create index documents_owner_id_idx on public.documents (owner_id);
+
+-- Both are set by enforce_storage_limit on insert and never changed afterwards
+revoke update on public.documents from authenticated;
+grant update (name, category, project, status, type, tags, version) on public.documents to authenticated;
+
+-- A purchase between quoting a price and Razorpay confirming the payment.
+-- Written by the Razorpay edge functions with the service role.
+create table public.subscription_orders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  plan_id uuid not null references public.plans (id),
+  change text not null check (change in ('new', 'renewal', 'upgrade', 'downgrade')),
+  amount numeric(12, 2) not null check (amount >= 0),
+  credit numeric(12, 2) not null default 0,
+  start_date timestamptz not null,
+  end_date timestamptz not null,
+  replaces_subscription_id uuid references public.subscriptions (id) on delete set null,
+  razorpay_order_id text unique,
+  razorpay_payment_id text,
+  subscription_id uuid references public.subscriptions (id) on delete set null,
+  status text not null default 'created' check (status in ('created', 'paid')),
+  created_at timestamptz not null default now(),
+  paid_at timestamptz
+);
+
+create index subscription_orders_user_id_idx on public.subscription_orders (user_id);
+
+alter table public.subscription_orders enable row level security;
+
+create policy "Users read their subscription orders" on public.subscription_orders
+  for select to authenticated using (user_id = auth.uid());
+
+-- The subscription giving an account access now: the latest one that has started
+-- and is within its end date plus grace period.
+create or replace function public.current_subscription(p_owner_id uuid)
+returns public.subscriptions
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.*
+    from subscriptions s
+    join plans p on p.id = s.plan_id
+   where s.user_id = p_owner_id
+     and s.status <> 'cancelled'
+     and s.start_date <= now()
+     and s.end_date + make_interval(days => p.grace_days) > now()
+   order by s.start_date desc
+   limit 1;
+$$;
+
+create or replace function public.account_plan(p_owner_id uuid)
+returns public.plans
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select p from plans p where p.id = (current_subscription(p_owner_id)).plan_id),
+    (select p from plans p where p.name = 'Free')
+  );
+$$;
+
+create or replace function public.account_usage(p_owner_id uuid)
+returns table (projects bigint, users bigint, storage_bytes bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    (select count(*) from projects where created_by = p_owner_id),
+    (select count(distinct lower(email)) from users where created_by = p_owner_id),
+    (select coalesce(sum(size_bytes), 0)::bigint from documents where owner_id = p_owner_id);
+$$;
+
+revoke execute on function public.current_subscription(uuid) from public, anon, authenticated;
+revoke execute on function public.account_plan(uuid) from public, anon, authenticated;
+revoke execute on function public.account_usage(uuid) from public, anon, authenticated;
+
+-- Limits are checked as rows are created, so they hold however the row is inserted.
+-- 54000 (program_limit_exceeded) lets the app tell a limit apart from other errors.
+create or replace function public.enforce_project_limit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_plan plans := account_plan(new.created_by);
+begin
+  if v_plan.max_projects is not null
+     and (select projects from account_usage(new.created_by)) >= v_plan.max_projects then
+    raise exception 'Your % plan allows % project%. Upgrade your plan to add more.',
+      v_plan.name, v_plan.max_projects, case when v_plan.max_projects = 1 then '' else 's' end
+      using errcode = '54000';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger projects_plan_limit
+  before insert on public.projects
+  for each row execute function public.enforce_project_limit();
+
+-- The same person added to several projects counts once
+create or replace function public.enforce_user_limit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_plan plans := account_plan(new.created_by);
+begin
+  if v_plan.max_users is not null
+     and not exists (select 1 from users where created_by = new.created_by and lower(email) = lower(new.email))
+     and (select users from account_usage(new.created_by)) >= v_plan.max_users then
+    raise exception 'Your % plan allows % team member%. Upgrade your plan to add more.',
+      v_plan.name, v_plan.max_users, case when v_plan.max_users = 1 then '' else 's' end
+      using errcode = '54000';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger users_plan_limit
+  before insert on public.users
+  for each row execute function public.enforce_user_limit();
+
+-- A document is charged to the uploader's account at the size storage recorded for
+-- its file; neither comes from the client.
+create or replace function public.enforce_storage_limit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_plan plans;
+begin
+  new.owner_id := coalesce(account_owner_id(), new.owner_id);
+  new.size_bytes := coalesce((
+    select (metadata ->> 'size')::bigint
+      from storage.objects
+     where bucket_id = 'project-docs' and name = new.file_path
+  ), 0);
+
+  v_plan := account_plan(new.owner_id);
+
+  if v_plan.max_storage_mb is not null
+     and (select storage_bytes from account_usage(new.owner_id)) + new.size_bytes
+         > v_plan.max_storage_mb::bigint * 1024 * 1024 then
+    raise exception 'Your % plan includes % MB of document storage. Upgrade your plan or delete documents to upload more.',
+      v_plan.name, v_plan.max_storage_mb using errcode = '54000';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger documents_plan_limit
+  before insert on public.documents
+  for each row execute function public.enforce_storage_limit();
+
+-- The caller's account: its plan, subscription state, limits and what it uses
+create or replace function public.plan_usage()
+returns table (
+  plan_id uuid,
+  plan_name text,
+  subscription_id uuid,
+  subscription_status text,
+  end_date timestamptz,
+  grace_ends_at timestamptz,
+  max_projects integer,
+  projects_used bigint,
+  max_users integer,
+  users_used bigint,
+  max_storage_mb integer,
+  storage_used_bytes bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_owner_id uuid := account_owner_id();
+  v_subscription subscriptions := current_subscription(v_owner_id);
+  v_plan plans := account_plan(v_owner_id);
+  v_usage record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  select * into v_usage from account_usage(v_owner_id);
+
+  return query select
+    v_plan.id, v_plan.name, v_subscription.id,
+    case
+      when v_subscription.id is null then null
+      when v_subscription.end_date > now() then 'active'
+      else 'grace'
+    end,
+    v_subscription.end_date,
+    v_subscription.end_date + make_interval(days => v_plan.grace_days),
+    v_plan.max_projects, v_usage.projects,
+    v_plan.max_users, v_usage.users,
+    v_plan.max_storage_mb, v_usage.storage_bytes;
+end;
+$$;
+
+-- Prices a purchase of p_plan_name by the signed-in account owner:
+--   new       no subscription, or the current one is in its grace period
+--   renewal   the same plan again, starting when the paid-up time runs out
+--   upgrade / downgrade
+--             starts now; the unused part of the current term (and of renewals paid
+--             ahead) is credited, and credit beyond the new price lengthens the term
+create or replace function public.quote_plan_change(p_plan_name text)
+returns table (
+  plan_id uuid,
+  plan_name text,
+  change text,
+  price numeric,
+  credit numeric,
+  amount_due numeric,
+  start_date timestamptz,
+  end_date timestamptz,
+  replaces_subscription_id uuid
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_plan plans;
+  v_current subscriptions;
+  v_current_plan plans;
+  v_usage record;
+  v_extra_days integer;
+begin
+  if v_user_id is null or account_owner_id() <> v_user_id then
+    raise exception 'Only the account owner can change the plan' using errcode = '42501';
+  end if;
+
+  select * into v_plan from plans where name = p_plan_name;
+
+  if v_plan.id is null then
+    raise exception 'Plan not found' using errcode = 'P0002';
+  end if;
+
+  if v_plan.price <= 0 then
+    raise exception 'The % plan cannot be bought online', v_plan.name using errcode = '22023';
+  end if;
+
+  -- A smaller plan has to fit what the account already has
+  select * into v_usage from account_usage(v_user_id);
+
+  if v_plan.max_projects is not null and v_usage.projects > v_plan.max_projects then
+    raise exception 'You have % projects; the % plan allows %', v_usage.projects, v_plan.name, v_plan.max_projects
+      using errcode = '22023';
+  end if;
+  if v_plan.max_users is not null and v_usage.users > v_plan.max_users then
+    raise exception 'You have % team members; the % plan allows %', v_usage.users, v_plan.name, v_plan.max_users
+      using errcode = '22023';
+  end if;
+  if v_plan.max_storage_mb is not null and v_usage.storage_bytes > v_plan.max_storage_mb::bigint * 1024 * 1024 then
+    raise exception 'Your documents use more than the % MB the % plan includes', v_plan.max_storage_mb, v_plan.name
+      using errcode = '22023';
+  end if;
+
+  v_current := current_subscription(v_user_id);
+
+  plan_id := v_plan.id;
+  plan_name := v_plan.name;
+  price := v_plan.price;
+  credit := 0;
+  amount_due := v_plan.price;
+  replaces_subscription_id := null;
+
+  if v_current.id is null or v_current.end_date <= now() then
+    change := 'new';
+    start_date := now();
+  elsif v_current.plan_id = v_plan.id then
+    change := 'renewal';
+    select max(s.end_date) into start_date
+      from subscriptions s
+     where s.user_id = v_user_id and s.plan_id = v_plan.id and s.status <> 'cancelled';
+  else
+    select * into v_current_plan from plans where id = v_current.plan_id;
+
+    change := case when v_plan.price >= v_current_plan.price then 'upgrade' else 'downgrade' end;
+    start_date := now();
+    replaces_subscription_id := v_current.id;
+
+    select round(coalesce(sum(
+             case
+               when s.start_date > now() then s.amount_paid + s.credit_applied
+               else (s.amount_paid + s.credit_applied)
+                    * extract(epoch from s.end_date - now())
+                    / greatest(extract(epoch from s.end_date - s.start_date), 1)
+             end), 0), 2)
+      into credit
+      from subscriptions s
+     where s.user_id = v_user_id and s.status <> 'cancelled' and s.end_date > now();
+
+    amount_due := greatest(v_plan.price - credit, 0);
+  end if;
+
+  v_extra_days := floor(greatest(credit - v_plan.price, 0) / v_plan.price * v_plan.duration_days);
+  end_date := start_date + make_interval(days => v_plan.duration_days + v_extra_days);
+
+  return next;
+end;
+$$;
+
+-- Turns a paid order into a subscription. Repeated calls return the same
+-- subscription.
+--
+-- The quote behind the order may be stale by the time the payment arrives, so the
+-- dates and credit are worked out again here: a renewal starts when the paid-up
+-- time now runs out, anything else starts now, and a plan change credits what is
+-- left of the subscriptions it cancels at this moment. The term is the share of the
+-- plan's duration that the amount paid plus that credit buys.
+create or replace function public.activate_subscription_order(p_order_id uuid, p_payment_id text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order subscription_orders;
+  v_plan plans;
+  v_start timestamptz := now();
+  v_end timestamptz;
+  v_credit numeric := 0;
+  v_subscription_id uuid;
+begin
+  select * into v_order from subscription_orders where id = p_order_id for update;
+
+  if v_order.id is null then
+    raise exception 'Subscription order not found' using errcode = 'P0002';
+  end if;
+
+  if v_order.status = 'paid' then
+    return v_order.subscription_id;
+  end if;
+
+  select * into v_plan from plans where id = v_order.plan_id;
+
+  if v_order.change = 'renewal' then
+    select greatest(max(s.end_date), now()) into v_start
+      from subscriptions s
+     where s.user_id = v_order.user_id and s.plan_id = v_order.plan_id and s.status <> 'cancelled';
+  elsif v_order.change in ('upgrade', 'downgrade') then
+    select round(coalesce(sum(
+             case
+               when s.start_date > now() then s.amount_paid + s.credit_applied
+               else (s.amount_paid + s.credit_applied)
+                    * extract(epoch from s.end_date - now())
+                    / greatest(extract(epoch from s.end_date - s.start_date), 1)
+             end), 0), 2)
+      into v_credit
+      from subscriptions s
+     where s.user_id = v_order.user_id and s.status <> 'cancelled' and s.end_date > now();
+
+    update subscriptions
+       set status = 'cancelled'
+     where user_id = v_order.user_id and status <> 'cancelled' and end_date > now();
+  end if;
+
+  v_end := v_start + make_interval(days => coalesce(
+    floor((v_order.amount + v_credit) / nullif(v_plan.price, 0) * v_plan.duration_days)::integer,
+    v_plan.duration_days
+  ));
+
+  insert into subscriptions (
+    user_id, plan_id, start_date, end_date, status, amount_paid, credit_applied, razorpay_order_id,
+    razorpay_payment_id
+  )
+  values (
+    v_order.user_id, v_order.plan_id, v_start, v_end,
+    case when v_start > now() then 'scheduled' else 'active' end,
+    v_order.amount, v_credit, v_order.razorpay_order_id, p_payment_id
+  )
+  returning id into v_subscription_id;
+
+  if v_start > now() then
+    update profiles set subscription_end = v_end where id = v_order.user_id;
+  else
+    update profiles
+       set subscription_type = v_plan.name,
+           plan_id = v_plan.id,
+           subscription_start = v_start,
+           subscription_end = v_end
+     where id = v_order.user_id;
+  end if;
+
+  if v_order.amount > 0 then
+    insert into payment_logs (user_id, razorpay_order_id, razorpay_payment_id, amount, currency, status, plan_name)
+    values (
+      v_order.user_id, v_order.razorpay_order_id, p_payment_id, round(v_order.amount * 100)::integer, 'INR',
+      'success', v_plan.name
+    );
+  end if;
+
+  update subscription_orders
+     set status = 'paid',
+         razorpay_payment_id = p_payment_id,
+         subscription_id = v_subscription_id,
+         credit = v_credit,
+         start_date = v_start,
+         end_date = v_end,
+         paid_at = now()
+   where id = v_order.id;
+
+  return v_subscription_id;
+end;
+$$;
+
+-- Moves statuses along with the calendar. Run daily by subscription-reminders.
+create or replace function public.refresh_subscription_statuses()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with started as (
+    update subscriptions s
+       set status = 'active'
+      from plans p
+     where p.id = s.plan_id and s.status = 'scheduled' and s.start_date <= now()
+    returning s.user_id, s.start_date, s.end_date, p.id as plan_id, p.name as plan_name
+  )
+  update profiles pr
+     set subscription_type = started.plan_name,
+         plan_id = started.plan_id,
+         subscription_start = started.start_date,
+         subscription_end = started.end_date
+    from started
+   where pr.id = started.user_id;
+
+  update subscriptions
+     set status = 'grace'
+   where status = 'active' and end_date <= now();
+
+  update subscriptions s
+     set status = 'expired'
+    from plans p
+   where p.id = s.plan_id
+     and s.status = 'grace'
+     and s.end_date + make_interval(days => p.grace_days) <= now();
+end;
+$$;
+
+-- Subscriptions to remind about: ending within a week, or already in their grace
+-- period, with nothing paid to follow them
+create or replace function public.subscriptions_due_for_reminder()
+returns table (
+  subscription_id uuid,
+  reminder text,
+  email text,
+  full_name text,
+  plan_name text,
+  end_date timestamptz,
+  grace_ends_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    s.id,
+    case when s.status = 'grace' then 'grace' else 'renewal' end,
+    coalesce(pr.email, u.email),
+    pr.full_name,
+    p.name,
+    s.end_date,
+    s.end_date + make_interval(days => p.grace_days)
+  from subscriptions s
+  join plans p on p.id = s.plan_id
+  join auth.users u on u.id = s.user_id
+  left join profiles pr on pr.id = s.user_id
+  where (
+      (s.status = 'active' and s.end_date <= now() + interval '7 days' and s.reminder_sent_at is null)
+      or (s.status = 'grace' and s.grace_notice_sent_at is null)
+    )
+    and not exists (
+      select 1 from subscriptions later
+       where later.user_id = s.user_id
+         and later.id <> s.id
+         and later.status <> 'cancelled'
+         and later.end_date > s.end_date
+    );
+$$;
+
+revoke execute on function public.plan_usage() from public, anon;
+revoke execute on function public.quote_plan_change(text) from public, anon;
+grant execute on function public.plan_usage() to authenticated;
+grant execute on function public.quote_plan_change(text) to authenticated;
+
+revoke execute on function public.activate_subscription_order(uuid, text) from public, anon, authenticated;
+revoke execute on function public.refresh_subscription_statuses() from public, anon, authenticated;
+revoke execute on function public.subscriptions_due_for_reminder() from public, anon, authenticated;
+grant execute on function public.activate_subscription_order(uuid, text) to service_role;
+grant execute on function public.refresh_subscription_statuses() to service_role;
+grant execute on function public.subscriptions_due_for_reminder() to service_role;
@@ -0,0 +1,332 @@
+-- Renovation bidding tokens. Builders buy tokens through Razorpay and spend them to
+-- bid; a rejected or withdrawn bid gets its tokens back. Balances only change
+-- through the functions below, and every change writes a ledger row.
+
+create table public.token_packs (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  tokens integer not null check (tokens > 0),
+  price numeric(10, 2) not null check (price > 0),
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+insert into public.token_packs (name, tokens, price)
+values ('Starter', 50, 49.99), ('Popular', 100, 89.99), ('Bulk', 250, 199.99)
+on conflict (name) do nothing;
+
+create table public.token_wallets (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  balance integer not null default 0 check (balance >= 0),
+  updated_at timestamptz not null default now()
+);
+
+-- A pack purchase between creating the Razorpay order and the payment arriving.
+-- Written by the Razorpay edge functions with the service role.
+create table public.token_orders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  pack_id uuid not null references public.token_packs (id),
+  tokens integer not null check (tokens > 0),
+  amount numeric(10, 2) not null check (amount > 0),
+  razorpay_order_id text not null unique,
+  razorpay_payment_id text,
+  status text not null default 'created' check (status in ('created', 'paid')),
+  created_at timestamptz not null default now(),
+  paid_at timestamptz
+);
+
+create index token_orders_user_id_idx on public.token_orders (user_id);
+
+alter table public.bids drop constraint bids_bid_status_check;
+alter table public.bids add constraint bids_bid_status_check
+  check (bid_status in ('active', 'accepted', 'rejected', 'withdrawn'));
+
+alter table public.bids add column responded_at timestamptz;
+
+create unique index bids_one_active_per_bidder on public.bids (renovation_id, admin_id)
+  where bid_status = 'active';
+
+create table public.token_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('purchase', 'bid', 'refund', 'adjustment')),
+  tokens integer not null check (tokens <> 0),
+  balance_after integer not null,
+  bid_id uuid references public.bids (id) on delete set null,
+  token_order_id uuid references public.token_orders (id) on delete set null,
+  description text,
+  created_at timestamptz not null default now()
+);
+
+create index token_transactions_user_id_idx on public.token_transactions (user_id, created_at);
+
+-- Opening balances from the per-member counter the wallet replaces
+insert into public.token_wallets (user_id, balance)
+select auth_user_id, sum(tokens_balance)
+  from public.users
+ where auth_user_id is not null and tokens_balance > 0
+ group by auth_user_id;
+
+insert into public.token_transactions (user_id, kind, tokens, balance_after, description)
+select user_id, 'adjustment', balance, balance, 'Opening balance'
+  from public.token_wallets;
+
+alter table public.users drop column tokens_balance;
+
+alter table public.token_packs enable row level security;
+alter table public.token_wallets enable row level security;
+alter table public.token_orders enable row level security;
+alter table public.token_transactions enable row level security;
+
+create policy "Token packs are readable by signed-in users" on public.token_packs
+  for select to authenticated using (active);
+create policy "Users read their wallet" on public.token_wallets
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users read their token orders" on public.token_orders
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users read their token transactions" on public.token_transactions
+  for select to authenticated using (user_id = auth.uid());
+
+-- Bids are placed and answered through the functions below, which move the tokens
+drop policy "Bidders place bids" on public.bids;
+drop policy "Clients accept or reject bids" on public.bids;
+
+create or replace function public.bid_token_cost()
+returns integer
+language sql
+immutable
+as $$
+  select 10;
+$$;
+
+-- Moves tokens in or out of a wallet and records it. Returns the new balance.
+create or replace function public.post_token_transaction(
+  p_user_id uuid,
+  p_kind text,
+  p_tokens integer,
+  p_bid_id uuid,
+  p_token_order_id uuid,
+  p_description text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_balance integer;
+begin
+  insert into token_wallets (user_id) values (p_user_id) on conflict (user_id) do nothing;
+
+  update token_wallets
+     set balance = balance + p_tokens, updated_at = now()
+   where user_id = p_user_id
+  returning balance into v_balance;
+
+  insert into token_transactions (user_id, kind, tokens, balance_after, bid_id, token_order_id, description)
+  values (p_user_id, p_kind, p_tokens, v_balance, p_bid_id, p_token_order_id, p_description);
+
+  return v_balance;
+end;
+$$;
+
+revoke execute on function public.post_token_transaction(uuid, text, integer, uuid, uuid, text)
+  from public, anon, authenticated;
+
+-- Places a bid if the caller can pay for it. Returns the bid's id.
+create or replace function public.place_bid(p_renovation_id uuid, p_proposal text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_cost integer := bid_token_cost();
+  v_renovation renovations;
+  v_balance integer;
+  v_bid_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  if coalesce(trim(p_proposal), '') = '' then
+    raise exception 'A bid needs a proposal' using errcode = '22023';
+  end if;
+
+  select * into v_renovation from renovations where id = p_renovation_id for share;
+
+  if v_renovation.id is null then
+    raise exception 'Renovation request not found' using errcode = 'P0002';
+  end if;
+
+  if v_renovation.created_by = v_user_id then
+    raise exception 'You cannot bid on your own request' using errcode = '42501';
+  end if;
+
+  if v_renovation.status <> 'pending' then
+    raise exception 'This request is no longer taking bids' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from bids where renovation_id = p_renovation_id and admin_id = v_user_id and bid_status = 'active'
+  ) then
+    raise exception 'You already have an active bid on this request' using errcode = '23505';
+  end if;
+
+  insert into token_wallets (user_id) values (v_user_id) on conflict (user_id) do nothing;
+  select balance into v_balance from token_wallets where user_id = v_user_id for update;
+
+  -- 53000 (insufficient_resources) tells the app to offer a token pack
+  if v_balance < v_cost then
+    raise exception 'A bid costs % tokens and your balance is %', v_cost, v_balance using errcode = '53000';
+  end if;
+
+  insert into bids (renovation_id, admin_id, proposal, tokens_used, bid_status)
+  values (p_renovation_id, v_user_id, trim(p_proposal), v_cost, 'active')
+  returning id into v_bid_id;
+
+  perform post_token_transaction(v_user_id, 'bid', -v_cost, v_bid_id, null, 'Bid on renovation request');
+
+  return v_bid_id;
+end;
+$$;
+
+-- Closes an active bid and gives its tokens back to the bidder
+create or replace function public.close_bid_with_refund(p_bid_id uuid, p_status text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_bid bids;
+begin
+  update bids
+     set bid_status = p_status, responded_at = now()
+   where id = p_bid_id and bid_status = 'active'
+  returning * into v_bid;
+
+  if v_bid.id is not null and v_bid.tokens_used > 0 then
+    perform post_token_transaction(
+      v_bid.admin_id, 'refund', v_bid.tokens_used, v_bid.id, null,
+      case p_status when 'withdrawn' then 'Bid withdrawn' else 'Bid rejected' end
+    );
+  end if;
+end;
+$$;
+
+revoke execute on function public.close_bid_with_refund(uuid, text) from public, anon, authenticated;
+
+create or replace function public.withdraw_bid(p_bid_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_bid bids;
+begin
+  select * into v_bid from bids where id = p_bid_id for update;
+
+  if v_bid.id is null or v_bid.admin_id <> auth.uid() then
+    raise exception 'Bid not found' using errcode = 'P0002';
+  end if;
+
+  if v_bid.bid_status <> 'active' then
+    raise exception 'Only active bids can be withdrawn' using errcode = '22023';
+  end if;
+
+  perform close_bid_with_refund(p_bid_id, 'withdrawn');
+end;
+$$;
+
+-- The client's answer to a bid. Accepting one awards the request and rejects,
+-- and refunds, the other active bids on it.
+create or replace function public.respond_to_bid(p_bid_id uuid, p_decision text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_bid bids;
+  v_other_id uuid;
+begin
+  if p_decision not in ('accept', 'reject') then
+    raise exception 'Unknown decision %', p_decision using errcode = '22023';
+  end if;
+
+  select * into v_bid from bids where id = p_bid_id for update;
+
+  if v_bid.id is null
+     or not exists (select 1 from renovations where id = v_bid.renovation_id and created_by = auth.uid()) then
+    raise exception 'Bid not found' using errcode = 'P0002';
+  end if;
+
+  if v_bid.bid_status <> 'active' then
+    raise exception 'This bid has already been answered' using errcode = '22023';
+  end if;
+
+  if p_decision = 'reject' then
+    perform close_bid_with_refund(p_bid_id, 'rejected');
+    return;
+  end if;
+
+  update bids set bid_status = 'accepted', responded_at = now() where id = p_bid_id;
+  update renovations set status = 'awarded' where id = v_bid.renovation_id;
+
+  for v_other_id in
+    select id from bids where renovation_id = v_bid.renovation_id and bid_status = 'active' for update
+  loop
+    perform close_bid_with_refund(v_other_id, 'rejected');
+  end loop;
+end;
+$$;
+
+-- Adds a paid pack to the buyer's wallet. Repeated calls for a paid order return
+-- the balance without crediting it twice.
+create or replace function public.credit_token_order(p_order_id uuid, p_payment_id text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order token_orders;
+  v_balance integer;
+begin
+  select * into v_order from token_orders where id = p_order_id for update;
+
+  if v_order.id is null then
+    raise exception 'Token order not found' using errcode = 'P0002';
+  end if;
+
+  if v_order.status = 'paid' then
+    select balance into v_balance from token_wallets where user_id = v_order.user_id;
+    return v_balance;
+  end if;
+
+  v_balance := post_token_transaction(
+    v_order.user_id, 'purchase', v_order.tokens, null, v_order.id, v_order.tokens || ' tokens purchased'
+  );
+
+  update token_orders
+     set status = 'paid', razorpay_payment_id = p_payment_id, paid_at = now()
+   where id = v_order.id;
+
+  return v_balance;
+end;
+$$;
+
+revoke execute on function public.place_bid(uuid, text) from public, anon;
+revoke execute on function public.withdraw_bid(uuid) from public, anon;
+revoke execute on function public.respond_to_bid(uuid, text) from public, anon;
+grant execute on function public.place_bid(uuid, text) to authenticated;
+grant execute on function public.withdraw_bid(uuid) to authenticated;
+grant execute on function public.respond_to_bid(uuid, text) to authenticated;
+
+revoke execute on function public.credit_token_order(uuid, text) from public, anon, authenticated;
+grant execute on function public.credit_token_order(uuid, text) to service_role;
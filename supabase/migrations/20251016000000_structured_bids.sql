@@ -0,0 +1,256 @@
+-- Structured renovation bids. A bid prices the work as line items, each with the
+-- days it takes, and states what it includes, excludes and how long it is valid.
+-- Accepting a bid turns the renovation into a running project: one phase per line
+-- item, back to back from the day of acceptance, with the bidder on the team.
+
+alter table public.bids
+  add column total_amount numeric(14, 2) not null default 0,
+  add column timeline_days integer not null default 0,
+  add column inclusions text[] not null default '{}',
+  add column exclusions text[] not null default '{}',
+  add column valid_until date;
+
+create table public.bid_line_items (
+  id uuid primary key default gen_random_uuid(),
+  bid_id uuid not null references public.bids (id) on delete cascade,
+  position integer not null,
+  description text not null check (trim(description) <> ''),
+  amount numeric(14, 2) not null check (amount >= 0),
+  duration_days integer not null check (duration_days > 0),
+  unique (bid_id, position)
+);
+
+-- Files are kept in the project-docs bucket under bids/<bid id>/
+create table public.bid_attachments (
+  id uuid primary key default gen_random_uuid(),
+  bid_id uuid not null references public.bids (id) on delete cascade,
+  name text not null,
+  file_path text not null,
+  size_bytes bigint not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index bid_attachments_bid_id_idx on public.bid_attachments (bid_id);
+
+alter table public.bid_line_items enable row level security;
+alter table public.bid_attachments enable row level security;
+
+-- Bidders and the client who posted the request see a bid's details
+create or replace function public.can_view_bid(p_bid_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from bids b
+      join renovations r on r.id = b.renovation_id
+     where b.id = p_bid_id and (b.admin_id = auth.uid() or r.created_by = auth.uid())
+  );
+$$;
+
+create policy "Bid parties read line items" on public.bid_line_items
+  for select to authenticated using (can_view_bid(bid_id));
+
+create policy "Bid parties read attachments" on public.bid_attachments
+  for select to authenticated using (can_view_bid(bid_id));
+create policy "Bidders attach files to their active bids" on public.bid_attachments
+  for insert to authenticated
+  with check (exists (select 1 from bids where id = bid_id and admin_id = auth.uid() and bid_status = 'active'));
+create policy "Bidders remove attachments from their active bids" on public.bid_attachments
+  for delete to authenticated
+  using (exists (select 1 from bids where id = bid_id and admin_id = auth.uid() and bid_status = 'active'));
+
+-- Bids now carry their line items. p_line_items is a JSON array of
+-- { description, amount, duration_days }.
+drop function public.place_bid(uuid, text);
+
+create or replace function public.place_bid(
+  p_renovation_id uuid,
+  p_proposal text,
+  p_line_items jsonb,
+  p_inclusions text[],
+  p_exclusions text[],
+  p_valid_until date
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_cost integer := bid_token_cost();
+  v_renovation renovations;
+  v_balance integer;
+  v_bid_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  if coalesce(trim(p_proposal), '') = '' then
+    raise exception 'A bid needs a proposal' using errcode = '22023';
+  end if;
+
+  if jsonb_typeof(p_line_items) <> 'array' or jsonb_array_length(p_line_items) = 0 then
+    raise exception 'A bid needs at least one line item' using errcode = '22023';
+  end if;
+
+  if p_valid_until is null or p_valid_until < current_date then
+    raise exception 'The bid must be valid until today or later' using errcode = '22023';
+  end if;
+
+  select * into v_renovation from renovations where id = p_renovation_id for share;
+
+  if v_renovation.id is null then
+    raise exception 'Renovation request not found' using errcode = 'P0002';
+  end if;
+
+  if v_renovation.created_by = v_user_id then
+    raise exception 'You cannot bid on your own request' using errcode = '42501';
+  end if;
+
+  if v_renovation.status <> 'pending' then
+    raise exception 'This request is no longer taking bids' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from bids where renovation_id = p_renovation_id and admin_id = v_user_id and bid_status = 'active'
+  ) then
+    raise exception 'You already have an active bid on this request' using errcode = '23505';
+  end if;
+
+  insert into token_wallets (user_id) values (v_user_id) on conflict (user_id) do nothing;
+  select balance into v_balance from token_wallets where user_id = v_user_id for update;
+
+  -- 53000 (insufficient_resources) tells the app to offer a token pack
+  if v_balance < v_cost then
+    raise exception 'A bid costs % tokens and your balance is %', v_cost, v_balance using errcode = '53000';
+  end if;
+
+  insert into bids (
+    renovation_id, admin_id, proposal, tokens_used, bid_status, inclusions, exclusions, valid_until
+  )
+  values (
+    p_renovation_id, v_user_id, trim(p_proposal), v_cost, 'active',
+    coalesce(p_inclusions, '{}'), coalesce(p_exclusions, '{}'), p_valid_until
+  )
+  returning id into v_bid_id;
+
+  insert into bid_line_items (bid_id, position, description, amount, duration_days)
+  select v_bid_id, item.ordinality, trim(item.value ->> 'description'),
+         (item.value ->> 'amount')::numeric, (item.value ->> 'duration_days')::integer
+    from jsonb_array_elements(p_line_items) with ordinality as item (value, ordinality);
+
+  update bids
+     set total_amount = (select sum(amount) from bid_line_items where bid_id = v_bid_id),
+         timeline_days = (select sum(duration_days) from bid_line_items where bid_id = v_bid_id)
+   where id = v_bid_id;
+
+  perform post_token_transaction(v_user_id, 'bid', -v_cost, v_bid_id, null, 'Bid on renovation request');
+
+  return v_bid_id;
+end;
+$$;
+
+-- Accepting now returns the project the renovation became; rejecting returns null
+drop function public.respond_to_bid(uuid, text);
+
+create or replace function public.respond_to_bid(p_bid_id uuid, p_decision text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_bid bids;
+  v_renovation renovations;
+  v_bidder profiles;
+  v_project_id uuid;
+  v_start date := current_date;
+  v_item bid_line_items;
+  v_other_id uuid;
+begin
+  if p_decision not in ('accept', 'reject') then
+    raise exception 'Unknown decision %', p_decision using errcode = '22023';
+  end if;
+
+  select * into v_bid from bids where id = p_bid_id for update;
+  select * into v_renovation from renovations where id = v_bid.renovation_id for update;
+
+  if v_bid.id is null or v_renovation.created_by is distinct from auth.uid() then
+    raise exception 'Bid not found' using errcode = 'P0002';
+  end if;
+
+  if v_bid.bid_status <> 'active' then
+    raise exception 'This bid has already been answered' using errcode = '22023';
+  end if;
+
+  if p_decision = 'reject' then
+    perform close_bid_with_refund(p_bid_id, 'rejected');
+    return null;
+  end if;
+
+  if v_bid.valid_until < current_date then
+    raise exception 'This bid expired on %', to_char(v_bid.valid_until, 'DD Mon YYYY') using errcode = '22023';
+  end if;
+
+  select * into v_bidder from profiles where id = v_bid.admin_id;
+
+  -- Requests posted before projects were linked get one now
+  v_project_id := v_renovation.project_id;
+  if v_project_id is null then
+    insert into projects (name, created_by)
+    values (coalesce(nullif(substring(v_renovation.requirement from 'Title: ([^\n]*)'), ''), 'Renovation'), auth.uid())
+    returning id into v_project_id;
+
+    update renovations set project_id = v_project_id where id = v_renovation.id;
+  end if;
+
+  update projects
+     set description = coalesce(description, v_renovation.requirement),
+         start_date = v_start,
+         end_date = v_start + v_bid.timeline_days - 1,
+         budget = v_bid.total_amount,
+         status = 'active'
+   where id = v_project_id;
+
+  for v_item in select * from bid_line_items where bid_id = p_bid_id order by position loop
+    insert into phases (project_id, name, start_date, end_date, estimated_cost, contractor_name)
+    values (
+      v_project_id, v_item.description, v_start, v_start + v_item.duration_days - 1, v_item.amount,
+      coalesce(v_bidder.company, v_bidder.full_name)
+    );
+    v_start := v_start + v_item.duration_days;
+  end loop;
+
+  -- The bidder works on the project as a team member
+  if v_bidder.id is not null and not exists (
+    select 1 from users where project_id = v_project_id and auth_user_id = v_bidder.id
+  ) then
+    insert into users (name, email, project_id, auth_user_id, status, created_by)
+    select coalesce(v_bidder.full_name, u.email), coalesce(v_bidder.email, u.email), v_project_id, u.id, 'Active', auth.uid()
+      from auth.users u
+     where u.id = v_bidder.id;
+  end if;
+
+  update bids set bid_status = 'accepted', responded_at = now() where id = p_bid_id;
+  update renovations set status = 'awarded' where id = v_renovation.id;
+
+  for v_other_id in
+    select id from bids where renovation_id = v_bid.renovation_id and bid_status = 'active' for update
+  loop
+    perform close_bid_with_refund(v_other_id, 'rejected');
+  end loop;
+
+  return v_project_id;
+end;
+$$;
+
+revoke execute on function public.place_bid(uuid, text, jsonb, text[], text[], date) from public, anon;
+revoke execute on function public.respond_to_bid(uuid, text) from public, anon;
+grant execute on function public.place_bid(uuid, text, jsonb, text[], text[], date) to authenticated;
+grant execute on function public.respond_to_bid(uuid, text) to authenticated;
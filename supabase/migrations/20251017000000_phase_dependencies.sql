@@ -0,0 +1,116 @@
+-- Finish-to-start dependencies between phases of a project. A successor may start
+-- lag_days after its predecessor ends at the earliest; when a predecessor slips
+-- past that, the successor and everything after it move later by the same amount,
+-- keeping their durations.
+
+create table public.phase_dependencies (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  predecessor_id uuid not null references public.phases (id) on delete cascade,
+  successor_id uuid not null references public.phases (id) on delete cascade,
+  lag_days integer not null default 0 check (lag_days >= 0),
+  created_at timestamptz not null default now(),
+  unique (predecessor_id, successor_id),
+  check (predecessor_id <> successor_id)
+);
+
+create index phase_dependencies_project_id_idx on public.phase_dependencies (project_id);
+create index phase_dependencies_successor_id_idx on public.phase_dependencies (successor_id);
+
+alter table public.phase_dependencies enable row level security;
+
+create policy "Members manage phase dependencies" on public.phase_dependencies
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+
+-- Both phases must belong to the dependency's project, and the link must not
+-- close a loop
+create or replace function public.check_phase_dependency()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (select count(*) from phases where id in (new.predecessor_id, new.successor_id) and project_id = new.project_id) <> 2 then
+    raise exception 'Dependent phases must belong to the same project' using errcode = '22023';
+  end if;
+
+  if exists (
+    with recursive downstream (phase_id) as (
+      select new.successor_id
+      union
+      select d.successor_id
+        from phase_dependencies d
+        join downstream on d.predecessor_id = downstream.phase_id
+       where d.id <> new.id
+    )
+    select 1 from downstream where phase_id = new.predecessor_id
+  ) then
+    raise exception 'This dependency would make the phases depend on each other in a loop' using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger phase_dependencies_check
+  before insert or update on public.phase_dependencies
+  for each row execute function public.check_phase_dependency();
+
+-- Push a phase's successors to start no earlier than it allows. Each moved
+-- successor fires the phases trigger below in turn, so the shift runs down the chain.
+create or replace function public.shift_phase_successors(p_phase_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_end date;
+  v_successor record;
+begin
+  select end_date into v_end from phases where id = p_phase_id;
+
+  for v_successor in
+    select p.id, p.start_date, v_end + d.lag_days + 1 as earliest_start
+      from phase_dependencies d
+      join phases p on p.id = d.successor_id
+     where d.predecessor_id = p_phase_id
+       and p.start_date < v_end + d.lag_days + 1
+  loop
+    update phases
+       set start_date = v_successor.earliest_start,
+           end_date = end_date + (v_successor.earliest_start - v_successor.start_date)
+     where id = v_successor.id;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.shift_phase_successors(uuid) from public, anon, authenticated;
+
+create or replace function public.shift_dependent_phases()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'phases' then
+    perform shift_phase_successors(new.id);
+  else
+    perform shift_phase_successors(new.predecessor_id);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger phases_shift_dependents
+  after update of start_date, end_date on public.phases
+  for each row
+  when (new.end_date > old.end_date)
+  execute function public.shift_dependent_phases();
+
+-- A new link takes effect straight away
+create trigger phase_dependencies_shift_successor
+  after insert or update of lag_days, predecessor_id, successor_id on public.phase_dependencies
+  for each row execute function public.shift_dependent_phases();
@@ -0,0 +1,102 @@
+-- Schedule baselines: a named snapshot of a project's phase dates, kept when the
+-- phases are later rescheduled, so the current plan can be compared with the
+-- original one.
+
+create table public.schedule_baselines (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null check (trim(name) <> ''),
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index schedule_baselines_project_id_idx on public.schedule_baselines (project_id, created_at);
+
+-- The phase name is copied so a baseline still reads after the phase is deleted
+create table public.schedule_baseline_phases (
+  id uuid primary key default gen_random_uuid(),
+  baseline_id uuid not null references public.schedule_baselines (id) on delete cascade,
+  phase_id uuid references public.phases (id) on delete set null,
+  name text not null,
+  start_date date not null,
+  end_date date not null
+);
+
+create index schedule_baseline_phases_baseline_id_idx on public.schedule_baseline_phases (baseline_id);
+
+alter table public.schedule_baselines enable row level security;
+alter table public.schedule_baseline_phases enable row level security;
+
+-- Baselines are created by capture_schedule_baseline and never edited
+create policy "Members read schedule baselines" on public.schedule_baselines
+  for select to authenticated using (is_project_member(project_id));
+create policy "Members delete schedule baselines" on public.schedule_baselines
+  for delete to authenticated using (is_project_member(project_id));
+create policy "Members read baseline phases" on public.schedule_baseline_phases
+  for select to authenticated
+  using (exists (select 1 from schedule_baselines b where b.id = baseline_id and is_project_member(b.project_id)));
+
+-- Snapshot every phase of the project as it stands now. Returns the baseline's id.
+create or replace function public.capture_schedule_baseline(p_project_id uuid, p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_baseline_id uuid;
+begin
+  if not is_project_member(p_project_id) then
+    raise exception 'Project not found' using errcode = 'P0002';
+  end if;
+
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'A baseline needs a name' using errcode = '22023';
+  end if;
+
+  if not exists (select 1 from phases where project_id = p_project_id) then
+    raise exception 'The project has no phases to baseline' using errcode = '22023';
+  end if;
+
+  insert into schedule_baselines (project_id, name, created_by)
+  values (p_project_id, trim(p_name), auth.uid())
+  returning id into v_baseline_id;
+
+  insert into schedule_baseline_phases (baseline_id, phase_id, name, start_date, end_date)
+  select v_baseline_id, id, name, start_date, end_date
+    from phases
+   where project_id = p_project_id;
+
+  return v_baseline_id;
+end;
+$$;
+
+revoke execute on function public.capture_schedule_baseline(uuid, text) from public, anon;
+grant execute on function public.capture_schedule_baseline(uuid, text) to authenticated;
+
+-- Every phase of a baseline against the project's current phases. Slip is in
+-- days, positive when the phase is now later than planned. Phases added since the
+-- baseline have no baseline dates; deleted ones have no current dates.
+create view public.schedule_variance with (security_invoker = true) as
+  select b.id as baseline_id,
+         b.project_id,
+         v.phase_id,
+         v.phase_name,
+         v.baseline_start,
+         v.baseline_end,
+         v.current_start,
+         v.current_end,
+         v.current_start - v.baseline_start as start_slip_days,
+         v.current_end - v.baseline_end as end_slip_days,
+         (v.current_end - v.current_start) - (v.baseline_end - v.baseline_start) as duration_change_days
+    from schedule_baselines b
+    cross join lateral (
+      select coalesce(p.id, bp.phase_id) as phase_id,
+             coalesce(p.name, bp.name) as phase_name,
+             bp.start_date as baseline_start,
+             bp.end_date as baseline_end,
+             p.start_date as current_start,
+             p.end_date as current_end
+        from (select * from schedule_baseline_phases where baseline_id = b.id) bp
+        full join (select * from phases where project_id = b.project_id) p on p.id = bp.phase_id
+    ) v;
@@ -0,0 +1,199 @@
+-- Daily site log: one report per project and day with the weather, manpower on
+-- site by trade, equipment, work done and issues, plus photos from phase_photos.
+-- Once the site engineer signs a log off it can no longer be changed.
+--
+-- Signing off needs the `sign_off_site_logs` permission, given to the site
+-- engineer's role, or owning the project.
+
+create table public.site_logs (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  log_date date not null,
+  weather text,
+  temperature_c numeric(4, 1),
+  equipment text[] not null default '{}',
+  work_done text not null check (trim(work_done) <> ''),
+  issues text,
+  signed_off_by uuid references auth.users (id) on delete set null,
+  signed_off_name text,
+  signed_off_at timestamptz,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (project_id, log_date)
+);
+
+create table public.site_log_manpower (
+  id uuid primary key default gen_random_uuid(),
+  site_log_id uuid not null references public.site_logs (id) on delete cascade,
+  trade text not null check (trim(trade) <> ''),
+  headcount integer not null check (headcount > 0),
+  unique (site_log_id, trade)
+);
+
+create index site_log_manpower_site_log_id_idx on public.site_log_manpower (site_log_id);
+
+-- Photos stay phase photos; a log only points at the ones taken for it
+alter table public.phase_photos
+  add column site_log_id uuid references public.site_logs (id) on delete set null;
+
+create index phase_photos_site_log_id_idx on public.phase_photos (site_log_id);
+
+-- A photo joins only an unsigned log of its own project and cannot leave a
+-- signed-off one
+create or replace function public.check_phase_photo_site_log()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.site_log_id is not distinct from old.site_log_id and new.project_id = old.project_id then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and exists (select 1 from site_logs where id = old.site_log_id and signed_off_at is not null) then
+    raise exception 'The photo belongs to a signed-off site log' using errcode = '22023';
+  end if;
+
+  if new.site_log_id is not null and not exists (
+    select 1 from site_logs where id = new.site_log_id and project_id = new.project_id and signed_off_at is null
+  ) then
+    raise exception 'Photos can only be added to an unsigned site log of their project' using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger phase_photos_check_site_log
+  before insert or update of site_log_id, project_id on public.phase_photos
+  for each row execute function public.check_phase_photo_site_log();
+
+-- "Members manage phase photos" covers deletes too; photos of a signed-off log are kept
+create policy "Signed-off site log photos are kept" on public.phase_photos
+  as restrictive for delete to authenticated
+  using (not exists (select 1 from site_logs where id = site_log_id and signed_off_at is not null));
+
+alter table public.site_logs enable row level security;
+alter table public.site_log_manpower enable row level security;
+
+-- Logs are written through save_site_log; signed-off logs are locked.
+create policy "Members read site logs" on public.site_logs
+  for select to authenticated using (is_project_member(project_id));
+create policy "Members delete unsigned site logs" on public.site_logs
+  for delete to authenticated using (is_project_member(project_id) and signed_off_at is null);
+
+create policy "Members read site log manpower" on public.site_log_manpower
+  for select to authenticated
+  using (exists (select 1 from site_logs l where l.id = site_log_id and is_project_member(l.project_id)));
+
+-- Create or replace the project's log for the day, manpower included. Returns the
+-- log's id.
+create or replace function public.save_site_log(
+  p_project_id uuid,
+  p_log_date date,
+  p_weather text,
+  p_temperature_c numeric,
+  p_equipment text[],
+  p_work_done text,
+  p_issues text,
+  p_manpower jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_log site_logs;
+begin
+  if not is_project_member(p_project_id) then
+    raise exception 'Project not found' using errcode = 'P0002';
+  end if;
+
+  if p_log_date > (now() at time zone 'Asia/Kolkata')::date then
+    raise exception 'Site logs cannot be written for future days' using errcode = '22023';
+  end if;
+
+  if coalesce(trim(p_work_done), '') = '' then
+    raise exception 'Describe the work done on the day' using errcode = '22023';
+  end if;
+
+  select * into v_log from site_logs where project_id = p_project_id and log_date = p_log_date for update;
+
+  if v_log.signed_off_at is not null then
+    raise exception 'The log for this day is signed off and can no longer be changed' using errcode = '22023';
+  end if;
+
+  if v_log.id is null then
+    insert into site_logs (project_id, log_date, weather, temperature_c, equipment, work_done, issues, created_by)
+    values (
+      p_project_id, p_log_date, nullif(trim(p_weather), ''), p_temperature_c,
+      coalesce(p_equipment, '{}'), trim(p_work_done), nullif(trim(p_issues), ''), auth.uid()
+    )
+    returning * into v_log;
+  else
+    update site_logs
+       set weather = nullif(trim(p_weather), ''),
+           temperature_c = p_temperature_c,
+           equipment = coalesce(p_equipment, '{}'),
+           work_done = trim(p_work_done),
+           issues = nullif(trim(p_issues), ''),
+           updated_at = now()
+     where id = v_log.id;
+
+    delete from site_log_manpower where site_log_id = v_log.id;
+  end if;
+
+  insert into site_log_manpower (site_log_id, trade, headcount)
+  select v_log.id, trim(m ->> 'trade'), sum((m ->> 'headcount')::integer)
+    from jsonb_array_elements(coalesce(p_manpower, '[]'::jsonb)) m
+   where coalesce(trim(m ->> 'trade'), '') <> ''
+   group by trim(m ->> 'trade');
+
+  return v_log.id;
+end;
+$$;
+
+-- The signer's name is copied so the log still reads after they leave the project
+create or replace function public.sign_off_site_log(p_log_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_log site_logs;
+begin
+  select * into v_log from site_logs where id = p_log_id for update;
+
+  if v_log.id is null or not is_project_member(v_log.project_id) then
+    raise exception 'Site log not found' using errcode = 'P0002';
+  end if;
+
+  if not is_project_owner(v_log.project_id) and not exists (
+    select 1
+      from roles r
+     where 'sign_off_site_logs' = any (r.permissions)
+       and has_project_role(v_log.project_id, r.id)
+  ) then
+    raise exception 'Only the site engineer can sign off site logs' using errcode = '42501';
+  end if;
+
+  if v_log.signed_off_at is not null then
+    raise exception 'Site log is already signed off' using errcode = '22023';
+  end if;
+
+  update site_logs
+     set signed_off_by = auth.uid(),
+         signed_off_name = (select coalesce(full_name, email) from profiles where id = auth.uid()),
+         signed_off_at = now()
+   where id = p_log_id;
+end;
+$$;
+
+revoke execute on function public.save_site_log(uuid, date, text, numeric, text[], text, text, jsonb) from public, anon;
+grant execute on function public.save_site_log(uuid, date, text, numeric, text[], text, text, jsonb) to authenticated;
+revoke execute on function public.sign_off_site_log(uuid) from public, anon;
+grant execute on function public.sign_off_site_log(uuid) to authenticated;
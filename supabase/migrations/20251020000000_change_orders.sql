@@ -0,0 +1,181 @@
+-- Change orders (variations): a priced scope change to a project, optionally tied
+-- to a phase. A draft is sent to the client, who approves or rejects it through a
+-- share link with the changeOrders option. Approval adds the cost to the project
+-- budget and moves the phase's end date by the schedule impact.
+
+create table public.change_orders (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  co_number text not null,
+  phase_id uuid references public.phases (id) on delete set null,
+  title text not null check (trim(title) <> ''),
+  description text,
+  cost_impact numeric(14, 2) not null default 0,
+  schedule_impact_days integer not null default 0,
+  status text not null default 'draft' check (status in ('draft', 'sent', 'approved', 'rejected')),
+  sent_at timestamptz,
+  responded_at timestamptz,
+  responded_by_name text,
+  response_note text,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (project_id, co_number)
+);
+
+create index change_orders_project_id_idx on public.change_orders (project_id);
+
+alter table public.change_orders enable row level security;
+
+-- Only drafts are edited directly; sending and the client's answer go through the
+-- functions below.
+create policy "Members read change orders" on public.change_orders
+  for select to authenticated using (is_project_member(project_id));
+create policy "Members add draft change orders" on public.change_orders
+  for insert to authenticated with check (is_project_member(project_id) and status = 'draft');
+create policy "Members edit draft change orders" on public.change_orders
+  for update to authenticated
+  using (is_project_member(project_id) and status = 'draft')
+  with check (is_project_member(project_id) and status = 'draft');
+create policy "Members delete draft change orders" on public.change_orders
+  for delete to authenticated using (is_project_member(project_id) and status = 'draft');
+
+-- CO numbers run per project: CO-001, CO-002, ...
+create or replace function public.assign_co_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_last integer;
+begin
+  -- Serialise numbering within the project
+  perform 1 from projects where id = new.project_id for update;
+
+  select coalesce(max(substring(co_number from 4)::integer), 0)
+    into v_last
+    from change_orders
+   where project_id = new.project_id;
+
+  new.co_number := 'CO-' || lpad((v_last + 1)::text, 3, '0');
+  return new;
+end;
+$$;
+
+create trigger change_orders_assign_number
+  before insert on public.change_orders
+  for each row execute function public.assign_co_number();
+
+create or replace function public.check_change_order_phase()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.phase_id is not null
+     and not exists (select 1 from phases where id = new.phase_id and project_id = new.project_id) then
+    raise exception 'The phase must belong to the change order''s project' using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger change_orders_check_phase
+  before insert or update of phase_id on public.change_orders
+  for each row execute function public.check_change_order_phase();
+
+-- Send a draft to the client, or take a sent one back to draft
+create or replace function public.set_change_order_status(p_change_order_id uuid, p_status text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order change_orders;
+begin
+  select * into v_order from change_orders where id = p_change_order_id for update;
+
+  if v_order.id is null or not is_project_member(v_order.project_id) then
+    raise exception 'Change order not found' using errcode = 'P0002';
+  end if;
+
+  if not (v_order.status = 'draft' and p_status = 'sent' or v_order.status = 'sent' and p_status = 'draft') then
+    raise exception 'A % change order cannot be moved to %', v_order.status, p_status using errcode = '22023';
+  end if;
+
+  update change_orders
+     set status = p_status,
+         sent_at = case when p_status = 'sent' then now() end
+   where id = p_change_order_id;
+end;
+$$;
+
+revoke execute on function public.set_change_order_status(uuid, text) from public, anon;
+grant execute on function public.set_change_order_status(uuid, text) to authenticated;
+
+-- The client's answer to a sent change order, given on a share link of its
+-- project that offers change orders. Private shares need the unlock token in the
+-- x-share-token header, as for comments.
+create or replace function public.respond_to_change_order(
+  p_share_id uuid,
+  p_change_order_id uuid,
+  p_approve boolean,
+  p_name text,
+  p_note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order change_orders;
+begin
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'Please give your name' using errcode = '22023';
+  end if;
+
+  select co.* into v_order
+    from change_orders co
+    join project_shares s on s.project_id = co.project_id
+   where co.id = p_change_order_id
+     and s.id = p_share_id
+     and s.is_active
+     and s.expires_at > now()
+     and coalesce((s.share_options ->> 'changeOrders')::boolean, false)
+     and (s.share_type = 'public' or share_token_valid(s.id))
+     for update of co;
+
+  if v_order.id is null then
+    raise exception 'Change order not found' using errcode = 'P0002';
+  end if;
+
+  if v_order.status <> 'sent' then
+    raise exception 'This change order is no longer awaiting approval' using errcode = '22023';
+  end if;
+
+  update change_orders
+     set status = case when p_approve then 'approved' else 'rejected' end,
+         responded_at = now(),
+         responded_by_name = trim(p_name),
+         response_note = nullif(trim(p_note), '')
+   where id = v_order.id;
+
+  if p_approve then
+    update projects
+       set budget = coalesce(budget, 0) + v_order.cost_impact
+     where id = v_order.project_id;
+
+    -- Later end dates push dependent phases along through the phases trigger
+    if v_order.phase_id is not null and v_order.schedule_impact_days <> 0 then
+      update phases
+         set end_date = greatest(start_date, end_date + v_order.schedule_impact_days)
+       where id = v_order.phase_id;
+    end if;
+  end if;
+end;
+$$;
+
+grant execute on function public.respond_to_change_order(uuid, uuid, boolean, text, text) to anon, authenticated;
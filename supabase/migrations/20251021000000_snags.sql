@@ -0,0 +1,124 @@
+-- Snag (punch) list: defects found near handover, per project and optionally
+-- phase. Each snag carries "before" photos of the defect and "after" photos of the
+-- fix, both in the phase-photos bucket, and records who closed it.
+
+create table public.snags (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  phase_id uuid references public.phases (id) on delete set null,
+  snag_number text not null,
+  title text not null check (trim(title) <> ''),
+  description text,
+  location text,
+  trade text,
+  severity text not null default 'medium' check (severity in ('low', 'medium', 'high', 'critical')),
+  assigned_to uuid references public.users (id) on delete set null,
+  due_date date,
+  status text not null default 'open' check (status in ('open', 'in_progress', 'fixed', 'closed')),
+  closed_by uuid references auth.users (id) on delete set null,
+  closed_by_name text,
+  closed_at timestamptz,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (project_id, snag_number)
+);
+
+create index snags_project_id_idx on public.snags (project_id, status);
+create index snags_assigned_to_idx on public.snags (assigned_to);
+
+create table public.snag_photos (
+  id uuid primary key default gen_random_uuid(),
+  snag_id uuid not null references public.snags (id) on delete cascade,
+  kind text not null check (kind in ('before', 'after')),
+  photo_url text not null,
+  file_path text not null,
+  uploaded_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index snag_photos_snag_id_idx on public.snag_photos (snag_id);
+
+alter table public.snags enable row level security;
+alter table public.snag_photos enable row level security;
+
+create policy "Members manage snags" on public.snags
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+
+create policy "Members manage snag photos" on public.snag_photos
+  for all to authenticated
+  using (exists (select 1 from snags s where s.id = snag_id and is_project_member(s.project_id)))
+  with check (exists (select 1 from snags s where s.id = snag_id and is_project_member(s.project_id)));
+
+-- Snag numbers run per project: SN-001, SN-002, ...
+create or replace function public.assign_snag_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_last integer;
+begin
+  -- Serialise numbering within the project
+  perform 1 from projects where id = new.project_id for update;
+
+  select coalesce(max(substring(snag_number from 4)::integer), 0)
+    into v_last
+    from snags
+   where project_id = new.project_id;
+
+  new.snag_number := 'SN-' || lpad((v_last + 1)::text, 3, '0');
+  return new;
+end;
+$$;
+
+create trigger snags_assign_number
+  before insert on public.snags
+  for each row execute function public.assign_snag_number();
+
+-- A snag closes only with an "after" photo of the fix; closing stamps who did it,
+-- reopening clears it. The phase and assignee must belong to the snag's project.
+create or replace function public.check_snag()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.phase_id is not null
+     and not exists (select 1 from phases where id = new.phase_id and project_id = new.project_id) then
+    raise exception 'The phase must belong to the snag''s project' using errcode = '22023';
+  end if;
+
+  if new.assigned_to is not null and not exists (
+    select 1 from users where id = new.assigned_to and project_id = new.project_id
+  ) then
+    raise exception 'Assign the snag to a member of its project' using errcode = '22023';
+  end if;
+
+  if new.status = 'closed' and (tg_op = 'INSERT' or old.status <> 'closed') then
+    if not exists (select 1 from snag_photos where snag_id = new.id and kind = 'after') then
+      raise exception 'Add a photo of the fix before closing the snag' using errcode = '22023';
+    end if;
+
+    new.closed_by := auth.uid();
+    new.closed_by_name := (select coalesce(full_name, email) from profiles where id = auth.uid());
+    new.closed_at := now();
+  elsif new.status <> 'closed' then
+    new.closed_by := null;
+    new.closed_by_name := null;
+    new.closed_at := null;
+  else
+    -- Still closed: the close-out can't be rewritten
+    new.closed_by := old.closed_by;
+    new.closed_by_name := old.closed_by_name;
+    new.closed_at := old.closed_at;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger snags_check
+  before insert or update on public.snags
+  for each row execute function public.check_snag();
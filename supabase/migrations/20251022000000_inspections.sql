@@ -0,0 +1,335 @@
+-- Quality inspections: reusable checklist templates (pre-pour concrete,
+-- waterproofing, electrical rough-in, ...) belong to the account; an inspection
+-- copies a template's items onto a phase and is filled in on site with a
+-- pass / fail / N/A result, notes and photos per item, and the signatures of the
+-- inspector and the contractor. Completing it raises a snag for every failed item.
+
+create table public.inspection_templates (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null default account_owner_id() references auth.users (id) on delete cascade,
+  name text not null check (trim(name) <> ''),
+  description text,
+  created_at timestamptz not null default now(),
+  unique (owner_id, name)
+);
+
+create table public.inspection_template_items (
+  id uuid primary key default gen_random_uuid(),
+  template_id uuid not null references public.inspection_templates (id) on delete cascade,
+  position integer not null,
+  label text not null check (trim(label) <> '')
+);
+
+create index inspection_template_items_template_id_idx on public.inspection_template_items (template_id, position);
+
+create table public.inspections (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  phase_id uuid not null references public.phases (id) on delete cascade,
+  template_id uuid references public.inspection_templates (id) on delete set null,
+  title text not null,
+  scheduled_date date,
+  calendar_event_id uuid references public.calendar_events (id) on delete set null,
+  status text not null default 'in_progress' check (status in ('in_progress', 'completed')),
+  notes text,
+  inspector_name text,
+  inspector_signature text,
+  contractor_name text,
+  contractor_signature text,
+  completed_by uuid references auth.users (id) on delete set null,
+  completed_by_name text,
+  completed_at timestamptz,
+  document_id uuid references public.documents (id) on delete set null,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index inspections_project_id_idx on public.inspections (project_id);
+create index inspections_phase_id_idx on public.inspections (phase_id);
+
+create table public.inspection_items (
+  id uuid primary key default gen_random_uuid(),
+  inspection_id uuid not null references public.inspections (id) on delete cascade,
+  position integer not null,
+  label text not null,
+  result text check (result in ('pass', 'fail', 'na')),
+  note text,
+  snag_id uuid references public.snags (id) on delete set null
+);
+
+create index inspection_items_inspection_id_idx on public.inspection_items (inspection_id, position);
+
+create table public.inspection_photos (
+  id uuid primary key default gen_random_uuid(),
+  inspection_item_id uuid not null references public.inspection_items (id) on delete cascade,
+  photo_url text not null,
+  file_path text not null,
+  uploaded_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index inspection_photos_item_id_idx on public.inspection_photos (inspection_item_id);
+
+alter table public.inspection_templates enable row level security;
+alter table public.inspection_template_items enable row level security;
+alter table public.inspections enable row level security;
+alter table public.inspection_items enable row level security;
+alter table public.inspection_photos enable row level security;
+
+-- Templates are written through save_inspection_template
+create policy "Account members read inspection templates" on public.inspection_templates
+  for select to authenticated using (owner_id = account_owner_id());
+create policy "Account members delete inspection templates" on public.inspection_templates
+  for delete to authenticated using (owner_id = account_owner_id());
+
+create policy "Account members read inspection template items" on public.inspection_template_items
+  for select to authenticated
+  using (exists (select 1 from inspection_templates t where t.id = template_id and t.owner_id = account_owner_id()));
+
+-- Inspections are created and completed through functions; once completed they are locked.
+create policy "Members read inspections" on public.inspections
+  for select to authenticated using (is_project_member(project_id));
+create policy "Members fill in open inspections" on public.inspections
+  for update to authenticated
+  using (is_project_member(project_id) and status = 'in_progress')
+  with check (is_project_member(project_id) and status = 'in_progress');
+create policy "Members delete open inspections" on public.inspections
+  for delete to authenticated using (is_project_member(project_id) and status = 'in_progress');
+
+revoke update on public.inspections from authenticated;
+grant update (notes, inspector_name, inspector_signature, contractor_name, contractor_signature)
+  on public.inspections to authenticated;
+
+create policy "Members read inspection items" on public.inspection_items
+  for select to authenticated
+  using (exists (select 1 from inspections i where i.id = inspection_id and is_project_member(i.project_id)));
+create policy "Members answer open inspection items" on public.inspection_items
+  for update to authenticated
+  using (exists (
+    select 1 from inspections i
+     where i.id = inspection_id and is_project_member(i.project_id) and i.status = 'in_progress'
+  ));
+
+revoke update on public.inspection_items from authenticated;
+grant update (result, note) on public.inspection_items to authenticated;
+
+create policy "Members read inspection photos" on public.inspection_photos
+  for select to authenticated
+  using (exists (
+    select 1 from inspection_items it join inspections i on i.id = it.inspection_id
+     where it.id = inspection_item_id and is_project_member(i.project_id)
+  ));
+create policy "Members manage photos of open inspections" on public.inspection_photos
+  for all to authenticated
+  using (exists (
+    select 1 from inspection_items it join inspections i on i.id = it.inspection_id
+     where it.id = inspection_item_id and is_project_member(i.project_id) and i.status = 'in_progress'
+  ))
+  with check (exists (
+    select 1 from inspection_items it join inspections i on i.id = it.inspection_id
+     where it.id = inspection_item_id and is_project_member(i.project_id) and i.status = 'in_progress'
+  ));
+
+-- Create (p_template_id null) or replace a template with its items in order.
+-- Inspections already started keep their own copy of the items. Returns the
+-- template's id.
+create or replace function public.save_inspection_template(
+  p_template_id uuid,
+  p_name text,
+  p_description text,
+  p_items text[]
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid := p_template_id;
+begin
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'Give the template a name' using errcode = '22023';
+  end if;
+
+  if not exists (select 1 from unnest(p_items) label where trim(label) <> '') then
+    raise exception 'Add at least one checklist item' using errcode = '22023';
+  end if;
+
+  if v_id is null then
+    insert into inspection_templates (owner_id, name, description)
+    values (account_owner_id(), trim(p_name), nullif(trim(p_description), ''))
+    returning id into v_id;
+  else
+    update inspection_templates
+       set name = trim(p_name),
+           description = nullif(trim(p_description), '')
+     where id = v_id and owner_id = account_owner_id();
+
+    if not found then
+      raise exception 'Template not found' using errcode = 'P0002';
+    end if;
+
+    delete from inspection_template_items where template_id = v_id;
+  end if;
+
+  insert into inspection_template_items (template_id, position, label)
+  select v_id, row_number() over (order by ord), trim(label)
+    from unnest(p_items) with ordinality as t(label, ord)
+   where trim(label) <> '';
+
+  return v_id;
+end;
+$$;
+
+-- Start an inspection of a phase from a template. A scheduled inspection also
+-- goes on the caller's calendar as an "inspection" event. Returns its id.
+create or replace function public.create_inspection(
+  p_phase_id uuid,
+  p_template_id uuid,
+  p_scheduled_date date
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_phase phases;
+  v_template inspection_templates;
+  v_event_id uuid;
+  v_id uuid;
+begin
+  select * into v_phase from phases where id = p_phase_id;
+
+  if v_phase.id is null or not is_project_member(v_phase.project_id) then
+    raise exception 'Phase not found' using errcode = 'P0002';
+  end if;
+
+  select * into v_template from inspection_templates where id = p_template_id and owner_id = account_owner_id();
+
+  if v_template.id is null then
+    raise exception 'Template not found' using errcode = 'P0002';
+  end if;
+
+  if p_scheduled_date is not null then
+    insert into calendar_events (title, description, start_date, end_date, all_day, type, project, created_by)
+    values (
+      'Inspection: ' || v_template.name,
+      v_phase.name,
+      p_scheduled_date,
+      p_scheduled_date,
+      true,
+      'inspection',
+      v_phase.project_id::text,
+      auth.uid()
+    )
+    returning id into v_event_id;
+  end if;
+
+  insert into inspections (project_id, phase_id, template_id, title, scheduled_date, calendar_event_id, created_by)
+  values (v_phase.project_id, v_phase.id, v_template.id, v_template.name, p_scheduled_date, v_event_id, auth.uid())
+  returning id into v_id;
+
+  insert into inspection_items (inspection_id, position, label)
+  select v_id, position, label from inspection_template_items where template_id = v_template.id;
+
+  return v_id;
+end;
+$$;
+
+-- Every item needs a result and the inspector must have signed. Each failed item
+-- becomes an open snag on the phase; the calendar event is marked completed.
+create or replace function public.complete_inspection(p_inspection_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_inspection inspections;
+  v_item inspection_items;
+  v_snag_id uuid;
+begin
+  select * into v_inspection from inspections where id = p_inspection_id for update;
+
+  if v_inspection.id is null or not is_project_member(v_inspection.project_id) then
+    raise exception 'Inspection not found' using errcode = 'P0002';
+  end if;
+
+  if v_inspection.status = 'completed' then
+    raise exception 'Inspection is already completed' using errcode = '22023';
+  end if;
+
+  if exists (select 1 from inspection_items where inspection_id = p_inspection_id and result is null) then
+    raise exception 'Mark every item pass, fail or N/A before completing the inspection' using errcode = '22023';
+  end if;
+
+  if coalesce(trim(v_inspection.inspector_name), '') = '' or v_inspection.inspector_signature is null then
+    raise exception 'The inspector must sign the inspection' using errcode = '22023';
+  end if;
+
+  for v_item in
+    select * from inspection_items
+     where inspection_id = p_inspection_id and result = 'fail' and snag_id is null
+     order by position
+  loop
+    insert into snags (project_id, phase_id, title, description, severity, created_by)
+    values (
+      v_inspection.project_id,
+      v_inspection.phase_id,
+      v_item.label,
+      concat_ws(E'\n', v_item.note, 'Failed in inspection: ' || v_inspection.title),
+      'high',
+      auth.uid()
+    )
+    returning id into v_snag_id;
+
+    update inspection_items set snag_id = v_snag_id where id = v_item.id;
+  end loop;
+
+  update inspections
+     set status = 'completed',
+         completed_by = auth.uid(),
+         completed_by_name = (select coalesce(full_name, email) from profiles where id = auth.uid()),
+         completed_at = now()
+   where id = p_inspection_id;
+
+  if v_inspection.calendar_event_id is not null then
+    update calendar_events set status = 'completed' where id = v_inspection.calendar_event_id;
+  end if;
+end;
+$$;
+
+-- Link the report filed in Documents to a completed inspection
+create or replace function public.attach_inspection_report(p_inspection_id uuid, p_document_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from documents
+     where id = p_document_id and uploaded_by = auth.uid() and category = 'Inspection Reports'
+  ) then
+    raise exception 'Report not found' using errcode = 'P0002';
+  end if;
+
+  update inspections
+     set document_id = p_document_id
+   where id = p_inspection_id and status = 'completed' and is_project_member(project_id);
+
+  if not found then
+    raise exception 'Inspection not found' using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+revoke execute on function public.save_inspection_template(uuid, text, text, text[]) from public, anon;
+grant execute on function public.save_inspection_template(uuid, text, text, text[]) to authenticated;
+revoke execute on function public.create_inspection(uuid, uuid, date) from public, anon;
+grant execute on function public.create_inspection(uuid, uuid, date) to authenticated;
+revoke execute on function public.complete_inspection(uuid) from public, anon;
+grant execute on function public.complete_inspection(uuid) to authenticated;
+revoke execute on function public.attach_inspection_report(uuid, uuid) from public, anon;
+grant execute on function public.attach_inspection_report(uuid, uuid) to authenticated;
@@ -0,0 +1,221 @@
+-- Site safety register: incidents (near misses, injuries, property damage) with
+-- the people involved, root cause and corrective actions to follow up, and
+-- toolbox talks with who attended.
+
+create table public.safety_incidents (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  incident_type text not null check (incident_type in ('near_miss', 'injury', 'property_damage')),
+  incident_date date not null,
+  location text,
+  description text not null check (trim(description) <> ''),
+  people_involved text[] not null default '{}',
+  root_cause text,
+  reported_by uuid default auth.uid() references auth.users (id) on delete set null,
+  reported_by_name text,
+  created_at timestamptz not null default now()
+);
+
+create index safety_incidents_project_id_idx on public.safety_incidents (project_id, incident_date);
+
+create table public.safety_corrective_actions (
+  id uuid primary key default gen_random_uuid(),
+  incident_id uuid not null references public.safety_incidents (id) on delete cascade,
+  description text not null check (trim(description) <> ''),
+  assigned_to uuid references public.users (id) on delete set null,
+  due_date date,
+  status text not null default 'open' check (status in ('open', 'closed')),
+  closed_by uuid references auth.users (id) on delete set null,
+  closed_by_name text,
+  closed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index safety_corrective_actions_incident_id_idx on public.safety_corrective_actions (incident_id);
+
+create table public.toolbox_talks (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  talk_date date not null,
+  topic text not null check (trim(topic) <> ''),
+  conducted_by text,
+  notes text,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index toolbox_talks_project_id_idx on public.toolbox_talks (project_id, talk_date);
+
+-- Attendees are the project's labour workers or anyone else by name (visitors,
+-- subcontractor staff); the name is kept so the record survives the worker.
+create table public.toolbox_talk_attendees (
+  id uuid primary key default gen_random_uuid(),
+  talk_id uuid not null references public.toolbox_talks (id) on delete cascade,
+  worker_id uuid references public.labour_workers (id) on delete set null,
+  name text not null check (trim(name) <> '')
+);
+
+create index toolbox_talk_attendees_talk_id_idx on public.toolbox_talk_attendees (talk_id);
+
+alter table public.safety_incidents enable row level security;
+alter table public.safety_corrective_actions enable row level security;
+alter table public.toolbox_talks enable row level security;
+alter table public.toolbox_talk_attendees enable row level security;
+
+create policy "Members manage safety incidents" on public.safety_incidents
+  for all to authenticated using (is_project_member(project_id)) with check (is_project_member(project_id));
+
+create policy "Members manage corrective actions" on public.safety_corrective_actions
+  for all to authenticated
+  using (exists (select 1 from safety_incidents i where i.id = incident_id and is_project_member(i.project_id)))
+  with check (exists (select 1 from safety_incidents i where i.id = incident_id and is_project_member(i.project_id)));
+
+-- Talks are written through save_toolbox_talk
+create policy "Members read toolbox talks" on public.toolbox_talks
+  for select to authenticated using (is_project_member(project_id));
+create policy "Members delete toolbox talks" on public.toolbox_talks
+  for delete to authenticated using (is_project_member(project_id));
+
+create policy "Members read toolbox talk attendees" on public.toolbox_talk_attendees
+  for select to authenticated
+  using (exists (select 1 from toolbox_talks t where t.id = talk_id and is_project_member(t.project_id)));
+
+-- Incidents cannot be dated in the future. The reporter is stamped on insert and
+-- kept after; their name is copied so the register still reads after they leave.
+create or replace function public.stamp_safety_incident()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.incident_date > (now() at time zone 'Asia/Kolkata')::date then
+    raise exception 'Incidents cannot be recorded for future days' using errcode = '22023';
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.reported_by := auth.uid();
+    new.reported_by_name := (select coalesce(full_name, email) from profiles where id = auth.uid());
+  else
+    new.reported_by := old.reported_by;
+    new.reported_by_name := old.reported_by_name;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger safety_incidents_stamp
+  before insert or update on public.safety_incidents
+  for each row execute function public.stamp_safety_incident();
+
+-- An action is assigned to a member of the incident's project. Closing it stamps
+-- who closed it; reopening clears it.
+create or replace function public.stamp_corrective_action()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.assigned_to is not null and not exists (
+    select 1
+      from users u
+      join safety_incidents i on i.project_id = u.project_id
+     where u.id = new.assigned_to and i.id = new.incident_id
+  ) then
+    raise exception 'Assign the action to a member of the incident''s project' using errcode = '22023';
+  end if;
+
+  if new.status = 'closed' and (tg_op = 'INSERT' or old.status <> 'closed') then
+    new.closed_by := auth.uid();
+    new.closed_by_name := (select coalesce(full_name, email) from profiles where id = auth.uid());
+    new.closed_at := now();
+  elsif new.status <> 'closed' then
+    new.closed_by := null;
+    new.closed_by_name := null;
+    new.closed_at := null;
+  else
+    -- Still closed: the close-out can't be rewritten
+    new.closed_by := old.closed_by;
+    new.closed_by_name := old.closed_by_name;
+    new.closed_at := old.closed_at;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger safety_corrective_actions_stamp
+  before insert or update on public.safety_corrective_actions
+  for each row execute function public.stamp_corrective_action();
+
+-- Create (p_talk_id null) or replace a toolbox talk with its attendance. Workers
+-- must be on the talk's project. Returns the talk's id.
+create or replace function public.save_toolbox_talk(
+  p_talk_id uuid,
+  p_project_id uuid,
+  p_talk_date date,
+  p_topic text,
+  p_conducted_by text,
+  p_notes text,
+  p_attendees jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid := p_talk_id;
+begin
+  if not is_project_member(p_project_id) then
+    raise exception 'Project not found' using errcode = 'P0002';
+  end if;
+
+  if coalesce(trim(p_topic), '') = '' then
+    raise exception 'Enter the topic of the talk' using errcode = '22023';
+  end if;
+
+  if p_talk_date > (now() at time zone 'Asia/Kolkata')::date then
+    raise exception 'Toolbox talks cannot be recorded for future days' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(coalesce(p_attendees, '[]'::jsonb)) a
+     where a ->> 'worker_id' is not null
+       and not exists (
+         select 1 from labour_workers w where w.id = (a ->> 'worker_id')::uuid and w.project_id = p_project_id
+       )
+  ) then
+    raise exception 'Attendees must be workers on this project' using errcode = '22023';
+  end if;
+
+  if v_id is null then
+    insert into toolbox_talks (project_id, talk_date, topic, conducted_by, notes, created_by)
+    values (p_project_id, p_talk_date, trim(p_topic), nullif(trim(p_conducted_by), ''), nullif(trim(p_notes), ''), auth.uid())
+    returning id into v_id;
+  else
+    update toolbox_talks
+       set talk_date = p_talk_date,
+           topic = trim(p_topic),
+           conducted_by = nullif(trim(p_conducted_by), ''),
+           notes = nullif(trim(p_notes), '')
+     where id = v_id and project_id = p_project_id;
+
+    if not found then
+      raise exception 'Toolbox talk not found' using errcode = 'P0002';
+    end if;
+
+    delete from toolbox_talk_attendees where talk_id = v_id;
+  end if;
+
+  insert into toolbox_talk_attendees (talk_id, worker_id, name)
+  select v_id, (a ->> 'worker_id')::uuid, trim(a ->> 'name')
+    from jsonb_array_elements(coalesce(p_attendees, '[]'::jsonb)) a
+   where coalesce(trim(a ->> 'name'), '') <> '';
+
+  return v_id;
+end;
+$$;
+
+revoke execute on function public.save_toolbox_talk(uuid, uuid, date, text, text, text, jsonb) from public, anon;
+grant execute on function public.save_toolbox_talk(uuid, uuid, date, text, text, text, jsonb) to authenticated;
@@ -0,0 +1,132 @@
+-- Document revisions: uploading a new revision of a drawing keeps the earlier
+-- files. Revisions of one document share a document_group_id and are numbered
+-- 1, 2, 3...; exactly one is current and the rest are superseded until one is
+-- restored. The old free-text `version` column was never written and is left
+-- alone.
+--
+-- `project` has held either the project's name (the upload form) or its id
+-- (inspection reports), so documents also get a real project_id for share links.
+
+alter table public.documents
+  add column project_id uuid references public.projects (id) on delete set null,
+  add column document_group_id uuid,
+  add column revision integer not null default 1 check (revision > 0),
+  add column is_current boolean not null default true,
+  add column change_note text,
+  add column superseded_at timestamptz;
+
+update public.documents d
+   set project_id = p.id
+  from projects p
+ where d.project = p.id::text
+    or (d.project = p.name and p.created_by = d.owner_id);
+
+update public.documents set document_group_id = id where document_group_id is null;
+
+alter table public.documents alter column document_group_id set not null;
+
+create unique index documents_group_revision_key on public.documents (document_group_id, revision);
+create unique index documents_group_current_key on public.documents (document_group_id) where is_current;
+create index documents_project_id_idx on public.documents (project_id);
+
+-- Revisions are numbered and superseded by the database, never by the client, and
+-- a document stays with the project it was filed under
+revoke update on public.documents from authenticated;
+grant update (name, category, project, status, type, tags, change_note)
+  on public.documents to authenticated;
+
+-- Share links show a project's documents, so only its members can file one there
+create or replace function public.check_document_project()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.project_id is not null and not is_project_member(new.project_id) then
+    raise exception 'Project not found' using errcode = 'P0002';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger documents_check_project
+  before insert or update of project_id on public.documents
+  for each row execute function public.check_document_project();
+
+-- A document without a group starts its own at revision 1. A new revision takes
+-- the next number in its group and supersedes the current one.
+create or replace function public.assign_document_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.is_current := true;
+  new.superseded_at := null;
+
+  if new.document_group_id is null or new.document_group_id = new.id then
+    new.document_group_id := new.id;
+    new.revision := 1;
+    return new;
+  end if;
+
+  perform 1 from documents
+   where document_group_id = new.document_group_id and uploaded_by = new.uploaded_by
+     for update;
+
+  if not found then
+    raise exception 'Document not found' using errcode = 'P0002';
+  end if;
+
+  new.revision := (select max(revision) + 1 from documents where document_group_id = new.document_group_id);
+
+  update documents
+     set is_current = false,
+         superseded_at = now()
+   where document_group_id = new.document_group_id and is_current;
+
+  return new;
+end;
+$$;
+
+create trigger documents_revision
+  before insert on public.documents
+  for each row execute function public.assign_document_revision();
+
+-- Make an earlier revision current again. The revisions after it stay in the
+-- history, marked superseded.
+create or replace function public.set_current_document_revision(p_document_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_group uuid;
+begin
+  select document_group_id into v_group
+    from documents
+   where id = p_document_id and uploaded_by = auth.uid();
+
+  if v_group is null then
+    raise exception 'Document not found' using errcode = 'P0002';
+  end if;
+
+  perform 1 from documents where document_group_id = v_group for update;
+
+  update documents
+     set is_current = false,
+         superseded_at = now()
+   where document_group_id = v_group and is_current and id <> p_document_id;
+
+  update documents
+     set is_current = true,
+         superseded_at = null
+   where id = p_document_id;
+end;
+$$;
+
+revoke execute on function public.set_current_document_revision(uuid) from public, anon;
+grant execute on function public.set_current_document_revision(uuid) to authenticated;
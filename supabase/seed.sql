@@ -0,0 +1,18 @@
+-- Local development seed data. Runs after migrations on `supabase db reset`.
+
+-- Limits left null are unlimited
+insert into public.plans (name, price, description, features, max_projects, max_users, max_storage_mb)
+values
+  ('Basic', 1499, 'For a single builder',
+    array['5 Projects', 'Full expense tracking', 'Vendor management', 'Advanced reports', 'Priority support', 'PDF/Excel export'],
+    5, 10, 5120),
+  ('Pro', 3499, 'For growing teams',
+    array['Unlimited Projects', 'Multi-phase tracking', 'Role-based access', 'Custom reports', '24/7 support', 'API integrations', 'Data backup'],
+    null, 50, 51200),
+  ('Enterprise', 0, 'Priced on request',
+    array['Everything in Pro', 'Custom integrations', 'Dedicated support', 'On-site training', 'Custom features', 'SLA guarantee'],
+    null, null, null)
+on conflict (name) do update
+  set max_projects = excluded.max_projects,
+      max_users = excluded.max_users,
+      max_storage_mb = excluded.max_storage_mb;
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
@@ -13,4 +14,11 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ["lucide-react"],
   },
+  test: {
+    // The Supabase client is created on import; tests never reach it
+    env: {
+      VITE_SUPABASE_URL: "http://localhost:54321",
+      VITE_SUPABASE_ANON_KEY: "test-anon-key",
+    },
+  },
 });